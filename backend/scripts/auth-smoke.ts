@@ -55,15 +55,15 @@ async function run(): Promise<void> {
     `Expected 401 for guest AI threads route, got ${aiThreadGuest.status}`
   )
 
-  // 5) Delivery verification route should be public (auth-wise).
+  // 5) Delivery verification route should require a rider or admin token.
   const deliveryVerify = await requestJson(`${root}/api/orders/delivery/verify-code`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({ code: '0000' }),
   })
   assertCondition(
-    deliveryVerify.status !== 401,
-    `Expected non-401 for delivery verify public route, got ${deliveryVerify.status}`
+    deliveryVerify.status === 401,
+    `Expected 401 for guest delivery verify route, got ${deliveryVerify.status}`
   )
 
   console.log('Auth smoke tests passed')
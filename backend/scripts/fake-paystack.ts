@@ -0,0 +1,166 @@
+/**
+ * Minimal local stand-in for the Paystack API, for exercising payments and refunds end to end.
+ *
+ * Usage:
+ *   PAYSTACK_BASE_URL=http://localhost:4010 in the backend .env, then
+ *   npm run fake:paystack
+ *
+ * Transactions initialised here succeed on verify. Refunds are accepted as pending and, after
+ * FAKE_PAYSTACK_REFUND_DELAY_MS, a signed refund.processed webhook is sent to FAKE_PAYSTACK_WEBHOOK_URL.
+ * Set FAKE_PAYSTACK_REFUND_OUTCOME=failed to simulate refund.failed instead.
+ */
+import crypto from 'crypto'
+import express from 'express'
+
+type JsonRecord = Record<string, unknown>
+
+interface FakeTransaction {
+  id: number
+  reference: string
+  amount: number
+  currency: string
+  email: string
+  metadata: unknown
+  paid_at: string
+}
+
+interface FakeRefund {
+  id: number
+  transaction: FakeTransaction
+  amount: number
+  currency: string
+  status: 'pending' | 'processing' | 'processed' | 'failed'
+  merchant_note: string | null
+  customer_note: string | null
+  created_at: string
+}
+
+const port = parseInt(process.env.FAKE_PAYSTACK_PORT || '4010', 10)
+const secretKey = process.env.DEV_PAYSTACK_SECRET_KEY || ''
+const webhookUrl = process.env.FAKE_PAYSTACK_WEBHOOK_URL || 'http://localhost:3000/api/orders/webhook/paystack'
+const refundDelayMs = parseInt(process.env.FAKE_PAYSTACK_REFUND_DELAY_MS || '2000', 10)
+const refundOutcome = process.env.FAKE_PAYSTACK_REFUND_OUTCOME === 'failed' ? 'failed' : 'processed'
+
+const transactions = new Map<string, FakeTransaction>()
+const refunds = new Map<number, FakeRefund>()
+let nextId = 1000
+
+function refundPayload(refund: FakeRefund): JsonRecord {
+  return {
+    id: refund.id,
+    status: refund.status,
+    amount: refund.amount,
+    currency: refund.currency,
+    transaction_reference: refund.transaction.reference,
+    transaction: { id: refund.transaction.id, reference: refund.transaction.reference },
+    merchant_note: refund.merchant_note,
+    customer_note: refund.customer_note,
+    createdAt: refund.created_at,
+  }
+}
+
+async function sendWebhook(event: string, data: JsonRecord): Promise<void> {
+  const body = JSON.stringify({ event, data })
+  const signature = crypto.createHmac('sha512', secretKey).update(body).digest('hex')
+  try {
+    const response = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-paystack-signature': signature },
+      body,
+    })
+    console.log(`Webhook ${event} -> ${response.status}`)
+  } catch (error) {
+    console.error(`Webhook ${event} failed:`, error instanceof Error ? error.message : error)
+  }
+}
+
+const app = express()
+app.use(express.json())
+
+app.post('/transaction/initialize', (req, res) => {
+  const { email, amount, reference, callback_url: callbackUrl, metadata } = req.body as JsonRecord
+  const ref = (reference as string) || `FAKE-${Date.now()}`
+  transactions.set(ref, {
+    id: nextId++,
+    reference: ref,
+    amount: Number(amount),
+    currency: 'GHS',
+    email: String(email),
+    metadata,
+    paid_at: new Date().toISOString(),
+  })
+  const authorizationUrl = callbackUrl ? `${callbackUrl}?reference=${encodeURIComponent(ref)}` : `http://localhost:${port}/pay/${ref}`
+  res.json({
+    status: true,
+    message: 'Authorization URL created',
+    data: { authorization_url: authorizationUrl, access_code: `fake_${ref}`, reference: ref },
+  })
+})
+
+app.get('/transaction/verify/:reference', (req, res) => {
+  const tx = transactions.get(req.params.reference)
+  if (!tx) {
+    res.status(404).json({ status: false, message: 'Transaction reference not found' })
+    return
+  }
+  res.json({
+    status: true,
+    message: 'Verification successful',
+    data: {
+      id: tx.id,
+      status: 'success',
+      reference: tx.reference,
+      amount: tx.amount,
+      currency: tx.currency,
+      channel: 'card',
+      paid_at: tx.paid_at,
+      gateway_response: 'Successful',
+      metadata: tx.metadata,
+      customer: { email: tx.email },
+    },
+  })
+})
+
+app.post('/refund', (req, res) => {
+  const { transaction, amount, currency, merchant_note: merchantNote, customer_note: customerNote } = req.body as JsonRecord
+  const tx = transactions.get(String(transaction))
+  if (!tx) {
+    res.status(400).json({ status: false, message: 'Transaction not found' })
+    return
+  }
+  const refund: FakeRefund = {
+    id: nextId++,
+    transaction: tx,
+    amount: amount != null ? Number(amount) : tx.amount,
+    currency: (currency as string) || tx.currency,
+    status: 'pending',
+    merchant_note: (merchantNote as string) ?? null,
+    customer_note: (customerNote as string) ?? null,
+    created_at: new Date().toISOString(),
+  }
+  refunds.set(refund.id, refund)
+
+  setTimeout(() => {
+    refund.status = refundOutcome
+    void sendWebhook(`refund.${refundOutcome}`, refundPayload(refund))
+  }, refundDelayMs)
+
+  res.json({ status: true, message: 'Refund has been queued for processing', data: refundPayload(refund) })
+})
+
+app.get('/refund/:id', (req, res) => {
+  const refund = refunds.get(parseInt(req.params.id, 10))
+  if (!refund) {
+    res.status(404).json({ status: false, message: 'Refund not found' })
+    return
+  }
+  res.json({ status: true, message: 'Refund retrieved', data: refundPayload(refund) })
+})
+
+app.listen(port, () => {
+  console.log(`Fake Paystack listening on http://localhost:${port}`)
+  console.log(`Refund webhooks (${refundOutcome}) -> ${webhookUrl}`)
+  if (!secretKey) {
+    console.warn('DEV_PAYSTACK_SECRET_KEY not set; webhook signatures will not match the backend.')
+  }
+})
@@ -0,0 +1,78 @@
+/**
+ * Order status state machine.
+ * Happy path: pending → confirmed → processing → shipped → delivered.
+ * Orders created after online payment start in processing; riders may confirm delivery
+ * straight from processing when the order was never marked shipped.
+ * Cancelled and refunded are terminal except that a cancelled (paid) order can still be refunded.
+ */
+
+export type OrderStatus =
+  | 'pending'
+  | 'confirmed'
+  | 'processing'
+  | 'shipped'
+  | 'delivered'
+  | 'cancelled'
+  | 'refunded'
+  | 'failed'
+
+export const ORDER_STATUSES: readonly OrderStatus[] = [
+  'pending',
+  'confirmed',
+  'processing',
+  'shipped',
+  'delivered',
+  'cancelled',
+  'refunded',
+  'failed',
+]
+
+export const ORDER_STATUS_TRANSITIONS: Readonly<Record<OrderStatus, readonly OrderStatus[]>> = {
+  pending: ['confirmed', 'processing', 'cancelled', 'failed'],
+  confirmed: ['processing', 'cancelled'],
+  processing: ['shipped', 'delivered', 'cancelled'],
+  shipped: ['delivered', 'cancelled'],
+  delivered: ['refunded'],
+  cancelled: ['refunded'],
+  refunded: [],
+  failed: [],
+}
+
+/** Set only when a refund is processed (RefundService), never by hand: money has to move first. */
+export const REFUND_ONLY_ORDER_STATUSES: readonly OrderStatus[] = ['refunded']
+
+/** Statuses an admin may pick on the status endpoints. */
+export const MANUAL_ORDER_STATUSES: readonly OrderStatus[] = ORDER_STATUSES.filter(
+  (status) => !REFUND_ONLY_ORDER_STATUSES.includes(status)
+)
+
+/** Human-readable labels used in emails and error messages. */
+export const ORDER_STATUS_LABELS: Readonly<Record<OrderStatus, string>> = {
+  pending: 'Pending',
+  confirmed: 'Confirmed',
+  processing: 'Processing',
+  shipped: 'Out for delivery',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+  refunded: 'Refunded',
+  failed: 'Failed',
+}
+
+export function isOrderStatus(value: unknown): value is OrderStatus {
+  return typeof value === 'string' && (ORDER_STATUSES as readonly string[]).includes(value)
+}
+
+/** Statuses the order may move to next; unknown statuses have no legal transitions. */
+export function getAllowedNextStatuses(status: string | null | undefined): OrderStatus[] {
+  if (!isOrderStatus(status)) return []
+  return [...ORDER_STATUS_TRANSITIONS[status]]
+}
+
+/** Next statuses an admin may pick by hand (the refund-only ones are left out). */
+export function getManualNextStatuses(status: string | null | undefined): OrderStatus[] {
+  return getAllowedNextStatuses(status).filter((next) => !REFUND_ONLY_ORDER_STATUSES.includes(next))
+}
+
+export function canTransitionOrderStatus(from: string | null | undefined, to: string): boolean {
+  return isOrderStatus(to) && getAllowedNextStatuses(from).includes(to)
+}
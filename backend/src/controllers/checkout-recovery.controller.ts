@@ -0,0 +1,88 @@
+import { Request, Response } from 'express'
+import { CheckoutRecoveryService } from '../services/checkout-recovery.service'
+import type { AuthenticatedAdminRequest } from '../middleware/adminAuth.middleware'
+import { ApiResponse } from '../types/api.types'
+
+const checkoutRecoveryService = new CheckoutRecoveryService()
+
+/**
+ * GET /api/admin/checkout-recovery/settings - Reminder schedule for unpaid checkouts (admin).
+ */
+export async function getCheckoutRecoverySettings(_req: Request, res: Response): Promise<void> {
+  try {
+    const settings = await checkoutRecoveryService.getSettings()
+    res.json({
+      success: true,
+      message: 'Checkout recovery settings retrieved successfully',
+      data: settings,
+    } as ApiResponse)
+  } catch (e) {
+    console.error('Get checkout recovery settings error:', e)
+    res.status(500).json({
+      success: false,
+      message: 'Failed to load checkout recovery settings',
+    } as ApiResponse<null>)
+  }
+}
+
+/**
+ * PUT /api/admin/checkout-recovery/settings - Turn reminders on or off, or change when they are sent (admin).
+ */
+export async function updateCheckoutRecoverySettings(req: Request, res: Response): Promise<void> {
+  try {
+    const body = req.body || {}
+    const result = await checkoutRecoveryService.updateSettings(
+      {
+        enabled: body.enabled,
+        reminderDelaysMinutes: body.reminderDelaysMinutes,
+        resumeWindowHours: body.resumeWindowHours,
+      },
+      (req as AuthenticatedAdminRequest).adminId
+    )
+    if (!result.success) {
+      res.status(400).json({
+        success: false,
+        message: result.error || 'Failed to update checkout recovery settings',
+      } as ApiResponse<null>)
+      return
+    }
+    res.json({
+      success: true,
+      message: 'Checkout recovery settings updated',
+      data: result.data,
+    } as ApiResponse)
+  } catch (e) {
+    console.error('Update checkout recovery settings error:', e)
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update checkout recovery settings',
+    } as ApiResponse<null>)
+  }
+}
+
+/**
+ * GET /api/admin/checkout-recovery/stats?from=&to= - Reminders sent and checkouts won back (admin).
+ */
+export async function getCheckoutRecoveryStats(req: Request, res: Response): Promise<void> {
+  try {
+    const result = await checkoutRecoveryService.getStats(String(req.query.from), String(req.query.to))
+    if (!result.success) {
+      res.status(500).json({
+        success: false,
+        message: result.error || 'Failed to load checkout recovery stats',
+      } as ApiResponse<null>)
+      return
+    }
+    res.json({
+      success: true,
+      message: 'Checkout recovery stats retrieved successfully',
+      data: result.data,
+    } as ApiResponse)
+  } catch (e) {
+    console.error('Get checkout recovery stats error:', e)
+    res.status(500).json({
+      success: false,
+      message: 'Failed to load checkout recovery stats',
+    } as ApiResponse<null>)
+  }
+}
@@ -1,12 +1,18 @@
 import { Request, Response } from 'express'
 import { DashboardService } from '../services/dashboard.service'
+import { TaxService } from '../services/tax.service'
+import { OrderSlaService } from '../services/order-sla.service'
 import { ApiResponse } from '../types/api.types'
 
 export class DashboardController {
   private dashboardService: DashboardService
+  private taxService: TaxService
+  private orderSlaService: OrderSlaService
 
   constructor() {
     this.dashboardService = new DashboardService()
+    this.taxService = new TaxService()
+    this.orderSlaService = new OrderSlaService()
   }
 
   /**
@@ -98,4 +104,63 @@ export class DashboardController {
       } as ApiResponse<null>)
     }
   }
+
+  /**
+   * Tax charged per month (VAT, NHIL, GETFund, COVID-19 levy) for filing
+   */
+  getTaxSummary = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { from, to } = req.query
+      const result = await this.taxService.getTaxSummary(String(from), String(to))
+
+      if (!result.success) {
+        res.status(500).json({
+          success: false,
+          message: result.error || 'Failed to build tax summary'
+        } as ApiResponse<null>)
+        return
+      }
+
+      res.json({
+        success: true,
+        message: 'Tax summary retrieved successfully',
+        data: result.data
+      } as ApiResponse<typeof result.data>)
+    } catch (error) {
+      console.error('Get tax summary error:', error)
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as ApiResponse<null>)
+    }
+  }
+
+  /**
+   * Orders stuck in a status past their SLA (flagged by the SLA check), most overdue first
+   */
+  getNeedsAttention = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const result = await this.orderSlaService.getOpenBreaches()
+
+      if (!result.success) {
+        res.status(500).json({
+          success: false,
+          message: result.error || 'Failed to load orders needing attention'
+        } as ApiResponse<null>)
+        return
+      }
+
+      res.json({
+        success: true,
+        message: 'Orders needing attention retrieved successfully',
+        data: result.data
+      } as ApiResponse<typeof result.data>)
+    } catch (error) {
+      console.error('Get needs attention error:', error)
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as ApiResponse<null>)
+    }
+  }
 }
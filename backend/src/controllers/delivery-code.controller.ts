@@ -0,0 +1,112 @@
+import { Request, Response } from 'express'
+import {
+  DeliveryCodeService,
+  type DeliveryVerificationMethod,
+  type DeliveryVerificationOutcome,
+} from '../services/delivery-code.service'
+import type { AuthenticatedAdminRequest } from '../middleware/adminAuth.middleware'
+import { ApiResponse } from '../types/api.types'
+
+const deliveryCodeService = new DeliveryCodeService()
+
+function orderIdParam(req: Request): string {
+  return Array.isArray(req.params.orderId) ? req.params.orderId[0] : req.params.orderId
+}
+
+/**
+ * GET /api/admin/delivery-codes/attempts - Delivery verification audit trail, newest first (admin).
+ * Query: orderId?, riderId?, outcome?, method?, from?, to?, page?, limit?
+ */
+export async function listAttempts(req: Request, res: Response): Promise<void> {
+  try {
+    const { orderId, riderId, outcome, method, from, to, page, limit } = req.query
+    const result = await deliveryCodeService.listAttempts({
+      orderId: orderId as string | undefined,
+      riderId: riderId as string | undefined,
+      outcome: outcome as DeliveryVerificationOutcome | undefined,
+      method: method as DeliveryVerificationMethod | undefined,
+      from: from as string | undefined,
+      to: to as string | undefined,
+      page: page ? parseInt(String(page), 10) : 1,
+      limit: limit ? parseInt(String(limit), 10) : 50,
+    })
+    if (!result.success) {
+      res.status(500).json({
+        success: false,
+        message: result.error || 'Failed to load verification attempts',
+      } as ApiResponse<null>)
+      return
+    }
+    res.json({
+      success: true,
+      message: 'Verification attempts retrieved',
+      data: result.data ?? [],
+      pagination: result.pagination,
+    } as ApiResponse)
+  } catch (e) {
+    console.error('List delivery verification attempts error:', e)
+    res.status(500).json({
+      success: false,
+      message: 'Failed to load verification attempts',
+    } as ApiResponse<null>)
+  }
+}
+
+/**
+ * GET /api/admin/delivery-codes/orders/:orderId - An order's wrong-code counters and lock (admin).
+ */
+export async function getStatus(req: Request, res: Response): Promise<void> {
+  try {
+    const status = await deliveryCodeService.getStatus(orderIdParam(req))
+    if (!status) {
+      res.status(404).json({
+        success: false,
+        message: 'Order not found',
+      } as ApiResponse<null>)
+      return
+    }
+    res.json({
+      success: true,
+      message: 'Delivery code status retrieved',
+      data: status,
+    } as ApiResponse)
+  } catch (e) {
+    console.error('Get delivery code status error:', e)
+    res.status(500).json({
+      success: false,
+      message: 'Failed to load delivery code status',
+    } as ApiResponse<null>)
+  }
+}
+
+/**
+ * POST /api/admin/delivery-codes/orders/:orderId/rotate - Issue a new code, lift any lock and email it to the customer (admin).
+ */
+export async function rotateCode(req: Request, res: Response): Promise<void> {
+  try {
+    const orderId = orderIdParam(req)
+    const result = await deliveryCodeService.rotate(orderId, {
+      reason: 'issued by admin',
+      unlock: true,
+      adminId: (req as AuthenticatedAdminRequest).adminId,
+    })
+    if (!result.success) {
+      res.status(result.error === 'Order not found' ? 404 : 400).json({
+        success: false,
+        message: result.error || 'Failed to issue a new code',
+      } as ApiResponse<null>)
+      return
+    }
+    res.json({
+      success: true,
+      message: 'New delivery code sent to the customer',
+      data: await deliveryCodeService.getStatus(orderId),
+    } as ApiResponse)
+  } catch (e) {
+    console.error('Rotate delivery code error:', e)
+    res.status(500).json({
+      success: false,
+      message: 'Failed to issue a new code',
+    } as ApiResponse<null>)
+  }
+}
@@ -0,0 +1,95 @@
+import { Request, Response } from 'express'
+import { DeliveryRouteService } from '../services/delivery-route.service'
+import type { AuthenticatedAdminRequest } from '../middleware/adminAuth.middleware'
+import { ApiResponse } from '../types/api.types'
+
+const deliveryRouteService = new DeliveryRouteService()
+
+function routeId(req: Request): string {
+  return Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+}
+
+/**
+ * POST /api/admin/delivery-routes/plan - Batch and sequence the day's shipped orders (admin).
+ * Replaces routes already planned for the date.
+ * Body: { date?, riderIds?, capacity?, assignRiders? }
+ */
+export async function planRoutes(req: Request, res: Response): Promise<void> {
+  try {
+    const { date, riderIds, capacity, assignRiders } = req.body as {
+      date?: string
+      riderIds?: string[]
+      capacity?: number
+      assignRiders?: boolean
+    }
+    const result = await deliveryRouteService.planRoutes(
+      { date, riderIds, capacity, assignRiders: assignRiders === true },
+      (req as AuthenticatedAdminRequest).adminId
+    )
+    if (!result.success) {
+      res.status(400).json({
+        success: false,
+        message: result.error || 'Failed to plan routes',
+      } as ApiResponse<null>)
+      return
+    }
+    res.json({
+      success: true,
+      message: `${result.data!.routes.length} route(s) planned`,
+      data: result.data,
+    } as ApiResponse)
+  } catch (e) {
+    console.error('Plan delivery routes error:', e)
+    res.status(500).json({
+      success: false,
+      message: 'Failed to plan routes',
+    } as ApiResponse<null>)
+  }
+}
+
+/**
+ * GET /api/admin/delivery-routes?date= - Routes planned for a day, today by default (admin).
+ */
+export async function listRoutes(req: Request, res: Response): Promise<void> {
+  try {
+    const date = (req.query.date as string | undefined) ?? new Date().toISOString().slice(0, 10)
+    const result = await deliveryRouteService.listRoutes(date)
+    res.json({
+      success: true,
+      message: 'Delivery routes retrieved successfully',
+      data: result.data ?? [],
+    } as ApiResponse)
+  } catch (e) {
+    console.error('List delivery routes error:', e)
+    res.status(500).json({
+      success: false,
+      message: 'Failed to load delivery routes',
+    } as ApiResponse<null>)
+  }
+}
+
+/**
+ * GET /api/admin/delivery-routes/:id/run-sheet - Printable PDF run sheet for one route (admin).
+ */
+export async function getRunSheet(req: Request, res: Response): Promise<void> {
+  try {
+    const result = await deliveryRouteService.getRunSheet(routeId(req))
+    if (!result.success || !result.file) {
+      res.status(result.error === 'Route not found' ? 404 : 500).json({
+        success: false,
+        message: result.error || 'Failed to create run sheet',
+      } as ApiResponse<null>)
+      return
+    }
+    res.setHeader('Content-Type', result.file.contentType)
+    res.setHeader('Content-Disposition', `attachment; filename="${result.file.filename}"`)
+    res.setHeader('Cache-Control', 'no-store')
+    res.send(result.file.body)
+  } catch (e) {
+    console.error('Get run sheet error:', e)
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create run sheet',
+    } as ApiResponse<null>)
+  }
+}
@@ -1,11 +1,43 @@
 import { Response } from 'express'
-import { DeliveryService } from '../services/delivery.service'
+import { DeliveryService, type DeliveryZoneInput } from '../services/delivery.service'
+import { DeliverySlotService, type DeliverySlotInput } from '../services/delivery-slot.service'
+import type { AuthenticatedAdminRequest } from '../middleware/adminAuth.middleware'
 import { ApiResponse } from '../types/api.types'
 
 const deliveryService = new DeliveryService()
+const deliverySlotService = new DeliverySlotService()
+
+function zoneFromBody(body: Record<string, unknown>): DeliveryZoneInput {
+  return {
+    name: String(body.name ?? ''),
+    polygon: Array.isArray(body.polygon) ? (body.polygon as DeliveryZoneInput['polygon']) : [],
+    feeType: body.feeType as DeliveryZoneInput['feeType'],
+    flatFee: body.flatFee != null ? Number(body.flatFee) : null,
+    pricePerKm: body.pricePerKm != null ? Number(body.pricePerKm) : null,
+    minOrderValue: Number(body.minOrderValue) || 0,
+    sortOrder: Number(body.sortOrder) || 0,
+    active: body.active !== false,
+  }
+}
+
+function slotFromBody(body: Record<string, unknown>): DeliverySlotInput {
+  return {
+    label: typeof body.label === 'string' ? body.label : null,
+    weekday: Number(body.weekday),
+    startTime: String(body.startTime ?? ''),
+    endTime: String(body.endTime ?? ''),
+    capacity: Number(body.capacity),
+    cutoffMinutes: body.cutoffMinutes != null ? Number(body.cutoffMinutes) : 120,
+    zoneId: typeof body.zoneId === 'string' && body.zoneId ? body.zoneId : null,
+    active: body.active !== false,
+  }
+}
 
 export class DeliveryController {
-  /** GET /api/delivery/calculate?lat=&lng= - returns delivery fee (auth required) */
+  /**
+   * GET /api/delivery/calculate?lat=&lng=&subtotal= - returns the delivery fee, its breakdown and the zone the pin
+   * is in (auth required). Pass the basket subtotal to apply free delivery.
+   */
   calculate = async (req: import('express').Request, res: Response): Promise<void> => {
     try {
       const lat = parseFloat(String(req.query.lat))
@@ -18,12 +50,19 @@ export class DeliveryController {
         } as ApiResponse<{ deliveryFee: number; distanceKm?: number }>)
         return
       }
-      const result = await deliveryService.calculateFee(lat, lng)
+      const subtotal = req.query.subtotal != null ? parseFloat(String(req.query.subtotal)) : undefined
+      const result = await deliveryService.calculateFee(lat, lng, {
+        subtotal: subtotal != null && !Number.isNaN(subtotal) ? subtotal : undefined,
+      })
       res.json({
         success: true,
+        ...(result.message && { message: result.message }),
         data: {
           deliveryFee: result.deliveryFee,
           ...(result.distanceKm != null && { distanceKm: result.distanceKm }),
+          deliverable: result.deliverable,
+          zone: result.zone,
+          breakdown: result.breakdown,
         },
       })
     } catch (err) {
@@ -48,6 +87,15 @@ export class DeliveryController {
           warehouseAddress: null,
           pricePerKm: 0,
           pricePerMeter: null,
+          restrictToZones: false,
+          baseFee: 0,
+          distanceBands: [],
+          minFee: null,
+          maxFee: null,
+          freeDeliveryThreshold: null,
+          peakSurcharges: [],
+          requireDeliverySlot: false,
+          slotBookingDays: 7,
           updatedAt: null,
         },
       })
@@ -67,6 +115,15 @@ export class DeliveryController {
         warehouseAddress: body.warehouseAddress ?? body.warehouse_address,
         pricePerKm: body.pricePerKm ?? body.price_per_km,
         pricePerMeter: body.pricePerMeter ?? body.price_per_meter,
+        restrictToZones: body.restrictToZones ?? body.restrict_to_zones,
+        baseFee: body.baseFee,
+        distanceBands: body.distanceBands,
+        minFee: body.minFee,
+        maxFee: body.maxFee,
+        freeDeliveryThreshold: body.freeDeliveryThreshold,
+        peakSurcharges: body.peakSurcharges,
+        requireDeliverySlot: body.requireDeliverySlot,
+        slotBookingDays: body.slotBookingDays,
       })
       if (!result.success) {
         res.status(400).json({ success: false, message: result.error ?? 'Update failed' })
@@ -79,4 +136,205 @@ export class DeliveryController {
       res.status(500).json({ success: false, message: 'Failed to update delivery settings' })
     }
   }
+
+  /** GET /api/delivery/zones - all zones including inactive, in match order (admin only) */
+  listZones = async (_req: import('express').Request, res: Response): Promise<void> => {
+    try {
+      const zones = await deliveryService.listZones({ includeInactive: true })
+      res.json({ success: true, data: zones })
+    } catch (err) {
+      console.error('Delivery listZones error:', err)
+      res.status(500).json({ success: false, message: 'Failed to load delivery zones' })
+    }
+  }
+
+  /** POST /api/delivery/zones - admin only */
+  createZone = async (req: import('express').Request, res: Response): Promise<void> => {
+    try {
+      const result = await deliveryService.createZone(zoneFromBody(req.body || {}), (req as AuthenticatedAdminRequest).adminId)
+      if (!result.success) {
+        res.status(400).json({ success: false, message: result.error ?? 'Failed to create zone' })
+        return
+      }
+      res.status(201).json({ success: true, message: 'Delivery zone created', data: result.data })
+    } catch (err) {
+      console.error('Delivery createZone error:', err)
+      res.status(500).json({ success: false, message: 'Failed to create delivery zone' })
+    }
+  }
+
+  /** PUT /api/delivery/zones/:id - replace a zone (admin only) */
+  updateZone = async (req: import('express').Request, res: Response): Promise<void> => {
+    try {
+      const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      const result = await deliveryService.updateZone(id, zoneFromBody(req.body || {}), (req as AuthenticatedAdminRequest).adminId)
+      if (!result.success) {
+        res.status(result.error === 'Zone not found' ? 404 : 400).json({ success: false, message: result.error ?? 'Failed to update zone' })
+        return
+      }
+      res.json({ success: true, message: 'Delivery zone updated', data: result.data })
+    } catch (err) {
+      console.error('Delivery updateZone error:', err)
+      res.status(500).json({ success: false, message: 'Failed to update delivery zone' })
+    }
+  }
+
+  /** DELETE /api/delivery/zones/:id - admin only */
+  deleteZone = async (req: import('express').Request, res: Response): Promise<void> => {
+    try {
+      const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      const result = await deliveryService.deleteZone(id)
+      if (!result.success) {
+        res.status(result.error === 'Zone not found' ? 404 : 400).json({ success: false, message: result.error ?? 'Failed to delete zone' })
+        return
+      }
+      res.json({ success: true, message: 'Delivery zone deleted' })
+    } catch (err) {
+      console.error('Delivery deleteZone error:', err)
+      res.status(500).json({ success: false, message: 'Failed to delete delivery zone' })
+    }
+  }
+
+  /** GET /api/delivery/slots?lat=&lng= - bookable delivery slots for the address, soonest first (auth required) */
+  listAvailableSlots = async (req: import('express').Request, res: Response): Promise<void> => {
+    try {
+      const lat = req.query.lat != null ? parseFloat(String(req.query.lat)) : null
+      const lng = req.query.lng != null ? parseFloat(String(req.query.lng)) : null
+      const result = await deliverySlotService.listAvailableSlots({
+        lat: lat != null && !Number.isNaN(lat) ? lat : null,
+        lng: lng != null && !Number.isNaN(lng) ? lng : null,
+      })
+      if (!result.success) {
+        res.status(400).json({ success: false, message: result.error ?? 'No delivery slots for this address', data: [] })
+        return
+      }
+      res.json({ success: true, data: result.data })
+    } catch (err) {
+      console.error('Delivery listAvailableSlots error:', err)
+      res.status(500).json({ success: false, message: 'Failed to load delivery slots', data: [] })
+    }
+  }
+
+  /** GET /api/delivery/slot-windows - weekly slot windows including inactive (admin only) */
+  listSlotWindows = async (_req: import('express').Request, res: Response): Promise<void> => {
+    try {
+      const slots = await deliverySlotService.listSlots({ includeInactive: true })
+      res.json({ success: true, data: slots })
+    } catch (err) {
+      console.error('Delivery listSlotWindows error:', err)
+      res.status(500).json({ success: false, message: 'Failed to load delivery slots' })
+    }
+  }
+
+  /** POST /api/delivery/slot-windows - admin only */
+  createSlotWindow = async (req: import('express').Request, res: Response): Promise<void> => {
+    try {
+      const result = await deliverySlotService.createSlot(slotFromBody(req.body || {}), (req as AuthenticatedAdminRequest).adminId)
+      if (!result.success) {
+        res.status(400).json({ success: false, message: result.error ?? 'Failed to create slot' })
+        return
+      }
+      res.status(201).json({ success: true, message: 'Delivery slot created', data: result.data })
+    } catch (err) {
+      console.error('Delivery createSlotWindow error:', err)
+      res.status(500).json({ success: false, message: 'Failed to create delivery slot' })
+    }
+  }
+
+  /** PUT /api/delivery/slot-windows/:id - replace a slot window (admin only) */
+  updateSlotWindow = async (req: import('express').Request, res: Response): Promise<void> => {
+    try {
+      const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      const result = await deliverySlotService.updateSlot(id, slotFromBody(req.body || {}), (req as AuthenticatedAdminRequest).adminId)
+      if (!result.success) {
+        res.status(result.error === 'Slot not found' ? 404 : 400).json({ success: false, message: result.error ?? 'Failed to update slot' })
+        return
+      }
+      res.json({ success: true, message: 'Delivery slot updated', data: result.data })
+    } catch (err) {
+      console.error('Delivery updateSlotWindow error:', err)
+      res.status(500).json({ success: false, message: 'Failed to update delivery slot' })
+    }
+  }
+
+  /** DELETE /api/delivery/slot-windows/:id - admin only; refused while upcoming deliveries are booked */
+  deleteSlotWindow = async (req: import('express').Request, res: Response): Promise<void> => {
+    try {
+      const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      const result = await deliverySlotService.deleteSlot(id)
+      if (!result.success) {
+        res.status(result.error === 'Slot not found' ? 404 : 400).json({ success: false, message: result.error ?? 'Failed to delete slot' })
+        return
+      }
+      res.json({ success: true, message: 'Delivery slot deleted' })
+    } catch (err) {
+      console.error('Delivery deleteSlotWindow error:', err)
+      res.status(500).json({ success: false, message: 'Failed to delete delivery slot' })
+    }
+  }
+
+  /** GET /api/delivery/blackouts - blackout dates from today on (admin only) */
+  listBlackouts = async (_req: import('express').Request, res: Response): Promise<void> => {
+    try {
+      const blackouts = await deliverySlotService.listBlackouts()
+      res.json({ success: true, data: blackouts })
+    } catch (err) {
+      console.error('Delivery listBlackouts error:', err)
+      res.status(500).json({ success: false, message: 'Failed to load blackout dates' })
+    }
+  }
+
+  /** POST /api/delivery/blackouts - { date, reason? }; replaces the reason if the date is already blacked out (admin only) */
+  createBlackout = async (req: import('express').Request, res: Response): Promise<void> => {
+    try {
+      const body = req.body || {}
+      const result = await deliverySlotService.createBlackout(
+        String(body.date ?? ''),
+        typeof body.reason === 'string' ? body.reason : null,
+        (req as AuthenticatedAdminRequest).adminId
+      )
+      if (!result.success) {
+        res.status(400).json({ success: false, message: result.error ?? 'Failed to add blackout date' })
+        return
+      }
+      res.status(201).json({ success: true, message: 'Blackout date added', data: result.data })
+    } catch (err) {
+      console.error('Delivery createBlackout error:', err)
+      res.status(500).json({ success: false, message: 'Failed to add blackout date' })
+    }
+  }
+
+  /** DELETE /api/delivery/blackouts/:id - admin only */
+  deleteBlackout = async (req: import('express').Request, res: Response): Promise<void> => {
+    try {
+      const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+      const result = await deliverySlotService.deleteBlackout(id)
+      if (!result.success) {
+        res.status(result.error === 'Blackout not found' ? 404 : 400).json({ success: false, message: result.error ?? 'Failed to remove blackout date' })
+        return
+      }
+      res.json({ success: true, message: 'Blackout date removed' })
+    } catch (err) {
+      console.error('Delivery deleteBlackout error:', err)
+      res.status(500).json({ success: false, message: 'Failed to remove blackout date' })
+    }
+  }
+
+  /** GET /api/delivery/slots/utilisation?from=&to= - bookings against capacity per date and slot (admin only) */
+  getSlotUtilisation = async (req: import('express').Request, res: Response): Promise<void> => {
+    try {
+      const result = await deliverySlotService.getUtilisation({
+        from: typeof req.query.from === 'string' ? req.query.from : undefined,
+        to: typeof req.query.to === 'string' ? req.query.to : undefined,
+      })
+      if (!result.success) {
+        res.status(400).json({ success: false, message: result.error ?? 'Failed to load slot utilisation' })
+        return
+      }
+      res.json({ success: true, data: result.data })
+    } catch (err) {
+      console.error('Delivery getSlotUtilisation error:', err)
+      res.status(500).json({ success: false, message: 'Failed to load slot utilisation' })
+    }
+  }
 }
@@ -0,0 +1,129 @@
+import { Request, Response } from 'express'
+import { OrderRiskService, type RiskReviewDecision } from '../services/order-risk.service'
+import type { AuthenticatedAdminRequest } from '../middleware/adminAuth.middleware'
+import { ApiResponse } from '../types/api.types'
+
+const orderRiskService = new OrderRiskService()
+
+/**
+ * GET /api/admin/order-risk/settings - Risk rule thresholds and hold score (admin).
+ */
+export async function getOrderRiskSettings(_req: Request, res: Response): Promise<void> {
+  try {
+    const settings = await orderRiskService.getSettings()
+    res.json({
+      success: true,
+      message: 'Order risk settings retrieved successfully',
+      data: settings,
+    } as ApiResponse)
+  } catch (e) {
+    console.error('Get order risk settings error:', e)
+    res.status(500).json({
+      success: false,
+      message: 'Failed to load order risk settings',
+    } as ApiResponse<null>)
+  }
+}
+
+/**
+ * PUT /api/admin/order-risk/settings - Change thresholds or turn scoring off (admin). Applies to new orders only.
+ */
+export async function updateOrderRiskSettings(req: Request, res: Response): Promise<void> {
+  try {
+    const body = req.body || {}
+    const result = await orderRiskService.updateSettings(
+      {
+        enabled: body.enabled,
+        holdScore: body.holdScore,
+        velocityWindowHours: body.velocityWindowHours,
+        velocityMaxOrders: body.velocityMaxOrders,
+        firstOrderMaxAmount: body.firstOrderMaxAmount,
+        maxDistanceKm: body.maxDistanceKm,
+        voucherReuseDays: body.voucherReuseDays,
+      },
+      (req as AuthenticatedAdminRequest).adminId
+    )
+    if (!result.success) {
+      res.status(400).json({
+        success: false,
+        message: result.error || 'Failed to update order risk settings',
+      } as ApiResponse<null>)
+      return
+    }
+    res.json({
+      success: true,
+      message: 'Order risk settings updated',
+      data: result.data,
+    } as ApiResponse)
+  } catch (e) {
+    console.error('Update order risk settings error:', e)
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update order risk settings',
+    } as ApiResponse<null>)
+  }
+}
+
+/**
+ * GET /api/admin/order-risk/reviews - Orders held for risk review, oldest first (admin).
+ */
+export async function getRiskReviewQueue(_req: Request, res: Response): Promise<void> {
+  try {
+    const result = await orderRiskService.getReviewQueue()
+    if (!result.success) {
+      res.status(500).json({
+        success: false,
+        message: result.error || 'Failed to load risk review queue',
+      } as ApiResponse<null>)
+      return
+    }
+    res.json({
+      success: true,
+      message: 'Risk review queue retrieved successfully',
+      data: result.data,
+    } as ApiResponse)
+  } catch (e) {
+    console.error('Get risk review queue error:', e)
+    res.status(500).json({
+      success: false,
+      message: 'Failed to load risk review queue',
+    } as ApiResponse<null>)
+  }
+}
+
+/**
+ * POST /api/admin/order-risk/reviews/:orderId - Approve or reject a held order (admin).
+ * Body: { decision: 'approve' | 'reject', note?, refund? }
+ */
+export async function reviewRiskOrder(req: Request, res: Response): Promise<void> {
+  try {
+    const orderId = Array.isArray(req.params.orderId) ? req.params.orderId[0] : req.params.orderId
+    const { decision, note, refund } = req.body as { decision: RiskReviewDecision; note?: string; refund?: boolean }
+    const result = await orderRiskService.reviewOrder({
+      orderId,
+      decision,
+      adminId: (req as AuthenticatedAdminRequest).adminId,
+      note,
+      refund: refund === true,
+    })
+    if (!result.success) {
+      res.status(400).json({
+        success: false,
+        message: result.error || 'Failed to review order',
+      } as ApiResponse<null>)
+      return
+    }
+    const refundNote = result.data?.refundError ? ` Refund not requested: ${result.data.refundError}` : ''
+    res.json({
+      success: true,
+      message: `${decision === 'approve' ? 'Order approved' : 'Order rejected'}.${refundNote}`,
+      data: result.data,
+    } as ApiResponse)
+  } catch (e) {
+    console.error('Review risk order error:', e)
+    res.status(500).json({
+      success: false,
+      message: 'Failed to review order',
+    } as ApiResponse<null>)
+  }
+}
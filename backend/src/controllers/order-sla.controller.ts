@@ -0,0 +1,83 @@
+import { Request, Response } from 'express'
+import { OrderSlaService } from '../services/order-sla.service'
+import type { AuthenticatedAdminRequest } from '../middleware/adminAuth.middleware'
+import { ApiResponse } from '../types/api.types'
+
+const orderSlaService = new OrderSlaService()
+
+/**
+ * GET /api/admin/order-sla/thresholds - How long orders may stay in each status (admin).
+ */
+export async function getSlaThresholds(_req: Request, res: Response): Promise<void> {
+  try {
+    const result = await orderSlaService.getThresholds()
+    if (!result.success) {
+      res.status(500).json({
+        success: false,
+        message: result.error || 'Failed to load SLA thresholds',
+      } as ApiResponse<null>)
+      return
+    }
+    res.json({
+      success: true,
+      message: 'SLA thresholds retrieved successfully',
+      data: result.data,
+    } as ApiResponse)
+  } catch (e) {
+    console.error('Get SLA thresholds error:', e)
+    res.status(500).json({
+      success: false,
+      message: 'Failed to load SLA thresholds',
+    } as ApiResponse<null>)
+  }
+}
+
+/**
+ * PUT /api/admin/order-sla/thresholds - Set thresholds (admin). Open breaches keep the threshold they were flagged with.
+ */
+export async function updateSlaThresholds(req: Request, res: Response): Promise<void> {
+  try {
+    const result = await orderSlaService.updateThresholds(
+      req.body.thresholds,
+      (req as AuthenticatedAdminRequest).adminId
+    )
+    if (!result.success) {
+      res.status(400).json({
+        success: false,
+        message: result.error || 'Failed to update SLA thresholds',
+      } as ApiResponse<null>)
+      return
+    }
+    res.json({
+      success: true,
+      message: 'SLA thresholds updated',
+      data: result.data,
+    } as ApiResponse)
+  } catch (e) {
+    console.error('Update SLA thresholds error:', e)
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update SLA thresholds',
+    } as ApiResponse<null>)
+  }
+}
+
+/**
+ * POST /api/admin/order-sla/check - Run the SLA check now instead of waiting for cron (admin).
+ */
+export async function runSlaCheck(_req: Request, res: Response): Promise<void> {
+  try {
+    const summary = await orderSlaService.runCheck()
+    res.json({
+      success: true,
+      message: summary.skipped ? `SLA check skipped: ${summary.skipped}` : 'SLA check complete',
+      data: summary,
+    } as ApiResponse)
+  } catch (e) {
+    console.error('Run SLA check error:', e)
+    res.status(500).json({
+      success: false,
+      message: 'SLA check failed',
+    } as ApiResponse<null>)
+  }
+}
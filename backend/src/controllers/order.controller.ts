@@ -1,6 +1,20 @@
 import { Request, Response } from 'express'
-import { OrderService } from '../services/order.service'
-import { PaystackService } from '../services/paystack.service'
+import { OrderService, AdminOrderFilters, type DeliveryVerificationOptions } from '../services/order.service'
+import { getPaymentProvider, isFakePaymentProviderEnabled, isPaymentProviderName } from '../services/payment-provider.service'
+import { RefundService } from '../services/refund.service'
+import { WebhookEventService, WebhookEventStatus } from '../services/webhook-event.service'
+import { ReconciliationService, DiscrepancyType } from '../services/reconciliation.service'
+import { CodService, CodCollectionInput, CheckoutPaymentMethod } from '../services/cod.service'
+import { OrderAmendmentService, AmendOrderParams, AmendOrderResult } from '../services/order-amendment.service'
+import { OrderTrackingService } from '../services/order-tracking.service'
+import { ReorderService } from '../services/reorder.service'
+import { OrderExportService, OrderExportDataset, OrderExportFormat } from '../services/order-export.service'
+import { OrderSlaService } from '../services/order-sla.service'
+import { CheckoutRecoveryService, getCheckoutResumeFailureUrl } from '../services/checkout-recovery.service'
+import { AdminOrderService, ManualOrderChannel, ManualOrderPayment, OfflinePaymentMethod } from '../services/admin-order.service'
+import type { AuthenticatedAdminRequest } from '../middleware/adminAuth.middleware'
+import type { AuthenticatedRiderRequest } from '../middleware/riderAuth.middleware'
+import { deliveryProofFromBody, type DeliveryConfirmer } from '../services/rider.service'
 import { ApiResponse } from '../types/api.types'
 
 export interface AuthRequest extends Request {
@@ -15,13 +29,39 @@ interface RawBodyRequest extends Request {
   rawBody?: string
 }
 
+/** Code verification refusals that are about who is asking, not the code */
+const CODE_VERIFICATION_FORBIDDEN = [
+  'This delivery is not assigned to you',
+  'Only the assigned rider can confirm by code. Scan the QR code instead.',
+]
+
 export class OrderController {
   private orderService: OrderService
-  private paystackService: PaystackService
+  private refundService: RefundService
+  private webhookEventService: WebhookEventService
+  private reconciliationService: ReconciliationService
+  private codService: CodService
+  private amendmentService: OrderAmendmentService
+  private trackingService: OrderTrackingService
+  private reorderService: ReorderService
+  private adminOrderService: AdminOrderService
+  private exportService: OrderExportService
+  private orderSlaService: OrderSlaService
+  private checkoutRecoveryService: CheckoutRecoveryService
 
   constructor() {
     this.orderService = new OrderService()
-    this.paystackService = new PaystackService()
+    this.refundService = new RefundService()
+    this.webhookEventService = new WebhookEventService()
+    this.reconciliationService = new ReconciliationService()
+    this.codService = new CodService()
+    this.amendmentService = new OrderAmendmentService()
+    this.trackingService = new OrderTrackingService()
+    this.reorderService = new ReorderService()
+    this.adminOrderService = new AdminOrderService()
+    this.exportService = new OrderExportService()
+    this.orderSlaService = new OrderSlaService()
+    this.checkoutRecoveryService = new CheckoutRecoveryService()
   }
 
   /**
@@ -40,7 +80,7 @@ export class OrderController {
         return
       }
 
-      const { cartItems, deliveryAddress, voucherCode, credits, deliveryNotes, deliveryLat, deliveryLng } = req.body
+      const { cartItems, deliveryAddress, voucherCode, credits, deliveryNotes, deliveryLat, deliveryLng, paymentMethod, deliverySlot } = req.body
 
       if (!cartItems || !Array.isArray(cartItems) || cartItems.length === 0) {
         res.status(400).json({
@@ -69,9 +109,30 @@ export class OrderController {
         deliveryNotes,
         deliveryLat: typeof deliveryLat === 'number' ? deliveryLat : undefined,
         deliveryLng: typeof deliveryLng === 'number' ? deliveryLng : undefined,
+        paymentMethod: (paymentMethod as CheckoutPaymentMethod | undefined) ?? 'online',
+        deliverySlot: deliverySlot?.slotId ? { slotId: deliverySlot.slotId, date: deliverySlot.date } : undefined,
       })
 
-      if (result.success) {
+      if (result.success && result.order) {
+        // Pay on delivery: the order is confirmed now, nothing to pay online
+        res.status(201).json({
+          success: true,
+          message: 'Order placed. Please pay the rider on delivery.',
+          data: {
+            pendingOrderId: result.pendingOrderId,
+            paymentReference: result.paymentReference,
+            paymentMethod: result.paymentMethod,
+            amount: result.amount,
+            orderId: result.order.orderId,
+            orderNumber: result.order.orderNumber,
+            invoiceNumber: result.order.invoiceNumber,
+            pdfUrl: result.order.pdfUrl,
+            deliveryCode: result.order.deliveryCode,
+            deliveryVerificationToken: result.order.deliveryVerificationToken,
+            trackingUrl: result.order.trackingUrl,
+          },
+        })
+      } else if (result.success) {
         res.status(201).json({
           success: true,
           message: 'Order created successfully. Please complete payment.',
@@ -81,6 +142,7 @@ export class OrderController {
             authorizationUrl: result.authorizationUrl,
             accessCode: result.accessCode,
             amount: result.amount,
+            paymentMethod: result.paymentMethod,
           },
         })
       } else {
@@ -130,6 +192,7 @@ export class OrderController {
             imageUrl: result.imageUrl,
             deliveryCode: result.deliveryCode,
             deliveryVerificationToken: result.deliveryVerificationToken,
+            trackingUrl: result.trackingUrl,
           },
         })
       } else {
@@ -186,15 +249,26 @@ export class OrderController {
   }
 
   /**
-   * Paystack webhook handler
+   * Payment provider webhook handler (/webhook/:provider, e.g. /webhook/paystack)
    */
   handleWebhook = async (req: Request, res: Response): Promise<void> => {
     try {
-      const signature = req.headers['x-paystack-signature'] as string
+      const { provider: providerParam } = req.params
+      const providerName = Array.isArray(providerParam) ? providerParam[0] : providerParam
+      if (!isPaymentProviderName(providerName) || (providerName === 'fake' && !isFakePaymentProviderEnabled())) {
+        res.status(404).json({
+          success: false,
+          message: 'Unknown payment provider',
+        })
+        return
+      }
+
+      const provider = getPaymentProvider(providerName)
+      const signature = req.headers[provider.signatureHeader] as string | undefined
       const payload = (req as RawBodyRequest).rawBody ?? JSON.stringify(req.body)
 
       // Verify webhook signature
-      const isValid = this.paystackService.verifyWebhookSignature(signature, payload)
+      const isValid = provider.verifyWebhookSignature(signature, payload)
 
       if (!isValid) {
         console.error('Invalid webhook signature')
@@ -205,8 +279,8 @@ export class OrderController {
         return
       }
 
-      // Process webhook
-      const result = await this.paystackService.handleWebhook(req.body)
+      // Store, dedupe and process (failures are retried by the webhook retry job)
+      const result = await this.webhookEventService.receiveEvent(provider, payload, req.body)
 
       res.json({
         success: result.success,
@@ -221,6 +295,96 @@ export class OrderController {
     }
   }
 
+  /**
+   * Retry failed webhook events whose backoff has elapsed (cron). Requires CRON_SECRET in header or body.
+   */
+  retryWebhookEvents = async (req: Request, res: Response): Promise<void> => {
+    const secret = process.env.CRON_SECRET
+    const provided = (req.headers['x-cron-secret'] as string) || req.body?.cron_secret
+    if (secret && provided !== secret) {
+      res.status(403).json({ success: false, message: 'Forbidden', errors: ['Invalid or missing CRON_SECRET'] } as ApiResponse)
+      return
+    }
+    try {
+      const result = await this.webhookEventService.retryDueEvents()
+      res.json({ success: true, ...result })
+    } catch (error) {
+      console.error('Retry webhook events controller error:', error)
+      res.status(500).json({ success: false, message: 'Internal server error', errors: ['Retry webhook events failed'] } as ApiResponse)
+    }
+  }
+
+  /**
+   * Reconcile stale pending payments with the payment provider (cron). Requires CRON_SECRET in header or body.
+   */
+  runReconciliation = async (req: Request, res: Response): Promise<void> => {
+    const secret = process.env.CRON_SECRET
+    const provided = (req.headers['x-cron-secret'] as string) || req.body?.cron_secret
+    if (secret && provided !== secret) {
+      res.status(403).json({ success: false, message: 'Forbidden', errors: ['Invalid or missing CRON_SECRET'] } as ApiResponse)
+      return
+    }
+    try {
+      const result = await this.reconciliationService.runReconciliation('cron')
+      res.json({ success: true, ...result })
+    } catch (error) {
+      console.error('Run reconciliation controller error:', error)
+      res.status(500).json({ success: false, message: 'Internal server error', errors: ['Reconciliation failed'] } as ApiResponse)
+    }
+  }
+
+  /**
+   * Flag orders stuck past their status SLA and email the digest (cron). Requires CRON_SECRET in header or body.
+   */
+  runSlaCheck = async (req: Request, res: Response): Promise<void> => {
+    const secret = process.env.CRON_SECRET
+    const provided = (req.headers['x-cron-secret'] as string) || req.body?.cron_secret
+    if (secret && provided !== secret) {
+      res.status(403).json({ success: false, message: 'Forbidden', errors: ['Invalid or missing CRON_SECRET'] } as ApiResponse)
+      return
+    }
+    try {
+      const result = await this.orderSlaService.runCheck()
+      res.json({ success: true, ...result })
+    } catch (error) {
+      console.error('Run SLA check controller error:', error)
+      res.status(500).json({ success: false, message: 'Internal server error', errors: ['SLA check failed'] } as ApiResponse)
+    }
+  }
+
+  /**
+   * Email reminders for unpaid checkouts, then clean up expired ones (cron). Requires CRON_SECRET in header or body.
+   */
+  runCheckoutRecovery = async (req: Request, res: Response): Promise<void> => {
+    const secret = process.env.CRON_SECRET
+    const provided = (req.headers['x-cron-secret'] as string) || req.body?.cron_secret
+    if (secret && provided !== secret) {
+      res.status(403).json({ success: false, message: 'Forbidden', errors: ['Invalid or missing CRON_SECRET'] } as ApiResponse)
+      return
+    }
+    try {
+      const result = await this.checkoutRecoveryService.sendDueReminders()
+      await this.orderService.cleanupExpiredPendingOrders()
+      res.json({ success: true, ...result })
+    } catch (error) {
+      console.error('Run checkout recovery controller error:', error)
+      res.status(500).json({ success: false, message: 'Internal server error', errors: ['Checkout recovery failed'] } as ApiResponse)
+    }
+  }
+
+  /**
+   * Resume link from a checkout reminder email: redirects to a fresh payment page, or to the storefront
+   * with ?checkout_resume=<reason> when the checkout can no longer be paid.
+   */
+  resumeCheckout = async (req: Request, res: Response): Promise<void> => {
+    const result = await this.checkoutRecoveryService.resumeCheckout(String(req.params.token))
+    if (!result.success) {
+      res.redirect(302, getCheckoutResumeFailureUrl(result.reason))
+      return
+    }
+    res.redirect(302, result.redirectUrl)
+  }
+
   /**
    * Get user's orders
    */
@@ -312,6 +476,82 @@ export class OrderController {
     }
   }
 
+  /**
+   * Get the tracking timeline for the user's order
+   */
+  getOrderTracking = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.id
+      const { id } = req.params
+      const orderId = Array.isArray(id) ? id[0] : id
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+          errors: ['Please sign in'],
+        } as ApiResponse)
+        return
+      }
+
+      const tracking = await this.trackingService.getOrderTracking(orderId, userId)
+
+      if (tracking) {
+        res.json({
+          success: true,
+          message: 'Order tracking retrieved successfully',
+          data: tracking,
+        })
+      } else {
+        res.status(404).json({
+          success: false,
+          message: 'Order not found',
+          errors: ['Order does not exist or access denied'],
+        } as ApiResponse)
+      }
+    } catch (error) {
+      console.error('Get order tracking controller error:', error)
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        errors: ['Failed to fetch order tracking'],
+      } as ApiResponse)
+    }
+  }
+
+  /**
+   * Get the tracking timeline by public tracking token (no sign-in)
+   */
+  getPublicOrderTracking = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { token } = req.params
+      const trackingToken = Array.isArray(token) ? token[0] : token
+
+      const tracking = await this.trackingService.getPublicTracking(trackingToken)
+
+      if (tracking) {
+        res.json({
+          success: true,
+          message: 'Order tracking retrieved successfully',
+          data: tracking,
+        })
+      } else {
+        res.status(404).json({
+          success: false,
+          message: 'Order not found',
+          errors: ['Tracking link is invalid'],
+        } as ApiResponse)
+      }
+    } catch (error) {
+      console.error('Get public order tracking controller error:', error)
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        errors: ['Failed to fetch order tracking'],
+      } as ApiResponse)
+    }
+  }
+
   /**
    * Get order by order number
    */
@@ -398,6 +638,55 @@ export class OrderController {
     }
   }
 
+  /**
+   * Add the items of a past order to the cart
+   */
+  reorder = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.id
+      const { id } = req.params
+      const orderId = Array.isArray(id) ? id[0] : id
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+          errors: ['Please sign in'],
+        } as ApiResponse)
+        return
+      }
+
+      const result = await this.reorderService.reorderToCart(orderId, userId, {
+        replaceCart: req.body?.replaceCart === true,
+      })
+
+      if (result.success && result.data) {
+        const { added, outOfStock, discontinued } = result.data
+        const unavailable = outOfStock.length + discontinued.length
+        res.json({
+          success: true,
+          message: added.length === 0
+            ? 'None of the items from this order are available right now'
+            : `Added ${added.length} item(s) to cart${unavailable > 0 ? `; ${unavailable} unavailable` : ''}`,
+          data: result.data,
+        })
+      } else {
+        res.status(result.error === 'Order not found' ? 404 : 400).json({
+          success: false,
+          message: result.error || 'Failed to reorder',
+          errors: [result.error || 'Reorder failed'],
+        } as ApiResponse)
+      }
+    } catch (error) {
+      console.error('Reorder controller error:', error)
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        errors: ['Failed to reorder'],
+      } as ApiResponse)
+    }
+  }
+
   /**
    * Cancel pending order
    */
@@ -499,13 +788,18 @@ export class OrderController {
         res.json({
           success: true,
           message: 'Order status updated successfully',
+          data: {
+            status: result.status,
+            allowedNextStatuses: result.allowedNextStatuses ?? [],
+          },
         })
       } else {
-        res.status(400).json({
+        res.status(result.allowedNextStatuses ? 409 : 400).json({
           success: false,
           message: result.error || 'Failed to update status',
           errors: [result.error || 'Update failed'],
-        } as ApiResponse)
+          data: { allowedNextStatuses: result.allowedNextStatuses ?? [] },
+        } as ApiResponse<{ allowedNextStatuses: string[] }>)
       }
     } catch (error) {
       console.error('Update order status controller error:', error)
@@ -522,11 +816,11 @@ export class OrderController {
    */
   getAdminOrders = async (req: Request, res: Response): Promise<void> => {
     try {
-      const { page, limit, status } = req.query
+      const { page, limit } = req.query
       const result = await this.orderService.getAdminOrders({
         page: page ? parseInt(String(page), 10) : 1,
         limit: limit ? parseInt(String(limit), 10) : 50,
-        status: status as string,
+        ...this.readAdminOrderFilters(req),
       })
       if (result.success) {
         res.json({
@@ -552,6 +846,109 @@ export class OrderController {
     }
   }
 
+  /**
+   * Move selected orders to one status; each order is checked and recorded like a single update (Admin only)
+   */
+  bulkUpdateOrderStatus = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { orderIds, status, reason } = req.body
+      const results = await this.orderService.bulkUpdateOrderStatus(orderIds, status, req.user?.id, reason)
+      const updated = results.filter((r) => r.success).length
+
+      res.json({
+        success: true,
+        message: updated === results.length
+          ? `${updated} order(s) updated`
+          : `${updated} of ${results.length} order(s) updated`,
+        data: { updated, failed: results.length - updated, results },
+      })
+    } catch (error) {
+      console.error('Bulk update order status controller error:', error)
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        errors: ['Failed to update orders'],
+      } as ApiResponse)
+    }
+  }
+
+  /**
+   * One PDF with the invoices of the selected orders (Admin only)
+   */
+  printInvoices = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const result = await this.exportService.mergeInvoices(req.body.orderIds)
+
+      if (result.success && result.file) {
+        this.sendFile(res, result.file)
+        if (result.skipped?.length) res.setHeader('X-Skipped-Orders', result.skipped.join(','))
+        res.send(result.file.body)
+      } else {
+        res.status(400).json({
+          success: false,
+          message: result.error || 'Failed to print invoices',
+          errors: [result.error || 'Print failed'],
+        } as ApiResponse)
+      }
+    } catch (error) {
+      console.error('Print invoices controller error:', error)
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        errors: ['Failed to print invoices'],
+      } as ApiResponse)
+    }
+  }
+
+  /**
+   * Export filtered orders or line items as CSV, or both as XLSX (Admin only)
+   */
+  exportOrders = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { format, dataset } = req.query
+      const result = await this.exportService.exportOrders(
+        this.readAdminOrderFilters(req),
+        (format as OrderExportFormat) || 'csv',
+        (dataset as OrderExportDataset) || 'orders'
+      )
+
+      if (result.success && result.file) {
+        this.sendFile(res, result.file)
+        res.send(result.file.body)
+      } else {
+        res.status(400).json({
+          success: false,
+          message: result.error || 'Failed to export orders',
+          errors: [result.error || 'Export failed'],
+        } as ApiResponse)
+      }
+    } catch (error) {
+      console.error('Export orders controller error:', error)
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        errors: ['Failed to export orders'],
+      } as ApiResponse)
+    }
+  }
+
+  private readAdminOrderFilters(req: Request): AdminOrderFilters {
+    const { status, paymentStatus, from, to, search } = req.query
+    return {
+      status: typeof status === 'string' && status ? status : undefined,
+      paymentStatus: typeof paymentStatus === 'string' && paymentStatus ? paymentStatus : undefined,
+      from: typeof from === 'string' && from ? from : undefined,
+      to: typeof to === 'string' && to ? to : undefined,
+      search: typeof search === 'string' && search.trim() ? search : undefined,
+    }
+  }
+
+  private sendFile(res: Response, file: { filename: string; contentType: string }): void {
+    res.setHeader('Content-Type', file.contentType)
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`)
+    res.setHeader('Cache-Control', 'no-store')
+  }
+
   /**
    * Get all payment transactions (Admin only, live DB)
    */
@@ -588,92 +985,804 @@ export class OrderController {
   }
 
   /**
-   * Get order statistics (Admin only)
+   * Refund a successful payment transaction, fully or partially (Admin only)
    */
-  getOrderStats = async (req: Request, res: Response): Promise<void> => {
+  createRefund = async (req: Request, res: Response): Promise<void> => {
     try {
-      const stats = await this.orderService.getOrderStats()
+      const { id } = req.params
+      const transactionId = Array.isArray(id) ? id[0] : id
+      const { amount, reason } = req.body
+      const adminId = (req as AuthenticatedAdminRequest).adminId
 
-      res.json({
-        success: true,
-        message: 'Order statistics retrieved successfully',
-        data: stats,
+      const result = await this.refundService.createRefund({
+        paymentTransactionId: transactionId,
+        amount: amount != null ? Number(amount) : undefined,
+        reason,
+        requestedBy: adminId,
       })
+
+      if (result.success) {
+        res.status(201).json({
+          success: true,
+          message: 'Refund requested successfully',
+          data: result.data,
+        } as ApiResponse)
+      } else {
+        res.status(result.error === 'Transaction not found' ? 404 : 400).json({
+          success: false,
+          message: result.error || 'Failed to create refund',
+          errors: [result.error || 'Refund failed'],
+        } as ApiResponse)
+      }
     } catch (error) {
-      console.error('Get order stats controller error:', error)
+      console.error('Create refund controller error:', error)
       res.status(500).json({
         success: false,
         message: 'Internal server error',
-        errors: ['Failed to fetch statistics'],
+        errors: ['Failed to create refund'],
       } as ApiResponse)
     }
   }
 
   /**
-   * Verify delivery by 4-digit code (public: rider or admin)
+   * List refunds, optionally for one transaction (Admin only)
    */
-  verifyDeliveryByCode = async (req: Request, res: Response): Promise<void> => {
+  getAdminRefunds = async (req: Request, res: Response): Promise<void> => {
     try {
-      const code = req.body?.code ?? req.query?.code
-      if (!code || String(code).trim() === '') {
-        res.status(400).json({
-          success: false,
-          message: 'Delivery code is required',
-          errors: ['Missing code'],
-        } as ApiResponse)
-        return
-      }
-
-      const result = await this.orderService.verifyDeliveryByCode(String(code).trim())
-
+      const { page, limit, transactionId } = req.query
+      const result = await this.refundService.listRefunds({
+        paymentTransactionId: transactionId as string | undefined,
+        page: page ? parseInt(String(page), 10) : 1,
+        limit: limit ? parseInt(String(limit), 10) : 50,
+      })
       if (result.success) {
         res.json({
           success: true,
-          message: 'Delivery confirmed successfully',
-          data: { orderId: result.orderId, orderNumber: result.orderNumber },
+          message: 'Refunds retrieved successfully',
+          data: result.data,
+          pagination: result.pagination,
         })
       } else {
-        res.status(400).json({
+        res.status(500).json({
           success: false,
-          message: result.error || 'Verification failed',
-          errors: [result.error || 'Invalid code or order already delivered'],
+          message: result.error || 'Failed to fetch refunds',
+          errors: [result.error || 'Fetch failed'],
         } as ApiResponse)
       }
     } catch (error) {
-      console.error('Verify delivery by code controller error:', error)
+      console.error('Get admin refunds controller error:', error)
       res.status(500).json({
         success: false,
         message: 'Internal server error',
-        errors: ['Verification failed'],
+        errors: ['Failed to fetch refunds'],
       } as ApiResponse)
     }
   }
 
   /**
-   * Verify delivery by QR token (public: rider or admin)
+   * List stored webhook events (Admin only)
    */
-  verifyDeliveryByToken = async (req: Request, res: Response): Promise<void> => {
+  getAdminWebhookEvents = async (req: Request, res: Response): Promise<void> => {
     try {
-      const token = req.body?.token ?? req.query?.token
-      if (!token || String(token).trim() === '') {
-        res.status(400).json({
-          success: false,
-          message: 'Verification token is required',
-          errors: ['Missing token'],
-        } as ApiResponse)
+      const { page, limit, status, eventType } = req.query
+      const result = await this.webhookEventService.listEvents({
+        status: status as WebhookEventStatus | undefined,
+        eventType: eventType as string | undefined,
+        page: page ? parseInt(String(page), 10) : 1,
+        limit: limit ? parseInt(String(limit), 10) : 50,
+      })
+      if (result.success) {
+        res.json({
+          success: true,
+          message: 'Webhook events retrieved successfully',
+          data: result.data,
+          pagination: result.pagination,
+        })
+      } else {
+        res.status(500).json({
+          success: false,
+          message: result.error || 'Failed to fetch webhook events',
+          errors: [result.error || 'Fetch failed'],
+        } as ApiResponse)
+      }
+    } catch (error) {
+      console.error('Get webhook events controller error:', error)
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        errors: ['Failed to fetch webhook events'],
+      } as ApiResponse)
+    }
+  }
+
+  /**
+   * Replay a stored webhook event through the webhook handlers (Admin only)
+   */
+  replayWebhookEvent = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params
+      const eventId = Array.isArray(id) ? id[0] : id
+      const result = await this.webhookEventService.replayEvent(eventId)
+
+      if (result.success) {
+        res.json({
+          success: true,
+          message: result.message,
+          data: { status: result.status },
+        } as ApiResponse)
+      } else {
+        const status = result.message === 'Webhook event not found' ? 404
+          : result.message === 'Event is already being processed' ? 409
+          : 422
+        res.status(status).json({
+          success: false,
+          message: result.message,
+          errors: [result.message],
+          data: { status: result.status },
+        } as ApiResponse)
+      }
+    } catch (error) {
+      console.error('Replay webhook event controller error:', error)
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        errors: ['Failed to replay webhook event'],
+      } as ApiResponse)
+    }
+  }
+
+  /**
+   * Run payment reconciliation now (Admin only)
+   */
+  runAdminReconciliation = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const adminId = (req as AuthenticatedAdminRequest).adminId
+      const result = await this.reconciliationService.runReconciliation(adminId || 'admin')
+      res.json({
+        success: true,
+        message: result.skipped ?? 'Reconciliation completed',
+        data: result,
+      } as ApiResponse)
+    } catch (error) {
+      console.error('Admin reconciliation controller error:', error)
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        errors: ['Reconciliation failed'],
+      } as ApiResponse)
+    }
+  }
+
+  /**
+   * List payment discrepancies found by reconciliation (Admin only)
+   */
+  getPaymentDiscrepancies = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { page, limit, type, resolved } = req.query
+      const result = await this.reconciliationService.listDiscrepancies({
+        resolved: resolved === 'true',
+        type: type as DiscrepancyType | undefined,
+        page: page ? parseInt(String(page), 10) : 1,
+        limit: limit ? parseInt(String(limit), 10) : 50,
+      })
+      if (result.success) {
+        res.json({
+          success: true,
+          message: 'Discrepancies retrieved successfully',
+          data: result.data,
+          pagination: result.pagination,
+        })
+      } else {
+        res.status(500).json({
+          success: false,
+          message: result.error || 'Failed to fetch discrepancies',
+          errors: [result.error || 'Fetch failed'],
+        } as ApiResponse)
+      }
+    } catch (error) {
+      console.error('Get discrepancies controller error:', error)
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        errors: ['Failed to fetch discrepancies'],
+      } as ApiResponse)
+    }
+  }
+
+  /**
+   * List recent reconciliation runs (Admin only)
+   */
+  getReconciliationRuns = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const result = await this.reconciliationService.listRuns()
+      if (result.success) {
+        res.json({
+          success: true,
+          message: 'Reconciliation runs retrieved successfully',
+          data: result.data,
+        })
+      } else {
+        res.status(500).json({
+          success: false,
+          message: result.error || 'Failed to fetch reconciliation runs',
+          errors: [result.error || 'Fetch failed'],
+        } as ApiResponse)
+      }
+    } catch (error) {
+      console.error('Get reconciliation runs controller error:', error)
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        errors: ['Failed to fetch reconciliation runs'],
+      } as ApiResponse)
+    }
+  }
+
+  /**
+   * Mark a payment discrepancy as resolved (Admin only)
+   */
+  resolvePaymentDiscrepancy = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params
+      const discrepancyId = Array.isArray(id) ? id[0] : id
+      const adminId = (req as AuthenticatedAdminRequest).adminId
+      const result = await this.reconciliationService.resolveDiscrepancy(discrepancyId, adminId, req.body?.note)
+
+      if (result.success) {
+        res.json({
+          success: true,
+          message: 'Discrepancy resolved',
+        } as ApiResponse)
+      } else {
+        res.status(404).json({
+          success: false,
+          message: result.error || 'Failed to resolve discrepancy',
+          errors: [result.error || 'Resolve failed'],
+        } as ApiResponse)
+      }
+    } catch (error) {
+      console.error('Resolve discrepancy controller error:', error)
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        errors: ['Failed to resolve discrepancy'],
+      } as ApiResponse)
+    }
+  }
+
+  /**
+   * Cash reconciliation per rider per day for pay-on-delivery orders (Admin only)
+   */
+  getCodReconciliation = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { from, to, riderName } = req.query
+      const result = await this.codService.getDailyReconciliation({
+        from: from as string | undefined,
+        to: to as string | undefined,
+        riderName: (riderName as string | undefined)?.trim() || undefined,
+      })
+      if (result.success) {
+        res.json({
+          success: true,
+          message: 'COD reconciliation retrieved successfully',
+          data: result.data,
+        })
+      } else {
+        res.status(500).json({
+          success: false,
+          message: result.error || 'Failed to fetch COD reconciliation',
+          errors: [result.error || 'Fetch failed'],
+        } as ApiResponse)
+      }
+    } catch (error) {
+      console.error('Get COD reconciliation controller error:', error)
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        errors: ['Failed to fetch COD reconciliation'],
+      } as ApiResponse)
+    }
+  }
+
+  /**
+   * Record the cash a rider handed over for a day (Admin only)
+   */
+  recordCodRemittance = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { riderName, businessDate, receivedAmount, note } = req.body
+      const adminId = (req as AuthenticatedAdminRequest).adminId
+      const result = await this.codService.recordRemittance({
+        riderName,
+        businessDate,
+        receivedAmount: Number(receivedAmount),
+        receivedBy: adminId,
+        note,
+      })
+      if (result.success) {
+        res.json({
+          success: true,
+          message: 'Cash handover recorded',
+        } as ApiResponse)
+      } else {
+        res.status(400).json({
+          success: false,
+          message: result.error || 'Failed to record cash handover',
+          errors: [result.error || 'Record failed'],
+        } as ApiResponse)
+      }
+    } catch (error) {
+      console.error('Record COD remittance controller error:', error)
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        errors: ['Failed to record cash handover'],
+      } as ApiResponse)
+    }
+  }
+
+  /**
+   * Set a customer's pay-on-delivery limits (Admin only)
+   */
+  updateCustomerCodLimits = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { userId } = req.params
+      const customerId = Array.isArray(userId) ? userId[0] : userId
+      const { codAllowed, maxOrderValue, maxOpenOrders } = req.body
+      const result = await this.codService.updateCustomerLimits(customerId, {
+        codAllowed: typeof codAllowed === 'boolean' ? codAllowed : undefined,
+        maxOrderValue: maxOrderValue === null ? null : maxOrderValue !== undefined ? Number(maxOrderValue) : undefined,
+        maxOpenOrders: maxOpenOrders === null ? null : maxOpenOrders !== undefined ? Number(maxOpenOrders) : undefined,
+      })
+      if (result.success) {
+        res.json({
+          success: true,
+          message: 'Customer COD limits updated',
+          data: result.data,
+        } as ApiResponse)
+      } else {
+        res.status(result.error === 'Customer not found' ? 404 : 400).json({
+          success: false,
+          message: result.error || 'Failed to update COD limits',
+          errors: [result.error || 'Update failed'],
+        } as ApiResponse)
+      }
+    } catch (error) {
+      console.error('Update customer COD limits controller error:', error)
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        errors: ['Failed to update COD limits'],
+      } as ApiResponse)
+    }
+  }
+
+  /**
+   * Get order statistics (Admin only)
+   */
+  getOrderStats = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const stats = await this.orderService.getOrderStats()
+
+      res.json({
+        success: true,
+        message: 'Order statistics retrieved successfully',
+        data: stats,
+      })
+    } catch (error) {
+      console.error('Get order stats controller error:', error)
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        errors: ['Failed to fetch statistics'],
+      } as ApiResponse)
+    }
+  }
+
+  /**
+   * Change the items of the customer's own order before dispatch
+   */
+  amendOrder = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.id
+      const { id } = req.params
+      const orderId = Array.isArray(id) ? id[0] : id
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+          errors: ['Please sign in'],
+        } as ApiResponse)
         return
       }
 
-      const result = await this.orderService.verifyDeliveryByToken(String(token).trim())
+      const result = await this.amendmentService.amendOrder(this.readAmendment(req, orderId, { type: 'customer', id: userId }))
+      this.sendAmendmentResult(res, result)
+    } catch (error) {
+      console.error('Amend order controller error:', error)
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        errors: ['Failed to change order'],
+      } as ApiResponse)
+    }
+  }
+
+  /**
+   * Find customers by name, email or phone for a manual order (Admin only)
+   */
+  searchCustomers = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const search = typeof req.query.search === 'string' ? req.query.search : ''
+      const result = await this.adminOrderService.searchCustomers(search)
+
+      if (result.success) {
+        res.json({
+          success: true,
+          message: 'Customers retrieved successfully',
+          data: result.data,
+        } as ApiResponse)
+      } else {
+        res.status(500).json({
+          success: false,
+          message: result.error || 'Failed to search customers',
+          errors: [result.error || 'Search failed'],
+        } as ApiResponse)
+      }
+    } catch (error) {
+      console.error('Search customers controller error:', error)
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        errors: ['Failed to search customers'],
+      } as ApiResponse)
+    }
+  }
+
+  /**
+   * Place an order for a phone, WhatsApp or walk-in customer (Admin only)
+   */
+  createAdminOrder = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const adminId = (req as AuthenticatedAdminRequest).adminId
+      const {
+        channel, userId, newCustomer, cartItems, deliveryAddress, deliveryNotes,
+        deliveryLat, deliveryLng, voucherCode, payment, paidVia, paymentNote, deliverySlot,
+      } = req.body
+
+      const result = await this.adminOrderService.createOrder({
+        adminId,
+        channel: channel as ManualOrderChannel,
+        userId: userId || undefined,
+        newCustomer: userId ? undefined : newCustomer,
+        cartItems,
+        deliveryAddress,
+        deliveryNotes,
+        deliveryLat: typeof deliveryLat === 'number' ? deliveryLat : undefined,
+        deliveryLng: typeof deliveryLng === 'number' ? deliveryLng : undefined,
+        voucherCode: voucherCode?.trim() || undefined,
+        payment: payment as ManualOrderPayment,
+        paidVia: paidVia as OfflinePaymentMethod | undefined,
+        paymentNote,
+        deliverySlot: deliverySlot?.slotId ? { slotId: deliverySlot.slotId, date: deliverySlot.date } : undefined,
+      })
+
+      if (result.success && result.checkout) {
+        const { checkout } = result
+        res.status(201).json({
+          success: true,
+          message: checkout.order
+            ? `Order ${checkout.order.orderNumber} created`
+            : 'Order created. Send the payment link to the customer; the order is confirmed once they pay.',
+          data: {
+            customer: result.customer,
+            customerCreated: result.customerCreated === true,
+            pendingOrderId: checkout.pendingOrderId,
+            paymentReference: checkout.paymentReference,
+            amount: checkout.amount,
+            authorizationUrl: checkout.authorizationUrl,
+            orderId: checkout.order?.orderId,
+            orderNumber: checkout.order?.orderNumber,
+            invoiceNumber: checkout.order?.invoiceNumber,
+            pdfUrl: checkout.order?.pdfUrl,
+            deliveryCode: checkout.order?.deliveryCode,
+            trackingUrl: checkout.order?.trackingUrl,
+          },
+        })
+      } else {
+        res.status(result.error === 'Customer not found' ? 404 : 400).json({
+          success: false,
+          message: result.error || 'Failed to create order',
+          errors: [result.error || 'Order creation failed'],
+        } as ApiResponse)
+      }
+    } catch (error) {
+      console.error('Create admin order controller error:', error)
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        errors: ['Failed to create order'],
+      } as ApiResponse)
+    }
+  }
 
+  /**
+   * Change the items of any order before dispatch (Admin only)
+   */
+  adminAmendOrder = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params
+      const orderId = Array.isArray(id) ? id[0] : id
+      const adminId = (req as AuthenticatedAdminRequest).adminId
+
+      const result = await this.amendmentService.amendOrder(this.readAmendment(req, orderId, { type: 'admin', id: adminId }))
+      this.sendAmendmentResult(res, result)
+    } catch (error) {
+      console.error('Admin amend order controller error:', error)
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        errors: ['Failed to change order'],
+      } as ApiResponse)
+    }
+  }
+
+  /**
+   * List changes made to an order (customer: own orders; admin: any order)
+   */
+  getOrderAmendments = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params
+      const orderId = Array.isArray(id) ? id[0] : id
+      const isAdmin = !!(req as AuthenticatedAdminRequest).adminId
+      const userId = req.user?.id
+
+      if (!isAdmin && !userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+          errors: ['Please sign in'],
+        } as ApiResponse)
+        return
+      }
+
+      const result = await this.amendmentService.listAmendments(orderId, isAdmin ? undefined : userId)
       if (result.success) {
         res.json({
           success: true,
-          message: 'Delivery confirmed successfully',
-          data: { orderId: result.orderId, orderNumber: result.orderNumber },
+          message: 'Order changes retrieved successfully',
+          data: result.data,
+        })
+      } else {
+        res.status(result.error === 'Order not found' ? 404 : 400).json({
+          success: false,
+          message: result.error || 'Failed to fetch order changes',
+          errors: [result.error || 'Fetch failed'],
+        } as ApiResponse)
+      }
+    } catch (error) {
+      console.error('Get order amendments controller error:', error)
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        errors: ['Failed to fetch order changes'],
+      } as ApiResponse)
+    }
+  }
+
+  /**
+   * Cancel an order change that is still waiting for payment (customer: own orders; admin: any order)
+   */
+  cancelOrderAmendment = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { id, amendmentId } = req.params
+      const orderId = Array.isArray(id) ? id[0] : id
+      const changeId = Array.isArray(amendmentId) ? amendmentId[0] : amendmentId
+      const adminId = (req as AuthenticatedAdminRequest).adminId
+      const userId = req.user?.id
+
+      if (!adminId && !userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+          errors: ['Please sign in'],
+        } as ApiResponse)
+        return
+      }
+
+      const result = await this.amendmentService.cancelAmendment(
+        orderId,
+        changeId,
+        adminId ? { type: 'admin', id: adminId } : { type: 'customer', id: userId! }
+      )
+      if (result.success) {
+        res.json({
+          success: true,
+          message: 'Order change cancelled',
+        })
+      } else {
+        res.status(result.error === 'Order not found' ? 404 : 400).json({
+          success: false,
+          message: result.error || 'Failed to cancel order change',
+          errors: [result.error || 'Cancellation failed'],
+        } as ApiResponse)
+      }
+    } catch (error) {
+      console.error('Cancel order amendment controller error:', error)
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        errors: ['Failed to cancel order change'],
+      } as ApiResponse)
+    }
+  }
+
+  /**
+   * Verify the payment for an order change after the customer returns from the payment page
+   */
+  verifyAmendmentPayment = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const { reference } = req.body
+      const result = await this.amendmentService.confirmPayment(String(reference))
+
+      if (result.success) {
+        res.json({
+          success: true,
+          message: 'Payment verified. Your order has been updated.',
+          data: { orderId: result.orderId },
         })
       } else {
         res.status(400).json({
+          success: false,
+          message: result.error || 'Payment verification failed',
+          errors: [result.error || 'Verification failed'],
+        } as ApiResponse)
+      }
+    } catch (error) {
+      console.error('Verify amendment payment controller error:', error)
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        errors: ['Failed to verify payment'],
+      } as ApiResponse)
+    }
+  }
+
+  private readAmendment(req: Request, orderId: string, requestedBy: AmendOrderParams['requestedBy']): AmendOrderParams {
+    const { items, reason, refundMethod } = req.body
+    return {
+      orderId,
+      items: (items as Array<{ productId: string; quantity: number }>).map((item) => ({
+        productId: String(item.productId),
+        quantity: Number(item.quantity),
+      })),
+      requestedBy,
+      reason: reason ? String(reason) : undefined,
+      refundMethod,
+    }
+  }
+
+  private sendAmendmentResult(res: Response, result: AmendOrderResult): void {
+    if (result.success) {
+      const awaitingPayment = result.data?.status === 'awaiting_payment'
+      res.status(awaitingPayment ? 202 : 200).json({
+        success: true,
+        message: awaitingPayment
+          ? 'Please pay the difference to confirm the change.'
+          : 'Order updated successfully',
+        data: {
+          amendment: result.data,
+          authorizationUrl: result.authorizationUrl,
+          warnings: result.warnings ?? [],
+        },
+      })
+    } else {
+      res.status(result.error === 'Order not found' ? 404 : 400).json({
+        success: false,
+        message: result.error || 'Failed to change order',
+        errors: [result.error || 'Order change failed'],
+      } as ApiResponse)
+    }
+  }
+
+  /** Optional pay-on-delivery collection details sent with a delivery verification */
+  private readCollection(req: Request): CodCollectionInput | undefined {
+    const { riderName, amountCollected, collectionMethod, momoReference } = req.body ?? {}
+    if (riderName == null && amountCollected == null && collectionMethod == null && momoReference == null) {
+      return undefined
+    }
+    return {
+      riderName: riderName != null ? String(riderName) : undefined,
+      amountCollected: amountCollected != null && amountCollected !== '' ? Number(amountCollected) : undefined,
+      method: collectionMethod ?? undefined,
+      momoReference: momoReference != null ? String(momoReference) : undefined,
+    }
+  }
+
+  /** Set by authenticateRiderOrAdmin: an admin, or else the signed-in rider */
+  private readConfirmer(req: Request): DeliveryConfirmer {
+    const adminId = (req as AuthenticatedAdminRequest).adminId
+    if (adminId) {
+      return { type: 'admin', adminId }
+    }
+    const rider = req as AuthenticatedRiderRequest
+    return { type: 'rider', riderId: rider.riderId, riderName: rider.riderName }
+  }
+
+  /** Which order a code is for, and where the request came from, for the verification audit trail */
+  private readVerificationOptions(req: Request): DeliveryVerificationOptions {
+    const orderId = req.body?.orderId
+    return {
+      orderId: orderId ? String(orderId) : undefined,
+      source: { ip: req.ip, userAgent: req.get('user-agent') },
+    }
+  }
+
+  /**
+   * Verify delivery by 4-digit code (the assigned rider, or an admin)
+   */
+  verifyDeliveryByCode = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const code = req.body?.code ?? req.query?.code
+      if (!code || String(code).trim() === '') {
+        res.status(400).json({
+          success: false,
+          message: 'Delivery code is required',
+          errors: ['Missing code'],
+        } as ApiResponse)
+        return
+      }
+
+      const result = await this.orderService.verifyDeliveryByCode(String(code).trim(), this.readConfirmer(req), this.readCollection(req), deliveryProofFromBody(req.body), this.readVerificationOptions(req))
+
+      if (result.success) {
+        res.json({
+          success: true,
+          message: result.warning ?? 'Delivery confirmed successfully',
+          data: { orderId: result.orderId, orderNumber: result.orderNumber, warning: result.warning },
+        })
+      } else {
+        res.status(CODE_VERIFICATION_FORBIDDEN.includes(result.error ?? '') ? 403 : 400).json({
+          success: false,
+          message: result.error || 'Verification failed',
+          errors: [result.error || 'Invalid code or order already delivered'],
+        } as ApiResponse)
+      }
+    } catch (error) {
+      console.error('Verify delivery by code controller error:', error)
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        errors: ['Verification failed'],
+      } as ApiResponse)
+    }
+  }
+
+  /**
+   * Verify delivery by QR token (the assigned rider, or an admin)
+   */
+  verifyDeliveryByToken = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const token = req.body?.token ?? req.query?.token
+      if (!token || String(token).trim() === '') {
+        res.status(400).json({
+          success: false,
+          message: 'Verification token is required',
+          errors: ['Missing token'],
+        } as ApiResponse)
+        return
+      }
+
+      const result = await this.orderService.verifyDeliveryByToken(String(token).trim(), this.readConfirmer(req), this.readCollection(req), deliveryProofFromBody(req.body), this.readVerificationOptions(req))
+
+      if (result.success) {
+        res.json({
+          success: true,
+          message: result.warning ?? 'Delivery confirmed successfully',
+          data: { orderId: result.orderId, orderNumber: result.orderNumber, warning: result.warning },
+        })
+      } else {
+        res.status(result.error === 'This delivery is not assigned to you' ? 403 : 400).json({
           success: false,
           message: result.error || 'Verification failed',
           errors: [result.error || 'Invalid token or order already delivered'],
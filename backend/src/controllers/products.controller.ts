@@ -1,5 +1,6 @@
 import { Request, Response } from 'express'
 import { ProductsService, Product } from '../services/products.service'
+import { InventoryService, ReservationStatus } from '../services/inventory.service'
 import { ApiResponse } from '../types/api.types'
 
 /** Ensure value is JSON-serializable (BigInt -> number, etc.) to avoid 500 on res.json() */
@@ -18,9 +19,11 @@ function toJsonSafe<T>(value: T): T {
 
 export class ProductsController {
   private productsService: ProductsService
+  private inventoryService: InventoryService
 
   constructor() {
     this.productsService = new ProductsService()
+    this.inventoryService = new InventoryService()
   }
 
   /**
@@ -326,4 +329,40 @@ export class ProductsController {
       } as ApiResponse<null>)
     }
   }
+
+  /**
+   * Get stock reservations held by pending orders (admin only)
+   */
+  getReservations = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { status, productId, page = '1', limit = '50' } = req.query
+      const result = await this.inventoryService.listReservations({
+        status: status as ReservationStatus | undefined,
+        productId: productId as string | undefined,
+        page: parseInt(page as string),
+        limit: parseInt(limit as string)
+      })
+
+      if (!result.success) {
+        res.status(500).json({
+          success: false,
+          message: result.error || 'Failed to fetch reservations'
+        } as ApiResponse<null>)
+        return
+      }
+
+      res.json({
+        success: true,
+        message: 'Reservations retrieved successfully',
+        data: result.data,
+        pagination: result.pagination
+      } as ApiResponse<typeof result.data>)
+    } catch (error) {
+      console.error('Get reservations error:', error)
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error'
+      } as ApiResponse<null>)
+    }
+  }
 }
@@ -0,0 +1,427 @@
+import { Request, Response } from 'express'
+import { RiderService, deliveryProofFromBody, type FailedAttemptInput, type FailedAttemptReasonCode, type RiderInput } from '../services/rider.service'
+import type { AuthenticatedAdminRequest } from '../middleware/adminAuth.middleware'
+import type { AuthenticatedRiderRequest } from '../middleware/riderAuth.middleware'
+import { ApiResponse } from '../types/api.types'
+
+const riderService = new RiderService()
+
+function routeParam(req: Request, name: string): string {
+  const value = req.params[name]
+  return Array.isArray(value) ? value[0] : value
+}
+
+function failedAttemptFromBody(body: Record<string, unknown> | undefined): FailedAttemptInput {
+  const { photo, gps } = deliveryProofFromBody(body)
+  return {
+    reasonCode: body?.reasonCode as FailedAttemptReasonCode,
+    note: body?.note != null ? String(body.note) : undefined,
+    photo,
+    gps,
+  }
+}
+
+function riderFromBody(body: Record<string, unknown>): RiderInput {
+  return {
+    fullName: String(body.fullName ?? ''),
+    phone: String(body.phone ?? ''),
+    email: (body.email as string | null | undefined) ?? null,
+    vehicle: (body.vehicle as string | null | undefined) ?? null,
+    routeCapacity: body.routeCapacity != null ? Number(body.routeCapacity) : undefined,
+    active: body.active !== false,
+    password: body.password ? String(body.password) : undefined,
+  }
+}
+
+// ----- Rider -----
+
+/**
+ * POST /api/riders/login - Rider sign-in with phone (or email) and password.
+ * Body: { phoneOrEmail, password }
+ */
+export async function login(req: Request, res: Response): Promise<void> {
+  try {
+    const { phoneOrEmail, password } = req.body as { phoneOrEmail: string; password: string }
+    const result = await riderService.login(phoneOrEmail, password)
+    if (!result.success) {
+      res.status(401).json({
+        success: false,
+        message: result.error || 'Login failed',
+      } as ApiResponse<null>)
+      return
+    }
+
+    res.cookie('rider_token', result.data!.token, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax' as const,
+      maxAge: 12 * 60 * 60 * 1000, // 12 hours, one shift
+      path: '/',
+    })
+    res.json({
+      success: true,
+      message: 'Login successful',
+      data: result.data,
+    } as ApiResponse)
+  } catch (e) {
+    console.error('Rider login error:', e)
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    } as ApiResponse<null>)
+  }
+}
+
+/**
+ * POST /api/riders/logout - Clear the rider cookie.
+ */
+export async function logout(_req: Request, res: Response): Promise<void> {
+  res.clearCookie('rider_token', { path: '/' })
+  res.json({
+    success: true,
+    message: 'Logout successful',
+  } as ApiResponse<null>)
+}
+
+/**
+ * GET /api/riders/me - The signed-in rider's profile (rider).
+ */
+export async function getProfile(req: Request, res: Response): Promise<void> {
+  try {
+    const rider = await riderService.getRider((req as AuthenticatedRiderRequest).riderId)
+    if (!rider) {
+      res.status(404).json({
+        success: false,
+        message: 'Rider not found',
+      } as ApiResponse<null>)
+      return
+    }
+    res.json({
+      success: true,
+      message: 'Profile retrieved successfully',
+      data: rider,
+    } as ApiResponse)
+  } catch (e) {
+    console.error('Get rider profile error:', e)
+    res.status(500).json({
+      success: false,
+      message: 'Failed to load profile',
+    } as ApiResponse<null>)
+  }
+}
+
+/**
+ * GET /api/riders/me/deliveries - Shipped orders assigned to the signed-in rider, with address and map pin (rider).
+ */
+export async function listMyDeliveries(req: Request, res: Response): Promise<void> {
+  try {
+    const result = await riderService.listDeliveries((req as AuthenticatedRiderRequest).riderId)
+    if (!result.success) {
+      res.status(500).json({
+        success: false,
+        message: result.error || 'Failed to load deliveries',
+      } as ApiResponse<null>)
+      return
+    }
+    res.json({
+      success: true,
+      message: 'Deliveries retrieved successfully',
+      data: result.data,
+    } as ApiResponse)
+  } catch (e) {
+    console.error('List rider deliveries error:', e)
+    res.status(500).json({
+      success: false,
+      message: 'Failed to load deliveries',
+    } as ApiResponse<null>)
+  }
+}
+
+/**
+ * POST /api/riders/me/deliveries/:orderId/failed-attempt - Record that the delivery could not be made (rider).
+ * Body: { reasonCode, note?, photo?, gpsLat?, gpsLng?, gpsAccuracy?, gpsCapturedAt? }
+ */
+export async function recordFailedAttempt(req: Request, res: Response): Promise<void> {
+  try {
+    const rider = req as AuthenticatedRiderRequest
+    const result = await riderService.recordFailedAttempt(
+      routeParam(req, 'orderId'),
+      { type: 'rider', riderId: rider.riderId, riderName: rider.riderName },
+      failedAttemptFromBody(req.body)
+    )
+    if (!result.success) {
+      res.status(result.error === 'Delivery not found' ? 404 : 400).json({
+        success: false,
+        message: result.error || 'Failed to record attempt',
+      } as ApiResponse<null>)
+      return
+    }
+    res.status(201).json({
+      success: true,
+      message: result.data?.rescheduleRequired ? 'Failed attempt recorded; the order will be rescheduled' : 'Failed attempt recorded',
+      data: result.data,
+    } as ApiResponse)
+  } catch (e) {
+    console.error('Record failed attempt error:', e)
+    res.status(500).json({
+      success: false,
+      message: 'Failed to record attempt',
+    } as ApiResponse<null>)
+  }
+}
+
+/**
+ * GET /api/riders/me/stats?from=&to= - The signed-in rider's own performance (rider).
+ */
+export async function getMyStats(req: Request, res: Response): Promise<void> {
+  try {
+    const result = await riderService.getPerformance({
+      from: req.query.from as string | undefined,
+      to: req.query.to as string | undefined,
+      riderId: (req as AuthenticatedRiderRequest).riderId,
+    })
+    if (!result.success) {
+      res.status(400).json({
+        success: false,
+        message: result.error || 'Failed to load stats',
+      } as ApiResponse<null>)
+      return
+    }
+    const { riders, ...range } = result.data!
+    res.json({
+      success: true,
+      message: 'Stats retrieved successfully',
+      data: { ...range, stats: riders[0] ?? null },
+    } as ApiResponse)
+  } catch (e) {
+    console.error('Get rider stats error:', e)
+    res.status(500).json({
+      success: false,
+      message: 'Failed to load stats',
+    } as ApiResponse<null>)
+  }
+}
+
+// ----- Admin -----
+
+/**
+ * GET /api/admin/riders?includeInactive= - Rider accounts (admin).
+ */
+export async function listRiders(req: Request, res: Response): Promise<void> {
+  try {
+    const riders = await riderService.listRiders({ includeInactive: req.query.includeInactive === 'true' })
+    res.json({
+      success: true,
+      message: 'Riders retrieved successfully',
+      data: riders,
+    } as ApiResponse)
+  } catch (e) {
+    console.error('List riders error:', e)
+    res.status(500).json({
+      success: false,
+      message: 'Failed to load riders',
+    } as ApiResponse<null>)
+  }
+}
+
+/**
+ * POST /api/admin/riders - Create a rider account (admin).
+ * Body: { fullName, phone, email?, vehicle?, routeCapacity?, password, active? }
+ */
+export async function createRider(req: Request, res: Response): Promise<void> {
+  try {
+    const result = await riderService.createRider(riderFromBody(req.body || {}), (req as AuthenticatedAdminRequest).adminId)
+    if (!result.success) {
+      res.status(400).json({
+        success: false,
+        message: result.error || 'Failed to create rider',
+      } as ApiResponse<null>)
+      return
+    }
+    res.status(201).json({
+      success: true,
+      message: 'Rider created',
+      data: result.data,
+    } as ApiResponse)
+  } catch (e) {
+    console.error('Create rider error:', e)
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create rider',
+    } as ApiResponse<null>)
+  }
+}
+
+/**
+ * PUT /api/admin/riders/:id - Update a rider; a password resets it (admin). Same body as POST, password optional.
+ */
+export async function updateRider(req: Request, res: Response): Promise<void> {
+  try {
+    const result = await riderService.updateRider(routeParam(req, 'id'), riderFromBody(req.body || {}))
+    if (!result.success) {
+      res.status(result.error === 'Rider not found' ? 404 : 400).json({
+        success: false,
+        message: result.error || 'Failed to update rider',
+      } as ApiResponse<null>)
+      return
+    }
+    res.json({
+      success: true,
+      message: 'Rider updated',
+      data: result.data,
+    } as ApiResponse)
+  } catch (e) {
+    console.error('Update rider error:', e)
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update rider',
+    } as ApiResponse<null>)
+  }
+}
+
+/**
+ * GET /api/admin/riders/assignments?unassigned= - Shipped orders with their rider (admin).
+ */
+export async function listAssignments(req: Request, res: Response): Promise<void> {
+  try {
+    const result = await riderService.listAssignments({ unassigned: req.query.unassigned === 'true' })
+    if (!result.success) {
+      res.status(500).json({
+        success: false,
+        message: result.error || 'Failed to load assignments',
+      } as ApiResponse<null>)
+      return
+    }
+    res.json({
+      success: true,
+      message: 'Assignments retrieved successfully',
+      data: result.data,
+    } as ApiResponse)
+  } catch (e) {
+    console.error('List rider assignments error:', e)
+    res.status(500).json({
+      success: false,
+      message: 'Failed to load assignments',
+    } as ApiResponse<null>)
+  }
+}
+
+/**
+ * PUT /api/admin/riders/assignments/:orderId - Assign a shipped order to a rider, or unassign it (admin).
+ * Body: { riderId: string | null }
+ */
+export async function assignOrder(req: Request, res: Response): Promise<void> {
+  try {
+    const riderId = (req.body?.riderId as string | null | undefined) ?? null
+    const result = await riderService.assignOrder(routeParam(req, 'orderId'), riderId, (req as AuthenticatedAdminRequest).adminId)
+    if (!result.success) {
+      res.status(result.error === 'Order not found' || result.error === 'Rider not found' ? 404 : 400).json({
+        success: false,
+        message: result.error || 'Failed to assign order',
+      } as ApiResponse<null>)
+      return
+    }
+    res.json({
+      success: true,
+      message: riderId ? 'Order assigned' : 'Rider unassigned',
+    } as ApiResponse<null>)
+  } catch (e) {
+    console.error('Assign order to rider error:', e)
+    res.status(500).json({
+      success: false,
+      message: 'Failed to assign order',
+    } as ApiResponse<null>)
+  }
+}
+
+/**
+ * GET /api/admin/riders/orders/:orderId/attempts - Delivery attempts on an order with their proof (admin).
+ */
+export async function listOrderAttempts(req: Request, res: Response): Promise<void> {
+  try {
+    const result = await riderService.listOrderAttempts(routeParam(req, 'orderId'))
+    if (!result.success) {
+      res.status(result.error === 'Order not found' ? 404 : 500).json({
+        success: false,
+        message: result.error || 'Failed to load delivery attempts',
+      } as ApiResponse<null>)
+      return
+    }
+    res.json({
+      success: true,
+      message: 'Delivery attempts retrieved successfully',
+      data: result.data,
+    } as ApiResponse)
+  } catch (e) {
+    console.error('List delivery attempts error:', e)
+    res.status(500).json({
+      success: false,
+      message: 'Failed to load delivery attempts',
+    } as ApiResponse<null>)
+  }
+}
+
+/**
+ * POST /api/admin/riders/orders/:orderId/failed-attempt - Log a failed attempt reported by phone (admin).
+ * Body: { reasonCode, note? }
+ */
+export async function recordAdminFailedAttempt(req: Request, res: Response): Promise<void> {
+  try {
+    // Reported by phone: no photo or GPS fix from the admin's desk
+    const { reasonCode, note } = failedAttemptFromBody(req.body)
+    const result = await riderService.recordFailedAttempt(
+      routeParam(req, 'orderId'),
+      { type: 'admin', adminId: (req as AuthenticatedAdminRequest).adminId },
+      { reasonCode, note }
+    )
+    if (!result.success) {
+      res.status(result.error === 'Order not found' ? 404 : 400).json({
+        success: false,
+        message: result.error || 'Failed to record attempt',
+      } as ApiResponse<null>)
+      return
+    }
+    res.status(201).json({
+      success: true,
+      message: result.data?.rescheduleRequired ? 'Failed attempt recorded; the order needs rescheduling' : 'Failed attempt recorded',
+      data: result.data,
+    } as ApiResponse)
+  } catch (e) {
+    console.error('Record admin failed attempt error:', e)
+    res.status(500).json({
+      success: false,
+      message: 'Failed to record attempt',
+    } as ApiResponse<null>)
+  }
+}
+
+/**
+ * GET /api/admin/riders/performance?from=&to=&riderId= - Deliveries per day, average time and failed attempts per rider (admin).
+ */
+export async function getPerformance(req: Request, res: Response): Promise<void> {
+  try {
+    const result = await riderService.getPerformance({
+      from: req.query.from as string | undefined,
+      to: req.query.to as string | undefined,
+      riderId: req.query.riderId as string | undefined,
+    })
+    if (!result.success) {
+      res.status(400).json({
+        success: false,
+        message: result.error || 'Failed to load rider performance',
+      } as ApiResponse<null>)
+      return
+    }
+    res.json({
+      success: true,
+      message: 'Rider performance retrieved successfully',
+      data: result.data,
+    } as ApiResponse)
+  } catch (e) {
+    console.error('Get rider performance error:', e)
+    res.status(500).json({
+      success: false,
+      message: 'Failed to load rider performance',
+    } as ApiResponse<null>)
+  }
+}
@@ -0,0 +1,154 @@
+import { Request, Response } from 'express'
+import { StoreCreditService, StoreCreditEntryType } from '../services/store-credit.service'
+import type { AuthenticatedAdminRequest } from '../middleware/adminAuth.middleware'
+import { ApiResponse } from '../types/api.types'
+
+export interface AuthRequest extends Request {
+  user?: { id: string }
+}
+
+const storeCreditService = new StoreCreditService()
+
+function readHistoryQuery(req: Request): { type?: StoreCreditEntryType; page: number; limit: number } {
+  const { type, page, limit } = req.query
+  return {
+    type: typeof type === 'string' && type ? (type as StoreCreditEntryType) : undefined,
+    page: page ? Number(page) : 1,
+    limit: limit ? Number(limit) : 20,
+  }
+}
+
+/**
+ * GET /api/store-credit - Current user's store credit balance.
+ */
+export async function getMyBalance(req: AuthRequest, res: Response): Promise<void> {
+  try {
+    const userId = req.user?.id
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      } as ApiResponse)
+      return
+    }
+    const balance = await storeCreditService.getBalance(userId)
+    res.json({
+      success: true,
+      message: 'Store credit retrieved successfully',
+      data: balance,
+    } as ApiResponse)
+  } catch (e) {
+    console.error('Get store credit balance error:', e)
+    res.status(500).json({
+      success: false,
+      message: 'Failed to load store credit',
+    } as ApiResponse)
+  }
+}
+
+/**
+ * GET /api/store-credit/history - Current user's store credit ledger, newest first.
+ */
+export async function getMyHistory(req: AuthRequest, res: Response): Promise<void> {
+  try {
+    const userId = req.user?.id
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      } as ApiResponse)
+      return
+    }
+    const result = await storeCreditService.getHistory(userId, readHistoryQuery(req))
+    if (!result.success) {
+      res.status(500).json({
+        success: false,
+        message: result.error || 'Failed to load store credit history',
+      } as ApiResponse)
+      return
+    }
+    // Admin ids stay internal
+    const entries = (result.data ?? []).map(({ created_by: _createdBy, ...entry }) => entry)
+    res.json({
+      success: true,
+      message: 'Store credit history retrieved successfully',
+      data: entries,
+      pagination: result.pagination,
+    } as ApiResponse)
+  } catch (e) {
+    console.error('Get store credit history error:', e)
+    res.status(500).json({
+      success: false,
+      message: 'Failed to load store credit history',
+    } as ApiResponse)
+  }
+}
+
+/**
+ * GET /api/admin/store-credit/users/:userId - A customer's balance and ledger (admin).
+ */
+export async function getCustomerStoreCredit(req: Request, res: Response): Promise<void> {
+  try {
+    const { userId } = req.params
+    const customerId = Array.isArray(userId) ? userId[0] : userId
+    const [balance, history] = await Promise.all([
+      storeCreditService.getBalance(customerId),
+      storeCreditService.getHistory(customerId, readHistoryQuery(req)),
+    ])
+    if (!history.success) {
+      res.status(500).json({
+        success: false,
+        message: history.error || 'Failed to load store credit',
+      } as ApiResponse<null>)
+      return
+    }
+    res.json({
+      success: true,
+      message: 'Store credit retrieved successfully',
+      data: { ...balance, entries: history.data ?? [] },
+      pagination: history.pagination,
+    } as ApiResponse)
+  } catch (e) {
+    console.error('Admin get store credit error:', e)
+    res.status(500).json({
+      success: false,
+      message: 'Failed to load store credit',
+    } as ApiResponse<null>)
+  }
+}
+
+/**
+ * POST /api/admin/store-credit/users/:userId/adjust - Grant (positive) or remove (negative) credit (admin).
+ */
+export async function adjustCustomerStoreCredit(req: Request, res: Response): Promise<void> {
+  try {
+    const { userId } = req.params
+    const customerId = Array.isArray(userId) ? userId[0] : userId
+    const { amount, reason, expiresAt } = req.body
+    const result = await storeCreditService.adminAdjust(customerId, {
+      amount: Number(amount),
+      reason: String(reason).trim(),
+      adminId: (req as AuthenticatedAdminRequest).adminId,
+      expiresAt: expiresAt ?? null,
+    })
+    if (result.success) {
+      res.json({
+        success: true,
+        message: Number(amount) > 0 ? 'Store credit granted' : 'Store credit removed',
+        data: await storeCreditService.getBalance(customerId),
+      } as ApiResponse)
+    } else {
+      res.status(result.error === 'Customer not found' ? 404 : 400).json({
+        success: false,
+        message: result.error || 'Failed to adjust store credit',
+        errors: [result.error || 'Adjustment failed'],
+      } as ApiResponse<null>)
+    }
+  } catch (e) {
+    console.error('Admin adjust store credit error:', e)
+    res.status(500).json({
+      success: false,
+      message: 'Failed to adjust store credit',
+    } as ApiResponse<null>)
+  }
+}
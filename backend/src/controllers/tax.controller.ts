@@ -0,0 +1,67 @@
+import { Request, Response } from 'express'
+import { TaxService } from '../services/tax.service'
+import type { AuthenticatedAdminRequest } from '../middleware/adminAuth.middleware'
+import { ApiResponse } from '../types/api.types'
+
+const taxService = new TaxService()
+
+/**
+ * GET /api/admin/tax/settings - VAT and levy settings (admin).
+ */
+export async function getTaxSettings(_req: Request, res: Response): Promise<void> {
+  try {
+    const settings = await taxService.getSettings()
+    res.json({
+      success: true,
+      message: 'Tax settings retrieved successfully',
+      data: settings,
+    } as ApiResponse)
+  } catch (e) {
+    console.error('Get tax settings error:', e)
+    res.status(500).json({
+      success: false,
+      message: 'Failed to load tax settings',
+    } as ApiResponse<null>)
+  }
+}
+
+/**
+ * PUT /api/admin/tax/settings - Update rates, pricing mode or TIN (admin). Applies to new checkouts only.
+ */
+export async function updateTaxSettings(req: Request, res: Response): Promise<void> {
+  try {
+    const body = req.body || {}
+    const result = await taxService.updateSettings(
+      {
+        enabled: body.enabled,
+        pricesIncludeTax: body.pricesIncludeTax,
+        vatRate: body.vatRate,
+        nhilRate: body.nhilRate,
+        getfundRate: body.getfundRate,
+        covidRate: body.covidRate,
+        leviesInVatBase: body.leviesInVatBase,
+        taxDeliveryFee: body.taxDeliveryFee,
+        vatNumber: body.vatNumber,
+      },
+      (req as AuthenticatedAdminRequest).adminId
+    )
+    if (!result.success) {
+      res.status(400).json({
+        success: false,
+        message: result.error || 'Failed to update tax settings',
+      } as ApiResponse<null>)
+      return
+    }
+    res.json({
+      success: true,
+      message: 'Tax settings updated',
+      data: result.data,
+    } as ApiResponse)
+  } catch (e) {
+    console.error('Update tax settings error:', e)
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update tax settings',
+    } as ApiResponse<null>)
+  }
+}
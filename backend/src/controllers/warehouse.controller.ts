@@ -0,0 +1,215 @@
+import { Request, Response } from 'express'
+import { WarehouseService, type WarehouseInput } from '../services/warehouse.service'
+import type { OrderStatus } from '../config/order-status'
+import type { AuthenticatedAdminRequest } from '../middleware/adminAuth.middleware'
+import { ApiResponse } from '../types/api.types'
+
+const warehouseService = new WarehouseService()
+
+function routeId(req: Request): string {
+  return Array.isArray(req.params.id) ? req.params.id[0] : req.params.id
+}
+
+function warehouseFromBody(body: Record<string, unknown>): WarehouseInput {
+  return {
+    code: String(body.code ?? ''),
+    name: String(body.name ?? ''),
+    address: (body.address as string | null | undefined) ?? null,
+    lat: Number(body.lat),
+    lng: Number(body.lng),
+    serviceRadiusKm: body.serviceRadiusKm != null ? Number(body.serviceRadiusKm) : null,
+    openingHours: Array.isArray(body.openingHours) ? (body.openingHours as WarehouseInput['openingHours']) : [],
+    isPrimary: body.isPrimary === true,
+    active: body.active !== false,
+  }
+}
+
+/**
+ * GET /api/admin/warehouses - All warehouses, primary first (admin).
+ */
+export async function listWarehouses(_req: Request, res: Response): Promise<void> {
+  try {
+    const warehouses = await warehouseService.listWarehouses({ includeInactive: true })
+    res.json({
+      success: true,
+      message: 'Warehouses retrieved successfully',
+      data: warehouses,
+    } as ApiResponse)
+  } catch (e) {
+    console.error('List warehouses error:', e)
+    res.status(500).json({
+      success: false,
+      message: 'Failed to load warehouses',
+    } as ApiResponse<null>)
+  }
+}
+
+/**
+ * POST /api/admin/warehouses - Add a warehouse (admin). The first one becomes primary and takes all current stock.
+ * Body: { code, name, address?, lat, lng, serviceRadiusKm?, openingHours?, isPrimary?, active? }
+ */
+export async function createWarehouse(req: Request, res: Response): Promise<void> {
+  try {
+    const result = await warehouseService.createWarehouse(warehouseFromBody(req.body || {}), (req as AuthenticatedAdminRequest).adminId)
+    if (!result.success) {
+      res.status(400).json({
+        success: false,
+        message: result.error || 'Failed to create warehouse',
+      } as ApiResponse<null>)
+      return
+    }
+    res.status(201).json({
+      success: true,
+      message: 'Warehouse created',
+      data: result.data,
+    } as ApiResponse)
+  } catch (e) {
+    console.error('Create warehouse error:', e)
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create warehouse',
+    } as ApiResponse<null>)
+  }
+}
+
+/**
+ * PUT /api/admin/warehouses/:id - Update a warehouse (admin). Same body as POST.
+ */
+export async function updateWarehouse(req: Request, res: Response): Promise<void> {
+  try {
+    const result = await warehouseService.updateWarehouse(routeId(req), warehouseFromBody(req.body || {}), (req as AuthenticatedAdminRequest).adminId)
+    if (!result.success) {
+      res.status(result.error === 'Warehouse not found' ? 404 : 400).json({
+        success: false,
+        message: result.error || 'Failed to update warehouse',
+      } as ApiResponse<null>)
+      return
+    }
+    res.json({
+      success: true,
+      message: 'Warehouse updated',
+      data: result.data,
+    } as ApiResponse)
+  } catch (e) {
+    console.error('Update warehouse error:', e)
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update warehouse',
+    } as ApiResponse<null>)
+  }
+}
+
+/**
+ * DELETE /api/admin/warehouses/:id - Delete an empty, non-primary warehouse (admin).
+ */
+export async function deleteWarehouse(req: Request, res: Response): Promise<void> {
+  try {
+    const result = await warehouseService.deleteWarehouse(routeId(req))
+    if (!result.success) {
+      res.status(result.error === 'Warehouse not found' ? 404 : 400).json({
+        success: false,
+        message: result.error || 'Failed to delete warehouse',
+      } as ApiResponse<null>)
+      return
+    }
+    res.json({
+      success: true,
+      message: 'Warehouse deleted',
+    } as ApiResponse<null>)
+  } catch (e) {
+    console.error('Delete warehouse error:', e)
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete warehouse',
+    } as ApiResponse<null>)
+  }
+}
+
+/**
+ * GET /api/admin/warehouses/:id/stock?search=&page=&limit= - Products with their stock in the warehouse (admin).
+ */
+export async function getWarehouseStock(req: Request, res: Response): Promise<void> {
+  try {
+    const result = await warehouseService.getStock(routeId(req), {
+      search: req.query.search as string | undefined,
+      page: req.query.page ? Number(req.query.page) : undefined,
+      limit: req.query.limit ? Number(req.query.limit) : undefined,
+    })
+    if (!result.success) {
+      res.status(500).json({
+        success: false,
+        message: result.error || 'Failed to load warehouse stock',
+      } as ApiResponse<null>)
+      return
+    }
+    res.json({
+      success: true,
+      message: 'Warehouse stock retrieved successfully',
+      data: result.data,
+      pagination: result.pagination,
+    } as ApiResponse)
+  } catch (e) {
+    console.error('Get warehouse stock error:', e)
+    res.status(500).json({
+      success: false,
+      message: 'Failed to load warehouse stock',
+    } as ApiResponse<null>)
+  }
+}
+
+/**
+ * PUT /api/admin/warehouses/:id/stock - Set on-hand quantities (admin). Product totals follow.
+ * Body: { items: [{ productId, quantity }] }
+ */
+export async function setWarehouseStock(req: Request, res: Response): Promise<void> {
+  try {
+    const { items } = req.body as { items: Array<{ productId: string; quantity: number }> }
+    const result = await warehouseService.setStock(routeId(req), items, (req as AuthenticatedAdminRequest).adminId)
+    if (!result.success) {
+      res.status(result.error === 'Warehouse not found' ? 404 : 400).json({
+        success: false,
+        message: result.error || 'Failed to update warehouse stock',
+      } as ApiResponse<null>)
+      return
+    }
+    res.json({
+      success: true,
+      message: 'Warehouse stock updated',
+    } as ApiResponse<null>)
+  } catch (e) {
+    console.error('Set warehouse stock error:', e)
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update warehouse stock',
+    } as ApiResponse<null>)
+  }
+}
+
+/**
+ * GET /api/admin/warehouses/:id/pick-list?status= - What to pick for orders waiting to be packed (admin).
+ */
+export async function getPickList(req: Request, res: Response): Promise<void> {
+  try {
+    const status = req.query.status
+    const statuses = status ? ((Array.isArray(status) ? status : [status]) as OrderStatus[]) : undefined
+    const result = await warehouseService.getPickList(routeId(req), statuses)
+    if (!result.success) {
+      res.status(result.error === 'Warehouse not found' ? 404 : 500).json({
+        success: false,
+        message: result.error || 'Failed to load pick list',
+      } as ApiResponse<null>)
+      return
+    }
+    res.json({
+      success: true,
+      message: 'Pick list retrieved successfully',
+      data: result.data,
+    } as ApiResponse)
+  } catch (e) {
+    console.error('Get pick list error:', e)
+    res.status(500).json({
+      success: false,
+      message: 'Failed to load pick list',
+    } as ApiResponse<null>)
+  }
+}
@@ -0,0 +1,115 @@
+import { Request, Response, NextFunction } from 'express'
+import { RiderService } from '../services/rider.service'
+import { AdminService } from '../services/admin.service'
+import type { AuthenticatedAdminRequest } from './adminAuth.middleware'
+
+export interface AuthenticatedRiderRequest extends Request {
+  riderId: string
+  riderName: string
+}
+
+function readToken(req: Request, cookieName: string): string | undefined {
+  const authHeader = req.headers.authorization
+  if (authHeader && authHeader.startsWith('Bearer ')) {
+    return authHeader.substring(7)
+  }
+  return req.cookies?.[cookieName]
+}
+
+/**
+ * Sets riderId/riderName when the token belongs to an active rider; returns false otherwise.
+ */
+async function applyRider(req: Request, token: string | undefined): Promise<boolean> {
+  if (!token) return false
+  const riderService = new RiderService()
+  const decoded = riderService.verifyToken(token)
+  if (!decoded) return false
+
+  // Deactivated riders lose access straight away, not when their token expires
+  const rider = await riderService.getRider(decoded.riderId)
+  if (!rider || !rider.active) return false
+
+  ;(req as AuthenticatedRiderRequest).riderId = rider.id
+  ;(req as AuthenticatedRiderRequest).riderName = rider.fullName
+  return true
+}
+
+/**
+ * Middleware to authenticate rider requests (Bearer or rider_token cookie)
+ */
+export const authenticateRider = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const token = readToken(req, 'rider_token')
+    if (!token) {
+      res.status(401).json({
+        success: false,
+        message: 'Access token required'
+      })
+      return
+    }
+
+    if (!(await applyRider(req, token))) {
+      res.status(401).json({
+        success: false,
+        message: 'Invalid or expired token, or rider account inactive'
+      })
+      return
+    }
+
+    next()
+  } catch (error) {
+    console.error('Rider authentication error:', error)
+    res.status(500).json({
+      success: false,
+      message: 'Authentication failed'
+    })
+  }
+}
+
+/**
+ * Authenticate either an admin JWT (Bearer or admin_token cookie) or a rider JWT (Bearer or rider_token cookie).
+ * Used by delivery confirmation: riders confirm their own deliveries, admins any delivery.
+ */
+export async function authenticateRiderOrAdmin(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const adminToken = readToken(req, 'admin_token')
+    if (adminToken) {
+      const adminService = new AdminService()
+      const decoded = adminService.verifyToken(adminToken)
+      if (decoded?.adminId) {
+        const admin = await adminService.getAdminById(decoded.adminId)
+        if (admin && admin.is_active) {
+          ;(req as AuthenticatedAdminRequest).adminId = decoded.adminId
+          ;(req as AuthenticatedAdminRequest).adminUsername = decoded.username
+          ;(req as AuthenticatedAdminRequest).adminRole = decoded.role
+          next()
+          return
+        }
+      }
+    }
+
+    if (await applyRider(req, readToken(req, 'rider_token'))) {
+      next()
+      return
+    }
+
+    res.status(401).json({
+      success: false,
+      message: 'Rider or admin sign-in required'
+    })
+  } catch (error) {
+    console.error('Rider/admin authentication error:', error)
+    res.status(500).json({
+      success: false,
+      message: 'Authentication failed'
+    })
+  }
+}
@@ -136,3 +136,48 @@ export const validateRefreshToken = [
 
   handleValidationErrors
 ]
+
+/**
+ * Validation rules for the optional proof sent with a delivery confirmation or failed attempt.
+ * Spread into the route's rules ahead of handleValidationErrors.
+ */
+export const deliveryProofValidation = [
+  body('recipientName')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Recipient name must be 1-100 characters'),
+
+  body('photo')
+    .optional()
+    .isString()
+    .matches(/^data:image\/[a-z+.-]+;base64,/i)
+    .withMessage('Photo must be a base64 image data URL'),
+
+  body('gpsLat')
+    .optional()
+    .isFloat({ min: -90, max: 90 })
+    .withMessage('gpsLat must be between -90 and 90')
+    .toFloat(),
+
+  body('gpsLng')
+    .optional()
+    .isFloat({ min: -180, max: 180 })
+    .withMessage('gpsLng must be between -180 and 180')
+    .toFloat(),
+
+  body('gpsLng')
+    .custom((lng, { req }) => (lng == null) === (req.body?.gpsLat == null))
+    .withMessage('Send gpsLat and gpsLng together'),
+
+  body('gpsAccuracy')
+    .optional()
+    .isFloat({ min: 0, max: 100000 })
+    .withMessage('gpsAccuracy must be metres, 0 or more')
+    .toFloat(),
+
+  body('gpsCapturedAt')
+    .optional()
+    .isISO8601()
+    .withMessage('gpsCapturedAt must be an ISO 8601 time')
+]
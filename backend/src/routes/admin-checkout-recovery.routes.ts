@@ -0,0 +1,44 @@
+import { Router } from 'express'
+import { body, query } from 'express-validator'
+import { handleValidationErrors } from '../middleware/validation.middleware'
+import { authenticateAdmin } from '../middleware/adminAuth.middleware'
+import { MAX_RECOVERY_REMINDERS } from '../services/checkout-recovery.service'
+import * as checkoutRecoveryController from '../controllers/checkout-recovery.controller'
+
+const router = Router()
+
+router.use(authenticateAdmin)
+
+const updateSettingsValidation = [
+  body('enabled').optional().isBoolean().toBoolean(),
+  body('reminderDelaysMinutes')
+    .optional()
+    .isArray({ max: MAX_RECOVERY_REMINDERS })
+    .withMessage(`reminderDelaysMinutes must be a list of at most ${MAX_RECOVERY_REMINDERS} delays`),
+  body('reminderDelaysMinutes.*')
+    .isInt({ min: 15, max: 20160 })
+    .withMessage('Each reminder delay must be between 15 minutes and 14 days')
+    .toInt(),
+  body('resumeWindowHours')
+    .optional()
+    .isInt({ min: 1, max: 336 })
+    .withMessage('resumeWindowHours must be between 1 and 336')
+    .toInt(),
+  handleValidationErrors,
+]
+
+const getStatsValidation = [
+  query('from')
+    .isISO8601({ strict: true })
+    .withMessage('from must be a date (YYYY-MM-DD)'),
+  query('to')
+    .isISO8601({ strict: true })
+    .withMessage('to must be a date (YYYY-MM-DD)'),
+  handleValidationErrors,
+]
+
+router.get('/settings', checkoutRecoveryController.getCheckoutRecoverySettings)
+router.put('/settings', updateSettingsValidation, checkoutRecoveryController.updateCheckoutRecoverySettings)
+router.get('/stats', getStatsValidation, checkoutRecoveryController.getCheckoutRecoveryStats)
+
+export { router as adminCheckoutRecoveryRoutes }
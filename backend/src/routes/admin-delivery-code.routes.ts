@@ -0,0 +1,30 @@
+import { Router } from 'express'
+import { param, query } from 'express-validator'
+import { handleValidationErrors } from '../middleware/validation.middleware'
+import { authenticateAdmin } from '../middleware/adminAuth.middleware'
+import { DELIVERY_VERIFICATION_OUTCOMES } from '../services/delivery-code.service'
+import * as deliveryCodeController from '../controllers/delivery-code.controller'
+
+const router = Router()
+
+router.use(authenticateAdmin)
+
+const listAttemptsValidation = [
+  query('orderId').optional().isUUID().withMessage('Invalid order ID'),
+  query('riderId').optional().isUUID().withMessage('Invalid rider ID'),
+  query('outcome').optional().isIn(DELIVERY_VERIFICATION_OUTCOMES).withMessage(`outcome must be one of: ${DELIVERY_VERIFICATION_OUTCOMES.join(', ')}`),
+  query('method').optional().isIn(['code', 'qr']).withMessage('method must be code or qr'),
+  query('from').optional().isISO8601({ strict: true }).isLength({ min: 10, max: 10 }).withMessage('from must be YYYY-MM-DD'),
+  query('to').optional().isISO8601({ strict: true }).isLength({ min: 10, max: 10 }).withMessage('to must be YYYY-MM-DD'),
+  query('page').optional().isInt({ min: 1 }).withMessage('page must be 1 or more'),
+  query('limit').optional().isInt({ min: 1, max: 200 }).withMessage('limit must be 1-200'),
+  handleValidationErrors,
+]
+
+const orderIdValidation = [param('orderId').isUUID().withMessage('Invalid order ID'), handleValidationErrors]
+
+router.get('/attempts', listAttemptsValidation, deliveryCodeController.listAttempts)
+router.get('/orders/:orderId', orderIdValidation, deliveryCodeController.getStatus)
+router.post('/orders/:orderId/rotate', orderIdValidation, deliveryCodeController.rotateCode)
+
+export { router as adminDeliveryCodeRoutes }
@@ -0,0 +1,27 @@
+import { Router } from 'express'
+import { body, param, query } from 'express-validator'
+import { handleValidationErrors } from '../middleware/validation.middleware'
+import { authenticateAdmin } from '../middleware/adminAuth.middleware'
+import * as deliveryRouteController from '../controllers/delivery-route.controller'
+
+const router = Router()
+
+router.use(authenticateAdmin)
+
+const planValidation = [
+  body('date').optional().isISO8601({ strict: true }).isLength({ min: 10, max: 10 }).withMessage('date must be YYYY-MM-DD'),
+  body('riderIds').optional().isArray({ max: 50 }).withMessage('riderIds must be a list of up to 50 riders'),
+  body('riderIds.*').isUUID().withMessage('Invalid rider ID'),
+  body('capacity').optional().isInt({ min: 1, max: 100 }).withMessage('capacity must be 1-100 stops').toInt(),
+  body('assignRiders').optional().isBoolean().toBoolean(),
+  handleValidationErrors,
+]
+
+router.post('/plan', planValidation, deliveryRouteController.planRoutes)
+router.get('/', [
+  query('date').optional().isISO8601({ strict: true }).isLength({ min: 10, max: 10 }).withMessage('date must be YYYY-MM-DD'),
+  handleValidationErrors,
+], deliveryRouteController.listRoutes)
+router.get('/:id/run-sheet', [param('id').isUUID().withMessage('Invalid route ID'), handleValidationErrors], deliveryRouteController.getRunSheet)
+
+export { router as adminDeliveryRouteRoutes }
@@ -0,0 +1,59 @@
+import { Router } from 'express'
+import { body, param } from 'express-validator'
+import { handleValidationErrors } from '../middleware/validation.middleware'
+import { authenticateAdmin } from '../middleware/adminAuth.middleware'
+import * as orderRiskController from '../controllers/order-risk.controller'
+
+const router = Router()
+
+router.use(authenticateAdmin)
+
+const updateSettingsValidation = [
+  body('enabled').optional().isBoolean().toBoolean(),
+  body('holdScore')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('holdScore must be between 1 and 100')
+    .toInt(),
+  body('velocityWindowHours')
+    .optional()
+    .isInt({ min: 1, max: 168 })
+    .withMessage('velocityWindowHours must be between 1 and 168')
+    .toInt(),
+  body('velocityMaxOrders')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('velocityMaxOrders must be between 1 and 100')
+    .toInt(),
+  body('firstOrderMaxAmount')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('firstOrderMaxAmount must be 0 or more')
+    .toFloat(),
+  body('maxDistanceKm')
+    .optional()
+    .isFloat({ min: 0.1, max: 9999 })
+    .withMessage('maxDistanceKm must be between 0.1 and 9999')
+    .toFloat(),
+  body('voucherReuseDays')
+    .optional()
+    .isInt({ min: 1, max: 365 })
+    .withMessage('voucherReuseDays must be between 1 and 365')
+    .toInt(),
+  handleValidationErrors,
+]
+
+const reviewValidation = [
+  param('orderId').isUUID().withMessage('Invalid order ID'),
+  body('decision').isIn(['approve', 'reject']).withMessage('decision must be approve or reject'),
+  body('note').optional().isString().isLength({ max: 500 }).withMessage('note must be at most 500 characters'),
+  body('refund').optional().isBoolean().toBoolean(),
+  handleValidationErrors,
+]
+
+router.get('/settings', orderRiskController.getOrderRiskSettings)
+router.put('/settings', updateSettingsValidation, orderRiskController.updateOrderRiskSettings)
+router.get('/reviews', orderRiskController.getRiskReviewQueue)
+router.post('/reviews/:orderId', reviewValidation, orderRiskController.reviewRiskOrder)
+
+export { router as adminOrderRiskRoutes }
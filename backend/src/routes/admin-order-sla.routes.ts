@@ -0,0 +1,31 @@
+import { Router } from 'express'
+import { body } from 'express-validator'
+import { handleValidationErrors } from '../middleware/validation.middleware'
+import { authenticateAdmin } from '../middleware/adminAuth.middleware'
+import { SLA_STATUSES } from '../services/order-sla.service'
+import * as orderSlaController from '../controllers/order-sla.controller'
+
+const router = Router()
+
+router.use(authenticateAdmin)
+
+const updateSlaThresholdsValidation = [
+  body('thresholds')
+    .isArray({ min: 1, max: SLA_STATUSES.length })
+    .withMessage('thresholds must be a non-empty array'),
+  body('thresholds.*.status')
+    .isIn(SLA_STATUSES)
+    .withMessage(`status must be one of: ${SLA_STATUSES.join(', ')}`),
+  body('thresholds.*.thresholdMinutes')
+    .isInt({ min: 5, max: 10080 })
+    .withMessage('thresholdMinutes must be between 5 and 10080 (one week)')
+    .toInt(),
+  body('thresholds.*.enabled').isBoolean().withMessage('enabled must be true or false').toBoolean(),
+  handleValidationErrors,
+]
+
+router.get('/thresholds', orderSlaController.getSlaThresholds)
+router.put('/thresholds', updateSlaThresholdsValidation, orderSlaController.updateSlaThresholds)
+router.post('/check', orderSlaController.runSlaCheck)
+
+export { router as adminOrderSlaRoutes }
@@ -0,0 +1,49 @@
+import { Router } from 'express'
+import { body, param, query } from 'express-validator'
+import { handleValidationErrors } from '../middleware/validation.middleware'
+import { authenticateAdmin } from '../middleware/adminAuth.middleware'
+import * as riderController from '../controllers/rider.controller'
+import { FAILED_ATTEMPT_REASON_CODES } from '../services/rider.service'
+
+const router = Router()
+
+router.use(authenticateAdmin)
+
+const riderValidation = (passwordRequired: boolean) => [
+  body('fullName').isString().trim().isLength({ min: 2, max: 100 }).withMessage('fullName must be 2-100 characters'),
+  body('phone').isString().trim().matches(/^\+?[0-9 ]{9,20}$/).withMessage('Valid phone number required'),
+  body('email').optional({ values: 'falsy' }).isEmail().withMessage('Valid email required'),
+  body('vehicle').optional({ nullable: true }).isString().trim().isLength({ max: 100 }).withMessage('vehicle must be at most 100 characters'),
+  (passwordRequired ? body('password') : body('password').optional({ values: 'falsy' }))
+    .isString().isLength({ min: 8, max: 128 }).withMessage('password must be at least 8 characters'),
+  body('routeCapacity').optional().isInt({ min: 1, max: 100 }).withMessage('routeCapacity must be 1-100 stops').toInt(),
+  body('active').optional().isBoolean().toBoolean(),
+  handleValidationErrors,
+]
+
+const dateRangeValidation = [
+  query('from').optional().isISO8601({ strict: true }).isLength({ min: 10, max: 10 }).withMessage('from must be YYYY-MM-DD'),
+  query('to').optional().isISO8601({ strict: true }).isLength({ min: 10, max: 10 }).withMessage('to must be YYYY-MM-DD'),
+  query('riderId').optional().isUUID().withMessage('Invalid rider ID'),
+  handleValidationErrors,
+]
+
+router.get('/', riderController.listRiders)
+router.post('/', riderValidation(true), riderController.createRider)
+router.get('/performance', dateRangeValidation, riderController.getPerformance)
+router.get('/assignments', riderController.listAssignments)
+router.put('/assignments/:orderId', [
+  param('orderId').isUUID().withMessage('Invalid order ID'),
+  body('riderId').optional({ nullable: true }).isUUID().withMessage('Invalid rider ID'),
+  handleValidationErrors,
+], riderController.assignOrder)
+router.get('/orders/:orderId/attempts', [param('orderId').isUUID().withMessage('Invalid order ID'), handleValidationErrors], riderController.listOrderAttempts)
+router.post('/orders/:orderId/failed-attempt', [
+  param('orderId').isUUID().withMessage('Invalid order ID'),
+  body('reasonCode').isIn(FAILED_ATTEMPT_REASON_CODES).withMessage(`reasonCode must be one of: ${FAILED_ATTEMPT_REASON_CODES.join(', ')}`),
+  body('note').optional().isString().trim().isLength({ max: 300 }).withMessage('note must be at most 300 characters'),
+  handleValidationErrors,
+], riderController.recordAdminFailedAttempt)
+router.put('/:id', [param('id').isUUID().withMessage('Invalid rider ID'), handleValidationErrors], riderValidation(false), riderController.updateRider)
+
+export { router as adminRiderRoutes }
@@ -0,0 +1,34 @@
+import { Router } from 'express'
+import { body, param, query } from 'express-validator'
+import { handleValidationErrors } from '../middleware/validation.middleware'
+import { authenticateAdmin } from '../middleware/adminAuth.middleware'
+import { STORE_CREDIT_ENTRY_TYPES } from '../services/store-credit.service'
+import * as storeCreditController from '../controllers/store-credit.controller'
+
+const router = Router()
+
+router.use(authenticateAdmin)
+
+const customerCreditValidation = [
+  param('userId').isUUID(),
+  query('type').optional().isIn([...STORE_CREDIT_ENTRY_TYPES]),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 }),
+  handleValidationErrors,
+]
+
+const adjustValidation = [
+  param('userId').isUUID(),
+  body('amount')
+    .isFloat({ min: -100000, max: 100000 })
+    .custom((value) => Number(value) !== 0)
+    .withMessage('Amount must be a non-zero number'),
+  body('reason').trim().notEmpty().isLength({ max: 500 }).withMessage('Reason is required'),
+  body('expiresAt').optional({ nullable: true }).isISO8601(),
+  handleValidationErrors,
+]
+
+router.get('/users/:userId', customerCreditValidation, storeCreditController.getCustomerStoreCredit)
+router.post('/users/:userId/adjust', adjustValidation, storeCreditController.adjustCustomerStoreCredit)
+
+export { router as adminStoreCreditRoutes }
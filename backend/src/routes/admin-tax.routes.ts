@@ -0,0 +1,30 @@
+import { Router } from 'express'
+import { body } from 'express-validator'
+import { handleValidationErrors } from '../middleware/validation.middleware'
+import { authenticateAdmin } from '../middleware/adminAuth.middleware'
+import * as taxController from '../controllers/tax.controller'
+
+const router = Router()
+
+router.use(authenticateAdmin)
+
+const rate = (field: string) =>
+  body(field).optional().isFloat({ min: 0, max: 99.99 }).withMessage(`${field} must be a percentage between 0 and 99.99`).toFloat()
+
+const updateTaxSettingsValidation = [
+  body('enabled').optional().isBoolean().toBoolean(),
+  body('pricesIncludeTax').optional().isBoolean().toBoolean(),
+  rate('vatRate'),
+  rate('nhilRate'),
+  rate('getfundRate'),
+  rate('covidRate'),
+  body('leviesInVatBase').optional().isBoolean().toBoolean(),
+  body('taxDeliveryFee').optional().isBoolean().toBoolean(),
+  body('vatNumber').optional({ nullable: true }).trim().isLength({ max: 30 }).withMessage('TIN must not exceed 30 characters'),
+  handleValidationErrors,
+]
+
+router.get('/settings', taxController.getTaxSettings)
+router.put('/settings', updateTaxSettingsValidation, taxController.updateTaxSettings)
+
+export { router as adminTaxRoutes }
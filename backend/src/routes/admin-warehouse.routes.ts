@@ -0,0 +1,58 @@
+import { Router } from 'express'
+import { body, param, query } from 'express-validator'
+import { handleValidationErrors } from '../middleware/validation.middleware'
+import { authenticateAdmin } from '../middleware/adminAuth.middleware'
+import { ORDER_STATUSES } from '../config/order-status'
+import * as warehouseController from '../controllers/warehouse.controller'
+
+const router = Router()
+
+router.use(authenticateAdmin)
+
+// Primary/active rules and opening hours order are checked in WarehouseService
+const warehouseValidation = [
+  body('code').isString().trim().toUpperCase().matches(/^[A-Z0-9]{2,10}$/).withMessage('code must be 2-10 letters or digits'),
+  body('name').isString().trim().isLength({ min: 1, max: 100 }).withMessage('name must be 1-100 characters'),
+  body('address').optional({ nullable: true }).isString().trim().isLength({ max: 300 }).withMessage('address must be at most 300 characters'),
+  body('lat').isFloat({ min: -90, max: 90 }).withMessage('Valid lat required').toFloat(),
+  body('lng').isFloat({ min: -180, max: 180 }).withMessage('Valid lng required').toFloat(),
+  body('serviceRadiusKm').optional({ nullable: true }).isFloat({ gt: 0, max: 1000 }).withMessage('serviceRadiusKm must be above 0').toFloat(),
+  body('openingHours').optional().isArray({ max: 14 }).withMessage('openingHours must be a list of up to 14 rows'),
+  body('openingHours.*.days').isArray({ min: 1, max: 7 }).withMessage('Every opening hours row needs at least one day'),
+  body('openingHours.*.days.*').isInt({ min: 0, max: 6 }).withMessage('Days are 0 (Sunday) to 6 (Saturday)').toInt(),
+  body('openingHours.*.open').matches(/^([01]\d|2[0-3]):[0-5]\d$/).withMessage('open must be HH:MM'),
+  body('openingHours.*.close').matches(/^([01]\d|2[0-3]):[0-5]\d$/).withMessage('close must be HH:MM'),
+  body('isPrimary').optional().isBoolean().toBoolean(),
+  body('active').optional().isBoolean().toBoolean(),
+  handleValidationErrors,
+]
+
+const idValidation = [param('id').isUUID().withMessage('Invalid warehouse ID'), handleValidationErrors]
+
+const stockValidation = [
+  body('items').isArray({ min: 1, max: 500 }).withMessage('items must be a list of 1-500 products'),
+  body('items.*.productId').isUUID().withMessage('Every item needs a productId'),
+  body('items.*.quantity').isInt({ min: 0 }).withMessage('Quantities must be whole numbers of 0 or more').toInt(),
+  handleValidationErrors,
+]
+
+router.get('/', warehouseController.listWarehouses)
+router.post('/', warehouseValidation, warehouseController.createWarehouse)
+router.put('/:id', idValidation, warehouseValidation, warehouseController.updateWarehouse)
+router.delete('/:id', idValidation, warehouseController.deleteWarehouse)
+router.get('/:id/stock', idValidation, [
+  query('search').optional().isString().isLength({ max: 200 }),
+  query('page').optional().isInt({ min: 1 }).toInt(),
+  query('limit').optional().isInt({ min: 1, max: 200 }).toInt(),
+  handleValidationErrors,
+], warehouseController.getWarehouseStock)
+router.put('/:id/stock', idValidation, stockValidation, warehouseController.setWarehouseStock)
+router.get('/:id/pick-list', idValidation, [
+  query('status').optional().custom((value) => {
+    const statuses = Array.isArray(value) ? value : [value]
+    return statuses.every((s) => (ORDER_STATUSES as readonly string[]).includes(s))
+  }).withMessage(`status must be one of: ${ORDER_STATUSES.join(', ')}`),
+  handleValidationErrors,
+], warehouseController.getPickList)
+
+export { router as adminWarehouseRoutes }
@@ -3,6 +3,7 @@ import { CategoriesController } from '../controllers/categories.controller'
 import { authenticateAdmin } from '../middleware/adminAuth.middleware'
 import { body, param, query } from 'express-validator'
 import { handleValidationErrors } from '../middleware/validation.middleware'
+import { TAX_CLASSES } from '../services/tax.service'
 
 const router = Router()
 const categoriesController = new CategoriesController()
@@ -48,6 +49,10 @@ const createCategoryValidation = [
     .optional()
     .isURL()
     .withMessage('Each image must be a valid URL'),
+  body('tax_class')
+    .optional()
+    .isIn(TAX_CLASSES)
+    .withMessage(`Tax class must be one of: ${TAX_CLASSES.join(', ')}`),
   handleValidationErrors
 ]
 
@@ -93,6 +98,10 @@ const updateCategoryValidation = [
     .optional()
     .isURL()
     .withMessage('Each image must be a valid URL'),
+  body('tax_class')
+    .optional()
+    .isIn(TAX_CLASSES)
+    .withMessage(`Tax class must be one of: ${TAX_CLASSES.join(', ')}`),
   handleValidationErrors
 ]
 
@@ -32,6 +32,16 @@ const getLowStockAlertsValidation = [
   handleValidationErrors
 ]
 
+const getTaxSummaryValidation = [
+  query('from')
+    .isISO8601({ strict: true })
+    .withMessage('from must be a date (YYYY-MM-DD)'),
+  query('to')
+    .isISO8601({ strict: true })
+    .withMessage('to must be a date (YYYY-MM-DD)'),
+  handleValidationErrors
+]
+
 // All dashboard routes require admin authentication
 router.use(authenticateAdmin)
 
@@ -39,5 +49,7 @@ router.get('/stats', dashboardController.getDashboardStats)
 router.get('/activities', getRecentActivitiesValidation, dashboardController.getRecentActivities)
 router.get('/analytics', getSalesAnalyticsValidation, dashboardController.getSalesAnalytics)
 router.get('/alerts', getLowStockAlertsValidation, dashboardController.getLowStockAlerts)
+router.get('/tax-summary', getTaxSummaryValidation, dashboardController.getTaxSummary)
+router.get('/needs-attention', dashboardController.getNeedsAttention)
 
 export { router as dashboardRoutes }
@@ -2,8 +2,9 @@ import { Router } from 'express'
 import { DeliveryController } from '../controllers/delivery.controller'
 import { authenticateToken } from '../middleware/auth.middleware'
 import { authenticateAdmin } from '../middleware/adminAuth.middleware'
-import { query } from 'express-validator'
+import { body, param, query } from 'express-validator'
 import { handleValidationErrors } from '../middleware/validation.middleware'
+import { DELIVERY_ZONE_FEE_TYPES, MAX_ZONE_POINTS } from '../services/delivery.service'
 
 const router = Router()
 const controller = new DeliveryController()
@@ -15,13 +16,102 @@ router.get(
   [
     query('lat').isFloat({ min: -90, max: 90 }).withMessage('Valid lat required'),
     query('lng').isFloat({ min: -180, max: 180 }).withMessage('Valid lng required'),
+    query('subtotal').optional().isFloat({ min: 0 }).withMessage('subtotal must be 0 or more'),
   ],
   handleValidationErrors,
   controller.calculate
 )
 
+// Band, cap and surcharge rules (order, windows) are checked in DeliveryService.updateSettings
+const settingsValidation = [
+  body('baseFee').optional().isFloat({ min: 0 }).withMessage('baseFee must be 0 or more').toFloat(),
+  body('distanceBands').optional().isArray({ max: 20 }).withMessage('distanceBands must be a list of up to 20 bands'),
+  body('distanceBands.*.upToKm').optional({ nullable: true }).isFloat({ gt: 0 }).withMessage('upToKm must be above 0').toFloat(),
+  body('distanceBands.*.pricePerKm').isFloat({ min: 0 }).withMessage('Every band needs a pricePerKm of 0 or more').toFloat(),
+  body('minFee').optional({ nullable: true }).isFloat({ min: 0 }).withMessage('minFee must be 0 or more').toFloat(),
+  body('maxFee').optional({ nullable: true }).isFloat({ min: 0 }).withMessage('maxFee must be 0 or more').toFloat(),
+  body('freeDeliveryThreshold').optional({ nullable: true }).isFloat({ min: 0 }).withMessage('freeDeliveryThreshold must be 0 or more').toFloat(),
+  body('peakSurcharges').optional().isArray({ max: 20 }).withMessage('peakSurcharges must be a list of up to 20 windows'),
+  body('peakSurcharges.*.label').isString().trim().isLength({ min: 1, max: 50 }).withMessage('Every surcharge needs a label of 1-50 characters'),
+  body('peakSurcharges.*.days').isArray({ min: 1, max: 7 }).withMessage('Every surcharge needs at least one day'),
+  body('peakSurcharges.*.days.*').isInt({ min: 0, max: 6 }).withMessage('Days are 0 (Sunday) to 6 (Saturday)').toInt(),
+  body('peakSurcharges.*.startTime').matches(/^([01]\d|2[0-3]):[0-5]\d$/).withMessage('startTime must be HH:MM'),
+  body('peakSurcharges.*.endTime').matches(/^([01]\d|2[0-3]):[0-5]\d$/).withMessage('endTime must be HH:MM'),
+  body('peakSurcharges.*.amount').isFloat({ min: 0 }).withMessage('Every surcharge needs an amount of 0 or more').toFloat(),
+  body('requireDeliverySlot').optional().isBoolean().toBoolean(),
+  body('slotBookingDays').optional().isInt({ min: 1, max: 60 }).withMessage('slotBookingDays must be 1-60').toInt(),
+  handleValidationErrors,
+]
+
 // Admin - get/update delivery settings
 router.get('/settings', authenticateAdmin, controller.getSettings)
-router.put('/settings', authenticateAdmin, controller.updateSettings)
+router.put('/settings', authenticateAdmin, settingsValidation, controller.updateSettings)
+
+const zoneValidation = [
+  body('name').isString().trim().isLength({ min: 1, max: 100 }).withMessage('Zone name must be 1-100 characters'),
+  body('polygon')
+    .isArray({ min: 3, max: MAX_ZONE_POINTS })
+    .withMessage(`polygon must have between 3 and ${MAX_ZONE_POINTS} points`),
+  body('polygon.*.lat').isFloat({ min: -90, max: 90 }).withMessage('Valid lat required for every point').toFloat(),
+  body('polygon.*.lng').isFloat({ min: -180, max: 180 }).withMessage('Valid lng required for every point').toFloat(),
+  body('feeType').isIn(DELIVERY_ZONE_FEE_TYPES).withMessage(`feeType must be one of: ${DELIVERY_ZONE_FEE_TYPES.join(', ')}`),
+  body('flatFee').optional({ nullable: true }).isFloat({ min: 0 }).withMessage('flatFee must be 0 or more').toFloat(),
+  body('pricePerKm').optional({ nullable: true }).isFloat({ min: 0 }).withMessage('pricePerKm must be 0 or more').toFloat(),
+  body('minOrderValue').optional().isFloat({ min: 0 }).withMessage('minOrderValue must be 0 or more').toFloat(),
+  body('sortOrder').optional().isInt().withMessage('sortOrder must be a whole number').toInt(),
+  body('active').optional().isBoolean().toBoolean(),
+  handleValidationErrors,
+]
+
+const zoneIdValidation = [param('id').isUUID().withMessage('Invalid zone ID'), handleValidationErrors]
+
+// Admin - delivery zones
+router.get('/zones', authenticateAdmin, controller.listZones)
+router.post('/zones', authenticateAdmin, zoneValidation, controller.createZone)
+router.put('/zones/:id', authenticateAdmin, zoneIdValidation, zoneValidation, controller.updateZone)
+router.delete('/zones/:id', authenticateAdmin, zoneIdValidation, controller.deleteZone)
+
+// Customer - bookable delivery slots for an address (lat/lng optional: without them every zone's slots are listed)
+router.get(
+  '/slots',
+  authenticateToken,
+  [
+    query('lat').optional().isFloat({ min: -90, max: 90 }).withMessage('Valid lat required'),
+    query('lng').optional().isFloat({ min: -180, max: 180 }).withMessage('Valid lng required'),
+  ],
+  handleValidationErrors,
+  controller.listAvailableSlots
+)
+
+const slotWindowValidation = [
+  body('label').optional({ nullable: true }).isString().trim().isLength({ max: 50 }).withMessage('label must be at most 50 characters'),
+  body('weekday').isInt({ min: 0, max: 6 }).withMessage('weekday must be 0 (Sunday) to 6 (Saturday)').toInt(),
+  body('startTime').matches(/^([01]\d|2[0-3]):[0-5]\d$/).withMessage('startTime must be HH:MM'),
+  body('endTime').matches(/^([01]\d|2[0-3]):[0-5]\d$/).withMessage('endTime must be HH:MM'),
+  body('capacity').isInt({ min: 1, max: 10000 }).withMessage('capacity must be at least 1').toInt(),
+  body('cutoffMinutes').optional().isInt({ min: 0, max: 10080 }).withMessage('cutoffMinutes must be 0-10080').toInt(),
+  body('zoneId').optional({ nullable: true }).isUUID().withMessage('zoneId must be a zone ID'),
+  body('active').optional().isBoolean().toBoolean(),
+  handleValidationErrors,
+]
+
+const slotWindowIdValidation = [param('id').isUUID().withMessage('Invalid slot ID'), handleValidationErrors]
+
+// Admin - delivery slots, blackout dates and utilisation
+router.get('/slots/utilisation', authenticateAdmin, [
+  query('from').optional().isISO8601({ strict: true }).withMessage('from must be YYYY-MM-DD'),
+  query('to').optional().isISO8601({ strict: true }).withMessage('to must be YYYY-MM-DD'),
+], handleValidationErrors, controller.getSlotUtilisation)
+router.get('/slot-windows', authenticateAdmin, controller.listSlotWindows)
+router.post('/slot-windows', authenticateAdmin, slotWindowValidation, controller.createSlotWindow)
+router.put('/slot-windows/:id', authenticateAdmin, slotWindowIdValidation, slotWindowValidation, controller.updateSlotWindow)
+router.delete('/slot-windows/:id', authenticateAdmin, slotWindowIdValidation, controller.deleteSlotWindow)
+router.get('/blackouts', authenticateAdmin, controller.listBlackouts)
+router.post('/blackouts', authenticateAdmin, [
+  body('date').isISO8601({ strict: true }).withMessage('date must be YYYY-MM-DD'),
+  body('reason').optional({ nullable: true }).isString().trim().isLength({ max: 200 }).withMessage('reason must be at most 200 characters'),
+  handleValidationErrors,
+], controller.createBlackout)
+router.delete('/blackouts/:id', authenticateAdmin, [param('id').isUUID().withMessage('Invalid blackout ID'), handleValidationErrors], controller.deleteBlackout)
 
 export const deliveryRoutes = router
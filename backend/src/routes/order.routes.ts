@@ -2,9 +2,18 @@ import { Router } from 'express'
 import { OrderController } from '../controllers/order.controller'
 import { authenticateToken } from '../middleware/auth.middleware'
 import { authenticateAdmin } from '../middleware/adminAuth.middleware'
+import { authenticateRiderOrAdmin } from '../middleware/riderAuth.middleware'
 import { body, param, query } from 'express-validator'
-import { handleValidationErrors } from '../middleware/validation.middleware'
+import { deliveryProofValidation, handleValidationErrors } from '../middleware/validation.middleware'
 import rateLimit from 'express-rate-limit'
+import { MANUAL_ORDER_STATUSES, ORDER_STATUSES } from '../config/order-status'
+import { WEBHOOK_EVENT_STATUSES } from '../services/webhook-event.service'
+import { DISCREPANCY_TYPES } from '../services/reconciliation.service'
+import { CHECKOUT_PAYMENT_METHODS, COD_COLLECTION_METHODS } from '../services/cod.service'
+import { AMENDMENT_REFUND_METHODS } from '../services/order-amendment.service'
+import { MANUAL_ORDER_CHANNELS, MANUAL_ORDER_PAYMENTS, OFFLINE_PAYMENT_METHODS } from '../services/admin-order.service'
+import { ORDER_EXPORT_DATASETS, ORDER_EXPORT_FORMATS } from '../services/order-export.service'
+import { BULK_ORDER_LIMIT } from '../services/order.service'
 
 const router = Router()
 const orderController = new OrderController()
@@ -56,6 +65,18 @@ const createOrderValidation = [
     .trim()
     .isLength({ max: 50 })
     .withMessage('Voucher code must not exceed 50 characters'),
+  body('deliverySlot.slotId')
+    .optional()
+    .isUUID()
+    .withMessage('Delivery slot must be a slot ID'),
+  body('deliverySlot.date')
+    .if(body('deliverySlot.slotId').exists())
+    .isISO8601({ strict: true })
+    .withMessage('Delivery slot date must be YYYY-MM-DD'),
+  body('paymentMethod')
+    .optional()
+    .isIn(CHECKOUT_PAYMENT_METHODS)
+    .withMessage(`Payment method must be one of: ${CHECKOUT_PAYMENT_METHODS.join(', ')}`),
   handleValidationErrors,
 ]
 
@@ -72,8 +93,8 @@ const updateStatusValidation = [
     .isUUID()
     .withMessage('Order ID must be a valid UUID'),
   body('status')
-    .isIn(['pending', 'processing', 'shipped', 'delivered', 'cancelled', 'failed'])
-    .withMessage('Invalid status value'),
+    .isIn(MANUAL_ORDER_STATUSES)
+    .withMessage('Invalid status value. Orders are marked refunded when a refund is processed'),
   body('reason')
     .optional()
     .trim()
@@ -82,6 +103,75 @@ const updateStatusValidation = [
   handleValidationErrors,
 ]
 
+const createRefundValidation = [
+  param('id')
+    .isUUID()
+    .withMessage('Transaction ID must be a valid UUID'),
+  body('amount')
+    .optional()
+    .isFloat({ gt: 0 })
+    .withMessage('Amount must be greater than 0'),
+  body('reason')
+    .trim()
+    .notEmpty()
+    .withMessage('Refund reason is required')
+    .isLength({ max: 500 })
+    .withMessage('Reason must not exceed 500 characters'),
+  handleValidationErrors,
+]
+
+const getRefundsValidation = [
+  query('transactionId')
+    .optional()
+    .isUUID()
+    .withMessage('Transaction ID must be a valid UUID'),
+  handleValidationErrors,
+]
+
+const getWebhookEventsValidation = [
+  query('status')
+    .optional()
+    .isIn(WEBHOOK_EVENT_STATUSES)
+    .withMessage('Invalid webhook event status'),
+  query('eventType')
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Event type must not exceed 100 characters'),
+  handleValidationErrors,
+]
+
+const webhookEventIdValidation = [
+  param('id')
+    .isUUID()
+    .withMessage('Webhook event ID must be a valid UUID'),
+  handleValidationErrors,
+]
+
+const getDiscrepanciesValidation = [
+  query('type')
+    .optional()
+    .isIn(DISCREPANCY_TYPES)
+    .withMessage('Invalid discrepancy type'),
+  query('resolved')
+    .optional()
+    .isBoolean()
+    .withMessage('Resolved must be true or false'),
+  handleValidationErrors,
+]
+
+const resolveDiscrepancyValidation = [
+  param('id')
+    .isUUID()
+    .withMessage('Discrepancy ID must be a valid UUID'),
+  body('note')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Note must not exceed 500 characters'),
+  handleValidationErrors,
+]
+
 const orderIdValidation = [
   param('id')
     .isUUID()
@@ -89,6 +179,228 @@ const orderIdValidation = [
   handleValidationErrors,
 ]
 
+const reorderValidation = [
+  param('id')
+    .isUUID()
+    .withMessage('Order ID must be a valid UUID'),
+  body('replaceCart')
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage('replaceCart must be a boolean'),
+  handleValidationErrors,
+]
+
+const amendOrderValidation = [
+  param('id')
+    .isUUID()
+    .withMessage('Order ID must be a valid UUID'),
+  body('items')
+    .isArray({ min: 1 })
+    .withMessage('Items are required and must be a non-empty array'),
+  body('items.*.productId')
+    .isUUID()
+    .withMessage('Each item must have a valid product ID'),
+  body('items.*.quantity')
+    .isInt({ min: 0 })
+    .withMessage('Quantity must be 0 (remove) or more'),
+  body('reason')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Reason must not exceed 500 characters'),
+  body('refundMethod')
+    .optional()
+    .isIn(AMENDMENT_REFUND_METHODS)
+    .withMessage(`Refund method must be one of: ${AMENDMENT_REFUND_METHODS.join(', ')}`),
+  handleValidationErrors,
+]
+
+const adminOrderFilterRules = [
+  query('status')
+    .optional()
+    .isIn(ORDER_STATUSES)
+    .withMessage('Invalid status value'),
+  query('paymentStatus')
+    .optional()
+    .isIn(['pending', 'paid', 'refunded'])
+    .withMessage('Payment status must be pending, paid or refunded'),
+  query('from')
+    .optional()
+    .isISO8601({ strict: true })
+    .withMessage('from must be a date (YYYY-MM-DD)'),
+  query('to')
+    .optional()
+    .isISO8601({ strict: true })
+    .withMessage('to must be a date (YYYY-MM-DD)'),
+  query('search')
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Search must not exceed 100 characters'),
+]
+
+const getAdminOrdersValidation = [
+  ...adminOrderFilterRules,
+  handleValidationErrors,
+]
+
+const exportOrdersValidation = [
+  ...adminOrderFilterRules,
+  query('format')
+    .optional()
+    .isIn(ORDER_EXPORT_FORMATS)
+    .withMessage(`Format must be one of: ${ORDER_EXPORT_FORMATS.join(', ')}`),
+  query('dataset')
+    .optional()
+    .isIn(ORDER_EXPORT_DATASETS)
+    .withMessage(`Dataset must be one of: ${ORDER_EXPORT_DATASETS.join(', ')}`),
+  handleValidationErrors,
+]
+
+const bulkOrderIdsRules = [
+  body('orderIds')
+    .isArray({ min: 1, max: BULK_ORDER_LIMIT })
+    .withMessage(`Select between 1 and ${BULK_ORDER_LIMIT} orders`),
+  body('orderIds.*')
+    .isUUID()
+    .withMessage('Each order ID must be a valid UUID'),
+]
+
+const bulkStatusValidation = [
+  ...bulkOrderIdsRules,
+  body('status')
+    .isIn(MANUAL_ORDER_STATUSES)
+    .withMessage('Invalid status value. Orders are marked refunded when a refund is processed'),
+  body('reason')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Reason must not exceed 500 characters'),
+  handleValidationErrors,
+]
+
+const bulkInvoicesValidation = [
+  ...bulkOrderIdsRules,
+  handleValidationErrors,
+]
+
+const searchCustomersValidation = [
+  query('search')
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Search must be 2 to 100 characters'),
+  handleValidationErrors,
+]
+
+const createAdminOrderValidation = [
+  body('channel')
+    .isIn(MANUAL_ORDER_CHANNELS)
+    .withMessage(`Channel must be one of: ${MANUAL_ORDER_CHANNELS.join(', ')}`),
+  body('userId')
+    .optional({ nullable: true })
+    .isUUID()
+    .withMessage('Customer ID must be a valid UUID'),
+  body('newCustomer')
+    .if(body('userId').not().exists({ values: 'falsy' }))
+    .isObject()
+    .withMessage('Choose a customer or enter new customer details'),
+  body('newCustomer.firstName')
+    .if(body('userId').not().exists({ values: 'falsy' }))
+    .trim()
+    .notEmpty()
+    .withMessage('First name is required'),
+  body('newCustomer.lastName')
+    .if(body('userId').not().exists({ values: 'falsy' }))
+    .trim()
+    .notEmpty()
+    .withMessage('Last name is required'),
+  body('newCustomer.email')
+    .if(body('userId').not().exists({ values: 'falsy' }))
+    .trim()
+    .isEmail()
+    .withMessage('A valid email is required (invoices and payment links are sent to it)'),
+  body('newCustomer.phoneNumber')
+    .if(body('userId').not().exists({ values: 'falsy' }))
+    .matches(/^\+?[1-9]\d{1,14}$/)
+    .withMessage('Valid phone number is required'),
+  body('cartItems')
+    .isArray({ min: 1 })
+    .withMessage('Cart items are required and must be a non-empty array'),
+  body('cartItems.*.productId')
+    .isUUID()
+    .withMessage('Each cart item must have a valid product ID'),
+  body('cartItems.*.quantity')
+    .isInt({ min: 1 })
+    .withMessage('Quantity must be at least 1'),
+  body('deliveryAddress')
+    .isObject()
+    .withMessage('Delivery address is required'),
+  body('deliveryAddress.street')
+    .trim()
+    .notEmpty()
+    .withMessage('Street address is required'),
+  body('deliveryAddress.city')
+    .trim()
+    .notEmpty()
+    .withMessage('City is required'),
+  body('deliveryAddress.region')
+    .trim()
+    .notEmpty()
+    .withMessage('Region is required'),
+  body('deliveryAddress.phone')
+    .matches(/^\+?[1-9]\d{1,14}$/)
+    .withMessage('Valid phone number is required'),
+  body('deliveryLat')
+    .optional({ nullable: true })
+    .isFloat({ min: -90, max: 90 })
+    .withMessage('Latitude must be between -90 and 90'),
+  body('deliveryLng')
+    .optional({ nullable: true })
+    .isFloat({ min: -180, max: 180 })
+    .withMessage('Longitude must be between -180 and 180'),
+  body('deliveryNotes')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Delivery notes must not exceed 500 characters'),
+  body('voucherCode')
+    .optional()
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage('Voucher code must not exceed 50 characters'),
+  body('deliverySlot.slotId')
+    .optional()
+    .isUUID()
+    .withMessage('Delivery slot must be a slot ID'),
+  body('deliverySlot.date')
+    .if(body('deliverySlot.slotId').exists())
+    .isISO8601({ strict: true })
+    .withMessage('Delivery slot date must be YYYY-MM-DD'),
+  body('payment')
+    .isIn(MANUAL_ORDER_PAYMENTS)
+    .withMessage(`Payment must be one of: ${MANUAL_ORDER_PAYMENTS.join(', ')}`),
+  body('paidVia')
+    .if(body('payment').equals('already_paid'))
+    .isIn(OFFLINE_PAYMENT_METHODS)
+    .withMessage(`Paid via must be one of: ${OFFLINE_PAYMENT_METHODS.join(', ')}`),
+  body('paymentNote')
+    .optional()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('Payment note must not exceed 200 characters'),
+  handleValidationErrors,
+]
+
+const amendmentIdValidation = [
+  param('id')
+    .isUUID()
+    .withMessage('Order ID must be a valid UUID'),
+  param('amendmentId')
+    .isUUID()
+    .withMessage('Order change ID must be a valid UUID'),
+  handleValidationErrors,
+]
+
 const orderNumberValidation = [
   param('orderNumber')
     .matches(/^ORD-[A-Z0-9]{4}-[A-Z0-9]{4}$/)
@@ -114,7 +426,7 @@ const getUserOrdersValidation = [
     .withMessage('Limit must be between 1 and 100'),
   query('status')
     .optional()
-    .isIn(['pending', 'processing', 'shipped', 'delivered', 'cancelled', 'failed'])
+    .isIn(ORDER_STATUSES)
     .withMessage('Invalid status filter'),
   handleValidationErrors,
 ]
@@ -127,6 +439,85 @@ const checkPaymentStatusValidation = [
   handleValidationErrors,
 ]
 
+/** Optional pay-on-delivery collection details on delivery verification */
+const codCollectionValidation = [
+  body('riderName')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Rider name must be 1-100 characters'),
+  body('amountCollected')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Amount collected must be 0 or more'),
+  body('collectionMethod')
+    .optional()
+    .isIn(COD_COLLECTION_METHODS)
+    .withMessage('Collection method must be cash or mobile_money'),
+  body('momoReference')
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Mobile money reference must not exceed 100 characters'),
+]
+
+const getCodReconciliationValidation = [
+  query('from')
+    .optional()
+    .isISO8601({ strict: true })
+    .withMessage('from must be a date (YYYY-MM-DD)'),
+  query('to')
+    .optional()
+    .isISO8601({ strict: true })
+    .withMessage('to must be a date (YYYY-MM-DD)'),
+  query('riderName')
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Rider name must not exceed 100 characters'),
+  handleValidationErrors,
+]
+
+const recordCodRemittanceValidation = [
+  body('riderName')
+    .trim()
+    .notEmpty()
+    .withMessage('Rider name is required')
+    .isLength({ max: 100 })
+    .withMessage('Rider name must not exceed 100 characters'),
+  body('businessDate')
+    .isISO8601({ strict: true })
+    .withMessage('Business date must be a date (YYYY-MM-DD)'),
+  body('receivedAmount')
+    .isFloat({ min: 0 })
+    .withMessage('Received amount must be 0 or more'),
+  body('note')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Note must not exceed 500 characters'),
+  handleValidationErrors,
+]
+
+const updateCustomerCodLimitsValidation = [
+  param('userId')
+    .isUUID()
+    .withMessage('User ID must be a valid UUID'),
+  body('codAllowed')
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage('codAllowed must be true or false'),
+  body('maxOrderValue')
+    .optional({ nullable: true })
+    .isFloat({ min: 0 })
+    .withMessage('maxOrderValue must be 0 or more, or null for the default'),
+  body('maxOpenOrders')
+    .optional({ nullable: true })
+    .isInt({ min: 0 })
+    .withMessage('maxOpenOrders must be 0 or more, or null for the default'),
+  handleValidationErrors,
+]
+
 const verifyDeliveryCodeValidation = [
   body('code')
     .optional()
@@ -140,6 +531,13 @@ const verifyDeliveryCodeValidation = [
     .withMessage('Delivery code must be exactly 4 digits')
     .matches(/^\d{4}$/)
     .withMessage('Delivery code must be exactly 4 digits'),
+  body('orderId')
+    .notEmpty()
+    .withMessage('Choose the order you are delivering')
+    .isUUID()
+    .withMessage('Order ID must be a valid UUID'),
+  ...codCollectionValidation,
+  ...deliveryProofValidation,
   handleValidationErrors,
 ]
 
@@ -154,6 +552,8 @@ const verifyDeliveryTokenValidation = [
     .trim()
     .isLength({ min: 12, max: 512 })
     .withMessage('Verification token format is invalid'),
+  ...codCollectionValidation,
+  ...deliveryProofValidation,
   handleValidationErrors,
 ]
 
@@ -175,33 +575,124 @@ const deliveryVerifyTokenLimiter = rateLimit({
   skipSuccessfulRequests: true,
 })
 
+const trackingTokenValidation = [
+  param('token')
+    .matches(/^[a-f0-9]{64}$/)
+    .withMessage('Tracking link is invalid'),
+  handleValidationErrors,
+]
+
+const trackingLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 60,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: 'Too many tracking requests. Please try again later.',
+})
+
+const checkoutResumeValidation = [
+  param('token')
+    .matches(/^[a-f0-9]{64}$/)
+    .withMessage('Checkout link is invalid'),
+  handleValidationErrors,
+]
+
+const checkoutResumeLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 20,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: 'Too many attempts. Please try again later.',
+})
+
 // Public routes
 
 /**
- * @route   POST /api/webhook/paystack
- * @desc    Handle Paystack webhook events
+ * @route   POST /api/orders/webhook/paystack/retry
+ * @desc    Retry failed webhook events whose backoff has elapsed (cron)
+ * @access  Cron (CRON_SECRET)
+ */
+router.post('/webhook/paystack/retry', orderController.retryWebhookEvents)
+
+/**
+ * @route   POST /api/orders/webhook/:provider
+ * @desc    Handle payment provider webhook events (paystack, fake)
  * @access  Public (but verified by signature)
  */
-router.post('/webhook/paystack', orderController.handleWebhook)
+router.post('/webhook/:provider', orderController.handleWebhook)
+
+/**
+ * @route   POST /api/orders/reconciliation/run
+ * @desc    Reconcile stale pending payments with the payment provider (cron)
+ * @access  Cron (CRON_SECRET)
+ */
+router.post('/reconciliation/run', orderController.runReconciliation)
+
+/**
+ * @route   POST /api/orders/sla/check
+ * @desc    Flag orders stuck past their status SLA and email the digest (cron)
+ * @access  Cron (CRON_SECRET)
+ */
+router.post('/sla/check', orderController.runSlaCheck)
+
+/**
+ * @route   POST /api/orders/checkout-recovery/run
+ * @desc    Email reminders for unpaid checkouts, then clean up expired ones (cron)
+ * @access  Cron (CRON_SECRET)
+ */
+router.post('/checkout-recovery/run', orderController.runCheckoutRecovery)
+
+/**
+ * @route   GET /api/orders/checkout/resume/:token
+ * @desc    Resume link from a checkout reminder; redirects to a fresh payment page
+ * @access  Public (token is the credential)
+ */
+router.get('/checkout/resume/:token', checkoutResumeLimiter, checkoutResumeValidation, orderController.resumeCheckout)
 
 /**
  * @route   POST /api/orders/delivery/verify-code
- * @desc    Verify delivery by 4-digit code (rider or admin)
- * @access  Public
+ * @desc    Verify delivery by 4-digit code (the assigned rider, or an admin) for the order named in orderId, with optional photo, recipient and GPS proof
+ * @access  Private (Rider or Admin)
  */
-router.post('/delivery/verify-code', deliveryVerifyCodeLimiter, verifyDeliveryCodeValidation, orderController.verifyDeliveryByCode)
+router.post('/delivery/verify-code', deliveryVerifyCodeLimiter, authenticateRiderOrAdmin, verifyDeliveryCodeValidation, orderController.verifyDeliveryByCode)
 
 /**
  * @route   POST /api/orders/delivery/verify-qr
- * @desc    Verify delivery by QR token (rider or admin)
- * @access  Public
+ * @desc    Verify delivery by QR token (the assigned rider, or an admin), with optional photo, recipient and GPS proof
+ * @access  Private (Rider or Admin)
  */
-router.post('/delivery/verify-qr', deliveryVerifyTokenLimiter, verifyDeliveryTokenValidation, orderController.verifyDeliveryByToken)
+router.post('/delivery/verify-qr', deliveryVerifyTokenLimiter, authenticateRiderOrAdmin, verifyDeliveryTokenValidation, orderController.verifyDeliveryByToken)
+
+/**
+ * @route   GET /api/orders/track/:token
+ * @desc    Get an order's tracking timeline by its tracking link
+ * @access  Public (token is the credential)
+ */
+router.get('/track/:token', trackingLimiter, trackingTokenValidation, orderController.getPublicOrderTracking)
 
 // Admin routes
-router.get('/admin/orders', authenticateAdmin, orderController.getAdminOrders)
+router.get('/admin/orders', authenticateAdmin, getAdminOrdersValidation, orderController.getAdminOrders)
+router.get('/admin/orders/export', authenticateAdmin, exportOrdersValidation, orderController.exportOrders)
+router.post('/admin/orders/bulk/status', authenticateAdmin, bulkStatusValidation, orderController.bulkUpdateOrderStatus)
+router.post('/admin/orders/bulk/invoices', authenticateAdmin, bulkInvoicesValidation, orderController.printInvoices)
 router.get('/admin/transactions', authenticateAdmin, orderController.getAdminPaymentTransactions)
+router.post('/admin/transactions/:id/refund', authenticateAdmin, createRefundValidation, orderController.createRefund)
+router.get('/admin/refunds', authenticateAdmin, getRefundsValidation, orderController.getAdminRefunds)
+router.get('/admin/webhook-events', authenticateAdmin, getWebhookEventsValidation, orderController.getAdminWebhookEvents)
+router.post('/admin/webhook-events/:id/replay', authenticateAdmin, webhookEventIdValidation, orderController.replayWebhookEvent)
+router.post('/admin/reconciliation/run', authenticateAdmin, orderController.runAdminReconciliation)
+router.get('/admin/reconciliation/runs', authenticateAdmin, orderController.getReconciliationRuns)
+router.get('/admin/reconciliation/discrepancies', authenticateAdmin, getDiscrepanciesValidation, orderController.getPaymentDiscrepancies)
+router.post('/admin/reconciliation/discrepancies/:id/resolve', authenticateAdmin, resolveDiscrepancyValidation, orderController.resolvePaymentDiscrepancy)
+router.get('/admin/cod/reconciliation', authenticateAdmin, getCodReconciliationValidation, orderController.getCodReconciliation)
+router.post('/admin/cod/remittances', authenticateAdmin, recordCodRemittanceValidation, orderController.recordCodRemittance)
+router.put('/admin/cod/customers/:userId', authenticateAdmin, updateCustomerCodLimitsValidation, orderController.updateCustomerCodLimits)
 router.get('/admin/stats', authenticateAdmin, orderController.getOrderStats)
+router.get('/admin/customers', authenticateAdmin, searchCustomersValidation, orderController.searchCustomers)
+router.post('/admin/orders', authenticateAdmin, createAdminOrderValidation, orderController.createAdminOrder)
+router.post('/admin/orders/:id/amend', authenticateAdmin, amendOrderValidation, orderController.adminAmendOrder)
+router.get('/admin/orders/:id/amendments', authenticateAdmin, orderIdValidation, orderController.getOrderAmendments)
+router.post('/admin/orders/:id/amendments/:amendmentId/cancel', authenticateAdmin, amendmentIdValidation, orderController.cancelOrderAmendment)
 router.put('/:id/status', authenticateAdmin, updateStatusValidation, orderController.updateOrderStatus)
 
 // Protected routes (require authentication)
@@ -228,6 +719,13 @@ router.post('/verify-payment', verifyPaymentValidation, orderController.verifyPa
  */
 router.get('/payment-status', checkPaymentStatusValidation, orderController.checkPaymentStatus)
 
+/**
+ * @route   POST /api/orders/amendments/verify-payment
+ * @desc    Verify the payment for an order change and apply it
+ * @access  Private
+ */
+router.post('/amendments/verify-payment', verifyPaymentValidation, orderController.verifyAmendmentPayment)
+
 /**
  * @route   GET /api/orders
  * @desc    Get user's orders
@@ -242,6 +740,13 @@ router.get('/', getUserOrdersValidation, orderController.getUserOrders)
  */
 router.get('/:id', orderIdValidation, orderController.getOrderById)
 
+/**
+ * @route   GET /api/orders/:id/tracking
+ * @desc    Get the tracking timeline for an order
+ * @access  Private
+ */
+router.get('/:id/tracking', orderIdValidation, orderController.getOrderTracking)
+
 /**
  * @route   GET /api/orders/number/:orderNumber
  * @desc    Get order by order number
@@ -256,6 +761,34 @@ router.get('/number/:orderNumber', orderNumberValidation, orderController.getOrd
  */
 router.post('/:id/cancel', orderIdValidation, orderController.cancelOrder)
 
+/**
+ * @route   POST /api/orders/:id/reorder
+ * @desc    Add the items of a past order to the cart, reporting unavailable and repriced items
+ * @access  Private
+ */
+router.post('/:id/reorder', reorderValidation, orderController.reorder)
+
+/**
+ * @route   POST /api/orders/:id/amend
+ * @desc    Add or remove items before dispatch; the difference is paid, refunded or credited
+ * @access  Private
+ */
+router.post('/:id/amend', amendOrderValidation, orderController.amendOrder)
+
+/**
+ * @route   GET /api/orders/:id/amendments
+ * @desc    List changes made to an order
+ * @access  Private
+ */
+router.get('/:id/amendments', orderIdValidation, orderController.getOrderAmendments)
+
+/**
+ * @route   POST /api/orders/:id/amendments/:amendmentId/cancel
+ * @desc    Cancel an order change that is waiting for payment
+ * @access  Private
+ */
+router.post('/:id/amendments/:amendmentId/cancel', amendmentIdValidation, orderController.cancelOrderAmendment)
+
 /**
  * @route   GET /api/orders/pending/:pendingOrderId
  * @desc    Get pending order details
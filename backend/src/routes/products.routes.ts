@@ -3,6 +3,7 @@ import { ProductsController } from '../controllers/products.controller'
 import { authenticateAdmin } from '../middleware/adminAuth.middleware'
 import { body, param, query } from 'express-validator'
 import { handleValidationErrors } from '../middleware/validation.middleware'
+import { OVERSELL_POLICIES } from '../services/inventory.service'
 
 const router = Router()
 const productsController = new ProductsController()
@@ -44,6 +45,10 @@ const createProductValidation = [
   body('quantity')
     .isInt({ min: 0 })
     .withMessage('Quantity must be a non-negative integer'),
+  body('oversell_policy')
+    .optional()
+    .isIn(OVERSELL_POLICIES)
+    .withMessage('Oversell policy must be block, backorder, or alert'),
   body('weight')
     .optional({ nullable: true })
     .isFloat({ min: 0 })
@@ -130,6 +135,10 @@ const updateProductValidation = [
     .optional()
     .isInt({ min: 0 })
     .withMessage('Quantity must be a non-negative integer'),
+  body('oversell_policy')
+    .optional()
+    .isIn(OVERSELL_POLICIES)
+    .withMessage('Oversell policy must be block, backorder, or alert'),
   body('weight')
     .optional({ nullable: true })
     .isFloat({ min: 0 })
@@ -232,6 +241,18 @@ const getProductsValidation = [
   handleValidationErrors
 ]
 
+const getReservationsValidation = [
+  query('status')
+    .optional()
+    .isIn(['active', 'committed', 'released'])
+    .withMessage('Status must be active, committed, or released'),
+  query('productId')
+    .optional()
+    .isUUID()
+    .withMessage('Product ID must be a valid UUID'),
+  handleValidationErrors
+]
+
 const productIdValidation = [
   param('id')
     .isUUID()
@@ -253,5 +274,6 @@ router.put('/:id', updateProductValidation, productsController.updateProduct)
 router.delete('/:id', productIdValidation, productsController.deleteProduct)
 router.patch('/:id/stock', updateStockValidation, productsController.updateStock)
 router.get('/admin/stats', productsController.getProductStats)
+router.get('/admin/reservations', getReservationsValidation, productsController.getReservations)
 
 export { router as productsRoutes }
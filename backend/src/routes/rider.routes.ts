@@ -0,0 +1,79 @@
+import { Router } from 'express'
+import { body, param, query } from 'express-validator'
+import rateLimit from 'express-rate-limit'
+import { deliveryProofValidation, handleValidationErrors } from '../middleware/validation.middleware'
+import { authenticateRider } from '../middleware/riderAuth.middleware'
+import * as riderController from '../controllers/rider.controller'
+import { FAILED_ATTEMPT_REASON_CODES } from '../services/rider.service'
+
+const router = Router()
+
+const riderLoginLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 10,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: 'Too many login attempts. Please try again later.',
+  skipSuccessfulRequests: true,
+})
+
+const loginValidation = [
+  body('phoneOrEmail').isString().trim().notEmpty().withMessage('Phone number or email is required'),
+  body('password').isString().notEmpty().withMessage('Password is required'),
+  handleValidationErrors,
+]
+
+const dateRangeValidation = [
+  query('from').optional().isISO8601({ strict: true }).isLength({ min: 10, max: 10 }).withMessage('from must be YYYY-MM-DD'),
+  query('to').optional().isISO8601({ strict: true }).isLength({ min: 10, max: 10 }).withMessage('to must be YYYY-MM-DD'),
+  handleValidationErrors,
+]
+
+/**
+ * @route   POST /api/riders/login
+ * @desc    Rider sign-in; sets the rider_token cookie and returns the token
+ * @access  Public
+ */
+router.post('/login', riderLoginLimiter, loginValidation, riderController.login)
+
+/**
+ * @route   POST /api/riders/logout
+ * @access  Public
+ */
+router.post('/logout', riderController.logout)
+
+router.use(authenticateRider)
+
+/**
+ * @route   GET /api/riders/me
+ * @access  Private (Rider)
+ */
+router.get('/me', riderController.getProfile)
+
+/**
+ * @route   GET /api/riders/me/deliveries
+ * @desc    Shipped orders assigned to the rider, with address, map link and amount to collect
+ * @access  Private (Rider)
+ */
+router.get('/me/deliveries', riderController.listMyDeliveries)
+
+/**
+ * @route   POST /api/riders/me/deliveries/:orderId/failed-attempt
+ * @desc    Delivery attempted but not made, with a reason code and optional photo and GPS fix; drives rescheduling
+ * @access  Private (Rider)
+ */
+router.post('/me/deliveries/:orderId/failed-attempt', [
+  param('orderId').isUUID().withMessage('Invalid order ID'),
+  body('reasonCode').isIn(FAILED_ATTEMPT_REASON_CODES).withMessage(`reasonCode must be one of: ${FAILED_ATTEMPT_REASON_CODES.join(', ')}`),
+  body('note').optional().isString().trim().isLength({ max: 300 }).withMessage('note must be at most 300 characters'),
+  ...deliveryProofValidation,
+  handleValidationErrors,
+], riderController.recordFailedAttempt)
+
+/**
+ * @route   GET /api/riders/me/stats?from=&to=
+ * @access  Private (Rider)
+ */
+router.get('/me/stats', dateRangeValidation, riderController.getMyStats)
+
+export { router as riderRoutes }
@@ -0,0 +1,22 @@
+import { Router } from 'express'
+import { query } from 'express-validator'
+import { handleValidationErrors } from '../middleware/validation.middleware'
+import { authenticateToken } from '../middleware/auth.middleware'
+import { STORE_CREDIT_ENTRY_TYPES } from '../services/store-credit.service'
+import * as storeCreditController from '../controllers/store-credit.controller'
+
+const router = Router()
+
+const historyValidation = [
+  query('type').optional().isIn([...STORE_CREDIT_ENTRY_TYPES]),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 }),
+  handleValidationErrors,
+]
+
+router.use(authenticateToken)
+
+router.get('/', storeCreditController.getMyBalance)
+router.get('/history', historyValidation, storeCreditController.getMyHistory)
+
+export { router as storeCreditRoutes }
@@ -13,6 +13,16 @@ import { profileRoutes } from './routes/profile.routes'
 import { otpRoutes } from './routes/otp.routes'
 import { adminRoutes } from './routes/admin.routes'
 import { adminVoucherRoutes } from './routes/admin-voucher.routes'
+import { adminStoreCreditRoutes } from './routes/admin-store-credit.routes'
+import { adminTaxRoutes } from './routes/admin-tax.routes'
+import { adminOrderSlaRoutes } from './routes/admin-order-sla.routes'
+import { adminCheckoutRecoveryRoutes } from './routes/admin-checkout-recovery.routes'
+import { adminOrderRiskRoutes } from './routes/admin-order-risk.routes'
+import { adminWarehouseRoutes } from './routes/admin-warehouse.routes'
+import { adminRiderRoutes } from './routes/admin-rider.routes'
+import { adminDeliveryRouteRoutes } from './routes/admin-delivery-route.routes'
+import { adminDeliveryCodeRoutes } from './routes/admin-delivery-code.routes'
+import { riderRoutes } from './routes/rider.routes'
 import { productsRoutes } from './routes/products.routes'
 import { categoriesRoutes } from './routes/categories.routes'
 import { dashboardRoutes } from './routes/dashboard.routes'
@@ -28,6 +38,7 @@ import { pricingRoutes } from './routes/pricing.routes'
 import { scheduledOrdersRoutes } from './routes/scheduled-orders.routes'
 import { contactRoutes } from './routes/contact.routes'
 import { voucherRoutes } from './routes/voucher.routes'
+import { storeCreditRoutes } from './routes/store-credit.routes'
 import { deliveryRoutes } from './routes/delivery.routes'
 import { logFrontendErrorRoutes } from './routes/log-frontend-error.routes'
 import { errorHandler } from './middleware/error.middleware'
@@ -132,7 +143,7 @@ app.use((req, res, next) => {
       res.header('Access-Control-Allow-Credentials', 'true')
       res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS')
       res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization')
-      res.header('Access-Control-Expose-Headers', 'Content-Type')
+      res.header('Access-Control-Expose-Headers', 'Content-Type, Content-Disposition, X-Skipped-Orders')
     } else {
       console.warn(`CORS blocked origin: ${origin}. Allowed origins:`, allowedOrigins)
       return res.status(403).json({
@@ -202,6 +213,16 @@ app.use('/api/profile', profileRoutes)
 app.use('/api/otp', otpRoutes)
 app.use('/api/admin', adminRoutes)
 app.use('/api/admin/vouchers', adminVoucherRoutes)
+app.use('/api/admin/store-credit', adminStoreCreditRoutes)
+app.use('/api/admin/tax', adminTaxRoutes)
+app.use('/api/admin/order-sla', adminOrderSlaRoutes)
+app.use('/api/admin/checkout-recovery', adminCheckoutRecoveryRoutes)
+app.use('/api/admin/order-risk', adminOrderRiskRoutes)
+app.use('/api/admin/warehouses', adminWarehouseRoutes)
+app.use('/api/admin/riders', adminRiderRoutes)
+app.use('/api/admin/delivery-routes', adminDeliveryRouteRoutes)
+app.use('/api/admin/delivery-codes', adminDeliveryCodeRoutes)
+app.use('/api/riders', riderRoutes)
 app.use('/api/products', productsRoutes)
 app.use('/api/categories', categoriesRoutes)
 app.use('/api/dashboard', dashboardRoutes)
@@ -217,6 +238,7 @@ app.use('/api/pricing', pricingRoutes)
 app.use('/api/scheduled-orders', scheduledOrdersRoutes)
 app.use('/api/contact', contactRoutes)
 app.use('/api/vouchers', voucherRoutes)
+app.use('/api/store-credit', storeCreditRoutes)
 app.use('/api/delivery', deliveryRoutes)
 app.use('/api/log-frontend-error', logFrontendErrorRoutes)
 
@@ -242,6 +264,7 @@ app.get('/', (req: Request, res: Response) => {
       dashboard: '/api/dashboard',
       ai: '/api/ai',
       orders: '/api/orders',
+      riders: '/api/riders',
       users: '/api/users',
       bundles: '/api/bundles',
       aiProducts: '/api/ai-products',
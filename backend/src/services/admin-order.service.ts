@@ -0,0 +1,246 @@
+import { createAdminClient } from '../config/supabase'
+import { OrderService, type CartItem, type DeliveryAddress, type InitializePaymentResult } from './order.service'
+import type { DeliverySlotSelection } from './delivery-slot.service'
+
+/**
+ * Orders placed by an admin for a customer who ordered by phone, WhatsApp or in person.
+ * They go through the same checkout as the storefront (OrderService.createPendingOrder): server pricing,
+ * voucher validation, stock reservation, invoice and delivery code. Only the payment differs: a
+ * payment link the admin sends to the customer, pay on delivery, or already paid.
+ */
+
+export type ManualOrderChannel = 'phone' | 'whatsapp' | 'walk_in'
+
+export const MANUAL_ORDER_CHANNELS: readonly ManualOrderChannel[] = ['phone', 'whatsapp', 'walk_in']
+
+export type ManualOrderPayment = 'payment_link' | 'cash_on_delivery' | 'mobile_money_on_delivery' | 'already_paid'
+
+export const MANUAL_ORDER_PAYMENTS: readonly ManualOrderPayment[] = [
+  'payment_link',
+  'cash_on_delivery',
+  'mobile_money_on_delivery',
+  'already_paid',
+]
+
+/** How an already-paid order was paid; stored as orders.payment_method (see supabase-admin-orders.sql) */
+export type OfflinePaymentMethod = 'cash' | 'mobile_money' | 'bank_transfer' | 'card'
+
+export const OFFLINE_PAYMENT_METHODS: readonly OfflinePaymentMethod[] = ['cash', 'mobile_money', 'bank_transfer', 'card']
+
+/** payment_transactions.provider for payments an admin recorded; these are not refundable through a provider */
+export const MANUAL_PAYMENT_PROVIDER = 'manual'
+
+export interface ManualOrderCustomerInput {
+  firstName: string
+  lastName: string
+  email: string
+  phoneNumber: string
+}
+
+export interface ManualOrderCustomer {
+  id: string
+  email: string
+  name: string
+  phoneNumber: string | null
+}
+
+export interface CreateManualOrderParams {
+  adminId: string
+  channel: ManualOrderChannel
+  /** Existing customer, or newCustomer to create one */
+  userId?: string
+  newCustomer?: ManualOrderCustomerInput
+  cartItems: CartItem[]
+  deliveryAddress: DeliveryAddress
+  deliveryNotes?: string
+  deliveryLat?: number
+  deliveryLng?: number
+  voucherCode?: string
+  payment: ManualOrderPayment
+  /** Required when payment is 'already_paid' */
+  paidVia?: OfflinePaymentMethod
+  /** Receipt, MoMo or transfer reference for already-paid orders */
+  paymentNote?: string
+  /** Optional delivery slot; admins are not required to pick one */
+  deliverySlot?: DeliverySlotSelection
+}
+
+export interface ManualOrderResult {
+  success: boolean
+  customer?: ManualOrderCustomer
+  checkout?: InitializePaymentResult
+  /** True when newCustomer matched no one and an account was created */
+  customerCreated?: boolean
+  error?: string
+}
+
+const CUSTOMER_SEARCH_LIMIT = 20
+
+const toCustomer = (u: { id: string; email?: string | null; first_name?: string | null; last_name?: string | null; phone_number?: string | null }): ManualOrderCustomer => ({
+  id: u.id,
+  email: u.email ?? '',
+  name: [u.first_name, u.last_name].filter(Boolean).join(' ') || u.email || u.id,
+  phoneNumber: u.phone_number || null,
+})
+
+export class AdminOrderService {
+  private supabase = createAdminClient()
+  private orderService = new OrderService()
+
+  /** Find customers by name, email or phone number for the order form. */
+  async searchCustomers(search: string): Promise<{ success: boolean; data?: ManualOrderCustomer[]; error?: string }> {
+    // Strip characters that would break the PostgREST or() filter
+    const term = search.trim().replace(/[,()%*]/g, ' ').trim()
+    if (term.length < 2) {
+      return { success: true, data: [] }
+    }
+
+    const pattern = `%${term}%`
+    const { data, error } = await this.supabase
+      .from('users')
+      .select('id, email, first_name, last_name, phone_number')
+      .or(`email.ilike.${pattern},phone_number.ilike.${pattern},first_name.ilike.${pattern},last_name.ilike.${pattern}`)
+      .order('first_name')
+      .limit(CUSTOMER_SEARCH_LIMIT)
+
+    if (error) {
+      return { success: false, error: error.message }
+    }
+    return { success: true, data: (data ?? []).map(toCustomer) }
+  }
+
+  /**
+   * Create an account for a customer who has never ordered online. They can set a password later
+   * through "forgot password" with the same email. An existing email or phone number is reused instead.
+   */
+  async findOrCreateCustomer(input: ManualOrderCustomerInput): Promise<{ success: boolean; customer?: ManualOrderCustomer; created?: boolean; error?: string }> {
+    const email = input.email.toLowerCase().trim()
+    const phoneNumber = input.phoneNumber.trim()
+
+    const { data: existing } = await this.supabase
+      .from('users')
+      .select('id, email, first_name, last_name, phone_number')
+      .or(`email.eq."${email}",phone_number.eq."${phoneNumber}"`)
+      .limit(1)
+      .maybeSingle()
+
+    if (existing) {
+      return { success: true, customer: toCustomer(existing), created: false }
+    }
+
+    const countryCodeMatch = phoneNumber.match(/^\+(\d{1,4})/)
+    const countryCode = countryCodeMatch ? `+${countryCodeMatch[1]}` : '+233'
+
+    const { data: authData, error: authError } = await this.supabase.auth.admin.createUser({
+      email,
+      email_confirm: false,
+      user_metadata: {
+        first_name: input.firstName.trim(),
+        last_name: input.lastName.trim(),
+        phone_number: phoneNumber,
+        country_code: countryCode,
+      },
+    })
+
+    if (authError || !authData.user) {
+      console.error('Create customer auth user error:', authError)
+      return { success: false, error: 'Failed to create customer account' }
+    }
+
+    const { data: user, error: insertError } = await this.supabase
+      .from('users')
+      .insert({
+        id: authData.user.id,
+        email,
+        first_name: input.firstName.trim(),
+        last_name: input.lastName.trim(),
+        phone_number: phoneNumber,
+        country_code: countryCode,
+        role: 'customer',
+        preferences: {
+          language: 'en',
+          currency: 'GHS',
+        },
+      })
+      .select('id, email, first_name, last_name, phone_number')
+      .single()
+
+    if (insertError || !user) {
+      console.error('Create customer profile error:', insertError)
+      try {
+        await this.supabase.auth.admin.deleteUser(authData.user.id)
+      } catch (cleanupError) {
+        console.error('Failed to cleanup auth user:', cleanupError)
+      }
+      return { success: false, error: 'Failed to create customer account' }
+    }
+
+    await this.supabase
+      .from('user_preferences')
+      .insert({ user_id: user.id, language: 'en', currency: 'GHS' })
+      .then(({ error: prefError }) => {
+        if (prefError && prefError.code !== '23505') {
+          console.warn('Failed to create user preferences (non-fatal):', prefError.message)
+        }
+      })
+
+    return { success: true, customer: toCustomer(user), created: true }
+  }
+
+  async createOrder(params: CreateManualOrderParams): Promise<ManualOrderResult> {
+    try {
+      if (params.payment === 'already_paid' && !params.paidVia) {
+        return { success: false, error: 'Choose how the order was paid' }
+      }
+
+      let customer: ManualOrderCustomer
+      let customerCreated = false
+      if (params.userId) {
+        const { data: user } = await this.supabase
+          .from('users')
+          .select('id, email, first_name, last_name, phone_number')
+          .eq('id', params.userId)
+          .maybeSingle()
+        if (!user) {
+          return { success: false, error: 'Customer not found' }
+        }
+        customer = toCustomer(user)
+      } else if (params.newCustomer) {
+        const created = await this.findOrCreateCustomer(params.newCustomer)
+        if (!created.success || !created.customer) {
+          return { success: false, error: created.error }
+        }
+        customer = created.customer
+        customerCreated = created.created === true
+      } else {
+        return { success: false, error: 'Choose a customer or enter new customer details' }
+      }
+
+      const checkout = await this.orderService.createPendingOrder({
+        userId: customer.id,
+        cartItems: params.cartItems,
+        deliveryAddress: params.deliveryAddress,
+        deliveryNotes: params.deliveryNotes,
+        deliveryLat: params.deliveryLat,
+        deliveryLng: params.deliveryLng,
+        voucherCode: params.voucherCode,
+        paymentMethod: params.payment === 'cash_on_delivery' || params.payment === 'mobile_money_on_delivery'
+          ? params.payment
+          : 'online',
+        paidOffline: params.payment === 'already_paid' && params.paidVia
+          ? { method: params.paidVia, note: params.paymentNote?.trim() || undefined }
+          : undefined,
+        placedBy: { adminId: params.adminId, channel: params.channel },
+        deliverySlot: params.deliverySlot,
+      })
+
+      if (!checkout.success) {
+        return { success: false, customer, customerCreated, error: checkout.error }
+      }
+      return { success: true, customer, customerCreated, checkout }
+    } catch (error) {
+      console.error('Create manual order error:', error)
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to create order' }
+    }
+  }
+}
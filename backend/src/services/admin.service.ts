@@ -240,6 +240,8 @@ export class AdminService {
   verifyToken(token: string): { adminId: string; username: string; role: string } | null {
     try {
       const decoded = jwt.verify(token, adminJwtSecret) as unknown as { adminId: string; username: string; role: string }
+      // Rider tokens share the secret but carry no adminId
+      if (!decoded.adminId) return null
       return {
         adminId: decoded.adminId,
         username: decoded.username,
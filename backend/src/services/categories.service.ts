@@ -1,4 +1,5 @@
 import { createAdminClient } from '../config/supabase'
+import type { TaxClass } from './tax.service'
 
 export interface Category {
   id: string
@@ -8,6 +9,8 @@ export interface Category {
   icon?: string
   images?: string[]
   subcategories: string[]
+  /** VAT and levies: standard, or exempt for unprocessed staples (see supabase-tax.sql) */
+  tax_class?: TaxClass
   created_at: string
   updated_at: string
 }
@@ -0,0 +1,604 @@
+import { randomBytes } from 'crypto'
+import { createAdminClient } from '../config/supabase'
+import { getPaymentProvider } from './payment-provider.service'
+import { OrderService, type CartSnapshotItem } from './order.service'
+import { InventoryService } from './inventory.service'
+import { StoreCreditService } from './store-credit.service'
+import { DeliverySlotService } from './delivery-slot.service'
+import { planReservationItems, type FulfilmentPlan } from './warehouse.service'
+import { EmailService } from './email.service'
+import { getTrackingUrl } from './order-tracking.service'
+import { CronLockService } from './cron-lock.service'
+
+/**
+ * Abandoned checkout recovery (see supabase-checkout-recovery.sql). Online checkouts whose payment was
+ * initialized but never completed get up to a few reminder emails before cleanup removes them. The
+ * email links to a resume endpoint that re-reserves stock and credit and starts a fresh payment for
+ * the same checkout, at the price the customer was quoted.
+ */
+
+export interface CheckoutRecoverySettings {
+  enabled: boolean
+  /** Minutes after the checkout started, one per reminder, ascending */
+  reminderDelaysMinutes: number[]
+  /** Unpaid checkouts can be resumed for this long; cleanup deletes them afterwards */
+  resumeWindowHours: number
+  updatedAt: string | null
+}
+
+export interface CheckoutRecoveryRunSummary {
+  checked: number
+  sent: number
+  superseded: number
+  errors: string[]
+  skipped?: string
+}
+
+export interface CheckoutRecoveryReminderStats {
+  reminderNumber: number
+  sent: number
+  clicked: number
+  /** Checkouts paid after this reminder and before the next one */
+  recovered: number
+}
+
+export interface CheckoutRecoveryStats {
+  from: string
+  to: string
+  emailsSent: number
+  checkoutsReminded: number
+  checkoutsClicked: number
+  checkoutsRecovered: number
+  /** Recovered / reminded, 0–1 */
+  conversionRate: number
+  recoveredRevenue: number
+  byReminder: CheckoutRecoveryReminderStats[]
+}
+
+export type ResumeCheckoutFailure = 'not_found' | 'expired' | 'cancelled' | 'unavailable' | 'failed'
+
+export type ResumeCheckoutResult =
+  | { success: true; redirectUrl: string }
+  | { success: false; reason: ResumeCheckoutFailure; error: string }
+
+/** Most reminders per checkout */
+export const MAX_RECOVERY_REMINDERS = 3
+
+interface SettingsRow {
+  enabled: boolean
+  reminder_delays_minutes: number[] | null
+  resume_window_hours: number
+  updated_at: string | null
+}
+
+interface RecoverablePendingOrder {
+  id: string
+  pending_order_id: string
+  user_id: string
+  cart_items: CartSnapshotItem[]
+  fulfilment_plan: FulfilmentPlan | null
+  credits: number
+  total_amount: number
+  payment_reference: string
+  payment_status: string
+  payment_authorization_url: string | null
+  converted_to_order_id: string | null
+  recovery_token: string | null
+  recovery_reminders_sent: number
+  recovery_resumed_at: string | null
+  created_at: string
+}
+
+const DEFAULT_SETTINGS_ID = 'c0000000-0000-0000-0000-000000000001'
+
+/** Used until supabase-checkout-recovery.sql has been run: no reminders */
+const DISABLED_SETTINGS: CheckoutRecoverySettings = {
+  enabled: false,
+  reminderDelaysMinutes: [60, 1320],
+  resumeWindowHours: 48,
+  updatedAt: null,
+}
+
+/** Checkout states a customer can still come back to; 'failed' is what reconciliation sets on abandoned payments */
+const RECOVERABLE_PAYMENT_STATUSES = ['pending', 'failed']
+
+/** A second click within this time reuses the payment page the first click opened */
+const RESUME_REUSE_MINUTES = 15
+const BATCH_SIZE = 200
+
+const PENDING_ORDER_COLUMNS =
+  'id, pending_order_id, user_id, cart_items, fulfilment_plan, credits, total_amount, payment_reference, payment_status, payment_authorization_url, converted_to_order_id, recovery_token, recovery_reminders_sent, recovery_resumed_at, created_at'
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+function rowToSettings(row: SettingsRow): CheckoutRecoverySettings {
+  return {
+    enabled: row.enabled === true,
+    reminderDelaysMinutes: (row.reminder_delays_minutes ?? []).map(Number).filter((n) => n > 0),
+    resumeWindowHours: Number(row.resume_window_hours) || DISABLED_SETTINGS.resumeWindowHours,
+    updatedAt: row.updated_at ?? null,
+  }
+}
+
+/** Where the resume link sends people when the checkout cannot be resumed */
+export function getCheckoutResumeFailureUrl(reason: ResumeCheckoutFailure): string {
+  return `${process.env.FRONTEND_URL || ''}/?checkout_resume=${reason}`
+}
+
+export function getCheckoutResumeUrl(token: string): string {
+  const backendUrl = process.env.BACKEND_URL || `http://localhost:${process.env.PORT || 3000}`
+  return `${backendUrl}/api/orders/checkout/resume/${token}`
+}
+
+export class CheckoutRecoveryService {
+  private supabase = createAdminClient()
+  private cronLock = new CronLockService()
+  private inventoryService = new InventoryService()
+  private storeCreditService = new StoreCreditService()
+  private deliverySlotService = new DeliverySlotService()
+  private emailService = new EmailService()
+
+  private static readonly LOCK_JOB = 'checkout_recovery'
+  private static readonly LOCK_TTL_MINUTES = 15
+
+  async getSettings(): Promise<CheckoutRecoverySettings> {
+    const { data, error } = await this.supabase
+      .from('checkout_recovery_settings')
+      .select('enabled, reminder_delays_minutes, resume_window_hours, updated_at')
+      .eq('id', DEFAULT_SETTINGS_ID)
+      .maybeSingle()
+
+    if (error || !data) {
+      if (error) console.warn('CheckoutRecoveryService getSettings error:', error.message)
+      return DISABLED_SETTINGS
+    }
+    return rowToSettings(data as SettingsRow)
+  }
+
+  async updateSettings(
+    params: Partial<Omit<CheckoutRecoverySettings, 'updatedAt'>>,
+    adminId?: string
+  ): Promise<{ success: boolean; data?: CheckoutRecoverySettings; error?: string }> {
+    const current = await this.getSettings()
+    const next = { ...current, ...params }
+    const delays = next.reminderDelaysMinutes
+
+    if (delays.length > MAX_RECOVERY_REMINDERS) {
+      return { success: false, error: `At most ${MAX_RECOVERY_REMINDERS} reminders can be sent` }
+    }
+    if (delays.some((d, i) => i > 0 && d <= delays[i - 1])) {
+      return { success: false, error: 'Each reminder must come after the one before it' }
+    }
+    if (delays.length > 0 && delays[delays.length - 1] >= next.resumeWindowHours * 60) {
+      return { success: false, error: 'The last reminder must be sent before the checkout expires' }
+    }
+
+    const { error } = await this.supabase
+      .from('checkout_recovery_settings')
+      .upsert({
+        id: DEFAULT_SETTINGS_ID,
+        enabled: next.enabled,
+        reminder_delays_minutes: delays,
+        resume_window_hours: next.resumeWindowHours,
+        updated_at: new Date().toISOString(),
+        updated_by: adminId ?? null,
+      })
+
+    if (error) {
+      return { success: false, error: error.message }
+    }
+    return { success: true, data: await this.getSettings() }
+  }
+
+  /**
+   * Email every unpaid online checkout whose next reminder is due. A checkout the customer has since
+   * replaced with a newer one (paid or not) gets no more reminders.
+   */
+  async sendDueReminders(): Promise<CheckoutRecoveryRunSummary> {
+    const summary: CheckoutRecoveryRunSummary = { checked: 0, sent: 0, superseded: 0, errors: [] }
+
+    const settings = await this.getSettings()
+    const delays = settings.reminderDelaysMinutes
+    if (!settings.enabled || delays.length === 0) {
+      return { ...summary, skipped: 'Checkout recovery is off' }
+    }
+
+    const acquired = await this.cronLock.acquire(CheckoutRecoveryService.LOCK_JOB, CheckoutRecoveryService.LOCK_TTL_MINUTES)
+    if (!acquired) {
+      return { ...summary, skipped: 'Lock held by another instance' }
+    }
+
+    try {
+      const now = Date.now()
+      const windowStart = new Date(now - settings.resumeWindowHours * 60 * 60 * 1000).toISOString()
+      const { data, error } = await this.supabase
+        .from('pending_orders')
+        .select(PENDING_ORDER_COLUMNS)
+        .is('converted_to_order_id', null)
+        .in('payment_status', RECOVERABLE_PAYMENT_STATUSES)
+        .not('payment_authorization_url', 'is', null)
+        .lt('recovery_reminders_sent', delays.length)
+        .gte('created_at', windowStart)
+        .lte('created_at', new Date(now - delays[0] * 60 * 1000).toISOString())
+        .order('created_at', { ascending: true })
+        .limit(BATCH_SIZE)
+
+      if (error) {
+        summary.errors.push(error.message)
+        return summary
+      }
+
+      const candidates = (data ?? []) as RecoverablePendingOrder[]
+      summary.checked = candidates.length
+      if (candidates.length === 0) return summary
+
+      const latestCheckout = await this.getLatestCheckoutByUser([...new Set(candidates.map((c) => c.user_id))], windowStart)
+      const users = await this.getUsers([...new Set(candidates.map((c) => c.user_id))])
+
+      for (const checkout of candidates) {
+        const sent = checkout.recovery_reminders_sent
+        if (now - new Date(checkout.created_at).getTime() < delays[sent] * 60 * 1000) continue
+
+        const latest = latestCheckout.get(checkout.user_id)
+        if (latest && latest > new Date(checkout.created_at).getTime()) {
+          await this.supabase
+            .from('pending_orders')
+            .update({ recovery_reminders_sent: delays.length })
+            .eq('id', checkout.id)
+          summary.superseded++
+          continue
+        }
+
+        const user = users.get(checkout.user_id)
+        if (!user?.email) continue
+
+        const token = checkout.recovery_token ?? randomBytes(32).toString('hex')
+        const reminderNumber = sent + 1
+        const result = await this.emailService.sendCheckoutRecoveryEmail(user.email, {
+          customerName: user.name,
+          items: (checkout.cart_items ?? []).map((item) => ({ name: item.name, quantity: item.quantity })),
+          totalAmount: Number(checkout.total_amount) || 0,
+          resumeUrl: getCheckoutResumeUrl(token),
+          isLastReminder: reminderNumber === delays.length,
+        })
+        if (!result.success) {
+          summary.errors.push(`${checkout.pending_order_id}: ${result.errors?.[0] ?? result.message}`)
+          continue
+        }
+
+        await this.supabase
+          .from('pending_orders')
+          .update({ recovery_token: token, recovery_reminders_sent: reminderNumber })
+          .eq('id', checkout.id)
+        await this.supabase
+          .from('checkout_recovery_emails')
+          .insert({
+            pending_order_id: checkout.pending_order_id,
+            user_id: checkout.user_id,
+            reminder_number: reminderNumber,
+            amount: checkout.total_amount,
+          })
+        summary.sent++
+      }
+      return summary
+    } catch (err) {
+      console.error('Checkout recovery run error:', err)
+      summary.errors.push(err instanceof Error ? err.message : 'Checkout recovery failed')
+      return summary
+    } finally {
+      await this.cronLock.release(CheckoutRecoveryService.LOCK_JOB)
+    }
+  }
+
+  /**
+   * Follow a resume link: send the customer to a payment page for the same checkout. A payment that
+   * went through after all is turned into the order instead; a checkout that can no longer be filled
+   * is refused with the reason.
+   */
+  async resumeCheckout(token: string): Promise<ResumeCheckoutResult> {
+    try {
+      const { data, error } = await this.supabase
+        .from('pending_orders')
+        .select(PENDING_ORDER_COLUMNS)
+        .eq('recovery_token', token)
+        .maybeSingle()
+
+      if (error || !data) {
+        return { success: false, reason: 'not_found', error: 'Checkout not found' }
+      }
+      const checkout = data as RecoverablePendingOrder
+
+      if (checkout.converted_to_order_id) {
+        return await this.orderRedirect(checkout.converted_to_order_id)
+      }
+      if (checkout.payment_status === 'cancelled') {
+        return { success: false, reason: 'cancelled', error: 'This checkout was cancelled' }
+      }
+      const settings = await this.getSettings()
+      const expiresAt = new Date(checkout.created_at).getTime() + settings.resumeWindowHours * 60 * 60 * 1000
+      if (!RECOVERABLE_PAYMENT_STATUSES.includes(checkout.payment_status) || expiresAt < Date.now()) {
+        return { success: false, reason: 'expired', error: 'This checkout has expired' }
+      }
+
+      await this.recordClick(checkout.pending_order_id)
+
+      const resumedRecently = checkout.recovery_resumed_at
+        && Date.now() - new Date(checkout.recovery_resumed_at).getTime() < RESUME_REUSE_MINUTES * 60 * 1000
+      if (resumedRecently && checkout.payment_status === 'pending' && checkout.payment_authorization_url) {
+        return { success: true, redirectUrl: checkout.payment_authorization_url }
+      }
+
+      // The customer may have paid on the original page after all
+      const { data: transaction } = await this.supabase
+        .from('payment_transactions')
+        .select('id, provider, status')
+        .eq('provider_reference', checkout.payment_reference)
+        .maybeSingle()
+      const previousProvider = getPaymentProvider(transaction?.provider as string | undefined)
+      const previous = await previousProvider.verifyTransaction(checkout.payment_reference).catch(() => null)
+      if (previous?.status === 'success') {
+        const created = await new OrderService().verifyPaymentAndCreateOrder(checkout.payment_reference)
+        if (created.success && created.orderId) {
+          return await this.orderRedirect(created.orderId)
+        }
+        return { success: false, reason: 'failed', error: created.error || 'Payment found but the order could not be created' }
+      }
+
+      const provider = getPaymentProvider()
+      const paymentReference = provider.generateReference('GROV')
+      const amount = roundMoney(Number(checkout.total_amount))
+
+      const { data: user } = await this.supabase
+        .from('users')
+        .select('email, first_name, last_name')
+        .eq('id', checkout.user_id)
+        .single()
+      if (!user?.email) {
+        return { success: false, reason: 'failed', error: 'Customer not found' }
+      }
+
+      // The checkout's own hold may still be active; drop it so it does not count against the new one
+      await this.inventoryService.releaseForPendingOrder(checkout.pending_order_id, 'checkout resumed')
+
+      // Stock is held again in the warehouses the checkout was planned from, so the delivery fee still matches
+      const reservation = await this.inventoryService.reserveForPendingOrder(
+        checkout.pending_order_id,
+        checkout.fulfilment_plan
+          ? planReservationItems(checkout.fulfilment_plan)
+          : (checkout.cart_items ?? []).map((item) => ({ productId: item.productId, quantity: item.quantity }))
+      )
+      if (!reservation.success) {
+        return {
+          success: false,
+          reason: 'unavailable',
+          error: reservation.error ?? InventoryService.describeShortages(reservation.shortages ?? []),
+        }
+      }
+      if (Number(checkout.credits) > 0) {
+        const creditHold = await this.storeCreditService.reserveForPendingOrder(checkout.user_id, checkout.pending_order_id, Number(checkout.credits))
+        if (!creditHold.success) {
+          await this.inventoryService.releaseForPendingOrder(checkout.pending_order_id, 'store credit not available')
+          return { success: false, reason: 'unavailable', error: creditHold.error || 'Store credit not available' }
+        }
+      }
+      const slotHold = await this.deliverySlotService.reholdForPendingOrder(checkout.pending_order_id)
+      if (!slotHold.success) {
+        await this.inventoryService.releaseForPendingOrder(checkout.pending_order_id, 'delivery slot not available')
+        await this.storeCreditService.releaseForPendingOrder(checkout.pending_order_id, 'delivery slot not available')
+        return { success: false, reason: 'unavailable', error: slotHold.error || 'Delivery slot not available' }
+      }
+
+      let paymentInit
+      try {
+        paymentInit = await provider.initializeTransaction({
+          email: user.email,
+          amount,
+          currency: 'GHS',
+          reference: paymentReference,
+          callbackUrl: `${process.env.FRONTEND_URL || ''}/payment/callback?pending_order_id=${checkout.pending_order_id}`,
+          metadata: {
+            pending_order_id: checkout.pending_order_id,
+            user_id: checkout.user_id,
+            recovered_checkout: true,
+            custom_fields: [
+              {
+                display_name: 'Order Reference',
+                variable_name: 'order_reference',
+                value: checkout.pending_order_id,
+              },
+              {
+                display_name: 'Customer Name',
+                variable_name: 'customer_name',
+                value: `${user.first_name} ${user.last_name}`,
+              },
+            ],
+          },
+        })
+      } catch (err) {
+        // Nothing to pay into: give back what was just held
+        await this.inventoryService.releaseForPendingOrder(checkout.pending_order_id, 'payment initialization failed')
+        await this.storeCreditService.releaseForPendingOrder(checkout.pending_order_id, 'payment initialization failed')
+        await this.deliverySlotService.releaseForPendingOrder(checkout.pending_order_id, 'payment initialization failed')
+        throw err
+      }
+
+      const now = new Date().toISOString()
+      if (transaction?.id && transaction.status === 'pending') {
+        await this.supabase
+          .from('payment_transactions')
+          .update({ status: 'failed', updated_at: now })
+          .eq('id', transaction.id)
+          .eq('status', 'pending')
+      }
+      await this.supabase
+        .from('pending_orders')
+        .update({
+          payment_reference: paymentReference,
+          payment_access_code: paymentInit.accessCode,
+          payment_authorization_url: paymentInit.authorizationUrl,
+          payment_status: 'pending',
+          recovery_resumed_at: now,
+          updated_at: now,
+        })
+        .eq('id', checkout.id)
+      await this.supabase
+        .from('payment_transactions')
+        .insert({
+          transaction_id: paymentReference,
+          pending_order_id: checkout.id,
+          user_id: checkout.user_id,
+          provider: provider.name,
+          provider_reference: paymentReference,
+          provider_access_code: paymentInit.accessCode,
+          amount,
+          currency: 'GHS',
+          status: 'pending',
+          customer_email: user.email,
+        })
+
+      return { success: true, redirectUrl: paymentInit.authorizationUrl }
+    } catch (err) {
+      console.error('Resume checkout error:', err)
+      return { success: false, reason: 'failed', error: err instanceof Error ? err.message : 'Failed to resume checkout' }
+    }
+  }
+
+  /** Reminders sent between the given dates (YYYY-MM-DD, both included) and how many checkouts they won back */
+  async getStats(from: string, to: string): Promise<{ success: boolean; data?: CheckoutRecoveryStats; error?: string }> {
+    const toExclusive = new Date(`${to}T00:00:00.000Z`)
+    toExclusive.setUTCDate(toExclusive.getUTCDate() + 1)
+
+    const { data: emailData, error } = await this.supabase
+      .from('checkout_recovery_emails')
+      .select('pending_order_id, reminder_number, sent_at, clicked_at')
+      .gte('sent_at', `${from}T00:00:00.000Z`)
+      .lt('sent_at', toExclusive.toISOString())
+      .order('sent_at', { ascending: true })
+
+    if (error) {
+      return { success: false, error: error.message }
+    }
+
+    const emails = (emailData ?? []) as Array<{ pending_order_id: string; reminder_number: number; sent_at: string; clicked_at: string | null }>
+    const checkoutIds = [...new Set(emails.map((e) => e.pending_order_id))]
+
+    // When each reminded checkout was paid, and for how much
+    const converted = new Map<string, { paidAt: number; amount: number }>()
+    for (let i = 0; i < checkoutIds.length; i += BATCH_SIZE) {
+      const { data: pending } = await this.supabase
+        .from('pending_orders')
+        .select('pending_order_id, converted_to_order_id, total_amount')
+        .in('pending_order_id', checkoutIds.slice(i, i + BATCH_SIZE))
+        .not('converted_to_order_id', 'is', null)
+      const rows = (pending ?? []) as Array<{ pending_order_id: string; converted_to_order_id: string; total_amount: number }>
+      if (rows.length === 0) continue
+      const { data: orders } = await this.supabase
+        .from('orders')
+        .select('id, created_at')
+        .in('id', rows.map((r) => r.converted_to_order_id))
+      const orderTimes = new Map(((orders ?? []) as Array<{ id: string; created_at: string }>).map((o) => [o.id, new Date(o.created_at).getTime()]))
+      for (const row of rows) {
+        const paidAt = orderTimes.get(row.converted_to_order_id)
+        if (paidAt != null) converted.set(row.pending_order_id, { paidAt, amount: Number(row.total_amount) || 0 })
+      }
+    }
+
+    const byReminder = new Map<number, CheckoutRecoveryReminderStats>()
+    const clicked = new Set<string>()
+    const recovered = new Map<string, number>()
+    for (const email of emails) {
+      const stats = byReminder.get(email.reminder_number)
+        ?? { reminderNumber: email.reminder_number, sent: 0, clicked: 0, recovered: 0 }
+      stats.sent++
+      if (email.clicked_at) {
+        stats.clicked++
+        clicked.add(email.pending_order_id)
+      }
+      byReminder.set(email.reminder_number, stats)
+
+      // Credit the last reminder sent before the payment
+      const conversion = converted.get(email.pending_order_id)
+      if (conversion && new Date(email.sent_at).getTime() < conversion.paidAt) {
+        recovered.set(email.pending_order_id, email.reminder_number)
+      }
+    }
+    for (const reminderNumber of recovered.values()) {
+      const stats = byReminder.get(reminderNumber)
+      if (stats) stats.recovered++
+    }
+
+    const recoveredRevenue = [...recovered.keys()].reduce((sum, id) => sum + (converted.get(id)?.amount ?? 0), 0)
+    return {
+      success: true,
+      data: {
+        from,
+        to,
+        emailsSent: emails.length,
+        checkoutsReminded: checkoutIds.length,
+        checkoutsClicked: clicked.size,
+        checkoutsRecovered: recovered.size,
+        conversionRate: checkoutIds.length ? Math.round((recovered.size / checkoutIds.length) * 1000) / 1000 : 0,
+        recoveredRevenue: roundMoney(recoveredRevenue),
+        byReminder: [...byReminder.values()].sort((a, b) => a.reminderNumber - b.reminderNumber),
+      },
+    }
+  }
+
+  private async orderRedirect(orderId: string): Promise<ResumeCheckoutResult> {
+    const { data: order } = await this.supabase
+      .from('orders')
+      .select('tracking_token')
+      .eq('id', orderId)
+      .maybeSingle()
+    return {
+      success: true,
+      redirectUrl: order?.tracking_token ? getTrackingUrl(order.tracking_token) : `${process.env.FRONTEND_URL || ''}/`,
+    }
+  }
+
+  /** Mark the latest reminder for the checkout as clicked (first click only) */
+  private async recordClick(pendingOrderId: string): Promise<void> {
+    const { data: latest } = await this.supabase
+      .from('checkout_recovery_emails')
+      .select('id, clicked_at')
+      .eq('pending_order_id', pendingOrderId)
+      .order('reminder_number', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+    if (latest && !latest.clicked_at) {
+      await this.supabase
+        .from('checkout_recovery_emails')
+        .update({ clicked_at: new Date().toISOString() })
+        .eq('id', latest.id)
+    }
+  }
+
+  /** Start time of each user's most recent checkout in the window (paid, pay-on-delivery or not) */
+  private async getLatestCheckoutByUser(userIds: string[], since: string): Promise<Map<string, number>> {
+    const latest = new Map<string, number>()
+    const { data } = await this.supabase
+      .from('pending_orders')
+      .select('user_id, created_at')
+      .in('user_id', userIds)
+      .gte('created_at', since)
+    for (const row of (data ?? []) as Array<{ user_id: string; created_at: string }>) {
+      const at = new Date(row.created_at).getTime()
+      if (at > (latest.get(row.user_id) ?? 0)) latest.set(row.user_id, at)
+    }
+    return latest
+  }
+
+  private async getUsers(userIds: string[]): Promise<Map<string, { email: string | null; name: string }>> {
+    const users = new Map<string, { email: string | null; name: string }>()
+    const { data } = await this.supabase
+      .from('users')
+      .select('id, email, first_name, last_name')
+      .in('id', userIds)
+    for (const u of (data ?? []) as Array<{ id: string; email?: string; first_name?: string; last_name?: string }>) {
+      users.set(u.id, { email: u.email ?? null, name: [u.first_name, u.last_name].filter(Boolean).join(' ') || 'Customer' })
+    }
+    return users
+  }
+}
@@ -0,0 +1,393 @@
+import { createAdminClient } from '../config/supabase'
+
+/**
+ * Cash on delivery (see supabase-cash-on-delivery.sql).
+ * Customers may pay the rider in cash or by mobile money instead of paying online. Checkout is
+ * limited by order value and by how many unpaid COD orders a customer already has open; the rider
+ * records what was collected when confirming delivery, and admins reconcile cash per rider per day.
+ */
+
+export type CodPaymentMethod = 'cash_on_delivery' | 'mobile_money_on_delivery'
+
+export const COD_PAYMENT_METHODS: readonly CodPaymentMethod[] = ['cash_on_delivery', 'mobile_money_on_delivery']
+
+/** How the customer pays at checkout: online through the payment provider, or to the rider. */
+export type CheckoutPaymentMethod = 'online' | CodPaymentMethod
+
+export const CHECKOUT_PAYMENT_METHODS: readonly CheckoutPaymentMethod[] = ['online', ...COD_PAYMENT_METHODS]
+
+export type CodCollectionMethod = 'cash' | 'mobile_money'
+
+export const COD_COLLECTION_METHODS: readonly CodCollectionMethod[] = ['cash', 'mobile_money']
+
+export interface CodCollectionInput {
+  riderName?: string
+  /** Defaults to the order total */
+  amountCollected?: number
+  /** Defaults to the method the customer chose at checkout */
+  method?: CodCollectionMethod
+  momoReference?: string
+}
+
+export interface CodCustomerLimits {
+  codAllowed: boolean
+  maxOrderValue: number
+  maxOpenOrders: number
+}
+
+export interface CodDailyRow {
+  businessDate: string
+  riderName: string
+  orders: number
+  expected: number
+  collected: number
+  cash: number
+  mobileMoney: number
+  /** collected - expected; negative means the rider came back short */
+  variance: number
+  remittance: {
+    id: string
+    receivedAmount: number
+    receivedBy: string | null
+    note: string | null
+    createdAt: string
+  } | null
+  /** cash - receivedAmount, once a remittance is recorded; positive means the rider still owes cash */
+  cashOutstanding: number | null
+}
+
+const DEFAULT_MAX_ORDER_VALUE = parseFloat(process.env.COD_MAX_ORDER_VALUE || '500') || 500
+const DEFAULT_MAX_OPEN_ORDERS = parseInt(process.env.COD_MAX_OPEN_ORDERS || '2', 10) || 2
+const UNASSIGNED_RIDER = 'Unassigned'
+/** Orders still out for delivery; an unpaid COD order in one of these counts against the open limit. */
+const OPEN_ORDER_STATUSES = ['pending', 'processing', 'confirmed', 'shipped']
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+export function isCodPaymentMethod(value: unknown): value is CodPaymentMethod {
+  return typeof value === 'string' && (COD_PAYMENT_METHODS as string[]).includes(value)
+}
+
+export class CodService {
+  private supabase = createAdminClient()
+
+  /** Effective limits for a customer: their overrides, else the env defaults. */
+  async getCustomerLimits(userId: string): Promise<CodCustomerLimits> {
+    const { data: user } = await this.supabase
+      .from('users')
+      .select('cod_allowed, cod_max_order_value, cod_max_open_orders')
+      .eq('id', userId)
+      .maybeSingle()
+
+    return {
+      codAllowed: user?.cod_allowed !== false,
+      maxOrderValue: user?.cod_max_order_value != null ? Number(user.cod_max_order_value) : DEFAULT_MAX_ORDER_VALUE,
+      maxOpenOrders: user?.cod_max_open_orders != null ? Number(user.cod_max_open_orders) : DEFAULT_MAX_OPEN_ORDERS,
+    }
+  }
+
+  /**
+   * Check a COD checkout against the customer's limits. Returns a customer-facing error when refused.
+   */
+  async checkEligibility(userId: string, totalAmount: number): Promise<{ allowed: boolean; error?: string }> {
+    const limits = await this.getCustomerLimits(userId)
+
+    if (!limits.codAllowed) {
+      return { allowed: false, error: 'Pay on delivery is not available for your account. Please pay online.' }
+    }
+
+    if (roundMoney(totalAmount) > limits.maxOrderValue) {
+      return {
+        allowed: false,
+        error: `Pay on delivery is available for orders up to GHS ${limits.maxOrderValue.toFixed(2)}. Please pay online.`,
+      }
+    }
+
+    const { count, error } = await this.supabase
+      .from('orders')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .in('payment_method', COD_PAYMENT_METHODS as string[])
+      .neq('payment_status', 'paid')
+      .in('status', OPEN_ORDER_STATUSES)
+
+    if (error) {
+      console.error('COD open orders check failed:', error)
+      return { allowed: false, error: 'Pay on delivery is unavailable right now. Please pay online.' }
+    }
+
+    if ((count ?? 0) >= limits.maxOpenOrders) {
+      return {
+        allowed: false,
+        error: `You already have ${count} pay-on-delivery order${count === 1 ? '' : 's'} awaiting delivery. Please pay online or wait for delivery.`,
+      }
+    }
+
+    return { allowed: true }
+  }
+
+  /**
+   * Record money collected for a COD order that was just delivered: writes the collection, marks the
+   * order paid and adds a successful payment_transactions row so it shows on the Transactions page.
+   * Safe to call twice; the second call returns the existing collection.
+   */
+  async recordCollection(
+    orderId: string,
+    verifiedVia: 'code' | 'qr',
+    input: CodCollectionInput = {}
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { data: order, error: orderError } = await this.supabase
+        .from('orders')
+        .select('id, order_id, user_id, payment_method, payment_reference, total_amount, currency')
+        .eq('id', orderId)
+        .maybeSingle()
+
+      if (orderError || !order) {
+        return { success: false, error: 'Order not found' }
+      }
+      if (!isCodPaymentMethod(order.payment_method)) {
+        return { success: true }
+      }
+
+      const expected = roundMoney(Number(order.total_amount) || 0)
+      const collected = roundMoney(input.amountCollected ?? expected)
+      const method: CodCollectionMethod = input.method
+        ?? (order.payment_method === 'mobile_money_on_delivery' ? 'mobile_money' : 'cash')
+      const now = new Date().toISOString()
+
+      const { error: insertError } = await this.supabase
+        .from('cod_collections')
+        .insert({
+          order_id: order.id,
+          rider_name: input.riderName?.trim() || UNASSIGNED_RIDER,
+          method,
+          expected_amount: expected,
+          collected_amount: collected,
+          momo_reference: input.momoReference?.trim() || null,
+          verified_via: verifiedVia,
+          collected_at: now,
+        })
+
+      if (insertError) {
+        if (insertError.code === '23505') return { success: true }
+        return { success: false, error: insertError.message }
+      }
+
+      await this.supabase
+        .from('orders')
+        .update({ payment_status: 'paid', paid_at: now, updated_at: now })
+        .eq('id', order.id)
+
+      await this.supabase
+        .from('payment_transactions')
+        .insert({
+          transaction_id: order.payment_reference,
+          order_id: order.id,
+          user_id: order.user_id,
+          provider: order.payment_method,
+          provider_reference: order.payment_reference,
+          amount: collected,
+          currency: order.currency || 'GHS',
+          status: 'success',
+          payment_method: method,
+          channel: method,
+          paid_at: now,
+        })
+
+      if (collected !== expected) {
+        await this.supabase
+          .from('order_status_history')
+          .insert({
+            order_id: order.id,
+            old_status: 'delivered',
+            new_status: 'delivered',
+            reason: `Rider collected GHS ${collected.toFixed(2)} of GHS ${expected.toFixed(2)}`,
+          })
+      }
+
+      return { success: true }
+    } catch (err) {
+      console.error('Record COD collection error:', err)
+      return { success: false, error: err instanceof Error ? err.message : 'Failed to record collection' }
+    }
+  }
+
+  /**
+   * Collections grouped per rider per business day, with any cash handover recorded for that day.
+   * Dates are YYYY-MM-DD (Africa/Accra, which is UTC). Defaults to the last 7 days.
+   */
+  async getDailyReconciliation(options: { from?: string; to?: string; riderName?: string } = {}): Promise<{
+    success: boolean
+    data?: CodDailyRow[]
+    error?: string
+  }> {
+    try {
+      const today = new Date().toISOString().slice(0, 10)
+      const to = options.to || today
+      const from = options.from || new Date(Date.now() - 6 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+
+      let collectionsQuery = this.supabase
+        .from('cod_collections')
+        .select('rider_name, method, expected_amount, collected_amount, business_date')
+        .gte('business_date', from)
+        .lte('business_date', to)
+      let remittancesQuery = this.supabase
+        .from('cod_remittances')
+        .select('id, rider_name, business_date, received_amount, received_by, note, created_at')
+        .gte('business_date', from)
+        .lte('business_date', to)
+
+      if (options.riderName) {
+        collectionsQuery = collectionsQuery.eq('rider_name', options.riderName)
+        remittancesQuery = remittancesQuery.eq('rider_name', options.riderName)
+      }
+
+      const [{ data: collections, error }, { data: remittances, error: remittanceError }] = await Promise.all([
+        collectionsQuery,
+        remittancesQuery,
+      ])
+
+      if (error || remittanceError) {
+        return { success: false, error: (error ?? remittanceError)!.message }
+      }
+
+      const rows = new Map<string, CodDailyRow>()
+      const rowFor = (businessDate: string, riderName: string): CodDailyRow => {
+        const key = `${businessDate}|${riderName}`
+        let row = rows.get(key)
+        if (!row) {
+          row = {
+            businessDate,
+            riderName,
+            orders: 0,
+            expected: 0,
+            collected: 0,
+            cash: 0,
+            mobileMoney: 0,
+            variance: 0,
+            remittance: null,
+            cashOutstanding: null,
+          }
+          rows.set(key, row)
+        }
+        return row
+      }
+
+      for (const c of collections ?? []) {
+        const row = rowFor(c.business_date as string, c.rider_name as string)
+        const collected = Number(c.collected_amount) || 0
+        row.orders++
+        row.expected = roundMoney(row.expected + (Number(c.expected_amount) || 0))
+        row.collected = roundMoney(row.collected + collected)
+        if (c.method === 'mobile_money') {
+          row.mobileMoney = roundMoney(row.mobileMoney + collected)
+        } else {
+          row.cash = roundMoney(row.cash + collected)
+        }
+      }
+
+      for (const r of remittances ?? []) {
+        const row = rowFor(r.business_date as string, r.rider_name as string)
+        row.remittance = {
+          id: r.id as string,
+          receivedAmount: Number(r.received_amount) || 0,
+          receivedBy: (r.received_by as string | null) ?? null,
+          note: (r.note as string | null) ?? null,
+          createdAt: r.created_at as string,
+        }
+      }
+
+      const data = [...rows.values()]
+        .map((row) => ({
+          ...row,
+          variance: roundMoney(row.collected - row.expected),
+          cashOutstanding: row.remittance ? roundMoney(row.cash - row.remittance.receivedAmount) : null,
+        }))
+        .sort((a, b) => b.businessDate.localeCompare(a.businessDate) || a.riderName.localeCompare(b.riderName))
+
+      return { success: true, data }
+    } catch (err) {
+      console.error('COD reconciliation error:', err)
+      return { success: false, error: err instanceof Error ? err.message : 'Failed to load COD reconciliation' }
+    }
+  }
+
+  /**
+   * Record (or correct) the cash a rider handed over for a day. The expected amount is the day's
+   * cash collections at the time of recording.
+   */
+  async recordRemittance(params: {
+    riderName: string
+    businessDate: string
+    receivedAmount: number
+    receivedBy?: string
+    note?: string
+  }): Promise<{ success: boolean; error?: string }> {
+    try {
+      const riderName = params.riderName.trim()
+      const { data: cashRows, error: cashError } = await this.supabase
+        .from('cod_collections')
+        .select('collected_amount')
+        .eq('rider_name', riderName)
+        .eq('business_date', params.businessDate)
+        .eq('method', 'cash')
+
+      if (cashError) {
+        return { success: false, error: cashError.message }
+      }
+
+      const expected = roundMoney((cashRows ?? []).reduce((sum, r: { collected_amount: number }) => sum + Number(r.collected_amount || 0), 0))
+
+      const { error } = await this.supabase
+        .from('cod_remittances')
+        .upsert(
+          {
+            rider_name: riderName,
+            business_date: params.businessDate,
+            expected_amount: expected,
+            received_amount: roundMoney(params.receivedAmount),
+            received_by: params.receivedBy ?? null,
+            note: params.note?.trim() || null,
+            updated_at: new Date().toISOString(),
+          },
+          { onConflict: 'rider_name,business_date' }
+        )
+
+      if (error) {
+        return { success: false, error: error.message }
+      }
+      return { success: true }
+    } catch (err) {
+      console.error('Record COD remittance error:', err)
+      return { success: false, error: err instanceof Error ? err.message : 'Failed to record remittance' }
+    }
+  }
+
+  /** Set a customer's COD overrides. null clears an override back to the env default. */
+  async updateCustomerLimits(
+    userId: string,
+    updates: { codAllowed?: boolean; maxOrderValue?: number | null; maxOpenOrders?: number | null }
+  ): Promise<{ success: boolean; data?: CodCustomerLimits; error?: string }> {
+    const patch: Record<string, unknown> = {}
+    if (updates.codAllowed !== undefined) patch.cod_allowed = updates.codAllowed
+    if (updates.maxOrderValue !== undefined) patch.cod_max_order_value = updates.maxOrderValue
+    if (updates.maxOpenOrders !== undefined) patch.cod_max_open_orders = updates.maxOpenOrders
+
+    const { data, error } = await this.supabase
+      .from('users')
+      .update(patch)
+      .eq('id', userId)
+      .select('id')
+
+    if (error) {
+      return { success: false, error: error.message }
+    }
+    if (!data || data.length === 0) {
+      return { success: false, error: 'Customer not found' }
+    }
+    return { success: true, data: await this.getCustomerLimits(userId) }
+  }
+}
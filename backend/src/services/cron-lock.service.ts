@@ -0,0 +1,45 @@
+import { createAdminClient } from '../config/supabase'
+
+/**
+ * Cron job locks (see supabase-cron-locks.sql). A job takes its lock before a run and releases it after,
+ * so overlapping cron calls or several backend instances do not run the same job twice. The lock
+ * expires after its TTL, so a run that crashed does not block the job for good.
+ */
+export class CronLockService {
+  private supabase = createAdminClient()
+
+  /** Take the job's lock for ttlMinutes; returns true if we got it. */
+  async acquire(jobName: string, ttlMinutes: number): Promise<boolean> {
+    try {
+      const now = new Date().toISOString()
+      const lockedUntil = new Date(Date.now() + ttlMinutes * 60 * 1000).toISOString()
+
+      // Make sure the row exists, then claim it only if it has expired: one conditional update,
+      // so two callers cannot both see the lock free
+      await this.supabase
+        .from('cron_locks')
+        .upsert({ job_name: jobName, locked_until: new Date(0).toISOString() }, { onConflict: 'job_name', ignoreDuplicates: true })
+      const { data, error } = await this.supabase
+        .from('cron_locks')
+        .update({ locked_until: lockedUntil })
+        .eq('job_name', jobName)
+        .lte('locked_until', now)
+        .select('job_name')
+      return !error && (data ?? []).length > 0
+    } catch {
+      return true
+    }
+  }
+
+  /** Release the job's lock so the next run can take it. */
+  async release(jobName: string): Promise<void> {
+    try {
+      await this.supabase
+        .from('cron_locks')
+        .update({ locked_until: new Date(0).toISOString() })
+        .eq('job_name', jobName)
+    } catch {
+      // ignore
+    }
+  }
+}
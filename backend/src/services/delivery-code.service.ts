@@ -0,0 +1,333 @@
+import { randomInt } from 'crypto'
+import { createAdminClient } from '../config/supabase'
+import { EmailService } from './email.service'
+import type { DeliveryConfirmer } from './rider.service'
+
+/**
+ * Delivery code protection (see supabase-delivery-code-security.sql). A delivery code has only 4 digits,
+ * so wrong codes are counted per order: against the current code, which is replaced and sent to the
+ * customer again after DELIVERY_CODE_ROTATE_AFTER misses, and across all of the order's codes, which
+ * locks code checks for the order every DELIVERY_CODE_LOCK_AFTER misses. Every verification attempt, by
+ * code or QR, is written to delivery_verification_attempts for admins to review.
+ */
+
+/** Wrong codes against one code before it is replaced and the customer is sent the new one */
+export const DELIVERY_CODE_ROTATE_AFTER = Math.max(1, parseInt(process.env.DELIVERY_CODE_ROTATE_AFTER || '5', 10) || 5)
+
+/** Every this many wrong codes on an order lock its code checks */
+export const DELIVERY_CODE_LOCK_AFTER = Math.max(1, parseInt(process.env.DELIVERY_CODE_LOCK_AFTER || '10', 10) || 10)
+
+/** How long a lock lasts */
+export const DELIVERY_CODE_LOCK_MINUTES = Math.max(1, parseInt(process.env.DELIVERY_CODE_LOCK_MINUTES || '30', 10) || 30)
+
+/** When on, only the assigned rider may check a code, and must name the order it is for */
+export const DELIVERY_CODE_RIDER_BINDING = process.env.DELIVERY_CODE_RIDER_BINDING === 'true'
+
+/** Codes are unique among these orders, as in OrderService */
+const ACTIVE_ORDER_STATUSES = ['pending', 'processing', 'shipped', 'confirmed']
+const CODE_GENERATION_TRIES = 50
+
+export const DELIVERY_VERIFICATION_OUTCOMES = [
+  'confirmed',
+  'wrong_code',
+  'no_match',
+  'invalid_token',
+  'locked',
+  'not_assigned',
+  'order_required',
+  'rejected',
+] as const
+export type DeliveryVerificationOutcome = (typeof DELIVERY_VERIFICATION_OUTCOMES)[number]
+
+export type DeliveryVerificationMethod = 'code' | 'qr'
+
+/** Where a verification request came from, for the audit trail */
+export interface VerificationSource {
+  ip?: string | null
+  userAgent?: string | null
+}
+
+export interface DeliveryVerificationAttempt {
+  id: string
+  orderId: string | null
+  orderNumber: string | null
+  method: DeliveryVerificationMethod
+  outcome: DeliveryVerificationOutcome
+  riderId: string | null
+  riderName: string | null
+  adminId: string | null
+  ip: string | null
+  userAgent: string | null
+  detail: string | null
+  createdAt: string
+}
+
+export interface DeliveryVerificationAttemptFilters {
+  orderId?: string
+  riderId?: string
+  outcome?: DeliveryVerificationOutcome
+  method?: DeliveryVerificationMethod
+  /** YYYY-MM-DD, both included (UTC, which is Ghana time) */
+  from?: string
+  to?: string
+  page?: number
+  limit?: number
+}
+
+export interface DeliveryCodeStatus {
+  orderId: string
+  /** Wrong codes against the current code */
+  codeFailures: number
+  /** Wrong codes against every code the order has had */
+  totalFailures: number
+  lockedUntil: string | null
+  rotations: number
+  rotatedAt: string | null
+}
+
+/** What a wrong code led to */
+export interface DeliveryCodeFailure {
+  /** The code was replaced and sent to the customer */
+  rotated: boolean
+  /** Code checks are locked until this time */
+  lockedUntil: string | null
+}
+
+/** Lock time of an order row, or null when its code checks are open */
+export function deliveryCodeLockedUntil(order: { delivery_code_locked_until?: string | null }): string | null {
+  const until = order.delivery_code_locked_until
+  return until && new Date(until).getTime() > Date.now() ? until : null
+}
+
+/** Why a locked order's code was refused. Times are UTC, which is Ghana time. */
+export function deliveryCodeLockedMessage(lockedUntil: string): string {
+  return `Code checks for this order are locked until ${new Date(lockedUntil).toISOString().slice(11, 16)}. Scan the QR code or ask the store to issue a new code.`
+}
+
+export class DeliveryCodeService {
+  private supabase = createAdminClient()
+  private emailService = new EmailService()
+
+  /**
+   * Generate a 4-digit delivery code unique among active (non-delivered, non-cancelled) orders.
+   * Codes from delivered/cancelled orders can be reused. Drawn with crypto.randomInt so they cannot be predicted.
+   */
+  async generateUniqueCode(): Promise<string> {
+    const { data: activeCodes } = await this.supabase
+      .from('orders')
+      .select('delivery_code')
+      .not('delivery_code', 'is', null)
+      .in('status', ACTIVE_ORDER_STATUSES)
+
+    const usedSet = new Set((activeCodes || []).map((r: { delivery_code: string }) => r.delivery_code?.trim()).filter(Boolean))
+
+    for (let i = 0; i < CODE_GENERATION_TRIES; i++) {
+      const code = String(randomInt(1000, 10000))
+      if (!usedSet.has(code)) return code
+    }
+    // Nearly every code is in use: share one. Code checks name the order, so a shared code is still safe
+    return String(randomInt(1000, 10000))
+  }
+
+  /**
+   * Count a wrong code against an order. Replaces the code when it has had DELIVERY_CODE_ROTATE_AFTER
+   * misses; every DELIVERY_CODE_LOCK_AFTER misses on the order lock its code checks.
+   */
+  async registerFailure(orderId: string): Promise<DeliveryCodeFailure> {
+    const { data, error } = await this.supabase.rpc('register_delivery_code_failure', {
+      p_order_id: orderId,
+      p_lock_after: DELIVERY_CODE_LOCK_AFTER,
+      p_lock_minutes: DELIVERY_CODE_LOCK_MINUTES,
+    })
+    if (error || !data) {
+      console.error('Register delivery code failure error:', error)
+      return { rotated: false, lockedUntil: null }
+    }
+
+    const counts = data as { codeFailures: number; totalFailures: number; lockedUntil: string | null }
+    let rotated = false
+    if (counts.codeFailures >= DELIVERY_CODE_ROTATE_AFTER) {
+      const rotation = await this.rotate(orderId, { reason: `${counts.codeFailures} wrong codes` })
+      rotated = rotation.success
+      if (!rotation.success) console.warn('Delivery code not rotated for order', orderId, rotation.error)
+    }
+    return { rotated, lockedUntil: deliveryCodeLockedUntil({ delivery_code_locked_until: counts.lockedUntil }) }
+  }
+
+  /**
+   * Replace an active order's code, reset its per-code counter and email the customer the new code.
+   * `unlock` also lifts a lock (an admin action). The old code stops working straight away.
+   */
+  async rotate(
+    orderId: string,
+    options: { reason: string; unlock?: boolean; adminId?: string }
+  ): Promise<{ success: boolean; error?: string }> {
+    const { data: order, error } = await this.supabase
+      .from('orders')
+      .select('id, order_id, status, user_id, delivery_code_rotations')
+      .eq('id', orderId)
+      .maybeSingle()
+    if (error) {
+      console.warn('DeliveryCodeService rotate error:', error.message)
+      return { success: false, error: error.message }
+    }
+    if (!order) return { success: false, error: 'Order not found' }
+    if (!ACTIVE_ORDER_STATUSES.includes(order.status)) return { success: false, error: 'This order is no longer awaiting delivery' }
+
+    const code = await this.generateUniqueCode()
+    const now = new Date().toISOString()
+    const { error: updateError } = await this.supabase
+      .from('orders')
+      .update({
+        delivery_code: code,
+        delivery_code_failures: 0,
+        delivery_code_rotations: (Number(order.delivery_code_rotations) || 0) + 1,
+        delivery_code_rotated_at: now,
+        ...(options.unlock ? { delivery_code_locked_until: null } : {}),
+        updated_at: now,
+      })
+      .eq('id', orderId)
+    if (updateError) {
+      console.warn('DeliveryCodeService rotate update error:', updateError.message)
+      return { success: false, error: updateError.message }
+    }
+
+    // Internal note (unchanged status, so not on the customer's tracking timeline)
+    await this.supabase.from('order_status_history').insert({
+      order_id: orderId,
+      old_status: order.status,
+      new_status: order.status,
+      changed_by: options.adminId ?? null,
+      reason: `Delivery code replaced: ${options.reason}`,
+    })
+
+    this.notifyNewCode(order.user_id, order.order_id, code)
+    return { success: true }
+  }
+
+  /** Write one verification attempt to the audit trail. Non-fatal. */
+  async logAttempt(entry: {
+    method: DeliveryVerificationMethod
+    outcome: DeliveryVerificationOutcome
+    orderId?: string | null
+    confirmer: DeliveryConfirmer
+    source?: VerificationSource
+    detail?: string | null
+  }): Promise<void> {
+    const { error } = await this.supabase.from('delivery_verification_attempts').insert({
+      order_id: entry.orderId ?? null,
+      method: entry.method,
+      outcome: entry.outcome,
+      rider_id: entry.confirmer.type === 'rider' ? entry.confirmer.riderId : null,
+      admin_id: entry.confirmer.type === 'admin' ? entry.confirmer.adminId : null,
+      ip: entry.source?.ip ?? null,
+      user_agent: entry.source?.userAgent?.slice(0, 500) ?? null,
+      detail: entry.detail ?? null,
+    })
+    if (error) console.warn('Delivery verification attempt not logged:', error.message)
+  }
+
+  // ----- Admin -----
+
+  /** The audit trail, newest first */
+  async listAttempts(filters: DeliveryVerificationAttemptFilters = {}): Promise<{
+    success: boolean
+    data?: DeliveryVerificationAttempt[]
+    pagination?: { page: number; limit: number; total: number; totalPages: number }
+    error?: string
+  }> {
+    const { page = 1, limit = 50 } = filters
+    const offset = (page - 1) * limit
+
+    let query = this.supabase
+      .from('delivery_verification_attempts')
+      .select('id, order_id, method, outcome, rider_id, admin_id, ip, user_agent, detail, created_at', { count: 'exact' })
+      .order('created_at', { ascending: false })
+    if (filters.orderId) query = query.eq('order_id', filters.orderId)
+    if (filters.riderId) query = query.eq('rider_id', filters.riderId)
+    if (filters.outcome) query = query.eq('outcome', filters.outcome)
+    if (filters.method) query = query.eq('method', filters.method)
+    if (filters.from) query = query.gte('created_at', `${filters.from}T00:00:00Z`)
+    if (filters.to) query = query.lte('created_at', `${filters.to}T23:59:59.999Z`)
+
+    const { data: rows, error, count } = await query.range(offset, offset + limit - 1)
+    if (error) {
+      console.warn('DeliveryCodeService listAttempts error:', error.message)
+      return { success: false, error: error.message }
+    }
+
+    const orderIds = [...new Set((rows ?? []).map((r) => r.order_id as string | null).filter((id): id is string => Boolean(id)))]
+    const riderIds = [...new Set((rows ?? []).map((r) => r.rider_id as string | null).filter((id): id is string => Boolean(id)))]
+    const [orders, riders] = await Promise.all([
+      orderIds.length > 0 ? this.supabase.from('orders').select('id, order_id').in('id', orderIds) : Promise.resolve({ data: [] }),
+      riderIds.length > 0 ? this.supabase.from('riders').select('id, full_name').in('id', riderIds) : Promise.resolve({ data: [] }),
+    ])
+    const orderNumbers = new Map(((orders.data ?? []) as Array<{ id: string; order_id: string }>).map((o) => [o.id, o.order_id]))
+    const riderNames = new Map(((riders.data ?? []) as Array<{ id: string; full_name: string }>).map((r) => [r.id, r.full_name]))
+
+    return {
+      success: true,
+      data: (rows ?? []).map((r) => ({
+        id: r.id,
+        orderId: r.order_id ?? null,
+        orderNumber: r.order_id ? orderNumbers.get(r.order_id) ?? null : null,
+        method: r.method,
+        outcome: r.outcome,
+        riderId: r.rider_id ?? null,
+        riderName: r.rider_id ? riderNames.get(r.rider_id) ?? null : null,
+        adminId: r.admin_id ?? null,
+        ip: r.ip ?? null,
+        userAgent: r.user_agent ?? null,
+        detail: r.detail ?? null,
+        createdAt: r.created_at,
+      })),
+      pagination: {
+        page,
+        limit,
+        total: count ?? 0,
+        totalPages: Math.ceil((count ?? 0) / limit),
+      },
+    }
+  }
+
+  /** Counters and lock of one order */
+  async getStatus(orderId: string): Promise<DeliveryCodeStatus | null> {
+    const { data, error } = await this.supabase
+      .from('orders')
+      .select('id, delivery_code_failures, delivery_code_failures_total, delivery_code_locked_until, delivery_code_rotations, delivery_code_rotated_at')
+      .eq('id', orderId)
+      .maybeSingle()
+    if (error) {
+      console.warn('DeliveryCodeService getStatus error:', error.message)
+      return null
+    }
+    if (!data) return null
+    return {
+      orderId: data.id,
+      codeFailures: Number(data.delivery_code_failures) || 0,
+      totalFailures: Number(data.delivery_code_failures_total) || 0,
+      lockedUntil: deliveryCodeLockedUntil(data),
+      rotations: Number(data.delivery_code_rotations) || 0,
+      rotatedAt: data.delivery_code_rotated_at ?? null,
+    }
+  }
+
+  // ----- Helpers -----
+
+  /** Send the customer their new code. Fire and forget. */
+  private notifyNewCode(userId: string | null, orderNumber: string, code: string): void {
+    if (!userId) return
+    void (async () => {
+      const { data: user } = await this.supabase.from('users').select('email, first_name, last_name').eq('id', userId).maybeSingle()
+      if (!user?.email?.trim()) return
+      const sent = await this.emailService.sendOrderStatusEmail(user.email, {
+        customerName: [user.first_name, user.last_name].filter(Boolean).join(' ') || 'Customer',
+        orderNumber,
+        statusLabel: 'New delivery code',
+        message: 'For your security, your delivery code has been changed and the old one no longer works. Share the new code below with the rider when your groceries arrive.',
+        deliveryCode: code,
+      })
+      if (!sent.success) console.warn('New delivery code email not sent:', sent.errors)
+    })().catch((err) => console.error('New delivery code email error:', err))
+  }
+}
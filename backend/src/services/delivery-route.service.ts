@@ -0,0 +1,555 @@
+import { PDFDocument, PDFFont, StandardFonts, rgb } from 'pdf-lib'
+import { createAdminClient } from '../config/supabase'
+import { DeliveryService, haversineKm } from './delivery.service'
+import { RiderService, DEFAULT_ROUTE_CAPACITY } from './rider.service'
+import type { DeliveryAddress } from './order.service'
+import type { OrderExportFile } from './order-export.service'
+
+/**
+ * Daily delivery routes (see supabase-delivery-routes.sql). The day's shipped orders are split into
+ * batches that fit the riders' capacity by sweeping around the warehouse, so each batch covers one
+ * slice of the map. Each batch is then put in a short stop order with nearest neighbour followed by
+ * 2-opt. Everything runs on straight-line distances; no routing API is called.
+ */
+
+/** Google Maps takes up to 9 waypoints plus the destination in one link */
+const MAX_STOPS_PER_MAP_LINK = 10
+
+/** 2-opt passes over a batch; each pass is O(n²) and batches are small */
+const MAX_TWO_OPT_PASSES = 50
+
+export interface GeoPoint {
+  lat: number
+  lng: number
+}
+
+export interface RouteStop {
+  orderId: string
+  orderNumber: string
+  customerName: string | null
+  phone: string | null
+  address: string
+  notes: string | null
+  lat: number
+  lng: number
+  deliveryWindowStart: string | null
+  deliveryWindowEnd: string | null
+  /** 0 unless the order is unpaid (pay on delivery) */
+  amountToCollect: number
+  /** Straight-line km from the previous stop (or the warehouse) */
+  legKm: number
+}
+
+export interface DeliveryRoute {
+  id: string
+  date: string
+  batchNumber: number
+  riderId: string | null
+  riderName: string | null
+  origin: GeoPoint
+  stops: RouteStop[]
+  totalDistanceKm: number
+  /** Multi-stop Google Maps directions; long routes are split into consecutive links */
+  mapLinks: string[]
+  createdAt: string
+}
+
+/** Shipped orders a plan could not put on a route */
+export interface UnroutedOrder {
+  orderId: string
+  orderNumber: string
+  /** needs_reschedule: a failed attempt is waiting for an admin (see RiderService.recordFailedAttempt) */
+  reason: 'no_pin' | 'over_capacity' | 'needs_reschedule'
+}
+
+export interface DeliveryRoutePlan {
+  date: string
+  origin: GeoPoint
+  routes: DeliveryRoute[]
+  unrouted: UnroutedOrder[]
+}
+
+export interface PlanRoutesParams {
+  /** YYYY-MM-DD; defaults to today (Ghana time, UTC) */
+  date?: string
+  /** One batch per rider, sized by their route capacity */
+  riderIds?: string[]
+  /** Stops per batch when no riders are given */
+  capacity?: number
+  /** Assign every order to its batch's rider */
+  assignRiders?: boolean
+}
+
+interface DeliveryRouteRow {
+  id: string
+  route_date: string
+  batch_number: number
+  rider_id: string | null
+  origin_lat: number
+  origin_lng: number
+  stops: RouteStop[] | null
+  total_distance_km: number
+  created_at: string
+}
+
+// ----- Heuristics -----
+
+function distance(a: GeoPoint, b: GeoPoint): number {
+  return haversineKm(a.lat, a.lng, b.lat, b.lng)
+}
+
+/** Compass bearing from origin to point, 0–360 */
+function bearing(origin: GeoPoint, point: GeoPoint): number {
+  const lat1 = (origin.lat * Math.PI) / 180
+  const lat2 = (point.lat * Math.PI) / 180
+  const dLng = ((point.lng - origin.lng) * Math.PI) / 180
+  const y = Math.sin(dLng) * Math.cos(lat2)
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLng)
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360
+}
+
+/**
+ * Batch sizes for n stops: the fewest batches whose capacities hold them, filled evenly. Capacities are
+ * used largest first; stops past the total capacity are left out.
+ */
+export function batchSizes(n: number, capacities: number[]): number[] {
+  const sorted = [...capacities].sort((a, b) => b - a)
+  let count = 0
+  let room = 0
+  while (count < sorted.length && room < n) room += sorted[count++]
+
+  const sizes: number[] = []
+  let remaining = Math.min(n, room)
+  for (let i = 0; i < count; i++) {
+    const size = Math.min(sorted[i], Math.ceil(remaining / (count - i)))
+    sizes.push(size)
+    remaining -= size
+  }
+  // Rounding can leave stops for the larger batches that still have room
+  for (let i = 0; remaining > 0 && i < count; i++) {
+    const extra = Math.min(remaining, sorted[i] - sizes[i])
+    sizes[i] += extra
+    remaining -= extra
+  }
+  return sizes
+}
+
+/**
+ * Sweep clustering: sort stops by bearing from the origin, start after the widest empty gap so no
+ * cluster is cut in two, and fill the batches in turn. Returns the stop groups and the stops left over.
+ */
+export function sweepBatches<T extends GeoPoint>(origin: GeoPoint, stops: T[], capacities: number[]): { batches: T[][]; leftover: T[] } {
+  if (stops.length === 0) return { batches: [], leftover: [] }
+
+  const sorted = stops.map((stop) => ({ stop, angle: bearing(origin, stop) })).sort((a, b) => a.angle - b.angle)
+  let start = 0
+  let widestGap = -1
+  for (let i = 0; i < sorted.length; i++) {
+    const next = sorted[(i + 1) % sorted.length].angle
+    const gap = (next - sorted[i].angle + 360) % 360 || (sorted.length === 1 ? 360 : 0)
+    if (gap > widestGap) {
+      widestGap = gap
+      start = (i + 1) % sorted.length
+    }
+  }
+  const swept = [...sorted.slice(start), ...sorted.slice(0, start)].map((s) => s.stop)
+
+  const batches: T[][] = []
+  let offset = 0
+  for (const size of batchSizes(swept.length, capacities)) {
+    batches.push(swept.slice(offset, offset + size))
+    offset += size
+  }
+  return { batches, leftover: swept.slice(offset) }
+}
+
+/** Open path length from the origin through the stops in order */
+export function pathKm(origin: GeoPoint, stops: GeoPoint[]): number {
+  let total = 0
+  let previous = origin
+  for (const stop of stops) {
+    total += distance(previous, stop)
+    previous = stop
+  }
+  return total
+}
+
+/**
+ * Stop order for one batch: nearest neighbour from the origin, then 2-opt until no reversal shortens the
+ * path. The route ends at the last stop; the ride back is not counted.
+ */
+export function sequenceStops<T extends GeoPoint>(origin: GeoPoint, stops: T[]): T[] {
+  const remaining = [...stops]
+  const route: T[] = []
+  let current: GeoPoint = origin
+  while (remaining.length > 0) {
+    let nearest = 0
+    for (let i = 1; i < remaining.length; i++) {
+      if (distance(current, remaining[i]) < distance(current, remaining[nearest])) nearest = i
+    }
+    current = remaining[nearest]
+    route.push(remaining.splice(nearest, 1)[0])
+  }
+
+  // points[0] is the origin; reversing points[i..k] swaps edges (i-1, i) and (k, k+1)
+  const points: GeoPoint[] = [origin, ...route]
+  for (let pass = 0; pass < MAX_TWO_OPT_PASSES; pass++) {
+    let improved = false
+    for (let i = 1; i < points.length - 1; i++) {
+      for (let k = i + 1; k < points.length; k++) {
+        const hasNext = k + 1 < points.length
+        const before = distance(points[i - 1], points[i]) + (hasNext ? distance(points[k], points[k + 1]) : 0)
+        const after = distance(points[i - 1], points[k]) + (hasNext ? distance(points[i], points[k + 1]) : 0)
+        if (after < before - 1e-9) {
+          points.splice(i, k - i + 1, ...points.slice(i, k + 1).reverse())
+          improved = true
+        }
+      }
+    }
+    if (!improved) break
+  }
+  return points.slice(1) as T[]
+}
+
+/** Multi-stop directions from the origin; every link after the first starts at the previous link's last stop */
+export function googleMapsLinks(origin: GeoPoint, stops: GeoPoint[]): string[] {
+  const links: string[] = []
+  let from = origin
+  for (let i = 0; i < stops.length; i += MAX_STOPS_PER_MAP_LINK) {
+    const chunk = stops.slice(i, i + MAX_STOPS_PER_MAP_LINK)
+    const point = (p: GeoPoint) => `${p.lat},${p.lng}`
+    const params = new URLSearchParams({
+      api: '1',
+      origin: point(from),
+      destination: point(chunk[chunk.length - 1]),
+      travelmode: 'driving',
+    })
+    if (chunk.length > 1) params.set('waypoints', chunk.slice(0, -1).map(point).join('|'))
+    links.push(`https://www.google.com/maps/dir/?${params.toString()}`)
+    from = chunk[chunk.length - 1]
+  }
+  return links
+}
+
+function formatAddress(address: DeliveryAddress | null): string {
+  if (!address) return ''
+  return [address.street, address.city, address.region].filter(Boolean).join(', ') + (address.additionalInfo ? ` (${address.additionalInfo})` : '')
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function todayIso(): string {
+  return new Date().toISOString().slice(0, 10)
+}
+
+function nextDay(date: string): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+}
+
+export class DeliveryRouteService {
+  private supabase = createAdminClient()
+  private deliveryService = new DeliveryService()
+  private riderService = new RiderService()
+
+  /**
+   * Batch and sequence the day's shipped orders: those with a delivery slot on the date, and those
+   * without a slot. Replaces any routes already planned for the date.
+   */
+  async planRoutes(params: PlanRoutesParams, adminId?: string): Promise<{ success: boolean; data?: DeliveryRoutePlan; error?: string }> {
+    const date = params.date ?? todayIso()
+    const settings = await this.deliveryService.getSettings()
+    if (settings?.warehouseLat == null || settings.warehouseLng == null) {
+      return { success: false, error: 'Set the warehouse location in Delivery Settings first' }
+    }
+    const origin = { lat: Number(settings.warehouseLat), lng: Number(settings.warehouseLng) }
+
+    // Riders in the order given, each with their capacity
+    let riders: Array<{ id: string; name: string; capacity: number }> = []
+    if (params.riderIds?.length) {
+      const all = await this.riderService.listRiders()
+      for (const id of new Set(params.riderIds)) {
+        const rider = all.find((r) => r.id === id)
+        if (!rider) return { success: false, error: 'Rider not found or inactive' }
+        riders.push({ id: rider.id, name: rider.fullName, capacity: rider.routeCapacity })
+      }
+    }
+
+    const { data: orders, error } = await this.supabase
+      .from('orders')
+      .select('id, order_id, user_id, total_amount, payment_status, delivery_address, delivery_notes, delivery_lat, delivery_lng, delivery_window_start, delivery_window_end, reschedule_reason')
+      .eq('status', 'shipped')
+      .or(`delivery_window_start.is.null,and(delivery_window_start.gte.${date},delivery_window_start.lt.${nextDay(date)})`)
+      .order('created_at', { ascending: true })
+      .limit(1000)
+    if (error) {
+      console.warn('DeliveryRouteService planRoutes error:', error.message)
+      return { success: false, error: error.message }
+    }
+
+    const customers = await this.getCustomers((orders ?? []).map((o) => o.user_id as string))
+    const unrouted: UnroutedOrder[] = []
+    const stops: RouteStop[] = []
+    for (const o of orders ?? []) {
+      if (o.reschedule_reason) {
+        unrouted.push({ orderId: o.id, orderNumber: o.order_id, reason: 'needs_reschedule' })
+        continue
+      }
+      if (o.delivery_lat == null || o.delivery_lng == null) {
+        unrouted.push({ orderId: o.id, orderNumber: o.order_id, reason: 'no_pin' })
+        continue
+      }
+      const address = o.delivery_address as DeliveryAddress | null
+      const customer = customers.get(o.user_id)
+      stops.push({
+        orderId: o.id,
+        orderNumber: o.order_id,
+        customerName: customer?.name ?? null,
+        phone: address?.phone || customer?.phone || null,
+        address: formatAddress(address),
+        notes: o.delivery_notes ?? null,
+        lat: Number(o.delivery_lat),
+        lng: Number(o.delivery_lng),
+        deliveryWindowStart: o.delivery_window_start ?? null,
+        deliveryWindowEnd: o.delivery_window_end ?? null,
+        amountToCollect: o.payment_status !== 'paid' ? Number(o.total_amount) || 0 : 0,
+        legKm: 0,
+      })
+    }
+
+    const capacity = params.capacity ?? DEFAULT_ROUTE_CAPACITY
+    const capacities = riders.length > 0 ? riders.map((r) => r.capacity) : Array.from({ length: Math.ceil(stops.length / capacity) }, () => capacity)
+    const { batches, leftover } = sweepBatches(origin, stops, capacities)
+    for (const stop of leftover) unrouted.push({ orderId: stop.orderId, orderNumber: stop.orderNumber, reason: 'over_capacity' })
+
+    // batchSizes fills the largest capacities first; give each batch the rider it was sized for
+    riders = [...riders].sort((a, b) => b.capacity - a.capacity)
+    const rows = batches.map((batch, index) => {
+      const sequenced = sequenceStops(origin, batch)
+      let previous: GeoPoint = origin
+      for (const stop of sequenced) {
+        stop.legKm = round2(distance(previous, stop))
+        previous = stop
+      }
+      return {
+        route_date: date,
+        batch_number: index + 1,
+        rider_id: riders[index]?.id ?? null,
+        origin_lat: origin.lat,
+        origin_lng: origin.lng,
+        stops: sequenced,
+        total_distance_km: round2(pathKm(origin, sequenced)),
+        created_by: adminId ?? null,
+      }
+    })
+
+    const { error: deleteError } = await this.supabase.from('delivery_routes').delete().eq('route_date', date)
+    if (deleteError) {
+      console.warn('DeliveryRouteService planRoutes delete error:', deleteError.message)
+      return { success: false, error: deleteError.message }
+    }
+    if (rows.length > 0) {
+      const { error: insertError } = await this.supabase.from('delivery_routes').insert(rows)
+      if (insertError) {
+        console.warn('DeliveryRouteService planRoutes insert error:', insertError.message)
+        return { success: false, error: insertError.message }
+      }
+    }
+
+    if (params.assignRiders) {
+      for (const row of rows) {
+        if (!row.rider_id) continue
+        for (const stop of row.stops) {
+          const assigned = await this.riderService.assignOrder(stop.orderId, row.rider_id, adminId)
+          if (!assigned.success) console.warn('Route stop not assigned to rider', stop.orderNumber, assigned.error)
+        }
+      }
+    }
+
+    const routes = await this.listRoutes(date)
+    if (!routes.success) return { success: false, error: routes.error }
+    return { success: true, data: { date, origin, routes: routes.data ?? [], unrouted } }
+  }
+
+  async listRoutes(date: string): Promise<{ success: boolean; data?: DeliveryRoute[]; error?: string }> {
+    const { data, error } = await this.supabase
+      .from('delivery_routes')
+      .select('*')
+      .eq('route_date', date)
+      .order('batch_number', { ascending: true })
+    if (error) {
+      console.warn('DeliveryRouteService listRoutes error:', error.message)
+      return { success: true, data: [] }
+    }
+    const riderNames = await this.getRiderNames()
+    return { success: true, data: (data ?? []).map((row) => this.rowToRoute(row as DeliveryRouteRow, riderNames)) }
+  }
+
+  async getRoute(id: string): Promise<DeliveryRoute | null> {
+    const { data, error } = await this.supabase.from('delivery_routes').select('*').eq('id', id).maybeSingle()
+    if (error) {
+      console.warn('DeliveryRouteService getRoute error:', error.message)
+      return null
+    }
+    return data ? this.rowToRoute(data as DeliveryRouteRow, await this.getRiderNames()) : null
+  }
+
+  /** Printable A4 run sheet: one row per stop with a box to tick, and the map links */
+  async getRunSheet(id: string): Promise<{ success: boolean; file?: OrderExportFile; error?: string }> {
+    const route = await this.getRoute(id)
+    if (!route) return { success: false, error: 'Route not found' }
+
+    const pdf = await PDFDocument.create()
+    const font = await pdf.embedFont(StandardFonts.Helvetica)
+    const bold = await pdf.embedFont(StandardFonts.HelveticaBold)
+    const margin = 40
+    const width = 595.28
+    const height = 841.89
+    const grey = rgb(0.4, 0.4, 0.4)
+
+    let page = pdf.addPage([width, height])
+    let y = height - margin
+    const write = (text: string, x: number, size: number, f: PDFFont = font, color = rgb(0, 0, 0)) =>
+      page.drawText(pdfSafe(text), { x, y, size, font: f, color })
+    const newPageIfNeeded = (needed: number) => {
+      if (y - needed < margin) {
+        page = pdf.addPage([width, height])
+        y = height - margin
+      }
+    }
+
+    write(`Run sheet · ${route.date} · Route ${route.batchNumber}`, margin, 16, bold)
+    y -= 20
+    write(
+      `Rider: ${route.riderName ?? 'Unassigned'} · ${route.stops.length} stop(s) · ${route.totalDistanceKm.toFixed(1)} km straight-line from the warehouse`,
+      margin,
+      10,
+      font,
+      grey
+    )
+    y -= 14
+    const toCollect = route.stops.reduce((sum, s) => sum + s.amountToCollect, 0)
+    if (toCollect > 0) {
+      write(`Cash / mobile money to collect: GHS ${toCollect.toFixed(2)}`, margin, 10, bold)
+      y -= 14
+    }
+    y -= 10
+
+    route.stops.forEach((stop, index) => {
+      const lines = wrapText(`${stop.address}${stop.notes ? ` · Note: ${stop.notes}` : ''}`, font, 9, width - margin * 2 - 60)
+      newPageIfNeeded(36 + lines.length * 11)
+      page.drawRectangle({ x: margin, y: y - 12, width: 12, height: 12, borderColor: rgb(0, 0, 0), borderWidth: 1 })
+      write(`${index + 1}.`, margin + 20, 11, bold)
+      write(`${stop.orderNumber}  ${stop.customerName ?? ''}  ${stop.phone ?? ''}`, margin + 40, 11, bold)
+      y -= 13
+      const details = [
+        stop.deliveryWindowStart ? `Slot ${formatSlot(stop.deliveryWindowStart, stop.deliveryWindowEnd)}` : null,
+        stop.amountToCollect > 0 ? `Collect GHS ${stop.amountToCollect.toFixed(2)}` : 'Paid',
+        `${stop.legKm.toFixed(1)} km from previous`,
+      ].filter(Boolean).join(' · ')
+      write(details, margin + 40, 9, font, grey)
+      for (const line of lines) {
+        y -= 11
+        write(line, margin + 40, 9)
+      }
+      y -= 18
+    })
+
+    newPageIfNeeded(30 + route.mapLinks.length * 24)
+    y -= 6
+    write('Google Maps', margin, 11, bold)
+    route.mapLinks.forEach((link, index) => {
+      for (const line of wrapText(`${index + 1}. ${link}`, font, 7, width - margin * 2)) {
+        y -= 10
+        newPageIfNeeded(10)
+        write(line, margin, 7, font, grey)
+      }
+      y -= 4
+    })
+
+    return {
+      success: true,
+      file: {
+        filename: `run-sheet-${route.date}-route-${route.batchNumber}.pdf`,
+        contentType: 'application/pdf',
+        body: Buffer.from(await pdf.save()),
+      },
+    }
+  }
+
+  private rowToRoute(row: DeliveryRouteRow, riderNames: Map<string, string>): DeliveryRoute {
+    const origin = { lat: Number(row.origin_lat), lng: Number(row.origin_lng) }
+    const stops = row.stops ?? []
+    return {
+      id: row.id,
+      date: row.route_date,
+      batchNumber: row.batch_number,
+      riderId: row.rider_id ?? null,
+      riderName: row.rider_id ? riderNames.get(row.rider_id) ?? null : null,
+      origin,
+      stops,
+      totalDistanceKm: Number(row.total_distance_km) || 0,
+      mapLinks: googleMapsLinks(origin, stops),
+      createdAt: row.created_at,
+    }
+  }
+
+  private async getRiderNames(): Promise<Map<string, string>> {
+    const riders = await this.riderService.listRiders({ includeInactive: true })
+    return new Map(riders.map((r) => [r.id, r.fullName]))
+  }
+
+  private async getCustomers(userIds: string[]): Promise<Map<string, { name: string | null; phone: string | null }>> {
+    const ids = [...new Set(userIds.filter(Boolean))]
+    const customers = new Map<string, { name: string | null; phone: string | null }>()
+    if (ids.length === 0) return customers
+    const { data, error } = await this.supabase.from('users').select('id, first_name, last_name, phone_number').in('id', ids)
+    if (error) {
+      console.warn('DeliveryRouteService getCustomers error:', error.message)
+      return customers
+    }
+    for (const u of data ?? []) {
+      customers.set(u.id, {
+        name: [u.first_name, u.last_name].filter(Boolean).join(' ') || null,
+        phone: u.phone_number ?? null,
+      })
+    }
+    return customers
+  }
+}
+
+/** The standard PDF fonts only cover Latin-1 and a few punctuation marks */
+function pdfSafe(text: string): string {
+  return text.replace(/[^\x20-\x7E\u00A0-\u00FF–—‘’“”•]/g, '?')
+}
+
+function formatSlot(start: string, end: string | null): string {
+  const time = (iso: string) => iso.slice(11, 16)
+  return end ? `${time(start)}–${time(end)}` : time(start)
+}
+
+/** Split text into lines that fit maxWidth; long words (links) are broken anywhere */
+function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = []
+  let line = ''
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word
+    if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+      line = candidate
+      continue
+    }
+    if (line) lines.push(line)
+    line = ''
+    let rest = word
+    while (font.widthOfTextAtSize(rest, size) > maxWidth) {
+      let cut = rest.length - 1
+      while (cut > 1 && font.widthOfTextAtSize(rest.slice(0, cut), size) > maxWidth) cut--
+      lines.push(rest.slice(0, cut))
+      rest = rest.slice(cut)
+    }
+    line = rest
+  }
+  if (line) lines.push(line)
+  return lines
+}
@@ -0,0 +1,635 @@
+import { createAdminClient } from '../config/supabase'
+import { DeliveryService } from './delivery.service'
+
+/**
+ * Delivery time slots (see supabase-delivery-slots.sql). Admins set weekly windows with a capacity and a
+ * booking cut-off, plus blackout dates. A checkout holds one place in a slot like it holds stock: held when
+ * the pending order is created, confirmed with the order, released when the checkout is cancelled,
+ * abandoned or expires, or when the order is cancelled. Capacity is checked in Postgres with the slot
+ * row locked, so two checkouts cannot both take the last place. Times are Africa/Accra, which is UTC.
+ */
+
+export interface DeliverySlot {
+  id: string
+  /** Shown to customers, e.g. "Morning"; null shows the times only */
+  label: string | null
+  /** 0 = Sunday … 6 = Saturday */
+  weekday: number
+  /** HH:MM */
+  startTime: string
+  /** HH:MM, after startTime */
+  endTime: string
+  /** Orders per date */
+  capacity: number
+  /** Booking closes this many minutes before the start */
+  cutoffMinutes: number
+  /** Only offered inside this delivery zone; null for everywhere */
+  zoneId: string | null
+  active: boolean
+  updatedAt: string | null
+}
+
+export type DeliverySlotInput = Omit<DeliverySlot, 'id' | 'updatedAt'>
+
+/** The slot a customer picked: a weekly window on one date */
+export interface DeliverySlotSelection {
+  slotId: string
+  /** YYYY-MM-DD */
+  date: string
+}
+
+export interface AvailableDeliverySlot {
+  slotId: string
+  date: string
+  label: string | null
+  startTime: string
+  endTime: string
+  startsAt: string
+  endsAt: string
+  /** Booking closes at this time */
+  cutoffAt: string
+  capacity: number
+  booked: number
+  remaining: number
+  available: boolean
+}
+
+export interface DeliveryBlackout {
+  id: string
+  date: string
+  reason: string | null
+}
+
+export interface DeliverySlotUtilisationRow {
+  date: string
+  slotId: string
+  label: string | null
+  startTime: string
+  endTime: string
+  capacity: number
+  confirmed: number
+  /** Checkouts still waiting for payment */
+  held: number
+  remaining: number
+  /** (confirmed + held) / capacity, 0–1 or more when overbooked */
+  utilisation: number
+  /** Reason when the date is blacked out */
+  blackout: string | null
+}
+
+export interface DeliverySlotUtilisation {
+  from: string
+  to: string
+  rows: DeliverySlotUtilisationRow[]
+  totals: { capacity: number; confirmed: number; held: number; utilisation: number }
+}
+
+/** How long a checkout holds its slot before cleanup may release it; matches the stock hold by default */
+const SLOT_HOLD_MINUTES = Math.max(
+  1,
+  parseInt(process.env.DELIVERY_SLOT_HOLD_MINUTES || process.env.STOCK_RESERVATION_TTL_MINUTES || '30', 10) || 30
+)
+
+/** Longest date range the utilisation view covers */
+const MAX_UTILISATION_DAYS = 62
+
+const DEFAULT_BOOKING_DAYS = 7
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const SLOT_COLUMNS = 'id, label, weekday, start_time, end_time, capacity, cutoff_minutes, zone_id, active, updated_at'
+
+interface DeliverySlotRow {
+  id: string
+  label: string | null
+  weekday: number
+  start_time: string
+  end_time: string
+  capacity: number
+  cutoff_minutes: number
+  zone_id: string | null
+  active: boolean
+  updated_at: string | null
+}
+
+interface SlotBookingRow {
+  slot_id: string | null
+  slot_date: string
+  status: 'held' | 'confirmed' | 'released'
+  expires_at: string
+}
+
+function rowToSlot(row: DeliverySlotRow): DeliverySlot {
+  return {
+    id: row.id,
+    label: row.label ?? null,
+    weekday: Number(row.weekday),
+    // Postgres time comes back as HH:MM:SS
+    startTime: String(row.start_time).slice(0, 5),
+    endTime: String(row.end_time).slice(0, 5),
+    capacity: Number(row.capacity) || 0,
+    cutoffMinutes: Number(row.cutoff_minutes) || 0,
+    zoneId: row.zone_id ?? null,
+    active: row.active !== false,
+    updatedAt: row.updated_at ?? null,
+  }
+}
+
+function slotToRow(slot: DeliverySlotInput): Record<string, unknown> {
+  return {
+    label: slot.label?.trim() || null,
+    weekday: slot.weekday,
+    start_time: slot.startTime,
+    end_time: slot.endTime,
+    capacity: slot.capacity,
+    cutoff_minutes: slot.cutoffMinutes,
+    zone_id: slot.zoneId,
+    active: slot.active,
+  }
+}
+
+/** Returns an error message, or null when the slot can be saved */
+function validateSlot(slot: DeliverySlotInput): string | null {
+  if (slot.label != null && slot.label.length > 50) return 'Slot label must be at most 50 characters'
+  if (!Number.isInteger(slot.weekday) || slot.weekday < 0 || slot.weekday > 6) return 'Weekday must be 0 (Sunday) to 6 (Saturday)'
+  if (!TIME_PATTERN.test(slot.startTime) || !TIME_PATTERN.test(slot.endTime)) return 'Times must be HH:MM'
+  if (slot.endTime <= slot.startTime) return 'End time must be after start time'
+  if (!Number.isInteger(slot.capacity) || slot.capacity < 1) return 'Capacity must be at least 1'
+  if (!Number.isInteger(slot.cutoffMinutes) || slot.cutoffMinutes < 0) return 'Cut-off must be 0 minutes or more'
+  return null
+}
+
+function todayUtc(): string {
+  return new Date().toISOString().slice(0, 10)
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10)
+}
+
+function weekdayOf(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay()
+}
+
+function isValidDate(date: string): boolean {
+  return DATE_PATTERN.test(date) && !Number.isNaN(Date.parse(`${date}T00:00:00Z`)) && addDays(date, 0) === date
+}
+
+/** Start, end and booking cut-off of a slot on a date */
+function slotTimes(slot: DeliverySlot, date: string): { startsAt: Date; endsAt: Date; cutoffAt: Date } {
+  const startsAt = new Date(`${date}T${slot.startTime}:00Z`)
+  return {
+    startsAt,
+    endsAt: new Date(`${date}T${slot.endTime}:00Z`),
+    cutoffAt: new Date(startsAt.getTime() - slot.cutoffMinutes * 60 * 1000),
+  }
+}
+
+/** Bookings that take a place: confirmed, or held and not yet expired */
+function countsAgainstCapacity(booking: SlotBookingRow, now: number): boolean {
+  return booking.status === 'confirmed' || (booking.status === 'held' && Date.parse(booking.expires_at) > now)
+}
+
+export class DeliverySlotService {
+  private supabase = createAdminClient()
+  private deliveryService = new DeliveryService()
+
+  // ----- Admin: weekly windows -----
+
+  /** Windows by weekday and start time; inactive ones only when asked for. Empty if the table does not exist yet. */
+  async listSlots(options: { includeInactive?: boolean } = {}): Promise<DeliverySlot[]> {
+    let query = this.supabase
+      .from('delivery_slots')
+      .select(SLOT_COLUMNS)
+      .order('weekday', { ascending: true })
+      .order('start_time', { ascending: true })
+    if (!options.includeInactive) query = query.eq('active', true)
+
+    const { data, error } = await query
+    if (error) {
+      console.warn('DeliverySlotService listSlots error:', error.message)
+      return []
+    }
+    return (data as DeliverySlotRow[]).map(rowToSlot)
+  }
+
+  async createSlot(slot: DeliverySlotInput, adminId?: string): Promise<{ success: boolean; data?: DeliverySlot; error?: string }> {
+    const invalid = validateSlot(slot)
+    if (invalid) return { success: false, error: invalid }
+
+    const { data, error } = await this.supabase
+      .from('delivery_slots')
+      .insert({ ...slotToRow(slot), updated_by: adminId ?? null })
+      .select(SLOT_COLUMNS)
+      .single()
+
+    if (error) {
+      console.warn('DeliverySlotService createSlot error:', error.message)
+      return { success: false, error: error.message }
+    }
+    return { success: true, data: rowToSlot(data as DeliverySlotRow) }
+  }
+
+  /** Changes apply to new bookings; booked orders keep the window they were given */
+  async updateSlot(id: string, slot: DeliverySlotInput, adminId?: string): Promise<{ success: boolean; data?: DeliverySlot; error?: string }> {
+    const invalid = validateSlot(slot)
+    if (invalid) return { success: false, error: invalid }
+
+    const { data, error } = await this.supabase
+      .from('delivery_slots')
+      .update({ ...slotToRow(slot), updated_at: new Date().toISOString(), updated_by: adminId ?? null })
+      .eq('id', id)
+      .select(SLOT_COLUMNS)
+      .maybeSingle()
+
+    if (error) {
+      console.warn('DeliverySlotService updateSlot error:', error.message)
+      return { success: false, error: error.message }
+    }
+    if (!data) return { success: false, error: 'Slot not found' }
+    return { success: true, data: rowToSlot(data as DeliverySlotRow) }
+  }
+
+  /** Refused while upcoming deliveries are booked in the window; deactivate it instead */
+  async deleteSlot(id: string): Promise<{ success: boolean; error?: string }> {
+    const { count, error: countError } = await this.supabase
+      .from('delivery_slot_bookings')
+      .select('id', { count: 'exact', head: true })
+      .eq('slot_id', id)
+      .gte('slot_date', todayUtc())
+      .in('status', ['held', 'confirmed'])
+    if (countError) {
+      console.warn('DeliverySlotService deleteSlot count error:', countError.message)
+      return { success: false, error: countError.message }
+    }
+    if ((count ?? 0) > 0) {
+      return { success: false, error: `${count} upcoming deliveries are booked in this slot. Deactivate it instead.` }
+    }
+
+    const { data, error } = await this.supabase.from('delivery_slots').delete().eq('id', id).select('id')
+    if (error) {
+      console.warn('DeliverySlotService deleteSlot error:', error.message)
+      return { success: false, error: error.message }
+    }
+    if (!data || data.length === 0) return { success: false, error: 'Slot not found' }
+    return { success: true }
+  }
+
+  // ----- Admin: blackout dates -----
+
+  /** Blackouts from today on, soonest first */
+  async listBlackouts(): Promise<DeliveryBlackout[]> {
+    return this.getBlackouts(todayUtc(), null)
+  }
+
+  async createBlackout(date: string, reason: string | null, adminId?: string): Promise<{ success: boolean; data?: DeliveryBlackout; error?: string }> {
+    if (!isValidDate(date)) return { success: false, error: 'Date must be YYYY-MM-DD' }
+    if (date < todayUtc()) return { success: false, error: 'Blackout dates cannot be in the past' }
+
+    const { data, error } = await this.supabase
+      .from('delivery_slot_blackouts')
+      .upsert({ blackout_date: date, reason: reason?.trim() || null, created_by: adminId ?? null }, { onConflict: 'blackout_date' })
+      .select('id, blackout_date, reason')
+      .single()
+
+    if (error) {
+      console.warn('DeliverySlotService createBlackout error:', error.message)
+      return { success: false, error: error.message }
+    }
+    return { success: true, data: { id: data.id, date: data.blackout_date, reason: data.reason ?? null } }
+  }
+
+  async deleteBlackout(id: string): Promise<{ success: boolean; error?: string }> {
+    const { data, error } = await this.supabase.from('delivery_slot_blackouts').delete().eq('id', id).select('id')
+    if (error) {
+      console.warn('DeliverySlotService deleteBlackout error:', error.message)
+      return { success: false, error: error.message }
+    }
+    if (!data || data.length === 0) return { success: false, error: 'Blackout not found' }
+    return { success: true }
+  }
+
+  // ----- Customer: available slots -----
+
+  /**
+   * Slots customers can book from today through the booking window (delivery settings), soonest first.
+   * Full slots are included with available false. With a pin, only slots for its zone (or for everywhere)
+   * are offered, and an undeliverable pin is an error.
+   */
+  async listAvailableSlots(params: { lat?: number | null; lng?: number | null } = {}): Promise<{
+    success: boolean
+    data?: AvailableDeliverySlot[]
+    error?: string
+  }> {
+    let zoneId: string | null = null
+    if (params.lat != null && params.lng != null) {
+      const fee = await this.deliveryService.calculateFee(params.lat, params.lng)
+      if (!fee.deliverable) return { success: false, error: fee.message || 'We cannot deliver to this address.' }
+      zoneId = fee.zone?.id ?? null
+    }
+
+    const settings = await this.deliveryService.getSettings()
+    const from = todayUtc()
+    const to = addDays(from, (settings?.slotBookingDays ?? DEFAULT_BOOKING_DAYS) - 1)
+    const [slots, blackouts, bookings] = await Promise.all([this.listSlots(), this.getBlackouts(from, to), this.getBookings(from, to)])
+    const blackoutDates = new Set(blackouts.map((b) => b.date))
+    const offered = slots.filter((slot) => slot.zoneId == null || slot.zoneId === zoneId)
+    const booked = this.countBookings(bookings)
+
+    const now = Date.now()
+    const available: AvailableDeliverySlot[] = []
+    for (let date = from; date <= to; date = addDays(date, 1)) {
+      if (blackoutDates.has(date)) continue
+      const weekday = weekdayOf(date)
+      for (const slot of offered) {
+        if (slot.weekday !== weekday) continue
+        const times = slotTimes(slot, date)
+        if (times.cutoffAt.getTime() <= now) continue
+        const taken = booked.get(`${slot.id}:${date}`)
+        const count = (taken?.confirmed ?? 0) + (taken?.held ?? 0)
+        const remaining = Math.max(0, slot.capacity - count)
+        available.push({
+          slotId: slot.id,
+          date,
+          label: slot.label,
+          startTime: slot.startTime,
+          endTime: slot.endTime,
+          startsAt: times.startsAt.toISOString(),
+          endsAt: times.endsAt.toISOString(),
+          cutoffAt: times.cutoffAt.toISOString(),
+          capacity: slot.capacity,
+          booked: count,
+          remaining,
+          available: remaining > 0,
+        })
+      }
+    }
+    return { success: true, data: available }
+  }
+
+  // ----- Checkout: hold, confirm, release -----
+
+  /**
+   * Hold a place in the chosen slot for a checkout. `zoneId` is the delivery zone the checkout was priced in.
+   * Holding again for the same checkout moves its booking.
+   */
+  async holdForPendingOrder(
+    pendingOrderId: string,
+    selection: DeliverySlotSelection,
+    zoneId: string | null
+  ): Promise<{ success: boolean; bookingId?: string; error?: string }> {
+    const invalid = await this.checkSelection(selection, zoneId)
+    if (invalid) return { success: false, error: invalid }
+    return this.hold(pendingOrderId, selection)
+  }
+
+  /**
+   * Hold the slot a resumed checkout booked before its hold was released. Succeeds without doing anything
+   * when the checkout has no booking.
+   */
+  async reholdForPendingOrder(pendingOrderId: string): Promise<{ success: boolean; error?: string }> {
+    const { data: booking, error } = await this.supabase
+      .from('delivery_slot_bookings')
+      .select('slot_id, slot_date, status')
+      .eq('pending_order_id', pendingOrderId)
+      .maybeSingle()
+    if (error || !booking || booking.status === 'confirmed') return { success: true }
+    if (!booking.slot_id) return { success: false, error: 'Your delivery slot is no longer offered. Please check out again.' }
+
+    const selection = { slotId: booking.slot_id as string, date: booking.slot_date as string }
+    const invalid = await this.checkSelection(selection, undefined)
+    if (invalid) return { success: false, error: `${invalid} Please check out again.` }
+    return this.hold(pendingOrderId, selection)
+  }
+
+  /** Delivery window of a checkout's booking, for the order it becomes; null without a booking */
+  async getWindowForPendingOrder(pendingOrderId: string): Promise<{ startsAt: string; endsAt: string } | null> {
+    const { data: booking, error } = await this.supabase
+      .from('delivery_slot_bookings')
+      .select('slot_id, slot_date, status, release_reason')
+      .eq('pending_order_id', pendingOrderId)
+      .maybeSingle()
+    if (error || !booking || !booking.slot_id) return null
+    // Released only because the hold ran out: the order still gets its slot, like stock paid after expiry
+    if (booking.status === 'released' && booking.release_reason !== 'expired') return null
+
+    const { data: row } = await this.supabase.from('delivery_slots').select(SLOT_COLUMNS).eq('id', booking.slot_id).maybeSingle()
+    if (!row) return null
+    const times = slotTimes(rowToSlot(row as DeliverySlotRow), booking.slot_date as string)
+    return { startsAt: times.startsAt.toISOString(), endsAt: times.endsAt.toISOString() }
+  }
+
+  /**
+   * Keep the checkout's place for its order. A hold that expired is confirmed anyway because the customer
+   * has paid; that can take a slot over capacity. Returns false when there was nothing to confirm.
+   */
+  async confirmForPendingOrder(pendingOrderId: string, orderId: string): Promise<boolean> {
+    const now = new Date().toISOString()
+    const { data, error } = await this.supabase
+      .from('delivery_slot_bookings')
+      .update({ status: 'confirmed', order_id: orderId, confirmed_at: now, updated_at: now })
+      .eq('pending_order_id', pendingOrderId)
+      .or('status.eq.held,and(status.eq.released,release_reason.eq.expired)')
+      .select('id')
+    if (error) {
+      console.error('Confirm delivery slot error:', error)
+      return false
+    }
+    return (data ?? []).length > 0
+  }
+
+  /** Give a checkout's held place back. Safe to call more than once. */
+  async releaseForPendingOrder(pendingOrderId: string, reason: string): Promise<number> {
+    const now = new Date().toISOString()
+    const { data, error } = await this.supabase
+      .from('delivery_slot_bookings')
+      .update({ status: 'released', release_reason: reason, released_at: now, updated_at: now })
+      .eq('pending_order_id', pendingOrderId)
+      .eq('status', 'held')
+      .select('id')
+    if (error) {
+      console.error('Release delivery slot error:', error)
+      return 0
+    }
+    return (data ?? []).length
+  }
+
+  /** Free a cancelled order's place */
+  async releaseForOrder(orderId: string, reason: string): Promise<number> {
+    const now = new Date().toISOString()
+    const { data, error } = await this.supabase
+      .from('delivery_slot_bookings')
+      .update({ status: 'released', release_reason: reason, released_at: now, updated_at: now })
+      .eq('order_id', orderId)
+      .eq('status', 'confirmed')
+      .select('id')
+    if (error) {
+      console.error('Release order delivery slot error:', error)
+      return 0
+    }
+    return (data ?? []).length
+  }
+
+  /** Release every held place whose hold has expired */
+  async releaseExpired(): Promise<number> {
+    const now = new Date().toISOString()
+    const { data, error } = await this.supabase
+      .from('delivery_slot_bookings')
+      .update({ status: 'released', release_reason: 'expired', released_at: now, updated_at: now })
+      .eq('status', 'held')
+      .lte('expires_at', now)
+      .select('id')
+    if (error) {
+      console.error('Release expired delivery slots error:', error)
+      return 0
+    }
+    return (data ?? []).length
+  }
+
+  // ----- Admin: utilisation -----
+
+  /**
+   * Bookings against capacity per date and slot (YYYY-MM-DD, both included; at most 62 days).
+   * Defaults to today and the next 6 days. Inactive slots are listed only on dates they still have bookings.
+   */
+  async getUtilisation(options: { from?: string; to?: string } = {}): Promise<{ success: boolean; data?: DeliverySlotUtilisation; error?: string }> {
+    const from = options.from || todayUtc()
+    const to = options.to || addDays(from, 6)
+    if (!isValidDate(from) || !isValidDate(to)) return { success: false, error: 'Dates must be YYYY-MM-DD' }
+    if (to < from) return { success: false, error: 'The end date must not be before the start date' }
+    if (Date.parse(to) - Date.parse(from) >= MAX_UTILISATION_DAYS * DAY_MS) {
+      return { success: false, error: `Pick at most ${MAX_UTILISATION_DAYS} days` }
+    }
+
+    const [slots, blackouts, bookings] = await Promise.all([
+      this.listSlots({ includeInactive: true }),
+      this.getBlackouts(from, to),
+      this.getBookings(from, to),
+    ])
+    const blackoutReasons = new Map(blackouts.map((b) => [b.date, b.reason ?? 'No deliveries']))
+    const booked = this.countBookings(bookings)
+
+    const rows: DeliverySlotUtilisationRow[] = []
+    for (let date = from; date <= to; date = addDays(date, 1)) {
+      const weekday = weekdayOf(date)
+      for (const slot of slots) {
+        if (slot.weekday !== weekday) continue
+        const taken = booked.get(`${slot.id}:${date}`) ?? { confirmed: 0, held: 0 }
+        if (!slot.active && taken.confirmed + taken.held === 0) continue
+        rows.push({
+          date,
+          slotId: slot.id,
+          label: slot.label,
+          startTime: slot.startTime,
+          endTime: slot.endTime,
+          capacity: slot.capacity,
+          confirmed: taken.confirmed,
+          held: taken.held,
+          remaining: Math.max(0, slot.capacity - taken.confirmed - taken.held),
+          utilisation: slot.capacity > 0 ? (taken.confirmed + taken.held) / slot.capacity : 0,
+          blackout: blackoutReasons.get(date) ?? null,
+        })
+      }
+    }
+
+    // Blacked-out dates offer no capacity
+    const open = rows.filter((row) => !row.blackout)
+    const capacity = open.reduce((sum, row) => sum + row.capacity, 0)
+    const confirmed = rows.reduce((sum, row) => sum + row.confirmed, 0)
+    const held = rows.reduce((sum, row) => sum + row.held, 0)
+    return {
+      success: true,
+      data: { from, to, rows, totals: { capacity, confirmed, held, utilisation: capacity > 0 ? (confirmed + held) / capacity : 0 } },
+    }
+  }
+
+  // ----- Helpers -----
+
+  /** Reasons a customer cannot book the slot, or null. zoneId undefined skips the zone check. */
+  private async checkSelection(selection: DeliverySlotSelection, zoneId: string | null | undefined): Promise<string | null> {
+    if (!isValidDate(selection.date)) return 'Delivery date must be YYYY-MM-DD.'
+    const settings = await this.deliveryService.getSettings()
+    const today = todayUtc()
+    const lastDate = addDays(today, (settings?.slotBookingDays ?? DEFAULT_BOOKING_DAYS) - 1)
+    if (selection.date < today || selection.date > lastDate) return 'That delivery date cannot be booked.'
+
+    const { data: row } = await this.supabase.from('delivery_slots').select(SLOT_COLUMNS).eq('id', selection.slotId).maybeSingle()
+    const slot = row ? rowToSlot(row as DeliverySlotRow) : null
+    if (!slot || !slot.active || slot.weekday !== weekdayOf(selection.date)) return 'That delivery slot is not offered.'
+    if (zoneId !== undefined && slot.zoneId != null && slot.zoneId !== zoneId) return 'That delivery slot is not offered for your address.'
+    if (slotTimes(slot, selection.date).cutoffAt.getTime() <= Date.now()) return 'Booking for that delivery slot has closed.'
+
+    const blackouts = await this.getBlackouts(selection.date, selection.date)
+    if (blackouts.length > 0) return `We are not delivering on ${selection.date}${blackouts[0].reason ? ` (${blackouts[0].reason})` : ''}.`
+    return null
+  }
+
+  private async hold(pendingOrderId: string, selection: DeliverySlotSelection): Promise<{ success: boolean; bookingId?: string; error?: string }> {
+    const { data, error } = await this.supabase.rpc('hold_delivery_slot', {
+      p_pending_order_id: pendingOrderId,
+      p_slot_id: selection.slotId,
+      p_slot_date: selection.date,
+      p_ttl_minutes: SLOT_HOLD_MINUTES,
+    })
+    if (error) {
+      console.error('Hold delivery slot error:', error)
+      return { success: false, error: 'Unable to book the delivery slot. Please try again.' }
+    }
+
+    const result = (data ?? {}) as { ok?: boolean; bookingId?: string; reason?: string }
+    if (!result.ok) {
+      return {
+        success: false,
+        error: result.reason === 'full' ? 'That delivery slot has just filled up. Please choose another time.' : 'That delivery slot is not offered.',
+      }
+    }
+    return { success: true, bookingId: result.bookingId }
+  }
+
+  private async getBlackouts(from: string, to: string | null): Promise<DeliveryBlackout[]> {
+    let query = this.supabase
+      .from('delivery_slot_blackouts')
+      .select('id, blackout_date, reason')
+      .gte('blackout_date', from)
+      .order('blackout_date', { ascending: true })
+    if (to) query = query.lte('blackout_date', to)
+
+    const { data, error } = await query
+    if (error) {
+      console.warn('DeliverySlotService getBlackouts error:', error.message)
+      return []
+    }
+    return (data ?? []).map((row) => ({ id: row.id, date: row.blackout_date, reason: row.reason ?? null }))
+  }
+
+  private async getBookings(from: string, to: string): Promise<SlotBookingRow[]> {
+    const { data, error } = await this.supabase
+      .from('delivery_slot_bookings')
+      .select('slot_id, slot_date, status, expires_at')
+      .gte('slot_date', from)
+      .lte('slot_date', to)
+      .in('status', ['held', 'confirmed'])
+    if (error) {
+      console.warn('DeliverySlotService getBookings error:', error.message)
+      return []
+    }
+    return (data ?? []) as SlotBookingRow[]
+  }
+
+  /** Confirmed and live held bookings per `${slotId}:${date}` */
+  private countBookings(bookings: SlotBookingRow[]): Map<string, { confirmed: number; held: number }> {
+    const now = Date.now()
+    const counts = new Map<string, { confirmed: number; held: number }>()
+    for (const booking of bookings) {
+      if (!booking.slot_id || !countsAgainstCapacity(booking, now)) continue
+      const key = `${booking.slot_id}:${booking.slot_date}`
+      const entry = counts.get(key) ?? { confirmed: 0, held: 0 }
+      if (booking.status === 'confirmed') entry.confirmed += 1
+      else entry.held += 1
+      counts.set(key, entry)
+    }
+    return counts
+  }
+}
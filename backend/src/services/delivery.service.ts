@@ -1,9 +1,10 @@
 import { createAdminClient } from '../config/supabase'
+import { WarehouseService } from './warehouse.service'
 
 const DEFAULT_SETTINGS_ID = 'a0000000-0000-0000-0000-000000000001'
 
 /** Haversine distance in km between two lat/lng points */
-function haversineKm(
+export function haversineKm(
   lat1: number,
   lng1: number,
   lat2: number,
@@ -22,12 +23,311 @@ function haversineKm(
   return R * c
 }
 
+/** Ray casting on lng/lat as x/y; fine at city scale. Points on an edge may fall either side. */
+function pointInPolygon(lat: number, lng: number, polygon: DeliveryZonePoint[]): boolean {
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i]
+    const b = polygon[j]
+    if ((a.lat > lat) !== (b.lat > lat) && lng < ((b.lng - a.lng) * (lat - a.lat)) / (b.lat - a.lat) + a.lng) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+export type DeliveryZoneFeeType = 'flat' | 'per_km' | 'blocked'
+
+export const DELIVERY_ZONE_FEE_TYPES: readonly DeliveryZoneFeeType[] = ['flat', 'per_km', 'blocked']
+
+/** Most vertices one zone may have */
+export const MAX_ZONE_POINTS = 200
+
+export interface DeliveryZonePoint {
+  lat: number
+  lng: number
+}
+
+export interface DeliveryZone {
+  id: string
+  name: string
+  polygon: DeliveryZonePoint[]
+  feeType: DeliveryZoneFeeType
+  /** flat zones only */
+  flatFee: number | null
+  /** per_km zones; null uses the warehouse price per km */
+  pricePerKm: number | null
+  /** GHS subtotal an order needs before it can be delivered here */
+  minOrderValue: number
+  /** Overlapping zones: the lowest sort order wins */
+  sortOrder: number
+  active: boolean
+  updatedAt: string | null
+}
+
+export type DeliveryZoneInput = Omit<DeliveryZone, 'id' | 'updatedAt'>
+
+/** The zone a delivery pin fell in, as returned with a fee */
+export interface DeliveryZoneMatch {
+  id: string
+  name: string
+  feeType: DeliveryZoneFeeType
+  minOrderValue: number
+}
+
+/**
+ * Per-km rate for the distance up to upToKm (null: no upper limit). Bands apply in order like tax brackets:
+ * 0–3 km at one rate, 3–10 km at the next, and so on.
+ */
+export interface DeliveryDistanceBand {
+  upToKm: number | null
+  pricePerKm: number
+}
+
+/** Fixed amount added for orders placed inside the window (Africa/Accra, which is UTC) */
+export interface DeliveryPeakSurcharge {
+  label: string
+  /** 0 = Sunday … 6 = Saturday */
+  days: number[]
+  /** HH:MM, inclusive */
+  startTime: string
+  /** HH:MM, exclusive; after startTime */
+  endTime: string
+  amount: number
+}
+
+export type DeliveryFeeLineCode = 'base' | 'distance' | 'zone_flat' | 'standard' | 'minimum' | 'maximum' | 'peak' | 'free_delivery'
+
+export interface DeliveryFeeLine {
+  code: DeliveryFeeLineCode
+  label: string
+  /** Negative for caps and free delivery */
+  amount: number
+}
+
+/** Itemised delivery fee; stored as orders.delivery_fee_breakdown */
+export interface DeliveryFeeBreakdown {
+  lines: DeliveryFeeLine[]
+  /** Sum of the lines; equals the delivery fee charged */
+  total: number
+  distanceKm: number | null
+  zoneName: string | null
+  /** Basket subtotal for free delivery, so checkout can show how far off it is; null when not offered */
+  freeDeliveryThreshold: number | null
+}
+
+export interface DeliveryFeeResult {
+  deliveryFee: number
+  distanceKm?: number
+  breakdown: DeliveryFeeBreakdown
+  /** Null when no zone contains the pin */
+  zone: DeliveryZoneMatch | null
+  /** False for blocked zones, and outside every zone when restrictToZones is on */
+  deliverable: boolean
+  /** Customer-facing reason when not deliverable */
+  message?: string
+}
+
+interface DeliveryZoneRow {
+  id: string
+  name: string
+  polygon: unknown
+  fee_type: DeliveryZoneFeeType
+  flat_fee: number | null
+  price_per_km: number | null
+  min_order_value: number
+  sort_order: number
+  active: boolean
+  updated_at: string | null
+}
+
+function toPolygon(value: unknown): DeliveryZonePoint[] {
+  if (!Array.isArray(value)) return []
+  return value
+    .map((p) => ({ lat: Number((p as DeliveryZonePoint)?.lat), lng: Number((p as DeliveryZonePoint)?.lng) }))
+    .filter((p) => Number.isFinite(p.lat) && Number.isFinite(p.lng))
+}
+
+function rowToZone(row: DeliveryZoneRow): DeliveryZone {
+  return {
+    id: row.id,
+    name: row.name,
+    polygon: toPolygon(row.polygon),
+    feeType: row.fee_type,
+    flatFee: row.flat_fee != null ? Number(row.flat_fee) : null,
+    pricePerKm: row.price_per_km != null ? Number(row.price_per_km) : null,
+    minOrderValue: Number(row.min_order_value) || 0,
+    sortOrder: Number(row.sort_order) || 0,
+    active: row.active !== false,
+    updatedAt: row.updated_at ?? null,
+  }
+}
+
+/** First zone (in match order) containing the point, or null */
+function matchZone(zones: DeliveryZone[], lat: number, lng: number): DeliveryZone | null {
+  return zones.find((z) => z.polygon.length >= 3 && pointInPolygon(lat, lng, z.polygon)) ?? null
+}
+
+/** Returns an error message, or null when the zone can be saved */
+function validateZone(zone: DeliveryZoneInput): string | null {
+  if (!zone.name.trim()) return 'Zone name is required'
+  if (zone.polygon.length < 3) return 'A zone needs at least 3 points'
+  if (zone.polygon.length > MAX_ZONE_POINTS) return `A zone can have at most ${MAX_ZONE_POINTS} points`
+  if (zone.polygon.some((p) => !Number.isFinite(p.lat) || !Number.isFinite(p.lng) || Math.abs(p.lat) > 90 || Math.abs(p.lng) > 180)) {
+    return 'Zone points must be valid coordinates'
+  }
+  if (!DELIVERY_ZONE_FEE_TYPES.includes(zone.feeType)) return `Fee type must be one of: ${DELIVERY_ZONE_FEE_TYPES.join(', ')}`
+  if (zone.feeType === 'flat' && (zone.flatFee == null || zone.flatFee < 0)) return 'Flat zones need a fee of 0 or more'
+  if (zone.pricePerKm != null && zone.pricePerKm < 0) return 'Price per km cannot be negative'
+  if (zone.minOrderValue < 0) return 'Minimum order value cannot be negative'
+  return null
+}
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+/** Breakdown for a fee that is charged as is, e.g. a fee kept from an existing order */
+export function fixedFeeBreakdown(fee: number, label = 'Delivery'): DeliveryFeeBreakdown {
+  const amount = roundMoney(Math.max(0, fee))
+  return {
+    lines: [{ code: 'standard', label, amount }],
+    total: amount,
+    distanceKm: null,
+    zoneName: null,
+    freeDeliveryThreshold: null,
+  }
+}
+
+/** Distance charge through the bands; distance past the last band uses fallbackRate */
+function bandedDistanceCharge(distanceKm: number, bands: DeliveryDistanceBand[], fallbackRate: number): number {
+  let charge = 0
+  let from = 0
+  for (const band of bands) {
+    const to = band.upToKm ?? Infinity
+    if (distanceKm > from) charge += (Math.min(distanceKm, to) - from) * band.pricePerKm
+    from = to
+  }
+  if (distanceKm > from) charge += (distanceKm - from) * fallbackRate
+  return charge
+}
+
+function minutesOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+/** Surcharges whose window contains `at` (UTC, which is Ghana time) */
+function activeSurcharges(surcharges: DeliveryPeakSurcharge[], at: Date): DeliveryPeakSurcharge[] {
+  const day = at.getUTCDay()
+  const minute = at.getUTCHours() * 60 + at.getUTCMinutes()
+  return surcharges.filter(
+    (s) => s.days.includes(day) && minute >= minutesOfDay(s.startTime) && minute < minutesOfDay(s.endTime)
+  )
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+
+/** Returns an error message, or null when the pricing settings can be saved */
+function validatePricing(params: {
+  baseFee?: number
+  distanceBands?: DeliveryDistanceBand[]
+  minFee?: number | null
+  maxFee?: number | null
+  freeDeliveryThreshold?: number | null
+  peakSurcharges?: DeliveryPeakSurcharge[]
+}): string | null {
+  const negative = (n: number | null | undefined) => n != null && (!Number.isFinite(n) || n < 0)
+  if (negative(params.baseFee)) return 'Base fee cannot be negative'
+  if (negative(params.minFee)) return 'Minimum fee cannot be negative'
+  if (negative(params.maxFee)) return 'Maximum fee cannot be negative'
+  if (params.minFee != null && params.maxFee != null && params.minFee > params.maxFee) {
+    return 'Minimum fee cannot be more than the maximum fee'
+  }
+  if (negative(params.freeDeliveryThreshold)) return 'Free delivery threshold cannot be negative'
+
+  const bands = params.distanceBands ?? []
+  for (let i = 0; i < bands.length; i++) {
+    const band = bands[i]
+    if (negative(band.pricePerKm)) return 'Band prices per km cannot be negative'
+    if (band.upToKm == null) {
+      if (i !== bands.length - 1) return 'Only the last distance band can have no upper limit'
+    } else if (!Number.isFinite(band.upToKm) || band.upToKm <= (i > 0 ? bands[i - 1].upToKm ?? Infinity : 0)) {
+      return 'Distance bands must end at increasing distances above 0 km'
+    }
+  }
+
+  for (const surcharge of params.peakSurcharges ?? []) {
+    if (!surcharge.label?.trim()) return 'Every peak surcharge needs a label'
+    if (!surcharge.days.length || surcharge.days.some((d) => !Number.isInteger(d) || d < 0 || d > 6)) {
+      return `${surcharge.label}: pick at least one day`
+    }
+    if (!TIME_PATTERN.test(surcharge.startTime) || !TIME_PATTERN.test(surcharge.endTime)) {
+      return `${surcharge.label}: times must be HH:MM`
+    }
+    if (minutesOfDay(surcharge.startTime) >= minutesOfDay(surcharge.endTime)) {
+      return `${surcharge.label}: end time must be after start time`
+    }
+    if (negative(surcharge.amount)) return `${surcharge.label}: amount cannot be negative`
+  }
+  return null
+}
+
+function toBands(value: unknown): DeliveryDistanceBand[] {
+  if (!Array.isArray(value)) return []
+  return value.map((b) => ({
+    upToKm: b?.upToKm != null ? Number(b.upToKm) : null,
+    pricePerKm: Number(b?.pricePerKm) || 0,
+  }))
+}
+
+function toSurcharges(value: unknown): DeliveryPeakSurcharge[] {
+  if (!Array.isArray(value)) return []
+  return value.map((s) => ({
+    label: String(s?.label ?? ''),
+    days: Array.isArray(s?.days) ? s.days.map(Number) : [],
+    startTime: String(s?.startTime ?? ''),
+    endTime: String(s?.endTime ?? ''),
+    amount: Number(s?.amount) || 0,
+  }))
+}
+
+function zoneToRow(zone: DeliveryZoneInput): Record<string, unknown> {
+  return {
+    name: zone.name.trim(),
+    polygon: zone.polygon.map((p) => ({ lat: p.lat, lng: p.lng })),
+    fee_type: zone.feeType,
+    flat_fee: zone.feeType === 'flat' ? zone.flatFee : null,
+    price_per_km: zone.feeType === 'per_km' ? zone.pricePerKm : null,
+    min_order_value: zone.minOrderValue,
+    sort_order: zone.sortOrder,
+    active: zone.active,
+  }
+}
+
 export interface DeliverySettings {
   warehouseLat: number | null
   warehouseLng: number | null
   warehouseAddress: string | null
+  /** Distance past the last band, or all distance when there are no bands */
   pricePerKm: number
+  /** @deprecated Never used for pricing; kept so older clients can still save settings */
   pricePerMeter: number | null
+  /** Pins outside every active zone cannot be delivered to (see supabase-delivery-zones.sql) */
+  restrictToZones: boolean
+  /** Added to every distance-priced fee */
+  baseFee: number
+  distanceBands: DeliveryDistanceBand[]
+  /** Caps on base fee + distance; null for no cap */
+  minFee: number | null
+  maxFee: number | null
+  /** Basket subtotal at or above which delivery is free; null to never waive it */
+  freeDeliveryThreshold: number | null
+  peakSurcharges: DeliveryPeakSurcharge[]
+  /** Customers must pick a delivery slot at checkout (see supabase-delivery-slots.sql) */
+  requireDeliverySlot: boolean
+  /** How many days ahead, today included, slots can be booked */
+  slotBookingDays: number
   updatedAt: string | null
 }
 
@@ -37,6 +337,15 @@ export interface DeliverySettingsRow {
   warehouse_address: string | null
   price_per_km: number
   price_per_meter: number | null
+  restrict_to_zones?: boolean | null
+  base_fee?: number | null
+  distance_bands?: unknown
+  min_fee?: number | null
+  max_fee?: number | null
+  free_delivery_threshold?: number | null
+  peak_surcharges?: unknown
+  require_delivery_slot?: boolean | null
+  slot_booking_days?: number | null
   updated_at: string | null
 }
 
@@ -48,17 +357,28 @@ function rowToSettings(row: DeliverySettingsRow | null): DeliverySettings | null
     warehouseAddress: row.warehouse_address ?? null,
     pricePerKm: Number(row.price_per_km) || 0,
     pricePerMeter: row.price_per_meter != null ? Number(row.price_per_meter) : null,
+    restrictToZones: row.restrict_to_zones === true,
+    baseFee: Number(row.base_fee) || 0,
+    distanceBands: toBands(row.distance_bands),
+    minFee: row.min_fee != null ? Number(row.min_fee) : null,
+    maxFee: row.max_fee != null ? Number(row.max_fee) : null,
+    freeDeliveryThreshold: row.free_delivery_threshold != null ? Number(row.free_delivery_threshold) : null,
+    peakSurcharges: toSurcharges(row.peak_surcharges),
+    requireDeliverySlot: row.require_delivery_slot === true,
+    slotBookingDays: Number(row.slot_booking_days) || 7,
     updatedAt: row.updated_at ?? null,
   }
 }
 
 export class DeliveryService {
   private supabase = createAdminClient()
+  private warehouseService = new WarehouseService()
 
   async getSettings(): Promise<DeliverySettings | null> {
     const { data, error } = await this.supabase
       .from('delivery_settings')
-      .select('warehouse_lat, warehouse_lng, warehouse_address, price_per_km, price_per_meter, updated_at')
+      // * so columns from later migrations (zones, tiered pricing) are optional until they have been run
+      .select('*')
       .eq('id', DEFAULT_SETTINGS_ID)
       .maybeSingle()
 
@@ -75,7 +395,19 @@ export class DeliveryService {
     warehouseAddress?: string | null
     pricePerKm?: number
     pricePerMeter?: number | null
+    restrictToZones?: boolean
+    baseFee?: number
+    distanceBands?: DeliveryDistanceBand[]
+    minFee?: number | null
+    maxFee?: number | null
+    freeDeliveryThreshold?: number | null
+    peakSurcharges?: DeliveryPeakSurcharge[]
+    requireDeliverySlot?: boolean
+    slotBookingDays?: number
   }): Promise<{ success: boolean; error?: string }> {
+    const invalid = validatePricing(params)
+    if (invalid) return { success: false, error: invalid }
+
     const updates: Record<string, unknown> = {
       updated_at: new Date().toISOString(),
     }
@@ -84,6 +416,15 @@ export class DeliveryService {
     if (params.warehouseAddress !== undefined) updates.warehouse_address = params.warehouseAddress
     if (params.pricePerKm !== undefined) updates.price_per_km = params.pricePerKm
     if (params.pricePerMeter !== undefined) updates.price_per_meter = params.pricePerMeter
+    if (params.restrictToZones !== undefined) updates.restrict_to_zones = params.restrictToZones
+    if (params.baseFee !== undefined) updates.base_fee = params.baseFee
+    if (params.distanceBands !== undefined) updates.distance_bands = params.distanceBands
+    if (params.minFee !== undefined) updates.min_fee = params.minFee
+    if (params.maxFee !== undefined) updates.max_fee = params.maxFee
+    if (params.freeDeliveryThreshold !== undefined) updates.free_delivery_threshold = params.freeDeliveryThreshold
+    if (params.peakSurcharges !== undefined) updates.peak_surcharges = params.peakSurcharges
+    if (params.requireDeliverySlot !== undefined) updates.require_delivery_slot = params.requireDeliverySlot
+    if (params.slotBookingDays !== undefined) updates.slot_booking_days = params.slotBookingDays
 
     const { error } = await this.supabase
       .from('delivery_settings')
@@ -97,26 +438,182 @@ export class DeliveryService {
     return { success: true }
   }
 
+  /** Delivery zones in match order; inactive ones only when asked for. Empty if the table does not exist yet. */
+  async listZones(options: { includeInactive?: boolean } = {}): Promise<DeliveryZone[]> {
+    let query = this.supabase
+      .from('delivery_zones')
+      .select('id, name, polygon, fee_type, flat_fee, price_per_km, min_order_value, sort_order, active, updated_at')
+      .order('sort_order', { ascending: true })
+      .order('created_at', { ascending: true })
+    if (!options.includeInactive) query = query.eq('active', true)
+
+    const { data, error } = await query
+    if (error) {
+      console.warn('DeliveryService listZones error:', error.message)
+      return []
+    }
+    return (data as DeliveryZoneRow[]).map(rowToZone)
+  }
+
+  async createZone(zone: DeliveryZoneInput, adminId?: string): Promise<{ success: boolean; data?: DeliveryZone; error?: string }> {
+    const invalid = validateZone(zone)
+    if (invalid) return { success: false, error: invalid }
+
+    const { data, error } = await this.supabase
+      .from('delivery_zones')
+      .insert({ ...zoneToRow(zone), updated_by: adminId ?? null })
+      .select('id, name, polygon, fee_type, flat_fee, price_per_km, min_order_value, sort_order, active, updated_at')
+      .single()
+
+    if (error) {
+      console.warn('DeliveryService createZone error:', error.message)
+      return { success: false, error: error.message }
+    }
+    return { success: true, data: rowToZone(data as DeliveryZoneRow) }
+  }
+
+  async updateZone(
+    id: string,
+    zone: DeliveryZoneInput,
+    adminId?: string
+  ): Promise<{ success: boolean; data?: DeliveryZone; error?: string }> {
+    const invalid = validateZone(zone)
+    if (invalid) return { success: false, error: invalid }
+
+    const { data, error } = await this.supabase
+      .from('delivery_zones')
+      .update({ ...zoneToRow(zone), updated_at: new Date().toISOString(), updated_by: adminId ?? null })
+      .eq('id', id)
+      .select('id, name, polygon, fee_type, flat_fee, price_per_km, min_order_value, sort_order, active, updated_at')
+      .maybeSingle()
+
+    if (error) {
+      console.warn('DeliveryService updateZone error:', error.message)
+      return { success: false, error: error.message }
+    }
+    if (!data) return { success: false, error: 'Zone not found' }
+    return { success: true, data: rowToZone(data as DeliveryZoneRow) }
+  }
+
+  /** Orders priced with the zone keep their fee; their delivery_zone_id is cleared */
+  async deleteZone(id: string): Promise<{ success: boolean; error?: string }> {
+    const { data, error } = await this.supabase.from('delivery_zones').delete().eq('id', id).select('id')
+    if (error) {
+      console.warn('DeliveryService deleteZone error:', error.message)
+      return { success: false, error: error.message }
+    }
+    if (!data || data.length === 0) return { success: false, error: 'Zone not found' }
+    return { success: true }
+  }
+
   /** Default delivery fee (GHS) when warehouse location is not set in admin. */
   static readonly DEFAULT_DELIVERY_FEE = 20
 
   /**
-   * Calculate delivery fee (GHS) from customer lat/lng using warehouse location and price_per_km.
-   * When warehouse is not set, returns DEFAULT_DELIVERY_FEE (20 GHS).
+   * Delivery fee (GHS) for a delivery pin, itemised. The first active zone containing the pin sets the rule:
+   * flat fee, per km, or blocked. Outside every zone the warehouse pricing applies, unless restrictToZones is on.
+   *
+   * Distance pricing is base fee + distance through the bands (or the zone's own per-km rate), then the
+   * minimum and maximum caps. Zone flat fees are not capped. Peak surcharges are added on top, and the
+   * whole fee is waived when `subtotal` reaches the free delivery threshold.
+   *
+   * Without a pin, or without a warehouse location for distance pricing, the distance part is
+   * DEFAULT_DELIVERY_FEE (20 GHS). A `fallbackFee` without a pin is charged as is: it is an order's existing fee.
+   *
+   * Distance is measured from `origin` (the warehouse fulfilling the order). When it is left out, the nearest
+   * warehouse delivering to the pin is used, and a pin no warehouse delivers to is not deliverable. Before any
+   * warehouse is set up (or with origin null), the warehouse location in Delivery Settings applies.
    */
-  async calculateFee(customerLat: number, customerLng: number): Promise<{ deliveryFee: number; distanceKm?: number }> {
-    const settings = await this.getSettings()
-    if (!settings || settings.warehouseLat == null || settings.warehouseLng == null) {
-      return { deliveryFee: DeliveryService.DEFAULT_DELIVERY_FEE }
-    }
-    const distanceKm = haversineKm(
-      settings.warehouseLat,
-      settings.warehouseLng,
-      customerLat,
-      customerLng
-    )
-    const pricePerKm = Math.max(0, Number(settings.pricePerKm) || 0)
-    const deliveryFee = Math.round(distanceKm * pricePerKm * 100) / 100
-    return { deliveryFee, distanceKm }
+  async calculateFee(
+    customerLat: number | null,
+    customerLng: number | null,
+    options: { subtotal?: number; at?: Date; fallbackFee?: number; origin?: { lat: number; lng: number } | null } = {}
+  ): Promise<DeliveryFeeResult> {
+    const hasPin = customerLat != null && customerLng != null
+    if (!hasPin && options.fallbackFee != null) {
+      const breakdown = fixedFeeBreakdown(options.fallbackFee)
+      return { deliveryFee: breakdown.total, breakdown, zone: null, deliverable: true }
+    }
+
+    const [settings, zones, resolved] = await Promise.all([
+      this.getSettings(),
+      hasPin ? this.listZones() : Promise.resolve([]),
+      hasPin && options.origin === undefined
+        ? this.warehouseService.resolveOrigin(customerLat, customerLng, options.at)
+        : Promise.resolve(null),
+    ])
+    const zone = hasPin ? matchZone(zones, customerLat, customerLng) : null
+    let origin: { lat: number; lng: number } | null = options.origin ?? null
+    if (resolved?.configured) origin = resolved.warehouse
+    else if (!origin && settings?.warehouseLat != null && settings.warehouseLng != null) {
+      origin = { lat: settings.warehouseLat, lng: settings.warehouseLng }
+    }
+    const distanceKm = hasPin && origin
+      ? haversineKm(origin.lat, origin.lng, customerLat as number, customerLng as number)
+      : undefined
+    const match: DeliveryZoneMatch | null = zone
+      ? { id: zone.id, name: zone.name, feeType: zone.feeType, minOrderValue: zone.minOrderValue }
+      : null
+    const notDeliverable = (message: string): DeliveryFeeResult => ({
+      deliveryFee: 0,
+      distanceKm,
+      breakdown: { lines: [], total: 0, distanceKm: distanceKm ?? null, zoneName: zone?.name ?? null, freeDeliveryThreshold: null },
+      zone: match,
+      deliverable: false,
+      message,
+    })
+
+    if (zone?.feeType === 'blocked') return notDeliverable(`Sorry, we do not deliver to ${zone.name} yet.`)
+    if (!zone && settings?.restrictToZones && zones.length > 0) {
+      return notDeliverable('Sorry, this address is outside our delivery area.')
+    }
+    if (resolved?.configured && !resolved.warehouse) {
+      return notDeliverable('Sorry, this address is outside our delivery area.')
+    }
+
+    const lines: DeliveryFeeLine[] = []
+    const addLine = (code: DeliveryFeeLineCode, label: string, amount: number) => {
+      lines.push({ code, label, amount: roundMoney(amount) })
+    }
+    const sumLines = () => roundMoney(lines.reduce((sum, line) => sum + line.amount, 0))
+
+    if (zone?.feeType === 'flat') {
+      addLine('zone_flat', `${zone.name} delivery`, Math.max(0, zone.flatFee ?? 0))
+    } else if (distanceKm == null) {
+      addLine('standard', 'Standard delivery', DeliveryService.DEFAULT_DELIVERY_FEE)
+    } else {
+      const globalRate = Math.max(0, Number(settings?.pricePerKm) || 0)
+      if (settings && settings.baseFee > 0) addLine('base', 'Base fee', settings.baseFee)
+      const distanceCharge = zone?.pricePerKm != null
+        ? distanceKm * Math.max(0, zone.pricePerKm)
+        : bandedDistanceCharge(distanceKm, settings?.distanceBands ?? [], globalRate)
+      addLine('distance', `Distance (${distanceKm.toFixed(1)} km)`, distanceCharge)
+
+      const beforeCaps = sumLines()
+      if (settings?.minFee != null && beforeCaps < settings.minFee) {
+        addLine('minimum', 'Minimum delivery fee', settings.minFee - beforeCaps)
+      } else if (settings?.maxFee != null && beforeCaps > settings.maxFee) {
+        addLine('maximum', 'Maximum delivery fee', settings.maxFee - beforeCaps)
+      }
+    }
+
+    for (const surcharge of activeSurcharges(settings?.peakSurcharges ?? [], options.at ?? new Date())) {
+      if (surcharge.amount > 0) addLine('peak', surcharge.label, surcharge.amount)
+    }
+
+    const threshold = settings?.freeDeliveryThreshold ?? null
+    const beforeFreeDelivery = sumLines()
+    if (threshold != null && options.subtotal != null && options.subtotal >= threshold && beforeFreeDelivery > 0) {
+      addLine('free_delivery', `Free delivery on orders from GHS ${threshold.toFixed(2)}`, -beforeFreeDelivery)
+    }
+
+    const deliveryFee = Math.max(0, sumLines())
+    return {
+      deliveryFee,
+      distanceKm,
+      breakdown: { lines, total: deliveryFee, distanceKm: distanceKm ?? null, zoneName: zone?.name ?? null, freeDeliveryThreshold: threshold },
+      zone: match,
+      deliverable: true,
+    }
   }
 }
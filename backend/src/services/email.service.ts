@@ -6,9 +6,15 @@ import {
   invoiceText,
   orderConfirmationHtml,
   orderConfirmationText,
+  orderStatusHtml,
+  orderStatusText,
   scheduledReminderHtml,
   contactToAdminHtml,
   contactConfirmationHtml,
+  adminAlertHtml,
+  adminAlertText,
+  checkoutRecoveryHtml,
+  checkoutRecoveryText,
 } from '../templates/email'
 
 /**
@@ -325,7 +331,7 @@ export class EmailService {
 
   /**
    * Send order confirmation email after successful payment (Resend).
-   * Includes invoice link and delivery code for the rider.
+   * Includes invoice link, delivery code for the rider and the order tracking link.
    */
   async sendOrderConfirmationEmail(
     to: string,
@@ -334,6 +340,7 @@ export class EmailService {
       orderNumber: string
       invoicePdfUrl: string
       deliveryCode?: string
+      trackingUrl?: string
       fromEmail?: string
     }
   ): Promise<{ success: boolean; message: string; errors?: string[] }> {
@@ -344,7 +351,7 @@ export class EmailService {
     }
     const fromEmail = getResendFromEmail(options.fromEmail)
     const displayName = (options.customerName || 'Customer').trim()
-    const { orderNumber, invoicePdfUrl, deliveryCode } = options
+    const { orderNumber, invoicePdfUrl, deliveryCode, trackingUrl } = options
     try {
       const emailResponse = await fetch('https://api.resend.com/emails', {
         method: 'POST',
@@ -353,8 +360,8 @@ export class EmailService {
           from: fromEmail,
           to,
           subject: `Order confirmed – ${orderNumber}`,
-          html: orderConfirmationHtml({ displayName, orderNumber, invoicePdfUrl, deliveryCode }),
-          text: orderConfirmationText({ displayName, orderNumber, invoicePdfUrl, deliveryCode }),
+          html: orderConfirmationHtml({ displayName, orderNumber, invoicePdfUrl, deliveryCode, trackingUrl }),
+          text: orderConfirmationText({ displayName, orderNumber, invoicePdfUrl, deliveryCode, trackingUrl }),
         }),
       })
       if (!emailResponse.ok) {
@@ -371,6 +378,95 @@ export class EmailService {
     }
   }
 
+  /**
+   * Send order status update (shipped, delivered, cancelled, refunded) to the customer (Resend).
+   */
+  async sendOrderStatusEmail(
+    to: string,
+    options: {
+      customerName: string
+      orderNumber: string
+      statusLabel: string
+      message: string
+      deliveryCode?: string
+      fromEmail?: string
+    }
+  ): Promise<{ success: boolean; message: string; errors?: string[] }> {
+    const resendApiKey = process.env.RESEND_API_KEY
+    if (!resendApiKey) {
+      console.warn('RESEND_API_KEY not set. Skipping order status email.')
+      return { success: false, message: 'Email service not configured', errors: ['RESEND_API_KEY not set'] }
+    }
+    const fromEmail = getResendFromEmail(options.fromEmail)
+    const displayName = (options.customerName || 'Customer').trim()
+    const { orderNumber, statusLabel, message, deliveryCode } = options
+    try {
+      const emailResponse = await fetch('https://api.resend.com/emails', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${resendApiKey}` },
+        body: JSON.stringify({
+          from: fromEmail,
+          to,
+          subject: `Order ${orderNumber} – ${statusLabel}`,
+          html: orderStatusHtml({ displayName, orderNumber, statusLabel, message, deliveryCode }),
+          text: orderStatusText({ displayName, orderNumber, statusLabel, message, deliveryCode }),
+        }),
+      })
+      if (!emailResponse.ok) {
+        const errorData = await emailResponse.json().catch(() => ({}))
+        console.error('Resend order status email error:', errorData)
+        return { success: false, message: 'Failed to send email', errors: [errorData.message || `Resend ${emailResponse.status}`] }
+      }
+      return { success: true, message: 'Order status email sent successfully' }
+    } catch (error) {
+      console.error('Send order status email error:', error)
+      return { success: false, message: 'Internal server error', errors: [error instanceof Error ? error.message : 'Failed to send email'] }
+    }
+  }
+
+  /**
+   * Remind a customer of an unpaid online checkout, with a link that restarts the payment (Resend).
+   */
+  async sendCheckoutRecoveryEmail(
+    to: string,
+    options: {
+      customerName: string
+      items: Array<{ name: string; quantity: number }>
+      totalAmount: number
+      resumeUrl: string
+      isLastReminder: boolean
+    }
+  ): Promise<{ success: boolean; message: string; errors?: string[] }> {
+    const resendApiKey = process.env.RESEND_API_KEY
+    if (!resendApiKey) {
+      console.warn('RESEND_API_KEY not set. Skipping checkout recovery email.')
+      return { success: false, message: 'Email service not configured', errors: ['RESEND_API_KEY not set'] }
+    }
+    const params = { ...options, displayName: (options.customerName || 'Customer').trim() }
+    try {
+      const emailResponse = await fetch('https://api.resend.com/emails', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${resendApiKey}` },
+        body: JSON.stringify({
+          from: getResendFromEmail(),
+          to,
+          subject: options.isLastReminder ? 'Last chance: your Grovio basket is about to expire' : 'You left something in your Grovio basket',
+          html: checkoutRecoveryHtml(params),
+          text: checkoutRecoveryText(params),
+        }),
+      })
+      if (!emailResponse.ok) {
+        const errorData = await emailResponse.json().catch(() => ({}))
+        console.error('Resend checkout recovery email error:', errorData)
+        return { success: false, message: 'Failed to send email', errors: [errorData.message || `Resend ${emailResponse.status}`] }
+      }
+      return { success: true, message: 'Checkout recovery email sent successfully' }
+    } catch (error) {
+      console.error('Send checkout recovery email error:', error)
+      return { success: false, message: 'Internal server error', errors: [error instanceof Error ? error.message : 'Failed to send email'] }
+    }
+  }
+
   /**
    * Send scheduled order reminder (1 day before). Uses Resend when RESEND_API_KEY is set.
    */
@@ -471,6 +567,45 @@ export class EmailService {
     }
   }
 
+  /**
+   * Send an operational alert to the admin inbox (ADMIN_ALERT_EMAIL, falling back to CONTACT_EMAIL).
+   */
+  async sendAdminAlert(options: {
+    subject: string
+    title: string
+    intro: string
+    lines: string[]
+  }): Promise<{ success: boolean; message: string; errors?: string[] }> {
+    const resendApiKey = process.env.RESEND_API_KEY
+    const to = process.env.ADMIN_ALERT_EMAIL || process.env.CONTACT_EMAIL
+    if (!resendApiKey || !to) {
+      console.warn('RESEND_API_KEY or ADMIN_ALERT_EMAIL not set. Admin alert not sent.', options.subject)
+      return { success: false, message: 'Email not configured', errors: ['RESEND_API_KEY or ADMIN_ALERT_EMAIL not set'] }
+    }
+    try {
+      const { title, intro, lines } = options
+      const res = await fetch('https://api.resend.com/emails', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${resendApiKey}` },
+        body: JSON.stringify({
+          from: getResendFromEmail(),
+          to,
+          subject: options.subject,
+          html: adminAlertHtml({ title, intro, lines }),
+          text: adminAlertText({ title, intro, lines }),
+        }),
+      })
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}))
+        return { success: false, message: 'Failed to send', errors: [(err as { message?: string }).message || `Resend ${res.status}`] }
+      }
+      return { success: true, message: 'Admin alert sent' }
+    } catch (error) {
+      console.error('Send admin alert error:', error)
+      return { success: false, message: 'Internal server error', errors: [error instanceof Error ? error.message : 'Failed to send'] }
+    }
+  }
+
   /**
    * Send auto-reply to user: we received your message and will get back to you. Same style as invoice/scheduled.
    */
@@ -0,0 +1,268 @@
+import crypto from 'crypto'
+import {
+  PaymentProvider,
+  PaymentInitializeParams,
+  PaymentInitializeResult,
+  PaymentVerification,
+  PaymentListParams,
+  PaymentListResult,
+  PaymentRefundParams,
+  PaymentRefundResult,
+  PaymentWebhookEvent,
+  toMinorUnits,
+  generatePaymentReference,
+} from './payment-provider.service'
+
+/**
+ * Fake Payment Service
+ * Deterministic in-process PaymentProvider for development (PAYMENT_PROVIDER=fake). No network:
+ * the authorization URL sends the customer straight back to the callback, and charge/refund
+ * webhooks are delivered in-process through WebhookEventService, so the whole
+ * createPendingOrder -> webhook -> order flow runs offline.
+ *
+ * Outcomes:
+ * - Charges succeed, unless the customer email contains "+fail" (charge.failed) or "+abandon"
+ *   (no webhook, verify reports abandoned). FAKE_PAYMENT_OUTCOME=failed|abandoned changes the default.
+ * - Refunds settle as refund.processed (FAKE_PAYMENT_REFUND_OUTCOME=failed for refund.failed).
+ *
+ * State lives in memory; transactions from before a restart are unknown to verify.
+ */
+
+type FakeChargeStatus = 'success' | 'failed' | 'abandoned'
+
+interface FakeCharge {
+  reference: string
+  status: FakeChargeStatus
+  amount: number
+  currency: string
+  fees: number
+  email: string
+  metadata: Record<string, unknown>
+  paidAt: string | null
+  createdAt: string
+  refunded: number
+}
+
+interface FakeRefund {
+  id: string
+  reference: string
+  amount: number
+  currency: string
+  status: 'pending' | 'processed' | 'failed'
+  merchantNote: string | null
+  customerNote: string | null
+}
+
+const FAKE_FEE_RATE = 0.0195
+
+const charges = new Map<string, FakeCharge>()
+const refunds = new Map<string, FakeRefund>()
+
+function chargeOutcome(email: string): FakeChargeStatus {
+  const lower = email.toLowerCase()
+  if (lower.includes('+fail')) return 'failed'
+  if (lower.includes('+abandon')) return 'abandoned'
+  const configured = process.env.FAKE_PAYMENT_OUTCOME
+  return configured === 'failed' || configured === 'abandoned' ? configured : 'success'
+}
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+export class FakePaymentService implements PaymentProvider {
+  readonly name = 'fake' as const
+  readonly signatureHeader = 'x-fake-signature'
+
+  private secret = process.env.FAKE_PAYMENT_SECRET || ''
+  private webhookDelayMs = parseInt(process.env.FAKE_PAYMENT_WEBHOOK_DELAY_MS || '500', 10) || 0
+
+  generateReference(prefix: string = 'PAY'): string {
+    return generatePaymentReference(`${prefix}-FAKE`)
+  }
+
+  async initializeTransaction(params: PaymentInitializeParams): Promise<PaymentInitializeResult> {
+    const status = chargeOutcome(params.email)
+    const now = new Date().toISOString()
+    const charge: FakeCharge = {
+      reference: params.reference,
+      status,
+      amount: roundMoney(params.amount),
+      currency: params.currency || 'GHS',
+      fees: status === 'success' ? roundMoney(params.amount * FAKE_FEE_RATE) : 0,
+      email: params.email,
+      metadata: params.metadata ?? {},
+      paidAt: status === 'success' ? now : null,
+      createdAt: now,
+      refunded: 0,
+    }
+    charges.set(charge.reference, charge)
+
+    if (status !== 'abandoned') {
+      this.scheduleWebhook(status === 'success' ? 'charge.success' : 'charge.failed', this.chargePayload(charge))
+    }
+
+    // Paystack redirects to the callback with ?reference=&trxref=; the fake "pays" instantly
+    const callback = params.callbackUrl || `${process.env.FRONTEND_URL || ''}/payment/callback`
+    const separator = callback.includes('?') ? '&' : '?'
+    const query = `reference=${encodeURIComponent(charge.reference)}&trxref=${encodeURIComponent(charge.reference)}`
+    return {
+      authorizationUrl: `${callback}${separator}${query}`,
+      accessCode: `fake_${charge.reference}`,
+      reference: charge.reference,
+    }
+  }
+
+  async verifyTransaction(reference: string): Promise<PaymentVerification> {
+    const charge = charges.get(reference)
+    if (!charge) {
+      throw new Error('Transaction reference not found')
+    }
+    return {
+      providerTransactionId: charge.reference,
+      reference: charge.reference,
+      status: charge.status,
+      amount: charge.amount,
+      currency: charge.currency,
+      fees: charge.fees,
+      channel: 'card',
+      cardType: 'visa',
+      bank: 'Fake Bank',
+      paidAt: charge.paidAt,
+      customerEmail: charge.email,
+      payerName: null,
+      raw: this.chargePayload(charge),
+    }
+  }
+
+  async listTransactions(params: PaymentListParams = {}): Promise<PaymentListResult> {
+    const perPage = params.perPage ?? 50
+    const page = params.page ?? 1
+    const matching = [...charges.values()]
+      .filter((c) => !params.status || c.status === params.status)
+      .filter((c) => !params.from || c.createdAt >= params.from)
+      .filter((c) => !params.to || c.createdAt <= params.to)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+
+    return {
+      data: matching.slice((page - 1) * perPage, page * perPage).map((c) => ({
+        reference: c.reference,
+        status: c.status,
+        amount: c.amount,
+        currency: c.currency,
+        paidAt: c.paidAt,
+        customerEmail: c.email,
+        raw: this.chargePayload(c),
+      })),
+      pageCount: Math.max(1, Math.ceil(matching.length / perPage)),
+    }
+  }
+
+  async createRefund(params: PaymentRefundParams): Promise<PaymentRefundResult> {
+    const charge = charges.get(params.reference)
+    if (!charge || charge.status !== 'success') {
+      throw new Error('Transaction not found or not successful')
+    }
+
+    const amount = roundMoney(params.amount ?? charge.amount - charge.refunded)
+    if (!(amount > 0) || amount > roundMoney(charge.amount - charge.refunded)) {
+      throw new Error('Refund amount exceeds the refundable balance')
+    }
+    charge.refunded = roundMoney(charge.refunded + amount)
+
+    const refund: FakeRefund = {
+      id: `FAKE-RFND-${charge.reference}-${refunds.size + 1}`,
+      reference: charge.reference,
+      amount,
+      currency: params.currency || charge.currency,
+      status: 'pending',
+      merchantNote: params.merchantNote ?? null,
+      customerNote: params.customerNote ?? null,
+    }
+    refunds.set(refund.id, refund)
+
+    const outcome = process.env.FAKE_PAYMENT_REFUND_OUTCOME === 'failed' ? 'failed' : 'processed'
+    setTimeout(() => {
+      refund.status = outcome
+      if (outcome === 'failed') {
+        charge.refunded = roundMoney(charge.refunded - amount)
+      }
+      this.deliverWebhook(`refund.${outcome}`, this.refundPayload(refund))
+    }, this.webhookDelayMs)
+
+    return {
+      providerRefundId: refund.id,
+      status: refund.status,
+      raw: this.refundPayload(refund),
+    }
+  }
+
+  /**
+   * Fake webhooks can also be posted by hand: HMAC-SHA512 of the body with FAKE_PAYMENT_SECRET.
+   * Without a secret, only the in-process deliveries (which skip this check) are accepted.
+   */
+  verifyWebhookSignature(signature: string | undefined, rawBody: string): boolean {
+    if (!signature || !this.secret) return false
+    const expected = crypto.createHmac('sha512', this.secret).update(rawBody).digest('hex')
+    return expected === signature
+  }
+
+  webhookEventId(payload: Record<string, unknown>, payloadHash: string): string {
+    const data = (payload.data ?? {}) as { id?: unknown; reference?: unknown }
+    return `${String(payload.event ?? 'unknown')}:${String(data.id ?? data.reference ?? payloadHash)}`
+  }
+
+  /** The fake already emits the shared event format. */
+  parseWebhookEvent(payload: Record<string, unknown>): PaymentWebhookEvent {
+    return {
+      event: String(payload.event ?? 'unknown'),
+      data: (payload.data ?? {}) as Record<string, unknown>,
+    }
+  }
+
+  private chargePayload(charge: FakeCharge): Record<string, unknown> {
+    return {
+      id: charge.reference,
+      reference: charge.reference,
+      status: charge.status,
+      amount: toMinorUnits(charge.amount),
+      currency: charge.currency,
+      fees: toMinorUnits(charge.fees),
+      channel: 'card',
+      paid_at: charge.paidAt,
+      created_at: charge.createdAt,
+      customer: { email: charge.email },
+      metadata: charge.metadata,
+    }
+  }
+
+  private refundPayload(refund: FakeRefund): Record<string, unknown> {
+    return {
+      id: refund.id,
+      status: refund.status,
+      amount: toMinorUnits(refund.amount),
+      currency: refund.currency,
+      transaction_reference: refund.reference,
+      transaction: { id: refund.reference, reference: refund.reference },
+      merchant_note: refund.merchantNote,
+      customer_note: refund.customerNote,
+    }
+  }
+
+  private scheduleWebhook(event: string, data: Record<string, unknown>): void {
+    setTimeout(() => this.deliverWebhook(event, data), this.webhookDelayMs)
+  }
+
+  /** Store and process the event exactly as a signed HTTP webhook would be. */
+  private async deliverWebhook(event: string, data: Record<string, unknown>): Promise<void> {
+    const payload = { event, data }
+    try {
+      // Loaded lazily: webhook-event.service depends on the provider registry that loads this file
+      const { WebhookEventService } = await import('./webhook-event.service')
+      const result = await new WebhookEventService().receiveEvent(this, JSON.stringify(payload), payload)
+      console.log(`Fake payment webhook ${event}: ${result.message}`)
+    } catch (error) {
+      console.error(`Fake payment webhook ${event} failed:`, error instanceof Error ? error.message : error)
+    }
+  }
+}
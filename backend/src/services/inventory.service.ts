@@ -0,0 +1,262 @@
+import { createAdminClient } from '../config/supabase'
+import { EmailService } from './email.service'
+
+/**
+ * Stock reservations for pending orders (see supabase-inventory-reservations.sql).
+ * Stock is held when checkout starts, decremented when payment is verified, and handed back when
+ * the pending order is cancelled or expires. The checks themselves run in Postgres with product
+ * rows locked so concurrent checkouts cannot both take the last unit.
+ */
+
+export type OversellPolicy = 'block' | 'backorder' | 'alert'
+
+export const OVERSELL_POLICIES: readonly OversellPolicy[] = ['block', 'backorder', 'alert']
+
+export type ReservationStatus = 'active' | 'committed' | 'released'
+
+export interface StockShortage {
+  productId: string
+  name: string | null
+  requested: number
+  available: number
+}
+
+export interface OversoldItem extends StockShortage {
+  policy: OversellPolicy
+}
+
+export interface ReserveStockResult {
+  success: boolean
+  shortages?: StockShortage[]
+  oversold?: OversoldItem[]
+  error?: string
+}
+
+/** How long a pending order holds stock before cleanup may release it. */
+const RESERVATION_TTL_MINUTES = Math.max(1, parseInt(process.env.STOCK_RESERVATION_TTL_MINUTES || '30', 10) || 30)
+
+/** Spread backordered units per product over order lines, in line order; returns each line's share. */
+export function assignBackordered(lines: Array<{ productId: string; quantity: number }>, backordered: Map<string, number>): number[] {
+  const remaining = new Map(backordered)
+  return lines.map((line) => {
+    const share = Math.min(remaining.get(line.productId) ?? 0, Math.max(Number(line.quantity) || 0, 0))
+    if (share > 0) remaining.set(line.productId, (remaining.get(line.productId) ?? 0) - share)
+    return share
+  })
+}
+
+export class InventoryService {
+  private supabase = createAdminClient()
+  private emailService = new EmailService()
+
+  /**
+   * Reserve stock for every item of a pending order, or nothing when a `block` product is short.
+   * Items with a warehouseId are reserved against that warehouse's stock (see WarehouseService.planFulfilment).
+   */
+  async reserveForPendingOrder(
+    pendingOrderId: string,
+    items: Array<{ productId: string; quantity: number; warehouseId?: string | null }>
+  ): Promise<ReserveStockResult> {
+    const { data, error } = await this.supabase.rpc('reserve_stock_for_pending_order', {
+      p_pending_order_id: pendingOrderId,
+      p_items: items.map(({ productId, quantity, warehouseId }) => ({ productId, quantity, ...(warehouseId ? { warehouseId } : {}) })),
+      p_ttl_minutes: RESERVATION_TTL_MINUTES,
+    })
+
+    if (error) {
+      console.error('Reserve stock error:', error)
+      return { success: false, error: 'Unable to reserve stock. Please try again.' }
+    }
+
+    const result = (data ?? {}) as { ok?: boolean; shortages?: StockShortage[]; oversold?: OversoldItem[] }
+    if (!result.ok) {
+      return { success: false, shortages: result.shortages ?? [] }
+    }
+
+    const oversold = result.oversold ?? []
+    const alerts = oversold.filter((item) => item.policy === 'alert')
+    if (alerts.length > 0) {
+      this.sendOversellAlert(pendingOrderId, alerts)
+    }
+
+    return { success: true, oversold }
+  }
+
+  /**
+   * Turn a pending order's reservations into stock decrements. Returns how many products were committed;
+   * 0 means the reservations had already been released (e.g. payment arrived after expiry).
+   */
+  async commitForPendingOrder(pendingOrderId: string): Promise<number> {
+    const { data, error } = await this.supabase.rpc('commit_stock_reservations', {
+      p_pending_order_id: pendingOrderId,
+    })
+    if (error) {
+      console.error('Commit stock reservations error:', error)
+      return 0
+    }
+    return Number(data) || 0
+  }
+
+  /**
+   * Units per product a pending order's committed reservations could not take from stock (backordered).
+   * Products that were fully in stock are left out.
+   */
+  async getBackorderedForPendingOrder(pendingOrderId: string): Promise<Map<string, number>> {
+    const backordered = new Map<string, number>()
+    const { data, error } = await this.supabase
+      .from('inventory_reservations')
+      .select('product_id, quantity, committed_quantity')
+      .eq('pending_order_id', pendingOrderId)
+      .eq('status', 'committed')
+    if (error) {
+      console.error('Read committed reservations error:', error)
+      return backordered
+    }
+    for (const row of data ?? []) {
+      const short = (Number(row.quantity) || 0) - (Number(row.committed_quantity ?? row.quantity) || 0)
+      if (short > 0) backordered.set(row.product_id, (backordered.get(row.product_id) ?? 0) + short)
+    }
+    return backordered
+  }
+
+  /** Give a pending order's reserved stock back. Safe to call more than once. */
+  async releaseForPendingOrder(pendingOrderId: string, reason: string): Promise<number> {
+    const { data, error } = await this.supabase.rpc('release_stock_reservations', {
+      p_pending_order_id: pendingOrderId,
+      p_reason: reason,
+    })
+    if (error) {
+      console.error('Release stock reservations error:', error)
+      return 0
+    }
+    return Number(data) || 0
+  }
+
+  /** Release every reservation whose hold has expired. */
+  async releaseExpired(): Promise<number> {
+    const { data, error } = await this.supabase.rpc('release_expired_stock_reservations')
+    if (error) {
+      console.error('Release expired reservations error:', error)
+      return 0
+    }
+    return Number(data) || 0
+  }
+
+  /**
+   * Stock held by active reservations per product. Available stock is products.quantity minus this.
+   * Read without locks, so only use it for display and suggestions, never to accept an order.
+   */
+  async getReservedQuantities(productIds: string[]): Promise<Map<string, number>> {
+    const reserved = new Map<string, number>()
+    if (productIds.length === 0) return reserved
+
+    const { data, error } = await this.supabase
+      .from('inventory_reservations')
+      .select('product_id, quantity')
+      .in('product_id', productIds)
+      .eq('status', 'active')
+      .gt('expires_at', new Date().toISOString())
+
+    if (error) {
+      console.error('Get reserved quantities error:', error)
+      return reserved
+    }
+
+    for (const row of data ?? []) {
+      reserved.set(row.product_id, (reserved.get(row.product_id) ?? 0) + (Number(row.quantity) || 0))
+    }
+    return reserved
+  }
+
+  /**
+   * List reservations for admin, newest first, with product name and current stock.
+   */
+  async listReservations(options: { status?: ReservationStatus; productId?: string; page?: number; limit?: number } = {}): Promise<{
+    success: boolean
+    data?: unknown[]
+    pagination?: { page: number; limit: number; total: number; totalPages: number }
+    error?: string
+  }> {
+    try {
+      const { status = 'active', productId, page = 1, limit = 50 } = options
+      const offset = (page - 1) * limit
+
+      let query = this.supabase
+        .from('inventory_reservations')
+        .select('*, products(name, quantity, oversell_policy)', { count: 'exact' })
+        .eq('status', status)
+        .order('created_at', { ascending: false })
+
+      if (productId) {
+        query = query.eq('product_id', productId)
+      }
+
+      const { data: rows, error, count } = await query.range(offset, offset + limit - 1)
+
+      if (error) {
+        return { success: false, error: error.message }
+      }
+
+      const list = (rows || []).map((r: Record<string, unknown>) => {
+        const product = (r.products as { name?: string; quantity?: number; oversell_policy?: string } | null) ?? {}
+        return {
+          id: r.id,
+          productId: r.product_id,
+          productName: product.name ?? '—',
+          productQuantity: product.quantity ?? null,
+          pendingOrderId: r.pending_order_id,
+          quantity: r.quantity,
+          backorderedQuantity: r.backordered_quantity,
+          oversellPolicy: r.oversell_policy,
+          status: r.status,
+          releaseReason: r.release_reason,
+          expiresAt: r.expires_at,
+          committedAt: r.committed_at,
+          releasedAt: r.released_at,
+          createdAt: r.created_at,
+        }
+      })
+
+      return {
+        success: true,
+        data: list,
+        pagination: {
+          page,
+          limit,
+          total: count ?? 0,
+          totalPages: Math.ceil((count ?? 0) / limit),
+        },
+      }
+    } catch (err) {
+      console.error('List reservations error:', err)
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : 'Failed to fetch reservations',
+      }
+    }
+  }
+
+  /** Human-readable reason for a failed reservation, e.g. for the checkout error message. */
+  static describeShortages(shortages: StockShortage[]): string {
+    if (shortages.length === 0) return 'Some items are out of stock'
+    return shortages
+      .map((s) => s.available > 0
+        ? `Only ${s.available} of ${s.name ?? 'this product'} left in stock`
+        : `${s.name ?? 'A product in your cart'} is out of stock`)
+      .join('. ')
+  }
+
+  private sendOversellAlert(pendingOrderId: string, items: OversoldItem[]): void {
+    this.emailService
+      .sendAdminAlert({
+        subject: `Oversold stock: ${items.map((i) => i.name ?? i.productId).join(', ')}`,
+        title: 'Products oversold',
+        intro: `Checkout ${pendingOrderId} reserved more than is in stock for products set to "allow and alert".`,
+        lines: items.map((i) => `${i.name ?? i.productId}: requested ${i.requested}, available ${i.available}`),
+      })
+      .then((r) => {
+        if (!r.success) console.warn('Oversell alert email failed:', r.errors)
+      })
+      .catch((err) => console.error('Oversell alert email error:', err))
+  }
+}
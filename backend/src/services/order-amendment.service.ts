@@ -0,0 +1,999 @@
+import { createAdminClient } from '../config/supabase'
+import { getPaymentProvider } from './payment-provider.service'
+import { OrderService, CartItem, CartSnapshotItem } from './order.service'
+import { InventoryService, assignBackordered } from './inventory.service'
+import { RefundService } from './refund.service'
+import { StoreCreditService } from './store-credit.service'
+import { TaxService, type TaxBreakdown } from './tax.service'
+import type { DeliveryFeeBreakdown } from './delivery.service'
+import { PDFInvoiceService, InvoiceData } from './pdf-invoice.service'
+import { isCodPaymentMethod } from './cod.service'
+import { WarehouseService, allocateToWarehouses, planFromAllocation, type FulfilmentPlan, type WarehouseAllocation } from './warehouse.service'
+import { v4 as uuidv4 } from 'uuid'
+
+/**
+ * Order amendments (see supabase-order-amendments.sql).
+ * Customers and admins can change the items of an order until it is dispatched. The new items are
+ * priced like checkout (OrderService.calculateOrderPricing); products already on the order keep the
+ * unit price that was paid. The difference is settled before or as the change is applied:
+ * - extra to pay on a paid order: a payment link; the items change once the payment succeeds
+ * - less to pay on a paid order: a partial refund to the original payment, or store credit in the wallet
+ * - unpaid (pay-on-delivery) orders: the rider collects the new total
+ * Applying replaces order_items, adjusts stock, updates totals, regenerates the invoice and logs the
+ * change in order_status_history.
+ */
+
+export type AmendmentSettlement = 'none' | 'payment_link' | 'collect_on_delivery' | 'refund' | 'store_credit'
+export type AmendmentStatus = 'awaiting_payment' | 'applied' | 'cancelled' | 'failed'
+export type AmendmentRefundMethod = 'original_payment' | 'store_credit'
+
+export const AMENDMENT_REFUND_METHODS: readonly AmendmentRefundMethod[] = ['original_payment', 'store_credit']
+
+/** Orders can be amended until they are shipped. */
+export const AMENDABLE_ORDER_STATUSES = ['pending', 'confirmed', 'processing']
+
+/** Payment references of amendment payment links start with this. */
+const AMENDMENT_REFERENCE_PREFIX = 'GROV-AMD'
+const PAYMENT_LINK_TTL_MINUTES = Math.max(1, parseInt(process.env.STOCK_RESERVATION_TTL_MINUTES || '30', 10) || 30)
+
+export interface AmendOrderParams {
+  orderId: string
+  items: CartItem[]
+  requestedBy: { type: 'customer' | 'admin'; id: string }
+  reason?: string
+  /** What to do with money owed back on a paid order (default original_payment) */
+  refundMethod?: AmendmentRefundMethod
+}
+
+export interface OrderAmendmentRow {
+  id: string
+  order_id: string
+  requested_by_type: 'customer' | 'admin'
+  requested_by: string | null
+  reason: string | null
+  previous_items: CartSnapshotItem[]
+  new_items: CartSnapshotItem[]
+  previous_subtotal: number
+  previous_discount: number
+  previous_delivery_fee: number
+  previous_total: number
+  new_subtotal: number
+  new_discount: number
+  new_delivery_fee: number
+  new_delivery_fee_breakdown: DeliveryFeeBreakdown | null
+  new_tax_amount: number
+  new_tax_breakdown: TaxBreakdown | null
+  new_total: number
+  amount_delta: number
+  settlement: AmendmentSettlement
+  status: AmendmentStatus
+  payment_reference: string | null
+  payment_provider: string | null
+  authorization_url: string | null
+  refund_id: string | null
+  store_credit_amount: number
+  settlement_error: string | null
+  expires_at: string | null
+  applied_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface AmendOrderResult {
+  success: boolean
+  data?: OrderAmendmentRow
+  /** Set when the customer must pay the difference before the change is applied */
+  authorizationUrl?: string
+  /** Non-fatal problems, e.g. a voucher that no longer applies or a refund that could not be started */
+  warnings?: string[]
+  error?: string
+}
+
+interface OrderRow {
+  id: string
+  order_id: string
+  invoice_number: string
+  user_id: string
+  status: string
+  subtotal: number
+  discount: number
+  credits: number
+  delivery_fee: number
+  total_amount: number
+  currency: string | null
+  payment_method: string | null
+  payment_status: string
+  payment_reference: string | null
+  delivery_address: { street: string; city: string; region: string; phone: string }
+  voucher_code: string | null
+  delivery_lat: number | null
+  delivery_lng: number | null
+  warehouse_id?: string | null
+  fulfilment_plan?: FulfilmentPlan | null
+  created_at: string
+  order_items: Array<{
+    product_id: string
+    product_name: string
+    product_description: string | null
+    product_image: string | null
+    category_name: string | null
+    unit_price: number
+    quantity: number
+    total_price: number
+    /** Units never taken from stock (see supabase-inventory-reservations.sql) */
+    backordered_quantity?: number | null
+  }>
+}
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+export function isAmendmentReference(reference: string | null | undefined): reference is string {
+  return !!reference && reference.startsWith(AMENDMENT_REFERENCE_PREFIX)
+}
+
+export class OrderAmendmentService {
+  private supabase = createAdminClient()
+  private orderService = new OrderService()
+  private inventoryService = new InventoryService()
+  private pdfService = new PDFInvoiceService()
+  private taxService = new TaxService()
+  private warehouseService = new WarehouseService()
+
+  /**
+   * Change an order's items. Returns the amendment; when it is awaiting_payment the customer must
+   * complete authorizationUrl before anything changes.
+   */
+  async amendOrder(params: AmendOrderParams): Promise<AmendOrderResult> {
+    let reservedForAmendmentId: string | null = null
+    try {
+      const { orderId, requestedBy, reason, refundMethod = 'original_payment' } = params
+
+      const order = await this.getOrder(orderId)
+      if (!order || (requestedBy.type === 'customer' && order.user_id !== requestedBy.id)) {
+        return { success: false, error: 'Order not found' }
+      }
+      if (!AMENDABLE_ORDER_STATUSES.includes(order.status)) {
+        return { success: false, error: `Orders that are ${order.status} can no longer be changed` }
+      }
+
+      const open = await this.expireStaleAmendment(order.id)
+      if (open) {
+        return { success: false, error: 'This order already has a change waiting for payment. Complete or cancel it first.' }
+      }
+
+      // Merge duplicate lines; quantity 0 removes a product
+      const quantities = new Map<string, number>()
+      for (const item of params.items) {
+        quantities.set(item.productId, (quantities.get(item.productId) ?? 0) + item.quantity)
+      }
+      const items: CartItem[] = [...quantities.entries()]
+        .filter(([, quantity]) => quantity > 0)
+        .map(([productId, quantity]) => ({ productId, quantity }))
+
+      if (items.length === 0) {
+        return { success: false, error: 'An order must keep at least one item. Cancel the order instead.' }
+      }
+
+      const previousQuantities = new Map<string, number>()
+      for (const item of order.order_items) {
+        previousQuantities.set(item.product_id, (previousQuantities.get(item.product_id) ?? 0) + item.quantity)
+      }
+      const unchanged = items.length === previousQuantities.size
+        && items.every((item) => previousQuantities.get(item.productId) === item.quantity)
+      if (unchanged) {
+        return { success: false, error: 'No changes to apply' }
+      }
+
+      // Price like checkout; products already on the order keep the price that was paid. Delivery is
+      // still priced from the order's warehouse (orders from before warehouses: the Delivery Settings location)
+      const warehouse = order.warehouse_id ? await this.warehouseService.getWarehouse(order.warehouse_id) : null
+      const pricing = await this.orderService.calculateOrderPricing({
+        userId: order.user_id,
+        cartItems: items,
+        voucherCode: order.voucher_code,
+        credits: Number(order.credits) || 0,
+        deliveryLat: order.delivery_lat,
+        deliveryLng: order.delivery_lng,
+        fallbackDeliveryFee: Number(order.delivery_fee) || 0,
+        deliveryPricedAt: new Date(order.created_at),
+        unitPrices: new Map(order.order_items.map((item) => [item.product_id, Number(item.unit_price)])),
+        existingVoucher: true,
+        skipDeliveryZoneChecks: true,
+        deliveryOrigin: warehouse ? { lat: warehouse.lat, lng: warehouse.lng } : null,
+      })
+      if (!pricing.success) {
+        return { success: false, error: pricing.error }
+      }
+
+      const warnings: string[] = []
+      let newDiscount = roundMoney(pricing.discount!)
+      if (!order.voucher_code && Number(order.discount) > 0) {
+        // Orders from before voucher codes were stored keep their discount, capped at the new subtotal
+        newDiscount = roundMoney(Math.min(Number(order.discount), pricing.subtotal!))
+      }
+      if (pricing.voucherNote) warnings.push(pricing.voucherNote)
+
+      const newSubtotal = roundMoney(pricing.subtotal!)
+      const newDeliveryFee = roundMoney(pricing.deliveryFee!)
+      // Tax at today's settings; recomputed when a legacy discount replaced the voucher's
+      const newTax = newDiscount === roundMoney(pricing.discount!)
+        ? pricing.tax ?? null
+        : await this.taxService.calculateTax(pricing.cartSnapshot!, newDiscount, newDeliveryFee)
+      const newTaxAmount = newTax?.totalTax ?? 0
+      const newTotal = roundMoney(
+        newSubtotal + newDeliveryFee - newDiscount - (Number(order.credits) || 0) + (newTax && !newTax.pricesIncludeTax ? newTaxAmount : 0)
+      )
+      if (newTotal <= 0) {
+        return { success: false, error: 'Total amount must be greater than 0' }
+      }
+      const previousTotal = roundMoney(Number(order.total_amount))
+      const delta = roundMoney(newTotal - previousTotal)
+
+      const paidOnline = order.payment_status === 'paid' && !isCodPaymentMethod(order.payment_method)
+      let settlement: AmendmentSettlement = 'none'
+      if (!paidOnline) {
+        settlement = isCodPaymentMethod(order.payment_method) ? 'collect_on_delivery' : 'none'
+      } else if (delta > 0) {
+        settlement = 'payment_link'
+      } else if (delta < 0) {
+        settlement = refundMethod === 'store_credit' ? 'store_credit' : 'refund'
+      }
+
+      // Hold stock for added quantities (same oversell rules as checkout), in the order's warehouse
+      const amendmentId = uuidv4()
+      const increases = items
+        .map((item) => ({
+          productId: item.productId,
+          quantity: item.quantity - (previousQuantities.get(item.productId) ?? 0),
+          warehouseId: order.fulfilment_plan ? order.warehouse_id ?? order.fulfilment_plan.warehouseId : null,
+        }))
+        .filter((item) => item.quantity > 0)
+      if (increases.length > 0) {
+        const reservation = await this.inventoryService.reserveForPendingOrder(amendmentId, increases)
+        if (!reservation.success) {
+          return {
+            success: false,
+            error: reservation.error ?? InventoryService.describeShortages(reservation.shortages ?? []),
+          }
+        }
+        reservedForAmendmentId = amendmentId
+      }
+
+      const { data: inserted, error: insertError } = await this.supabase
+        .from('order_amendments')
+        .insert({
+          id: amendmentId,
+          order_id: order.id,
+          requested_by_type: requestedBy.type,
+          requested_by: requestedBy.id,
+          reason: reason?.trim() || null,
+          previous_items: this.snapshotOrderItems(order),
+          new_items: pricing.cartSnapshot,
+          previous_subtotal: roundMoney(Number(order.subtotal)),
+          previous_discount: roundMoney(Number(order.discount) || 0),
+          previous_delivery_fee: roundMoney(Number(order.delivery_fee) || 0),
+          previous_total: previousTotal,
+          new_subtotal: newSubtotal,
+          new_discount: newDiscount,
+          new_delivery_fee: newDeliveryFee,
+          new_delivery_fee_breakdown: pricing.deliveryFeeBreakdown ?? null,
+          new_tax_amount: newTaxAmount,
+          new_tax_breakdown: newTax,
+          new_total: newTotal,
+          amount_delta: delta,
+          settlement,
+          status: settlement === 'payment_link' ? 'awaiting_payment' : 'applied',
+          store_credit_amount: settlement === 'store_credit' ? Math.abs(delta) : 0,
+        })
+        .select()
+        .single()
+
+      if (insertError || !inserted) {
+        console.error('Failed to create order amendment:', insertError)
+        if (reservedForAmendmentId) {
+          await this.inventoryService.releaseForPendingOrder(reservedForAmendmentId, 'amendment not created')
+        }
+        return {
+          success: false,
+          error: insertError?.code === '23505'
+            ? 'This order already has a change waiting for payment. Complete or cancel it first.'
+            : 'Failed to change order',
+        }
+      }
+      let amendment = inserted as OrderAmendmentRow
+
+      if (settlement === 'payment_link') {
+        const link = await this.createPaymentLink(order, amendment)
+        if (!link.success) {
+          await this.inventoryService.releaseForPendingOrder(amendment.id, 'amendment payment link failed')
+          await this.supabase
+            .from('order_amendments')
+            .update({ status: 'failed', settlement_error: link.error, updated_at: new Date().toISOString() })
+            .eq('id', amendment.id)
+          return { success: false, error: link.error }
+        }
+        return { success: true, data: link.data, authorizationUrl: link.data!.authorization_url ?? undefined, warnings }
+      }
+
+      const applied = await this.applyAmendment(order, amendment)
+      if (!applied.success) {
+        return { success: false, error: applied.error }
+      }
+
+      if (settlement === 'refund') {
+        const refund = await this.refundDifference(order, amendment, requestedBy)
+        if (refund.error) warnings.push(refund.error)
+        amendment = refund.data ?? amendment
+      } else if (settlement === 'store_credit') {
+        const credit = await this.creditDifference(order, amendment)
+        if (credit.error) warnings.push(credit.error)
+        amendment = credit.data ?? amendment
+      }
+
+      return { success: true, data: (await this.getAmendment(amendment.id)) ?? amendment, warnings }
+    } catch (error) {
+      console.error('Amend order error:', error)
+      if (reservedForAmendmentId) {
+        await this.inventoryService.releaseForPendingOrder(reservedForAmendmentId, 'amendment failed')
+      }
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to change order',
+      }
+    }
+  }
+
+  /**
+   * Apply an amendment whose payment succeeded (charge.success webhook, verify or reconciliation).
+   * Idempotent: an amendment that is already applied is reported as success.
+   */
+  async confirmPayment(reference: string): Promise<{ success: boolean; orderId?: string; error?: string }> {
+    try {
+      const { data: amendment } = await this.supabase
+        .from('order_amendments')
+        .select('*')
+        .eq('payment_reference', reference)
+        .maybeSingle()
+
+      if (!amendment) {
+        return { success: false, error: 'Order change not found for payment reference' }
+      }
+      const row = amendment as OrderAmendmentRow
+      if (row.status === 'applied') {
+        return { success: true, orderId: row.order_id }
+      }
+      if (row.status !== 'awaiting_payment') {
+        return { success: false, error: `Order change is ${row.status}` }
+      }
+
+      const verification = await getPaymentProvider(row.payment_provider).verifyTransaction(reference)
+      if (verification.status !== 'success') {
+        return { success: false, error: `Payment not successful: ${verification.status}` }
+      }
+
+      await this.supabase
+        .from('payment_transactions')
+        .update({
+          status: 'success',
+          provider_transaction_id: verification.providerTransactionId,
+          channel: verification.channel,
+          card_type: verification.cardType,
+          bank: verification.bank,
+          fees: verification.fees,
+          paid_at: verification.paidAt,
+          provider_response: verification.raw,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('provider_reference', reference)
+
+      const order = await this.getOrder(row.order_id)
+      if (!order || !AMENDABLE_ORDER_STATUSES.includes(order.status)) {
+        // Paid too late (order shipped or cancelled meanwhile): give the money back
+        await this.failAmendment(row, 'Order could no longer be changed when the payment arrived')
+        await this.refundPaymentLink(row)
+        return { success: false, error: 'Order could no longer be changed; the payment will be refunded' }
+      }
+
+      const applied = await this.applyAmendment(order, row)
+      return applied.success ? { success: true, orderId: order.id } : { success: false, error: applied.error }
+    } catch (error) {
+      console.error('Confirm amendment payment error:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to confirm order change payment',
+      }
+    }
+  }
+
+  /** Payment for an amendment failed or was abandoned: drop the change and its stock hold. */
+  async failPayment(reference: string, reason: string): Promise<void> {
+    const { data: amendment } = await this.supabase
+      .from('order_amendments')
+      .select('*')
+      .eq('payment_reference', reference)
+      .eq('status', 'awaiting_payment')
+      .maybeSingle()
+
+    if (amendment) {
+      await this.failAmendment(amendment as OrderAmendmentRow, reason)
+    }
+  }
+
+  /** Cancel a change that is still waiting for payment. */
+  async cancelAmendment(
+    orderId: string,
+    amendmentId: string,
+    requestedBy: { type: 'customer' | 'admin'; id: string }
+  ): Promise<{ success: boolean; error?: string }> {
+    const order = await this.getOrder(orderId)
+    if (!order || (requestedBy.type === 'customer' && order.user_id !== requestedBy.id)) {
+      return { success: false, error: 'Order not found' }
+    }
+
+    const { data: cancelled, error } = await this.supabase
+      .from('order_amendments')
+      .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+      .eq('id', amendmentId)
+      .eq('order_id', order.id)
+      .eq('status', 'awaiting_payment')
+      .select('id')
+
+    if (error) {
+      return { success: false, error: error.message }
+    }
+    if (!cancelled || cancelled.length === 0) {
+      return { success: false, error: 'Only changes waiting for payment can be cancelled' }
+    }
+
+    await this.inventoryService.releaseForPendingOrder(amendmentId, 'amendment cancelled')
+    return { success: true }
+  }
+
+  /** Amendments of an order, newest first. Customers only see their own orders. */
+  async listAmendments(orderId: string, userId?: string): Promise<{ success: boolean; data?: OrderAmendmentRow[]; error?: string }> {
+    let orderQuery = this.supabase
+      .from('orders')
+      .select('id')
+      .eq('id', orderId)
+    if (userId) {
+      orderQuery = orderQuery.eq('user_id', userId)
+    }
+    const { data: order } = await orderQuery.maybeSingle()
+    if (!order) {
+      return { success: false, error: 'Order not found' }
+    }
+
+    const { data, error } = await this.supabase
+      .from('order_amendments')
+      .select('*')
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      return { success: false, error: error.message }
+    }
+    return { success: true, data: (data || []) as OrderAmendmentRow[] }
+  }
+
+  private async getOrder(orderId: string): Promise<OrderRow | null> {
+    const { data } = await this.supabase
+      .from('orders')
+      .select('*, order_items (*)')
+      .eq('id', orderId)
+      .maybeSingle()
+    return (data as OrderRow | null) ?? null
+  }
+
+  private async getAmendment(amendmentId: string): Promise<OrderAmendmentRow | null> {
+    const { data } = await this.supabase
+      .from('order_amendments')
+      .select('*')
+      .eq('id', amendmentId)
+      .maybeSingle()
+    return (data as OrderAmendmentRow | null) ?? null
+  }
+
+  /**
+   * Returns the order's open (awaiting_payment) amendment, after failing it when its payment link
+   * has expired. null when there is nothing open.
+   */
+  private async expireStaleAmendment(orderId: string): Promise<OrderAmendmentRow | null> {
+    const { data } = await this.supabase
+      .from('order_amendments')
+      .select('*')
+      .eq('order_id', orderId)
+      .eq('status', 'awaiting_payment')
+      .maybeSingle()
+
+    const open = data as OrderAmendmentRow | null
+    if (!open) return null
+    if (open.expires_at && new Date(open.expires_at).getTime() < Date.now()) {
+      await this.failAmendment(open, 'Payment link expired')
+      return null
+    }
+    return open
+  }
+
+  private async failAmendment(amendment: OrderAmendmentRow, reason: string): Promise<void> {
+    const now = new Date().toISOString()
+    await this.supabase
+      .from('order_amendments')
+      .update({ status: 'failed', settlement_error: reason, updated_at: now })
+      .eq('id', amendment.id)
+      .eq('status', 'awaiting_payment')
+
+    await this.inventoryService.releaseForPendingOrder(amendment.id, 'amendment payment not completed')
+
+    if (amendment.payment_reference) {
+      await this.supabase
+        .from('payment_transactions')
+        .update({ status: 'failed', updated_at: now })
+        .eq('provider_reference', amendment.payment_reference)
+        .eq('status', 'pending')
+    }
+  }
+
+  /** Initialize a payment for the extra amount with the configured provider. */
+  private async createPaymentLink(
+    order: OrderRow,
+    amendment: OrderAmendmentRow
+  ): Promise<{ success: boolean; data?: OrderAmendmentRow; error?: string }> {
+    const { data: user } = await this.supabase
+      .from('users')
+      .select('email, first_name, last_name')
+      .eq('id', order.user_id)
+      .maybeSingle()
+
+    if (!user?.email) {
+      return { success: false, error: 'Customer has no email address for the payment link' }
+    }
+
+    const provider = getPaymentProvider()
+    const reference = provider.generateReference(AMENDMENT_REFERENCE_PREFIX)
+    const frontendUrl = process.env.FRONTEND_URL || ''
+
+    let init
+    try {
+      init = await provider.initializeTransaction({
+        email: user.email,
+        amount: amendment.amount_delta,
+        currency: order.currency || 'GHS',
+        reference,
+        callbackUrl: `${frontendUrl}/payment/callback?order_id=${order.id}&amendment_id=${amendment.id}`,
+        metadata: {
+          order_id: order.id,
+          amendment_id: amendment.id,
+          user_id: order.user_id,
+          custom_fields: [
+            {
+              display_name: 'Order Number',
+              variable_name: 'order_number',
+              value: order.order_id,
+            },
+            {
+              display_name: 'Payment For',
+              variable_name: 'payment_for',
+              value: 'Order change',
+            },
+          ],
+        },
+      })
+    } catch (error) {
+      console.error('Amendment payment initialization error:', error)
+      return { success: false, error: 'Could not create a payment link. Please try again.' }
+    }
+
+    await this.supabase
+      .from('payment_transactions')
+      .insert({
+        transaction_id: reference,
+        order_id: order.id,
+        amendment_id: amendment.id,
+        user_id: order.user_id,
+        provider: provider.name,
+        provider_reference: reference,
+        provider_access_code: init.accessCode,
+        amount: amendment.amount_delta,
+        currency: order.currency || 'GHS',
+        status: 'pending',
+        customer_email: user.email,
+      })
+
+    const { data: updated } = await this.supabase
+      .from('order_amendments')
+      .update({
+        payment_reference: reference,
+        payment_provider: provider.name,
+        authorization_url: init.authorizationUrl,
+        expires_at: new Date(Date.now() + PAYMENT_LINK_TTL_MINUTES * 60 * 1000).toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', amendment.id)
+      .select()
+      .single()
+
+    return { success: true, data: (updated as OrderAmendmentRow | null) ?? amendment }
+  }
+
+  /**
+   * Make the change: stock, order_items, totals, invoice and status history. Only orders that are
+   * still amendable are touched.
+   */
+  private async applyAmendment(order: OrderRow, amendment: OrderAmendmentRow): Promise<{ success: boolean; error?: string }> {
+    const now = new Date().toISOString()
+
+    const { data: updated, error: updateError } = await this.supabase
+      .from('orders')
+      .update({
+        subtotal: amendment.new_subtotal,
+        discount: amendment.new_discount,
+        delivery_fee: amendment.new_delivery_fee,
+        delivery_fee_breakdown: amendment.new_delivery_fee_breakdown,
+        tax_amount: amendment.new_tax_amount,
+        tax_breakdown: amendment.new_tax_breakdown,
+        total_amount: amendment.new_total,
+        updated_at: now,
+      })
+      .eq('id', order.id)
+      .in('status', AMENDABLE_ORDER_STATUSES)
+      .select('id')
+
+    if (updateError || !updated || updated.length === 0) {
+      await this.inventoryService.releaseForPendingOrder(amendment.id, 'amendment not applied')
+      await this.supabase
+        .from('order_amendments')
+        .update({ status: 'failed', settlement_error: updateError?.message ?? 'Order could no longer be changed', updated_at: now })
+        .eq('id', amendment.id)
+      return { success: false, error: 'Order could no longer be changed' }
+    }
+
+    const committed = await this.inventoryService.commitForPendingOrder(amendment.id)
+    const backordered = this.backorderedAfter(
+      order,
+      amendment,
+      committed > 0 ? await this.inventoryService.getBackorderedForPendingOrder(amendment.id) : new Map()
+    )
+    if (order.fulfilment_plan) {
+      await this.adjustWarehouseStock(order, order.fulfilment_plan, amendment, backordered, committed > 0)
+    } else {
+      await this.adjustProductStock(order, amendment, backordered, committed > 0)
+    }
+    const lineBackorders = assignBackordered(
+      amendment.new_items.map((item) => ({ productId: item.productId, quantity: item.quantity })),
+      backordered
+    )
+
+    await this.supabase
+      .from('order_items')
+      .delete()
+      .eq('order_id', order.id)
+
+    await this.supabase
+      .from('order_items')
+      .insert(amendment.new_items.map((item, index) => ({
+        order_id: order.id,
+        product_id: item.productId,
+        product_name: item.name,
+        product_description: item.description ?? '',
+        product_image: item.image,
+        category_name: item.category,
+        unit_price: item.price,
+        quantity: item.quantity,
+        total_price: item.total,
+        backordered_quantity: lineBackorders[index] ?? 0,
+      })))
+
+    await this.regenerateInvoice(order, amendment)
+
+    await this.supabase
+      .from('order_amendments')
+      .update({ status: 'applied', applied_at: now, updated_at: now })
+      .eq('id', amendment.id)
+
+    await this.supabase
+      .from('order_status_history')
+      .insert({
+        order_id: order.id,
+        old_status: order.status,
+        new_status: order.status,
+        changed_by: amendment.requested_by_type === 'customer' ? amendment.requested_by : null,
+        reason: this.describeChange(amendment),
+      })
+
+    return { success: true }
+  }
+
+  /**
+   * Backordered units per product once the change is made. Removed units drop backordered ones first,
+   * since those were never taken from stock; `added` is what the amendment's own reservation could not take.
+   */
+  private backorderedAfter(order: OrderRow, amendment: OrderAmendmentRow, added: Map<string, number>): Map<string, number> {
+    const previous = new Map<string, { quantity: number; backordered: number }>()
+    for (const item of order.order_items) {
+      const entry = previous.get(item.product_id) ?? { quantity: 0, backordered: 0 }
+      entry.quantity += item.quantity
+      entry.backordered += Number(item.backordered_quantity) || 0
+      previous.set(item.product_id, entry)
+    }
+    const next = new Map<string, number>()
+    for (const item of amendment.new_items) {
+      next.set(item.productId, (next.get(item.productId) ?? 0) + item.quantity)
+    }
+
+    const backordered = new Map<string, number>()
+    for (const [productId, quantity] of next) {
+      const before = previous.get(productId) ?? { quantity: 0, backordered: 0 }
+      const removed = Math.max(before.quantity - quantity, 0)
+      const units = Math.min(Math.max(before.backordered - removed, 0) + (added.get(productId) ?? 0), quantity)
+      if (units > 0) backordered.set(productId, units)
+    }
+    return backordered
+  }
+
+  /**
+   * Stock for orders from before warehouses. Added quantities were reserved under the amendment id;
+   * removed ones go back. Backordered units are left out on both sides: they never left stock.
+   */
+  private async adjustProductStock(
+    order: OrderRow,
+    amendment: OrderAmendmentRow,
+    backordered: Map<string, number>,
+    reservationCommitted: boolean
+  ): Promise<void> {
+    const previous = new Map<string, number>()
+    for (const item of order.order_items) {
+      const inStock = item.quantity - (Number(item.backordered_quantity) || 0)
+      previous.set(item.product_id, (previous.get(item.product_id) ?? 0) + inStock)
+    }
+    const next = new Map<string, number>()
+    for (const item of amendment.new_items) {
+      next.set(item.productId, (next.get(item.productId) ?? 0) + item.quantity)
+    }
+    for (const [productId, units] of backordered) {
+      next.set(productId, (next.get(productId) ?? 0) - units)
+    }
+    for (const productId of new Set([...previous.keys(), ...next.keys()])) {
+      const change = (next.get(productId) ?? 0) - (previous.get(productId) ?? 0)
+      if (change === 0 || (change > 0 && reservationCommitted)) continue
+      try {
+        // Reservation already released (payment arrived after expiry): decrement directly
+        await this.supabase.rpc(change > 0 ? 'decrement_product_stock' : 'increment_product_stock', {
+          product_id: productId,
+          quantity: Math.abs(change),
+        })
+      } catch (stockErr) {
+        console.warn('Amendment stock adjustment skipped:', stockErr)
+      }
+    }
+  }
+
+  /**
+   * Stock for orders shipped from warehouses. Removed quantities go back to the warehouse they were
+   * coming from (the furthest first); added ones come from the order's warehouse, where they were
+   * reserved. Backordered units never left stock and are left out. The order's fulfilment plan is
+   * updated to match.
+   */
+  private async adjustWarehouseStock(
+    order: OrderRow,
+    plan: FulfilmentPlan,
+    amendment: OrderAmendmentRow,
+    backordered: Map<string, number>,
+    reservationCommitted: boolean
+  ): Promise<void> {
+    const warehouseId = order.warehouse_id ?? plan.warehouseId
+    const before = allocateToWarehouses(
+      order.order_items.map((item) => ({ productId: item.product_id, quantity: item.quantity - (Number(item.backordered_quantity) || 0) })),
+      plan,
+      warehouseId
+    )
+    const lineBackorders = assignBackordered(
+      amendment.new_items.map((item) => ({ productId: item.productId, quantity: item.quantity })),
+      backordered
+    )
+    const inStock = allocateToWarehouses(
+      amendment.new_items.map((item, index) => ({ productId: item.productId, quantity: item.quantity - lineBackorders[index] })),
+      plan,
+      warehouseId
+    )
+    const after = allocateToWarehouses(
+      amendment.new_items.map((item) => ({ productId: item.productId, quantity: item.quantity })),
+      plan,
+      warehouseId
+    )
+
+    const key = (a: WarehouseAllocation) => `${a.warehouseId}:${a.productId}`
+    const changes = new Map<string, WarehouseAllocation>()
+    for (const a of inStock) changes.set(key(a), { ...a })
+    for (const b of before) {
+      const entry = changes.get(key(b)) ?? { ...b, quantity: 0 }
+      entry.quantity -= b.quantity
+      changes.set(key(b), entry)
+    }
+    for (const change of changes.values()) {
+      if (!change.warehouseId || change.quantity === 0 || (change.quantity > 0 && reservationCommitted)) continue
+      await this.warehouseService.adjustStock(change.warehouseId, change.productId, -change.quantity)
+    }
+
+    const { error } = await this.supabase
+      .from('orders')
+      .update({ fulfilment_plan: planFromAllocation(after, plan) })
+      .eq('id', order.id)
+    if (error) console.warn('Amendment fulfilment plan not updated:', error.message)
+  }
+
+  /** Same invoice number, new contents; the stored PDF is overwritten. */
+  private async regenerateInvoice(order: OrderRow, amendment: OrderAmendmentRow): Promise<void> {
+    const { data: user } = await this.supabase
+      .from('users')
+      .select('email, first_name, last_name')
+      .eq('id', order.user_id)
+      .maybeSingle()
+
+    const invoiceData: InvoiceData = {
+      invoiceNumber: order.invoice_number,
+      orderNumber: order.order_id,
+      date: new Date(),
+      customerName: [user?.first_name, user?.last_name].filter(Boolean).join(' ') || 'Customer',
+      customerAddress: `${order.delivery_address.street}, ${order.delivery_address.city}, ${order.delivery_address.region}`,
+      customerPhone: order.delivery_address.phone,
+      customerEmail: user?.email ?? '',
+      items: amendment.new_items.map((item) => ({
+        description: item.name ?? '',
+        quantity: item.quantity,
+        unitPrice: item.price,
+        total: item.total,
+      })),
+      subtotal: Number(amendment.new_subtotal),
+      discount: Number(amendment.new_discount),
+      credits: Number(order.credits) || 0,
+      totalAmount: Number(amendment.new_total),
+      currency: order.currency || 'GHS',
+      delivery: amendment.new_delivery_fee_breakdown,
+      tax: amendment.new_tax_breakdown,
+    }
+
+    const invoiceResult = await this.pdfService.generateInvoice(invoiceData)
+    if (!invoiceResult.success) {
+      console.warn('Invoice regeneration after amendment failed:', order.id, invoiceResult.error)
+      return
+    }
+
+    await this.supabase
+      .from('orders')
+      .update({
+        invoice_pdf_url: invoiceResult.pdfUrl,
+        invoice_image_url: invoiceResult.imageUrl,
+        invoice_qr_code: invoiceResult.qrCodeUrl,
+        invoice_generated_at: new Date().toISOString(),
+      })
+      .eq('id', order.id)
+  }
+
+  /** Partial refund of the difference against the order's original payment. */
+  private async refundDifference(
+    order: OrderRow,
+    amendment: OrderAmendmentRow,
+    requestedBy: { type: 'customer' | 'admin'; id: string }
+  ): Promise<{ data?: OrderAmendmentRow; error?: string }> {
+    const { data: transaction } = await this.supabase
+      .from('payment_transactions')
+      .select('id')
+      .eq('provider_reference', order.payment_reference)
+      .eq('status', 'success')
+      .maybeSingle()
+
+    const result = transaction
+      ? await new RefundService().createRefund({
+        paymentTransactionId: transaction.id,
+        amount: Math.abs(Number(amendment.amount_delta)),
+        reason: `Order ${order.order_id} changed: ${amendment.reason || 'items removed'}`,
+        requestedBy: `${requestedBy.type}:${requestedBy.id}`,
+      })
+      : { success: false, error: 'Original payment not found', data: undefined }
+
+    const settlementError = result.success ? null : `Refund not started: ${result.error}`
+    const { data: updated } = await this.supabase
+      .from('order_amendments')
+      .update({
+        refund_id: result.data?.id ?? null,
+        settlement_error: settlementError,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', amendment.id)
+      .select()
+      .single()
+
+    return {
+      data: (updated as OrderAmendmentRow | null) ?? undefined,
+      error: settlementError ?? undefined,
+    }
+  }
+
+  /** Add the difference to the customer's store credit wallet (once per amendment). */
+  private async creditDifference(
+    order: OrderRow,
+    amendment: OrderAmendmentRow
+  ): Promise<{ data?: OrderAmendmentRow; error?: string }> {
+    const result = await new StoreCreditService().addCredit({
+      userId: order.user_id,
+      type: 'refund',
+      amount: Number(amendment.store_credit_amount),
+      reason: `Order ${order.order_id} changed: ${amendment.reason || 'items removed'}`,
+      sourceKey: `amendment:${amendment.id}`,
+      orderId: order.id,
+    })
+    if (result.success) return {}
+
+    const settlementError = `Store credit not added: ${result.error}`
+    const { data: updated } = await this.supabase
+      .from('order_amendments')
+      .update({ settlement_error: settlementError, updated_at: new Date().toISOString() })
+      .eq('id', amendment.id)
+      .select()
+      .single()
+
+    return {
+      data: (updated as OrderAmendmentRow | null) ?? undefined,
+      error: settlementError,
+    }
+  }
+
+  /** Refund a payment link that was paid after its amendment could no longer be applied. */
+  private async refundPaymentLink(amendment: OrderAmendmentRow): Promise<void> {
+    const { data: transaction } = await this.supabase
+      .from('payment_transactions')
+      .select('id')
+      .eq('provider_reference', amendment.payment_reference)
+      .maybeSingle()
+
+    if (!transaction) return
+
+    const result = await new RefundService().createRefund({
+      paymentTransactionId: transaction.id,
+      reason: 'Order change could not be applied',
+      requestedBy: 'system',
+    })
+    if (!result.success) {
+      console.warn('Refund of unapplied amendment payment failed:', amendment.id, result.error)
+    }
+  }
+
+  private snapshotOrderItems(order: OrderRow): CartSnapshotItem[] {
+    return order.order_items.map((item) => ({
+      productId: item.product_id,
+      name: item.product_name,
+      description: item.product_description,
+      price: Number(item.unit_price),
+      quantity: item.quantity,
+      total: Number(item.total_price),
+      category: item.category_name,
+      image: item.product_image,
+    }))
+  }
+
+  /** e.g. "Order changed by customer: +2 Milk, -1 Bread. Total GHS 120.00 -> GHS 95.50 (refund)" */
+  private describeChange(amendment: OrderAmendmentRow): string {
+    const previous = new Map(amendment.previous_items.map((item) => [item.productId, item]))
+    const next = new Map(amendment.new_items.map((item) => [item.productId, item]))
+    const changes: string[] = []
+    for (const productId of new Set([...previous.keys(), ...next.keys()])) {
+      const change = (next.get(productId)?.quantity ?? 0) - (previous.get(productId)?.quantity ?? 0)
+      if (change === 0) continue
+      const name = next.get(productId)?.name ?? previous.get(productId)?.name ?? productId
+      changes.push(`${change > 0 ? '+' : ''}${change} ${name}`)
+    }
+
+    const settlementLabels: Record<AmendmentSettlement, string> = {
+      none: 'no payment change',
+      payment_link: 'paid online',
+      collect_on_delivery: 'collected on delivery',
+      refund: 'refund',
+      store_credit: 'store credit',
+    }
+    const totals = `Total GHS ${Number(amendment.previous_total).toFixed(2)} -> GHS ${Number(amendment.new_total).toFixed(2)}`
+    const reason = amendment.reason ? ` Reason: ${amendment.reason}` : ''
+    return `Order changed by ${amendment.requested_by_type}: ${changes.join(', ')}. ${totals} (${settlementLabels[amendment.settlement]}).${reason}`
+  }
+}
@@ -0,0 +1,223 @@
+import * as XLSX from 'xlsx'
+import { PDFDocument } from 'pdf-lib'
+import { createAdminClient } from '../config/supabase'
+import { OrderService, type AdminOrderFilters } from './order.service'
+
+/**
+ * Admin order exports for accounting and the warehouse: orders and line items as CSV or XLSX, using the
+ * same filters as the admin order list, and one combined PDF of the invoices of selected orders.
+ */
+
+export type OrderExportFormat = 'csv' | 'xlsx'
+
+export const ORDER_EXPORT_FORMATS: readonly OrderExportFormat[] = ['csv', 'xlsx']
+
+/** CSV holds one dataset; XLSX always has both as separate sheets */
+export type OrderExportDataset = 'orders' | 'items'
+
+export const ORDER_EXPORT_DATASETS: readonly OrderExportDataset[] = ['orders', 'items']
+
+export interface OrderExportFile {
+  filename: string
+  contentType: string
+  body: Buffer
+}
+
+/** Most orders one export can hold; narrow the filters beyond this */
+export const ORDER_EXPORT_MAX_ORDERS = 5000
+
+const EXPORT_PAGE_SIZE = 500
+
+type Cell = string | number | null
+
+interface ExportOrderRow {
+  order_id?: string
+  invoice_number?: string | null
+  created_at?: string
+  status?: string
+  payment_status?: string
+  payment_method?: string
+  paid_at?: string | null
+  subtotal?: number
+  discount?: number
+  credits?: number
+  delivery_fee?: number
+  total_amount?: number
+  currency?: string
+  voucher_code?: string | null
+  customerName?: string
+  customerEmail?: string
+  customerPhone?: string
+  deliveryAddress?: string
+  items?: Array<{
+    product_id?: string
+    product_name?: string
+    category_name?: string | null
+    unit_price?: number
+    quantity?: number
+    total_price?: number
+  }>
+}
+
+const ORDER_COLUMNS = [
+  'Order number', 'Invoice number', 'Created at', 'Status', 'Payment status', 'Payment method', 'Paid at',
+  'Customer', 'Email', 'Phone', 'Delivery address', 'Items', 'Subtotal', 'Discount', 'Credits',
+  'Delivery fee', 'Total', 'Currency', 'Voucher',
+]
+
+const ITEM_COLUMNS = [
+  'Order number', 'Created at', 'Status', 'Customer', 'Product ID', 'Product', 'Category',
+  'Unit price', 'Quantity', 'Line total',
+]
+
+const num = (value: unknown): number => Number(value) || 0
+
+const text = (value: unknown): string => (value == null || value === '—' ? '' : String(value))
+
+function orderRow(o: ExportOrderRow): Cell[] {
+  return [
+    text(o.order_id), text(o.invoice_number), text(o.created_at), text(o.status), text(o.payment_status),
+    text(o.payment_method), text(o.paid_at), text(o.customerName), text(o.customerEmail), text(o.customerPhone),
+    text(o.deliveryAddress), (o.items ?? []).reduce((sum, i) => sum + num(i.quantity), 0), num(o.subtotal),
+    num(o.discount), num(o.credits), num(o.delivery_fee), num(o.total_amount), text(o.currency) || 'GHS',
+    text(o.voucher_code),
+  ]
+}
+
+function itemRows(o: ExportOrderRow): Cell[][] {
+  return (o.items ?? []).map((i) => [
+    text(o.order_id), text(o.created_at), text(o.status), text(o.customerName), text(i.product_id),
+    text(i.product_name), text(i.category_name), num(i.unit_price), num(i.quantity), num(i.total_price),
+  ])
+}
+
+/** Quote for CSV, and neutralise values a spreadsheet would run as a formula */
+function csvCell(value: Cell): string {
+  if (value == null) return ''
+  if (typeof value === 'number') return String(value)
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+function toCsv(header: string[], rows: Cell[][]): string {
+  return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n'
+}
+
+export class OrderExportService {
+  private supabase = createAdminClient()
+  private orderService = new OrderService()
+
+  async exportOrders(
+    filters: AdminOrderFilters,
+    format: OrderExportFormat,
+    dataset: OrderExportDataset = 'orders'
+  ): Promise<{ success: boolean; file?: OrderExportFile; error?: string }> {
+    try {
+      const orders: ExportOrderRow[] = []
+      for (let page = 1; ; page++) {
+        const result = await this.orderService.getAdminOrders({ ...filters, page, limit: EXPORT_PAGE_SIZE })
+        if (!result.success) {
+          return { success: false, error: result.error }
+        }
+        if ((result.pagination?.total ?? 0) > ORDER_EXPORT_MAX_ORDERS) {
+          return {
+            success: false,
+            error: `${result.pagination?.total} orders match; exports are limited to ${ORDER_EXPORT_MAX_ORDERS}. Narrow the date range.`,
+          }
+        }
+        const batch = (result.data ?? []) as ExportOrderRow[]
+        orders.push(...batch)
+        if (batch.length < EXPORT_PAGE_SIZE) break
+      }
+
+      const stamp = new Date().toISOString().slice(0, 10)
+      const orderRows = orders.map(orderRow)
+      const lineRows = orders.flatMap(itemRows)
+
+      if (format === 'xlsx') {
+        const workbook = XLSX.utils.book_new()
+        XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([ORDER_COLUMNS, ...orderRows]), 'Orders')
+        XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([ITEM_COLUMNS, ...lineRows]), 'Items')
+        return {
+          success: true,
+          file: {
+            filename: `orders-${stamp}.xlsx`,
+            contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+            body: XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }) as Buffer,
+          },
+        }
+      }
+
+      const csv = dataset === 'items' ? toCsv(ITEM_COLUMNS, lineRows) : toCsv(ORDER_COLUMNS, orderRows)
+      return {
+        success: true,
+        file: {
+          filename: `${dataset === 'items' ? 'order-items' : 'orders'}-${stamp}.csv`,
+          contentType: 'text/csv; charset=utf-8',
+          // BOM so Excel opens the file as UTF-8
+          body: Buffer.from(`\uFEFF${csv}`, 'utf8'),
+        },
+      }
+    } catch (err) {
+      console.error('Export orders error:', err)
+      return { success: false, error: err instanceof Error ? err.message : 'Failed to export orders' }
+    }
+  }
+
+  /**
+   * One PDF with the invoices of the selected orders, in the order given. Orders without a generated
+   * invoice (or whose file cannot be fetched) are skipped and returned by order number.
+   */
+  async mergeInvoices(orderIds: string[]): Promise<{ success: boolean; file?: OrderExportFile; skipped?: string[]; error?: string }> {
+    try {
+      const { data: orders, error } = await this.supabase
+        .from('orders')
+        .select('id, order_id, invoice_pdf_url')
+        .in('id', orderIds)
+
+      if (error) {
+        return { success: false, error: error.message }
+      }
+
+      const byId = new Map((orders ?? []).map((o: { id: string; order_id: string; invoice_pdf_url: string | null }) => [o.id, o]))
+      const merged = await PDFDocument.create()
+      const skipped: string[] = []
+
+      for (const orderId of orderIds) {
+        const order = byId.get(orderId)
+        if (!order) continue
+        if (!order.invoice_pdf_url) {
+          skipped.push(order.order_id)
+          continue
+        }
+        try {
+          const response = await fetch(order.invoice_pdf_url)
+          if (!response.ok) throw new Error(`HTTP ${response.status}`)
+          const invoice = await PDFDocument.load(await response.arrayBuffer())
+          const pages = await merged.copyPages(invoice, invoice.getPageIndices())
+          pages.forEach((page) => merged.addPage(page))
+        } catch (fetchErr) {
+          console.warn('Invoice not added to bulk print for order', order.order_id, fetchErr)
+          skipped.push(order.order_id)
+        }
+      }
+
+      if (merged.getPageCount() === 0) {
+        return { success: false, skipped, error: 'None of the selected orders has an invoice to print' }
+      }
+
+      return {
+        success: true,
+        skipped,
+        file: {
+          filename: `invoices-${new Date().toISOString().slice(0, 10)}.pdf`,
+          contentType: 'application/pdf',
+          body: Buffer.from(await merged.save()),
+        },
+      }
+    } catch (err) {
+      console.error('Merge invoices error:', err)
+      return { success: false, error: err instanceof Error ? err.message : 'Failed to print invoices' }
+    }
+  }
+}
@@ -0,0 +1,533 @@
+import { createAdminClient } from '../config/supabase'
+import { DeliveryService } from './delivery.service'
+import { EmailService } from './email.service'
+import { OrderService } from './order.service'
+import { RefundService } from './refund.service'
+
+/**
+ * Rules-based risk scoring for paid online orders (see supabase-order-risk.sql). Each rule that fires adds
+ * its points; orders at or above the hold score are created as pending and wait in the review queue
+ * until an admin approves (→ processing) or rejects (→ cancelled, optionally refunded) them.
+ * Every rule hit is recorded, held or not, so the thresholds can be tuned against real orders.
+ */
+
+export type RiskRule = 'order_velocity' | 'first_order_value' | 'delivery_distance' | 'voucher_reuse' | 'payer_name_mismatch'
+
+/** Points each rule adds; the score is capped at 100 */
+export const RISK_RULE_POINTS: Readonly<Record<RiskRule, number>> = {
+  order_velocity: 35,
+  first_order_value: 25,
+  delivery_distance: 25,
+  voucher_reuse: 40,
+  payer_name_mismatch: 20,
+}
+
+export const RISK_RULE_LABELS: Readonly<Record<RiskRule, string>> = {
+  order_velocity: 'Many orders in a short time',
+  first_order_value: 'High-value first order',
+  delivery_distance: 'Far from the warehouse',
+  voucher_reuse: 'Voucher reused across accounts',
+  payer_name_mismatch: 'Payer name does not match account',
+}
+
+export interface OrderRiskSettings {
+  enabled: boolean
+  /** Orders scoring at least this are held for review */
+  holdScore: number
+  velocityWindowHours: number
+  /** More orders than this within the window fires order_velocity */
+  velocityMaxOrders: number
+  /** GHS; a first order above this fires first_order_value */
+  firstOrderMaxAmount: number
+  maxDistanceKm: number
+  voucherReuseDays: number
+  updatedAt: string | null
+}
+
+export interface OrderRiskInput {
+  userId: string
+  totalAmount: number
+  voucherCode?: string | null
+  deliveryLat?: number | null
+  deliveryLng?: number | null
+  deliveryPhone?: string | null
+  /** Name on the customer's account */
+  accountName?: string | null
+  /** Name the payment provider reports for the card or wallet */
+  payerName?: string | null
+}
+
+export interface RiskRuleHit {
+  rule: RiskRule
+  points: number
+  detail: string
+}
+
+export interface OrderRiskAssessment {
+  score: number
+  holdScore: number
+  held: boolean
+  hits: RiskRuleHit[]
+}
+
+export interface RiskReviewItem {
+  orderId: string
+  orderNumber: string
+  customerName: string
+  customerEmail: string | null
+  customerPhone: string | null
+  deliveryAddress: string
+  totalAmount: number
+  paymentMethod: string | null
+  score: number
+  holdScore: number
+  hits: RiskRuleHit[]
+  createdAt: string
+}
+
+export type RiskReviewDecision = 'approve' | 'reject'
+
+export interface RiskReviewResult {
+  orderId: string
+  decision: RiskReviewDecision
+  status: 'processing' | 'cancelled'
+  /** Set on rejections that asked for a refund */
+  refundRequested?: boolean
+  refundError?: string
+}
+
+interface SettingsRow {
+  enabled: boolean
+  hold_score: number
+  velocity_window_hours: number
+  velocity_max_orders: number
+  first_order_max_amount: number
+  max_distance_km: number
+  voucher_reuse_days: number
+  updated_at: string | null
+}
+
+const DEFAULT_SETTINGS_ID = 'd0000000-0000-0000-0000-000000000001'
+
+const SETTINGS_COLUMNS =
+  'enabled, hold_score, velocity_window_hours, velocity_max_orders, first_order_max_amount, max_distance_km, voucher_reuse_days, updated_at'
+
+/** Used until supabase-order-risk.sql has been run: orders are not scored */
+const DISABLED_SETTINGS: OrderRiskSettings = {
+  enabled: false,
+  holdScore: 50,
+  velocityWindowHours: 24,
+  velocityMaxOrders: 3,
+  firstOrderMaxAmount: 500,
+  maxDistanceKm: 30,
+  voucherReuseDays: 30,
+  updatedAt: null,
+}
+
+const REVIEW_QUEUE_LIMIT = 200
+
+function rowToSettings(row: SettingsRow): OrderRiskSettings {
+  return {
+    enabled: row.enabled === true,
+    holdScore: Number(row.hold_score) || DISABLED_SETTINGS.holdScore,
+    velocityWindowHours: Number(row.velocity_window_hours) || DISABLED_SETTINGS.velocityWindowHours,
+    velocityMaxOrders: Number(row.velocity_max_orders) || DISABLED_SETTINGS.velocityMaxOrders,
+    firstOrderMaxAmount: Number(row.first_order_max_amount) || 0,
+    maxDistanceKm: Number(row.max_distance_km) || DISABLED_SETTINGS.maxDistanceKm,
+    voucherReuseDays: Number(row.voucher_reuse_days) || DISABLED_SETTINGS.voucherReuseDays,
+    updatedAt: row.updated_at ?? null,
+  }
+}
+
+/** Last 9 digits, so 0241234567 and +233241234567 compare equal */
+function phoneKey(phone: string | null | undefined): string {
+  const digits = (phone ?? '').replace(/\D/g, '')
+  return digits.length >= 9 ? digits.slice(-9) : ''
+}
+
+function nameTokens(name: string | null | undefined): Set<string> {
+  return new Set(
+    (name ?? '')
+      .toLowerCase()
+      .split(/[^\p{L}]+/u)
+      .filter((t) => t.length >= 2)
+  )
+}
+
+function isRiskRule(value: unknown): value is RiskRule {
+  return typeof value === 'string' && value in RISK_RULE_POINTS
+}
+
+export class OrderRiskService {
+  private supabase = createAdminClient()
+  private deliveryService = new DeliveryService()
+  private emailService = new EmailService()
+
+  async getSettings(): Promise<OrderRiskSettings> {
+    const { data, error } = await this.supabase
+      .from('order_risk_settings')
+      .select(SETTINGS_COLUMNS)
+      .eq('id', DEFAULT_SETTINGS_ID)
+      .maybeSingle()
+
+    if (error || !data) {
+      if (error) console.warn('OrderRiskService getSettings error:', error.message)
+      return DISABLED_SETTINGS
+    }
+    return rowToSettings(data as SettingsRow)
+  }
+
+  async updateSettings(
+    params: Partial<Omit<OrderRiskSettings, 'updatedAt'>>,
+    adminId?: string
+  ): Promise<{ success: boolean; data?: OrderRiskSettings; error?: string }> {
+    const next = { ...(await this.getSettings()), ...params }
+
+    const { error } = await this.supabase
+      .from('order_risk_settings')
+      .upsert({
+        id: DEFAULT_SETTINGS_ID,
+        enabled: next.enabled,
+        hold_score: next.holdScore,
+        velocity_window_hours: next.velocityWindowHours,
+        velocity_max_orders: next.velocityMaxOrders,
+        first_order_max_amount: next.firstOrderMaxAmount,
+        max_distance_km: next.maxDistanceKm,
+        voucher_reuse_days: next.voucherReuseDays,
+        updated_at: new Date().toISOString(),
+        updated_by: adminId ?? null,
+      })
+
+    if (error) {
+      return { success: false, error: error.message }
+    }
+    return { success: true, data: await this.getSettings() }
+  }
+
+  /**
+   * Score an order before it is created. Returns null when scoring is off. A rule whose lookup fails is
+   * skipped rather than failing the order: the customer has already paid.
+   */
+  async assess(input: OrderRiskInput): Promise<OrderRiskAssessment | null> {
+    const settings = await this.getSettings()
+    if (!settings.enabled) return null
+
+    const checks: Array<() => Promise<RiskRuleHit[]>> = [
+      () => this.checkOrderHistory(input, settings),
+      () => this.checkDeliveryDistance(input, settings),
+      () => this.checkVoucherReuse(input, settings),
+      async () => this.checkPayerName(input),
+    ]
+
+    const hits: RiskRuleHit[] = []
+    for (const check of checks) {
+      try {
+        hits.push(...(await check()))
+      } catch (err) {
+        console.warn('Order risk rule skipped:', err)
+      }
+    }
+
+    const score = Math.min(100, hits.reduce((sum, h) => sum + h.points, 0))
+    return { score, holdScore: settings.holdScore, held: score >= settings.holdScore, hits }
+  }
+
+  /**
+   * Store the assessment and its rule hits for a created order, and tell the admin inbox when it was held.
+   * Non-fatal: the order exists either way.
+   */
+  async recordAssessment(
+    order: { id: string; orderNumber: string; userId: string; totalAmount: number },
+    assessment: OrderRiskAssessment
+  ): Promise<void> {
+    try {
+      const { data: row, error } = await this.supabase
+        .from('order_risk_assessments')
+        .insert({
+          order_id: order.id,
+          user_id: order.userId,
+          score: assessment.score,
+          hold_score: assessment.holdScore,
+          held: assessment.held,
+        })
+        .select('id')
+        .single()
+
+      if (error || !row) {
+        console.error(`Failed to record risk assessment for order ${order.orderNumber}:`, error)
+        return
+      }
+
+      if (assessment.hits.length > 0) {
+        const { error: hitsError } = await this.supabase.from('order_risk_rule_hits').insert(
+          assessment.hits.map((h) => ({
+            assessment_id: row.id,
+            order_id: order.id,
+            rule: h.rule,
+            points: h.points,
+            detail: h.detail,
+          }))
+        )
+        if (hitsError) console.error(`Failed to record risk rule hits for order ${order.orderNumber}:`, hitsError)
+      }
+    } catch (err) {
+      console.error('Record risk assessment error:', err)
+    }
+
+    if (!assessment.held) return
+
+    this.emailService
+      .sendAdminAlert({
+        subject: `Order ${order.orderNumber} held for review (risk ${assessment.score})`,
+        title: 'Order held for risk review',
+        intro: `Order ${order.orderNumber} (GHS ${order.totalAmount.toFixed(2)}) scored ${assessment.score}, at or above the hold score of ${assessment.holdScore}. It will not be packed until it is approved in the risk review queue.`,
+        lines: assessment.hits.map((h) => `${RISK_RULE_LABELS[h.rule]} (+${h.points}): ${h.detail}`),
+      })
+      .then((r) => {
+        if (!r.success) console.warn('Risk hold alert failed:', r.errors)
+      })
+      .catch((err) => console.error('Risk hold alert error:', err))
+  }
+
+  /** Held orders waiting for a decision, oldest first */
+  async getReviewQueue(): Promise<{ success: boolean; data?: RiskReviewItem[]; error?: string }> {
+    const { data: orders, error } = await this.supabase
+      .from('orders')
+      .select('id, order_id, user_id, total_amount, payment_method, delivery_address, created_at')
+      .eq('risk_review_status', 'pending')
+      .order('created_at', { ascending: true })
+      .limit(REVIEW_QUEUE_LIMIT)
+
+    if (error) {
+      return { success: false, error: error.message }
+    }
+
+    const list = orders ?? []
+    if (list.length === 0) return { success: true, data: [] }
+
+    const orderIds = list.map((o) => o.id as string)
+    const userIds = [...new Set(list.map((o) => o.user_id as string))]
+
+    const [{ data: assessments }, { data: hits }, { data: users }] = await Promise.all([
+      this.supabase.from('order_risk_assessments').select('order_id, score, hold_score').in('order_id', orderIds),
+      this.supabase
+        .from('order_risk_rule_hits')
+        .select('order_id, rule, points, detail')
+        .in('order_id', orderIds)
+        .order('points', { ascending: false }),
+      this.supabase.from('users').select('id, email, first_name, last_name').in('id', userIds),
+    ])
+
+    const assessmentByOrder = new Map((assessments ?? []).map((a) => [a.order_id as string, a]))
+    const userById = new Map((users ?? []).map((u) => [u.id as string, u]))
+    const hitsByOrder = new Map<string, RiskRuleHit[]>()
+    for (const h of hits ?? []) {
+      if (!isRiskRule(h.rule)) continue
+      const orderHits = hitsByOrder.get(h.order_id as string) ?? []
+      orderHits.push({ rule: h.rule, points: Number(h.points), detail: h.detail as string })
+      hitsByOrder.set(h.order_id as string, orderHits)
+    }
+
+    return {
+      success: true,
+      data: list.map((o) => {
+        const assessment = assessmentByOrder.get(o.id as string)
+        const user = userById.get(o.user_id as string)
+        const addr = o.delivery_address as { street?: string; city?: string; region?: string; phone?: string } | null
+        return {
+          orderId: o.id as string,
+          orderNumber: o.order_id as string,
+          customerName: user ? [user.first_name, user.last_name].filter(Boolean).join(' ') || user.email : 'Customer',
+          customerEmail: user?.email ?? null,
+          customerPhone: addr?.phone ?? null,
+          deliveryAddress: addr ? [addr.street, addr.city, addr.region].filter(Boolean).join(', ') : '',
+          totalAmount: Number(o.total_amount) || 0,
+          paymentMethod: (o.payment_method as string | null) ?? null,
+          score: Number(assessment?.score) || 0,
+          holdScore: Number(assessment?.hold_score) || 0,
+          hits: hitsByOrder.get(o.id as string) ?? [],
+          createdAt: o.created_at as string,
+        }
+      }),
+    }
+  }
+
+  /**
+   * Approve (→ processing) or reject (→ cancelled) a held order. The review status is claimed first so two
+   * admins cannot decide the same order, and put back if the status change fails.
+   */
+  async reviewOrder(params: {
+    orderId: string
+    decision: RiskReviewDecision
+    adminId?: string
+    note?: string
+    /** Rejections only: refund the online payment in full */
+    refund?: boolean
+  }): Promise<{ success: boolean; data?: RiskReviewResult; error?: string }> {
+    const reviewStatus = params.decision === 'approve' ? 'approved' : 'rejected'
+    const newStatus = params.decision === 'approve' ? 'processing' : 'cancelled'
+
+    const { data: claimed, error: claimError } = await this.supabase
+      .from('orders')
+      .update({ risk_review_status: reviewStatus })
+      .eq('id', params.orderId)
+      .eq('risk_review_status', 'pending')
+      .select('id, order_id')
+
+    if (claimError) {
+      return { success: false, error: claimError.message }
+    }
+    if (!claimed || claimed.length === 0) {
+      return { success: false, error: 'Order is not waiting for risk review' }
+    }
+
+    const note = params.note?.trim()
+    const reason = `${params.decision === 'approve' ? 'Approved' : 'Rejected'} after risk review${note ? `: ${note}` : ''}`
+    const statusResult = await new OrderService().updateOrderStatus(params.orderId, newStatus, params.adminId, reason)
+
+    if (!statusResult.success) {
+      await this.supabase
+        .from('orders')
+        .update({ risk_review_status: 'pending' })
+        .eq('id', params.orderId)
+        .eq('risk_review_status', reviewStatus)
+      return { success: false, error: statusResult.error || 'Failed to update order status' }
+    }
+
+    const { error: reviewError } = await this.supabase
+      .from('order_risk_assessments')
+      .update({
+        reviewed_by: params.adminId ?? null,
+        reviewed_at: new Date().toISOString(),
+        review_note: note || null,
+      })
+      .eq('order_id', params.orderId)
+    if (reviewError) console.warn(`Risk review not recorded for order ${params.orderId}:`, reviewError.message)
+
+    const result: RiskReviewResult = { orderId: params.orderId, decision: params.decision, status: newStatus }
+
+    if (params.decision === 'reject' && params.refund) {
+      const refund = await this.refundRejectedOrder(params.orderId, params.adminId)
+      result.refundRequested = refund.success
+      if (!refund.success) result.refundError = refund.error
+    }
+
+    return { success: true, data: result }
+  }
+
+  private async refundRejectedOrder(orderId: string, adminId?: string): Promise<{ success: boolean; error?: string }> {
+    const { data: transaction } = await this.supabase
+      .from('payment_transactions')
+      .select('id')
+      .eq('order_id', orderId)
+      .is('amendment_id', null)
+      .eq('status', 'success')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (!transaction) {
+      return { success: false, error: 'No successful payment found for this order' }
+    }
+
+    return new RefundService().createRefund({
+      paymentTransactionId: transaction.id,
+      reason: 'Order rejected after risk review',
+      requestedBy: adminId,
+    })
+  }
+
+  /** order_velocity and first_order_value, from the customer's earlier orders */
+  private async checkOrderHistory(input: OrderRiskInput, settings: OrderRiskSettings): Promise<RiskRuleHit[]> {
+    const since = new Date(Date.now() - settings.velocityWindowHours * 60 * 60 * 1000).toISOString()
+
+    const [recent, anyEarlier] = await Promise.all([
+      this.supabase
+        .from('orders')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', input.userId)
+        .gte('created_at', since),
+      this.supabase
+        .from('orders')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', input.userId)
+        .neq('status', 'failed'),
+    ])
+    if (recent.error) throw recent.error
+    if (anyEarlier.error) throw anyEarlier.error
+
+    const hits: RiskRuleHit[] = []
+    const recentCount = recent.count ?? 0
+    // This order is not created yet, so it counts on top of the earlier ones
+    if (recentCount + 1 > settings.velocityMaxOrders) {
+      hits.push({
+        rule: 'order_velocity',
+        points: RISK_RULE_POINTS.order_velocity,
+        detail: `${recentCount + 1} orders in the last ${settings.velocityWindowHours}h (limit ${settings.velocityMaxOrders})`,
+      })
+    }
+    if ((anyEarlier.count ?? 0) === 0 && input.totalAmount > settings.firstOrderMaxAmount) {
+      hits.push({
+        rule: 'first_order_value',
+        points: RISK_RULE_POINTS.first_order_value,
+        detail: `First order of GHS ${input.totalAmount.toFixed(2)} (limit GHS ${settings.firstOrderMaxAmount.toFixed(2)})`,
+      })
+    }
+    return hits
+  }
+
+  private async checkDeliveryDistance(input: OrderRiskInput, settings: OrderRiskSettings): Promise<RiskRuleHit[]> {
+    if (input.deliveryLat == null || input.deliveryLng == null) return []
+    const { distanceKm } = await this.deliveryService.calculateFee(input.deliveryLat, input.deliveryLng)
+    // No warehouse location set: distance is unknown
+    if (distanceKm == null || distanceKm <= settings.maxDistanceKm) return []
+    return [{
+      rule: 'delivery_distance',
+      points: RISK_RULE_POINTS.delivery_distance,
+      detail: `Delivery is ${distanceKm.toFixed(1)} km from the warehouse (limit ${settings.maxDistanceKm} km)`,
+    }]
+  }
+
+  /** Same voucher used by a different account delivering to the same phone number */
+  private async checkVoucherReuse(input: OrderRiskInput, settings: OrderRiskSettings): Promise<RiskRuleHit[]> {
+    const code = input.voucherCode?.trim().toUpperCase()
+    const phone = phoneKey(input.deliveryPhone)
+    if (!code || !phone) return []
+
+    const since = new Date(Date.now() - settings.voucherReuseDays * 24 * 60 * 60 * 1000).toISOString()
+    const { data, error } = await this.supabase
+      .from('orders')
+      .select('user_id, delivery_address')
+      .eq('voucher_code', code)
+      .neq('user_id', input.userId)
+      .gte('created_at', since)
+      .limit(500)
+    if (error) throw error
+
+    const otherAccounts = new Set(
+      (data ?? [])
+        .filter((o) => phoneKey((o.delivery_address as { phone?: string } | null)?.phone) === phone)
+        .map((o) => o.user_id as string)
+    )
+    if (otherAccounts.size === 0) return []
+
+    return [{
+      rule: 'voucher_reuse',
+      points: RISK_RULE_POINTS.voucher_reuse,
+      detail: `Voucher ${code} was used by ${otherAccounts.size} other account${otherAccounts.size === 1 ? '' : 's'} with the same phone number in the last ${settings.voucherReuseDays} days`,
+    }]
+  }
+
+  /** Fires only when both names are known and share no word, so initials and reordered names pass */
+  private checkPayerName(input: OrderRiskInput): RiskRuleHit[] {
+    const account = nameTokens(input.accountName)
+    const payer = nameTokens(input.payerName)
+    if (account.size === 0 || payer.size === 0) return []
+    if ([...payer].some((t) => account.has(t))) return []
+    return [{
+      rule: 'payer_name_mismatch',
+      points: RISK_RULE_POINTS.payer_name_mismatch,
+      detail: `Paid by "${input.payerName?.trim()}" for account "${input.accountName?.trim()}"`,
+    }]
+  }
+}
@@ -0,0 +1,378 @@
+import { createAdminClient } from '../config/supabase'
+import { ORDER_STATUS_LABELS, type OrderStatus } from '../config/order-status'
+import { EmailService } from './email.service'
+import { CronLockService } from './cron-lock.service'
+
+/**
+ * Stuck-order monitor (see supabase-order-sla.sql). Each monitored status has a threshold in minutes;
+ * time in the current status is taken from the latest order_status_history entry for it. Orders over
+ * the threshold are flagged, orders over twice the threshold are escalated, and each run emails admins
+ * a digest of anything newly flagged or escalated. Flags close when the order moves on.
+ */
+
+export type SlaStatus = Extract<OrderStatus, 'pending' | 'confirmed' | 'processing' | 'shipped'>
+
+export const SLA_STATUSES: readonly SlaStatus[] = ['pending', 'confirmed', 'processing', 'shipped']
+
+export interface OrderSlaThreshold {
+  status: SlaStatus
+  thresholdMinutes: number
+  enabled: boolean
+  updatedAt: string | null
+}
+
+export interface SlaCheckSummary {
+  checked: number
+  breached: number
+  escalated: number
+  resolved: number
+  notified: number
+  errors: string[]
+  skipped?: string
+}
+
+/** An order over its SLA, as listed under "needs attention" */
+export interface SlaBreach {
+  id: string
+  orderId: string
+  orderNumber: string
+  customerName: string
+  status: SlaStatus
+  statusSince: string
+  thresholdMinutes: number
+  minutesInStatus: number
+  escalationLevel: 1 | 2
+  breachedAt: string
+}
+
+interface ThresholdRow {
+  status: SlaStatus
+  threshold_minutes: number
+  enabled: boolean
+  updated_at: string | null
+}
+
+interface MonitoredOrderRow {
+  id: string
+  order_id: string
+  status: SlaStatus
+  created_at: string
+}
+
+interface BreachRow {
+  id: string
+  order_id: string
+  status: SlaStatus
+  status_since: string
+  threshold_minutes: number
+  escalation_level: number
+  notified_level: number
+  breached_at: string
+}
+
+/** Over this many times the threshold, a breach is escalated */
+const ESCALATE_AFTER_MULTIPLE = 2
+const ORDER_PAGE_SIZE = 500
+const HISTORY_BATCH_SIZE = 100
+
+const breachKey = (orderId: string, status: string, since: string) =>
+  `${orderId}|${status}|${new Date(since).toISOString()}`
+
+function formatDuration(minutes: number): string {
+  if (minutes < 60) return `${minutes}m`
+  const hours = Math.floor(minutes / 60)
+  const rest = minutes % 60
+  return rest ? `${hours}h ${rest}m` : `${hours}h`
+}
+
+export class OrderSlaService {
+  private supabase = createAdminClient()
+  private cronLock = new CronLockService()
+  private emailService = new EmailService()
+
+  private static readonly LOCK_JOB = 'order_sla_check'
+  private static readonly LOCK_TTL_MINUTES = 15
+
+  async getThresholds(): Promise<{ success: boolean; data?: OrderSlaThreshold[]; error?: string }> {
+    const { data, error } = await this.supabase
+      .from('order_sla_thresholds')
+      .select('status, threshold_minutes, enabled, updated_at')
+
+    if (error) {
+      return { success: false, error: error.message }
+    }
+
+    const rows = new Map(((data ?? []) as ThresholdRow[]).map((row) => [row.status, row]))
+    return {
+      success: true,
+      data: SLA_STATUSES.filter((status) => rows.has(status)).map((status) => {
+        const row = rows.get(status) as ThresholdRow
+        return {
+          status,
+          thresholdMinutes: row.threshold_minutes,
+          enabled: row.enabled,
+          updatedAt: row.updated_at,
+        }
+      }),
+    }
+  }
+
+  async updateThresholds(
+    thresholds: Array<{ status: SlaStatus; thresholdMinutes: number; enabled: boolean }>,
+    adminId?: string
+  ): Promise<{ success: boolean; data?: OrderSlaThreshold[]; error?: string }> {
+    const now = new Date().toISOString()
+    const { error } = await this.supabase
+      .from('order_sla_thresholds')
+      .upsert(
+        thresholds.map((t) => ({
+          status: t.status,
+          threshold_minutes: t.thresholdMinutes,
+          enabled: t.enabled,
+          updated_at: now,
+          updated_by: adminId ?? null,
+        })),
+        { onConflict: 'status' }
+      )
+
+    if (error) {
+      return { success: false, error: error.message }
+    }
+    return this.getThresholds()
+  }
+
+  /** One monitor pass: flag, escalate and close breaches, then email a digest of new ones */
+  async runCheck(): Promise<SlaCheckSummary> {
+    const summary: SlaCheckSummary = { checked: 0, breached: 0, escalated: 0, resolved: 0, notified: 0, errors: [] }
+
+    const acquired = await this.cronLock.acquire(OrderSlaService.LOCK_JOB, OrderSlaService.LOCK_TTL_MINUTES)
+    if (!acquired) {
+      return { ...summary, skipped: 'Lock held by another instance' }
+    }
+
+    try {
+      const thresholdsResult = await this.getThresholds()
+      if (!thresholdsResult.success) {
+        summary.errors.push(thresholdsResult.error || 'Failed to load SLA thresholds')
+        return summary
+      }
+      const thresholds = new Map(
+        (thresholdsResult.data ?? []).filter((t) => t.enabled).map((t) => [t.status, t.thresholdMinutes])
+      )
+
+      const orders = await this.getMonitoredOrders([...thresholds.keys()])
+      const since = await this.getStatusSince(orders)
+      summary.checked = orders.length
+
+      const { data: openData, error: openError } = await this.supabase
+        .from('order_sla_breaches')
+        .select('id, order_id, status, status_since, threshold_minutes, escalation_level, notified_level, breached_at')
+        .is('resolved_at', null)
+      if (openError) {
+        summary.errors.push(openError.message)
+        return summary
+      }
+      const open = new Map(
+        ((openData ?? []) as BreachRow[]).map((row) => [breachKey(row.order_id, row.status, row.status_since), row])
+      )
+
+      const now = Date.now()
+      const current = new Set<string>()
+      for (const order of orders) {
+        const threshold = thresholds.get(order.status)
+        const statusSince = since.get(order.id) ?? order.created_at
+        if (!threshold) continue
+
+        const key = breachKey(order.id, order.status, statusSince)
+        current.add(key)
+        const minutes = Math.floor((now - new Date(statusSince).getTime()) / 60000)
+        if (minutes < threshold) continue
+
+        const level = minutes >= threshold * ESCALATE_AFTER_MULTIPLE ? 2 : 1
+        const existing = open.get(key)
+        if (!existing) {
+          const { error } = await this.supabase
+            .from('order_sla_breaches')
+            .upsert(
+              {
+                order_id: order.id,
+                status: order.status,
+                status_since: statusSince,
+                threshold_minutes: threshold,
+                escalation_level: level,
+                escalated_at: level === 2 ? new Date(now).toISOString() : null,
+              },
+              { onConflict: 'order_id,status,status_since', ignoreDuplicates: true }
+            )
+          if (error) summary.errors.push(`${order.order_id}: ${error.message}`)
+          else summary.breached++
+        } else if (level > existing.escalation_level) {
+          const { error } = await this.supabase
+            .from('order_sla_breaches')
+            .update({ escalation_level: level, escalated_at: new Date(now).toISOString() })
+            .eq('id', existing.id)
+          if (error) summary.errors.push(`${order.order_id}: ${error.message}`)
+          else summary.escalated++
+        }
+      }
+
+      // Orders that moved on, or whose status is no longer monitored
+      const resolvedIds = [...open.entries()].filter(([key]) => !current.has(key)).map(([, row]) => row.id)
+      if (resolvedIds.length > 0) {
+        const { error } = await this.supabase
+          .from('order_sla_breaches')
+          .update({ resolved_at: new Date(now).toISOString() })
+          .in('id', resolvedIds)
+        if (error) summary.errors.push(error.message)
+        else summary.resolved = resolvedIds.length
+      }
+
+      summary.notified = await this.sendDigest(summary.errors)
+      return summary
+    } catch (err) {
+      console.error('Order SLA check error:', err)
+      summary.errors.push(err instanceof Error ? err.message : 'SLA check failed')
+      return summary
+    } finally {
+      await this.cronLock.release(OrderSlaService.LOCK_JOB)
+    }
+  }
+
+  /** Open breaches, most overdue first, for the dashboard */
+  async getOpenBreaches(): Promise<{ success: boolean; data?: SlaBreach[]; error?: string }> {
+    const { data, error } = await this.supabase
+      .from('order_sla_breaches')
+      .select('id, order_id, status, status_since, threshold_minutes, escalation_level, notified_level, breached_at')
+      .is('resolved_at', null)
+      .order('status_since', { ascending: true })
+
+    if (error) {
+      return { success: false, error: error.message }
+    }
+    return { success: true, data: await this.toBreaches((data ?? []) as BreachRow[]) }
+  }
+
+  private async getMonitoredOrders(statuses: SlaStatus[]): Promise<MonitoredOrderRow[]> {
+    if (statuses.length === 0) return []
+    const orders: MonitoredOrderRow[] = []
+    for (let offset = 0; ; offset += ORDER_PAGE_SIZE) {
+      const { data, error } = await this.supabase
+        .from('orders')
+        .select('id, order_id, status, created_at')
+        .in('status', statuses)
+        .order('created_at', { ascending: true })
+        .range(offset, offset + ORDER_PAGE_SIZE - 1)
+      if (error) throw new Error(error.message)
+      const batch = (data ?? []) as MonitoredOrderRow[]
+      orders.push(...batch)
+      if (batch.length < ORDER_PAGE_SIZE) break
+    }
+    return orders
+  }
+
+  /** When each order entered its current status: the latest history entry for that status */
+  private async getStatusSince(orders: MonitoredOrderRow[]): Promise<Map<string, string>> {
+    const since = new Map<string, string>()
+    const statusById = new Map(orders.map((o) => [o.id, o.status]))
+    for (let i = 0; i < orders.length; i += HISTORY_BATCH_SIZE) {
+      const ids = orders.slice(i, i + HISTORY_BATCH_SIZE).map((o) => o.id)
+      const { data, error } = await this.supabase
+        .from('order_status_history')
+        .select('order_id, new_status, created_at')
+        .in('order_id', ids)
+        .order('created_at', { ascending: false })
+      if (error) throw new Error(error.message)
+      for (const row of (data ?? []) as Array<{ order_id: string; new_status: string; created_at: string }>) {
+        if (!since.has(row.order_id) && row.new_status === statusById.get(row.order_id)) {
+          since.set(row.order_id, row.created_at)
+        }
+      }
+    }
+    return since
+  }
+
+  /** Email breaches not yet sent at their current level; returns how many were included */
+  private async sendDigest(errors: string[]): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('order_sla_breaches')
+      .select('id, order_id, status, status_since, threshold_minutes, escalation_level, notified_level, breached_at')
+      .is('resolved_at', null)
+      .order('status_since', { ascending: true })
+    if (error) {
+      errors.push(error.message)
+      return 0
+    }
+
+    const pending = ((data ?? []) as BreachRow[]).filter((row) => row.notified_level < row.escalation_level)
+    if (pending.length === 0) return 0
+
+    const breaches = await this.toBreaches(pending)
+    const escalated = breaches.filter((b) => b.escalationLevel === 2).length
+    const lines = breaches.map((b) =>
+      `${b.escalationLevel === 2 ? '[ESCALATED] ' : ''}${b.orderNumber} (${b.customerName}): ` +
+      `${ORDER_STATUS_LABELS[b.status]} for ${formatDuration(b.minutesInStatus)}, SLA ${formatDuration(b.thresholdMinutes)}`
+    )
+
+    const result = await this.emailService.sendAdminAlert({
+      subject: `${breaches.length} order${breaches.length === 1 ? '' : 's'} need${breaches.length === 1 ? 's' : ''} attention${escalated ? ` (${escalated} escalated)` : ''}`,
+      title: 'Orders over their SLA',
+      intro: `These orders have stayed in their status longer than allowed. Escalated orders are over ${ESCALATE_AFTER_MULTIPLE}× their SLA.`,
+      lines,
+    })
+    if (!result.success) {
+      errors.push(`Digest not sent: ${result.errors?.[0] ?? result.message}`)
+      return 0
+    }
+
+    for (const level of [1, 2]) {
+      const ids = pending.filter((row) => row.escalation_level === level).map((row) => row.id)
+      if (ids.length === 0) continue
+      const { error: updateError } = await this.supabase
+        .from('order_sla_breaches')
+        .update({ notified_level: level })
+        .in('id', ids)
+      if (updateError) errors.push(updateError.message)
+    }
+    return pending.length
+  }
+
+  private async toBreaches(rows: BreachRow[]): Promise<SlaBreach[]> {
+    if (rows.length === 0) return []
+    const { data: orders } = await this.supabase
+      .from('orders')
+      .select('id, order_id, user_id')
+      .in('id', [...new Set(rows.map((row) => row.order_id))])
+    const orderMap = new Map(
+      ((orders ?? []) as Array<{ id: string; order_id: string; user_id: string | null }>).map((o) => [o.id, o])
+    )
+
+    const userIds = [...new Set([...orderMap.values()].map((o) => o.user_id).filter((id): id is string => !!id))]
+    const names = new Map<string, string>()
+    if (userIds.length > 0) {
+      const { data: users } = await this.supabase
+        .from('users')
+        .select('id, email, first_name, last_name')
+        .in('id', userIds)
+      for (const u of (users ?? []) as Array<{ id: string; email?: string; first_name?: string; last_name?: string }>) {
+        names.set(u.id, [u.first_name, u.last_name].filter(Boolean).join(' ') || u.email || 'Customer')
+      }
+    }
+
+    const now = Date.now()
+    return rows.map((row) => {
+      const order = orderMap.get(row.order_id)
+      return {
+        id: row.id,
+        orderId: row.order_id,
+        orderNumber: order?.order_id ?? row.order_id,
+        customerName: (order?.user_id && names.get(order.user_id)) || 'Customer',
+        status: row.status,
+        statusSince: row.status_since,
+        thresholdMinutes: row.threshold_minutes,
+        minutesInStatus: Math.floor((now - new Date(row.status_since).getTime()) / 60000),
+        escalationLevel: row.escalation_level === 2 ? 2 : 1,
+        breachedAt: row.breached_at,
+      }
+    })
+  }
+}
@@ -0,0 +1,238 @@
+import { createAdminClient } from '../config/supabase'
+import { OrderStatus, ORDER_STATUS_LABELS, isOrderStatus } from '../config/order-status'
+import { isCodPaymentMethod } from './cod.service'
+
+/**
+ * Order tracking (see supabase-order-tracking.sql).
+ * Builds a customer-facing timeline for an order from orders, order_status_history, order_amendments,
+ * cod_collections and refunds. The timeline only carries event types, labels, customer copy and
+ * timestamps: history reasons, admin identities, rider identities and rider notes stay internal. The same timeline is
+ * served to the signed-in customer and on the public tracking page (/track/<tracking_token>).
+ */
+
+export type TrackingEventType =
+  | 'order_placed'
+  | 'payment_confirmed'
+  | 'invoice_generated'
+  | 'status_changed'
+  | 'order_updated'
+  | 'delivery_verified'
+  | 'refund_processed'
+  | 'rider_assigned'
+
+export interface TrackingEvent {
+  type: TrackingEventType
+  /** Order status after the event, for status changes and delivery */
+  status?: OrderStatus
+  label: string
+  description: string
+  at: string
+}
+
+export interface OrderTracking {
+  orderNumber: string
+  status: OrderStatus | string
+  statusLabel: string
+  statusDescription: string
+  paymentStatus: string
+  payOnDelivery: boolean
+  totalAmount: number
+  currency: string
+  itemCount: number
+  placedAt: string
+  trackingUrl: string
+  timeline: TrackingEvent[]
+}
+
+/** What each status means for the customer. */
+const STATUS_DESCRIPTIONS: Record<OrderStatus, string> = {
+  pending: 'We have received your order.',
+  confirmed: 'Your order has been confirmed.',
+  processing: 'We are preparing your order.',
+  shipped: 'Your order is on its way.',
+  delivered: 'Your order has been delivered.',
+  cancelled: 'Your order has been cancelled.',
+  refunded: 'Your order has been refunded.',
+  failed: 'Your order could not be completed.',
+}
+
+/** History reasons written by delivery verification (OrderService.verifyDeliveryBy*) */
+const DELIVERY_VERIFICATION_REASONS: Record<string, string> = {
+  'Delivery confirmed by code': 'Delivery confirmed with your delivery code.',
+  'Delivery confirmed by QR/token': 'Delivery confirmed by scanning your QR code.',
+}
+
+const TRACKING_ORDER_COLUMNS = 'id, order_id, user_id, status, payment_status, payment_method, paid_at, total_amount, currency, invoice_generated_at, rider_assigned_at, tracking_token, created_at, order_items (quantity)'
+
+interface TrackedOrderRow {
+  id: string
+  order_id: string
+  user_id: string
+  status: string
+  payment_status: string
+  payment_method: string | null
+  paid_at: string | null
+  total_amount: number
+  currency: string | null
+  invoice_generated_at: string | null
+  rider_assigned_at: string | null
+  tracking_token: string
+  created_at: string
+  order_items: Array<{ quantity: number }>
+}
+
+export function getTrackingUrl(trackingToken: string): string {
+  return `${process.env.FRONTEND_URL || ''}/track/${trackingToken}`
+}
+
+export class OrderTrackingService {
+  private supabase = createAdminClient()
+
+  /** Tracking for the signed-in customer's own order. */
+  async getOrderTracking(orderId: string, userId: string): Promise<OrderTracking | null> {
+    const { data: order } = await this.supabase
+      .from('orders')
+      .select(TRACKING_ORDER_COLUMNS)
+      .eq('id', orderId)
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    return order ? this.buildTracking(order as TrackedOrderRow) : null
+  }
+
+  /** Tracking for the public page; the token is the only credential. */
+  async getPublicTracking(trackingToken: string): Promise<OrderTracking | null> {
+    const { data: order } = await this.supabase
+      .from('orders')
+      .select(TRACKING_ORDER_COLUMNS)
+      .eq('tracking_token', trackingToken)
+      .maybeSingle()
+
+    return order ? this.buildTracking(order as TrackedOrderRow) : null
+  }
+
+  private async buildTracking(order: TrackedOrderRow): Promise<OrderTracking> {
+    const [{ data: history }, { data: amendments }, { data: collection }, { data: refunds }] = await Promise.all([
+      this.supabase
+        .from('order_status_history')
+        .select('old_status, new_status, reason, created_at')
+        .eq('order_id', order.id)
+        .order('created_at', { ascending: true }),
+      this.supabase
+        .from('order_amendments')
+        .select('new_total, applied_at')
+        .eq('order_id', order.id)
+        .eq('status', 'applied'),
+      this.supabase
+        .from('cod_collections')
+        .select('method, collected_at')
+        .eq('order_id', order.id)
+        .maybeSingle(),
+      this.supabase
+        .from('refunds')
+        .select('amount, currency, processed_at')
+        .eq('order_id', order.id)
+        .eq('status', 'processed'),
+    ])
+
+    const currency = order.currency || 'GHS'
+    const payOnDelivery = isCodPaymentMethod(order.payment_method)
+    const timeline: TrackingEvent[] = [{
+      type: 'order_placed',
+      label: 'Order placed',
+      description: payOnDelivery
+        ? 'Your order was placed. Please pay the rider on delivery.'
+        : 'Your order was placed.',
+      at: order.created_at,
+    }]
+
+    if (collection?.collected_at) {
+      timeline.push({
+        type: 'payment_confirmed',
+        label: 'Payment received',
+        description: collection.method === 'mobile_money'
+          ? 'You paid the rider by mobile money.'
+          : 'You paid the rider in cash.',
+        at: collection.collected_at,
+      })
+    } else if (order.paid_at && !payOnDelivery) {
+      timeline.push({
+        type: 'payment_confirmed',
+        label: 'Payment confirmed',
+        description: `We received your payment of ${currency} ${Number(order.total_amount).toFixed(2)}.`,
+        at: order.paid_at,
+      })
+    }
+
+    if (order.invoice_generated_at) {
+      timeline.push({
+        type: 'invoice_generated',
+        label: 'Invoice ready',
+        description: 'Your invoice has been generated.',
+        at: order.invoice_generated_at,
+      })
+    }
+
+    // Only the current assignment is kept on the order; who the rider is stays internal
+    if (order.rider_assigned_at) {
+      timeline.push({
+        type: 'rider_assigned',
+        label: 'Rider assigned',
+        description: 'A rider has been assigned to deliver your order.',
+        at: order.rider_assigned_at,
+      })
+    }
+
+    for (const row of history ?? []) {
+      // Notes on an unchanged status (refunds, amendments, collections) and the creation row are internal
+      if (!row.old_status || row.old_status === row.new_status || !isOrderStatus(row.new_status)) continue
+
+      const deliveryDescription = row.new_status === 'delivered' ? DELIVERY_VERIFICATION_REASONS[row.reason ?? ''] : undefined
+      timeline.push({
+        type: deliveryDescription ? 'delivery_verified' : 'status_changed',
+        status: row.new_status,
+        label: ORDER_STATUS_LABELS[row.new_status],
+        description: deliveryDescription ?? STATUS_DESCRIPTIONS[row.new_status],
+        at: row.created_at,
+      })
+    }
+
+    for (const amendment of amendments ?? []) {
+      if (!amendment.applied_at) continue
+      timeline.push({
+        type: 'order_updated',
+        label: 'Order updated',
+        description: `The items in your order were changed. New total: ${currency} ${Number(amendment.new_total).toFixed(2)}.`,
+        at: amendment.applied_at,
+      })
+    }
+
+    for (const refund of refunds ?? []) {
+      if (!refund.processed_at) continue
+      timeline.push({
+        type: 'refund_processed',
+        label: 'Refund issued',
+        description: `${refund.currency || currency} ${Number(refund.amount).toFixed(2)} was refunded to your original payment method.`,
+        at: refund.processed_at,
+      })
+    }
+
+    timeline.sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime())
+
+    const status = order.status
+    return {
+      orderNumber: order.order_id,
+      status,
+      statusLabel: isOrderStatus(status) ? ORDER_STATUS_LABELS[status] : status,
+      statusDescription: isOrderStatus(status) ? STATUS_DESCRIPTIONS[status] : '',
+      paymentStatus: order.payment_status,
+      payOnDelivery,
+      totalAmount: Number(order.total_amount),
+      currency,
+      itemCount: (order.order_items ?? []).reduce((sum, item) => sum + (Number(item.quantity) || 0), 0),
+      placedAt: order.created_at,
+      trackingUrl: getTrackingUrl(order.tracking_token),
+      timeline,
+    }
+  }
+}
@@ -1,14 +1,55 @@
 import { createAdminClient } from '../config/supabase'
 import { safeErrorMessage } from '../utils/safeError'
-import { PaystackService } from './paystack.service'
+import { getPaymentProvider, generatePaymentReference, type PaymentProvider } from './payment-provider.service'
 import { PDFInvoiceService, InvoiceData } from './pdf-invoice.service'
 import { EmailService } from './email.service'
 import { VoucherService } from './voucher.service'
-import { DeliveryService } from './delivery.service'
+import { DeliveryService, fixedFeeBreakdown, type DeliveryFeeBreakdown } from './delivery.service'
+import { InventoryService, assignBackordered } from './inventory.service'
+import { StoreCreditService } from './store-credit.service'
+import { DeliverySlotService, type DeliverySlotSelection } from './delivery-slot.service'
+import { TaxService, type TaxBreakdown } from './tax.service'
+import { WarehouseService, allocateToWarehouses, planReservationItems, type FulfilmentPlan } from './warehouse.service'
+import { OrderRiskService, type OrderRiskAssessment } from './order-risk.service'
+import { RiderService, type DeliveryConfirmer, type DeliveryProofInput } from './rider.service'
+import {
+  DeliveryCodeService,
+  DELIVERY_CODE_RIDER_BINDING,
+  deliveryCodeLockedMessage,
+  deliveryCodeLockedUntil,
+  type DeliveryVerificationMethod,
+  type DeliveryVerificationOutcome,
+  type VerificationSource,
+} from './delivery-code.service'
+import { CodService, isCodPaymentMethod, type CheckoutPaymentMethod, type CodCollectionInput, type CodPaymentMethod } from './cod.service'
+import {
+  OrderStatus,
+  ORDER_STATUS_LABELS,
+  REFUND_ONLY_ORDER_STATUSES,
+  canTransitionOrderStatus,
+  getManualNextStatuses,
+  isOrderStatus,
+} from '../config/order-status'
+import { getTrackingUrl } from './order-tracking.service'
+import { MANUAL_PAYMENT_PROVIDER, type ManualOrderChannel, type OfflinePaymentMethod } from './admin-order.service'
 import { v4 as uuidv4 } from 'uuid'
 
 const ACTIVE_ORDER_STATUSES = ['pending', 'processing', 'shipped', 'confirmed']
-const DELIVERY_CODE_MAX_ATTEMPTS = 50
+
+const VERIFIABLE_ORDER_COLUMNS =
+  'id, order_id, status, payment_method, rider_id, rider_assigned_at, delivery_code, delivery_code_locked_until'
+/** Paystack channels stored as orders.payment_method; anything else is stored as 'paystack' */
+const ONLINE_PAYMENT_CHANNELS = ['card', 'mobile_money', 'bank_transfer', 'bank', 'ussd', 'qr', 'eft']
+/** Most orders one bulk action (status change, invoice print) may select */
+export const BULK_ORDER_LIMIT = 100
+
+/** Customer email copy per status; statuses without an entry do not notify. */
+const STATUS_EMAIL_MESSAGES: Partial<Record<OrderStatus, string>> = {
+  shipped: 'Your order is on its way. Share the delivery code below with the rider when your groceries arrive.',
+  delivered: 'Your order has been delivered. Thank you for shopping with Grovio!',
+  cancelled: 'Your order has been cancelled. If you were charged, the refund will go back to your original payment method.',
+  refunded: 'A refund for your order has been issued to your original payment method.',
+}
 
 /**
  * Comprehensive Order Management Service
@@ -40,6 +81,14 @@ export interface CreatePendingOrderParams {
   /** Optional customer coords so server can compute delivery fee; if missing, default fee is used. */
   deliveryLat?: number
   deliveryLng?: number
+  /** 'online' (default) redirects to the payment provider; pay-on-delivery creates the order directly. */
+  paymentMethod?: CheckoutPaymentMethod
+  /** Admin orders only: payment already taken outside the app, so the order is created as paid */
+  paidOffline?: { method: OfflinePaymentMethod; note?: string }
+  /** Set when an admin places the order for the customer (see AdminOrderService) */
+  placedBy?: { adminId: string; channel: ManualOrderChannel }
+  /** Delivery slot to hold for the checkout (see DeliverySlotService) */
+  deliverySlot?: DeliverySlotSelection
 }
 
 export interface InitializePaymentResult {
@@ -49,6 +98,144 @@ export interface InitializePaymentResult {
   authorizationUrl?: string
   accessCode?: string
   amount?: number
+  paymentMethod?: CheckoutPaymentMethod
+  /** Set for pay-on-delivery checkouts, which are confirmed immediately */
+  order?: VerifyPaymentResult
+  error?: string
+}
+
+export interface OrderPricingParams {
+  userId: string
+  cartItems: CartItem[]
+  voucherCode?: string | null
+  credits?: number
+  deliveryLat?: number | null
+  deliveryLng?: number | null
+  /** Delivery fee kept as is when there are no coordinates (default: priced like a checkout without a pin) */
+  fallbackDeliveryFee?: number
+  /** Time peak surcharges are checked against (default: now; amendments use the order's creation time) */
+  deliveryPricedAt?: Date
+  /** Unit prices to keep instead of the current product price (amendments keep what was paid) */
+  unitPrices?: Map<string, number>
+  /** Re-apply a voucher that is already on the order: no validity, usage or assignment checks */
+  existingVoucher?: boolean
+  /** Order already accepted for delivery: no blocked-zone or minimum order checks */
+  skipDeliveryZoneChecks?: boolean
+  /** Warehouse the order ships from (default: the nearest one delivering to the pin) */
+  deliveryOrigin?: { lat: number; lng: number } | null
+}
+
+export interface CartSnapshotItem {
+  productId: string
+  name: string
+  description: string | null
+  price: number
+  quantity: number
+  total: number
+  category: string | null
+  image: string | null
+}
+
+export interface OrderPricingResult {
+  success: boolean
+  cartSnapshot?: CartSnapshotItem[]
+  subtotal?: number
+  discount?: number
+  deliveryFee?: number
+  deliveryFeeBreakdown?: DeliveryFeeBreakdown
+  /** Delivery zone the pin fell in, if any */
+  deliveryZoneId?: string | null
+  /** Null while tax is switched off */
+  tax?: TaxBreakdown | null
+  /** Included in the prices or added to totalAmount, per tax.pricesIncludeTax */
+  taxAmount?: number
+  totalAmount?: number
+  /** Set when an order's existing voucher no longer applies to the new subtotal */
+  voucherNote?: string
+  error?: string
+}
+
+/** pending_orders row as read back for conversion into an order */
+interface PendingOrderRow {
+  pending_order_id: string
+  user_id: string
+  cart_items: Array<Record<string, unknown>>
+  subtotal: number
+  discount: number
+  credits: number
+  delivery_fee: number | null
+  delivery_fee_breakdown?: DeliveryFeeBreakdown | null
+  tax_amount?: number | null
+  tax_breakdown?: TaxBreakdown | null
+  total_amount: number
+  delivery_address: DeliveryAddress
+  delivery_notes: string | null
+  voucher_code?: string | null
+  delivery_lat?: number | null
+  delivery_lng?: number | null
+  delivery_zone_id?: string | null
+  warehouse_id?: string | null
+  fulfilment_plan?: FulfilmentPlan | null
+  payment_access_code: string | null
+  metadata: { userName?: string; userEmail?: string; placedByAdminId?: string; orderChannel?: ManualOrderChannel } | null
+}
+
+/** How a new order is paid: online (already paid) or to the rider on delivery. */
+interface OrderPaymentDetails {
+  /** orders.payment_method; must match the DB CHECK */
+  method: string
+  status: 'paid' | 'pending'
+  paidAt: string | null
+  metadata: Record<string, unknown>
+  /** Applied to the checkout's payment_transactions row; omitted when there is none */
+  transactionUpdate?: Record<string, unknown>
+  historyReason: string
+  /** Risk score for online payments; held orders start as pending instead of processing */
+  risk?: OrderRiskAssessment | null
+}
+
+export interface DeliveryVerificationResult {
+  success: boolean
+  orderId?: string
+  orderNumber?: string
+  /** Delivery succeeded but something else (e.g. recording a COD collection) did not */
+  warning?: string
+  error?: string
+}
+
+/** Who is verifying, for the audit trail, and which order a code is for */
+export interface DeliveryVerificationOptions {
+  /** The order the code is for; wrong codes count against it. Required for code checks. */
+  orderId?: string
+  source?: VerificationSource
+}
+
+/** Order row read when confirming a delivery */
+interface VerifiableOrderRow {
+  id: string
+  order_id: string
+  status: string
+  payment_method: string | null
+  rider_id: string | null
+  rider_assigned_at: string | null
+  delivery_code: string | null
+  delivery_code_locked_until: string | null
+}
+
+/** Filters for the admin order list and its CSV/XLSX export. Dates are YYYY-MM-DD, both inclusive. */
+export interface AdminOrderFilters {
+  status?: string
+  paymentStatus?: string
+  from?: string
+  to?: string
+  /** Order number, or customer name, email or phone */
+  search?: string
+}
+
+export interface BulkStatusResult {
+  orderId: string
+  success: boolean
+  status?: OrderStatus
   error?: string
 }
 
@@ -61,47 +248,41 @@ export interface VerifyPaymentResult {
   imageUrl?: string
   deliveryCode?: string
   deliveryVerificationToken?: string
+  trackingUrl?: string
   error?: string
 }
 
 export class OrderService {
-  private paystack: PaystackService
   private pdfService: PDFInvoiceService
   private emailService: EmailService
   private voucherService: VoucherService
+  private inventoryService: InventoryService
+  private codService: CodService
+  private storeCreditService: StoreCreditService
+  private deliverySlotService: DeliverySlotService
+  private taxService: TaxService
+  private orderRiskService: OrderRiskService
+  private warehouseService: WarehouseService
+  private riderService: RiderService
+  private deliveryCodeService: DeliveryCodeService
   private supabase
 
   constructor() {
-    this.paystack = new PaystackService()
     this.pdfService = new PDFInvoiceService()
     this.emailService = new EmailService()
     this.voucherService = new VoucherService()
+    this.inventoryService = new InventoryService()
+    this.codService = new CodService()
+    this.storeCreditService = new StoreCreditService()
+    this.deliverySlotService = new DeliverySlotService()
+    this.taxService = new TaxService()
+    this.orderRiskService = new OrderRiskService()
+    this.warehouseService = new WarehouseService()
+    this.riderService = new RiderService()
+    this.deliveryCodeService = new DeliveryCodeService()
     this.supabase = createAdminClient()
   }
 
-  /**
-   * Generate a 4-digit delivery code unique among active (non-delivered, non-cancelled) orders.
-   * Codes from delivered/cancelled orders can be reused.
-   */
-  private async generateUniqueDeliveryCode(): Promise<string> {
-    const { data: activeCodes } = await this.supabase
-      .from('orders')
-      .select('delivery_code')
-      .not('delivery_code', 'is', null)
-      .in('status', ACTIVE_ORDER_STATUSES)
-
-    const usedSet = new Set((activeCodes || []).map((r: { delivery_code: string }) => r.delivery_code?.trim()).filter(Boolean))
-
-    for (let i = 0; i < DELIVERY_CODE_MAX_ATTEMPTS; i++) {
-      const code = String(1000 + Math.floor(Math.random() * 9000))
-      if (!usedSet.has(code)) return code
-    }
-    // Fallback: use last 4 digits of timestamp + random to avoid collision
-    const fallback = String(Date.now() % 10000).padStart(4, '0')
-    if (!usedSet.has(fallback)) return fallback
-    return String(10000 + Math.floor(Math.random() * 90000)).slice(0, 5)
-  }
-
   /**
    * Ensure an order has delivery_code and delivery_verification_token if it is still active.
    * Used for old orders created before delivery verification was added. Delivered/cancelled orders are not updated.
@@ -118,7 +299,7 @@ export class OrderService {
       if (!ACTIVE_ORDER_STATUSES.includes((order.status as string))) return null
       if (order.delivery_code && order.delivery_verification_token) return null
 
-      const deliveryCode = await this.generateUniqueDeliveryCode()
+      const deliveryCode = await this.deliveryCodeService.generateUniqueCode()
       const deliveryVerificationToken = uuidv4()
 
       const { error: updateError } = await this.supabase
@@ -138,85 +319,88 @@ export class OrderService {
   }
 
   /**
-   * Create pending order and initialize payment
+   * Price a cart on the server: products, subtotal, voucher discount, delivery fee, tax and total.
+   * Checkout and order amendments both go through here so they charge the same way.
    */
-  async createPendingOrder(params: CreatePendingOrderParams): Promise<InitializePaymentResult> {
-    try {
-      const { userId, cartItems, deliveryAddress, voucherCode, credits = 0, deliveryNotes, deliveryLat, deliveryLng } = params
-      const deliveryService = new DeliveryService()
-      const lat = deliveryLat != null && deliveryLng != null && Number.isFinite(deliveryLat) && Number.isFinite(deliveryLng)
-        ? deliveryLat
-        : null
-      const lng = lat !== null ? deliveryLng! : null
-      const { deliveryFee: computedFee } = lat != null && lng != null
-        ? await deliveryService.calculateFee(lat, lng)
-        : { deliveryFee: DeliveryService.DEFAULT_DELIVERY_FEE }
-      const deliveryFeeNum = Math.max(0, computedFee)
+  async calculateOrderPricing(params: OrderPricingParams): Promise<OrderPricingResult> {
+    const { userId, cartItems, voucherCode, credits = 0, deliveryLat, deliveryLng, unitPrices, existingVoucher = false, skipDeliveryZoneChecks = false } = params
 
-      // 1. Get user details
-      const { data: user, error: userError } = await this.supabase
-        .from('users')
-        .select('*')
-        .eq('id', userId)
-        .single()
+    const productIds = cartItems.map(item => item.productId)
+    const { data: products, error: productsError } = await this.supabase
+      .from('products')
+      .select('*')
+      .in('id', productIds)
 
-      if (userError || !user) {
-        return {
-          success: false,
-          error: 'User not found',
-        }
+    if (productsError || !products || products.length === 0) {
+      return {
+        success: false,
+        error: 'Products not found',
       }
+    }
 
-      // 2. Validate and fetch products
-      const productIds = cartItems.map(item => item.productId)
-      const { data: products, error: productsError } = await this.supabase
-        .from('products')
-        .select('*')
-        .in('id', productIds)
-
-      if (productsError || !products || products.length === 0) {
+    for (const cartItem of cartItems) {
+      const product = products.find(p => p.id === cartItem.productId)
+      if (!product) {
         return {
           success: false,
-          error: 'Products not found',
+          error: `Product ${cartItem.productId} not found`,
         }
       }
+    }
 
-      // 3. Validate products exist (stock/quantity check skipped for now so any quantity can be ordered)
-      for (const cartItem of cartItems) {
-        const product = products.find(p => p.id === cartItem.productId)
-        if (!product) {
-          return {
-            success: false,
-            error: `Product ${cartItem.productId} not found`,
-          }
-        }
-        // Optional: re-enable when inventory is properly set
-        // if (product.quantity != null && product.in_stock === false) { ... }
-        // if (product.quantity != null && product.quantity < cartItem.quantity) { ... }
+    let subtotal = 0
+    const cartSnapshot: CartSnapshotItem[] = cartItems.map(cartItem => {
+      const product = products.find(p => p.id === cartItem.productId)!
+      const price = unitPrices?.get(product.id) ?? product.price
+      const itemTotal = price * cartItem.quantity
+      subtotal += itemTotal
+
+      return {
+        productId: product.id,
+        name: product.name,
+        description: product.description,
+        price,
+        quantity: cartItem.quantity,
+        total: itemTotal,
+        category: product.category_name,
+        image: product.images?.[0] || null,
       }
+    })
+
+    // Priced after the subtotal, which decides free delivery
+    const delivery = await new DeliveryService().calculateFee(deliveryLat ?? null, deliveryLng ?? null, {
+      subtotal,
+      at: params.deliveryPricedAt,
+      fallbackFee: params.fallbackDeliveryFee,
+      origin: params.deliveryOrigin,
+    })
+    if (!delivery.deliverable && !skipDeliveryZoneChecks) {
+      return { success: false, error: delivery.message || 'We cannot deliver to this address.' }
+    }
+    const deliveryFeeBreakdown = delivery.deliverable
+      ? delivery.breakdown
+      : fixedFeeBreakdown(params.fallbackDeliveryFee ?? DeliveryService.DEFAULT_DELIVERY_FEE)
+    const deliveryFee = deliveryFeeBreakdown.total
 
-      // 4. Calculate totals
-      let subtotal = 0
-      const cartSnapshot = cartItems.map(cartItem => {
-        const product = products.find(p => p.id === cartItem.productId)!
-        const itemTotal = product.price * cartItem.quantity
-        subtotal += itemTotal
+    const zone = delivery.zone
+    if (zone && zone.minOrderValue > 0 && subtotal < zone.minOrderValue && !skipDeliveryZoneChecks) {
+      return {
+        success: false,
+        error: `Orders delivered to ${zone.name} must be at least GHS ${zone.minOrderValue.toFixed(2)}. Add GHS ${(zone.minOrderValue - subtotal).toFixed(2)} more to check out.`,
+      }
+    }
 
-        return {
-          productId: product.id,
-          name: product.name,
-          description: product.description,
-          price: product.price,
-          quantity: cartItem.quantity,
-          total: itemTotal,
-          category: product.category_name,
-          image: product.images?.[0] || null,
+    // Validate voucher server-side only; never trust client-supplied discount amount
+    let discount = 0
+    let voucherNote: string | undefined
+    if (voucherCode && voucherCode.trim()) {
+      if (existingVoucher) {
+        const recalculated = await this.voucherService.recalculateDiscount(voucherCode, subtotal)
+        discount = recalculated.discountAmount ?? 0
+        if (!recalculated.valid) {
+          voucherNote = `Voucher ${voucherCode.trim().toUpperCase()} no longer applies: ${recalculated.error}`
         }
-      })
-
-      // Validate voucher server-side only; never trust client-supplied discount amount
-      let discount = 0
-      if (voucherCode && voucherCode.trim()) {
+      } else {
         const validation = await this.voucherService.validateVoucher(
           voucherCode.trim(),
           userId,
@@ -224,26 +408,138 @@ export class OrderService {
         )
         if (validation.valid && validation.discountAmount != null) {
           discount = validation.discountAmount
-        } else if (voucherCode.trim()) {
+        } else {
           return {
             success: false,
             error: validation.error || 'Invalid voucher code',
           }
         }
       }
+    }
 
-      const totalAmount = subtotal + deliveryFeeNum - discount - credits
+    // Tax-exclusive prices add the tax on top; inclusive prices already hold it
+    const tax = await this.taxService.calculateTax(cartSnapshot, discount, deliveryFee)
+    const taxAmount = tax?.totalTax ?? 0
+    const totalAmount = Math.round((subtotal + deliveryFee - discount - credits + (tax && !tax.pricesIncludeTax ? taxAmount : 0)) * 100) / 100
 
-      if (totalAmount <= 0) {
+    if (totalAmount <= 0) {
+      return {
+        success: false,
+        error: 'Total amount must be greater than 0',
+      }
+    }
+
+    return { success: true, cartSnapshot, subtotal, discount, deliveryFee, deliveryFeeBreakdown, deliveryZoneId: zone?.id ?? null, tax, taxAmount, totalAmount, voucherNote }
+  }
+
+  /**
+   * Create pending order and initialize payment
+   */
+  async createPendingOrder(params: CreatePendingOrderParams): Promise<InitializePaymentResult> {
+    // Set once stock (and store credit and the delivery slot) is reserved so any later failure hands it back
+    let reservedForPendingOrderId: string | null = null
+    try {
+      const { userId, cartItems, deliveryAddress, voucherCode, credits = 0, deliveryNotes, deliveryLat, deliveryLng, paymentMethod = 'online', paidOffline, placedBy, deliverySlot } = params
+      const hasCoords = deliveryLat != null && deliveryLng != null && Number.isFinite(deliveryLat) && Number.isFinite(deliveryLng)
+
+      // 1. Get user details
+      const { data: user, error: userError } = await this.supabase
+        .from('users')
+        .select('*')
+        .eq('id', userId)
+        .single()
+
+      if (userError || !user) {
         return {
           success: false,
-          error: 'Total amount must be greater than 0',
+          error: 'User not found',
         }
       }
 
-      // 5. Create pending order
+      // 2. Pick the warehouse(s): the nearest one that has the whole basket, or a split across warehouses
+      const fulfilment = await this.warehouseService.planFulfilment(cartItems, {
+        lat: hasCoords ? deliveryLat : null,
+        lng: hasCoords ? deliveryLng : null,
+      })
+      if (!fulfilment.success) {
+        return { success: false, error: fulfilment.error }
+      }
+      const fulfilmentPlan = fulfilment.plan ?? null
+
+      // 3-4. Validate products, calculate totals and apply the voucher (stock is checked when it is reserved in step 5)
+      const pricing = await this.calculateOrderPricing({
+        userId,
+        cartItems,
+        voucherCode,
+        credits,
+        deliveryLat: hasCoords ? deliveryLat : null,
+        deliveryLng: hasCoords ? deliveryLng : null,
+        // Delivery is priced from the warehouse the order ships from (the nearest one when split)
+        ...(fulfilment.origin ? { deliveryOrigin: { lat: fulfilment.origin.lat, lng: fulfilment.origin.lng } } : {}),
+      })
+      if (!pricing.success) {
+        return { success: false, error: pricing.error }
+      }
+      const cartSnapshot = pricing.cartSnapshot!
+      const subtotal = pricing.subtotal!
+      const discount = pricing.discount!
+      const deliveryFeeNum = pricing.deliveryFee!
+      const totalAmount = pricing.totalAmount!
+
+      // 4b. Pay on delivery: order value and open COD order limits (admins placing the order decide themselves)
+      if (isCodPaymentMethod(paymentMethod) && !placedBy) {
+        const eligibility = await this.codService.checkEligibility(userId, totalAmount)
+        if (!eligibility.allowed) {
+          return { success: false, error: eligibility.error }
+        }
+      }
+
+      // 4c. Delivery slot: required for customers when the store books deliveries into time slots
+      if (!deliverySlot && !placedBy) {
+        const deliverySettings = await new DeliveryService().getSettings()
+        if (deliverySettings?.requireDeliverySlot) {
+          return { success: false, error: 'Please choose a delivery time.' }
+        }
+      }
+
+      // 5. Reserve stock (all-or-nothing; products with oversell policy 'block' reject shortfalls)
       const pendingOrderId = uuidv4()
-      const paymentReference = this.paystack.generateReference('GROV')
+      const reservation = await this.inventoryService.reserveForPendingOrder(
+        pendingOrderId,
+        fulfilmentPlan ? planReservationItems(fulfilmentPlan) : cartItems
+      )
+      if (!reservation.success) {
+        return {
+          success: false,
+          error: reservation.error ?? InventoryService.describeShortages(reservation.shortages ?? []),
+        }
+      }
+      reservedForPendingOrderId = pendingOrderId
+
+      // 5a. Hold store credit against the customer's wallet (never trust the client-supplied amount)
+      if (credits > 0) {
+        const creditHold = await this.storeCreditService.reserveForPendingOrder(userId, pendingOrderId, credits)
+        if (!creditHold.success) {
+          await this.inventoryService.releaseForPendingOrder(pendingOrderId, 'store credit not available')
+          return { success: false, error: creditHold.error }
+        }
+      }
+
+      // 5b. Hold a place in the chosen delivery slot (capacity, cut-off, blackout dates and zone are checked)
+      if (deliverySlot) {
+        const slotHold = await this.deliverySlotService.holdForPendingOrder(pendingOrderId, deliverySlot, pricing.deliveryZoneId ?? null)
+        if (!slotHold.success) {
+          await this.inventoryService.releaseForPendingOrder(pendingOrderId, 'delivery slot not available')
+          await this.storeCreditService.releaseForPendingOrder(pendingOrderId, 'delivery slot not available')
+          return { success: false, error: slotHold.error }
+        }
+      }
+
+      // 5c. Create pending order (online checkouts use the configured payment provider)
+      const provider = isCodPaymentMethod(paymentMethod) || paidOffline ? null : getPaymentProvider()
+      const paymentReference = provider
+        ? provider.generateReference('GROV')
+        : generatePaymentReference(paidOffline ? 'GROV-ADM' : 'GROV-COD')
 
       const { data: pendingOrder, error: pendingError } = await this.supabase
         .from('pending_orders')
@@ -255,14 +551,24 @@ export class OrderService {
           discount,
           credits,
           delivery_fee: deliveryFeeNum,
+          delivery_fee_breakdown: pricing.deliveryFeeBreakdown ?? null,
+          tax_amount: pricing.taxAmount ?? 0,
+          tax_breakdown: pricing.tax ?? null,
           total_amount: totalAmount,
           delivery_address: deliveryAddress,
           delivery_notes: deliveryNotes,
+          voucher_code: voucherCode?.trim() ? voucherCode.trim().toUpperCase() : null,
+          delivery_lat: hasCoords ? deliveryLat : null,
+          delivery_lng: hasCoords ? deliveryLng : null,
+          ...(pricing.deliveryZoneId ? { delivery_zone_id: pricing.deliveryZoneId } : {}),
+          ...(fulfilmentPlan ? { warehouse_id: fulfilmentPlan.warehouseId, fulfilment_plan: fulfilmentPlan } : {}),
           payment_reference: paymentReference,
           payment_status: 'initialized',
           metadata: {
             userEmail: user.email,
             userName: `${user.first_name} ${user.last_name}`,
+            paymentMethod: paidOffline ? paidOffline.method : paymentMethod,
+            ...(placedBy ? { placedByAdminId: placedBy.adminId, orderChannel: placedBy.channel } : {}),
           },
         })
         .select()
@@ -270,20 +576,31 @@ export class OrderService {
 
       if (pendingError) {
         console.error('Failed to create pending order:', pendingError)
+        await this.inventoryService.releaseForPendingOrder(pendingOrderId, 'pending order not created')
+        await this.storeCreditService.releaseForPendingOrder(pendingOrderId, 'pending order not created')
+        await this.deliverySlotService.releaseForPendingOrder(pendingOrderId, 'pending order not created')
         return {
           success: false,
           error: 'Failed to create order',
         }
       }
 
-      // 6. Initialize payment with Paystack
+      if (paidOffline) {
+        return await this.placePaidOfflineOrder(pendingOrder as PendingOrderRow, paymentReference, paidOffline)
+      }
+      if (!provider) {
+        return await this.placePayOnDeliveryOrder(pendingOrder as PendingOrderRow, paymentReference, paymentMethod as CodPaymentMethod)
+      }
+
+      // 6. Initialize payment with the provider
       const frontendUrl = process.env.FRONTEND_URL || ''
       
-      const paystackResult = await this.paystack.initializeTransaction({
+      const paymentInit = await provider.initializeTransaction({
         email: user.email,
-        amount: this.paystack.toKobo(totalAmount),  // Convert to kobo
+        amount: totalAmount,
+        currency: 'GHS',
         reference: paymentReference,
-        callback_url: `${frontendUrl}/payment/callback?pending_order_id=${pendingOrderId}`,
+        callbackUrl: `${frontendUrl}/payment/callback?pending_order_id=${pendingOrderId}`,
         metadata: {
           pending_order_id: pendingOrderId,
           user_id: userId,
@@ -306,8 +623,8 @@ export class OrderService {
       await this.supabase
         .from('pending_orders')
         .update({
-          payment_access_code: paystackResult.access_code,
-          payment_authorization_url: paystackResult.authorization_url,
+          payment_access_code: paymentInit.accessCode,
+          payment_authorization_url: paymentInit.authorizationUrl,
           payment_status: 'pending',
         })
         .eq('pending_order_id', pendingOrderId)
@@ -319,9 +636,9 @@ export class OrderService {
           transaction_id: paymentReference,
           pending_order_id: pendingOrder.id,
           user_id: userId,
-          provider: 'paystack',
+          provider: provider.name,
           provider_reference: paymentReference,
-          provider_access_code: paystackResult.access_code,
+          provider_access_code: paymentInit.accessCode,
           amount: totalAmount,
           currency: 'GHS',
           status: 'pending',
@@ -332,12 +649,18 @@ export class OrderService {
         success: true,
         pendingOrderId,
         paymentReference,
-        authorizationUrl: paystackResult.authorization_url,
-        accessCode: paystackResult.access_code,
+        authorizationUrl: paymentInit.authorizationUrl,
+        accessCode: paymentInit.accessCode,
         amount: totalAmount,
+        paymentMethod,
       }
     } catch (error) {
       console.error('Create pending order error:', error)
+      if (reservedForPendingOrderId) {
+        await this.inventoryService.releaseForPendingOrder(reservedForPendingOrderId, 'checkout failed')
+        await this.storeCreditService.releaseForPendingOrder(reservedForPendingOrderId, 'checkout failed')
+        await this.deliverySlotService.releaseForPendingOrder(reservedForPendingOrderId, 'checkout failed')
+      }
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Failed to create order',
@@ -345,23 +668,119 @@ export class OrderService {
     }
   }
 
+  /**
+   * Confirm a pay-on-delivery checkout straight away. The order stays payment_status 'pending' until
+   * the rider records the collection on delivery.
+   */
+  private async placePayOnDeliveryOrder(
+    pendingOrder: PendingOrderRow,
+    paymentReference: string,
+    paymentMethod: CodPaymentMethod
+  ): Promise<InitializePaymentResult> {
+    const order = await this.createOrderFromPendingOrder(pendingOrder, paymentReference, {
+      method: paymentMethod,
+      status: 'pending',
+      paidAt: null,
+      metadata: { pay_on_delivery: true },
+      historyReason: paymentMethod === 'cash_on_delivery'
+        ? 'Order placed with cash on delivery'
+        : 'Order placed with mobile money on delivery',
+    })
+
+    if (!order.success) {
+      await this.failOfflineCheckout(pendingOrder.pending_order_id, 'pay-on-delivery order not created')
+      return { success: false, error: order.error || 'Failed to create order' }
+    }
+
+    return {
+      success: true,
+      pendingOrderId: pendingOrder.pending_order_id,
+      paymentReference,
+      amount: Number(pendingOrder.total_amount),
+      paymentMethod,
+      order,
+    }
+  }
+
+  /**
+   * Admin orders paid outside the app (cash at the counter, MoMo or bank transfer): create the order as
+   * paid and record a successful payment_transactions row so it shows on the Transactions page.
+   */
+  private async placePaidOfflineOrder(
+    pendingOrder: PendingOrderRow,
+    paymentReference: string,
+    paidOffline: { method: OfflinePaymentMethod; note?: string }
+  ): Promise<InitializePaymentResult> {
+    const paidAt = new Date().toISOString()
+    const order = await this.createOrderFromPendingOrder(pendingOrder, paymentReference, {
+      method: paidOffline.method,
+      status: 'paid',
+      paidAt,
+      metadata: { paid_offline: true, payment_note: paidOffline.note ?? null },
+      historyReason: `Order recorded as paid (${paidOffline.method.replace(/_/g, ' ')})`,
+    })
+
+    if (!order.success) {
+      await this.failOfflineCheckout(pendingOrder.pending_order_id, 'paid order not created')
+      return { success: false, error: order.error || 'Failed to create order' }
+    }
+
+    const { error: transactionError } = await this.supabase
+      .from('payment_transactions')
+      .insert({
+        transaction_id: paymentReference,
+        order_id: order.orderId,
+        user_id: pendingOrder.user_id,
+        provider: MANUAL_PAYMENT_PROVIDER,
+        provider_reference: paymentReference,
+        amount: Number(pendingOrder.total_amount),
+        currency: 'GHS',
+        status: 'success',
+        payment_method: paidOffline.method,
+        channel: paidOffline.method,
+        paid_at: paidAt,
+        customer_email: pendingOrder.metadata?.userEmail ?? null,
+      })
+    if (transactionError) {
+      console.warn('Manual payment transaction not recorded for order', order.orderNumber, transactionError.message)
+    }
+
+    return {
+      success: true,
+      pendingOrderId: pendingOrder.pending_order_id,
+      paymentReference,
+      amount: Number(pendingOrder.total_amount),
+      order,
+    }
+  }
+
+  /** Hand back the stock, credit and delivery slot of a checkout whose order could not be created without payment. */
+  private async failOfflineCheckout(pendingOrderId: string, reason: string): Promise<void> {
+    await this.inventoryService.releaseForPendingOrder(pendingOrderId, reason)
+    await this.storeCreditService.releaseForPendingOrder(pendingOrderId, reason)
+    await this.deliverySlotService.releaseForPendingOrder(pendingOrderId, reason)
+    await this.supabase
+      .from('pending_orders')
+      .update({ payment_status: 'failed', updated_at: new Date().toISOString() })
+      .eq('pending_order_id', pendingOrderId)
+  }
+
   /**
    * Verify payment and convert to confirmed order
    */
   async verifyPaymentAndCreateOrder(paymentReference: string): Promise<VerifyPaymentResult> {
     try {
-      // 1. Verify payment with Paystack
-      const paymentVerification = await this.paystack.verifyTransaction(paymentReference)
+      // 1. Verify payment with the provider that took it
+      const provider = await this.getProviderForReference(paymentReference)
+      const paymentData = await provider.verifyTransaction(paymentReference)
 
-      if (!paymentVerification.success || paymentVerification.data.status !== 'success') {
+      if (paymentData.status !== 'success') {
         return {
           success: false,
           error: 'Payment not successful',
         }
       }
 
-      const paymentData = paymentVerification.data
-
       // 2. Get pending order
       const { data: pendingOrder, error: pendingError } = await this.supabase
         .from('pending_orders')
@@ -380,7 +799,7 @@ export class OrderService {
       if (pendingOrder.converted_to_order_id) {
         const { data: existingOrder } = await this.supabase
           .from('orders')
-          .select('id, order_id, invoice_number, invoice_pdf_url, invoice_image_url, delivery_code, delivery_verification_token')
+          .select('id, order_id, invoice_number, invoice_pdf_url, invoice_image_url, delivery_code, delivery_verification_token, tracking_token')
           .eq('id', pendingOrder.converted_to_order_id)
           .single()
 
@@ -394,6 +813,7 @@ export class OrderService {
             imageUrl: existingOrder.invoice_image_url,
             deliveryCode: existingOrder.delivery_code ?? undefined,
             deliveryVerificationToken: existingOrder.delivery_verification_token ?? undefined,
+            trackingUrl: existingOrder.tracking_token ? getTrackingUrl(existingOrder.tracking_token) : undefined,
           }
         }
       }
@@ -407,7 +827,7 @@ export class OrderService {
       if (recheckPending?.converted_to_order_id) {
         const { data: existingOrder } = await this.supabase
           .from('orders')
-          .select('id, order_id, invoice_number, invoice_pdf_url, invoice_image_url, delivery_code, delivery_verification_token')
+          .select('id, order_id, invoice_number, invoice_pdf_url, invoice_image_url, delivery_code, delivery_verification_token, tracking_token')
           .eq('id', recheckPending.converted_to_order_id)
           .single()
         if (existingOrder) {
@@ -420,6 +840,7 @@ export class OrderService {
             imageUrl: existingOrder.invoice_image_url,
             deliveryCode: existingOrder.delivery_code ?? undefined,
             deliveryVerificationToken: existingOrder.delivery_verification_token ?? undefined,
+            trackingUrl: existingOrder.tracking_token ? getTrackingUrl(existingOrder.tracking_token) : undefined,
           }
         }
       }
@@ -427,7 +848,7 @@ export class OrderService {
       // 3c. Order may already exist for this reference (e.g. duplicate callback or race)
       const { data: existingByRef } = await this.supabase
         .from('orders')
-        .select('id, order_id, invoice_number, invoice_pdf_url, invoice_image_url, delivery_code, delivery_verification_token')
+        .select('id, order_id, invoice_number, invoice_pdf_url, invoice_image_url, delivery_code, delivery_verification_token, tracking_token')
         .eq('payment_reference', paymentReference)
         .order('created_at', { ascending: false })
         .limit(1)
@@ -442,102 +863,167 @@ export class OrderService {
           imageUrl: existingByRef.invoice_image_url,
           deliveryCode: existingByRef.delivery_code ?? undefined,
           deliveryVerificationToken: existingByRef.delivery_verification_token ?? undefined,
+          trackingUrl: existingByRef.tracking_token ? getTrackingUrl(existingByRef.tracking_token) : undefined,
         }
       }
 
-      // 4. Generate order and invoice numbers
-      const orderNumber = this.pdfService.generateOrderId()
-      const invoiceNumber = this.pdfService.generateInvoiceNumber()
-
-      // 4b. Generate delivery verification: 4-digit code (unique among active orders) and QR token
-      const deliveryCode = await this.generateUniqueDeliveryCode()
-      const deliveryVerificationToken = uuidv4()
+      // 3d. Score the order; high-risk orders are held for admin review instead of going to packing
+      const risk = await this.orderRiskService.assess({
+        userId: pendingOrder.user_id,
+        totalAmount: Number(pendingOrder.total_amount) || 0,
+        voucherCode: pendingOrder.voucher_code,
+        deliveryLat: pendingOrder.delivery_lat,
+        deliveryLng: pendingOrder.delivery_lng,
+        deliveryPhone: pendingOrder.delivery_address?.phone,
+        accountName: pendingOrder.metadata?.userName,
+        payerName: paymentData.payerName,
+      })
 
-      // 5. Create confirmed order (payment_method must match DB CHECK: use channel or 'paystack')
-      const allowedMethods = ['card', 'mobile_money', 'bank_transfer', 'bank', 'ussd', 'qr', 'eft']
-      const rawChannel = (paymentData.channel ?? (paymentData as { authorization?: { channel?: string } }).authorization?.channel) as string | undefined
-      const channel = rawChannel?.toLowerCase().replace(/-/g, '_')
-      const paymentMethod = channel && allowedMethods.includes(channel) ? channel : 'paystack'
+      const paymentMethodChannel = paymentData.channel?.toLowerCase().replace(/-/g, '_')
+      return await this.createOrderFromPendingOrder(pendingOrder, paymentReference, {
+        // payment_method must match DB CHECK: use channel or 'paystack'
+        method: paymentMethodChannel && ONLINE_PAYMENT_CHANNELS.includes(paymentMethodChannel) ? paymentMethodChannel : 'paystack',
+        status: 'paid',
+        paidAt: paymentData.paidAt,
+        metadata: {
+          payment_provider: provider.name,
+          provider_transaction_id: paymentData.providerTransactionId,
+          payment_channel: paymentData.channel,
+          payment_fees: paymentData.fees,
+        },
+        transactionUpdate: {
+          status: 'success',
+          provider_transaction_id: paymentData.providerTransactionId,
+          payment_method: paymentData.cardType || 'unknown',
+          channel: paymentData.channel,
+          card_type: paymentData.cardType,
+          bank: paymentData.bank,
+          fees: paymentData.fees,
+          paid_at: paymentData.paidAt,
+          provider_response: paymentData.raw,
+        },
+        historyReason: 'Order created after successful payment',
+        risk,
+      })
+    } catch (error) {
+      console.error('Verify payment and create order error:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Payment verification failed',
+      }
+    }
+  }
 
-      const deliveryFeeOrder = Number(pendingOrder.delivery_fee) || 0
-      const { data: order, error: orderError } = await this.supabase
-        .from('orders')
-        .insert({
-          order_id: orderNumber,
-          invoice_number: invoiceNumber,
-          user_id: pendingOrder.user_id,
-          status: 'processing',
-          subtotal: pendingOrder.subtotal,
-          discount: pendingOrder.discount,
-          credits: pendingOrder.credits,
-          delivery_fee: deliveryFeeOrder,
-          total_amount: pendingOrder.total_amount,
-          currency: 'GHS',
-          payment_method: paymentMethod,
-          payment_status: 'paid',
-          payment_reference: paymentReference,
-          payment_access_code: pendingOrder.payment_access_code,
-          paid_at: paymentData.paid_at,
-          delivery_address: pendingOrder.delivery_address,
-          delivery_notes: pendingOrder.delivery_notes,
-          delivery_code: deliveryCode,
-          delivery_verification_token: deliveryVerificationToken,
-          metadata: {
-            paystack_transaction_id: paymentData.id,
-            payment_channel: paymentData.channel,
-            payment_fees: this.paystack.fromKobo(paymentData.fees),
-          },
-        })
-        .select()
-        .single()
+  /**
+   * Turn a pending order into a confirmed order: order + items, stock commit, invoice, confirmation
+   * email and status history. Shared by online payment verification and pay-on-delivery checkout.
+   */
+  private async createOrderFromPendingOrder(
+    pendingOrder: PendingOrderRow,
+    paymentReference: string,
+    payment: OrderPaymentDetails
+  ): Promise<VerifyPaymentResult> {
+    // 4. Generate order and invoice numbers
+    const orderNumber = this.pdfService.generateOrderId()
+    const invoiceNumber = this.pdfService.generateInvoiceNumber()
+
+    // 4b. Generate delivery verification: 4-digit code (unique among active orders) and QR token
+    const deliveryCode = await this.deliveryCodeService.generateUniqueCode()
+    const deliveryVerificationToken = uuidv4()
+
+    // 5. Create confirmed order (or pending, when held for risk review)
+    const held = payment.risk?.held === true
+    const initialStatus: OrderStatus = held ? 'pending' : 'processing'
+    const deliveryFeeOrder = Number(pendingOrder.delivery_fee) || 0
+    const placedByAdminId = pendingOrder.metadata?.placedByAdminId ?? null
+    const orderChannel = pendingOrder.metadata?.orderChannel
+    // Copied onto the order so later edits to the slot do not move it
+    const deliveryWindow = await this.deliverySlotService.getWindowForPendingOrder(pendingOrder.pending_order_id)
+    const { data: order, error: orderError } = await this.supabase
+      .from('orders')
+      .insert({
+        order_id: orderNumber,
+        invoice_number: invoiceNumber,
+        user_id: pendingOrder.user_id,
+        status: initialStatus,
+        subtotal: pendingOrder.subtotal,
+        discount: pendingOrder.discount,
+        credits: pendingOrder.credits,
+        delivery_fee: deliveryFeeOrder,
+        delivery_fee_breakdown: pendingOrder.delivery_fee_breakdown ?? null,
+        tax_amount: Number(pendingOrder.tax_amount) || 0,
+        tax_breakdown: pendingOrder.tax_breakdown ?? null,
+        total_amount: pendingOrder.total_amount,
+        currency: 'GHS',
+        payment_method: payment.method,
+        payment_status: payment.status,
+        payment_reference: paymentReference,
+        payment_access_code: pendingOrder.payment_access_code,
+        paid_at: payment.paidAt,
+        delivery_address: pendingOrder.delivery_address,
+        delivery_notes: pendingOrder.delivery_notes,
+        voucher_code: pendingOrder.voucher_code ?? null,
+        delivery_lat: pendingOrder.delivery_lat ?? null,
+        delivery_lng: pendingOrder.delivery_lng ?? null,
+        ...(pendingOrder.delivery_zone_id ? { delivery_zone_id: pendingOrder.delivery_zone_id } : {}),
+        ...(deliveryWindow ? { delivery_window_start: deliveryWindow.startsAt, delivery_window_end: deliveryWindow.endsAt } : {}),
+        ...(pendingOrder.fulfilment_plan ? { warehouse_id: pendingOrder.warehouse_id ?? pendingOrder.fulfilment_plan.warehouseId, fulfilment_plan: pendingOrder.fulfilment_plan } : {}),
+        delivery_code: deliveryCode,
+        delivery_verification_token: deliveryVerificationToken,
+        placed_by_admin_id: placedByAdminId,
+        metadata: orderChannel ? { ...payment.metadata, order_channel: orderChannel } : payment.metadata,
+        ...(payment.risk ? { risk_score: payment.risk.score, risk_review_status: held ? 'pending' : null } : {}),
+      })
+      .select()
+      .single()
 
-      if (orderError) {
-        // Idempotent: another request already created the order (unique on payment_reference)
-        if (orderError.code === '23505') {
-      const { data: existingOrder } = await this.supabase
-        .from('orders')
-        .select('id, order_id, invoice_number, invoice_pdf_url, invoice_image_url, delivery_code, delivery_verification_token')
-        .eq('payment_reference', paymentReference)
-        .maybeSingle()
-          if (existingOrder) {
-            return {
-              success: true,
-              orderId: existingOrder.id,
-              orderNumber: existingOrder.order_id,
-              invoiceNumber: existingOrder.invoice_number,
-              pdfUrl: existingOrder.invoice_pdf_url,
-              imageUrl: existingOrder.invoice_image_url,
-              deliveryCode: existingOrder.delivery_code ?? undefined,
-              deliveryVerificationToken: existingOrder.delivery_verification_token ?? undefined,
-            }
+    if (orderError) {
+      // Idempotent: another request already created the order (unique on payment_reference)
+      if (orderError.code === '23505') {
+    const { data: existingOrder } = await this.supabase
+      .from('orders')
+      .select('id, order_id, invoice_number, invoice_pdf_url, invoice_image_url, delivery_code, delivery_verification_token, tracking_token')
+      .eq('payment_reference', paymentReference)
+      .maybeSingle()
+        if (existingOrder) {
+          return {
+            success: true,
+            orderId: existingOrder.id,
+            orderNumber: existingOrder.order_id,
+            invoiceNumber: existingOrder.invoice_number,
+            pdfUrl: existingOrder.invoice_pdf_url,
+            imageUrl: existingOrder.invoice_image_url,
+            deliveryCode: existingOrder.delivery_code ?? undefined,
+            deliveryVerificationToken: existingOrder.delivery_verification_token ?? undefined,
+            trackingUrl: existingOrder.tracking_token ? getTrackingUrl(existingOrder.tracking_token) : undefined,
           }
         }
-        console.error('Failed to create order:', orderError)
-        const msg = orderError.message || 'Failed to create order'
-        return {
-          success: false,
-          error: safeErrorMessage(msg, 'Failed to create order'),
-        }
       }
+      console.error('Failed to create order:', orderError)
+      const msg = orderError.message || 'Failed to create order'
+      return {
+        success: false,
+        error: safeErrorMessage(msg, 'Failed to create order'),
+      }
+    }
 
-      // 6. Create order items
-      const orderItems = (pendingOrder.cart_items as Array<Record<string, unknown>>).map((item) => ({
-        order_id: order.id,
-        product_id: item.productId as string,
-        product_name: item.name as string,
-        product_description: (item.description as string) ?? '',
-        product_image: item.image as string,
-        category_name: item.category as string,
-        unit_price: item.price as number,
-        quantity: item.quantity as number,
-        total_price: item.total as number,
-      }))
+    const trackingUrl = order.tracking_token ? getTrackingUrl(order.tracking_token) : undefined
 
-      await this.supabase
-        .from('order_items')
-        .insert(orderItems)
+    if (payment.risk) {
+      await this.orderRiskService.recordAssessment(
+        { id: order.id, orderNumber, userId: pendingOrder.user_id, totalAmount: Number(pendingOrder.total_amount) || 0 },
+        payment.risk
+      )
+    }
 
-      // 7. Update product stock (non-fatal if RPC missing or fails)
+    // 6. Turn the stock reservation into a real decrement. If the hold already expired and was
+    // released, decrement directly (non-fatal if RPC missing or fails)
+    const committed = await this.inventoryService.commitForPendingOrder(pendingOrder.pending_order_id)
+    if (committed === 0 && pendingOrder.fulfilment_plan) {
+      for (const item of planReservationItems(pendingOrder.fulfilment_plan)) {
+        await this.warehouseService.adjustStock(item.warehouseId, item.productId, -item.quantity)
+      }
+    } else if (committed === 0) {
       for (const item of pendingOrder.cart_items) {
         try {
           await this.supabase
@@ -549,113 +1035,162 @@ export class OrderService {
           console.warn('Stock decrement skipped:', stockErr)
         }
       }
+    }
+
+    // 7. Create order items, with the units the reservation could not take from stock as backordered
+    const backordered = committed > 0
+      ? assignBackordered(
+          pendingOrder.cart_items.map((item) => ({ productId: item.productId as string, quantity: item.quantity as number })),
+          await this.inventoryService.getBackorderedForPendingOrder(pendingOrder.pending_order_id)
+        )
+      : []
+    const orderItems = pendingOrder.cart_items.map((item, index) => ({
+      order_id: order.id,
+      product_id: item.productId as string,
+      product_name: item.name as string,
+      product_description: (item.description as string) ?? '',
+      product_image: item.image as string,
+      category_name: item.category as string,
+      unit_price: item.price as number,
+      quantity: item.quantity as number,
+      total_price: item.total as number,
+      backordered_quantity: backordered[index] ?? 0,
+    }))
+
+    await this.supabase
+      .from('order_items')
+      .insert(orderItems)
+
+    // 7b. Spend the store credit held for this checkout
+    if (Number(pendingOrder.credits) > 0) {
+      const credit = await this.storeCreditService.settleForPendingOrder(pendingOrder.pending_order_id, order.id)
+      if (credit.shortfall > 0) {
+        console.error(`Store credit shortfall of ${credit.shortfall} on order ${orderNumber}`)
+        this.emailService
+          .sendAdminAlert({
+            subject: `Store credit shortfall on ${orderNumber}`,
+            title: 'Store credit not covered',
+            intro: `Order ${orderNumber} was paid after its store credit hold ended, and the customer's wallet no longer covered it.`,
+            lines: [
+              `Credit applied at checkout: GHS ${Number(pendingOrder.credits).toFixed(2)}`,
+              `Credit spent: GHS ${credit.settled.toFixed(2)}`,
+              `Not covered: GHS ${credit.shortfall.toFixed(2)}`,
+            ],
+          })
+          .then((r) => {
+            if (!r.success) console.warn('Store credit shortfall alert failed:', r.errors)
+          })
+          .catch((err) => console.error('Store credit shortfall alert error:', err))
+      }
+    }
 
-      // 8. Update payment transaction
+    // 7c. Keep the delivery slot place for the order
+    if (deliveryWindow) {
+      await this.deliverySlotService.confirmForPendingOrder(pendingOrder.pending_order_id, order.id)
+    }
+
+    // 8. Update payment transaction (pay-on-delivery orders get theirs when the rider collects)
+    if (payment.transactionUpdate) {
       await this.supabase
         .from('payment_transactions')
         .update({
           order_id: order.id,
-          status: 'success',
-          provider_transaction_id: paymentData.id.toString(),
-          payment_method: paymentData.authorization?.card_type || 'unknown',
-          channel: paymentData.channel,
-          card_type: paymentData.authorization?.card_type,
-          bank: paymentData.authorization?.bank,
-          fees: this.paystack.fromKobo(paymentData.fees),
-          paid_at: paymentData.paid_at,
-          provider_response: paymentData,
+          ...payment.transactionUpdate,
         })
         .eq('provider_reference', paymentReference)
+    }
+
+    // 9. Mark pending order as converted (match by payment_reference in case table has no id column)
+    await this.supabase
+      .from('pending_orders')
+      .update({
+        payment_status: 'success',
+        converted_to_order_id: order.id,
+        converted_at: new Date().toISOString(),
+      })
+      .eq('payment_reference', paymentReference)
+
+    // 10. Generate invoice PDF
+    const meta = pendingOrder.metadata ?? {}
+    const invoiceData: InvoiceData = {
+      invoiceNumber,
+      orderNumber,
+      date: new Date(),
+      customerName: meta.userName ?? 'Customer',
+      customerAddress: `${pendingOrder.delivery_address.street}, ${pendingOrder.delivery_address.city}, ${pendingOrder.delivery_address.region}`,
+      customerPhone: pendingOrder.delivery_address.phone,
+      customerEmail: meta.userEmail ?? '',
+      items: pendingOrder.cart_items.map((item) => ({
+        description: (item.name as string) ?? '',
+        quantity: (item.quantity as number) ?? 0,
+        unitPrice: (item.price as number) ?? 0,
+        total: (item.total as number) ?? 0,
+      })),
+      subtotal: pendingOrder.subtotal,
+      discount: pendingOrder.discount,
+      credits: pendingOrder.credits,
+      delivery: pendingOrder.delivery_fee_breakdown ?? null,
+      tax: pendingOrder.tax_breakdown ?? null,
+      totalAmount: pendingOrder.total_amount,
+      currency: 'GHS',
+    }
+
+    const invoiceResult = await this.pdfService.generateInvoice(invoiceData)
 
-      // 9. Mark pending order as converted (match by payment_reference in case table has no id column)
+    if (invoiceResult.success) {
+      // Update order with invoice URLs
       await this.supabase
-        .from('pending_orders')
+        .from('orders')
         .update({
-          payment_status: 'success',
-          converted_to_order_id: order.id,
-          converted_at: new Date().toISOString(),
+          invoice_pdf_url: invoiceResult.pdfUrl,
+          invoice_image_url: invoiceResult.imageUrl,
+          invoice_qr_code: invoiceResult.qrCodeUrl,
+          invoice_generated_at: new Date().toISOString(),
         })
-        .eq('payment_reference', paymentReference)
-
-      // 10. Generate invoice PDF
-      const meta = (pendingOrder.metadata as { userName?: string; userEmail?: string } | null) ?? {}
-      const invoiceData: InvoiceData = {
-        invoiceNumber,
-        orderNumber,
-        date: new Date(),
-        customerName: meta.userName ?? 'Customer',
-        customerAddress: `${pendingOrder.delivery_address.street}, ${pendingOrder.delivery_address.city}, ${pendingOrder.delivery_address.region}`,
-        customerPhone: pendingOrder.delivery_address.phone,
-        customerEmail: meta.userEmail ?? '',
-        items: (pendingOrder.cart_items as Array<Record<string, unknown>>).map((item) => ({
-          description: (item.name as string) ?? '',
-          quantity: (item.quantity as number) ?? 0,
-          unitPrice: (item.price as number) ?? 0,
-          total: (item.total as number) ?? 0,
-        })),
-        subtotal: pendingOrder.subtotal,
-        discount: pendingOrder.discount,
-        credits: pendingOrder.credits,
-        totalAmount: pendingOrder.total_amount,
-        currency: 'GHS',
-      }
-
-      const invoiceResult = await this.pdfService.generateInvoice(invoiceData)
-
-      if (invoiceResult.success) {
-        // Update order with invoice URLs
-        await this.supabase
-          .from('orders')
-          .update({
-            invoice_pdf_url: invoiceResult.pdfUrl,
-            invoice_image_url: invoiceResult.imageUrl,
-            invoice_qr_code: invoiceResult.qrCodeUrl,
+        .eq('id', order.id)
+
+      // Send order confirmation + invoice to customer email (non-blocking)
+      const customerEmail = pendingOrder.metadata?.userEmail
+      if (customerEmail?.trim()) {
+        this.emailService
+          .sendOrderConfirmationEmail(customerEmail, {
+            customerName: `${pendingOrder.metadata?.userName ?? 'Customer'}`,
+            orderNumber,
+            invoicePdfUrl: invoiceResult.pdfUrl ?? '',
+            deliveryCode: deliveryCode,
+            trackingUrl,
           })
-          .eq('id', order.id)
-
-        // Send order confirmation + invoice to customer email (non-blocking)
-        const customerEmail = pendingOrder.metadata?.userEmail as string | undefined
-        if (customerEmail?.trim()) {
-          this.emailService
-            .sendOrderConfirmationEmail(customerEmail, {
-              customerName: `${pendingOrder.metadata?.userName ?? 'Customer'}`,
-              orderNumber,
-              invoicePdfUrl: invoiceResult.pdfUrl ?? '',
-              deliveryCode: deliveryCode,
-            })
-            .then((r) => {
-              if (!r.success) console.warn('Order confirmation email failed:', r.errors)
-            })
-            .catch((err) => console.error('Order confirmation email error:', err))
-        }
+          .then((r) => {
+            if (!r.success) console.warn('Order confirmation email failed:', r.errors)
+          })
+          .catch((err) => console.error('Order confirmation email error:', err))
       }
+    }
 
-      // 11. Record status history
-      await this.supabase
-        .from('order_status_history')
-        .insert({
-          order_id: order.id,
-          old_status: null,
-          new_status: 'processing',
-          reason: 'Order created after successful payment',
-        })
+    // 11. Record status history
+    await this.supabase
+      .from('order_status_history')
+      .insert({
+        order_id: order.id,
+        old_status: null,
+        new_status: initialStatus,
+        reason: placedByAdminId
+          ? `${payment.historyReason} (placed by admin${orderChannel ? `, ${orderChannel.replace(/_/g, '-')} order` : ''})`
+          : held
+            ? `${payment.historyReason}; held for risk review (score ${payment.risk?.score})`
+            : payment.historyReason,
+      })
 
-      return {
-        success: true,
-        orderId: order.id,
-        orderNumber,
-        invoiceNumber,
-        pdfUrl: invoiceResult.pdfUrl,
-        imageUrl: invoiceResult.imageUrl,
-        deliveryCode,
-        deliveryVerificationToken,
-      }
-    } catch (error) {
-      console.error('Verify payment and create order error:', error)
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Payment verification failed',
-      }
+    return {
+      success: true,
+      orderId: order.id,
+      orderNumber,
+      invoiceNumber,
+      pdfUrl: invoiceResult.pdfUrl,
+      imageUrl: invoiceResult.imageUrl,
+      deliveryCode,
+      deliveryVerificationToken,
+      trackingUrl,
     }
   }
 
@@ -800,15 +1335,20 @@ export class OrderService {
   }
 
   /**
-   * Update order status
+   * Update order status through the declared state machine (see config/order-status).
+   * Illegal transitions are rejected and the allowed next states are returned so callers can offer valid actions.
+   * Refund-only statuses (refunded) are refused unless `viaRefund` is set by RefundService.
    */
   async updateOrderStatus(
     orderId: string,
     newStatus: string,
     userId?: string,
-    reason?: string
+    reason?: string,
+    options: { viaRefund?: boolean } = {}
   ): Promise<{
     success: boolean
+    status?: OrderStatus
+    allowedNextStatuses?: OrderStatus[]
     error?: string
   }> {
     try {
@@ -826,13 +1366,52 @@ export class OrderService {
         }
       }
 
-      const oldStatus = order.status
+      const oldStatus = order.status as string
+      const allowedNextStatuses = getManualNextStatuses(oldStatus)
 
-      // Update status
-      const { error: updateError } = await this.supabase
+      if (!isOrderStatus(newStatus)) {
+        return { success: false, allowedNextStatuses, error: `Unknown order status: ${newStatus}` }
+      }
+
+      if (REFUND_ONLY_ORDER_STATUSES.includes(newStatus) && !options.viaRefund) {
+        return {
+          success: false,
+          allowedNextStatuses,
+          error: 'Orders are marked refunded when a refund is processed. Issue a refund on the order\'s payment instead.',
+        }
+      }
+
+      if (!canTransitionOrderStatus(oldStatus, newStatus)) {
+        const allowed = allowedNextStatuses.length > 0 ? allowedNextStatuses.join(', ') : 'none'
+        return {
+          success: false,
+          allowedNextStatuses,
+          error: `Cannot change order status from ${oldStatus} to ${newStatus}. Allowed next statuses: ${allowed}`,
+        }
+      }
+
+      // Orders held for risk review only move on through the review queue; cancelling still works
+      // (customer cancellation, refunds) and counts as a rejection
+      const heldForReview = order.risk_review_status === 'pending'
+      if (heldForReview && newStatus !== 'cancelled') {
+        return {
+          success: false,
+          allowedNextStatuses,
+          error: 'Order is held for risk review. Approve it in the risk review queue first.',
+        }
+      }
+
+      // Update status only if nobody changed it in the meantime
+      const { data: updated, error: updateError } = await this.supabase
         .from('orders')
-        .update({ status: newStatus })
+        .update({
+          status: newStatus,
+          updated_at: new Date().toISOString(),
+          ...(heldForReview ? { risk_review_status: 'rejected' } : {}),
+        })
         .eq('id', orderId)
+        .eq('status', oldStatus)
+        .select('id')
 
       if (updateError) {
         return {
@@ -841,6 +1420,13 @@ export class OrderService {
         }
       }
 
+      if (!updated || updated.length === 0) {
+        return {
+          success: false,
+          error: 'Order status was changed by another request. Refresh and try again.',
+        }
+      }
+
       // Record status history
       await this.supabase
         .from('order_status_history')
@@ -852,7 +1438,9 @@ export class OrderService {
           reason,
         })
 
-      return { success: true }
+      await this.runStatusTransitionEffects(order, oldStatus, newStatus)
+
+      return { success: true, status: newStatus, allowedNextStatuses: getManualNextStatuses(newStatus) }
     } catch (error) {
       console.error('Update order status error:', error)
       return {
@@ -862,6 +1450,136 @@ export class OrderService {
     }
   }
 
+  /**
+   * Move several orders to the same status, one at a time through updateOrderStatus so each gets its
+   * transition check, history entry and side effects. One failure does not stop the others.
+   */
+  async bulkUpdateOrderStatus(
+    orderIds: string[],
+    newStatus: string,
+    userId?: string,
+    reason?: string
+  ): Promise<BulkStatusResult[]> {
+    const results: BulkStatusResult[] = []
+    for (const orderId of [...new Set(orderIds)]) {
+      const result = await this.updateOrderStatus(orderId, newStatus, userId, reason)
+      results.push({ orderId, success: result.success, status: result.status, error: result.error })
+    }
+    return results
+  }
+
+  /**
+   * Side effects of a committed status transition: stock and delivery slot release on cancellation, store credit return on
+   * cancellation or refund, delivery code issuance for active orders and customer notification emails.
+   * Failures are logged, not returned, because the status change itself has already been recorded.
+   */
+  private async runStatusTransitionEffects(
+    order: Record<string, unknown>,
+    oldStatus: string,
+    newStatus: OrderStatus
+  ): Promise<void> {
+    const orderId = order.id as string
+    let deliveryCode = (order.delivery_code as string | null) ?? undefined
+
+    try {
+      if (newStatus === 'cancelled') {
+        await this.restoreOrderStock(orderId)
+        await this.deliverySlotService.releaseForOrder(orderId, 'order cancelled')
+      }
+
+      if (newStatus === 'cancelled' || newStatus === 'refunded') {
+        const returned = await this.storeCreditService.returnOrderCredit(
+          { id: orderId, order_id: order.order_id as string, user_id: order.user_id as string },
+          newStatus === 'cancelled' ? 'Order cancelled' : 'Order refunded'
+        )
+        if (!returned.success) console.warn(`Store credit not returned for order ${orderId}:`, returned.error)
+      }
+
+      if (newStatus === 'refunded') {
+        await this.supabase
+          .from('orders')
+          .update({ payment_status: 'refunded' })
+          .eq('id', orderId)
+      }
+
+      if (ACTIVE_ORDER_STATUSES.includes(newStatus)) {
+        const backfill = await this.ensureDeliveryVerification(orderId)
+        if (backfill) deliveryCode = backfill.delivery_code
+      }
+    } catch (err) {
+      console.warn(`Status effects for ${oldStatus} -> ${newStatus} failed on order ${orderId}:`, err)
+    }
+
+    const message = STATUS_EMAIL_MESSAGES[newStatus]
+    if (!message) return
+
+    const { data: user } = await this.supabase
+      .from('users')
+      .select('email, first_name, last_name')
+      .eq('id', order.user_id as string)
+      .maybeSingle()
+
+    if (!user?.email?.trim()) return
+
+    this.emailService
+      .sendOrderStatusEmail(user.email, {
+        customerName: [user.first_name, user.last_name].filter(Boolean).join(' ') || 'Customer',
+        orderNumber: (order.order_id as string) || orderId,
+        statusLabel: ORDER_STATUS_LABELS[newStatus],
+        message,
+        deliveryCode: newStatus === 'shipped' ? deliveryCode : undefined,
+      })
+      .then((r) => {
+        if (!r.success) console.warn('Order status email failed:', r.errors)
+      })
+      .catch((err) => console.error('Order status email error:', err))
+  }
+
+  /**
+   * Put ordered quantities back into product stock, in the warehouses they shipped from (non-fatal per item).
+   * Backordered units were never taken from stock, so they are not put back.
+   */
+  private async restoreOrderStock(orderId: string): Promise<void> {
+    const [{ data: rows }, { data: order }] = await Promise.all([
+      this.supabase.from('order_items').select('product_id, quantity, backordered_quantity').eq('order_id', orderId),
+      this.supabase.from('orders').select('*').eq('id', orderId).maybeSingle(),
+    ])
+
+    const orderItems = (rows || [])
+      .map((item) => ({
+        product_id: item.product_id as string,
+        quantity: (Number(item.quantity) || 0) - (Number(item.backordered_quantity) || 0),
+      }))
+      .filter((item) => item.quantity > 0)
+
+    const plan = (order?.fulfilment_plan as FulfilmentPlan | null | undefined) ?? null
+    if (plan) {
+      const allocations = allocateToWarehouses(
+        orderItems.map((item) => ({ productId: item.product_id, quantity: item.quantity })),
+        plan,
+        (order?.warehouse_id as string | null | undefined) ?? null
+      )
+      for (const allocation of allocations) {
+        if (allocation.warehouseId) {
+          await this.warehouseService.adjustStock(allocation.warehouseId, allocation.productId, allocation.quantity)
+        }
+      }
+      return
+    }
+
+    for (const item of orderItems) {
+      try {
+        await this.supabase
+          .rpc('increment_product_stock', {
+            product_id: item.product_id,
+            quantity: item.quantity,
+          })
+      } catch (stockErr) {
+        console.warn('Stock restore skipped:', stockErr)
+      }
+    }
+  }
+
   /**
    * Cancel order
    */
@@ -888,35 +1606,19 @@ export class OrderService {
         }
       }
 
-      // Can only cancel pending/processing orders
-      if (!['pending', 'processing'].includes(order.status)) {
+      // Customers can only cancel before dispatch (admins can cancel shipped orders via updateOrderStatus)
+      if (!['pending', 'confirmed', 'processing'].includes(order.status) || !canTransitionOrderStatus(order.status, 'cancelled')) {
         return {
           success: false,
           error: `Cannot cancel order in ${order.status} status`,
         }
       }
 
-      // Update status to cancelled
+      // Update status to cancelled (stock is restored by the transition effects)
       const result = await this.updateOrderStatus(orderId, 'cancelled', userId, reason || 'Cancelled by customer')
 
       if (!result.success) {
-        return result
-      }
-
-      // Restore product stock
-      const { data: orderItems } = await this.supabase
-        .from('order_items')
-        .select('*')
-        .eq('order_id', orderId)
-
-      if (orderItems) {
-        for (const item of orderItems) {
-          await this.supabase
-            .rpc('increment_product_stock', {
-              product_id: item.product_id,
-              quantity: item.quantity,
-            })
-        }
+        return { success: false, error: result.error }
       }
 
       return { success: true }
@@ -940,13 +1642,14 @@ export class OrderService {
     error?: string
   }> {
     try {
-      const { error } = await this.supabase
+      const { data: cancelledRows, error } = await this.supabase
         .from('pending_orders')
         .update({
           payment_status: 'cancelled',
         })
         .eq('pending_order_id', pendingOrderId)
         .eq('user_id', userId)
+        .select('pending_order_id')
 
       if (error) {
         return {
@@ -955,6 +1658,12 @@ export class OrderService {
         }
       }
 
+      if (cancelledRows && cancelledRows.length > 0) {
+        await this.inventoryService.releaseForPendingOrder(pendingOrderId, 'pending order cancelled')
+        await this.storeCreditService.releaseForPendingOrder(pendingOrderId, 'pending order cancelled')
+        await this.deliverySlotService.releaseForPendingOrder(pendingOrderId, 'pending order cancelled')
+      }
+
       // Update payment transaction
       await this.supabase
         .from('payment_transactions')
@@ -994,6 +1703,19 @@ export class OrderService {
     }
   }
 
+  /**
+   * Provider recorded on the payment transaction, so payments started before a PAYMENT_PROVIDER
+   * change are still verified where they were made.
+   */
+  private async getProviderForReference(reference: string): Promise<PaymentProvider> {
+    const { data: transaction } = await this.supabase
+      .from('payment_transactions')
+      .select('provider')
+      .eq('provider_reference', reference)
+      .maybeSingle()
+    return getPaymentProvider(transaction?.provider as string | undefined)
+  }
+
   /**
    * Check payment status
    */
@@ -1004,8 +1726,13 @@ export class OrderService {
     error?: string
   }> {
     try {
-      const result = await this.paystack.getTransactionStatus(reference)
-      return result
+      const provider = await this.getProviderForReference(reference)
+      const verification = await provider.verifyTransaction(reference)
+      return {
+        success: true,
+        status: verification.status,
+        data: verification.raw,
+      }
     } catch (error) {
       return {
         success: false,
@@ -1018,14 +1745,14 @@ export class OrderService {
   /**
    * Get all orders for admin (live DB)
    */
-  async getAdminOrders(options: { page?: number; limit?: number; status?: string } = {}): Promise<{
+  async getAdminOrders(options: { page?: number; limit?: number } & AdminOrderFilters = {}): Promise<{
     success: boolean
     data?: unknown[]
     pagination?: { page: number; limit: number; total: number; totalPages: number }
     error?: string
   }> {
     try {
-      const { page = 1, limit = 50, status } = options
+      const { page = 1, limit = 50, status, paymentStatus, from, to, search } = options
       const offset = (page - 1) * limit
 
       let query = this.supabase
@@ -1036,6 +1763,34 @@ export class OrderService {
       if (status) {
         query = query.eq('status', status)
       }
+      if (paymentStatus) {
+        query = query.eq('payment_status', paymentStatus)
+      }
+      if (from) {
+        query = query.gte('created_at', `${from}T00:00:00.000Z`)
+      }
+      if (to) {
+        const dayAfter = new Date(`${to}T00:00:00.000Z`)
+        dayAfter.setUTCDate(dayAfter.getUTCDate() + 1)
+        query = query.lt('created_at', dayAfter.toISOString())
+      }
+
+      // Strip characters that would break the PostgREST or() filter
+      const term = search?.trim().replace(/[,()%*]/g, ' ').trim()
+      if (term) {
+        const pattern = `%${term}%`
+        const { data: matchedUsers } = await this.supabase
+          .from('users')
+          .select('id')
+          .or(`email.ilike.${pattern},phone_number.ilike.${pattern},first_name.ilike.${pattern},last_name.ilike.${pattern}`)
+          .limit(200)
+        const userIds = (matchedUsers ?? []).map((u: { id: string }) => u.id)
+        query = query.or([
+          `order_id.ilike.${pattern}`,
+          `invoice_number.ilike.${pattern}`,
+          ...(userIds.length > 0 ? [`user_id.in.(${userIds.join(',')})`] : []),
+        ].join(','))
+      }
 
       const { data: orders, error, count } = await query.range(offset, offset + limit - 1)
 
@@ -1070,6 +1825,7 @@ export class OrderService {
           customerPhone: addr?.phone || '—',
           deliveryAddress: deliveryStr || '—',
           items: (o.order_items as unknown[]) || [],
+          allowedNextStatuses: getManualNextStatuses(o.status as string),
         }
       })
 
@@ -1127,6 +1883,7 @@ export class OrderService {
         customerName: '—',
         customerEmail: (t.customer_email as string) || '—',
         amount: parseFloat(String(t.amount ?? 0)),
+        refundedAmount: parseFloat(String(t.refunded_amount ?? 0)),
         currency: (t.currency as string) || 'GHS',
         paymentMethod: (t.channel as string) || (t.payment_method as string) || 'paystack',
         status: t.status === 'success' ? 'completed' : (t.status === 'failed' ? 'failed' : (t.status as string)),
@@ -1192,14 +1949,97 @@ export class OrderService {
   }
 
   /**
-   * Verify delivery by 4-digit code (rider or admin enters code to confirm delivery)
+   * Mark a matched order delivered with its proof. The photo is stored first, so a rejected photo or GPS
+   * fix leaves the order as it was. After that, record the rider's collection for pay-on-delivery orders.
+   * The delivery itself stands even if recording fails; the warning tells the rider to report the cash manually.
    */
-  async verifyDeliveryByCode(code: string): Promise<{
-    success: boolean
-    orderId?: string
-    orderNumber?: string
-    error?: string
-  }> {
+  private async completeDeliveryVerification(
+    order: VerifiableOrderRow,
+    verifiedVia: 'code' | 'qr',
+    confirmer: DeliveryConfirmer,
+    collection?: CodCollectionInput,
+    proof?: DeliveryProofInput
+  ): Promise<DeliveryVerificationResult> {
+    const saved = await this.riderService.saveProof(proof)
+    if (!saved.success) {
+      return { success: false, error: saved.error }
+    }
+
+    const updateResult = await this.updateOrderStatus(
+      order.id,
+      'delivered',
+      undefined,
+      verifiedVia === 'code' ? 'Delivery confirmed by code' : 'Delivery confirmed by QR/token'
+    )
+    if (!updateResult.success) {
+      return { success: false, error: updateResult.error }
+    }
+
+    const result: DeliveryVerificationResult = {
+      success: true,
+      orderId: order.id,
+      orderNumber: order.order_id,
+    }
+    await this.riderService.recordDelivered(order, confirmer, saved.data)
+    if (!isCodPaymentMethod(order.payment_method)) {
+      return result
+    }
+
+    // Cash is reconciled per rider: a rider collects under their own name; an admin confirming
+    // for an assigned order defaults to the assigned rider
+    let riderName = collection?.riderName
+    if (confirmer.type === 'rider') {
+      riderName = confirmer.riderName
+    } else if (!riderName && order.rider_id) {
+      riderName = (await this.riderService.getRider(order.rider_id))?.fullName
+    }
+
+    const recorded = await this.codService.recordCollection(order.id, verifiedVia, { ...collection, riderName })
+    if (!recorded.success) {
+      console.error('COD collection not recorded for order', order.order_id, recorded.error)
+      result.warning = 'Delivery confirmed, but the payment collection could not be recorded. Please report it to the store.'
+    }
+    return result
+  }
+
+  /** Confirm a matched order and write the outcome to the verification audit trail */
+  private async confirmAndLog(
+    order: VerifiableOrderRow,
+    method: DeliveryVerificationMethod,
+    confirmer: DeliveryConfirmer,
+    options: DeliveryVerificationOptions,
+    collection?: CodCollectionInput,
+    proof?: DeliveryProofInput
+  ): Promise<DeliveryVerificationResult> {
+    const result = await this.completeDeliveryVerification(order, method, confirmer, collection, proof)
+    await this.deliveryCodeService.logAttempt({
+      method,
+      outcome: result.success ? 'confirmed' : 'rejected',
+      orderId: order.id,
+      confirmer,
+      source: options.source,
+      detail: result.success ? result.warning : result.error,
+    })
+    return result
+  }
+
+  /**
+   * Verify delivery by 4-digit code (the assigned rider or an admin enters the code to confirm delivery).
+   * Codes are only 4 digits, so the caller must name the order and a wrong code counts against it: the
+   * code is replaced after DELIVERY_CODE_ROTATE_AFTER misses and code checks lock every
+   * DELIVERY_CODE_LOCK_AFTER misses. With DELIVERY_CODE_RIDER_BINDING on, only the assigned rider may
+   * check a code.
+   */
+  async verifyDeliveryByCode(
+    code: string,
+    confirmer: DeliveryConfirmer,
+    collection?: CodCollectionInput,
+    proof?: DeliveryProofInput,
+    options: DeliveryVerificationOptions = {}
+  ): Promise<DeliveryVerificationResult> {
+    const log = (outcome: DeliveryVerificationOutcome, orderId?: string | null, detail?: string) =>
+      this.deliveryCodeService.logAttempt({ method: 'code', outcome, orderId, confirmer, source: options.source, detail })
+
     try {
       const normalized = String(code || '').trim().replace(/\D/g, '')
       const fourDigit = normalized.length === 4 ? normalized : (normalized.length > 4 ? normalized.slice(-4) : normalized.padStart(4, '0'))
@@ -1208,28 +2048,57 @@ export class OrderService {
         return { success: false, error: 'Invalid delivery code' }
       }
 
-      const { data: order, error } = await this.supabase
+      if (DELIVERY_CODE_RIDER_BINDING && confirmer.type !== 'rider') {
+        await log('not_assigned', options.orderId)
+        return { success: false, error: 'Only the assigned rider can confirm by code. Scan the QR code instead.' }
+      }
+      // Looking a code up across orders would let misses go uncounted, so the order must be named
+      if (!options.orderId) {
+        await log('order_required')
+        return { success: false, error: 'Choose the order you are delivering' }
+      }
+
+      const { data: order, error: orderError } = await this.supabase
         .from('orders')
-        .select('id, order_id, status')
-        .eq('delivery_code', fourDigit)
+        .select(VERIFIABLE_ORDER_COLUMNS)
+        .eq('id', options.orderId)
         .in('status', ACTIVE_ORDER_STATUSES)
-        .limit(1)
-        .maybeSingle()
+        .maybeSingle<VerifiableOrderRow>()
+      if (orderError || !order) {
+        await log('no_match', null, `No active order ${options.orderId}`)
+        return { success: false, error: 'No active order found for this verification' }
+      }
 
-      if (error || !order) {
-        return { success: false, error: 'No active order found for this code' }
+      const notAllowed = this.riderService.checkCanConfirm(order, confirmer)
+      if (notAllowed) {
+        await log('not_assigned', order.id)
+        return { success: false, error: notAllowed }
       }
 
-      const updateResult = await this.updateOrderStatus(order.id, 'delivered', undefined, 'Delivery confirmed by code')
-      if (!updateResult.success) {
-        return { success: false, error: updateResult.error }
+      const lockedUntil = deliveryCodeLockedUntil(order)
+      if (lockedUntil) {
+        await log('locked', order.id, `Locked until ${lockedUntil}`)
+        return { success: false, error: deliveryCodeLockedMessage(lockedUntil) }
       }
 
-      return {
-        success: true,
-        orderId: order.id,
-        orderNumber: order.order_id,
+      if (order.delivery_code?.trim() !== fourDigit) {
+        const failure = await this.deliveryCodeService.registerFailure(order.id)
+        const detail = [failure.rotated ? 'code replaced' : null, failure.lockedUntil ? `locked until ${failure.lockedUntil}` : null]
+          .filter(Boolean)
+          .join(', ')
+        await log('wrong_code', order.id, detail || undefined)
+        if (failure.lockedUntil) {
+          return { success: false, error: `Wrong delivery code. ${deliveryCodeLockedMessage(failure.lockedUntil)}` }
+        }
+        return {
+          success: false,
+          error: failure.rotated
+            ? 'Wrong delivery code. The customer has been sent a new code; ask them for it.'
+            : 'Wrong delivery code',
+        }
       }
+
+      return this.confirmAndLog(order, 'code', confirmer, options, collection, proof)
     } catch (err) {
       console.error('Verify delivery by code error:', err)
       return {
@@ -1240,14 +2109,16 @@ export class OrderService {
   }
 
   /**
-   * Verify delivery by QR token (rider scans QR or admin submits token)
+   * Verify delivery by QR token (the assigned rider scans the QR or an admin submits the token).
+   * A code lock does not apply: the token is a UUID and cannot be guessed.
    */
-  async verifyDeliveryByToken(token: string): Promise<{
-    success: boolean
-    orderId?: string
-    orderNumber?: string
-    error?: string
-  }> {
+  async verifyDeliveryByToken(
+    token: string,
+    confirmer: DeliveryConfirmer,
+    collection?: CodCollectionInput,
+    proof?: DeliveryProofInput,
+    options: DeliveryVerificationOptions = {}
+  ): Promise<DeliveryVerificationResult> {
     try {
       const t = String(token || '').trim()
       if (!t) {
@@ -1256,26 +2127,24 @@ export class OrderService {
 
       const { data: order, error } = await this.supabase
         .from('orders')
-        .select('id, order_id, status')
+        .select(VERIFIABLE_ORDER_COLUMNS)
         .eq('delivery_verification_token', t)
         .in('status', ACTIVE_ORDER_STATUSES)
         .limit(1)
-        .maybeSingle()
+        .maybeSingle<VerifiableOrderRow>()
 
       if (error || !order) {
+        await this.deliveryCodeService.logAttempt({ method: 'qr', outcome: 'invalid_token', confirmer, source: options.source })
         return { success: false, error: 'No active order found for this verification' }
       }
 
-      const updateResult = await this.updateOrderStatus(order.id, 'delivered', undefined, 'Delivery confirmed by QR/token')
-      if (!updateResult.success) {
-        return { success: false, error: updateResult.error }
+      const notAllowed = this.riderService.checkCanConfirm(order, confirmer)
+      if (notAllowed) {
+        await this.deliveryCodeService.logAttempt({ method: 'qr', outcome: 'not_assigned', orderId: order.id, confirmer, source: options.source })
+        return { success: false, error: notAllowed }
       }
 
-      return {
-        success: true,
-        orderId: order.id,
-        orderNumber: order.order_id,
-      }
+      return this.confirmAndLog(order, 'qr', confirmer, options, collection, proof)
     } catch (err) {
       console.error('Verify delivery by token error:', err)
       return {
@@ -1291,7 +2160,12 @@ export class OrderService {
   async cleanupExpiredPendingOrders(): Promise<void> {
     try {
       await this.supabase.rpc('cleanup_expired_pending_orders')
-      console.log('Cleaned up expired pending orders')
+      const released = await this.inventoryService.releaseExpired()
+      const credit = await this.storeCreditService.cleanupExpired()
+      const slots = await this.deliverySlotService.releaseExpired()
+      console.log(
+        `Cleaned up expired pending orders (released ${released} stock reservations, ${credit.releasedHolds} store credit holds, ${slots} delivery slot holds; expired ${credit.expiredEntries} credit entries)`
+      )
     } catch (error) {
       console.error('Cleanup expired orders error:', error)
     }
@@ -0,0 +1,173 @@
+import { PaystackService } from './paystack.service'
+import { FakePaymentService } from './fake-payment.service'
+
+/**
+ * Payment provider abstraction.
+ * Checkout, verification, refunds, reconciliation and webhooks talk to a PaymentProvider instead of
+ * a specific gateway. PAYMENT_PROVIDER selects the provider for new checkouts (default: paystack);
+ * existing transactions keep using the provider stored on their payment_transactions row.
+ *
+ * Amounts passed to and returned from providers are in major units (GHS), never kobo/pesewas.
+ */
+
+export type PaymentProviderName = 'paystack' | 'fake'
+
+export const PAYMENT_PROVIDERS: readonly PaymentProviderName[] = ['paystack', 'fake']
+
+export interface PaymentInitializeParams {
+  email: string
+  amount: number
+  currency?: string
+  reference: string
+  callbackUrl?: string
+  metadata?: Record<string, unknown>
+  channels?: string[]  // ['card', 'bank', 'ussd', 'qr', 'mobile_money', 'bank_transfer']
+}
+
+export interface PaymentInitializeResult {
+  authorizationUrl: string
+  accessCode: string
+  reference: string
+}
+
+export interface PaymentVerification {
+  providerTransactionId: string
+  reference: string
+  status: string  // 'success' | 'failed' | 'abandoned' | 'reversed' | provider-specific
+  amount: number
+  currency: string
+  fees: number
+  channel: string | null
+  cardType: string | null
+  bank: string | null
+  paidAt: string | null
+  customerEmail: string | null
+  /** Name on the card or mobile money wallet, or the provider's customer name; null when unknown */
+  payerName: string | null
+  raw: Record<string, unknown>
+}
+
+export interface PaymentListParams {
+  status?: 'success' | 'failed' | 'abandoned'
+  from?: string  // ISO date
+  to?: string  // ISO date
+  perPage?: number
+  page?: number
+}
+
+export interface PaymentListedCharge {
+  reference: string
+  status: string
+  amount: number
+  currency: string
+  paidAt: string | null
+  customerEmail: string | null
+  raw: Record<string, unknown>
+}
+
+export interface PaymentListResult {
+  data: PaymentListedCharge[]
+  pageCount: number | null
+}
+
+export interface PaymentRefundParams {
+  reference: string
+  amount?: number  // Omit for a full refund
+  currency?: string
+  customerNote?: string
+  merchantNote?: string
+}
+
+export interface PaymentRefundResult {
+  providerRefundId: string | null
+  status: string  // 'pending' | 'processing' | 'processed' | 'failed'
+  raw: Record<string, unknown>
+}
+
+/**
+ * A webhook in the shared event format handled by PaymentWebhookService: Paystack event names
+ * (charge.success, charge.failed, refund.processed, ...) with Paystack-shaped data, amounts in minor units.
+ */
+export interface PaymentWebhookEvent {
+  event: string
+  data: Record<string, unknown>
+}
+
+export interface PaymentProvider {
+  readonly name: PaymentProviderName
+  /** Request header carrying the webhook signature. */
+  readonly signatureHeader: string
+
+  generateReference(prefix?: string): string
+  initializeTransaction(params: PaymentInitializeParams): Promise<PaymentInitializeResult>
+  /** Throws when the provider cannot be reached or does not know the reference. */
+  verifyTransaction(reference: string): Promise<PaymentVerification>
+  listTransactions(params?: PaymentListParams): Promise<PaymentListResult>
+  /** Refunds settle asynchronously; the final state arrives as refund.* webhooks. */
+  createRefund(params: PaymentRefundParams): Promise<PaymentRefundResult>
+
+  verifyWebhookSignature(signature: string | undefined, rawBody: string): boolean
+  /** Stable id used to dedupe repeat deliveries of the same webhook. */
+  webhookEventId(payload: Record<string, unknown>, payloadHash: string): string
+  parseWebhookEvent(payload: Record<string, unknown>): PaymentWebhookEvent
+}
+
+/** GHS -> pesewas (Paystack calls the minor unit kobo for every currency). */
+export function toMinorUnits(amount: number): number {
+  return Math.round(amount * 100)
+}
+
+export function fromMinorUnits(minor: number): number {
+  return (Number(minor) || 0) / 100
+}
+
+/** Unique payment reference, e.g. GROV-1718000000000-K3J9X2QA. */
+export function generatePaymentReference(prefix: string = 'PAY'): string {
+  const timestamp = Date.now()
+  const random = Math.random().toString(36).substring(2, 10).toUpperCase()
+  return `${prefix}-${timestamp}-${random}`
+}
+
+export function isPaymentProviderName(value: unknown): value is PaymentProviderName {
+  return typeof value === 'string' && (PAYMENT_PROVIDERS as string[]).includes(value)
+}
+
+const instances = new Map<PaymentProviderName, PaymentProvider>()
+
+/** The provider new checkouts use (PAYMENT_PROVIDER, default paystack). */
+export function getDefaultPaymentProviderName(): PaymentProviderName {
+  const configured = (process.env.PAYMENT_PROVIDER || 'paystack').trim().toLowerCase()
+  if (!isPaymentProviderName(configured)) {
+    throw new Error(`Unknown PAYMENT_PROVIDER "${configured}". Use one of: ${PAYMENT_PROVIDERS.join(', ')}`)
+  }
+  return configured
+}
+
+/**
+ * The fake provider only runs when PAYMENT_PROVIDER=fake is set explicitly, and never in production,
+ * so its webhook endpoint cannot confirm orders anywhere else.
+ */
+export function isFakePaymentProviderEnabled(): boolean {
+  return (process.env.PAYMENT_PROVIDER || '').trim().toLowerCase() === 'fake' && process.env.NODE_ENV !== 'production'
+}
+
+/**
+ * Get a provider by name (e.g. payment_transactions.provider), or the configured default.
+ * The fake provider is refused unless it is enabled (see isFakePaymentProviderEnabled).
+ */
+export function getPaymentProvider(name?: string | null): PaymentProvider {
+  const providerName = name ? name.trim().toLowerCase() : getDefaultPaymentProviderName()
+  if (!isPaymentProviderName(providerName)) {
+    throw new Error(`Unknown payment provider "${providerName}"`)
+  }
+  if (providerName === 'fake' && !isFakePaymentProviderEnabled()) {
+    throw new Error('The fake payment provider is only available with PAYMENT_PROVIDER=fake outside production')
+  }
+
+  let provider = instances.get(providerName)
+  if (!provider) {
+    provider = providerName === 'fake' ? new FakePaymentService() : new PaystackService()
+    instances.set(providerName, provider)
+  }
+  return provider
+}
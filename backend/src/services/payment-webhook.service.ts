@@ -0,0 +1,166 @@
+import { createAdminClient } from '../config/supabase'
+import { RefundService } from './refund.service'
+import { InventoryService } from './inventory.service'
+import { StoreCreditService } from './store-credit.service'
+import { DeliverySlotService } from './delivery-slot.service'
+import { OrderAmendmentService, isAmendmentReference } from './order-amendment.service'
+import { OrderService } from './order.service'
+import type { PaymentWebhookEvent } from './payment-provider.service'
+
+/**
+ * Payment Webhook Service
+ * Applies payment webhooks to pending orders, transactions and refunds. Events arrive in the shared
+ * format (see PaymentWebhookEvent), so the same handlers serve every payment provider.
+ */
+export class PaymentWebhookService {
+  private supabase = createAdminClient()
+
+  /**
+   * Apply a webhook event (already verified and translated by the provider named)
+   */
+  async handleEvent(provider: string, event: PaymentWebhookEvent): Promise<{
+    success: boolean
+    message: string
+  }> {
+    try {
+      const { event: eventType, data } = event
+
+      const chargeData = data as { reference?: string; paid_at?: string; [key: string]: unknown }
+      switch (eventType) {
+        case 'charge.success':
+          return await this.handleChargeSuccess(chargeData)
+
+        case 'charge.failed':
+          return await this.handleChargeFailed(chargeData)
+        
+        case 'refund.pending':
+        case 'refund.processing':
+        case 'refund.processed':
+        case 'refund.failed':
+          return await new RefundService().handleRefundEvent(provider, eventType, data)
+
+        case 'transfer.success':
+        case 'transfer.failed':
+        case 'transfer.reversed':
+          // Transfers are payouts; customer refunds arrive as refund.* events above
+          console.log(`Transfer event: ${eventType}`, data)
+          return { success: true, message: 'Transfer event processed' }
+        
+        default:
+          console.log(`Unhandled webhook event: ${eventType}`)
+          return { success: true, message: 'Event ignored' }
+      }
+    } catch (error) {
+      console.error('Webhook handling error:', error)
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Webhook processing failed',
+      }
+    }
+  }
+
+  /**
+   * Handle successful charge
+   */
+  private async handleChargeSuccess(data: { reference?: string; paid_at?: string; [key: string]: unknown }): Promise<{ success: boolean; message: string }> {
+    try {
+      const reference = data.reference
+
+      // Payment link for an order change: apply the change
+      if (isAmendmentReference(reference)) {
+        const result = await new OrderAmendmentService().confirmPayment(reference)
+        return { success: result.success, message: result.success ? 'Order change paid' : result.error || 'Order change not applied' }
+      }
+
+      // Update pending order
+      const { data: pendingOrder, error: pendingError } = await this.supabase
+        .from('pending_orders')
+        .update({
+          payment_status: 'success',
+          updated_at: new Date().toISOString(),
+        })
+        .eq('payment_reference', reference)
+        .select()
+        .single()
+
+      if (pendingError || !pendingOrder) {
+        console.error('Pending order not found for reference:', reference)
+        return { success: false, message: 'Pending order not found' }
+      }
+
+      // Update payment transaction
+      await this.supabase
+        .from('payment_transactions')
+        .update({
+          status: 'success',
+          paid_at: data.paid_at,
+          provider_response: data,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('provider_reference', reference)
+
+      // Create the order here rather than waiting for the customer to come back to the callback page.
+      // Safe to repeat: a checkout already converted returns its existing order.
+      const created = await new OrderService().verifyPaymentAndCreateOrder(pendingOrder.payment_reference)
+      if (!created.success) {
+        // Not marked processed, so the webhook retry job tries again
+        console.error(`Order not created for paid reference ${reference}:`, created.error)
+        return { success: false, message: created.error || 'Order could not be created' }
+      }
+
+      console.log(`Payment successful for reference: ${reference}, order ${created.orderNumber}`)
+      return { success: true, message: 'Payment processed' }
+    } catch (error) {
+      console.error('Handle charge success error:', error)
+      return { success: false, message: 'Failed to process successful charge' }
+    }
+  }
+
+  /**
+   * Handle failed charge
+   */
+  private async handleChargeFailed(data: { reference?: string; [key: string]: unknown }): Promise<{ success: boolean; message: string }> {
+    try {
+      const reference = data.reference
+
+      if (isAmendmentReference(reference)) {
+        await new OrderAmendmentService().failPayment(reference, 'Payment failed')
+        return { success: true, message: 'Order change payment failure recorded' }
+      }
+
+      // Update pending order and give its held stock, store credit and delivery slot back
+      const { data: failedPending } = await this.supabase
+        .from('pending_orders')
+        .update({
+          payment_status: 'failed',
+          updated_at: new Date().toISOString(),
+        })
+        .eq('payment_reference', reference)
+        .is('converted_to_order_id', null)
+        .select('pending_order_id')
+        .maybeSingle()
+
+      if (failedPending?.pending_order_id) {
+        await new InventoryService().releaseForPendingOrder(failedPending.pending_order_id, 'payment failed')
+        await new StoreCreditService().releaseForPendingOrder(failedPending.pending_order_id, 'payment failed')
+        await new DeliverySlotService().releaseForPendingOrder(failedPending.pending_order_id, 'payment failed')
+      }
+
+      // Update payment transaction
+      await this.supabase
+        .from('payment_transactions')
+        .update({
+          status: 'failed',
+          provider_response: data,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('provider_reference', reference)
+
+      console.log(`Payment failed for reference: ${reference}`)
+      return { success: true, message: 'Payment failure recorded' }
+    } catch (error) {
+      console.error('Handle charge failed error:', error)
+      return { success: false, message: 'Failed to process failed charge' }
+    }
+  }
+}
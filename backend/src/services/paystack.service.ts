@@ -1,66 +1,92 @@
 import crypto from 'crypto'
 import axios, { AxiosInstance } from 'axios'
-import { createAdminClient } from '../config/supabase'
+import {
+  PaymentProvider,
+  PaymentInitializeParams,
+  PaymentInitializeResult,
+  PaymentVerification,
+  PaymentListParams,
+  PaymentListResult,
+  PaymentRefundParams,
+  PaymentRefundResult,
+  PaymentWebhookEvent,
+  toMinorUnits,
+  fromMinorUnits,
+  generatePaymentReference,
+} from './payment-provider.service'
 
 /**
  * Paystack Payment Service
- * Handles payment initialization, verification, and webhooks
+ * PaymentProvider for Paystack: initialization, verification, refunds and webhook signatures.
+ * Paystack's webhook format is the shared event format, so parseWebhookEvent passes events through.
  */
 
-export interface PaystackInitializeParams {
-  email: string
-  amount: number  // Amount in kobo (GHS * 100)
-  reference: string  // Unique transaction reference
-  callback_url?: string
-  metadata?: Record<string, unknown>
-  channels?: string[]  // ['card', 'bank', 'ussd', 'qr', 'mobile_money', 'bank_transfer']
-}
-
-export interface PaystackInitializeResponse {
-  success: boolean
-  authorization_url: string
-  access_code: string
+/** Transaction object as returned by /transaction/verify (amounts in kobo). */
+interface PaystackTransaction {
+  id: number
+  domain: string
+  status: 'success' | 'failed' | 'abandoned' | 'reversed' | string
   reference: string
-}
-
-export interface PaystackVerifyResponse {
-  success: boolean
-  data: {
+  amount: number
+  message: string | null
+  gateway_response: string
+  paid_at: string | null
+  created_at: string
+  channel: string
+  currency: string
+  ip_address: string
+  metadata: Record<string, unknown>
+  fees: number | null
+  customer: {
     id: number
-    domain: string
-    status: 'success' | 'failed' | 'abandoned'
-    reference: string
-    amount: number  // In kobo
-    message: string | null
-    gateway_response: string
-    paid_at: string | null
-    created_at: string
+    email: string
+    customer_code: string
+    first_name?: string | null
+    last_name?: string | null
+  }
+  authorization?: {
+    authorization_code: string
+    bin: string
+    last4: string
+    exp_month: string
+    exp_year: string
     channel: string
-    currency: string
-    ip_address: string
-    metadata: Record<string, unknown>
-    fees: number
-    customer: {
-      id: number
-      email: string
-      customer_code: string
-    }
-    authorization: {
-      authorization_code: string
-      bin: string
-      last4: string
-      exp_month: string
-      exp_year: string
-      channel: string
-      card_type: string
-      bank: string
-      country_code: string
-      brand: string
-    }
+    card_type: string
+    bank: string
+    country_code: string
+    brand: string
+    account_name?: string | null
   }
 }
 
-export class PaystackService {
+/** Refund object as returned by POST /refund (amounts in kobo). */
+interface PaystackRefund {
+  id: number
+  status: 'pending' | 'processing' | 'processed' | 'failed' | string
+  amount: number
+  currency: string
+  transaction: { id: number; reference: string } | number
+  expected_at?: string
+  [key: string]: unknown
+}
+
+interface PaystackListedTransaction {
+  id: number
+  status: string
+  reference: string
+  amount: number  // In kobo
+  currency: string
+  paid_at: string | null
+  created_at: string
+  channel: string
+  customer?: { email?: string }
+  metadata?: Record<string, unknown> | null
+}
+
+export class PaystackService implements PaymentProvider {
+  readonly name = 'paystack' as const
+  readonly signatureHeader = 'x-paystack-signature'
+
   private client: AxiosInstance
   private secretKey: string
   private publicKey: string
@@ -78,7 +104,8 @@ export class PaystackService {
     }
 
     this.client = axios.create({
-      baseURL: 'https://api.paystack.co',
+      // PAYSTACK_BASE_URL lets local development point at a fake Paystack (see scripts/fake-paystack.ts)
+      baseURL: process.env.PAYSTACK_BASE_URL || 'https://api.paystack.co',
       headers: {
         'Authorization': `Bearer ${this.secretKey}`,
         'Content-Type': 'application/json',
@@ -87,11 +114,18 @@ export class PaystackService {
     })
   }
 
+  /**
+   * Generate unique payment reference
+   */
+  generateReference(prefix: string = 'PAY'): string {
+    return generatePaymentReference(prefix)
+  }
+
   /**
    * Initialize payment transaction
    * Returns authorization URL for user to complete payment
    */
-  async initializeTransaction(params: PaystackInitializeParams): Promise<PaystackInitializeResponse> {
+  async initializeTransaction(params: PaymentInitializeParams): Promise<PaymentInitializeResult> {
     try {
       if (!this.secretKey) {
         throw new Error('Paystack is not configured. Please set PAYSTACK_SECRET_KEY.')
@@ -99,18 +133,18 @@ export class PaystackService {
 
       const response = await this.client.post('/transaction/initialize', {
         email: params.email,
-        amount: params.amount,  // Must be in kobo (multiply GHS by 100)
+        amount: toMinorUnits(params.amount),  // Paystack expects kobo
+        currency: params.currency,
         reference: params.reference,
-        callback_url: params.callback_url,
+        callback_url: params.callbackUrl,
         metadata: params.metadata,
         channels: params.channels || ['card', 'bank', 'ussd', 'mobile_money'],
       })
 
       if (response.data.status) {
         return {
-          success: true,
-          authorization_url: response.data.data.authorization_url,
-          access_code: response.data.data.access_code,
+          authorizationUrl: response.data.data.authorization_url,
+          accessCode: response.data.data.access_code,
           reference: response.data.data.reference,
         }
       } else {
@@ -131,7 +165,7 @@ export class PaystackService {
    * Verify payment transaction
    * Checks if payment was successful
    */
-  async verifyTransaction(reference: string): Promise<PaystackVerifyResponse> {
+  async verifyTransaction(reference: string): Promise<PaymentVerification> {
     try {
       if (!this.secretKey) {
         throw new Error('Paystack is not configured')
@@ -140,9 +174,24 @@ export class PaystackService {
       const response = await this.client.get(`/transaction/verify/${reference}`)
 
       if (response.data.status) {
+        const data = response.data.data as PaystackTransaction
         return {
-          success: true,
-          data: response.data.data,
+          providerTransactionId: String(data.id),
+          reference: data.reference,
+          status: data.status,
+          amount: fromMinorUnits(data.amount),
+          currency: data.currency,
+          fees: fromMinorUnits(data.fees ?? 0),
+          channel: data.channel ?? data.authorization?.channel ?? null,
+          cardType: data.authorization?.card_type ?? null,
+          bank: data.authorization?.bank ?? null,
+          paidAt: data.paid_at,
+          customerEmail: data.customer?.email ?? null,
+          payerName:
+            data.authorization?.account_name?.trim() ||
+            [data.customer?.first_name, data.customer?.last_name].filter(Boolean).join(' ').trim() ||
+            null,
+          raw: data as unknown as Record<string, unknown>,
         }
       } else {
         throw new Error(response.data.message || 'Payment verification failed')
@@ -159,191 +208,121 @@ export class PaystackService {
   }
 
   /**
-   * Verify webhook signature
-   * Ensures webhook is from Paystack
+   * List transactions on the Paystack account (used by reconciliation to find charges we never recorded)
    */
-  verifyWebhookSignature(signature: string, payload: string): boolean {
+  async listTransactions(params: PaymentListParams = {}): Promise<PaymentListResult> {
     try {
       if (!this.secretKey) {
-        console.error('Cannot verify webhook: PAYSTACK_SECRET_KEY not set')
-        return false
+        throw new Error('Paystack is not configured')
       }
 
-      const hash = crypto
-        .createHmac('sha512', this.secretKey)
-        .update(payload)
-        .digest('hex')
+      const response = await this.client.get('/transaction', { params })
 
-      return hash === signature
-    } catch (error) {
-      console.error('Webhook signature verification error:', error)
-      return false
+      if (response.data.status) {
+        const rows = (response.data.data ?? []) as PaystackListedTransaction[]
+        const meta = response.data.meta as { pageCount?: number } | undefined
+        return {
+          data: rows.map((t) => ({
+            reference: t.reference,
+            status: t.status,
+            amount: fromMinorUnits(t.amount),
+            currency: t.currency,
+            paidAt: t.paid_at,
+            customerEmail: t.customer?.email ?? null,
+            raw: t as unknown as Record<string, unknown>,
+          })),
+          pageCount: meta?.pageCount ?? null,
+        }
+      } else {
+        throw new Error(response.data.message || 'Failed to list transactions')
+      }
+    } catch (error: unknown) {
+      const err = error as { response?: { data?: { message?: string } }; message?: string }
+      console.error('Paystack list transactions error:', err.response?.data ?? err.message)
+      throw new Error(
+        (err.response?.data as { message?: string } | undefined)?.message ??
+        err.message ??
+        'Failed to list transactions'
+      )
     }
   }
 
   /**
-   * Handle webhook event from Paystack
+   * Create a full or partial refund for a successful transaction.
+   * Paystack processes refunds asynchronously; the final state arrives as refund.* webhook events.
    */
-  async handleWebhook(event: Record<string, unknown>): Promise<{
-    success: boolean
-    message: string
-  }> {
+  async createRefund(params: PaymentRefundParams): Promise<PaymentRefundResult> {
     try {
-      const { event: eventType, data } = event
+      if (!this.secretKey) {
+        throw new Error('Paystack is not configured')
+      }
 
-      const chargeData = data as { reference?: string; paid_at?: string; [key: string]: unknown }
-      switch (eventType) {
-        case 'charge.success':
-          return await this.handleChargeSuccess(chargeData)
+      const response = await this.client.post('/refund', {
+        transaction: params.reference,
+        amount: params.amount != null ? toMinorUnits(params.amount) : undefined,
+        currency: params.currency,
+        customer_note: params.customerNote,
+        merchant_note: params.merchantNote,
+      })
 
-        case 'charge.failed':
-          return await this.handleChargeFailed(chargeData)
-        
-        case 'transfer.success':
-        case 'transfer.failed':
-        case 'transfer.reversed':
-          // Handle refunds
-          console.log(`Transfer event: ${eventType}`, data)
-          return { success: true, message: 'Transfer event processed' }
-        
-        default:
-          console.log(`Unhandled webhook event: ${eventType}`)
-          return { success: true, message: 'Event ignored' }
-      }
-    } catch (error) {
-      console.error('Webhook handling error:', error)
-      return {
-        success: false,
-        message: error instanceof Error ? error.message : 'Webhook processing failed',
+      if (response.data.status) {
+        const data = response.data.data as PaystackRefund
+        return {
+          providerRefundId: data.id != null ? String(data.id) : null,
+          status: data.status,
+          raw: data,
+        }
+      } else {
+        throw new Error(response.data.message || 'Refund request failed')
       }
+    } catch (error: unknown) {
+      const err = error as { response?: { data?: { message?: string } }; message?: string }
+      console.error('Paystack refund error:', err.response?.data ?? err.message)
+      throw new Error(
+        (err.response?.data as { message?: string } | undefined)?.message ??
+        err.message ??
+        'Failed to create refund with Paystack'
+      )
     }
   }
 
   /**
-   * Handle successful charge
+   * Verify webhook signature
+   * Ensures webhook is from Paystack
    */
-  private async handleChargeSuccess(data: { reference?: string; paid_at?: string; [key: string]: unknown }): Promise<{ success: boolean; message: string }> {
+  verifyWebhookSignature(signature: string | undefined, payload: string): boolean {
     try {
-      const supabase = createAdminClient()
-      const reference = data.reference
-
-      // Update pending order
-      const { data: pendingOrder, error: pendingError } = await supabase
-        .from('pending_orders')
-        .update({
-          payment_status: 'success',
-          updated_at: new Date().toISOString(),
-        })
-        .eq('payment_reference', reference)
-        .select()
-        .single()
-
-      if (pendingError || !pendingOrder) {
-        console.error('Pending order not found for reference:', reference)
-        return { success: false, message: 'Pending order not found' }
+      if (!this.secretKey) {
+        console.error('Cannot verify webhook: PAYSTACK_SECRET_KEY not set')
+        return false
       }
 
-      // Update payment transaction
-      await supabase
-        .from('payment_transactions')
-        .update({
-          status: 'success',
-          paid_at: data.paid_at,
-          provider_response: data,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('provider_reference', reference)
+      const hash = crypto
+        .createHmac('sha512', this.secretKey)
+        .update(payload)
+        .digest('hex')
 
-      console.log(`Payment successful for reference: ${reference}`)
-      return { success: true, message: 'Payment processed' }
+      return hash === signature
     } catch (error) {
-      console.error('Handle charge success error:', error)
-      return { success: false, message: 'Failed to process successful charge' }
+      console.error('Webhook signature verification error:', error)
+      return false
     }
   }
 
   /**
-   * Handle failed charge
+   * Paystack sends no delivery id, so the event id is the event type plus the id of the object it
+   * describes (transaction, refund, transfer). Falls back to the reference, then the payload hash.
    */
-  private async handleChargeFailed(data: { reference?: string; [key: string]: unknown }): Promise<{ success: boolean; message: string }> {
-    try {
-      const supabase = createAdminClient()
-      const reference = data.reference
-
-      // Update pending order
-      await supabase
-        .from('pending_orders')
-        .update({
-          payment_status: 'failed',
-          updated_at: new Date().toISOString(),
-        })
-        .eq('payment_reference', reference)
-
-      // Update payment transaction
-      await supabase
-        .from('payment_transactions')
-        .update({
-          status: 'failed',
-          provider_response: data,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('provider_reference', reference)
-
-      console.log(`Payment failed for reference: ${reference}`)
-      return { success: true, message: 'Payment failure recorded' }
-    } catch (error) {
-      console.error('Handle charge failed error:', error)
-      return { success: false, message: 'Failed to process failed charge' }
-    }
+  webhookEventId(payload: Record<string, unknown>, payloadHash: string): string {
+    const data = (payload.data ?? {}) as { id?: unknown; reference?: unknown }
+    const objectId = data.id ?? data.reference ?? payloadHash
+    return `${String(payload.event ?? 'unknown')}:${String(objectId)}`
   }
 
-  /**
-   * Get transaction status
-   */
-  async getTransactionStatus(reference: string): Promise<{
-    success: boolean
-    status: string
-    data?: unknown
-    error?: string
-  }> {
-    try {
-      const verification = await this.verifyTransaction(reference)
-      
-      return {
-        success: true,
-        status: verification.data.status,
-        data: verification.data,
-      }
-    } catch (error) {
-      return {
-        success: false,
-        status: 'unknown',
-        error: error instanceof Error ? error.message : 'Failed to get status',
-      }
+  parseWebhookEvent(payload: Record<string, unknown>): PaymentWebhookEvent {
+    return {
+      event: String(payload.event ?? 'unknown'),
+      data: (payload.data ?? {}) as Record<string, unknown>,
     }
   }
-
-  /**
-   * Generate unique payment reference
-   */
-  generateReference(prefix: string = 'PAY'): string {
-    const timestamp = Date.now()
-    const random = Math.random().toString(36).substring(2, 10).toUpperCase()
-    return `${prefix}-${timestamp}-${random}`
-  }
-
-  /**
-   * Convert amount to kobo (Paystack uses kobo for GHS)
-   */
-  toKobo(amount: number): number {
-    return Math.round(amount * 100)
-  }
-
-  /**
-   * Convert kobo to cedis
-   */
-  fromKobo(kobo: number): number {
-    return kobo / 100
-  }
 }
-
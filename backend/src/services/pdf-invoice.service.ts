@@ -1,7 +1,9 @@
-import { PDFDocument, rgb, StandardFonts } from 'pdf-lib'
+import { PDFDocument, PDFFont, PDFPage, rgb, StandardFonts } from 'pdf-lib'
 import QRCode from 'qrcode'
 import sharp from 'sharp'
 import { createAdminClient } from '../config/supabase'
+import type { TaxBreakdown } from './tax.service'
+import type { DeliveryFeeBreakdown } from './delivery.service'
 import fs from 'fs/promises'
 import path from 'path'
 import { existsSync } from 'fs'
@@ -24,6 +26,23 @@ function wrapTextByWords(text: string, wordsPerLine: number): string[] {
   return lines
 }
 
+/** Tax block printed under the total: how tax applies, taxable and exempt values, then each component. */
+function taxSummaryLines(tax: TaxBreakdown): string[] {
+  const money = (amount: number) => `GHC ${Number(amount).toFixed(2)}`
+  return [
+    `${tax.pricesIncludeTax ? 'Prices include tax' : 'Tax added to total'}: ${money(tax.totalTax)}${tax.vatNumber ? `  ·  TIN ${tax.vatNumber}` : ''}`,
+    `Taxable ${money(tax.taxableAmount)}  ·  Exempt ${money(tax.exemptAmount)}`,
+    tax.lines.map((line) => `${line.label} ${line.rate}% ${money(line.amount)}`).join('  ·  '),
+  ]
+}
+
+/** Delivery line printed under the total: the fee, then each part of it (base, distance, surcharges, ...). */
+function deliverySummaryLine(delivery: DeliveryFeeBreakdown): string {
+  const money = (amount: number) => `${amount < 0 ? '-' : ''}GHC ${Math.abs(Number(amount)).toFixed(2)}`
+  const parts = delivery.lines.map((line) => `${line.label} ${money(line.amount)}`).join('  ·  ')
+  return `Delivery ${money(delivery.total)}${parts ? `: ${parts}` : ''}`
+}
+
 export interface InvoiceData {
   invoiceNumber: string  // 4787837473
   orderNumber: string    // ORD-AC23-233E
@@ -49,6 +68,10 @@ export interface InvoiceData {
   credits: number
   totalAmount: number
   currency: string
+  /** Breakdown stored on the order; omitted or null when no tax was charged */
+  tax?: TaxBreakdown | null
+  /** Itemised delivery fee stored on the order; omitted or null for orders from before it was stored */
+  delivery?: DeliveryFeeBreakdown | null
 }
 
 export interface InvoiceGenerationResult {
@@ -757,6 +780,16 @@ export class PDFInvoiceService {
           color: rgb(0, 0, 0),
         })
 
+        // Delivery and tax breakdown between the total and the thank-you line
+        this.drawChargesSummary(firstPage, data, helvetica, {
+          x: totalsLabelX,
+          y: yPos - 125,
+          size: 26,
+          lineHeight: 34,
+          maxWidth: lineRight + 90 - totalsLabelX,
+          maxLines: 3,
+        })
+
         // Thank you
         firstPage.drawText('Thank you for shopping with us!', {
           x: totalsLabelX - 90,
@@ -1027,6 +1060,7 @@ export class PDFInvoiceService {
     yPos -= totalAmountGap
     page.drawText('Total Amount', { x: totalsLabelX, y: yPos - 80, size: 48, font: helveticaBold, color: rgb(0, 0, 0) })
     page.drawText(`GHC ${data.totalAmount.toFixed(2)}`, { x: width - 380, y: yPos - 80, size: 48, font: helveticaBold, color: rgb(0, 0, 0) })
+    this.drawChargesSummary(page, data, helvetica, { x: totalsLabelX, y: yPos - 125, size: 26, lineHeight: 34, maxWidth: lineRight + 90 - totalsLabelX, maxLines: 3 })
 
     return await pdfDoc.save()
   }
@@ -1113,6 +1147,7 @@ export class PDFInvoiceService {
     yPos -= totalAmountGap
     page.drawText('Total Amount', { x: totalsLabelX, y: yPos - 80, size: 48, font: helveticaBold, color: rgb(0, 0, 0) })
     page.drawText(`GHC ${data.totalAmount.toFixed(2)}`, { x: width - 380, y: yPos - 80, size: 48, font: helveticaBold, color: rgb(0, 0, 0) })
+    this.drawChargesSummary(page, data, helvetica, { x: totalsLabelX, y: yPos - 125, size: 26, lineHeight: 34, maxWidth: lineRight + 90 - totalsLabelX, maxLines: 3 })
     page.drawText('Thank you for shopping with us!', { x: totalsLabelX - 90, y: yPos - 250, size: 60, font: helveticaBold, color: rgb(0, 0, 0) })
     page.drawImage(qrImage, { x: leftMargin - 40, y: 1240, width: qrDims.width, height: qrDims.height })
 
@@ -1122,6 +1157,35 @@ export class PDFInvoiceService {
   /**
    * Create invoice PDF from scratch (if no template)
    */
+  /**
+   * Draw the delivery and tax lines from (x, y) downwards, shrinking any line wider than maxWidth.
+   * More than maxLines lines are squeezed into the height maxLines would take.
+   */
+  private drawChargesSummary(
+    page: PDFPage,
+    data: InvoiceData,
+    font: PDFFont,
+    options: { x: number; y: number; size: number; lineHeight: number; maxWidth: number; maxLines?: number }
+  ): void {
+    const lines = [
+      ...(data.delivery ? [deliverySummaryLine(data.delivery)] : []),
+      ...(data.tax ? taxSummaryLines(data.tax) : []),
+    ]
+    if (lines.length === 0) return
+    const squeeze = options.maxLines && lines.length > options.maxLines ? (options.maxLines - 1) / (lines.length - 1) : 1
+    const size = options.size * squeeze
+    lines.forEach((line, i) => {
+      const fullWidth = font.widthOfTextAtSize(line, size)
+      page.drawText(line, {
+        x: options.x,
+        y: options.y - i * options.lineHeight * squeeze,
+        size: fullWidth > options.maxWidth ? size * (options.maxWidth / fullWidth) : size,
+        font,
+        color: rgb(0.2, 0.2, 0.2),
+      })
+    })
+  }
+
   private async createInvoiceFromScratch(data: InvoiceData, qrCodeDataUrl: string): Promise<Uint8Array> {
     const pdfDoc = await PDFDocument.create()
     const page = pdfDoc.addPage([595, 842])  // A4 size
@@ -1290,6 +1354,9 @@ export class PDFInvoiceService {
       font: helveticaBold,
       color: rgb(0.83, 0.37, 0.05),
     })
+
+    // Delivery and tax breakdown
+    this.drawChargesSummary(page, data, helvetica, { x: 50, y: yPos - 25, size: 8, lineHeight: 11, maxWidth: width - 100 })
     
     // QR Code
     page.drawImage(qrImage, {
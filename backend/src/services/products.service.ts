@@ -1,5 +1,6 @@
 import { createAdminClient } from '../config/supabase'
 import { CategoriesService } from './categories.service'
+import type { OversellPolicy } from './inventory.service'
 
 interface ServiceResult<T> {
   success: boolean
@@ -31,6 +32,8 @@ export interface Product {
   type?: string
   packaging?: string
   in_stock: boolean
+  /** What checkout does when stock runs out: block, backorder, or allow and alert admins. */
+  oversell_policy?: OversellPolicy
   rating: number
   reviews_count: number
   images: string[]
@@ -242,6 +245,7 @@ export class ProductsService {
       if (updates.type !== undefined) payload.type = updates.type
       if (updates.packaging !== undefined) payload.packaging = updates.packaging
       if (updates.in_stock !== undefined) payload.in_stock = updates.in_stock
+      if (updates.oversell_policy !== undefined) payload.oversell_policy = updates.oversell_policy
       if (updates.rating !== undefined) payload.rating = updates.rating
       if (updates.reviews_count !== undefined) payload.reviews_count = updates.reviews_count
       if (updates.images !== undefined) payload.images = updates.images
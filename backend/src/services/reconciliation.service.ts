@@ -0,0 +1,525 @@
+import { createAdminClient } from '../config/supabase'
+import { getPaymentProvider } from './payment-provider.service'
+import { OrderService } from './order.service'
+import { InventoryService } from './inventory.service'
+import { StoreCreditService } from './store-credit.service'
+import { DeliverySlotService } from './delivery-slot.service'
+import { OrderAmendmentService, isAmendmentReference } from './order-amendment.service'
+import { CronLockService } from './cron-lock.service'
+
+/**
+ * Payment reconciliation (see supabase-payment-reconciliation.sql).
+ * Catches payments whose callback and charge.success webhook were both missed, and paid checkouts that never
+ * became an order: stale pending transactions are verified with their payment provider, paid ones are finalized
+ * into orders, abandoned ones are marked failed, and anything that does not add up is written to
+ * payment_discrepancies for admins and its transaction set to needs_review.
+ */
+
+export type DiscrepancyType = 'amount_mismatch' | 'currency_mismatch' | 'orphaned_charge' | 'finalize_failed'
+
+export const DISCREPANCY_TYPES: readonly DiscrepancyType[] = ['amount_mismatch', 'currency_mismatch', 'orphaned_charge', 'finalize_failed']
+
+export interface ReconciliationSummary {
+  runId?: string
+  checked: number
+  finalized: number
+  markedFailed: number
+  discrepancies: number
+  errors: string[]
+  skipped?: string
+}
+
+interface DiscrepancyInput {
+  type: DiscrepancyType
+  provider: string
+  providerReference: string
+  paymentTransactionId?: string | null
+  expectedAmount?: number | null
+  providerAmount?: number | null
+  expectedCurrency?: string | null
+  providerCurrency?: string | null
+  details: string
+  providerResponse?: unknown
+}
+
+/** Pending transactions younger than this are left alone; the customer may still be paying. */
+const STALE_AFTER_MINUTES = parseInt(process.env.RECONCILIATION_STALE_MINUTES || '30', 10) || 30
+/** Unpaid transactions older than this are treated as abandoned. */
+const ABANDON_AFTER_HOURS = parseInt(process.env.RECONCILIATION_ABANDON_HOURS || '24', 10) || 24
+const LOOKBACK_DAYS = 7
+const TRANSACTION_COLUMNS = 'id, provider, provider_reference, amount, currency, status, created_at'
+const BATCH_SIZE = 100
+const MAX_PROVIDER_PAGES = 5
+
+interface TransactionRow {
+  id: string
+  provider: string | null
+  provider_reference: string
+  amount: number
+  currency: string | null
+  status: string
+  created_at: string
+}
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+export class ReconciliationService {
+  private supabase = createAdminClient()
+  private cronLock = new CronLockService()
+  private inventoryService = new InventoryService()
+  private storeCreditService = new StoreCreditService()
+  private deliverySlotService = new DeliverySlotService()
+
+  private static readonly LOCK_JOB = 'payment_reconciliation'
+  private static readonly LOCK_TTL_MINUTES = 30
+
+  /**
+   * Run one reconciliation pass. `triggeredBy` is 'cron' or the admin id.
+   */
+  async runReconciliation(triggeredBy: string = 'cron'): Promise<ReconciliationSummary> {
+    const summary: ReconciliationSummary = { checked: 0, finalized: 0, markedFailed: 0, discrepancies: 0, errors: [] }
+
+    const acquired = await this.cronLock.acquire(ReconciliationService.LOCK_JOB, ReconciliationService.LOCK_TTL_MINUTES)
+    if (!acquired) {
+      return { ...summary, skipped: 'Lock held by another instance' }
+    }
+
+    try {
+      const { data: run } = await this.supabase
+        .from('reconciliation_runs')
+        .insert({ triggered_by: triggeredBy })
+        .select('id')
+        .single()
+      summary.runId = run?.id
+
+      try {
+        await this.reconcileStalePending(summary)
+        await this.findOrphanedCharges(summary)
+      } catch (e) {
+        summary.errors.push(e instanceof Error ? e.message : 'Reconciliation failed')
+      }
+
+      if (summary.runId) {
+        await this.supabase
+          .from('reconciliation_runs')
+          .update({
+            status: summary.errors.length > 0 && summary.checked === 0 ? 'failed' : 'completed',
+            checked: summary.checked,
+            finalized: summary.finalized,
+            marked_failed: summary.markedFailed,
+            discrepancies: summary.discrepancies,
+            error: summary.errors.length > 0 ? summary.errors.slice(0, 20).join('\n') : null,
+            finished_at: new Date().toISOString(),
+          })
+          .eq('id', summary.runId)
+      }
+    } finally {
+      await this.cronLock.release(ReconciliationService.LOCK_JOB)
+    }
+
+    return summary
+  }
+
+  /**
+   * Verify stale pending transactions with their provider and finalize, fail or flag each one. Checkouts
+   * that a charge.success webhook marked paid but that never became an order are finalized the same way.
+   */
+  private async reconcileStalePending(summary: ReconciliationSummary): Promise<void> {
+    const now = Date.now()
+    const staleBefore = new Date(now - STALE_AFTER_MINUTES * 60 * 1000).toISOString()
+    const lookbackFrom = new Date(now - LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString()
+
+    const { data: pending, error } = await this.supabase
+      .from('payment_transactions')
+      .select(TRANSACTION_COLUMNS)
+      .eq('status', 'pending')
+      .lte('created_at', staleBefore)
+      .gte('created_at', lookbackFrom)
+      .order('created_at', { ascending: true })
+      .limit(BATCH_SIZE)
+
+    if (error) {
+      summary.errors.push(error.message)
+      return
+    }
+
+    // Paid checkouts without an order: the webhook recorded the payment but the order was never created
+    const { data: paidCheckouts, error: paidError } = await this.supabase
+      .from('pending_orders')
+      .select('payment_reference')
+      .eq('payment_status', 'success')
+      .is('converted_to_order_id', null)
+      .lte('created_at', staleBefore)
+      .gte('created_at', lookbackFrom)
+      .order('created_at', { ascending: true })
+      .limit(BATCH_SIZE)
+
+    let paid: TransactionRow[] = []
+    if (paidError) {
+      summary.errors.push(paidError.message)
+    } else if ((paidCheckouts ?? []).length > 0) {
+      const { data } = await this.supabase
+        .from('payment_transactions')
+        .select(TRANSACTION_COLUMNS)
+        .eq('status', 'success')
+        .in('provider_reference', (paidCheckouts ?? []).map((p: { payment_reference: string }) => p.payment_reference))
+      paid = (data ?? []) as TransactionRow[]
+    }
+
+    const orderService = new OrderService()
+    for (const tx of [...((pending ?? []) as TransactionRow[]), ...paid]) {
+      summary.checked++
+      await this.reconcileTransaction(tx, orderService, summary, now)
+    }
+  }
+
+  private async reconcileTransaction(tx: TransactionRow, orderService: OrderService, summary: ReconciliationSummary, now: number): Promise<void> {
+    const reference = tx.provider_reference
+    const abandoned = tx.status === 'pending' && now - new Date(tx.created_at).getTime() > ABANDON_AFTER_HOURS * 60 * 60 * 1000
+
+    const providerName = tx.provider || 'paystack'
+
+    let verification
+    try {
+      verification = await getPaymentProvider(providerName).verifyTransaction(reference)
+    } catch (err) {
+      // The provider does not know the reference (never initialised or expired)
+      if (abandoned) {
+        await this.markAbandoned(tx.id, reference, err instanceof Error ? err.message : `Not found at ${providerName}`)
+        summary.markedFailed++
+      }
+      return
+    }
+
+    const data = verification.raw
+    const providerStatus = verification.status
+
+    if (providerStatus !== 'success') {
+      if (providerStatus === 'failed' || providerStatus === 'reversed' || abandoned) {
+        await this.markAbandoned(tx.id, reference, `${providerName} status: ${providerStatus}`)
+        summary.markedFailed++
+      }
+      return
+    }
+
+    const expectedAmount = roundMoney(Number(tx.amount))
+    const providerAmount = roundMoney(verification.amount)
+    const expectedCurrency = tx.currency || 'GHS'
+    const providerCurrency = verification.currency
+
+    if (providerCurrency && providerCurrency !== expectedCurrency) {
+      await this.recordDiscrepancy(summary, {
+        type: 'currency_mismatch',
+        provider: providerName,
+        providerReference: reference,
+        paymentTransactionId: tx.id,
+        expectedAmount,
+        providerAmount,
+        expectedCurrency,
+        providerCurrency,
+        details: `Paid in ${providerCurrency}, checkout was in ${expectedCurrency}`,
+        providerResponse: data,
+      })
+      await this.markNeedsReview(tx.id)
+      return
+    }
+
+    if (providerAmount !== expectedAmount) {
+      await this.recordDiscrepancy(summary, {
+        type: 'amount_mismatch',
+        provider: providerName,
+        providerReference: reference,
+        paymentTransactionId: tx.id,
+        expectedAmount,
+        providerAmount,
+        expectedCurrency,
+        providerCurrency,
+        details: `Paid ${providerAmount.toFixed(2)}, checkout total was ${expectedAmount.toFixed(2)}`,
+        providerResponse: data,
+      })
+      await this.markNeedsReview(tx.id)
+      return
+    }
+
+    // Payment link for an order change: apply the change instead of creating an order
+    if (isAmendmentReference(reference)) {
+      const amended = await new OrderAmendmentService().confirmPayment(reference)
+      if (amended.success) {
+        summary.finalized++
+      } else {
+        await this.recordDiscrepancy(summary, {
+          type: 'finalize_failed',
+          provider: providerName,
+          providerReference: reference,
+          paymentTransactionId: tx.id,
+          expectedAmount,
+          providerAmount,
+          expectedCurrency,
+          providerCurrency,
+          details: amended.error || 'Order change could not be applied',
+          providerResponse: data,
+        })
+      }
+      return
+    }
+
+    const { data: pendingOrder } = await this.supabase
+      .from('pending_orders')
+      .select('pending_order_id')
+      .eq('payment_reference', reference)
+      .maybeSingle()
+
+    if (!pendingOrder) {
+      await this.recordDiscrepancy(summary, {
+        type: 'orphaned_charge',
+        provider: providerName,
+        providerReference: reference,
+        paymentTransactionId: tx.id,
+        expectedAmount,
+        providerAmount,
+        expectedCurrency,
+        providerCurrency,
+        details: 'Paid but the checkout no longer exists',
+        providerResponse: data,
+      })
+      await this.markNeedsReview(tx.id)
+      return
+    }
+
+    const result = await orderService.verifyPaymentAndCreateOrder(reference)
+    if (result.success) {
+      summary.finalized++
+    } else {
+      await this.recordDiscrepancy(summary, {
+        type: 'finalize_failed',
+        provider: providerName,
+        providerReference: reference,
+        paymentTransactionId: tx.id,
+        expectedAmount,
+        providerAmount,
+        expectedCurrency,
+        providerCurrency,
+        details: result.error || 'Order could not be created',
+        providerResponse: data,
+      })
+    }
+  }
+
+  /**
+   * Successful charges at the active payment provider in the lookback window that have no
+   * payment_transactions row at all.
+   */
+  private async findOrphanedCharges(summary: ReconciliationSummary): Promise<void> {
+    const from = new Date(Date.now() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString()
+    const provider = getPaymentProvider()
+
+    for (let page = 1; page <= MAX_PROVIDER_PAGES; page++) {
+      let listed
+      try {
+        listed = await provider.listTransactions({ status: 'success', from, perPage: BATCH_SIZE, page })
+      } catch (err) {
+        summary.errors.push(err instanceof Error ? err.message : `Failed to list ${provider.name} transactions`)
+        return
+      }
+
+      const charges = listed.data
+      if (charges.length === 0) return
+
+      const references = charges.map((c) => c.reference)
+      const { data: known } = await this.supabase
+        .from('payment_transactions')
+        .select('id, provider_reference, status, amount, currency')
+        .in('provider_reference', references)
+
+      const knownByRef = new Map(
+        ((known ?? []) as Array<{ id: string; provider_reference: string; status: string; amount: number; currency: string | null }>)
+          .map((k) => [k.provider_reference, k])
+      )
+      for (const charge of charges) {
+        const tx = knownByRef.get(charge.reference)
+        if (!tx) {
+          await this.recordDiscrepancy(summary, {
+            type: 'orphaned_charge',
+            provider: provider.name,
+            providerReference: charge.reference,
+            providerAmount: roundMoney(charge.amount),
+            providerCurrency: charge.currency,
+            details: `Successful ${provider.name} charge${charge.customerEmail ? ` from ${charge.customerEmail}` : ''} with no matching transaction`,
+            providerResponse: charge.raw,
+          })
+          continue
+        }
+
+        // Charged after we gave the checkout up: the customer paid and there is no order
+        if (tx.status === 'cancelled' || tx.status === 'failed') {
+          await this.recordDiscrepancy(summary, {
+            type: 'orphaned_charge',
+            provider: provider.name,
+            providerReference: charge.reference,
+            paymentTransactionId: tx.id,
+            expectedAmount: roundMoney(Number(tx.amount)),
+            providerAmount: roundMoney(charge.amount),
+            expectedCurrency: tx.currency || 'GHS',
+            providerCurrency: charge.currency,
+            details: tx.status === 'cancelled' ? 'Paid after the checkout was cancelled' : 'Paid after the checkout was marked failed',
+            providerResponse: charge.raw,
+          })
+          await this.markNeedsReview(tx.id)
+        }
+      }
+
+      if (listed.pageCount == null || page >= listed.pageCount) return
+    }
+  }
+
+  /** Mark an unpaid transaction and its checkout failed, and hand its reserved stock and store credit back. */
+  private async markAbandoned(transactionId: string, reference: string, reason: string): Promise<void> {
+    const now = new Date().toISOString()
+
+    await this.supabase
+      .from('payment_transactions')
+      .update({ status: 'failed', updated_at: now })
+      .eq('id', transactionId)
+      .eq('status', 'pending')
+
+    const { data: pendingOrder } = await this.supabase
+      .from('pending_orders')
+      .update({ payment_status: 'failed', updated_at: now })
+      .eq('payment_reference', reference)
+      .is('converted_to_order_id', null)
+      .select('pending_order_id')
+      .maybeSingle()
+
+    if (pendingOrder?.pending_order_id) {
+      await this.inventoryService.releaseForPendingOrder(pendingOrder.pending_order_id, 'payment abandoned')
+      await this.storeCreditService.releaseForPendingOrder(pendingOrder.pending_order_id, 'payment abandoned')
+      await this.deliverySlotService.releaseForPendingOrder(pendingOrder.pending_order_id, 'payment abandoned')
+    }
+    if (isAmendmentReference(reference)) {
+      await new OrderAmendmentService().failPayment(reference, reason)
+    }
+    console.log(`Reconciliation marked ${reference} failed: ${reason}`)
+  }
+
+  /**
+   * Take a reported transaction out of the reconciliation set (see supabase-payment-reconciliation-review.sql).
+   * The money needs an admin, so later runs neither retry nor re-report it.
+   */
+  private async markNeedsReview(transactionId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('payment_transactions')
+      .update({ status: 'needs_review', updated_at: new Date().toISOString() })
+      .eq('id', transactionId)
+      .in('status', ['pending', 'success', 'cancelled', 'failed'])
+    if (error) console.warn('Transaction not marked for review:', transactionId, error.message)
+  }
+
+  /** Insert a discrepancy unless an open one already exists for this reference and type. */
+  private async recordDiscrepancy(summary: ReconciliationSummary, input: DiscrepancyInput): Promise<void> {
+    const { error } = await this.supabase
+      .from('payment_discrepancies')
+      .insert({
+        run_id: summary.runId ?? null,
+        type: input.type,
+        provider: input.provider,
+        provider_reference: input.providerReference,
+        payment_transaction_id: input.paymentTransactionId ?? null,
+        expected_amount: input.expectedAmount ?? null,
+        provider_amount: input.providerAmount ?? null,
+        expected_currency: input.expectedCurrency ?? null,
+        provider_currency: input.providerCurrency ?? null,
+        details: input.details,
+        provider_response: input.providerResponse ?? null,
+      })
+
+    if (!error) {
+      summary.discrepancies++
+    } else if (error.code !== '23505') {
+      summary.errors.push(`${input.providerReference}: ${error.message}`)
+    }
+  }
+
+  /**
+   * List discrepancies for admin (open ones by default), newest first.
+   */
+  async listDiscrepancies(options: { resolved?: boolean; type?: DiscrepancyType; page?: number; limit?: number } = {}): Promise<{
+    success: boolean
+    data?: unknown[]
+    pagination?: { page: number; limit: number; total: number; totalPages: number }
+    error?: string
+  }> {
+    try {
+      const { resolved = false, type, page = 1, limit = 50 } = options
+      const offset = (page - 1) * limit
+
+      let query = this.supabase
+        .from('payment_discrepancies')
+        .select('id, run_id, type, provider_reference, payment_transaction_id, expected_amount, provider_amount, expected_currency, provider_currency, details, resolved_at, resolved_by, resolution_note, created_at', { count: 'exact' })
+        .order('created_at', { ascending: false })
+
+      query = resolved ? query.not('resolved_at', 'is', null) : query.is('resolved_at', null)
+      if (type) query = query.eq('type', type)
+
+      const { data, error, count } = await query.range(offset, offset + limit - 1)
+
+      if (error) {
+        return { success: false, error: error.message }
+      }
+
+      return {
+        success: true,
+        data: data || [],
+        pagination: {
+          page,
+          limit,
+          total: count ?? 0,
+          totalPages: Math.ceil((count ?? 0) / limit),
+        },
+      }
+    } catch (err) {
+      console.error('List discrepancies error:', err)
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : 'Failed to fetch discrepancies',
+      }
+    }
+  }
+
+  /** Recent runs for admin, newest first. */
+  async listRuns(limit: number = 20): Promise<{ success: boolean; data?: unknown[]; error?: string }> {
+    const { data, error } = await this.supabase
+      .from('reconciliation_runs')
+      .select('*')
+      .order('started_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      return { success: false, error: error.message }
+    }
+    return { success: true, data: data || [] }
+  }
+
+  /** Close a discrepancy once an admin has dealt with it (e.g. refunded or created the order by hand). */
+  async resolveDiscrepancy(id: string, adminId: string | undefined, note?: string): Promise<{ success: boolean; error?: string }> {
+    const { data, error } = await this.supabase
+      .from('payment_discrepancies')
+      .update({
+        resolved_at: new Date().toISOString(),
+        resolved_by: adminId ?? null,
+        resolution_note: note ?? null,
+      })
+      .eq('id', id)
+      .is('resolved_at', null)
+      .select('id')
+
+    if (error) {
+      return { success: false, error: error.message }
+    }
+    if (!data || data.length === 0) {
+      return { success: false, error: 'Discrepancy not found or already resolved' }
+    }
+    return { success: true }
+  }
+}
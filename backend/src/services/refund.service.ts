@@ -0,0 +1,448 @@
+import { createAdminClient } from '../config/supabase'
+import { canTransitionOrderStatus } from '../config/order-status'
+import { getPaymentProvider, fromMinorUnits } from './payment-provider.service'
+import { isCodPaymentMethod } from './cod.service'
+import { MANUAL_PAYMENT_PROVIDER } from './admin-order.service'
+import { OrderService } from './order.service'
+import { EmailService } from './email.service'
+
+/**
+ * Refunds against payment_transactions.
+ * Admin requests a full or partial refund; the payment provider settles it asynchronously and reports
+ * progress through refund.* webhooks, which drive the refund status, the transaction's refunded
+ * amount and, once fully refunded, the order's move to `refunded`.
+ */
+
+export type RefundStatus = 'pending' | 'processing' | 'processed' | 'failed'
+
+const REFUND_STATUSES: RefundStatus[] = ['pending', 'processing', 'processed', 'failed']
+const FINAL_REFUND_STATUSES: RefundStatus[] = ['processed', 'failed']
+
+export interface RefundRow {
+  id: string
+  payment_transaction_id: string
+  order_id: string | null
+  provider: string
+  provider_refund_id: string | null
+  transaction_reference: string
+  amount: number
+  currency: string
+  status: RefundStatus
+  reason: string | null
+  requested_by: string | null
+  processed_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface CreateRefundParams {
+  paymentTransactionId: string
+  /** Amount in GHS; omit to refund whatever has not been refunded yet. */
+  amount?: number
+  reason: string
+  requestedBy?: string
+}
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+function toRefundStatus(value: unknown): RefundStatus {
+  const status = String(value ?? '').toLowerCase()
+  return (REFUND_STATUSES as string[]).includes(status) ? (status as RefundStatus) : 'pending'
+}
+
+export class RefundService {
+  private supabase = createAdminClient()
+  private emailService = new EmailService()
+
+  /**
+   * Request a refund from the transaction's payment provider and record it as pending.
+   */
+  async createRefund(params: CreateRefundParams): Promise<{ success: boolean; data?: RefundRow; error?: string }> {
+    try {
+      const { data: transaction, error: txError } = await this.supabase
+        .from('payment_transactions')
+        .select('*')
+        .eq('id', params.paymentTransactionId)
+        .maybeSingle()
+
+      if (txError || !transaction) {
+        return { success: false, error: 'Transaction not found' }
+      }
+
+      if (transaction.status !== 'success') {
+        return { success: false, error: 'Only successful transactions can be refunded' }
+      }
+
+      if (isCodPaymentMethod(transaction.provider)) {
+        return { success: false, error: 'Pay-on-delivery payments are refunded in cash or mobile money, not through the payment provider' }
+      }
+
+      if (transaction.provider === MANUAL_PAYMENT_PROVIDER) {
+        return { success: false, error: 'Payments recorded by an admin are refunded outside the payment provider' }
+      }
+
+      // The balance check and the pending refund row are one locked step (supabase-refund-limit.sql),
+      // so concurrent requests cannot refund more than was paid
+      const { data: reserved, error: reserveError } = await this.supabase.rpc('reserve_refund', {
+        p_payment_transaction_id: transaction.id,
+        p_amount: params.amount != null ? roundMoney(params.amount) : null,
+        p_reason: params.reason,
+        p_requested_by: params.requestedBy ?? null,
+      })
+      if (reserveError || !reserved) {
+        console.error('Reserve refund error:', reserveError)
+        return { success: false, error: 'Refund could not be recorded' }
+      }
+
+      const reservation = reserved as { ok: boolean; error?: string; remaining?: number; refundId?: string; amount?: number }
+      if (!reservation.ok) {
+        if (reservation.error === 'fully_refunded') {
+          return { success: false, error: 'Transaction has already been fully refunded' }
+        }
+        if (reservation.error === 'invalid_amount') {
+          return {
+            success: false,
+            error: `Refund amount must be between 0.01 and ${Number(reservation.remaining).toFixed(2)} ${transaction.currency || 'GHS'}`,
+          }
+        }
+        return { success: false, error: 'Only successful transactions can be refunded' }
+      }
+
+      let providerRefund
+      try {
+        providerRefund = await getPaymentProvider(transaction.provider || 'paystack').createRefund({
+          reference: transaction.provider_reference,
+          amount: Number(reservation.amount),
+          currency: transaction.currency || 'GHS',
+          merchantNote: params.reason,
+        })
+      } catch (providerError) {
+        // The provider refused, so the reserved amount becomes refundable again
+        await this.supabase
+          .from('refunds')
+          .update({
+            status: 'failed',
+            provider_response: { error: providerError instanceof Error ? providerError.message : String(providerError) },
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', reservation.refundId)
+        throw providerError
+      }
+
+      // A webhook that arrived first has already claimed the row; keep its status
+      const { data: updated, error: updateError } = await this.supabase
+        .from('refunds')
+        .update({
+          provider_refund_id: providerRefund.providerRefundId,
+          status: toRefundStatus(providerRefund.status),
+          provider_response: providerRefund.raw,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', reservation.refundId)
+        .is('provider_refund_id', null)
+        .select()
+        .maybeSingle()
+      const refund = updated ?? (await this.supabase.from('refunds').select('*').eq('id', reservation.refundId).single()).data
+
+      if (updateError || !refund) {
+        // The provider already accepted the refund; the webhook matches the pending row by reference
+        console.error('Failed to record refund:', updateError)
+        return { success: false, error: 'Refund was requested but could not be recorded' }
+      }
+
+      return { success: true, data: refund as RefundRow }
+    } catch (error) {
+      console.error('Create refund error:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to create refund',
+      }
+    }
+  }
+
+  /**
+   * List refunds (admin), optionally for one transaction.
+   */
+  async listRefunds(options: { paymentTransactionId?: string; page?: number; limit?: number } = {}): Promise<{
+    success: boolean
+    data?: RefundRow[]
+    pagination?: { page: number; limit: number; total: number; totalPages: number }
+    error?: string
+  }> {
+    try {
+      const { paymentTransactionId, page = 1, limit = 50 } = options
+      const offset = (page - 1) * limit
+
+      let query = this.supabase
+        .from('refunds')
+        .select('*', { count: 'exact' })
+        .order('created_at', { ascending: false })
+
+      if (paymentTransactionId) {
+        query = query.eq('payment_transaction_id', paymentTransactionId)
+      }
+
+      const { data, error, count } = await query.range(offset, offset + limit - 1)
+
+      if (error) {
+        return { success: false, error: error.message }
+      }
+
+      return {
+        success: true,
+        data: (data || []) as RefundRow[],
+        pagination: {
+          page,
+          limit,
+          total: count ?? 0,
+          totalPages: Math.ceil((count ?? 0) / limit),
+        },
+      }
+    } catch (error) {
+      console.error('List refunds error:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch refunds',
+      }
+    }
+  }
+
+  /**
+   * Apply a refund.pending / refund.processing / refund.processed / refund.failed webhook.
+   * Refunds started from the provider's dashboard are recorded here the first time we see them.
+   * Only refunds and transactions of the provider that sent the webhook are touched.
+   */
+  async handleRefundEvent(provider: string, eventType: string, data: Record<string, unknown>): Promise<{ success: boolean; message: string }> {
+    try {
+      const status = toRefundStatus(eventType.split('.')[1] ?? data.status)
+      const providerRefundId = data.id != null ? String(data.id) : null
+      const transactionReference = (data.transaction_reference as string | undefined)
+        ?? ((data.transaction as { reference?: string } | undefined)?.reference)
+
+      let refund = await this.findRefundForEvent(provider, providerRefundId, transactionReference, Number(data.amount))
+
+      if (!refund) {
+        refund = await this.recordUntrackedRefund(provider, providerRefundId, transactionReference, data)
+        if (!refund) {
+          console.warn('Refund event for unknown transaction:', transactionReference)
+          return { success: true, message: 'Refund event ignored: transaction not found' }
+        }
+      }
+
+      if (FINAL_REFUND_STATUSES.includes(refund.status)) {
+        return { success: true, message: 'Refund already finalised' }
+      }
+
+      const now = new Date().toISOString()
+      const { error: updateError } = await this.supabase
+        .from('refunds')
+        .update({
+          status,
+          provider_refund_id: refund.provider_refund_id ?? providerRefundId,
+          provider_response: data,
+          processed_at: status === 'processed' ? now : null,
+          updated_at: now,
+        })
+        .eq('id', refund.id)
+
+      if (updateError) {
+        return { success: false, message: updateError.message }
+      }
+
+      if (status === 'processed') {
+        await this.settleProcessedRefund({ ...refund, status })
+      }
+
+      return { success: true, message: `Refund ${status}` }
+    } catch (error) {
+      console.error('Handle refund event error:', error)
+      return { success: false, message: 'Failed to process refund event' }
+    }
+  }
+
+  private async findRefundForEvent(
+    provider: string,
+    providerRefundId: string | null,
+    transactionReference: string | undefined,
+    amountKobo: number
+  ): Promise<RefundRow | null> {
+    if (providerRefundId) {
+      const { data } = await this.supabase
+        .from('refunds')
+        .select('*')
+        .eq('provider', provider)
+        .eq('provider_refund_id', providerRefundId)
+        .maybeSingle()
+      if (data) return data as RefundRow
+    }
+
+    if (!transactionReference) return null
+
+    // Fall back to the oldest open refund on the transaction, preferring an exact amount match
+    const { data: open } = await this.supabase
+      .from('refunds')
+      .select('*')
+      .eq('provider', provider)
+      .eq('transaction_reference', transactionReference)
+      .in('status', ['pending', 'processing'])
+      .order('created_at', { ascending: true })
+
+    const candidates = (open || []) as RefundRow[]
+    const amount = Number.isFinite(amountKobo) ? fromMinorUnits(amountKobo) : null
+    return candidates.find((r) => amount != null && roundMoney(Number(r.amount)) === roundMoney(amount))
+      ?? candidates[0]
+      ?? null
+  }
+
+  private async recordUntrackedRefund(
+    provider: string,
+    providerRefundId: string | null,
+    transactionReference: string | undefined,
+    data: Record<string, unknown>
+  ): Promise<RefundRow | null> {
+    if (!transactionReference) return null
+
+    const { data: transaction } = await this.supabase
+      .from('payment_transactions')
+      .select('id, order_id, provider, currency')
+      .eq('provider_reference', transactionReference)
+      .maybeSingle()
+
+    if (!transaction) return null
+    if ((transaction.provider || 'paystack') !== provider) {
+      console.warn(`Refund event from ${provider} for a ${transaction.provider || 'paystack'} transaction ignored:`, transactionReference)
+      return null
+    }
+
+    const { data: refund, error } = await this.supabase
+      .from('refunds')
+      .insert({
+        payment_transaction_id: transaction.id,
+        order_id: transaction.order_id ?? null,
+        provider,
+        provider_refund_id: providerRefundId,
+        transaction_reference: transactionReference,
+        amount: fromMinorUnits(Number(data.amount) || 0),
+        currency: (data.currency as string) || transaction.currency || 'GHS',
+        // Inserted as pending so the caller applies the event's status (and its side effects)
+        status: 'pending',
+        reason: 'Refund issued from provider dashboard',
+        provider_response: data,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Failed to record untracked refund:', error)
+      return null
+    }
+    return refund as RefundRow
+  }
+
+  /**
+   * Update the transaction's refunded amount and move the order on: fully refunded orders become
+   * `refunded` (via cancelled when they were never delivered), partial refunds add a history note.
+   * Only the order's checkout payment can refund the order; refunds of an amendment payment link
+   * (payment_transactions.amendment_id) are noted in the history like partial refunds.
+   */
+  private async settleProcessedRefund(refund: RefundRow): Promise<void> {
+    const { data: transaction } = await this.supabase
+      .from('payment_transactions')
+      .select('id, amount, currency, order_id, customer_email, amendment_id')
+      .eq('id', refund.payment_transaction_id)
+      .maybeSingle()
+
+    if (!transaction) return
+
+    const { data: processed } = await this.supabase
+      .from('refunds')
+      .select('amount')
+      .eq('payment_transaction_id', transaction.id)
+      .eq('status', 'processed')
+
+    const refundedAmount = roundMoney((processed || []).reduce((sum, r: { amount: number }) => sum + Number(r.amount || 0), 0))
+    const fullyRefunded = refundedAmount >= roundMoney(Number(transaction.amount))
+
+    await this.supabase
+      .from('payment_transactions')
+      .update({
+        refunded_amount: refundedAmount,
+        ...(fullyRefunded && { status: 'refunded' }),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', transaction.id)
+
+    const orderId = refund.order_id ?? transaction.order_id
+    if (!orderId) return
+
+    const currency = refund.currency || transaction.currency || 'GHS'
+    const amendmentPayment = transaction.amendment_id != null
+    const reason = amendmentPayment
+      ? `Refund of ${currency} ${Number(refund.amount).toFixed(2)} for an order change payment processed`
+      : `${fullyRefunded ? 'Full' : 'Partial'} refund of ${currency} ${Number(refund.amount).toFixed(2)} processed`
+
+    if (fullyRefunded && !amendmentPayment) {
+      await this.moveOrderToRefunded(orderId, reason)
+      return
+    }
+
+    const { data: order } = await this.supabase
+      .from('orders')
+      .select('id, order_id, status')
+      .eq('id', orderId)
+      .maybeSingle()
+
+    if (!order) return
+
+    await this.supabase
+      .from('order_status_history')
+      .insert({
+        order_id: order.id,
+        old_status: order.status,
+        new_status: order.status,
+        reason,
+      })
+
+    const customerEmail = transaction.customer_email as string | null
+    if (customerEmail?.trim()) {
+      this.emailService
+        .sendOrderStatusEmail(customerEmail, {
+          customerName: 'Customer',
+          orderNumber: order.order_id || order.id,
+          statusLabel: amendmentPayment ? 'Order change payment refunded' : 'Partial refund issued',
+          message: `We have refunded ${currency} ${Number(refund.amount).toFixed(2)} of your payment to your original payment method.`,
+        })
+        .then((r) => {
+          if (!r.success) console.warn('Partial refund email failed:', r.errors)
+        })
+        .catch((err) => console.error('Partial refund email error:', err))
+    }
+  }
+
+  private async moveOrderToRefunded(orderId: string, reason: string): Promise<void> {
+    const orderService = new OrderService()
+    const { data: order } = await this.supabase
+      .from('orders')
+      .select('status')
+      .eq('id', orderId)
+      .maybeSingle()
+
+    if (!order || order.status === 'refunded') return
+
+    // Undelivered orders are cancelled first so stock is restored by the cancellation effects
+    if (!canTransitionOrderStatus(order.status, 'refunded') && canTransitionOrderStatus(order.status, 'cancelled')) {
+      const cancelled = await orderService.updateOrderStatus(orderId, 'cancelled', undefined, `Cancelled for refund. ${reason}`)
+      if (!cancelled.success) {
+        console.warn('Could not cancel order before refund:', orderId, cancelled.error)
+        return
+      }
+    }
+
+    const result = await orderService.updateOrderStatus(orderId, 'refunded', undefined, reason, { viaRefund: true })
+    if (!result.success) {
+      console.warn('Could not mark order refunded:', orderId, result.error)
+    }
+  }
+}
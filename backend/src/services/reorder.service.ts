@@ -0,0 +1,299 @@
+import { createAdminClient } from '../config/supabase'
+import { CartService } from './cart.service'
+import { InventoryService, OversellPolicy } from './inventory.service'
+
+/**
+ * Reorder: put the items of a past order back into the customer's cart in one call.
+ * Items go through CartService.addBatchToCart, so they merge with whatever is already in the cart and
+ * are priced at checkout like any other cart item. Availability here mirrors the checkout reservation
+ * (reserve_stock_for_pending_order): products set to `block` are capped at available stock, the other
+ * oversell policies accept the full quantity. Nothing is reserved until checkout.
+ */
+
+export type ReorderUnavailableReason = 'out_of_stock' | 'discontinued'
+
+export interface ReorderAddedItem {
+  productId: string
+  name: string
+  quantity: number
+  requestedQuantity: number
+  /** Part of quantity beyond available stock, accepted because the product allows backorders */
+  backorderedQuantity: number
+  unitPrice: number
+}
+
+export interface ReorderRepricedItem {
+  productId: string
+  name: string
+  previousPrice: number
+  currentPrice: number
+}
+
+export interface ReorderSubstitute {
+  productId: string
+  name: string
+  price: number
+  image: string | null
+  available: number
+}
+
+export interface ReorderUnavailableItem {
+  productId: string | null
+  name: string
+  requestedQuantity: number
+  availableQuantity: number
+  reason: ReorderUnavailableReason
+  substitutes: ReorderSubstitute[]
+}
+
+export interface ReorderSummary {
+  orderId: string
+  orderNumber: string
+  added: ReorderAddedItem[]
+  outOfStock: ReorderUnavailableItem[]
+  discontinued: ReorderUnavailableItem[]
+  repriced: ReorderRepricedItem[]
+}
+
+export interface ReorderResult {
+  success: boolean
+  data?: ReorderSummary
+  error?: string
+}
+
+interface ReorderedOrderItem {
+  product_id: string | null
+  product_name: string
+  category_name: string | null
+  unit_price: number
+  quantity: number
+}
+
+interface ReorderProductRow {
+  id: string
+  name: string
+  price: number
+  quantity: number | null
+  in_stock: boolean | null
+  oversell_policy: OversellPolicy | null
+  category_name: string | null
+  images: string[] | null
+}
+
+const REORDER_PRODUCT_COLUMNS = 'id, name, price, quantity, in_stock, oversell_policy, category_name, images'
+
+/** Substitutes offered per unavailable item */
+const MAX_SUBSTITUTES = 3
+
+export class ReorderService {
+  private supabase = createAdminClient()
+  private cartService = new CartService()
+  private inventoryService = new InventoryService()
+
+  /**
+   * Add the items of one of the user's orders to their cart and report what could not be added as ordered.
+   * With replaceCart the cart is emptied first (only when at least one item can be added).
+   */
+  async reorderToCart(orderId: string, userId: string, options: { replaceCart?: boolean } = {}): Promise<ReorderResult> {
+    try {
+      const { data: order } = await this.supabase
+        .from('orders')
+        .select('id, order_id, order_items (product_id, product_name, category_name, unit_price, quantity)')
+        .eq('id', orderId)
+        .eq('user_id', userId)
+        .maybeSingle()
+
+      if (!order) {
+        return { success: false, error: 'Order not found' }
+      }
+
+      const orderItems = this.mergeOrderItems((order.order_items ?? []) as ReorderedOrderItem[])
+      if (orderItems.length === 0) {
+        return { success: false, error: 'This order has no items to reorder' }
+      }
+
+      const productIds = orderItems.flatMap((item) => (item.product_id ? [item.product_id] : []))
+      const { data: productRows, error: productsError } = productIds.length > 0
+        ? await this.supabase.from('products').select(REORDER_PRODUCT_COLUMNS).in('id', productIds)
+        : { data: [], error: null }
+
+      if (productsError) {
+        console.error('Reorder products error:', productsError)
+        return { success: false, error: 'Failed to load products for this order' }
+      }
+
+      const products = new Map(((productRows ?? []) as ReorderProductRow[]).map((p) => [p.id, p]))
+      const reserved = await this.inventoryService.getReservedQuantities([...products.keys()])
+
+      const summary: ReorderSummary = {
+        orderId: order.id,
+        orderNumber: order.order_id,
+        added: [],
+        outOfStock: [],
+        discontinued: [],
+        repriced: [],
+      }
+
+      for (const item of orderItems) {
+        const product = item.product_id ? products.get(item.product_id) : undefined
+        if (!product) {
+          summary.discontinued.push(this.unavailable(item, 0, 'discontinued'))
+          continue
+        }
+
+        const available = this.availableStock(product, reserved)
+        const policy = product.oversell_policy ?? 'block'
+        const quantity = policy === 'block' ? Math.min(item.quantity, available) : item.quantity
+
+        if (quantity < item.quantity) {
+          summary.outOfStock.push(this.unavailable(item, available, 'out_of_stock'))
+        }
+        if (quantity < 1) continue
+
+        const currentPrice = Number(product.price)
+        summary.added.push({
+          productId: product.id,
+          name: product.name,
+          quantity,
+          requestedQuantity: item.quantity,
+          backorderedQuantity: Math.max(quantity - available, 0),
+          unitPrice: currentPrice,
+        })
+
+        if (Math.abs(currentPrice - Number(item.unit_price)) >= 0.01) {
+          summary.repriced.push({
+            productId: product.id,
+            name: product.name,
+            previousPrice: Number(item.unit_price),
+            currentPrice,
+          })
+        }
+      }
+
+      await this.attachSubstitutes(
+        [...summary.outOfStock, ...summary.discontinued],
+        orderItems,
+        products,
+        new Set(summary.added.map((item) => item.productId))
+      )
+
+      if (summary.added.length > 0) {
+        if (options.replaceCart) {
+          const cleared = await this.cartService.clearCart(userId)
+          if (!cleared.success) {
+            return { success: false, error: 'Failed to clear cart' }
+          }
+        }
+
+        const batch = await this.cartService.addBatchToCart(
+          userId,
+          summary.added.map((item) => ({ product_id: item.productId, quantity: item.quantity }))
+        )
+
+        // addBatchToCart reports per-item failures as "<productId>: <message>"
+        const failed = new Set((batch.data?.errors ?? []).map((line) => line.split(':')[0]))
+        if (failed.size > 0) {
+          console.warn('Reorder: some items could not be added to cart', { orderId, errors: batch.data?.errors })
+          summary.added = summary.added.filter((item) => !failed.has(item.productId))
+          summary.repriced = summary.repriced.filter((item) => !failed.has(item.productId))
+        }
+      }
+
+      return { success: true, data: summary }
+    } catch (error) {
+      console.error('Reorder error:', error)
+      return { success: false, error: 'Failed to reorder' }
+    }
+  }
+
+  /** One line per product; amendments and old carts can leave the same product on two lines. */
+  private mergeOrderItems(items: ReorderedOrderItem[]): ReorderedOrderItem[] {
+    const merged = new Map<string, ReorderedOrderItem>()
+    for (const item of items) {
+      const quantity = Number(item.quantity) || 0
+      if (quantity < 1) continue
+      const key = item.product_id ?? `name:${item.product_name}`
+      const existing = merged.get(key)
+      if (existing) {
+        existing.quantity += quantity
+      } else {
+        merged.set(key, { ...item, quantity })
+      }
+    }
+    return [...merged.values()]
+  }
+
+  /** Same rule as the checkout reservation: out-of-stock products have nothing available. */
+  private availableStock(product: ReorderProductRow, reserved: Map<string, number>): number {
+    if (product.in_stock === false) return 0
+    return Math.max((Number(product.quantity) || 0) - (reserved.get(product.id) ?? 0), 0)
+  }
+
+  private unavailable(item: ReorderedOrderItem, available: number, reason: ReorderUnavailableReason): ReorderUnavailableItem {
+    return {
+      productId: item.product_id,
+      name: item.product_name,
+      requestedQuantity: item.quantity,
+      availableQuantity: available,
+      reason,
+      substitutes: [],
+    }
+  }
+
+  /**
+   * Suggest in-stock products from the same category, closest in price to what was paid.
+   * Products already going into the cart from this order are not suggested.
+   */
+  private async attachSubstitutes(
+    unavailable: ReorderUnavailableItem[],
+    orderItems: ReorderedOrderItem[],
+    products: Map<string, ReorderProductRow>,
+    excludeIds: Set<string>
+  ): Promise<void> {
+    if (unavailable.length === 0) return
+
+    const itemFor = (entry: ReorderUnavailableItem) =>
+      orderItems.find((item) => (entry.productId ? item.product_id === entry.productId : item.product_name === entry.name))
+    const categoryFor = (entry: ReorderUnavailableItem) =>
+      (entry.productId ? products.get(entry.productId)?.category_name : null) ?? itemFor(entry)?.category_name ?? null
+
+    const categories = [...new Set(unavailable.map(categoryFor).filter((c): c is string => !!c))]
+    if (categories.length === 0) return
+
+    const { data: candidateRows, error } = await this.supabase
+      .from('products')
+      .select(REORDER_PRODUCT_COLUMNS)
+      .in('category_name', categories)
+      .eq('in_stock', true)
+      .gt('quantity', 0)
+      .limit(200)
+
+    if (error) {
+      console.error('Reorder substitutes error:', error)
+      return
+    }
+
+    const candidates = ((candidateRows ?? []) as ReorderProductRow[]).filter((p) => !excludeIds.has(p.id))
+    const reserved = await this.inventoryService.getReservedQuantities(candidates.map((p) => p.id))
+
+    for (const entry of unavailable) {
+      const category = categoryFor(entry)
+      if (!category) continue
+      const paid = Number(itemFor(entry)?.unit_price) || 0
+
+      entry.substitutes = candidates
+        .filter((p) => p.category_name === category && p.id !== entry.productId)
+        .map((p) => ({ product: p, available: this.availableStock(p, reserved) }))
+        .filter(({ available }) => available > 0)
+        .sort((a, b) => Math.abs(Number(a.product.price) - paid) - Math.abs(Number(b.product.price) - paid))
+        .slice(0, MAX_SUBSTITUTES)
+        .map(({ product, available }) => ({
+          productId: product.id,
+          name: product.name,
+          price: Number(product.price),
+          image: product.images?.[0] ?? null,
+          available,
+        }))
+    }
+  }
+}
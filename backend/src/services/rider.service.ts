@@ -0,0 +1,965 @@
+import bcrypt from 'bcryptjs'
+import jwt from 'jsonwebtoken'
+import { createAdminClient } from '../config/supabase'
+import type { DeliveryAddress } from './order.service'
+import { UploadService } from './upload.service'
+import { DeliverySlotService } from './delivery-slot.service'
+import { EmailService } from './email.service'
+import { haversineKm } from './delivery.service'
+
+/**
+ * Riders (see supabase-riders.sql). Riders have their own accounts and sign in with phone (or email) and
+ * password. Admins assign shipped orders to them; a rider sees only their own deliveries and can only
+ * confirm those. Every confirmed delivery and failed attempt is logged in delivery_attempts, which the
+ * performance stats are built from. Attempts carry the proof captured at the door (supabase-delivery-proof.sql):
+ * a photo in a private bucket, the recipient's name and a GPS fix.
+ */
+
+function getRequiredJwtSecret(): string {
+  const secret = process.env.JWT_SECRET
+  if (!secret) {
+    throw new Error('JWT_SECRET is required for rider authentication')
+  }
+  return secret
+}
+const riderJwtSecret = getRequiredJwtSecret()
+
+/** Rider tokens carry this audience so they are never accepted as admin tokens, and the other way round */
+const RIDER_TOKEN_AUDIENCE = 'rider'
+const RIDER_TOKEN_TTL = '12h'
+const PASSWORD_SALT_ROUNDS = 12
+
+/** Orders can be assigned to a rider once they are out for delivery */
+export const ASSIGNABLE_ORDER_STATUSES = ['shipped']
+
+/** Stops per delivery route, for riders and for batches planned without riders */
+export const DEFAULT_ROUTE_CAPACITY = 15
+
+/** Longest range the performance stats cover */
+export const MAX_PERFORMANCE_DAYS = 92
+
+/** Why a delivery attempt failed */
+export const FAILED_ATTEMPT_REASON_CODES = ['customer_unreachable', 'wrong_address', 'customer_refused', 'other'] as const
+export type FailedAttemptReasonCode = (typeof FAILED_ATTEMPT_REASON_CODES)[number]
+
+const FAILED_ATTEMPT_REASON_LABELS: Record<FailedAttemptReasonCode, string> = {
+  customer_unreachable: 'Customer unreachable',
+  wrong_address: 'Wrong address',
+  customer_refused: 'Customer refused',
+  other: 'Other',
+}
+
+/** Customer email copy per reason */
+const FAILED_ATTEMPT_EMAIL_MESSAGES: Record<FailedAttemptReasonCode, string> = {
+  customer_unreachable: 'Our rider could not reach you to deliver your order. We will try again on our next delivery run; please keep your phone on.',
+  wrong_address: 'Our rider could not find your delivery address. We will call you to confirm it before trying again.',
+  customer_refused: 'Your order was not accepted at the door. We will contact you about what happens next.',
+  other: 'Our rider could not complete your delivery. We will contact you to arrange a new time.',
+}
+
+/**
+ * An unreachable customer stays on the rider's list for the next route this many times in total; after that,
+ * and after any other failure, the order waits for an admin to reschedule it
+ */
+export const MAX_UNREACHABLE_ATTEMPTS = 2
+
+/** GPS fixes taken more than this long before the attempt are rejected */
+const MAX_GPS_FIX_AGE_MS = 30 * 60 * 1000
+
+const RIDER_COLUMNS = 'id, full_name, phone, email, vehicle, route_capacity, is_active, last_login_at, created_at, updated_at'
+
+export interface Rider {
+  id: string
+  fullName: string
+  phone: string
+  email: string | null
+  vehicle: string | null
+  /** Most stops per delivery route (see supabase-delivery-routes.sql) */
+  routeCapacity: number
+  active: boolean
+  lastLoginAt: string | null
+  createdAt: string
+}
+
+export interface RiderInput {
+  fullName: string
+  phone: string
+  email?: string | null
+  vehicle?: string | null
+  routeCapacity?: number
+  active?: boolean
+  /** Required when creating; set on update to reset the rider's password */
+  password?: string
+}
+
+/** An assigned order as the rider sees it: where to go, who to call, what to collect */
+export interface RiderDelivery {
+  orderId: string
+  orderNumber: string
+  status: string
+  assignedAt: string | null
+  customerName: string | null
+  customerPhone: string | null
+  address: DeliveryAddress
+  notes: string | null
+  lat: number | null
+  lng: number | null
+  /** Google Maps directions to the pin (or the address when there is no pin) */
+  mapUrl: string
+  deliveryWindowStart: string | null
+  deliveryWindowEnd: string | null
+  itemCount: number
+  /** Amount to collect on pay-on-delivery orders; 0 when paid online */
+  amountToCollect: number
+  paymentMethod: string | null
+  failedAttempts: number
+  /** Position on today's planned route, when the order is on one */
+  routeStop: number | null
+}
+
+/** A location fix from the rider's device */
+export interface GpsFix {
+  lat: number
+  lng: number
+  /** Accuracy radius in metres, as the device reports it */
+  accuracyM?: number
+  /** When the device took the fix (ISO); defaults to when the attempt is logged */
+  capturedAt?: string
+}
+
+/** Optional proof sent with a delivery confirmation */
+export interface DeliveryProofInput {
+  recipientName?: string
+  /** Photo as a base64 data URL (see UploadService) */
+  photo?: string
+  gps?: GpsFix
+}
+
+/** Proof after the photo is stored */
+export interface SavedDeliveryProof {
+  recipientName: string | null
+  photoPath: string | null
+  gps: GpsFix | null
+}
+
+export interface FailedAttemptInput {
+  reasonCode: FailedAttemptReasonCode
+  /** What happened, in the rider's words */
+  note?: string
+  photo?: string
+  gps?: GpsFix
+}
+
+export interface FailedAttemptResult {
+  /** True when the order left the rider's list and waits for an admin to reschedule it */
+  rescheduleRequired: boolean
+}
+
+/** One attempt on the admin order detail */
+export interface DeliveryAttempt {
+  id: string
+  outcome: 'delivered' | 'failed'
+  reasonCode: FailedAttemptReasonCode | null
+  note: string | null
+  riderId: string | null
+  riderName: string | null
+  /** Confirmed or logged by an admin rather than the rider */
+  byAdmin: boolean
+  recipientName: string | null
+  /** Signed link to the photo, valid for an hour */
+  photoUrl: string | null
+  gps: GpsFix | null
+  /** Straight-line metres from the order's map pin to the GPS fix */
+  distanceFromPinM: number | null
+  createdAt: string
+}
+
+export interface OrderDeliveryAttempts {
+  orderId: string
+  /** Set while the order waits for an admin to reschedule it */
+  rescheduleReason: FailedAttemptReasonCode | null
+  rescheduleRequestedAt: string | null
+  /** Newest first */
+  attempts: DeliveryAttempt[]
+}
+
+export interface RiderAssignmentRow {
+  orderId: string
+  orderNumber: string
+  status: string
+  createdAt: string
+  customerName: string | null
+  city: string | null
+  deliveryWindowStart: string | null
+  riderId: string | null
+  riderName: string | null
+  assignedAt: string | null
+  /** Set after a failed attempt that needs the order rescheduled; assigning a rider clears it */
+  rescheduleReason: FailedAttemptReasonCode | null
+}
+
+export interface RiderPerformanceDay {
+  date: string
+  delivered: number
+  failed: number
+}
+
+export interface RiderPerformance {
+  riderId: string
+  riderName: string
+  active: boolean
+  delivered: number
+  failedAttempts: number
+  /** Average minutes from assignment to confirmed delivery; null without timed deliveries */
+  averageDeliveryMinutes: number | null
+  /** Shipped orders currently assigned */
+  openAssignments: number
+  days: RiderPerformanceDay[]
+}
+
+export interface RiderPerformanceReport {
+  from: string
+  to: string
+  riders: RiderPerformance[]
+}
+
+interface RiderRow {
+  id: string
+  full_name: string
+  phone: string
+  email: string | null
+  vehicle: string | null
+  route_capacity?: number | null
+  is_active: boolean
+  last_login_at: string | null
+  created_at: string
+}
+
+function rowToRider(row: RiderRow): Rider {
+  return {
+    id: row.id,
+    fullName: row.full_name,
+    phone: row.phone,
+    email: row.email ?? null,
+    vehicle: row.vehicle ?? null,
+    routeCapacity: Number(row.route_capacity) || DEFAULT_ROUTE_CAPACITY,
+    active: row.is_active !== false,
+    lastLoginAt: row.last_login_at ?? null,
+    createdAt: row.created_at,
+  }
+}
+
+/** Digits with an optional leading +, as stored */
+export function normalizePhone(phone: string): string {
+  const trimmed = phone.trim()
+  return (trimmed.startsWith('+') ? '+' : '') + trimmed.replace(/\D/g, '')
+}
+
+/** Proof fields of a validated request body (see deliveryProofValidation) */
+export function deliveryProofFromBody(body: Record<string, unknown> | undefined): DeliveryProofInput {
+  const { recipientName, photo, gpsLat, gpsLng, gpsAccuracy, gpsCapturedAt } = body ?? {}
+  return {
+    recipientName: recipientName != null ? String(recipientName) : undefined,
+    photo: typeof photo === 'string' && photo ? photo : undefined,
+    gps: gpsLat != null && gpsLng != null
+      ? {
+          lat: Number(gpsLat),
+          lng: Number(gpsLng),
+          accuracyM: gpsAccuracy != null ? Number(gpsAccuracy) : undefined,
+          capturedAt: gpsCapturedAt != null ? String(gpsCapturedAt) : undefined,
+        }
+      : undefined,
+  }
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+function mapUrl(lat: number | null, lng: number | null, address: DeliveryAddress | null): string {
+  const destination = lat != null && lng != null
+    ? `${lat},${lng}`
+    : [address?.street, address?.city, address?.region].filter(Boolean).join(', ')
+  return `https://www.google.com/maps/dir/?api=1&destination=${encodeURIComponent(destination)}`
+}
+
+export class RiderService {
+  private supabase = createAdminClient()
+  private uploadService = new UploadService()
+  private deliverySlotService = new DeliverySlotService()
+  private emailService = new EmailService()
+
+  // ----- Auth -----
+
+  /** Sign in with phone number or email */
+  async login(phoneOrEmail: string, password: string): Promise<{ success: boolean; data?: { rider: Rider; token: string }; error?: string }> {
+    const identifier = phoneOrEmail.trim()
+    let query = this.supabase.from('riders').select(`${RIDER_COLUMNS}, password_hash`).eq('is_active', true)
+    query = identifier.includes('@') ? query.eq('email', identifier.toLowerCase()) : query.eq('phone', normalizePhone(identifier))
+
+    const { data, error } = await query.maybeSingle()
+    if (error) {
+      console.warn('RiderService login error:', error.message)
+      return { success: false, error: 'Login failed' }
+    }
+    if (!data || !(await bcrypt.compare(password, data.password_hash as string))) {
+      return { success: false, error: 'Invalid phone/email or password' }
+    }
+
+    const now = new Date().toISOString()
+    await this.supabase.from('riders').update({ last_login_at: now }).eq('id', data.id)
+
+    const rider = rowToRider({ ...(data as RiderRow), last_login_at: now })
+    return { success: true, data: { rider, token: this.signToken(rider) } }
+  }
+
+  verifyToken(token: string): { riderId: string } | null {
+    try {
+      const decoded = jwt.verify(token, riderJwtSecret, { audience: RIDER_TOKEN_AUDIENCE }) as unknown as { riderId?: string }
+      return decoded.riderId ? { riderId: decoded.riderId } : null
+    } catch {
+      return null
+    }
+  }
+
+  private signToken(rider: Rider): string {
+    return jwt.sign({ riderId: rider.id, phone: rider.phone }, riderJwtSecret, {
+      expiresIn: RIDER_TOKEN_TTL,
+      audience: RIDER_TOKEN_AUDIENCE,
+    })
+  }
+
+  // ----- Admin: riders -----
+
+  async getRider(id: string): Promise<Rider | null> {
+    const { data, error } = await this.supabase.from('riders').select(RIDER_COLUMNS).eq('id', id).maybeSingle()
+    if (error) {
+      console.warn('RiderService getRider error:', error.message)
+      return null
+    }
+    return data ? rowToRider(data as RiderRow) : null
+  }
+
+  async listRiders(options: { includeInactive?: boolean } = {}): Promise<Rider[]> {
+    let query = this.supabase.from('riders').select(RIDER_COLUMNS).order('full_name', { ascending: true })
+    if (!options.includeInactive) query = query.eq('is_active', true)
+    const { data, error } = await query
+    if (error) {
+      console.warn('RiderService listRiders error:', error.message)
+      return []
+    }
+    return (data ?? []).map((row) => rowToRider(row as RiderRow))
+  }
+
+  async createRider(input: RiderInput, adminId?: string): Promise<{ success: boolean; data?: Rider; error?: string }> {
+    if (!input.password) return { success: false, error: 'Password is required' }
+    const { data, error } = await this.supabase
+      .from('riders')
+      .insert({
+        ...this.riderToRow(input),
+        password_hash: await bcrypt.hash(input.password, PASSWORD_SALT_ROUNDS),
+        created_by: adminId ?? null,
+      })
+      .select(RIDER_COLUMNS)
+      .single()
+    if (error) {
+      console.warn('RiderService createRider error:', error.message)
+      return { success: false, error: error.code === '23505' ? 'Another rider already uses that phone number or email' : error.message }
+    }
+    return { success: true, data: rowToRider(data as RiderRow) }
+  }
+
+  /** Deactivated riders cannot sign in or receive new orders; their current assignments are kept */
+  async updateRider(id: string, input: RiderInput): Promise<{ success: boolean; data?: Rider; error?: string }> {
+    const { data, error } = await this.supabase
+      .from('riders')
+      .update({
+        ...this.riderToRow(input),
+        ...(input.password ? { password_hash: await bcrypt.hash(input.password, PASSWORD_SALT_ROUNDS) } : {}),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .select(RIDER_COLUMNS)
+      .maybeSingle()
+    if (error) {
+      console.warn('RiderService updateRider error:', error.message)
+      return { success: false, error: error.code === '23505' ? 'Another rider already uses that phone number or email' : error.message }
+    }
+    if (!data) return { success: false, error: 'Rider not found' }
+    return { success: true, data: rowToRider(data as RiderRow) }
+  }
+
+  private riderToRow(input: RiderInput): Record<string, unknown> {
+    return {
+      full_name: input.fullName.trim(),
+      phone: normalizePhone(input.phone),
+      email: input.email?.trim().toLowerCase() || null,
+      vehicle: input.vehicle?.trim() || null,
+      ...(input.routeCapacity != null ? { route_capacity: input.routeCapacity } : {}),
+      is_active: input.active !== false,
+    }
+  }
+
+  // ----- Admin: assignment -----
+
+  /** Shipped orders with their rider, oldest first; `unassigned` keeps only orders without one */
+  async listAssignments(options: { unassigned?: boolean } = {}): Promise<{ success: boolean; data?: RiderAssignmentRow[]; error?: string }> {
+    let query = this.supabase
+      .from('orders')
+      .select('id, order_id, status, created_at, user_id, delivery_address, delivery_window_start, rider_id, rider_assigned_at, reschedule_reason')
+      .in('status', ASSIGNABLE_ORDER_STATUSES)
+      .order('created_at', { ascending: true })
+      .limit(500)
+    if (options.unassigned) query = query.is('rider_id', null)
+
+    const { data: orders, error } = await query
+    if (error) {
+      console.warn('RiderService listAssignments error:', error.message)
+      return { success: false, error: error.message }
+    }
+
+    const [customers, riders] = await Promise.all([
+      this.getCustomers((orders ?? []).map((o) => o.user_id as string)),
+      this.listRiders({ includeInactive: true }),
+    ])
+    const riderNames = new Map(riders.map((r) => [r.id, r.fullName]))
+
+    return {
+      success: true,
+      data: (orders ?? []).map((o) => ({
+        orderId: o.id,
+        orderNumber: o.order_id,
+        status: o.status,
+        createdAt: o.created_at,
+        customerName: customers.get(o.user_id)?.name ?? null,
+        city: (o.delivery_address as DeliveryAddress | null)?.city ?? null,
+        deliveryWindowStart: o.delivery_window_start ?? null,
+        riderId: o.rider_id ?? null,
+        riderName: o.rider_id ? riderNames.get(o.rider_id) ?? null : null,
+        assignedAt: o.rider_assigned_at ?? null,
+        rescheduleReason: o.reschedule_reason ?? null,
+      })),
+    }
+  }
+
+  /**
+   * Assign a shipped order to an active rider, or unassign it (riderId null). Assigning an order that
+   * waits to be rescheduled puts it back into delivery.
+   */
+  async assignOrder(orderId: string, riderId: string | null, adminId?: string): Promise<{ success: boolean; error?: string }> {
+    const { data: order, error: orderError } = await this.supabase
+      .from('orders')
+      .select('id, status, rider_id')
+      .eq('id', orderId)
+      .maybeSingle()
+    if (orderError) {
+      console.warn('RiderService assignOrder error:', orderError.message)
+      return { success: false, error: orderError.message }
+    }
+    if (!order) return { success: false, error: 'Order not found' }
+    if (!ASSIGNABLE_ORDER_STATUSES.includes(order.status)) {
+      return { success: false, error: 'Only shipped orders can be assigned to a rider' }
+    }
+    if (order.rider_id === riderId) return { success: true }
+
+    let rider: Rider | null = null
+    if (riderId) {
+      rider = await this.getRider(riderId)
+      if (!rider) return { success: false, error: 'Rider not found' }
+      if (!rider.active) return { success: false, error: 'This rider is deactivated' }
+    }
+
+    const { data: updated, error } = await this.supabase
+      .from('orders')
+      .update({
+        rider_id: riderId,
+        rider_assigned_at: riderId ? new Date().toISOString() : null,
+        rider_assigned_by: riderId ? adminId ?? null : null,
+        ...(riderId ? { reschedule_reason: null, reschedule_requested_at: null } : {}),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', orderId)
+      .in('status', ASSIGNABLE_ORDER_STATUSES)
+      .select('id')
+    if (error) {
+      console.warn('RiderService assignOrder update error:', error.message)
+      return { success: false, error: error.message }
+    }
+    if (!updated || updated.length === 0) return { success: false, error: 'Only shipped orders can be assigned to a rider' }
+
+    // Internal note (unchanged status); tracking shows the assignment from orders.rider_assigned_at instead
+    await this.supabase.from('order_status_history').insert({
+      order_id: orderId,
+      old_status: order.status,
+      new_status: order.status,
+      changed_by: null,
+      reason: rider ? `Assigned to rider ${rider.fullName}` : 'Rider unassigned',
+    })
+    return { success: true }
+  }
+
+  // ----- Rider: deliveries -----
+
+  /** The rider's shipped orders, soonest delivery slot first */
+  async listDeliveries(riderId: string): Promise<{ success: boolean; data?: RiderDelivery[]; error?: string }> {
+    const { data: orders, error } = await this.supabase
+      .from('orders')
+      .select('id, order_id, status, user_id, total_amount, payment_method, payment_status, delivery_address, delivery_notes, delivery_lat, delivery_lng, delivery_window_start, delivery_window_end, rider_assigned_at, order_items (quantity)')
+      .eq('rider_id', riderId)
+      .in('status', ASSIGNABLE_ORDER_STATUSES)
+      .order('rider_assigned_at', { ascending: true })
+    if (error) {
+      console.warn('RiderService listDeliveries error:', error.message)
+      return { success: false, error: error.message }
+    }
+
+    const orderIds = (orders ?? []).map((o) => o.id as string)
+    const [customers, failed, routeStops] = await Promise.all([
+      this.getCustomers((orders ?? []).map((o) => o.user_id as string)),
+      this.countFailedAttempts(orderIds),
+      this.getRouteStops(riderId, isoDate(new Date())),
+    ])
+
+    const deliveries: RiderDelivery[] = (orders ?? []).map((o) => {
+      const address = o.delivery_address as DeliveryAddress
+      const customer = customers.get(o.user_id)
+      const lat = o.delivery_lat != null ? Number(o.delivery_lat) : null
+      const lng = o.delivery_lng != null ? Number(o.delivery_lng) : null
+      const unpaid = o.payment_status !== 'paid'
+      return {
+        orderId: o.id,
+        orderNumber: o.order_id,
+        status: o.status,
+        assignedAt: o.rider_assigned_at ?? null,
+        customerName: customer?.name ?? null,
+        customerPhone: address?.phone || customer?.phone || null,
+        address,
+        notes: o.delivery_notes ?? null,
+        lat,
+        lng,
+        mapUrl: mapUrl(lat, lng, address),
+        deliveryWindowStart: o.delivery_window_start ?? null,
+        deliveryWindowEnd: o.delivery_window_end ?? null,
+        itemCount: ((o.order_items as Array<{ quantity: number }> | null) ?? []).reduce((sum, i) => sum + (Number(i.quantity) || 0), 0),
+        amountToCollect: unpaid ? Number(o.total_amount) || 0 : 0,
+        paymentMethod: o.payment_method ?? null,
+        failedAttempts: failed.get(o.id) ?? 0,
+        routeStop: routeStops.get(o.id) ?? null,
+      }
+    })
+
+    // Planned route order first, then by delivery slot
+    deliveries.sort((a, b) => {
+      if (a.routeStop != null && b.routeStop != null) return a.routeStop - b.routeStop
+      if (a.routeStop != null || b.routeStop != null) return a.routeStop != null ? -1 : 1
+      if (a.deliveryWindowStart && b.deliveryWindowStart) return a.deliveryWindowStart.localeCompare(b.deliveryWindowStart)
+      if (a.deliveryWindowStart || b.deliveryWindowStart) return a.deliveryWindowStart ? -1 : 1
+      return (a.assignedAt ?? '').localeCompare(b.assignedAt ?? '')
+    })
+    return { success: true, data: deliveries }
+  }
+
+  /**
+   * Log an attempt that did not end in a delivery, by the assigned rider or an admin. The booked slot is
+   * given back and the delivery window cleared. An unreachable customer stays with the rider for the next
+   * route until MAX_UNREACHABLE_ATTEMPTS; otherwise the order is unassigned and flagged for an admin to
+   * reschedule. The customer is emailed either way.
+   */
+  async recordFailedAttempt(
+    orderId: string,
+    recorder: DeliveryConfirmer,
+    attempt: FailedAttemptInput
+  ): Promise<{ success: boolean; data?: FailedAttemptResult; error?: string }> {
+    const { data: order, error } = await this.supabase
+      .from('orders')
+      .select('id, order_id, status, user_id, rider_id, rider_assigned_at')
+      .eq('id', orderId)
+      .maybeSingle()
+    if (error) {
+      console.warn('RiderService recordFailedAttempt error:', error.message)
+      return { success: false, error: error.message }
+    }
+    if (!order || (recorder.type === 'rider' && order.rider_id !== recorder.riderId)) {
+      return { success: false, error: recorder.type === 'rider' ? 'Delivery not found' : 'Order not found' }
+    }
+    if (!ASSIGNABLE_ORDER_STATUSES.includes(order.status)) return { success: false, error: 'This order is no longer out for delivery' }
+
+    const proof = await this.saveProof({ photo: attempt.photo, gps: attempt.gps })
+    if (!proof.success || !proof.data) return { success: false, error: proof.error }
+
+    const note = attempt.note?.trim() || null
+    const { error: insertError } = await this.supabase.from('delivery_attempts').insert({
+      order_id: orderId,
+      rider_id: order.rider_id ?? null,
+      outcome: 'failed',
+      reason_code: attempt.reasonCode,
+      reason: note,
+      minutes_since_assigned: order.rider_id ? this.minutesSince(order.rider_assigned_at) : null,
+      recorded_by_admin: recorder.type === 'admin' ? recorder.adminId : null,
+      ...this.proofColumns(proof.data),
+    })
+    if (insertError) {
+      console.warn('RiderService recordFailedAttempt insert error:', insertError.message)
+      return { success: false, error: insertError.message }
+    }
+
+    let rescheduleRequired = true
+    if (attempt.reasonCode === 'customer_unreachable' && order.rider_id) {
+      const { count } = await this.supabase
+        .from('delivery_attempts')
+        .select('id', { count: 'exact', head: true })
+        .eq('order_id', orderId)
+        .eq('outcome', 'failed')
+        .eq('reason_code', 'customer_unreachable')
+      rescheduleRequired = (count ?? MAX_UNREACHABLE_ATTEMPTS) >= MAX_UNREACHABLE_ATTEMPTS
+    }
+
+    const now = new Date().toISOString()
+    const { error: updateError } = await this.supabase
+      .from('orders')
+      .update({
+        delivery_window_start: null,
+        delivery_window_end: null,
+        ...(rescheduleRequired
+          ? {
+              rider_id: null,
+              rider_assigned_at: null,
+              rider_assigned_by: null,
+              reschedule_reason: attempt.reasonCode,
+              reschedule_requested_at: now,
+            }
+          : {}),
+        updated_at: now,
+      })
+      .eq('id', orderId)
+      .in('status', ASSIGNABLE_ORDER_STATUSES)
+    if (updateError) console.warn('Failed attempt not applied to order', order.order_id, updateError.message)
+    await this.deliverySlotService.releaseForOrder(orderId, 'delivery attempt failed')
+
+    // Internal note (unchanged status, so not on the customer's tracking timeline)
+    const label = FAILED_ATTEMPT_REASON_LABELS[attempt.reasonCode]
+    await this.supabase.from('order_status_history').insert({
+      order_id: orderId,
+      old_status: order.status,
+      new_status: order.status,
+      changed_by: recorder.type === 'admin' ? recorder.adminId : null,
+      reason: `Delivery attempt failed: ${label}${note ? ` (${note})` : ''}. ${rescheduleRequired ? 'Needs rescheduling' : 'Kept for the next route'}`,
+    })
+
+    this.notifyFailedAttempt(order.user_id, order.order_id, attempt.reasonCode)
+    return { success: true, data: { rescheduleRequired } }
+  }
+
+  /**
+   * Who may confirm this delivery: the assigned rider, or any admin. Returns an error message when the
+   * rider may not, or null. Orders without a rider can only be confirmed by an admin.
+   */
+  checkCanConfirm(order: { rider_id?: string | null }, confirmer: DeliveryConfirmer): string | null {
+    if (confirmer.type === 'admin') return null
+    if (order.rider_id !== confirmer.riderId) return 'This delivery is not assigned to you'
+    return null
+  }
+
+  /**
+   * Check the GPS fix and store the photo of a delivery proof. Call before changing the order: a bad
+   * photo or fix fails the confirmation rather than losing the proof.
+   */
+  async saveProof(proof: DeliveryProofInput = {}): Promise<{ success: boolean; data?: SavedDeliveryProof; error?: string }> {
+    let gps: GpsFix | null = null
+    if (proof.gps) {
+      const capturedAt = proof.gps.capturedAt ? new Date(proof.gps.capturedAt) : new Date()
+      if (Number.isNaN(capturedAt.getTime())) return { success: false, error: 'Invalid GPS timestamp' }
+      const age = Date.now() - capturedAt.getTime()
+      if (age > MAX_GPS_FIX_AGE_MS || age < -5 * 60 * 1000) {
+        return { success: false, error: 'The GPS fix is not current. Take a new one at the door.' }
+      }
+      gps = {
+        lat: proof.gps.lat,
+        lng: proof.gps.lng,
+        ...(proof.gps.accuracyM != null ? { accuracyM: proof.gps.accuracyM } : {}),
+        capturedAt: capturedAt.toISOString(),
+      }
+    }
+
+    let photoPath: string | null = null
+    if (proof.photo) {
+      const upload = await this.uploadService.uploadImage(proof.photo, 'delivery-proofs')
+      if (!upload.success || !upload.data) return { success: false, error: `Photo not saved: ${upload.message}` }
+      photoPath = upload.data.path
+    }
+
+    return { success: true, data: { recipientName: proof.recipientName?.trim() || null, photoPath, gps } }
+  }
+
+  /** Log a confirmed delivery for the rider stats and as proof. Non-fatal: the delivery already stands. */
+  async recordDelivered(
+    order: { id: string; rider_id?: string | null; rider_assigned_at?: string | null },
+    confirmer: DeliveryConfirmer,
+    proof?: SavedDeliveryProof
+  ): Promise<void> {
+    const { error } = await this.supabase.from('delivery_attempts').insert({
+      order_id: order.id,
+      rider_id: order.rider_id ?? null,
+      outcome: 'delivered',
+      minutes_since_assigned: order.rider_id ? this.minutesSince(order.rider_assigned_at ?? null) : null,
+      confirmed_by_admin: confirmer.type === 'admin' ? confirmer.adminId : null,
+      ...(proof ? this.proofColumns(proof) : {}),
+    })
+    if (error) console.warn('Delivery attempt not recorded for order', order.id, error.message)
+  }
+
+  // ----- Admin: order detail -----
+
+  /** Every attempt on an order with its proof, newest first, and whether it waits to be rescheduled */
+  async listOrderAttempts(orderId: string): Promise<{ success: boolean; data?: OrderDeliveryAttempts; error?: string }> {
+    const { data: order, error: orderError } = await this.supabase
+      .from('orders')
+      .select('id, delivery_lat, delivery_lng, reschedule_reason, reschedule_requested_at')
+      .eq('id', orderId)
+      .maybeSingle()
+    if (orderError) {
+      console.warn('RiderService listOrderAttempts error:', orderError.message)
+      return { success: false, error: orderError.message }
+    }
+    if (!order) return { success: false, error: 'Order not found' }
+
+    const { data: rows, error } = await this.supabase
+      .from('delivery_attempts')
+      .select('id, outcome, reason_code, reason, rider_id, confirmed_by_admin, recorded_by_admin, recipient_name, photo_path, gps_lat, gps_lng, gps_accuracy_m, gps_captured_at, created_at')
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: false })
+    if (error) {
+      console.warn('RiderService listOrderAttempts attempts error:', error.message)
+      return { success: false, error: error.message }
+    }
+
+    const riders = await this.listRiders({ includeInactive: true })
+    const riderNames = new Map(riders.map((r) => [r.id, r.fullName]))
+    const pinLat = order.delivery_lat != null ? Number(order.delivery_lat) : null
+    const pinLng = order.delivery_lng != null ? Number(order.delivery_lng) : null
+
+    const attempts = await Promise.all(
+      (rows ?? []).map(async (row): Promise<DeliveryAttempt> => {
+        const gps: GpsFix | null = row.gps_lat != null && row.gps_lng != null
+          ? {
+              lat: Number(row.gps_lat),
+              lng: Number(row.gps_lng),
+              ...(row.gps_accuracy_m != null ? { accuracyM: Number(row.gps_accuracy_m) } : {}),
+              ...(row.gps_captured_at ? { capturedAt: row.gps_captured_at as string } : {}),
+            }
+          : null
+        return {
+          id: row.id,
+          outcome: row.outcome,
+          reasonCode: row.reason_code ?? null,
+          note: row.reason ?? null,
+          riderId: row.rider_id ?? null,
+          riderName: row.rider_id ? riderNames.get(row.rider_id) ?? null : null,
+          byAdmin: Boolean(row.confirmed_by_admin || row.recorded_by_admin),
+          recipientName: row.recipient_name ?? null,
+          photoUrl: row.photo_path ? await this.uploadService.getSignedUrl(row.photo_path) : null,
+          gps,
+          distanceFromPinM: gps && pinLat != null && pinLng != null
+            ? Math.round(haversineKm(pinLat, pinLng, gps.lat, gps.lng) * 1000)
+            : null,
+          createdAt: row.created_at,
+        }
+      })
+    )
+
+    return {
+      success: true,
+      data: {
+        orderId,
+        rescheduleReason: order.reschedule_reason ?? null,
+        rescheduleRequestedAt: order.reschedule_requested_at ?? null,
+        attempts,
+      },
+    }
+  }
+
+  // ----- Performance -----
+
+  /**
+   * Deliveries and failed attempts per rider per day (Ghana time, UTC), average minutes from assignment
+   * to delivery, and current open assignments. Defaults to the last 7 days, today included.
+   */
+  async getPerformance(options: { from?: string; to?: string; riderId?: string } = {}): Promise<{ success: boolean; data?: RiderPerformanceReport; error?: string }> {
+    const to = options.to ?? isoDate(new Date())
+    const from = options.from ?? isoDate(new Date(new Date(`${to}T00:00:00Z`).getTime() - 6 * 24 * 60 * 60 * 1000))
+    const days = Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (24 * 60 * 60 * 1000)) + 1
+    if (!Number.isFinite(days) || days < 1) return { success: false, error: 'from must be on or before to' }
+    if (days > MAX_PERFORMANCE_DAYS) return { success: false, error: `The range can be at most ${MAX_PERFORMANCE_DAYS} days` }
+
+    let attemptsQuery = this.supabase
+      .from('delivery_attempts')
+      .select('rider_id, outcome, minutes_since_assigned, created_at')
+      .not('rider_id', 'is', null)
+      .gte('created_at', `${from}T00:00:00.000Z`)
+      .lt('created_at', new Date(Date.parse(`${to}T00:00:00Z`) + 24 * 60 * 60 * 1000).toISOString())
+    let openQuery = this.supabase
+      .from('orders')
+      .select('rider_id')
+      .not('rider_id', 'is', null)
+      .in('status', ASSIGNABLE_ORDER_STATUSES)
+    if (options.riderId) {
+      attemptsQuery = attemptsQuery.eq('rider_id', options.riderId)
+      openQuery = openQuery.eq('rider_id', options.riderId)
+    }
+
+    const [riders, { data: attempts, error }, { data: open }] = await Promise.all([this.listRiders({ includeInactive: true }), attemptsQuery, openQuery])
+    if (error) {
+      console.warn('RiderService getPerformance error:', error.message)
+      return { success: false, error: error.message }
+    }
+
+    const dates = Array.from({ length: days }, (_, i) => isoDate(new Date(Date.parse(`${from}T00:00:00Z`) + i * 24 * 60 * 60 * 1000)))
+    const report = new Map<string, RiderPerformance & { timedMinutes: number; timedCount: number }>()
+    for (const rider of riders.filter((r) => !options.riderId || r.id === options.riderId)) {
+      report.set(rider.id, {
+        riderId: rider.id,
+        riderName: rider.fullName,
+        active: rider.active,
+        delivered: 0,
+        failedAttempts: 0,
+        averageDeliveryMinutes: null,
+        openAssignments: 0,
+        days: dates.map((date) => ({ date, delivered: 0, failed: 0 })),
+        timedMinutes: 0,
+        timedCount: 0,
+      })
+    }
+
+    for (const attempt of attempts ?? []) {
+      const row = report.get(attempt.rider_id)
+      if (!row) continue
+      const day = row.days[dates.indexOf(String(attempt.created_at).slice(0, 10))]
+      if (attempt.outcome === 'delivered') {
+        row.delivered += 1
+        if (day) day.delivered += 1
+        if (attempt.minutes_since_assigned != null) {
+          row.timedMinutes += Number(attempt.minutes_since_assigned)
+          row.timedCount += 1
+        }
+      } else {
+        row.failedAttempts += 1
+        if (day) day.failed += 1
+      }
+    }
+    for (const order of open ?? []) {
+      const row = report.get(order.rider_id)
+      if (row) row.openAssignments += 1
+    }
+
+    return {
+      success: true,
+      data: {
+        from,
+        to,
+        riders: [...report.values()]
+          .map(({ timedMinutes, timedCount, ...row }) => ({
+            ...row,
+            averageDeliveryMinutes: timedCount > 0 ? Math.round(timedMinutes / timedCount) : null,
+          }))
+          // Inactive riders only when they did something in the range
+          .filter((row) => row.active || row.delivered > 0 || row.failedAttempts > 0 || row.openAssignments > 0)
+          .sort((a, b) => b.delivered - a.delivered || a.riderName.localeCompare(b.riderName)),
+      },
+    }
+  }
+
+  // ----- Helpers -----
+
+  private proofColumns(proof: SavedDeliveryProof): Record<string, unknown> {
+    return {
+      ...(proof.recipientName ? { recipient_name: proof.recipientName } : {}),
+      ...(proof.photoPath ? { photo_path: proof.photoPath } : {}),
+      ...(proof.gps
+        ? {
+            gps_lat: proof.gps.lat,
+            gps_lng: proof.gps.lng,
+            gps_accuracy_m: proof.gps.accuracyM ?? null,
+            gps_captured_at: proof.gps.capturedAt ?? null,
+          }
+        : {}),
+    }
+  }
+
+  /** Tell the customer their delivery did not happen. Fire and forget. */
+  private notifyFailedAttempt(userId: string | null, orderNumber: string, reasonCode: FailedAttemptReasonCode): void {
+    if (!userId) return
+    void (async () => {
+      const { data: user } = await this.supabase.from('users').select('email, first_name, last_name').eq('id', userId).maybeSingle()
+      if (!user?.email?.trim()) return
+      const sent = await this.emailService.sendOrderStatusEmail(user.email, {
+        customerName: [user.first_name, user.last_name].filter(Boolean).join(' ') || 'Customer',
+        orderNumber,
+        statusLabel: 'Delivery attempted',
+        message: FAILED_ATTEMPT_EMAIL_MESSAGES[reasonCode],
+      })
+      if (!sent.success) console.warn('Failed attempt email not sent:', sent.errors)
+    })().catch((err) => console.error('Failed attempt email error:', err))
+  }
+
+  private minutesSince(at: string | null): number | null {
+    if (!at) return null
+    return Math.max(0, Math.round((Date.now() - new Date(at).getTime()) / 60000))
+  }
+
+  /** Stop number of each order on the rider's planned routes for the date (see DeliveryRouteService) */
+  private async getRouteStops(riderId: string, date: string): Promise<Map<string, number>> {
+    const stops = new Map<string, number>()
+    const { data, error } = await this.supabase
+      .from('delivery_routes')
+      .select('stops')
+      .eq('rider_id', riderId)
+      .eq('route_date', date)
+      .order('batch_number', { ascending: true })
+    if (error) {
+      console.warn('RiderService getRouteStops error:', error.message)
+      return stops
+    }
+    let number = 0
+    for (const row of data ?? []) {
+      for (const stop of (row.stops as Array<{ orderId: string }> | null) ?? []) stops.set(stop.orderId, ++number)
+    }
+    return stops
+  }
+
+  private async countFailedAttempts(orderIds: string[]): Promise<Map<string, number>> {
+    const counts = new Map<string, number>()
+    if (orderIds.length === 0) return counts
+    const { data, error } = await this.supabase
+      .from('delivery_attempts')
+      .select('order_id')
+      .in('order_id', orderIds)
+      .eq('outcome', 'failed')
+    if (error) {
+      console.warn('RiderService countFailedAttempts error:', error.message)
+      return counts
+    }
+    for (const row of data ?? []) counts.set(row.order_id, (counts.get(row.order_id) ?? 0) + 1)
+    return counts
+  }
+
+  private async getCustomers(userIds: string[]): Promise<Map<string, { name: string | null; phone: string | null }>> {
+    const ids = [...new Set(userIds.filter(Boolean))]
+    const customers = new Map<string, { name: string | null; phone: string | null }>()
+    if (ids.length === 0) return customers
+    const { data, error } = await this.supabase.from('users').select('id, first_name, last_name, phone_number').in('id', ids)
+    if (error) {
+      console.warn('RiderService getCustomers error:', error.message)
+      return customers
+    }
+    for (const u of data ?? []) {
+      customers.set(u.id, {
+        name: [u.first_name, u.last_name].filter(Boolean).join(' ') || null,
+        phone: u.phone_number ?? null,
+      })
+    }
+    return customers
+  }
+}
+
+/** Who is confirming a delivery */
+export type DeliveryConfirmer = { type: 'rider'; riderId: string; riderName: string } | { type: 'admin'; adminId: string }
@@ -1,5 +1,6 @@
 import { createAdminClient } from '../config/supabase'
 import { EmailService } from './email.service'
+import { CronLockService } from './cron-lock.service'
 
 export type Recurrence = 'weekly' | 'biweekly' | 'monthly' | 'custom_days'
 
@@ -28,6 +29,7 @@ export interface ScheduledOrderRow {
 
 export class ScheduledOrderService {
   private supabase = createAdminClient()
+  private cronLock = new CronLockService()
   private emailService = new EmailService()
 
   async create(params: CreateScheduledOrderParams): Promise<{ success: boolean; data?: ScheduledOrderRow; error?: string }> {
@@ -106,45 +108,12 @@ export class ScheduledOrderService {
   private static readonly REMINDER_LOCK_JOB = 'scheduled_order_reminders'
   private static readonly LOCK_TTL_MINUTES = 15
 
-  /** Acquire cron lock; returns true if we got it. Only one instance can run at a time. If table is missing, proceeds without lock. */
-  private async acquireLock(): Promise<boolean> {
-    try {
-      const now = new Date().toISOString()
-      const lockedUntil = new Date(Date.now() + ScheduledOrderService.LOCK_TTL_MINUTES * 60 * 1000).toISOString()
-      const { data: existing } = await this.supabase
-        .from('cron_locks')
-        .select('locked_until')
-        .eq('job_name', ScheduledOrderService.REMINDER_LOCK_JOB)
-        .maybeSingle()
-      const canAcquire = !existing || !existing.locked_until || existing.locked_until <= now
-      if (!canAcquire) return false
-      const { error } = await this.supabase
-        .from('cron_locks')
-        .upsert({ job_name: ScheduledOrderService.REMINDER_LOCK_JOB, locked_until: lockedUntil }, { onConflict: 'job_name' })
-      return !error
-    } catch {
-      return true
-    }
-  }
-
-  /** Release cron lock so the next run can acquire. */
-  private async releaseLock(): Promise<void> {
-    try {
-      await this.supabase
-        .from('cron_locks')
-        .update({ locked_until: new Date(0).toISOString() })
-        .eq('job_name', ScheduledOrderService.REMINDER_LOCK_JOB)
-    } catch {
-      // ignore
-    }
-  }
-
   /** Find active scheduled orders due tomorrow and send reminder email; set reminder_sent_at. Uses lock to avoid concurrent runs; idempotent update. */
   async sendDueReminders(): Promise<{ sent: number; errors: string[]; skipped?: string }> {
     const errors: string[] = []
     let sent = 0
     try {
-      const acquired = await this.acquireLock()
+      const acquired = await this.cronLock.acquire(ScheduledOrderService.REMINDER_LOCK_JOB, ScheduledOrderService.LOCK_TTL_MINUTES)
       if (!acquired) {
         return { sent: 0, errors: [], skipped: 'Lock held by another instance' }
       }
@@ -194,7 +163,7 @@ export class ScheduledOrderService {
           }
         }
       } finally {
-        await this.releaseLock()
+        await this.cronLock.release(ScheduledOrderService.REMINDER_LOCK_JOB)
       }
     } catch (e) {
       errors.push(e instanceof Error ? e.message : 'Send reminders failed')
@@ -0,0 +1,312 @@
+import { createAdminClient } from '../config/supabase'
+
+/**
+ * Store credit wallet (see supabase-store-credit.sql).
+ * Every balance change is a ledger entry; the balance and holds are kept in Postgres functions that lock
+ * the user's wallet row. Checkout holds credit when the pending order is created, spends it when the
+ * order is created and releases it when the checkout is cancelled, fails or expires.
+ */
+
+export type StoreCreditEntryType = 'grant' | 'spend' | 'refund' | 'expiry' | 'adjustment'
+
+export const STORE_CREDIT_ENTRY_TYPES: readonly StoreCreditEntryType[] = ['grant', 'spend', 'refund', 'expiry', 'adjustment']
+
+export interface StoreCreditEntry {
+  id: string
+  user_id: string
+  entry_type: StoreCreditEntryType
+  amount: number
+  remaining: number
+  balance_after: number
+  expires_at: string | null
+  order_id: string | null
+  pending_order_id: string | null
+  reason: string | null
+  created_by: string | null
+  created_at: string
+}
+
+export interface StoreCreditBalance {
+  balance: number
+  /** Held by checkouts waiting for payment */
+  held: number
+  available: number
+  currency: string
+  /** Soonest-expiring credit that is still unused */
+  nextExpiry: { amount: number; expiresAt: string } | null
+}
+
+export interface AddStoreCreditParams {
+  userId: string
+  type: Exclude<StoreCreditEntryType, 'spend' | 'expiry'>
+  /** Positive adds credit; negative (adjustments only) removes it */
+  amount: number
+  reason?: string
+  /** Idempotency key: the same key is only ever applied once */
+  sourceKey?: string
+  expiresAt?: string | null
+  orderId?: string | null
+  createdBy?: string | null
+}
+
+export interface StoreCreditResult<T = undefined> {
+  success: boolean
+  data?: T
+  error?: string
+}
+
+/** How long a checkout holds credit before cleanup may release it (matches the stock reservation). */
+const HOLD_TTL_MINUTES = Math.max(1, parseInt(process.env.STOCK_RESERVATION_TTL_MINUTES || '30', 10) || 30)
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100
+
+export class StoreCreditService {
+  private supabase = createAdminClient()
+
+  async getBalance(userId: string): Promise<StoreCreditBalance> {
+    const now = new Date().toISOString()
+    const [{ data: wallet }, { data: holds }, { data: expiring }] = await Promise.all([
+      this.supabase
+        .from('store_credit_wallets')
+        .select('balance')
+        .eq('user_id', userId)
+        .maybeSingle(),
+      this.supabase
+        .from('store_credit_holds')
+        .select('amount')
+        .eq('user_id', userId)
+        .eq('status', 'active')
+        .gt('expires_at', now),
+      this.supabase
+        .from('store_credit_ledger')
+        .select('remaining, expires_at')
+        .eq('user_id', userId)
+        .gt('remaining', 0)
+        .gt('expires_at', now)
+        .order('expires_at', { ascending: true })
+        .limit(1)
+        .maybeSingle(),
+    ])
+
+    const balance = roundMoney(Number(wallet?.balance) || 0)
+    const held = roundMoney((holds ?? []).reduce((sum, h) => sum + (Number(h.amount) || 0), 0))
+
+    return {
+      balance,
+      held,
+      available: roundMoney(Math.max(balance - held, 0)),
+      currency: 'GHS',
+      nextExpiry: expiring?.expires_at
+        ? { amount: roundMoney(Number(expiring.remaining)), expiresAt: expiring.expires_at }
+        : null,
+    }
+  }
+
+  async getHistory(
+    userId: string,
+    options: { type?: StoreCreditEntryType; page?: number; limit?: number } = {}
+  ): Promise<{
+    success: boolean
+    data?: StoreCreditEntry[]
+    pagination?: { page: number; limit: number; total: number; totalPages: number }
+    error?: string
+  }> {
+    try {
+      const { type, page = 1, limit = 20 } = options
+      const offset = (page - 1) * limit
+
+      let query = this.supabase
+        .from('store_credit_ledger')
+        .select('id, user_id, entry_type, amount, remaining, balance_after, expires_at, order_id, pending_order_id, reason, created_by, created_at', { count: 'exact' })
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+
+      if (type) {
+        query = query.eq('entry_type', type)
+      }
+
+      const { data, error, count } = await query.range(offset, offset + limit - 1)
+
+      if (error) {
+        return { success: false, error: error.message }
+      }
+
+      return {
+        success: true,
+        data: (data ?? []) as StoreCreditEntry[],
+        pagination: {
+          page,
+          limit,
+          total: count ?? 0,
+          totalPages: Math.ceil((count ?? 0) / limit),
+        },
+      }
+    } catch (err) {
+      console.error('Get store credit history error:', err)
+      return { success: false, error: err instanceof Error ? err.message : 'Failed to fetch store credit history' }
+    }
+  }
+
+  /** Add credit (grant, refund, adjustment) or remove it (negative adjustment, limited to available credit). */
+  async addCredit(params: AddStoreCreditParams): Promise<StoreCreditResult<{ entryId: string; balance: number; duplicate: boolean }>> {
+    const amount = roundMoney(params.amount)
+    if (amount === 0) {
+      return { success: false, error: 'Amount must not be zero' }
+    }
+    if (amount < 0 && params.type !== 'adjustment') {
+      return { success: false, error: 'Only adjustments can remove credit' }
+    }
+
+    const { data, error } = await this.supabase.rpc('add_store_credit', {
+      p_user_id: params.userId,
+      p_entry_type: params.type,
+      p_amount: amount,
+      p_reason: params.reason?.trim() || null,
+      p_source_key: params.sourceKey ?? null,
+      p_expires_at: params.expiresAt ?? null,
+      p_order_id: params.orderId ?? null,
+      p_created_by: params.createdBy ?? null,
+    })
+
+    if (error) {
+      console.error('Add store credit error:', error)
+      return { success: false, error: 'Unable to update store credit. Please try again.' }
+    }
+
+    const result = (data ?? {}) as { ok?: boolean; error?: string; available?: number; entryId?: string; balance?: number; duplicate?: boolean }
+    if (!result.ok) {
+      return {
+        success: false,
+        error: result.error === 'insufficient_credit'
+          ? `Only GHS ${Number(result.available ?? 0).toFixed(2)} of store credit is available to remove`
+          : 'Unable to update store credit',
+      }
+    }
+
+    return {
+      success: true,
+      data: { entryId: String(result.entryId), balance: Number(result.balance) || 0, duplicate: result.duplicate === true },
+    }
+  }
+
+  /**
+   * Admin change to a customer's balance: positive amounts are grants (optionally expiring), negative
+   * amounts are adjustments and cannot take more than the available credit.
+   */
+  async adminAdjust(
+    userId: string,
+    params: { amount: number; reason: string; adminId: string; expiresAt?: string | null }
+  ): Promise<StoreCreditResult<{ entryId: string; balance: number; duplicate: boolean }>> {
+    const { data: user } = await this.supabase
+      .from('users')
+      .select('id')
+      .eq('id', userId)
+      .maybeSingle()
+
+    if (!user) {
+      return { success: false, error: 'Customer not found' }
+    }
+
+    return this.addCredit({
+      userId,
+      type: params.amount > 0 ? 'grant' : 'adjustment',
+      amount: params.amount,
+      reason: params.reason,
+      expiresAt: params.amount > 0 ? params.expiresAt ?? null : null,
+      createdBy: params.adminId,
+    })
+  }
+
+  /** Hold credit for a checkout. Fails with the available amount when the wallet cannot cover it. */
+  async reserveForPendingOrder(userId: string, pendingOrderId: string, amount: number): Promise<StoreCreditResult> {
+    const { data, error } = await this.supabase.rpc('reserve_store_credit', {
+      p_user_id: userId,
+      p_pending_order_id: pendingOrderId,
+      p_amount: roundMoney(amount),
+      p_ttl_minutes: HOLD_TTL_MINUTES,
+    })
+
+    if (error) {
+      console.error('Reserve store credit error:', error)
+      return { success: false, error: 'Unable to apply store credit. Please try again.' }
+    }
+
+    const result = (data ?? {}) as { ok?: boolean; available?: number }
+    if (!result.ok) {
+      const available = Number(result.available) || 0
+      return {
+        success: false,
+        error: available > 0
+          ? `You only have GHS ${available.toFixed(2)} of store credit available`
+          : 'You have no store credit available',
+      }
+    }
+    return { success: true }
+  }
+
+  /**
+   * Spend a checkout's held credit on the order created from it. Returns how much was spent and the
+   * shortfall when a late payment found the credit already gone. Safe to call more than once.
+   */
+  async settleForPendingOrder(pendingOrderId: string, orderId: string): Promise<{ settled: number; shortfall: number }> {
+    const { data, error } = await this.supabase.rpc('settle_store_credit', {
+      p_pending_order_id: pendingOrderId,
+      p_order_id: orderId,
+    })
+    if (error) {
+      console.error('Settle store credit error:', error)
+      return { settled: 0, shortfall: 0 }
+    }
+    const result = (data ?? {}) as { settled?: number; shortfall?: number }
+    return { settled: Number(result.settled) || 0, shortfall: Number(result.shortfall) || 0 }
+  }
+
+  /** Give a checkout's held credit back. Safe to call more than once. */
+  async releaseForPendingOrder(pendingOrderId: string, reason: string): Promise<number> {
+    const { data, error } = await this.supabase.rpc('release_store_credit', {
+      p_pending_order_id: pendingOrderId,
+      p_reason: reason,
+    })
+    if (error) {
+      console.error('Release store credit error:', error)
+      return 0
+    }
+    return Number(data) || 0
+  }
+
+  /**
+   * Return the credit spent on an order that was cancelled or refunded in full. Only credit that was
+   * actually spent comes back, and only once per order.
+   */
+  async returnOrderCredit(order: { id: string; order_id: string; user_id: string }, reason: string): Promise<StoreCreditResult> {
+    const { data: spends } = await this.supabase
+      .from('store_credit_ledger')
+      .select('amount')
+      .eq('order_id', order.id)
+      .eq('entry_type', 'spend')
+
+    const spent = roundMoney(-(spends ?? []).reduce((sum, s) => sum + (Number(s.amount) || 0), 0))
+    if (spent <= 0) return { success: true }
+
+    const result = await this.addCredit({
+      userId: order.user_id,
+      type: 'refund',
+      amount: spent,
+      reason: `${reason} (order ${order.order_id})`,
+      sourceKey: `order-return:${order.id}`,
+      orderId: order.id,
+    })
+    return { success: result.success, error: result.error }
+  }
+
+  /** Release expired holds and write off expired credit (run periodically). */
+  async cleanupExpired(): Promise<{ releasedHolds: number; expiredEntries: number }> {
+    const { data: releasedHolds, error: holdsError } = await this.supabase.rpc('release_expired_store_credit_holds')
+    if (holdsError) console.error('Release expired store credit holds error:', holdsError)
+
+    const { data: expiredEntries, error: expiryError } = await this.supabase.rpc('expire_store_credit')
+    if (expiryError) console.error('Expire store credit error:', expiryError)
+
+    return { releasedHolds: Number(releasedHolds) || 0, expiredEntries: Number(expiredEntries) || 0 }
+  }
+}
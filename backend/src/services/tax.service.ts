@@ -0,0 +1,369 @@
+import { createAdminClient } from '../config/supabase'
+
+/**
+ * Ghana VAT and levies (NHIL, GETFund, COVID-19) on orders. Each category has a tax class; exempt
+ * staples carry no tax. Prices are either tax-inclusive (tax is taken out of the price) or
+ * tax-exclusive (tax is added to the total). Checkout stores the breakdown on the order so invoices
+ * and the tax report show what was charged at the time, whatever the settings are today.
+ */
+
+const DEFAULT_SETTINGS_ID = 'b0000000-0000-0000-0000-000000000001'
+
+export type TaxClass = 'standard' | 'exempt'
+
+export const TAX_CLASSES: readonly TaxClass[] = ['standard', 'exempt']
+
+export type TaxComponent = 'nhil' | 'getfund' | 'covid' | 'vat'
+
+/** Print and report order: levies first, then VAT */
+export const TAX_COMPONENTS: readonly TaxComponent[] = ['nhil', 'getfund', 'covid', 'vat']
+
+const TAX_LABELS: Record<TaxComponent, string> = {
+  nhil: 'NHIL',
+  getfund: 'GETFund Levy',
+  covid: 'COVID-19 Levy',
+  vat: 'VAT',
+}
+
+/** Orders in these statuses owe no tax and are left out of the report */
+const UNTAXED_ORDER_STATUSES = ['cancelled', 'refunded', 'failed']
+
+const REPORT_PAGE_SIZE = 1000
+
+export interface TaxSettings {
+  enabled: boolean
+  pricesIncludeTax: boolean
+  /** Percentages, e.g. 15 for 15% */
+  vatRate: number
+  nhilRate: number
+  getfundRate: number
+  covidRate: number
+  /** VAT on value plus levies (compound scheme) instead of on the value alone */
+  leviesInVatBase: boolean
+  taxDeliveryFee: boolean
+  /** Seller TIN printed on invoices */
+  vatNumber: string | null
+  updatedAt: string | null
+}
+
+interface TaxSettingsRow {
+  enabled: boolean
+  prices_include_tax: boolean
+  vat_rate: number
+  nhil_rate: number
+  getfund_rate: number
+  covid_rate: number
+  levies_in_vat_base: boolean
+  tax_delivery_fee: boolean
+  vat_number: string | null
+  updated_at: string | null
+}
+
+export interface TaxLine {
+  code: TaxComponent
+  label: string
+  rate: number
+  amount: number
+}
+
+/** Stored as orders.tax_breakdown */
+export interface TaxBreakdown {
+  pricesIncludeTax: boolean
+  /** Standard-rated goods and delivery, after discount, before tax */
+  taxableAmount: number
+  /** Exempt goods after discount */
+  exemptAmount: number
+  lines: TaxLine[]
+  totalTax: number
+  vatNumber: string | null
+}
+
+export interface TaxableItem {
+  category: string | null
+  total: number
+}
+
+export interface TaxSummaryRow {
+  /** YYYY-MM, or 'total' */
+  period: string
+  orders: number
+  taxableAmount: number
+  exemptAmount: number
+  taxes: Record<TaxComponent, number>
+  totalTax: number
+}
+
+export interface TaxSummary {
+  from: string
+  to: string
+  periods: TaxSummaryRow[]
+  totals: TaxSummaryRow
+  /** Orders in the range placed while tax was off (no breakdown stored) */
+  untaxedOrders: number
+}
+
+/** Used until supabase-tax.sql has been run: no tax */
+const DISABLED_SETTINGS: TaxSettings = {
+  enabled: false,
+  pricesIncludeTax: true,
+  vatRate: 15,
+  nhilRate: 2.5,
+  getfundRate: 2.5,
+  covidRate: 0,
+  leviesInVatBase: false,
+  taxDeliveryFee: true,
+  vatNumber: null,
+  updatedAt: null,
+}
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+function rowToSettings(row: TaxSettingsRow): TaxSettings {
+  return {
+    enabled: row.enabled === true,
+    pricesIncludeTax: row.prices_include_tax !== false,
+    vatRate: Number(row.vat_rate) || 0,
+    nhilRate: Number(row.nhil_rate) || 0,
+    getfundRate: Number(row.getfund_rate) || 0,
+    covidRate: Number(row.covid_rate) || 0,
+    leviesInVatBase: row.levies_in_vat_base === true,
+    taxDeliveryFee: row.tax_delivery_fee !== false,
+    vatNumber: row.vat_number ?? null,
+    updatedAt: row.updated_at ?? null,
+  }
+}
+
+function emptySummaryRow(period: string): TaxSummaryRow {
+  return {
+    period,
+    orders: 0,
+    taxableAmount: 0,
+    exemptAmount: 0,
+    taxes: { nhil: 0, getfund: 0, covid: 0, vat: 0 },
+    totalTax: 0,
+  }
+}
+
+/**
+ * Tax on a priced cart. The voucher discount is spread over the items by value; store credit is a
+ * way of paying, so it does not lower the tax. Each component is rounded to the pesewa.
+ */
+export function computeTax(
+  settings: TaxSettings,
+  items: Array<TaxableItem & { taxClass: TaxClass }>,
+  discount: number,
+  deliveryFee: number
+): TaxBreakdown {
+  const itemsTotal = items.reduce((sum, item) => sum + item.total, 0)
+  const discountShare = itemsTotal > 0 ? Math.min(discount, itemsTotal) / itemsTotal : 0
+
+  let standard = 0
+  let exempt = 0
+  for (const item of items) {
+    const net = item.total * (1 - discountShare)
+    if (item.taxClass === 'exempt') exempt += net
+    else standard += net
+  }
+  if (settings.taxDeliveryFee) standard += deliveryFee
+  else exempt += deliveryFee
+
+  const percents: Record<TaxComponent, number> = {
+    nhil: settings.nhilRate,
+    getfund: settings.getfundRate,
+    covid: settings.covidRate,
+    vat: settings.vatRate,
+  }
+  const rates = Object.fromEntries(
+    TAX_COMPONENTS.map((code) => [code, percents[code] / 100])
+  ) as Record<TaxComponent, number>
+  const levyRate = rates.nhil + rates.getfund + rates.covid
+  const multiplier = settings.leviesInVatBase
+    ? (1 + levyRate) * (1 + rates.vat)
+    : 1 + levyRate + rates.vat
+
+  // Inclusive prices: the standard-rated amount already holds the tax, so work back to the value
+  const value = settings.pricesIncludeTax ? standard / multiplier : standard
+
+  const lines: TaxLine[] = []
+  let levies = 0
+  for (const code of TAX_COMPONENTS) {
+    if (rates[code] <= 0) continue
+    const base = code === 'vat' && settings.leviesInVatBase ? value + levies : value
+    const amount = roundMoney(base * rates[code])
+    if (code !== 'vat') levies += amount
+    lines.push({ code, label: TAX_LABELS[code], rate: percents[code], amount })
+  }
+  const totalTax = roundMoney(lines.reduce((sum, line) => sum + line.amount, 0))
+
+  return {
+    pricesIncludeTax: settings.pricesIncludeTax,
+    // Inclusive: whatever is not tax, so value + tax matches the prices charged exactly
+    taxableAmount: roundMoney(settings.pricesIncludeTax ? standard - totalTax : standard),
+    exemptAmount: roundMoney(exempt),
+    lines,
+    totalTax,
+    vatNumber: settings.vatNumber,
+  }
+}
+
+export class TaxService {
+  private supabase = createAdminClient()
+
+  async getSettings(): Promise<TaxSettings> {
+    const { data, error } = await this.supabase
+      .from('tax_settings')
+      .select('enabled, prices_include_tax, vat_rate, nhil_rate, getfund_rate, covid_rate, levies_in_vat_base, tax_delivery_fee, vat_number, updated_at')
+      .eq('id', DEFAULT_SETTINGS_ID)
+      .maybeSingle()
+
+    if (error || !data) {
+      if (error) console.warn('TaxService getSettings error:', error.message)
+      return DISABLED_SETTINGS
+    }
+    return rowToSettings(data as TaxSettingsRow)
+  }
+
+  async updateSettings(
+    params: Partial<Omit<TaxSettings, 'updatedAt'>>,
+    adminId?: string
+  ): Promise<{ success: boolean; data?: TaxSettings; error?: string }> {
+    const updates: Record<string, unknown> = {
+      updated_at: new Date().toISOString(),
+      updated_by: adminId ?? null,
+    }
+    if (params.enabled !== undefined) updates.enabled = params.enabled
+    if (params.pricesIncludeTax !== undefined) updates.prices_include_tax = params.pricesIncludeTax
+    if (params.vatRate !== undefined) updates.vat_rate = params.vatRate
+    if (params.nhilRate !== undefined) updates.nhil_rate = params.nhilRate
+    if (params.getfundRate !== undefined) updates.getfund_rate = params.getfundRate
+    if (params.covidRate !== undefined) updates.covid_rate = params.covidRate
+    if (params.leviesInVatBase !== undefined) updates.levies_in_vat_base = params.leviesInVatBase
+    if (params.taxDeliveryFee !== undefined) updates.tax_delivery_fee = params.taxDeliveryFee
+    if (params.vatNumber !== undefined) updates.vat_number = params.vatNumber?.trim() || null
+
+    const { error } = await this.supabase
+      .from('tax_settings')
+      .update(updates)
+      .eq('id', DEFAULT_SETTINGS_ID)
+
+    if (error) {
+      console.warn('TaxService updateSettings error:', error.message)
+      return { success: false, error: error.message }
+    }
+    return { success: true, data: await this.getSettings() }
+  }
+
+  /** Tax class per category name; categories not found are standard-rated. */
+  async getCategoryTaxClasses(categoryNames: string[]): Promise<Map<string, TaxClass>> {
+    const names = [...new Set(categoryNames.filter(Boolean))]
+    const classes = new Map<string, TaxClass>()
+    if (names.length === 0) return classes
+
+    const { data, error } = await this.supabase
+      .from('categories')
+      .select('name, tax_class')
+      .in('name', names)
+
+    if (error) {
+      console.warn('TaxService getCategoryTaxClasses error:', error.message)
+      return classes
+    }
+    for (const row of (data ?? []) as Array<{ name: string; tax_class: TaxClass | null }>) {
+      classes.set(row.name.toLowerCase(), row.tax_class === 'exempt' ? 'exempt' : 'standard')
+    }
+    return classes
+  }
+
+  /** Tax for a cart with the current settings; null while tax is switched off. */
+  async calculateTax(items: TaxableItem[], discount: number, deliveryFee: number): Promise<TaxBreakdown | null> {
+    const settings = await this.getSettings()
+    if (!settings.enabled) return null
+
+    const classes = await this.getCategoryTaxClasses(items.map((item) => item.category ?? ''))
+    return computeTax(
+      settings,
+      items.map((item) => ({
+        ...item,
+        taxClass: classes.get((item.category ?? '').toLowerCase()) ?? 'standard',
+      })),
+      discount,
+      deliveryFee
+    )
+  }
+
+  /**
+   * Tax charged per month for filing, from the breakdown stored on each order. Dates are
+   * YYYY-MM-DD (UTC, both days included); cancelled, refunded and failed orders are left out.
+   */
+  async getTaxSummary(from: string, to: string): Promise<{ success: boolean; data?: TaxSummary; error?: string }> {
+    const toExclusive = new Date(`${to}T00:00:00.000Z`)
+    toExclusive.setUTCDate(toExclusive.getUTCDate() + 1)
+
+    const periods = new Map<string, TaxSummaryRow>()
+    const totals = emptySummaryRow('total')
+    let untaxedOrders = 0
+
+    for (let offset = 0; ; offset += REPORT_PAGE_SIZE) {
+      const { data, error } = await this.supabase
+        .from('orders')
+        .select('id, created_at, tax_breakdown')
+        .gte('created_at', `${from}T00:00:00.000Z`)
+        .lt('created_at', toExclusive.toISOString())
+        .not('status', 'in', `(${UNTAXED_ORDER_STATUSES.join(',')})`)
+        .order('created_at', { ascending: true })
+        .range(offset, offset + REPORT_PAGE_SIZE - 1)
+
+      if (error) {
+        return { success: false, error: error.message }
+      }
+
+      const rows = (data ?? []) as Array<{ created_at: string; tax_breakdown: TaxBreakdown | null }>
+      for (const order of rows) {
+        const breakdown = order.tax_breakdown
+        if (!breakdown) {
+          untaxedOrders++
+          continue
+        }
+        const period = order.created_at.slice(0, 7)
+        const row = periods.get(period) ?? emptySummaryRow(period)
+        periods.set(period, row)
+        for (const target of [row, totals]) {
+          target.orders++
+          target.taxableAmount += Number(breakdown.taxableAmount) || 0
+          target.exemptAmount += Number(breakdown.exemptAmount) || 0
+          for (const line of breakdown.lines ?? []) {
+            if (line.code in target.taxes) target.taxes[line.code] += Number(line.amount) || 0
+          }
+          target.totalTax += Number(breakdown.totalTax) || 0
+        }
+      }
+      if (rows.length < REPORT_PAGE_SIZE) break
+    }
+
+    const round = (row: TaxSummaryRow): TaxSummaryRow => ({
+      ...row,
+      taxableAmount: roundMoney(row.taxableAmount),
+      exemptAmount: roundMoney(row.exemptAmount),
+      taxes: {
+        nhil: roundMoney(row.taxes.nhil),
+        getfund: roundMoney(row.taxes.getfund),
+        covid: roundMoney(row.taxes.covid),
+        vat: roundMoney(row.taxes.vat),
+      },
+      totalTax: roundMoney(row.totalTax),
+    })
+
+    return {
+      success: true,
+      data: {
+        from,
+        to,
+        periods: [...periods.values()].sort((a, b) => a.period.localeCompare(b.period)).map(round),
+        totals: round(totals),
+        untaxedOrders,
+      },
+    }
+  }
+}
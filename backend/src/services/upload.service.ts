@@ -9,16 +9,25 @@ export interface UploadResult {
   contentType: string
 }
 
+/** Storage folder per use; delivery proofs go to a private bucket read through signed URLs */
+export type UploadFolder = 'products' | 'categories' | 'delivery-proofs'
+
+/** How long a signed link to a private image works */
+const SIGNED_URL_TTL_SECONDS = 60 * 60
+
 export class UploadService {
   private supabase = createAdminClient()
   private defaultBucketName = 'product-images'
-  private bucketMap: Record<'products' | 'categories', string> = {
+  private bucketMap: Record<UploadFolder, string> = {
     products: 'product-images',
-    categories: 'category-images'
+    categories: 'category-images',
+    'delivery-proofs': 'delivery-proofs'
   }
+  /** Customer doorsteps and recipients: never public */
+  private privateBuckets = new Set(['delivery-proofs'])
   private bucketInitialized: Map<string, Promise<void>> = new Map()
 
-  private resolveBucket(folder: 'products' | 'categories'): string {
+  private resolveBucket(folder: UploadFolder): string {
     return this.bucketMap[folder] || this.defaultBucketName
   }
 
@@ -26,6 +35,9 @@ export class UploadService {
     if (path.startsWith('categories/')) {
       return this.bucketMap.categories
     }
+    if (path.startsWith('delivery-proofs/')) {
+      return this.bucketMap['delivery-proofs']
+    }
 
     return this.bucketMap.products
   }
@@ -114,16 +126,17 @@ export class UploadService {
     if (!this.bucketInitialized.has(bucketName)) {
       const initPromise = (async () => {
         try {
+          const isPublic = !this.privateBuckets.has(bucketName)
           const { data, error } = await this.supabase.storage.getBucket(bucketName)
           if (error || !data) {
             const { error: createError } = await this.supabase.storage.createBucket(bucketName, {
-              public: true
+              public: isPublic
             })
             if (createError && !createError.message.includes('already exists')) {
               throw createError
             }
-          } else if (!data.public) {
-            await this.supabase.storage.updateBucket(bucketName, { public: true })
+          } else if (data.public !== isPublic) {
+            await this.supabase.storage.updateBucket(bucketName, { public: isPublic })
           }
         } catch (error) {
           console.error('ensureBucketExists error:', error)
@@ -142,7 +155,7 @@ export class UploadService {
    */
   async uploadImage(
     file: Buffer | string,
-    folder: 'products' | 'categories' = 'products',
+    folder: UploadFolder = 'products',
     filename?: string
   ): Promise<{
     success: boolean
@@ -246,16 +259,16 @@ export class UploadService {
         }
       }
 
-      // Get public URL
-      const { data: urlData } = this.supabase.storage
-        .from(bucketName)
-        .getPublicUrl(filePath)
+      // Get public URL (a signed link for private buckets)
+      const url = this.privateBuckets.has(bucketName)
+        ? (await this.getSignedUrl(filePath)) ?? ''
+        : this.supabase.storage.from(bucketName).getPublicUrl(filePath).data.publicUrl
 
       return {
         success: true,
         message: 'Image uploaded successfully',
         data: {
-          url: urlData.publicUrl,
+          url,
           path: filePath,
           size: optimizedBuffer.length,
           contentType
@@ -275,7 +288,7 @@ export class UploadService {
    */
   async uploadMultipleImages(
     files: Array<Buffer | string>,
-    folder: 'products' | 'categories' = 'products'
+    folder: UploadFolder = 'products'
   ): Promise<{
     success: boolean
     message: string
@@ -303,6 +316,20 @@ export class UploadService {
     }
   }
 
+  /**
+   * Temporary link to an image in a private bucket; null when the link cannot be created
+   */
+  async getSignedUrl(path: string, expiresInSeconds = SIGNED_URL_TTL_SECONDS): Promise<string | null> {
+    const { data, error } = await this.supabase.storage
+      .from(this.resolveBucketFromPath(path))
+      .createSignedUrl(path, expiresInSeconds)
+    if (error || !data) {
+      console.warn('Signed URL error:', error?.message)
+      return null
+    }
+    return data.signedUrl
+  }
+
   /**
    * Delete image from Supabase Storage
    */
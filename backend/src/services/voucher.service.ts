@@ -70,6 +70,44 @@ export class VoucherService {
     // If no assignment, treat as global voucher (any user can use once per code logic if you track by code+user elsewhere)
     // For simplicity we allow global vouchers; optionally restrict to user_vouchers only by: if (!assignment) return { valid: false }
 
+    return {
+      valid: true,
+      discountAmount: this.computeDiscount(voucher, subtotal),
+      voucherId: voucher.id,
+    }
+  }
+
+  /**
+   * Recompute the discount of a voucher already applied to an order (e.g. when the order is amended).
+   * Validity window, usage limits and assignment are not checked again; the minimum order amount is,
+   * so a subtotal that drops below it loses the discount.
+   */
+  async recalculateDiscount(code: string, subtotal: number): Promise<ValidateVoucherResult> {
+    const trimmed = code.trim().toUpperCase()
+    const { data: voucher, error } = await this.supabase
+      .from('discount_vouchers')
+      .select('*')
+      .eq('code', trimmed)
+      .maybeSingle()
+
+    if (error || !voucher) {
+      return { valid: false, discountAmount: 0, error: 'Voucher no longer exists' }
+    }
+
+    const minOrder = Number(voucher.min_order_amount) || 0
+    if (subtotal < minOrder) {
+      return {
+        valid: false,
+        discountAmount: 0,
+        voucherId: voucher.id,
+        error: `Minimum order amount for this voucher is GH₵${minOrder.toFixed(2)}`,
+      }
+    }
+
+    return { valid: true, discountAmount: this.computeDiscount(voucher, subtotal), voucherId: voucher.id }
+  }
+
+  private computeDiscount(voucher: { discount_type: string; discount_value: number }, subtotal: number): number {
     let discountAmount = 0
     if (voucher.discount_type === 'percentage') {
       const pct = Math.min(100, Math.max(0, Number(voucher.discount_value)))
@@ -77,13 +115,7 @@ export class VoucherService {
     } else {
       discountAmount = Math.min(Number(voucher.discount_value), subtotal)
     }
-    discountAmount = Math.round(discountAmount * 100) / 100
-
-    return {
-      valid: true,
-      discountAmount,
-      voucherId: voucher.id,
-    }
+    return Math.round(discountAmount * 100) / 100
   }
 
   /**
@@ -0,0 +1,695 @@
+import { createAdminClient } from '../config/supabase'
+import type { OrderStatus } from '../config/order-status'
+import { haversineKm } from './delivery.service'
+
+/**
+ * Warehouses and where orders are fulfilled from (see supabase-warehouses.sql). Each warehouse has its own
+ * location, service radius, opening hours and stock; products.quantity stays the total across warehouses.
+ * Checkout ships the whole basket from the nearest warehouse that has it, or splits it across warehouses
+ * when none does. The fulfilment plan is stored on the pending order and the order, and drives stock
+ * reservations, the delivery fee origin and pick lists.
+ */
+
+/** Hours a warehouse takes orders (Africa/Accra, which is UTC) */
+export interface WarehouseOpeningHours {
+  /** 0 = Sunday … 6 = Saturday */
+  days: number[]
+  /** HH:MM, inclusive */
+  open: string
+  /** HH:MM, exclusive; after open */
+  close: string
+}
+
+export interface Warehouse {
+  id: string
+  /** Short code for pick lists and orders, e.g. ACC */
+  code: string
+  name: string
+  address: string | null
+  lat: number
+  lng: number
+  /** Straight-line delivery radius; null serves every address */
+  serviceRadiusKm: number | null
+  /** Empty: always open */
+  openingHours: WarehouseOpeningHours[]
+  /** Receives stock written to products.quantity (product edits, batch stock updates) */
+  isPrimary: boolean
+  active: boolean
+  updatedAt: string | null
+}
+
+export type WarehouseInput = Omit<Warehouse, 'id' | 'updatedAt'>
+
+export interface FulfilmentItem {
+  productId: string
+  quantity: number
+}
+
+export interface FulfilmentPart {
+  warehouseId: string
+  warehouseCode: string
+  warehouseName: string
+  items: FulfilmentItem[]
+}
+
+/** Where a checkout is fulfilled from; stored as pending_orders/orders.fulfilment_plan */
+export interface FulfilmentPlan {
+  /** Warehouse the delivery fee is priced from: the nearest one shipping part of the order */
+  warehouseId: string
+  /** More than one warehouse ships part of the order */
+  split: boolean
+  /** Nearest warehouse first */
+  parts: FulfilmentPart[]
+}
+
+/** Units of one product to take from (or return to) one warehouse; warehouseId null before warehouses */
+export interface WarehouseAllocation {
+  warehouseId: string | null
+  productId: string
+  quantity: number
+}
+
+export interface WarehouseStockRow {
+  productId: string
+  productName: string
+  image: string | null
+  /** On hand in this warehouse */
+  quantity: number
+  /** Held for checkouts waiting for payment */
+  reserved: number
+  available: number
+  /** On hand across all warehouses */
+  totalQuantity: number
+}
+
+export interface PickListOrder {
+  id: string
+  orderNumber: string
+  status: string
+  createdAt: string
+  deliveryWindowStart: string | null
+  customerName: string | null
+  /** Other warehouses ship the rest of the order */
+  split: boolean
+  items: Array<{ productId: string; name: string; quantity: number }>
+}
+
+export interface PickList {
+  warehouseId: string
+  warehouseName: string
+  statuses: OrderStatus[]
+  orders: PickListOrder[]
+  /** Units to pick per product across the listed orders, most first */
+  totals: Array<{ productId: string; name: string; quantity: number }>
+}
+
+/** Orders waiting to be picked and packed */
+export const PICK_LIST_STATUSES: readonly OrderStatus[] = ['confirmed', 'processing']
+
+/** Most orders one pick list reads */
+const PICK_LIST_LIMIT = 500
+
+const CODE_PATTERN = /^[A-Z0-9]{2,10}$/
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+
+const WAREHOUSE_COLUMNS = 'id, code, name, address, lat, lng, service_radius_km, opening_hours, is_primary, active, updated_at'
+
+interface WarehouseRow {
+  id: string
+  code: string
+  name: string
+  address: string | null
+  lat: number
+  lng: number
+  service_radius_km: number | null
+  opening_hours: unknown
+  is_primary: boolean
+  active: boolean
+  updated_at: string | null
+}
+
+function toOpeningHours(value: unknown): WarehouseOpeningHours[] {
+  if (!Array.isArray(value)) return []
+  return value
+    .filter((h): h is Record<string, unknown> => h != null && typeof h === 'object')
+    .map((h) => ({
+      days: Array.isArray(h.days) ? h.days.map(Number).filter((d) => Number.isInteger(d) && d >= 0 && d <= 6) : [],
+      open: String(h.open ?? ''),
+      close: String(h.close ?? ''),
+    }))
+}
+
+function rowToWarehouse(row: WarehouseRow): Warehouse {
+  return {
+    id: row.id,
+    code: row.code,
+    name: row.name,
+    address: row.address ?? null,
+    lat: Number(row.lat),
+    lng: Number(row.lng),
+    serviceRadiusKm: row.service_radius_km != null ? Number(row.service_radius_km) : null,
+    openingHours: toOpeningHours(row.opening_hours),
+    isPrimary: row.is_primary === true,
+    active: row.active !== false,
+    updatedAt: row.updated_at ?? null,
+  }
+}
+
+function warehouseToRow(warehouse: WarehouseInput): Record<string, unknown> {
+  return {
+    code: warehouse.code.trim().toUpperCase(),
+    name: warehouse.name.trim(),
+    address: warehouse.address?.trim() || null,
+    lat: warehouse.lat,
+    lng: warehouse.lng,
+    service_radius_km: warehouse.serviceRadiusKm,
+    opening_hours: warehouse.openingHours,
+    is_primary: warehouse.isPrimary,
+    active: warehouse.active,
+  }
+}
+
+/** Returns an error message, or null when the warehouse can be saved */
+function validateWarehouse(warehouse: WarehouseInput): string | null {
+  if (!CODE_PATTERN.test(warehouse.code.trim().toUpperCase())) return 'Code must be 2-10 letters or digits'
+  if (!warehouse.name.trim() || warehouse.name.trim().length > 100) return 'Name must be 1-100 characters'
+  if (!Number.isFinite(warehouse.lat) || warehouse.lat < -90 || warehouse.lat > 90) return 'Latitude must be between -90 and 90'
+  if (!Number.isFinite(warehouse.lng) || warehouse.lng < -180 || warehouse.lng > 180) return 'Longitude must be between -180 and 180'
+  if (warehouse.serviceRadiusKm != null && (!Number.isFinite(warehouse.serviceRadiusKm) || warehouse.serviceRadiusKm <= 0)) {
+    return 'Service radius must be above 0 km'
+  }
+  for (const hours of warehouse.openingHours) {
+    if (hours.days.length === 0) return 'Every opening hours row needs at least one day'
+    if (!TIME_PATTERN.test(hours.open) || !TIME_PATTERN.test(hours.close)) return 'Opening hours must be HH:MM'
+    if (hours.close <= hours.open) return 'Closing time must be after opening time'
+  }
+  if (warehouse.isPrimary && !warehouse.active) return 'The primary warehouse must be active'
+  return null
+}
+
+/** Whether the warehouse takes orders at `at`; no opening hours means always */
+export function isWarehouseOpen(warehouse: Warehouse, at: Date): boolean {
+  if (warehouse.openingHours.length === 0) return true
+  const day = at.getUTCDay()
+  const time = `${String(at.getUTCHours()).padStart(2, '0')}:${String(at.getUTCMinutes()).padStart(2, '0')}`
+  return warehouse.openingHours.some((h) => h.days.includes(day) && time >= h.open && time < h.close)
+}
+
+/** Whether the warehouse delivers to the pin; without a pin every warehouse does */
+function servesLocation(warehouse: Warehouse, lat: number | null, lng: number | null): boolean {
+  if (lat == null || lng == null || warehouse.serviceRadiusKm == null) return true
+  return haversineKm(warehouse.lat, warehouse.lng, lat, lng) <= warehouse.serviceRadiusKm
+}
+
+/**
+ * Split ordered quantities between warehouses following a fulfilment plan. Quantities beyond the plan
+ * (e.g. added by an amendment) go to `fallbackWarehouseId`, or the plan's warehouse.
+ */
+export function allocateToWarehouses(
+  items: FulfilmentItem[],
+  plan: FulfilmentPlan | null,
+  fallbackWarehouseId: string | null
+): WarehouseAllocation[] {
+  const totals = new Map<string, number>()
+  for (const item of items) {
+    totals.set(item.productId, (totals.get(item.productId) ?? 0) + item.quantity)
+  }
+
+  const allocations = new Map<string, WarehouseAllocation>()
+  const add = (warehouseId: string | null, productId: string, quantity: number) => {
+    if (quantity <= 0) return
+    const key = `${warehouseId ?? ''}:${productId}`
+    const existing = allocations.get(key)
+    if (existing) existing.quantity += quantity
+    else allocations.set(key, { warehouseId, productId, quantity })
+  }
+
+  for (const [productId, quantity] of totals) {
+    let remaining = quantity
+    for (const part of plan?.parts ?? []) {
+      const planned = part.items.filter((i) => i.productId === productId).reduce((sum, i) => sum + i.quantity, 0)
+      const take = Math.min(planned, remaining)
+      add(part.warehouseId, productId, take)
+      remaining -= take
+    }
+    add(fallbackWarehouseId ?? plan?.warehouseId ?? null, productId, remaining)
+  }
+  return [...allocations.values()]
+}
+
+/** A plan matching an allocation, e.g. after an amendment changed the items */
+export function planFromAllocation(allocations: WarehouseAllocation[], previous: FulfilmentPlan): FulfilmentPlan {
+  const parts = previous.parts.map((part) => ({ ...part, items: [] as FulfilmentItem[] }))
+  for (const allocation of allocations) {
+    const part = parts.find((p) => p.warehouseId === allocation.warehouseId) ?? parts.find((p) => p.warehouseId === previous.warehouseId)
+    part?.items.push({ productId: allocation.productId, quantity: allocation.quantity })
+  }
+  const shipping = parts.filter((p) => p.items.length > 0)
+  return { warehouseId: previous.warehouseId, split: shipping.length > 1, parts: shipping }
+}
+
+/** The lines of a plan as reservation items */
+export function planReservationItems(plan: FulfilmentPlan): Array<FulfilmentItem & { warehouseId: string }> {
+  return plan.parts.flatMap((part) => part.items.map((item) => ({ ...item, warehouseId: part.warehouseId })))
+}
+
+export class WarehouseService {
+  private supabase = createAdminClient()
+
+  // ----- Admin: warehouses -----
+
+  async listWarehouses(options: { includeInactive?: boolean } = {}): Promise<Warehouse[]> {
+    let query = this.supabase
+      .from('warehouses')
+      .select(WAREHOUSE_COLUMNS)
+      .order('is_primary', { ascending: false })
+      .order('name', { ascending: true })
+    if (!options.includeInactive) query = query.eq('active', true)
+
+    const { data, error } = await query
+    if (error) {
+      console.warn('WarehouseService listWarehouses error:', error.message)
+      return []
+    }
+    return (data ?? []).map((row) => rowToWarehouse(row as WarehouseRow))
+  }
+
+  async getWarehouse(id: string): Promise<Warehouse | null> {
+    const { data, error } = await this.supabase.from('warehouses').select(WAREHOUSE_COLUMNS).eq('id', id).maybeSingle()
+    if (error) {
+      console.warn('WarehouseService getWarehouse error:', error.message)
+      return null
+    }
+    return data ? rowToWarehouse(data as WarehouseRow) : null
+  }
+
+  /** The first warehouse becomes primary and takes all current product stock */
+  async createWarehouse(warehouse: WarehouseInput, adminId?: string): Promise<{ success: boolean; data?: Warehouse; error?: string }> {
+    const existing = await this.listWarehouses({ includeInactive: true })
+    const first = existing.length === 0
+    const input = first ? { ...warehouse, isPrimary: true, active: true } : warehouse
+    const invalid = validateWarehouse(input)
+    if (invalid) return { success: false, error: invalid }
+
+    if (input.isPrimary && !first) {
+      const cleared = await this.clearPrimary()
+      if (cleared) return { success: false, error: cleared }
+    }
+
+    const { data, error } = await this.supabase
+      .from('warehouses')
+      .insert({ ...warehouseToRow(input), updated_by: adminId ?? null })
+      .select(WAREHOUSE_COLUMNS)
+      .single()
+    if (error) {
+      console.warn('WarehouseService createWarehouse error:', error.message)
+      return { success: false, error: error.code === '23505' ? 'Another warehouse already uses that code' : error.message }
+    }
+
+    if (first) {
+      const { error: seedError } = await this.supabase.rpc('seed_warehouse_stock', { p_warehouse_id: data.id })
+      if (seedError) console.error('Seed warehouse stock error:', seedError)
+    }
+    return { success: true, data: rowToWarehouse(data as WarehouseRow) }
+  }
+
+  /** Making a warehouse primary takes the role from the current one; the primary cannot give it up directly */
+  async updateWarehouse(id: string, warehouse: WarehouseInput, adminId?: string): Promise<{ success: boolean; data?: Warehouse; error?: string }> {
+    const invalid = validateWarehouse(warehouse)
+    if (invalid) return { success: false, error: invalid }
+
+    const current = await this.getWarehouse(id)
+    if (!current) return { success: false, error: 'Warehouse not found' }
+    if (current.isPrimary && !warehouse.isPrimary) {
+      return { success: false, error: 'Make another warehouse primary instead' }
+    }
+    if (warehouse.isPrimary && !current.isPrimary) {
+      const cleared = await this.clearPrimary()
+      if (cleared) return { success: false, error: cleared }
+    }
+
+    const { data, error } = await this.supabase
+      .from('warehouses')
+      .update({ ...warehouseToRow(warehouse), updated_at: new Date().toISOString(), updated_by: adminId ?? null })
+      .eq('id', id)
+      .select(WAREHOUSE_COLUMNS)
+      .maybeSingle()
+    if (error) {
+      console.warn('WarehouseService updateWarehouse error:', error.message)
+      return { success: false, error: error.code === '23505' ? 'Another warehouse already uses that code' : error.message }
+    }
+    if (!data) return { success: false, error: 'Warehouse not found' }
+    return { success: true, data: rowToWarehouse(data as WarehouseRow) }
+  }
+
+  /** Refused for the primary warehouse and while the warehouse holds stock */
+  async deleteWarehouse(id: string): Promise<{ success: boolean; error?: string }> {
+    const current = await this.getWarehouse(id)
+    if (!current) return { success: false, error: 'Warehouse not found' }
+    if (current.isPrimary) return { success: false, error: 'Make another warehouse primary before deleting this one' }
+
+    const { data: stock, error: stockError } = await this.supabase
+      .from('warehouse_stock')
+      .select('quantity')
+      .eq('warehouse_id', id)
+      .gt('quantity', 0)
+      .limit(1)
+    if (stockError) {
+      console.warn('WarehouseService deleteWarehouse stock error:', stockError.message)
+      return { success: false, error: stockError.message }
+    }
+    if ((stock ?? []).length > 0) {
+      return { success: false, error: 'This warehouse still holds stock. Set its stock to 0 or deactivate it instead.' }
+    }
+
+    const { data, error } = await this.supabase.from('warehouses').delete().eq('id', id).select('id')
+    if (error) {
+      console.warn('WarehouseService deleteWarehouse error:', error.message)
+      return { success: false, error: error.message }
+    }
+    if (!data || data.length === 0) return { success: false, error: 'Warehouse not found' }
+    return { success: true }
+  }
+
+  // ----- Admin: stock -----
+
+  /** Products with their stock in one warehouse, by name */
+  async getStock(
+    warehouseId: string,
+    options: { search?: string; page?: number; limit?: number } = {}
+  ): Promise<{
+    success: boolean
+    data?: WarehouseStockRow[]
+    pagination?: { page: number; limit: number; total: number; totalPages: number }
+    error?: string
+  }> {
+    const { page = 1, limit = 50 } = options
+    const offset = (page - 1) * limit
+    let query = this.supabase.from('products').select('id, name, quantity, images', { count: 'exact' }).order('name', { ascending: true })
+    // Remove % and _ so the search cannot inject LIKE wildcards
+    const search = options.search?.trim().slice(0, 200).replace(/%|_/g, ' ')
+    if (search) query = query.ilike('name', `%${search}%`)
+
+    const { data: products, error, count } = await query.range(offset, offset + limit - 1)
+    if (error) {
+      console.warn('WarehouseService getStock error:', error.message)
+      return { success: false, error: error.message }
+    }
+
+    const productIds = (products ?? []).map((p) => p.id as string)
+    const [stock, reserved] = await Promise.all([
+      this.getStockLevels([warehouseId], productIds),
+      this.getReserved([warehouseId], productIds),
+    ])
+
+    return {
+      success: true,
+      data: (products ?? []).map((p) => {
+        const key = `${warehouseId}:${p.id}`
+        const quantity = stock.get(key) ?? 0
+        const held = reserved.get(key) ?? 0
+        return {
+          productId: p.id,
+          productName: p.name,
+          image: Array.isArray(p.images) ? p.images[0] ?? null : null,
+          quantity,
+          reserved: held,
+          available: Math.max(0, quantity - held),
+          totalQuantity: Number(p.quantity) || 0,
+        }
+      }),
+      pagination: { page, limit, total: count ?? 0, totalPages: Math.ceil((count ?? 0) / limit) },
+    }
+  }
+
+  /** Set on-hand quantities in one warehouse; product totals follow */
+  async setStock(warehouseId: string, items: FulfilmentItem[], adminId?: string): Promise<{ success: boolean; error?: string }> {
+    if (items.some((i) => !Number.isInteger(i.quantity) || i.quantity < 0)) {
+      return { success: false, error: 'Quantities must be whole numbers of 0 or more' }
+    }
+    const warehouse = await this.getWarehouse(warehouseId)
+    if (!warehouse) return { success: false, error: 'Warehouse not found' }
+
+    const now = new Date().toISOString()
+    const { error } = await this.supabase.from('warehouse_stock').upsert(
+      items.map((i) => ({ warehouse_id: warehouseId, product_id: i.productId, quantity: i.quantity, updated_at: now, updated_by: adminId ?? null })),
+      { onConflict: 'warehouse_id,product_id' }
+    )
+    if (error) {
+      console.warn('WarehouseService setStock error:', error.message)
+      return { success: false, error: error.message }
+    }
+    return { success: true }
+  }
+
+  /** Add (or with a negative delta, remove) units in one warehouse, never below 0. Non-fatal. */
+  async adjustStock(warehouseId: string, productId: string, delta: number): Promise<void> {
+    if (delta === 0) return
+    const { error } = await this.supabase.rpc('adjust_warehouse_stock', {
+      p_warehouse_id: warehouseId,
+      p_product_id: productId,
+      p_delta: delta,
+    })
+    if (error) console.warn(`Warehouse stock adjustment skipped (${warehouseId}, ${productId}, ${delta}):`, error.message)
+  }
+
+  // ----- Checkout -----
+
+  /**
+   * Nearest active warehouse delivering to the pin (open ones first), for pricing without a basket.
+   * `configured` is false before any warehouse is set up; then the Delivery Settings location applies.
+   */
+  async resolveOrigin(lat: number | null, lng: number | null, at = new Date()): Promise<{ configured: boolean; warehouse: Warehouse | null }> {
+    const warehouses = await this.listWarehouses()
+    if (warehouses.length === 0) return { configured: false, warehouse: null }
+    return { configured: true, warehouse: this.rankCandidates(warehouses, lat, lng, at)[0] ?? null }
+  }
+
+  /**
+   * Where to fulfil a basket from. The nearest warehouse that can ship every item wins (open warehouses
+   * before closed ones). When none can, each product comes from the nearest warehouses that have it, and
+   * whatever no warehouse has goes to the nearest one, where the product's oversell policy decides.
+   * Availability is read without locks; the reservation re-checks it. Plan null: no warehouses set up.
+   */
+  async planFulfilment(
+    items: FulfilmentItem[],
+    location: { lat: number | null; lng: number | null },
+    at = new Date()
+  ): Promise<{ success: boolean; plan?: FulfilmentPlan | null; origin?: Warehouse | null; error?: string }> {
+    const warehouses = await this.listWarehouses()
+    if (warehouses.length === 0) return { success: true, plan: null, origin: null }
+
+    const candidates = this.rankCandidates(warehouses, location.lat, location.lng, at)
+    if (candidates.length === 0) return { success: false, error: 'Sorry, this address is outside our delivery area.' }
+
+    const totals = new Map<string, number>()
+    for (const item of items) {
+      totals.set(item.productId, (totals.get(item.productId) ?? 0) + item.quantity)
+    }
+    const productIds = [...totals.keys()]
+    const candidateIds = candidates.map((w) => w.id)
+    const [stock, reserved] = await Promise.all([this.getStockLevels(candidateIds, productIds), this.getReserved(candidateIds, productIds)])
+    const available = new Map<string, number>()
+    for (const warehouseId of candidateIds) {
+      for (const productId of productIds) {
+        const key = `${warehouseId}:${productId}`
+        available.set(key, Math.max(0, (stock.get(key) ?? 0) - (reserved.get(key) ?? 0)))
+      }
+    }
+
+    const lines = new Map<string, FulfilmentItem[]>()
+    const take = (warehouseId: string, productId: string, quantity: number) => {
+      if (quantity <= 0) return
+      const list = lines.get(warehouseId) ?? []
+      list.push({ productId, quantity })
+      lines.set(warehouseId, list)
+    }
+
+    const whole = candidates.find((w) => productIds.every((id) => (available.get(`${w.id}:${id}`) ?? 0) >= (totals.get(id) ?? 0)))
+    if (whole) {
+      for (const [productId, quantity] of totals) take(whole.id, productId, quantity)
+    } else {
+      for (const [productId, quantity] of totals) {
+        // One warehouse per product where possible, then the nearest ones that have some
+        const single = candidates.find((w) => (available.get(`${w.id}:${productId}`) ?? 0) >= quantity)
+        if (single) {
+          take(single.id, productId, quantity)
+          continue
+        }
+        let remaining = quantity
+        for (const w of candidates) {
+          const share = Math.min(remaining, available.get(`${w.id}:${productId}`) ?? 0)
+          take(w.id, productId, share)
+          remaining -= share
+        }
+        take(candidates[0].id, productId, remaining)
+      }
+    }
+
+    const parts: FulfilmentPart[] = candidates
+      .filter((w) => lines.has(w.id))
+      .map((w) => ({ warehouseId: w.id, warehouseCode: w.code, warehouseName: w.name, items: mergeItems(lines.get(w.id) ?? []) }))
+    const origin = candidates.find((w) => w.id === parts[0]?.warehouseId) ?? candidates[0]
+    return {
+      success: true,
+      plan: { warehouseId: origin.id, split: parts.length > 1, parts },
+      origin,
+    }
+  }
+
+  // ----- Pick lists -----
+
+  /**
+   * What to pick in one warehouse for orders waiting to be packed, soonest delivery first. Orders placed
+   * before warehouses were set up are picked at the primary warehouse.
+   */
+  async getPickList(warehouseId: string, statuses: OrderStatus[] = [...PICK_LIST_STATUSES]): Promise<{ success: boolean; data?: PickList; error?: string }> {
+    const warehouse = await this.getWarehouse(warehouseId)
+    if (!warehouse) return { success: false, error: 'Warehouse not found' }
+
+    const { data: orders, error } = await this.supabase
+      .from('orders')
+      .select('id, order_id, user_id, status, created_at, delivery_window_start, warehouse_id, fulfilment_plan, order_items(product_id, product_name, quantity)')
+      .in('status', statuses)
+      .order('created_at', { ascending: true })
+      .limit(PICK_LIST_LIMIT)
+    if (error) {
+      console.warn('WarehouseService getPickList error:', error.message)
+      return { success: false, error: error.message }
+    }
+
+    const userIds = [...new Set((orders ?? []).map((o) => o.user_id as string).filter(Boolean))]
+    const { data: users } = userIds.length > 0
+      ? await this.supabase.from('users').select('id, first_name, last_name').in('id', userIds)
+      : { data: [] }
+    const customerNames = new Map(
+      (users ?? []).map((u) => [u.id as string, [u.first_name, u.last_name].filter(Boolean).join(' ') || null])
+    )
+
+    const primaryId = warehouse.isPrimary ? warehouse.id : (await this.listWarehouses()).find((w) => w.isPrimary)?.id ?? null
+    const picks: PickListOrder[] = []
+    const totals = new Map<string, { productId: string; name: string; quantity: number }>()
+    for (const order of (orders ?? []) as Array<Record<string, unknown>>) {
+      const orderItems = (order.order_items as Array<{ product_id: string; product_name: string; quantity: number }> | null) ?? []
+      const plan = (order.fulfilment_plan as FulfilmentPlan | null) ?? null
+      const names = new Map(orderItems.map((i) => [i.product_id, i.product_name]))
+      const allocations = allocateToWarehouses(
+        orderItems.map((i) => ({ productId: i.product_id, quantity: Number(i.quantity) || 0 })),
+        plan,
+        (order.warehouse_id as string | null) ?? primaryId
+      )
+      const here = allocations.filter((a) => a.warehouseId === warehouseId)
+      if (here.length === 0) continue
+
+      picks.push({
+        id: order.id as string,
+        orderNumber: order.order_id as string,
+        status: order.status as string,
+        createdAt: order.created_at as string,
+        deliveryWindowStart: (order.delivery_window_start as string | null) ?? null,
+        customerName: customerNames.get(order.user_id as string) ?? null,
+        split: here.length < allocations.length,
+        items: here.map((a) => ({ productId: a.productId, name: names.get(a.productId) ?? a.productId, quantity: a.quantity })),
+      })
+      for (const a of here) {
+        const entry = totals.get(a.productId) ?? { productId: a.productId, name: names.get(a.productId) ?? a.productId, quantity: 0 }
+        entry.quantity += a.quantity
+        totals.set(a.productId, entry)
+      }
+    }
+
+    // Orders with a delivery slot first, soonest first; the rest in order of placing
+    picks.sort((a, b) => {
+      if (a.deliveryWindowStart && b.deliveryWindowStart) return a.deliveryWindowStart.localeCompare(b.deliveryWindowStart)
+      if (a.deliveryWindowStart || b.deliveryWindowStart) return a.deliveryWindowStart ? -1 : 1
+      return a.createdAt.localeCompare(b.createdAt)
+    })
+
+    return {
+      success: true,
+      data: {
+        warehouseId,
+        warehouseName: warehouse.name,
+        statuses,
+        orders: picks,
+        totals: [...totals.values()].sort((a, b) => b.quantity - a.quantity || a.name.localeCompare(b.name)),
+      },
+    }
+  }
+
+  // ----- Helpers -----
+
+  /** Active warehouses delivering to the pin: open ones first, then nearest (without a pin: primary first) */
+  private rankCandidates(warehouses: Warehouse[], lat: number | null, lng: number | null, at: Date): Warehouse[] {
+    const hasPin = lat != null && lng != null
+    return warehouses
+      .filter((w) => w.active && servesLocation(w, lat, lng))
+      .map((w) => ({
+        w,
+        open: isWarehouseOpen(w, at),
+        distance: hasPin ? haversineKm(w.lat, w.lng, lat as number, lng as number) : w.isPrimary ? 0 : 1,
+      }))
+      .sort((a, b) => Number(b.open) - Number(a.open) || a.distance - b.distance)
+      .map(({ w }) => w)
+  }
+
+  /** On-hand quantity per `${warehouseId}:${productId}` */
+  private async getStockLevels(warehouseIds: string[], productIds: string[]): Promise<Map<string, number>> {
+    const levels = new Map<string, number>()
+    if (warehouseIds.length === 0 || productIds.length === 0) return levels
+    const { data, error } = await this.supabase
+      .from('warehouse_stock')
+      .select('warehouse_id, product_id, quantity')
+      .in('warehouse_id', warehouseIds)
+      .in('product_id', productIds)
+    if (error) {
+      console.warn('WarehouseService getStockLevels error:', error.message)
+      return levels
+    }
+    for (const row of data ?? []) {
+      levels.set(`${row.warehouse_id}:${row.product_id}`, Number(row.quantity) || 0)
+    }
+    return levels
+  }
+
+  /** Units held by active reservations per `${warehouseId}:${productId}` */
+  private async getReserved(warehouseIds: string[], productIds: string[]): Promise<Map<string, number>> {
+    const reserved = new Map<string, number>()
+    if (warehouseIds.length === 0 || productIds.length === 0) return reserved
+    const { data, error } = await this.supabase
+      .from('inventory_reservations')
+      .select('warehouse_id, product_id, quantity')
+      .in('warehouse_id', warehouseIds)
+      .in('product_id', productIds)
+      .eq('status', 'active')
+      .gt('expires_at', new Date().toISOString())
+    if (error) {
+      console.warn('WarehouseService getReserved error:', error.message)
+      return reserved
+    }
+    for (const row of data ?? []) {
+      const key = `${row.warehouse_id}:${row.product_id}`
+      reserved.set(key, (reserved.get(key) ?? 0) + (Number(row.quantity) || 0))
+    }
+    return reserved
+  }
+
+  /** Unset the current primary so another warehouse can take the role; returns an error message or null */
+  private async clearPrimary(): Promise<string | null> {
+    const { error } = await this.supabase
+      .from('warehouses')
+      .update({ is_primary: false, updated_at: new Date().toISOString() })
+      .eq('is_primary', true)
+    if (error) {
+      console.warn('WarehouseService clearPrimary error:', error.message)
+      return error.message
+    }
+    return null
+  }
+}
+
+function mergeItems(items: FulfilmentItem[]): FulfilmentItem[] {
+  const merged = new Map<string, number>()
+  for (const item of items) merged.set(item.productId, (merged.get(item.productId) ?? 0) + item.quantity)
+  return [...merged.entries()].map(([productId, quantity]) => ({ productId, quantity }))
+}
@@ -0,0 +1,302 @@
+import crypto from 'crypto'
+import { createAdminClient } from '../config/supabase'
+import { PaymentWebhookService } from './payment-webhook.service'
+import { getPaymentProvider, type PaymentProvider } from './payment-provider.service'
+import { CronLockService } from './cron-lock.service'
+
+/**
+ * Persisted webhook log (see supabase-webhook-events.sql).
+ * Every signed payment provider webhook is stored before processing so duplicates are recognised,
+ * failures are retried with backoff, and admins can replay any event.
+ */
+
+export type WebhookEventStatus = 'received' | 'processing' | 'processed' | 'failed' | 'dead'
+
+export const WEBHOOK_EVENT_STATUSES: readonly WebhookEventStatus[] = ['received', 'processing', 'processed', 'failed', 'dead']
+
+export interface WebhookEventRow {
+  id: string
+  provider: string
+  event_id: string
+  event_type: string
+  payload: Record<string, unknown>
+  payload_hash: string
+  status: WebhookEventStatus
+  attempts: number
+  duplicate_count: number
+  last_error: string | null
+  result_message: string | null
+  next_retry_at: string | null
+  locked_until: string | null
+  processed_at: string | null
+  received_at: string
+  updated_at: string
+}
+
+export interface ProcessEventResult {
+  success: boolean
+  message: string
+  status?: WebhookEventStatus
+}
+
+const MAX_ATTEMPTS = 8
+const RETRY_BASE_MS = 60 * 1000
+const RETRY_MAX_MS = 6 * 60 * 60 * 1000
+/** A worker that crashed mid-processing gives the event up after this long. */
+const PROCESSING_LOCK_MS = 5 * 60 * 1000
+const RETRY_BATCH_SIZE = 25
+
+/** 1m, 2m, 4m, ... capped at 6h. */
+function retryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_MS)
+}
+
+export class WebhookEventService {
+  private supabase = createAdminClient()
+  private cronLock = new CronLockService()
+  private paymentWebhooks = new PaymentWebhookService()
+
+  private static readonly RETRY_LOCK_JOB = 'webhook_event_retries'
+  private static readonly LOCK_TTL_MINUTES = 15
+
+  /** Run a stored payload through the handlers, translated by the provider that sent it. */
+  private async dispatch(providerName: string, payload: Record<string, unknown>): Promise<{ success: boolean; message: string }> {
+    const provider = getPaymentProvider(providerName)
+    return this.paymentWebhooks.handleEvent(provider.name, provider.parseWebhookEvent(payload))
+  }
+
+  /**
+   * Store a verified webhook and process it once. Repeat deliveries of an event that was
+   * already processed are counted and acknowledged without running handlers again.
+   */
+  async receiveEvent(provider: PaymentProvider, rawBody: string, event: Record<string, unknown>): Promise<ProcessEventResult> {
+    const payloadHash = crypto.createHash('sha256').update(rawBody).digest('hex')
+    const eventId = provider.webhookEventId(event, payloadHash)
+    const eventType = provider.parseWebhookEvent(event).event
+
+    const { data: inserted, error: insertError } = await this.supabase
+      .from('webhook_events')
+      .upsert(
+        {
+          provider: provider.name,
+          event_id: eventId,
+          event_type: eventType,
+          payload: event,
+          payload_hash: payloadHash,
+        },
+        { onConflict: 'provider,event_id', ignoreDuplicates: true }
+      )
+      .select('id')
+
+    if (insertError) {
+      // Never drop a signed webhook because the log is unavailable; process it directly
+      console.error('Failed to store webhook event:', insertError)
+      return this.paymentWebhooks.handleEvent(provider.name, provider.parseWebhookEvent(event))
+    }
+
+    if (inserted && inserted.length > 0) {
+      return this.processEvent(inserted[0].id as string)
+    }
+
+    const { data: existing } = await this.supabase
+      .from('webhook_events')
+      .select('id, status, duplicate_count')
+      .eq('provider', provider.name)
+      .eq('event_id', eventId)
+      .maybeSingle()
+
+    if (!existing) {
+      return { success: false, message: 'Webhook event could not be stored' }
+    }
+
+    await this.supabase
+      .from('webhook_events')
+      .update({ duplicate_count: (existing.duplicate_count ?? 0) + 1, updated_at: new Date().toISOString() })
+      .eq('id', existing.id)
+
+    // A redelivery of an event we have not managed to process yet counts as a retry
+    if (existing.status === 'received' || existing.status === 'failed') {
+      return this.processEvent(existing.id)
+    }
+
+    return { success: true, message: 'Duplicate event ignored', status: existing.status }
+  }
+
+  /**
+   * Claim and run one stored event. `force` (admin replay) also runs processed and dead events.
+   */
+  async processEvent(id: string, options: { force?: boolean } = {}): Promise<ProcessEventResult> {
+    const { data: row, error } = await this.supabase
+      .from('webhook_events')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error || !row) {
+      return { success: false, message: 'Webhook event not found' }
+    }
+
+    const event = row as WebhookEventRow
+    const now = Date.now()
+    const lockActive = event.status === 'processing' && event.locked_until != null && new Date(event.locked_until).getTime() > now
+    if (lockActive) {
+      return { success: false, message: 'Event is already being processed', status: event.status }
+    }
+    const claimable = options.force || ['received', 'failed', 'processing'].includes(event.status)
+    if (!claimable) {
+      return { success: true, message: `Event already ${event.status}`, status: event.status }
+    }
+
+    // Optimistic claim: only one worker can move attempts from N to N+1
+    const attempts = event.attempts + 1
+    const { data: claimed } = await this.supabase
+      .from('webhook_events')
+      .update({
+        status: 'processing',
+        attempts,
+        locked_until: new Date(now + PROCESSING_LOCK_MS).toISOString(),
+        updated_at: new Date(now).toISOString(),
+      })
+      .eq('id', id)
+      .eq('attempts', event.attempts)
+      .select('id')
+
+    if (!claimed || claimed.length === 0) {
+      return { success: false, message: 'Event is already being processed' }
+    }
+
+    let result: { success: boolean; message: string }
+    try {
+      result = await this.dispatch(event.provider, event.payload)
+    } catch (err) {
+      result = { success: false, message: err instanceof Error ? err.message : 'Webhook processing failed' }
+    }
+
+    const finishedAt = new Date().toISOString()
+    if (result.success) {
+      await this.supabase
+        .from('webhook_events')
+        .update({
+          status: 'processed',
+          result_message: result.message,
+          last_error: null,
+          next_retry_at: null,
+          locked_until: null,
+          processed_at: finishedAt,
+          updated_at: finishedAt,
+        })
+        .eq('id', id)
+      return { success: true, message: result.message, status: 'processed' }
+    }
+
+    const exhausted = attempts >= MAX_ATTEMPTS
+    const status: WebhookEventStatus = exhausted ? 'dead' : 'failed'
+    await this.supabase
+      .from('webhook_events')
+      .update({
+        status,
+        last_error: result.message,
+        next_retry_at: exhausted ? null : new Date(Date.now() + retryDelayMs(attempts)).toISOString(),
+        locked_until: null,
+        updated_at: finishedAt,
+      })
+      .eq('id', id)
+
+    if (exhausted) {
+      console.error(`Webhook event ${event.event_id} gave up after ${attempts} attempts:`, result.message)
+    }
+    return { success: false, message: result.message, status }
+  }
+
+  /** Admin replay: run the stored payload through the webhook handlers again. */
+  async replayEvent(id: string): Promise<ProcessEventResult> {
+    return this.processEvent(id, { force: true })
+  }
+
+  /** Retry failed events whose backoff has elapsed (call from cron every few minutes). */
+  async retryDueEvents(): Promise<{ processed: number; failed: number; errors: string[]; skipped?: string }> {
+    const errors: string[] = []
+    let processed = 0
+    let failed = 0
+    try {
+      const acquired = await this.cronLock.acquire(WebhookEventService.RETRY_LOCK_JOB, WebhookEventService.LOCK_TTL_MINUTES)
+      if (!acquired) {
+        return { processed: 0, failed: 0, errors: [], skipped: 'Lock held by another instance' }
+      }
+      try {
+        const { data: rows, error } = await this.supabase
+          .from('webhook_events')
+          .select('id')
+          .eq('status', 'failed')
+          .lte('next_retry_at', new Date().toISOString())
+          .order('next_retry_at', { ascending: true })
+          .limit(RETRY_BATCH_SIZE)
+
+        if (error) {
+          return { processed: 0, failed: 0, errors: [error.message] }
+        }
+
+        for (const row of rows ?? []) {
+          const result = await this.processEvent(row.id as string)
+          if (result.success) {
+            processed++
+          } else {
+            failed++
+            errors.push(`${row.id}: ${result.message}`)
+          }
+        }
+      } finally {
+        await this.cronLock.release(WebhookEventService.RETRY_LOCK_JOB)
+      }
+    } catch (e) {
+      errors.push(e instanceof Error ? e.message : 'Retry webhook events failed')
+    }
+    return { processed, failed, errors }
+  }
+
+  /**
+   * List stored events for admin, newest first. Payloads are included so admins can inspect them.
+   */
+  async listEvents(options: { status?: WebhookEventStatus; eventType?: string; page?: number; limit?: number } = {}): Promise<{
+    success: boolean
+    data?: WebhookEventRow[]
+    pagination?: { page: number; limit: number; total: number; totalPages: number }
+    error?: string
+  }> {
+    try {
+      const { status, eventType, page = 1, limit = 50 } = options
+      const offset = (page - 1) * limit
+
+      let query = this.supabase
+        .from('webhook_events')
+        .select('*', { count: 'exact' })
+        .order('received_at', { ascending: false })
+
+      if (status) query = query.eq('status', status)
+      if (eventType) query = query.eq('event_type', eventType)
+
+      const { data, error, count } = await query.range(offset, offset + limit - 1)
+
+      if (error) {
+        return { success: false, error: error.message }
+      }
+
+      return {
+        success: true,
+        data: (data || []) as WebhookEventRow[],
+        pagination: {
+          page,
+          limit,
+          total: count ?? 0,
+          totalPages: Math.ceil((count ?? 0) / limit),
+        },
+      }
+    } catch (err) {
+      console.error('List webhook events error:', err)
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : 'Failed to fetch webhook events',
+      }
+    }
+  }
+}
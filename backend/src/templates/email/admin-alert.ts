@@ -0,0 +1,31 @@
+import { emailLayout, h2Style, pStyle, boxStyle } from './shared'
+
+/** Operational alert for admins (e.g. oversold stock). Lines are rendered as a plain list. */
+export function adminAlertHtml(params: { title: string; intro: string; lines: string[] }): string {
+  const { title, intro, lines } = params
+  const items = lines
+    .map((line) => `<li style="color: #64748b; font-size: 14px; margin: 0 0 8px 0;">${line.replace(/</g, '&lt;')}</li>`)
+    .join('')
+  const content = `
+    <h2 style="${h2Style}">${title}</h2>
+    <p style="${pStyle}">${intro}</p>
+    <div style="${boxStyle}">
+      <ul style="margin: 0; padding-left: 20px;">${items}</ul>
+    </div>
+  `
+  return emailLayout({
+    title,
+    headerTitle: 'Admin alert',
+    content,
+    footerTagline: 'Grovio Admin',
+  })
+}
+
+export function adminAlertText(params: { title: string; intro: string; lines: string[] }): string {
+  const { title, intro, lines } = params
+  return `${title}
+
+${intro}
+
+${lines.map((line) => `- ${line}`).join('\n')}`.trim()
+}
@@ -0,0 +1,59 @@
+import { emailLayout, h2Style, pStyle, boxStyle, primaryButtonStyle } from './shared'
+
+/** Reminder for an online checkout that was started but not paid; resumeUrl restarts the payment. */
+export function checkoutRecoveryHtml(params: {
+  displayName: string
+  items: Array<{ name: string; quantity: number }>
+  totalAmount: number
+  resumeUrl: string
+  isLastReminder: boolean
+}): string {
+  const { displayName, items, totalAmount, resumeUrl, isLastReminder } = params
+  const rows = items
+    .map((item) => `<li style="color: #64748b; font-size: 14px; margin: 0 0 6px 0;">${item.quantity} × ${item.name.replace(/</g, '&lt;')}</li>`)
+    .join('')
+  const content = `
+    <h2 style="${h2Style}">Your basket is waiting</h2>
+    <p style="${pStyle}">Hi ${displayName},</p>
+    <p style="${pStyle}">You started a checkout but the payment was not completed. Your items are still saved, and you can pick up where you left off.</p>
+    <div style="${boxStyle}">
+      <ul style="margin: 0 0 12px 0; padding-left: 20px;">${rows}</ul>
+      <p style="color: #1e3a8a; font-size: 16px; margin: 0; font-weight: 600;">Total: GHS ${totalAmount.toFixed(2)}</p>
+    </div>
+    <div style="text-align: center; margin: 35px 0;">
+      <a href="${resumeUrl}" style="${primaryButtonStyle}">Complete payment</a>
+    </div>
+    <p style="color: #64748b; font-size: 14px; margin: 30px 0 0 0;">${isLastReminder ? 'This is the last reminder; the checkout will expire soon. ' : ''}If you already paid or no longer want these items, you can ignore this email.</p>
+  `
+  return emailLayout({
+    title: 'Complete your Grovio order',
+    headerTitle: 'Checkout reminder',
+    content,
+    footerTagline: 'The Grovio Team',
+  })
+}
+
+export function checkoutRecoveryText(params: {
+  displayName: string
+  items: Array<{ name: string; quantity: number }>
+  totalAmount: number
+  resumeUrl: string
+  isLastReminder: boolean
+}): string {
+  const { displayName, items, totalAmount, resumeUrl, isLastReminder } = params
+  return `Your basket is waiting
+
+Hi ${displayName},
+
+You started a checkout but the payment was not completed. Your items are still saved:
+
+${items.map((item) => `- ${item.quantity} x ${item.name}`).join('\n')}
+
+Total: GHS ${totalAmount.toFixed(2)}
+
+Complete payment: ${resumeUrl}
+
+${isLastReminder ? 'This is the last reminder; the checkout will expire soon. ' : ''}If you already paid or no longer want these items, you can ignore this email.
+
+Grovio – Redefining the Way You Save.`.trim()
+}
@@ -2,6 +2,9 @@ export { GROVIO_LOGO_URL, emailLayout } from './shared'
 export { accountRecoveryHtml, accountRecoveryText } from './account-recovery'
 export { invoiceHtml, invoiceText } from './invoice'
 export { orderConfirmationHtml, orderConfirmationText } from './order-confirmation'
+export { orderStatusHtml, orderStatusText } from './order-status'
 export { scheduledReminderHtml } from './scheduled-reminder'
 export { contactToAdminHtml } from './contact-to-admin'
 export { contactConfirmationHtml } from './contact-confirmation'
+export { adminAlertHtml, adminAlertText } from './admin-alert'
+export { checkoutRecoveryHtml, checkoutRecoveryText } from './checkout-recovery'
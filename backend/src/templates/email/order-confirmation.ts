@@ -5,8 +5,12 @@ export function orderConfirmationHtml(params: {
   orderNumber: string
   invoicePdfUrl: string
   deliveryCode?: string
+  trackingUrl?: string
 }): string {
-  const { displayName, orderNumber, invoicePdfUrl, deliveryCode } = params
+  const { displayName, orderNumber, invoicePdfUrl, deliveryCode, trackingUrl } = params
+  const trackingBlock = trackingUrl
+    ? `<p style="${pStyle}">Follow your order at any time: <a href="${trackingUrl}" style="color: #D35F0E;">track order ${orderNumber}</a></p>`
+    : ''
   const deliveryBlock = deliveryCode
     ? `<div style="background-color: #f8fafc; padding: 20px; border-radius: 8px; margin: 25px 0; border-left: 4px solid #D35F0E;">
       <p style="color: #1e3a8a; font-size: 14px; margin: 0 0 10px 0; font-weight: 600;">Delivery code (give to rider to confirm delivery):</p>
@@ -18,6 +22,7 @@ export function orderConfirmationHtml(params: {
     <p style="${pStyle}">Hi ${displayName},</p>
     <p style="${pStyle}">Your payment was successful and your order <strong>${orderNumber}</strong> is confirmed.</p>
     ${deliveryBlock}
+    ${trackingBlock}
     <p style="${pStyle}">Download your invoice below:</p>
     <div style="text-align: center; margin: 35px 0;">
       <a href="${invoicePdfUrl}" style="${primaryButtonStyle}">Download invoice (PDF)</a>
@@ -41,15 +46,17 @@ export function orderConfirmationText(params: {
   orderNumber: string
   invoicePdfUrl: string
   deliveryCode?: string
+  trackingUrl?: string
 }): string {
-  const { displayName, orderNumber, invoicePdfUrl, deliveryCode } = params
+  const { displayName, orderNumber, invoicePdfUrl, deliveryCode, trackingUrl } = params
   const textDelivery = deliveryCode ? `\nDelivery code (give to rider): ${deliveryCode}\n` : ''
+  const textTracking = trackingUrl ? `\nTrack your order: ${trackingUrl}` : ''
   return `Order confirmed
 
 Hi ${displayName},
 
 Your order ${orderNumber} is confirmed.${textDelivery}
-Download invoice: ${invoicePdfUrl}
+Download invoice: ${invoicePdfUrl}${textTracking}
 
 Grovio – Redefining the Way You Save.`.trim()
 }
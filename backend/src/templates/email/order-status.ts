@@ -0,0 +1,50 @@
+import { emailLayout, h2Style, pStyle, boxStyle } from './shared'
+
+export function orderStatusHtml(params: {
+  displayName: string
+  orderNumber: string
+  statusLabel: string
+  message: string
+  deliveryCode?: string
+}): string {
+  const { displayName, orderNumber, statusLabel, message, deliveryCode } = params
+  const deliveryBlock = deliveryCode
+    ? `<div style="${boxStyle} border-left: 4px solid #D35F0E;">
+      <p style="color: #1e3a8a; font-size: 14px; margin: 0 0 10px 0; font-weight: 600;">Delivery code (give to rider to confirm delivery):</p>
+      <p style="color: #64748b; font-size: 20px; letter-spacing: 0.15em; margin: 0; font-weight: 600;">${deliveryCode}</p>
+    </div>`
+    : ''
+  const content = `
+    <h2 style="${h2Style}">${statusLabel}</h2>
+    <p style="${pStyle}">Hi ${displayName},</p>
+    <p style="${pStyle}">${message}</p>
+    ${deliveryBlock}
+    <p style="color: #64748b; font-size: 14px; margin: 30px 0 0 0;">Order reference: <strong>${orderNumber}</strong></p>
+  `
+  return emailLayout({
+    title: `Order ${orderNumber} – ${statusLabel}`,
+    headerTitle: 'Order update',
+    content,
+    footerTagline: 'The Grovio Team',
+  })
+}
+
+export function orderStatusText(params: {
+  displayName: string
+  orderNumber: string
+  statusLabel: string
+  message: string
+  deliveryCode?: string
+}): string {
+  const { displayName, orderNumber, statusLabel, message, deliveryCode } = params
+  const textDelivery = deliveryCode ? `\nDelivery code (give to rider): ${deliveryCode}\n` : ''
+  return `${statusLabel}
+
+Hi ${displayName},
+
+${message}
+${textDelivery}
+Order reference: ${orderNumber}
+
+Grovio – Redefining the Way You Save.`.trim()
+}
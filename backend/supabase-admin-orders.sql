@@ -0,0 +1,28 @@
+-- Orders placed by an admin for phone, WhatsApp and walk-in customers.
+-- Run in Supabase SQL editor (after supabase-cash-on-delivery.sql).
+
+-- Already-paid admin orders can be paid in cash at the counter
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_payment_method_check;
+
+ALTER TABLE orders ADD CONSTRAINT orders_payment_method_check
+  CHECK (payment_method IN (
+    'paystack',
+    'card',
+    'mobile_money',
+    'bank_transfer',
+    'bank',
+    'ussd',
+    'qr',
+    'eft',
+    'unknown',
+    'cash_on_delivery',
+    'mobile_money_on_delivery',
+    'cash'
+  ));
+
+COMMENT ON COLUMN orders.payment_method IS 'Payment method: Paystack channel (card, mobile_money, etc.), paystack when channel not mapped, cash_on_delivery / mobile_money_on_delivery, or cash for admin orders paid at the counter.';
+
+-- Admin who placed the order; NULL for storefront orders. The channel (phone, whatsapp, walk_in) is in metadata.order_channel
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS placed_by_admin_id UUID REFERENCES admin_users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_orders_placed_by_admin ON orders(placed_by_admin_id) WHERE placed_by_admin_id IS NOT NULL;
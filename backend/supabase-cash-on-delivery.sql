@@ -0,0 +1,67 @@
+-- Cash on delivery / mobile money on delivery: orders paid to the rider instead of online.
+-- Run in Supabase SQL editor.
+-- Limits: COD_MAX_ORDER_VALUE and COD_MAX_OPEN_ORDERS (env) apply to everyone; the users columns
+-- below override them per customer.
+
+-- Allow the two on-delivery payment methods on orders
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_payment_method_check;
+
+ALTER TABLE orders ADD CONSTRAINT orders_payment_method_check
+  CHECK (payment_method IN (
+    'paystack',
+    'card',
+    'mobile_money',
+    'bank_transfer',
+    'bank',
+    'ussd',
+    'qr',
+    'eft',
+    'unknown',
+    'cash_on_delivery',
+    'mobile_money_on_delivery'
+  ));
+
+COMMENT ON COLUMN orders.payment_method IS 'Payment method: Paystack channel (card, mobile_money, etc.), paystack when channel not mapped, or cash_on_delivery / mobile_money_on_delivery.';
+
+-- Per-customer COD limits (NULL = use the env default)
+ALTER TABLE users ADD COLUMN IF NOT EXISTS cod_allowed BOOLEAN NOT NULL DEFAULT true;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS cod_max_order_value NUMERIC(12,2);
+ALTER TABLE users ADD COLUMN IF NOT EXISTS cod_max_open_orders INT;
+
+-- Cash a rider handed over to the store for one day
+CREATE TABLE IF NOT EXISTS cod_remittances (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rider_name TEXT NOT NULL,
+  business_date DATE NOT NULL,
+  expected_amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  received_amount NUMERIC(12,2) NOT NULL,
+  received_by TEXT,
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (rider_name, business_date)
+);
+
+-- One row per COD order, written when the rider confirms delivery
+CREATE TABLE IF NOT EXISTS cod_collections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL UNIQUE REFERENCES orders(id) ON DELETE CASCADE,
+  rider_name TEXT NOT NULL DEFAULT 'Unassigned',
+  method TEXT NOT NULL CHECK (method IN ('cash', 'mobile_money')),
+  expected_amount NUMERIC(12,2) NOT NULL,
+  collected_amount NUMERIC(12,2) NOT NULL,
+  momo_reference TEXT,
+  verified_via TEXT NOT NULL CHECK (verified_via IN ('code', 'qr')),
+  business_date DATE NOT NULL DEFAULT (now() AT TIME ZONE 'Africa/Accra')::date,
+  collected_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cod_collections_day_rider ON cod_collections(business_date DESC, rider_name);
+CREATE INDEX IF NOT EXISTS idx_cod_remittances_day ON cod_remittances(business_date DESC);
+
+-- Backend-only tables (service role); no client access.
+ALTER TABLE cod_collections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cod_remittances ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE cod_collections IS 'Money a rider collected for a cash / mobile money on delivery order. collected_amount may differ from expected_amount; the difference shows as variance in the daily reconciliation.';
+COMMENT ON TABLE cod_remittances IS 'Cash handed over by a rider for a business day; compared with that day''s cash collections.';
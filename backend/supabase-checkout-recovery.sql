@@ -0,0 +1,77 @@
+-- Abandoned checkout recovery: reminder emails for online checkouts that were started but never paid,
+-- with a one-click link that restarts the payment, and the data to measure how many come back.
+-- Run in Supabase SQL editor (after supabase-inventory-reservations.sql and supabase-cron-locks.sql).
+-- Reminders are sent by POST /api/orders/checkout-recovery/run (cron), which then runs the pending order cleanup.
+
+-- 1) Settings (single row, like delivery_settings)
+--    reminder_delays_minutes = one entry per reminder, minutes after the checkout started (ascending)
+--    resume_window_hours     = how long an unpaid checkout can be resumed; cleanup deletes it after this
+CREATE TABLE IF NOT EXISTS checkout_recovery_settings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  enabled boolean NOT NULL DEFAULT false,
+  reminder_delays_minutes integer[] NOT NULL DEFAULT '{60, 1320}',
+  resume_window_hours integer NOT NULL DEFAULT 48 CHECK (resume_window_hours BETWEEN 1 AND 336),
+  updated_at timestamptz DEFAULT now(),
+  updated_by uuid
+);
+
+INSERT INTO checkout_recovery_settings (id)
+VALUES ('c0000000-0000-0000-0000-000000000001'::uuid)
+ON CONFLICT (id) DO NOTHING;
+
+COMMENT ON TABLE checkout_recovery_settings IS 'When to email customers who started an online checkout but did not pay; single row.';
+
+-- 2) Recovery state on the checkout
+--    recovery_token = secret for the resume link (/api/orders/checkout/resume/<token>)
+ALTER TABLE pending_orders ADD COLUMN IF NOT EXISTS recovery_token text;
+ALTER TABLE pending_orders ADD COLUMN IF NOT EXISTS recovery_reminders_sent smallint NOT NULL DEFAULT 0;
+ALTER TABLE pending_orders ADD COLUMN IF NOT EXISTS recovery_resumed_at timestamptz;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pending_orders_recovery_token ON pending_orders (recovery_token) WHERE recovery_token IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_pending_orders_unconverted_created ON pending_orders (created_at) WHERE converted_to_order_id IS NULL;
+
+COMMENT ON COLUMN pending_orders.recovery_token IS 'Secret for the checkout resume link. Anyone with it can restart payment for this checkout, so never log or expose it.';
+
+-- 3) One row per reminder sent; clicked_at is the first click on its link.
+--    Conversion = the checkout later has converted_to_order_id.
+CREATE TABLE IF NOT EXISTS checkout_recovery_emails (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  pending_order_id uuid NOT NULL,
+  user_id uuid NOT NULL,
+  reminder_number smallint NOT NULL,
+  amount numeric(10, 2) NOT NULL,
+  sent_at timestamptz NOT NULL DEFAULT now(),
+  clicked_at timestamptz,
+  UNIQUE (pending_order_id, reminder_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_checkout_recovery_emails_sent_at ON checkout_recovery_emails (sent_at);
+
+ALTER TABLE checkout_recovery_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE checkout_recovery_emails ENABLE ROW LEVEL SECURITY;
+
+-- 4) Cleanup keeps unpaid checkouts for the resume window instead of dropping them straight away.
+--    Converted checkouts are kept: orders and recovery stats refer to them.
+DROP FUNCTION IF EXISTS cleanup_expired_pending_orders();
+
+CREATE FUNCTION cleanup_expired_pending_orders()
+RETURNS INT
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_hours INT;
+  v_count INT;
+BEGIN
+  SELECT resume_window_hours INTO v_hours FROM checkout_recovery_settings LIMIT 1;
+
+  DELETE FROM pending_orders
+   WHERE converted_to_order_id IS NULL
+     AND created_at < now() - make_interval(hours => COALESCE(v_hours, 48));
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- Backend (service role) only
+REVOKE EXECUTE ON FUNCTION cleanup_expired_pending_orders() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,88 @@
+-- Delivery code protection: wrong-code counters per order and per code, code rotation, a per-order lockout,
+-- and an audit trail of every delivery verification attempt.
+-- Run in Supabase SQL editor (after supabase-orders-delivery-verification.sql and supabase-riders.sql).
+-- See docs/DELIVERY_CODE_SECURITY.md.
+
+-- 1) Counters on the order
+--    delivery_code_failures: wrong codes against the current code; reset when the code rotates
+--    delivery_code_failures_total: wrong codes against every code the order has had; drives the lockout
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS delivery_code_failures integer NOT NULL DEFAULT 0;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS delivery_code_failures_total integer NOT NULL DEFAULT 0;
+-- Code checks for the order are refused until this time (QR still works)
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS delivery_code_locked_until timestamptz;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS delivery_code_rotations integer NOT NULL DEFAULT 0;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS delivery_code_rotated_at timestamptz;
+
+COMMENT ON COLUMN orders.delivery_code_failures IS 'Wrong delivery codes entered for the current code; the code rotates at the limit.';
+COMMENT ON COLUMN orders.delivery_code_locked_until IS 'Delivery code checks for this order are refused until then.';
+
+-- 2) Every verification attempt, by code or QR, successful or not
+CREATE TABLE IF NOT EXISTS delivery_verification_attempts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- NULL when a code matched no order
+  order_id uuid REFERENCES orders(id) ON DELETE CASCADE,
+  method text NOT NULL CHECK (method IN ('code', 'qr')),
+  outcome text NOT NULL CHECK (outcome IN (
+    'confirmed',      -- delivery confirmed
+    'wrong_code',     -- the named order has a different code
+    'no_match',       -- a code without an order matched none
+    'invalid_token',  -- the QR token matched no active order
+    'locked',         -- the order's code checks are locked
+    'not_assigned',   -- a rider tried someone else's delivery
+    'order_required', -- rider binding is on and no order was named
+    'rejected'        -- matched, but the confirmation failed (bad photo, status change refused)
+  )),
+  rider_id uuid REFERENCES riders(id) ON DELETE SET NULL,
+  admin_id uuid,
+  ip text,
+  user_agent text,
+  -- e.g. "code rotated", "locked until …", or the error that rejected the confirmation
+  detail text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_delivery_verification_attempts_created ON delivery_verification_attempts (created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_delivery_verification_attempts_order ON delivery_verification_attempts (order_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_delivery_verification_attempts_rider ON delivery_verification_attempts (rider_id, created_at DESC);
+
+ALTER TABLE delivery_verification_attempts ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE delivery_verification_attempts IS 'Audit trail of delivery confirmations by code or QR, including refused attempts.';
+
+-- 3) Count a wrong code against an order. The row is locked so concurrent guesses are all counted.
+--    Every p_lock_after-th wrong code locks code checks for p_lock_minutes.
+--    Returns { codeFailures, totalFailures, lockedUntil } or NULL when the order does not exist.
+CREATE OR REPLACE FUNCTION register_delivery_code_failure(
+  p_order_id uuid,
+  p_lock_after integer,
+  p_lock_minutes integer
+) RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_code_failures integer;
+  v_total integer;
+  v_locked_until timestamptz;
+BEGIN
+  UPDATE orders
+     SET delivery_code_failures = delivery_code_failures + 1,
+         delivery_code_failures_total = delivery_code_failures_total + 1,
+         delivery_code_locked_until = CASE
+           WHEN (delivery_code_failures_total + 1) % GREATEST(p_lock_after, 1) = 0
+             THEN now() + make_interval(mins => p_lock_minutes)
+           ELSE delivery_code_locked_until
+         END
+   WHERE id = p_order_id
+  RETURNING delivery_code_failures, delivery_code_failures_total, delivery_code_locked_until
+    INTO v_code_failures, v_total, v_locked_until;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_build_object('codeFailures', v_code_failures, 'totalFailures', v_total, 'lockedUntil', v_locked_until);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION register_delivery_code_failure(uuid, integer, integer) FROM PUBLIC, anon, authenticated;
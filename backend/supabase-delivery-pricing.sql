@@ -0,0 +1,23 @@
+-- Tiered delivery pricing: base fee, distance bands, min/max caps, free delivery threshold and peak surcharges,
+-- plus the itemised delivery fee stored on checkouts, orders and order changes.
+-- Run in Supabase SQL editor (after supabase-delivery-zones.sql and supabase-tax.sql).
+
+-- 1) Pricing rules on the single delivery_settings row
+--    distance_bands  = [{ "upToKm": 3, "pricePerKm": 0 }, { "upToKm": null, "pricePerKm": 2.5 }], ascending;
+--                      distance past the last band (or all distance when empty) uses price_per_km
+--    peak_surcharges = [{ "label": "Evening rush", "days": [1,2,3,4,5], "startTime": "17:00", "endTime": "19:00", "amount": 5 }],
+--                      times are Africa/Accra (UTC), end exclusive
+ALTER TABLE delivery_settings ADD COLUMN IF NOT EXISTS base_fee numeric(10, 2) NOT NULL DEFAULT 0 CHECK (base_fee >= 0);
+ALTER TABLE delivery_settings ADD COLUMN IF NOT EXISTS distance_bands jsonb NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE delivery_settings ADD COLUMN IF NOT EXISTS min_fee numeric(10, 2) CHECK (min_fee IS NULL OR min_fee >= 0);
+ALTER TABLE delivery_settings ADD COLUMN IF NOT EXISTS max_fee numeric(10, 2) CHECK (max_fee IS NULL OR max_fee >= 0);
+ALTER TABLE delivery_settings ADD COLUMN IF NOT EXISTS free_delivery_threshold numeric(10, 2) CHECK (free_delivery_threshold IS NULL OR free_delivery_threshold >= 0);
+ALTER TABLE delivery_settings ADD COLUMN IF NOT EXISTS peak_surcharges jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN delivery_settings.price_per_meter IS 'Not used for pricing; use distance_bands.';
+
+-- 2) Itemised fee: { lines: [{ code, label, amount }], total, distanceKm, zoneName, freeDeliveryThreshold }
+--    total equals delivery_fee
+ALTER TABLE pending_orders ADD COLUMN IF NOT EXISTS delivery_fee_breakdown jsonb;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS delivery_fee_breakdown jsonb;
+ALTER TABLE order_amendments ADD COLUMN IF NOT EXISTS new_delivery_fee_breakdown jsonb;
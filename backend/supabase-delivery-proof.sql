@@ -0,0 +1,39 @@
+-- Proof of delivery: photo, recipient and GPS fix on each attempt, reason codes for attempts that failed,
+-- and the rescheduling flag they set on the order.
+-- Run in Supabase SQL editor (after supabase-riders.sql and supabase-delivery-slots.sql).
+-- Photos live in the private storage bucket "delivery-proofs" (created by the backend on first upload);
+-- see docs/DELIVERY_PROOF.md.
+
+-- 1) What the rider captured at the door
+ALTER TABLE delivery_attempts ADD COLUMN IF NOT EXISTS reason_code text
+  CHECK (reason_code IS NULL OR reason_code IN ('customer_unreachable', 'wrong_address', 'customer_refused', 'other'));
+ALTER TABLE delivery_attempts ADD COLUMN IF NOT EXISTS recipient_name text
+  CHECK (recipient_name IS NULL OR char_length(recipient_name) <= 100);
+-- Storage path in the delivery-proofs bucket
+ALTER TABLE delivery_attempts ADD COLUMN IF NOT EXISTS photo_path text;
+ALTER TABLE delivery_attempts ADD COLUMN IF NOT EXISTS gps_lat numeric(9, 6) CHECK (gps_lat IS NULL OR gps_lat BETWEEN -90 AND 90);
+ALTER TABLE delivery_attempts ADD COLUMN IF NOT EXISTS gps_lng numeric(9, 6) CHECK (gps_lng IS NULL OR gps_lng BETWEEN -180 AND 180);
+ALTER TABLE delivery_attempts ADD COLUMN IF NOT EXISTS gps_accuracy_m numeric(8, 1) CHECK (gps_accuracy_m IS NULL OR gps_accuracy_m >= 0);
+-- When the device took the fix (may be earlier than created_at)
+ALTER TABLE delivery_attempts ADD COLUMN IF NOT EXISTS gps_captured_at timestamptz;
+-- Admin who logged a failed attempt reported by phone
+ALTER TABLE delivery_attempts ADD COLUMN IF NOT EXISTS recorded_by_admin uuid;
+
+-- Failed attempts before this migration keep their free-text reason
+UPDATE delivery_attempts SET reason_code = 'other' WHERE outcome = 'failed' AND reason_code IS NULL;
+
+ALTER TABLE delivery_attempts DROP CONSTRAINT IF EXISTS delivery_attempts_failed_reason_code;
+ALTER TABLE delivery_attempts ADD CONSTRAINT delivery_attempts_failed_reason_code
+  CHECK (outcome <> 'failed' OR reason_code IS NOT NULL);
+
+COMMENT ON COLUMN delivery_attempts.photo_path IS 'Photo at the door, in the private delivery-proofs storage bucket.';
+
+-- 2) Orders waiting for an admin to rearrange delivery after a failed attempt.
+--    Cleared when the order is assigned to a rider again; route planning skips flagged orders.
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS reschedule_reason text
+  CHECK (reschedule_reason IS NULL OR reschedule_reason IN ('customer_unreachable', 'wrong_address', 'customer_refused', 'other'));
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS reschedule_requested_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_orders_reschedule_requested ON orders (reschedule_requested_at) WHERE reschedule_reason IS NOT NULL;
+
+COMMENT ON COLUMN orders.reschedule_reason IS 'Reason code of the failed delivery attempt that needs an admin to rearrange delivery.';
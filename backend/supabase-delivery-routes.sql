@@ -0,0 +1,35 @@
+-- Delivery routes: the day's shipped orders grouped into rider batches with a stop sequence.
+-- Run in Supabase SQL editor (after supabase-riders.sql).
+-- Planned with POST /api/admin/delivery-routes/plan; see docs/DELIVERY_ROUTES.md.
+
+-- 1) How many stops a rider takes on one run
+ALTER TABLE riders ADD COLUMN IF NOT EXISTS route_capacity integer NOT NULL DEFAULT 15
+  CHECK (route_capacity BETWEEN 1 AND 100);
+
+COMMENT ON COLUMN riders.route_capacity IS 'Most stops per delivery route when batching the day''s orders.';
+
+-- 2) Planned routes. Planning a day again replaces that day's routes.
+--    stops: [{ orderId, orderNumber, customerName, phone, address, notes, lat, lng,
+--              deliveryWindowStart, deliveryWindowEnd, amountToCollect, legKm }] in delivery order
+CREATE TABLE IF NOT EXISTS delivery_routes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  route_date date NOT NULL,
+  batch_number integer NOT NULL CHECK (batch_number >= 1),
+  rider_id uuid REFERENCES riders(id) ON DELETE SET NULL,
+  -- Delivery Settings warehouse location when planned
+  origin_lat numeric(9,6) NOT NULL,
+  origin_lng numeric(9,6) NOT NULL,
+  stops jsonb NOT NULL DEFAULT '[]'::jsonb,
+  -- Straight-line km from the warehouse through every stop (no return leg)
+  total_distance_km numeric(8,2) NOT NULL DEFAULT 0,
+  created_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (route_date, batch_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_delivery_routes_rider_date ON delivery_routes (rider_id, route_date) WHERE rider_id IS NOT NULL;
+
+COMMENT ON TABLE delivery_routes IS 'Rider delivery runs per day with their stop order; printed as run sheets.';
+
+-- Backend-only table (service role); no client access.
+ALTER TABLE delivery_routes ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,130 @@
+-- Delivery time slots: weekly windows with a capacity and booking cut-off, blackout dates, and one booking per checkout.
+-- Run in Supabase SQL editor (after supabase-delivery-zones.sql and supabase-inventory-reservations.sql).
+-- Flow (like stock reservations): createPendingOrder holds a slot -> the order is created and the booking confirmed
+--       cancelPendingOrder / abandoned payments / cleanupExpiredPendingOrders release held bookings;
+--       cancelling the order releases its confirmed booking.
+-- Times are Africa/Accra, which is UTC.
+
+-- 1) Weekly windows, e.g. Mondays 09:00-11:00 for 20 orders
+CREATE TABLE IF NOT EXISTS delivery_slots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  label text CHECK (label IS NULL OR char_length(label) <= 50),
+  weekday smallint NOT NULL CHECK (weekday BETWEEN 0 AND 6), -- 0 = Sunday
+  start_time time NOT NULL,
+  end_time time NOT NULL,
+  capacity integer NOT NULL CHECK (capacity > 0),
+  -- Booking closes this many minutes before start_time
+  cutoff_minutes integer NOT NULL DEFAULT 120 CHECK (cutoff_minutes >= 0),
+  -- Only offered for delivery pins in this zone; NULL = everywhere
+  zone_id uuid REFERENCES delivery_zones(id) ON DELETE CASCADE,
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  updated_by uuid,
+  CHECK (end_time > start_time)
+);
+
+CREATE INDEX IF NOT EXISTS idx_delivery_slots_weekday ON delivery_slots (weekday, start_time) WHERE active;
+
+-- 2) Days with no deliveries (holidays, stock-take)
+CREATE TABLE IF NOT EXISTS delivery_slot_blackouts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  blackout_date date NOT NULL UNIQUE,
+  reason text,
+  created_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- 3) Bookings: one per checkout. held counts against capacity until expires_at; confirmed always counts.
+CREATE TABLE IF NOT EXISTS delivery_slot_bookings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- NULL once the window is deleted; the order keeps its delivery window
+  slot_id uuid REFERENCES delivery_slots(id) ON DELETE SET NULL,
+  slot_date date NOT NULL,
+  pending_order_id uuid NOT NULL UNIQUE,
+  order_id uuid REFERENCES orders(id) ON DELETE SET NULL,
+  status text NOT NULL DEFAULT 'held' CHECK (status IN ('held', 'confirmed', 'released')),
+  expires_at timestamptz NOT NULL,
+  release_reason text,
+  confirmed_at timestamptz,
+  released_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_delivery_slot_bookings_slot_date
+  ON delivery_slot_bookings (slot_id, slot_date) WHERE status IN ('held', 'confirmed');
+CREATE INDEX IF NOT EXISTS idx_delivery_slot_bookings_order ON delivery_slot_bookings (order_id);
+CREATE INDEX IF NOT EXISTS idx_delivery_slot_bookings_held_expiry
+  ON delivery_slot_bookings (expires_at) WHERE status = 'held';
+
+-- 4) Booking rules on the single delivery_settings row
+ALTER TABLE delivery_settings ADD COLUMN IF NOT EXISTS require_delivery_slot boolean NOT NULL DEFAULT false;
+ALTER TABLE delivery_settings ADD COLUMN IF NOT EXISTS slot_booking_days integer NOT NULL DEFAULT 7 CHECK (slot_booking_days BETWEEN 1 AND 60);
+
+-- 5) The booked window on the order (kept if the slot is later edited or deleted)
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS delivery_window_start timestamptz;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS delivery_window_end timestamptz;
+CREATE INDEX IF NOT EXISTS idx_orders_delivery_window_start ON orders (delivery_window_start) WHERE delivery_window_start IS NOT NULL;
+
+ALTER TABLE delivery_slots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE delivery_slot_blackouts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE delivery_slot_bookings ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE delivery_slot_bookings IS 'Slot held for a checkout (held), kept by its order (confirmed) or given back (released).';
+
+-- 6) Hold a slot for a checkout if it has room. The slot row is locked so two checkouts cannot both take the last place.
+--    Holding again for the same checkout moves its booking (e.g. a resumed checkout). Confirmed bookings are never moved.
+--    Returns { ok: true, bookingId } or { ok: false, reason: 'not_found' | 'full' | 'confirmed' }.
+CREATE OR REPLACE FUNCTION hold_delivery_slot(
+  p_pending_order_id uuid,
+  p_slot_id uuid,
+  p_slot_date date,
+  p_ttl_minutes integer DEFAULT 30
+) RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_capacity integer;
+  v_taken integer;
+  v_booking_id uuid;
+BEGIN
+  SELECT capacity INTO v_capacity FROM delivery_slots WHERE id = p_slot_id AND active FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'reason', 'not_found');
+  END IF;
+
+  SELECT COUNT(*) INTO v_taken
+    FROM delivery_slot_bookings b
+   WHERE b.slot_id = p_slot_id
+     AND b.slot_date = p_slot_date
+     AND b.pending_order_id <> p_pending_order_id
+     AND (b.status = 'confirmed' OR (b.status = 'held' AND b.expires_at > now()));
+
+  IF v_taken >= v_capacity THEN
+    RETURN jsonb_build_object('ok', false, 'reason', 'full');
+  END IF;
+
+  INSERT INTO delivery_slot_bookings (pending_order_id, slot_id, slot_date, status, expires_at)
+  VALUES (p_pending_order_id, p_slot_id, p_slot_date, 'held', now() + make_interval(mins => p_ttl_minutes))
+  ON CONFLICT (pending_order_id) DO UPDATE
+    SET slot_id = EXCLUDED.slot_id,
+        slot_date = EXCLUDED.slot_date,
+        status = 'held',
+        expires_at = EXCLUDED.expires_at,
+        release_reason = NULL,
+        released_at = NULL,
+        updated_at = now()
+    WHERE delivery_slot_bookings.status <> 'confirmed'
+  RETURNING id INTO v_booking_id;
+
+  IF v_booking_id IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'reason', 'confirmed');
+  END IF;
+  RETURN jsonb_build_object('ok', true, 'bookingId', v_booking_id);
+END;
+$$;
+
+-- Backend (service role) only
+REVOKE EXECUTE ON FUNCTION hold_delivery_slot(uuid, uuid, date, integer) FROM PUBLIC, anon, authenticated;
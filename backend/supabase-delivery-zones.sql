@@ -0,0 +1,34 @@
+-- Delivery zones: named polygons with their own fee rule (flat, per km or blocked) and minimum order value.
+-- Run in Supabase SQL editor (after supabase-delivery-settings.sql).
+-- DeliveryService.calculateFee uses the first active zone (lowest sort_order) containing the delivery pin.
+
+CREATE TABLE IF NOT EXISTS delivery_zones (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  -- [{ "lat": 5.6, "lng": -0.18 }, ...], at least 3 points, not closed (first point is not repeated)
+  polygon jsonb NOT NULL CHECK (jsonb_typeof(polygon) = 'array' AND jsonb_array_length(polygon) >= 3),
+  fee_type text NOT NULL CHECK (fee_type IN ('flat', 'per_km', 'blocked')),
+  flat_fee numeric(10, 2) CHECK (flat_fee IS NULL OR flat_fee >= 0),
+  -- per_km zones; NULL uses delivery_settings.price_per_km
+  price_per_km numeric(10, 2) CHECK (price_per_km IS NULL OR price_per_km >= 0),
+  min_order_value numeric(10, 2) NOT NULL DEFAULT 0 CHECK (min_order_value >= 0),
+  sort_order integer NOT NULL DEFAULT 0,
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  updated_by uuid,
+  CHECK (fee_type <> 'flat' OR flat_fee IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_delivery_zones_active_sort ON delivery_zones (sort_order, created_at) WHERE active;
+
+COMMENT ON TABLE delivery_zones IS 'Delivery areas drawn in admin. Overlaps resolve by sort_order (lowest wins).';
+
+-- When true, pins outside every active zone cannot be delivered to; when false they use the warehouse per-km rate
+ALTER TABLE delivery_settings ADD COLUMN IF NOT EXISTS restrict_to_zones boolean NOT NULL DEFAULT false;
+
+-- Zone the order was priced with (NULL: no zone matched or zones not set up)
+ALTER TABLE pending_orders ADD COLUMN IF NOT EXISTS delivery_zone_id uuid REFERENCES delivery_zones(id) ON DELETE SET NULL;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS delivery_zone_id uuid REFERENCES delivery_zones(id) ON DELETE SET NULL;
+
+ALTER TABLE delivery_zones ENABLE ROW LEVEL SECURITY;
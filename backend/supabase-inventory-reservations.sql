@@ -0,0 +1,216 @@
+-- Inventory reservations: hold stock per product while a pending order waits for payment.
+-- Run in Supabase SQL editor.
+-- Flow: createPendingOrder reserves -> verifyPaymentAndCreateOrder commits (real decrement)
+--       cancelPendingOrder / cleanupExpiredPendingOrders release.
+-- Available stock = products.quantity - active reservations. All checks run inside the functions
+-- below with the product rows locked, so two checkouts cannot both take the last unit.
+
+-- 1) Per-product oversell policy
+--    block     = reject checkout when not enough stock is available (default)
+--    backorder = accept and record the shortfall as backordered on the reservation
+--    alert     = accept and notify admins that the product was oversold
+ALTER TABLE products ADD COLUMN IF NOT EXISTS oversell_policy TEXT NOT NULL DEFAULT 'block';
+
+ALTER TABLE products DROP CONSTRAINT IF EXISTS products_oversell_policy_check;
+ALTER TABLE products ADD CONSTRAINT products_oversell_policy_check
+  CHECK (oversell_policy IN ('block', 'backorder', 'alert'));
+
+-- 2) Reservations
+CREATE TABLE IF NOT EXISTS inventory_reservations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  pending_order_id UUID NOT NULL,
+  quantity INT NOT NULL CHECK (quantity > 0),
+  backordered_quantity INT NOT NULL DEFAULT 0 CHECK (backordered_quantity >= 0),
+  committed_quantity INT CHECK (committed_quantity >= 0),
+  oversell_policy TEXT NOT NULL DEFAULT 'block',
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'committed', 'released')),
+  release_reason TEXT,
+  expires_at TIMESTAMPTZ NOT NULL,
+  committed_at TIMESTAMPTZ,
+  released_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (pending_order_id, product_id)
+);
+
+ALTER TABLE inventory_reservations ADD COLUMN IF NOT EXISTS committed_quantity INT CHECK (committed_quantity >= 0);
+
+-- Units of an order line that were never taken from stock; a cancel only puts back the rest
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS backordered_quantity INT NOT NULL DEFAULT 0 CHECK (backordered_quantity >= 0);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_reservations_active_product
+  ON inventory_reservations(product_id) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_inventory_reservations_active_expiry
+  ON inventory_reservations(expires_at) WHERE status = 'active';
+
+ALTER TABLE inventory_reservations ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE inventory_reservations IS 'Stock held for pending orders. active counts against available stock; committed was decremented from products.quantity; released was given back.';
+COMMENT ON COLUMN inventory_reservations.backordered_quantity IS 'Part of quantity that exceeded available stock when reserved (backorder/alert policies).';
+COMMENT ON COLUMN inventory_reservations.committed_quantity IS 'Units actually taken from stock at commit; quantity minus this was backordered.';
+
+-- 3) Reserve all items of a pending order, or none.
+-- p_items: [{ "productId": uuid, "quantity": int }]
+-- Returns { ok: true, oversold: [...] } or { ok: false, shortages: [...] } (nothing reserved).
+CREATE OR REPLACE FUNCTION reserve_stock_for_pending_order(
+  p_pending_order_id UUID,
+  p_items JSONB,
+  p_ttl_minutes INT DEFAULT 30
+) RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  item RECORD;
+  prod RECORD;
+  reserved INT;
+  available INT;
+  shortages JSONB := '[]'::jsonb;
+  oversold JSONB := '[]'::jsonb;
+  lines JSONB := '[]'::jsonb;
+  line JSONB;
+BEGIN
+  -- Lock products in a stable order so concurrent checkouts cannot deadlock
+  FOR item IN
+    SELECT (e->>'productId')::uuid AS product_id, SUM((e->>'quantity')::int)::int AS quantity
+    FROM jsonb_array_elements(p_items) e
+    GROUP BY 1
+    ORDER BY 1
+  LOOP
+    SELECT id, name, quantity, in_stock, oversell_policy
+      INTO prod
+      FROM products
+      WHERE id = item.product_id
+      FOR UPDATE;
+
+    IF NOT FOUND THEN
+      shortages := shortages || jsonb_build_object('productId', item.product_id, 'name', NULL, 'requested', item.quantity, 'available', 0);
+      CONTINUE;
+    END IF;
+
+    SELECT COALESCE(SUM(r.quantity), 0) INTO reserved
+      FROM inventory_reservations r
+      WHERE r.product_id = prod.id AND r.status = 'active' AND r.expires_at > now();
+
+    available := CASE WHEN prod.in_stock IS FALSE THEN 0 ELSE GREATEST(COALESCE(prod.quantity, 0) - reserved, 0) END;
+
+    IF item.quantity > available THEN
+      IF prod.oversell_policy = 'block' THEN
+        shortages := shortages || jsonb_build_object('productId', prod.id, 'name', prod.name, 'requested', item.quantity, 'available', available);
+        CONTINUE;
+      END IF;
+      oversold := oversold || jsonb_build_object('productId', prod.id, 'name', prod.name, 'requested', item.quantity, 'available', available, 'policy', prod.oversell_policy);
+    END IF;
+
+    lines := lines || jsonb_build_object(
+      'productId', prod.id,
+      'quantity', item.quantity,
+      'backordered', GREATEST(item.quantity - available, 0),
+      'policy', prod.oversell_policy
+    );
+  END LOOP;
+
+  IF jsonb_array_length(shortages) > 0 THEN
+    RETURN jsonb_build_object('ok', false, 'shortages', shortages);
+  END IF;
+
+  FOR line IN SELECT * FROM jsonb_array_elements(lines)
+  LOOP
+    INSERT INTO inventory_reservations (product_id, pending_order_id, quantity, backordered_quantity, oversell_policy, expires_at)
+    VALUES (
+      (line->>'productId')::uuid,
+      p_pending_order_id,
+      (line->>'quantity')::int,
+      (line->>'backordered')::int,
+      line->>'policy',
+      now() + make_interval(mins => p_ttl_minutes)
+    )
+    ON CONFLICT (pending_order_id, product_id) DO UPDATE
+      SET quantity = EXCLUDED.quantity,
+          backordered_quantity = EXCLUDED.backordered_quantity,
+          oversell_policy = EXCLUDED.oversell_policy,
+          status = 'active',
+          expires_at = EXCLUDED.expires_at,
+          release_reason = NULL,
+          released_at = NULL,
+          updated_at = now();
+  END LOOP;
+
+  RETURN jsonb_build_object('ok', true, 'oversold', oversold);
+END;
+$$;
+
+-- 4) Turn a pending order's active reservations into real stock decrements. Returns rows committed.
+-- Only the units in stock are taken (stock never goes below 0); committed_quantity records them, and
+-- the rest stays backordered.
+CREATE OR REPLACE FUNCTION commit_stock_reservations(p_pending_order_id UUID)
+RETURNS INT
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  res RECORD;
+  v_on_hand INT;
+  v_taken INT;
+  v_count INT := 0;
+BEGIN
+  FOR res IN
+    SELECT id, product_id, quantity
+      FROM inventory_reservations
+     WHERE pending_order_id = p_pending_order_id AND status = 'active'
+     ORDER BY product_id
+       FOR UPDATE
+  LOOP
+    SELECT GREATEST(COALESCE(quantity, 0), 0) INTO v_on_hand FROM products WHERE id = res.product_id FOR UPDATE;
+    v_taken := LEAST(res.quantity, COALESCE(v_on_hand, 0));
+
+    UPDATE products SET quantity = COALESCE(quantity, 0) - v_taken WHERE id = res.product_id;
+    UPDATE inventory_reservations
+       SET status = 'committed', committed_quantity = v_taken, committed_at = now(), updated_at = now()
+     WHERE id = res.id;
+    v_count := v_count + 1;
+  END LOOP;
+  RETURN v_count;
+END;
+$$;
+
+-- 5) Release a pending order's active reservations. Returns rows released.
+CREATE OR REPLACE FUNCTION release_stock_reservations(p_pending_order_id UUID, p_reason TEXT DEFAULT NULL)
+RETURNS INT
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_count INT;
+BEGIN
+  UPDATE inventory_reservations
+     SET status = 'released', release_reason = p_reason, released_at = now(), updated_at = now()
+   WHERE pending_order_id = p_pending_order_id AND status = 'active';
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- 6) Release reservations whose hold has expired (called from cleanupExpiredPendingOrders).
+CREATE OR REPLACE FUNCTION release_expired_stock_reservations()
+RETURNS INT
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_count INT;
+BEGIN
+  UPDATE inventory_reservations
+     SET status = 'released', release_reason = 'expired', released_at = now(), updated_at = now()
+   WHERE status = 'active' AND expires_at <= now();
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- Backend (service role) only
+REVOKE EXECUTE ON FUNCTION reserve_stock_for_pending_order(UUID, JSONB, INT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION commit_stock_reservations(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_stock_reservations(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_expired_stock_reservations() FROM PUBLIC, anon, authenticated;
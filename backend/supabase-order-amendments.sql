@@ -0,0 +1,71 @@
+-- Order amendments: add/remove items on an order before it is dispatched.
+-- Run in Supabase SQL editor.
+-- Flow: amend -> price the new items like checkout -> settle the difference
+--       (payment link for extra, refund or store credit for less) -> replace order_items, regenerate invoice.
+
+-- 1) Keep what checkout priced with, so an amendment can recompute voucher discount and delivery fee
+ALTER TABLE pending_orders ADD COLUMN IF NOT EXISTS voucher_code TEXT;
+ALTER TABLE pending_orders ADD COLUMN IF NOT EXISTS delivery_lat DOUBLE PRECISION;
+ALTER TABLE pending_orders ADD COLUMN IF NOT EXISTS delivery_lng DOUBLE PRECISION;
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS voucher_code TEXT;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS delivery_lat DOUBLE PRECISION;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS delivery_lng DOUBLE PRECISION;
+
+COMMENT ON COLUMN orders.voucher_code IS 'Voucher applied at checkout; re-applied (without usage checks) when the order is amended.';
+
+-- 2) Amendments
+CREATE TABLE IF NOT EXISTS order_amendments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  requested_by_type TEXT NOT NULL CHECK (requested_by_type IN ('customer', 'admin')),
+  requested_by TEXT,
+  reason TEXT,
+  previous_items JSONB NOT NULL,
+  new_items JSONB NOT NULL,
+  previous_subtotal NUMERIC(12,2) NOT NULL,
+  previous_discount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  previous_delivery_fee NUMERIC(12,2) NOT NULL DEFAULT 0,
+  previous_total NUMERIC(12,2) NOT NULL,
+  new_subtotal NUMERIC(12,2) NOT NULL,
+  new_discount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  new_delivery_fee NUMERIC(12,2) NOT NULL DEFAULT 0,
+  new_total NUMERIC(12,2) NOT NULL,
+  amount_delta NUMERIC(12,2) NOT NULL,
+  settlement TEXT NOT NULL CHECK (settlement IN ('none', 'payment_link', 'collect_on_delivery', 'refund', 'store_credit')),
+  status TEXT NOT NULL DEFAULT 'applied' CHECK (status IN ('awaiting_payment', 'applied', 'cancelled', 'failed')),
+  payment_reference TEXT UNIQUE,
+  payment_provider TEXT,
+  authorization_url TEXT,
+  refund_id UUID REFERENCES refunds(id) ON DELETE SET NULL,
+  store_credit_amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  settlement_error TEXT,
+  expires_at TIMESTAMPTZ,
+  applied_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_amendments_order ON order_amendments(order_id, created_at DESC);
+
+-- At most one amendment per order may wait for payment
+CREATE UNIQUE INDEX IF NOT EXISTS idx_order_amendments_one_awaiting
+  ON order_amendments(order_id) WHERE status = 'awaiting_payment';
+
+-- Backend-only table (service role); no client access.
+ALTER TABLE order_amendments ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE order_amendments IS 'Item changes to an order before dispatch. amount_delta = new_total - previous_total; positive deltas on paid orders wait for a payment link, negative ones are refunded or kept as store credit.';
+COMMENT ON COLUMN order_amendments.store_credit_amount IS 'Amount owed to the customer as store credit instead of a refund.';
+
+-- 3) Payment link transactions carry the order they top up, but are not its checkout payment.
+--    amendment_id tells them apart, so refunding a link never moves the whole order to refunded.
+ALTER TABLE payment_transactions ADD COLUMN IF NOT EXISTS amendment_id UUID REFERENCES order_amendments(id) ON DELETE SET NULL;
+
+UPDATE payment_transactions t
+   SET amendment_id = a.id
+  FROM order_amendments a
+ WHERE a.payment_reference = t.provider_reference
+   AND t.amendment_id IS NULL;
+
+COMMENT ON COLUMN payment_transactions.amendment_id IS 'Order amendment this payment link paid for; null for the order''s checkout payment.';
@@ -0,0 +1,73 @@
+-- Order risk scoring: rules-based score for paid online orders, a review queue for high-risk orders and
+-- a record of every rule that fired.
+-- Run in Supabase SQL editor (after supabase-orders-status-transitions.sql).
+-- Scoring runs in OrderService.verifyPaymentAndCreateOrder; see docs/ORDER_RISK.md.
+
+-- 1) Settings (single row, like delivery_settings)
+--    hold_score               = orders scoring at least this are held for review (0-100)
+--    velocity_*               = more than velocity_max_orders orders in velocity_window_hours is suspicious
+--    first_order_max_amount   = a first order above this (GHS) is suspicious
+--    max_distance_km          = deliveries further than this from the warehouse are suspicious
+--    voucher_reuse_days       = look-back for the same voucher used by another account with the same phone
+CREATE TABLE IF NOT EXISTS order_risk_settings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  enabled boolean NOT NULL DEFAULT true,
+  hold_score integer NOT NULL DEFAULT 50 CHECK (hold_score BETWEEN 1 AND 100),
+  velocity_window_hours integer NOT NULL DEFAULT 24 CHECK (velocity_window_hours BETWEEN 1 AND 168),
+  velocity_max_orders integer NOT NULL DEFAULT 3 CHECK (velocity_max_orders >= 1),
+  first_order_max_amount numeric(10, 2) NOT NULL DEFAULT 500 CHECK (first_order_max_amount >= 0),
+  max_distance_km numeric(6, 2) NOT NULL DEFAULT 30 CHECK (max_distance_km > 0),
+  voucher_reuse_days integer NOT NULL DEFAULT 30 CHECK (voucher_reuse_days BETWEEN 1 AND 365),
+  updated_at timestamptz DEFAULT now(),
+  updated_by uuid
+);
+
+INSERT INTO order_risk_settings (id)
+VALUES ('d0000000-0000-0000-0000-000000000001'::uuid)
+ON CONFLICT (id) DO NOTHING;
+
+COMMENT ON TABLE order_risk_settings IS 'Thresholds for the order risk rules and the score at which orders are held; single row.';
+
+-- 2) Risk on the order
+--    risk_review_status = NULL when the order was not held; pending while it waits in the review queue
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS risk_score smallint;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS risk_review_status text
+  CHECK (risk_review_status IS NULL OR risk_review_status IN ('pending', 'approved', 'rejected'));
+
+CREATE INDEX IF NOT EXISTS idx_orders_risk_review_pending ON orders (created_at) WHERE risk_review_status = 'pending';
+
+-- 3) One assessment per scored order, with the review decision for held orders
+CREATE TABLE IF NOT EXISTS order_risk_assessments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL UNIQUE REFERENCES orders(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  score smallint NOT NULL CHECK (score BETWEEN 0 AND 100),
+  hold_score smallint NOT NULL,
+  held boolean NOT NULL DEFAULT false,
+  reviewed_by uuid,
+  reviewed_at timestamptz,
+  review_note text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- 4) Every rule that fired, including on orders that were not held
+CREATE TABLE IF NOT EXISTS order_risk_rule_hits (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  assessment_id uuid NOT NULL REFERENCES order_risk_assessments(id) ON DELETE CASCADE,
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  rule text NOT NULL,
+  points smallint NOT NULL,
+  detail text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_risk_rule_hits_order ON order_risk_rule_hits (order_id);
+CREATE INDEX IF NOT EXISTS idx_order_risk_rule_hits_rule ON order_risk_rule_hits (rule, created_at);
+
+-- Velocity and voucher lookups
+CREATE INDEX IF NOT EXISTS idx_orders_user_created ON orders (user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_orders_voucher_code_created ON orders (voucher_code, created_at) WHERE voucher_code IS NOT NULL;
+
+ALTER TABLE order_risk_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE order_risk_assessments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE order_risk_rule_hits ENABLE ROW LEVEL SECURITY;
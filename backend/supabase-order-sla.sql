@@ -0,0 +1,51 @@
+-- Order SLA monitor: how long an order may stay in each status, and the orders that went over.
+-- Run in Supabase SQL editor (after supabase-order-tracking.sql and supabase-cron-locks.sql).
+-- The check (POST /api/orders/sla/check, cron) measures time in the current status from the latest
+-- order_status_history entry for that status, flags orders over their threshold, escalates those over
+-- twice the threshold and emails a digest of new breaches to ADMIN_ALERT_EMAIL.
+
+-- 1) Threshold per status (minutes). Statuses without a row, or disabled, are not monitored.
+CREATE TABLE IF NOT EXISTS order_sla_thresholds (
+  status text PRIMARY KEY CHECK (status IN ('pending', 'confirmed', 'processing', 'shipped')),
+  threshold_minutes integer NOT NULL CHECK (threshold_minutes > 0),
+  enabled boolean NOT NULL DEFAULT true,
+  updated_at timestamptz DEFAULT now(),
+  updated_by uuid
+);
+
+INSERT INTO order_sla_thresholds (status, threshold_minutes) VALUES
+  ('pending', 120),
+  ('confirmed', 120),
+  ('processing', 360),
+  ('shipped', 240)
+ON CONFLICT (status) DO NOTHING;
+
+COMMENT ON TABLE order_sla_thresholds IS 'Longest an order should stay in each status before it is flagged as needing attention.';
+
+-- 2) Breaches: one row per stay in a status that went over its threshold
+--    escalation_level = 1 over the threshold, 2 over twice the threshold
+--    notified_level   = highest level already sent in a digest
+--    resolved_at      = set when the order leaves the status (or the status stops being monitored)
+CREATE TABLE IF NOT EXISTS order_sla_breaches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  status text NOT NULL,
+  status_since timestamptz NOT NULL,
+  threshold_minutes integer NOT NULL,
+  escalation_level smallint NOT NULL DEFAULT 1 CHECK (escalation_level IN (1, 2)),
+  notified_level smallint NOT NULL DEFAULT 0,
+  breached_at timestamptz NOT NULL DEFAULT now(),
+  escalated_at timestamptz,
+  resolved_at timestamptz,
+  UNIQUE (order_id, status, status_since)
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_sla_breaches_open ON order_sla_breaches (status_since) WHERE resolved_at IS NULL;
+
+COMMENT ON TABLE order_sla_breaches IS 'Orders that stayed in a status longer than its SLA threshold; open while resolved_at is null.';
+
+-- 3) Time in status is read from the latest history entry per order
+CREATE INDEX IF NOT EXISTS idx_order_status_history_order_created ON order_status_history (order_id, created_at DESC);
+
+ALTER TABLE order_sla_thresholds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE order_sla_breaches ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,25 @@
+-- Order tracking: public tracking links and the timestamps the tracking timeline needs.
+-- Run in Supabase SQL editor.
+-- The timeline itself is built from orders, order_status_history, order_amendments and refunds
+-- (see src/services/order-tracking.service.ts); nothing here is exposed to clients directly.
+
+-- 1) Unguessable token for the public tracking page (/track/<token>); 64 hex chars from two UUIDv4s
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS tracking_token TEXT;
+
+UPDATE orders
+   SET tracking_token = replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '')
+ WHERE tracking_token IS NULL;
+
+ALTER TABLE orders ALTER COLUMN tracking_token SET DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+ALTER TABLE orders ALTER COLUMN tracking_token SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_orders_tracking_token ON orders(tracking_token);
+
+COMMENT ON COLUMN orders.tracking_token IS 'Secret for the public tracking link. Anyone with the link sees the order timeline, so never log or expose it outside the customer''s own views.';
+
+-- 2) When the invoice was (last) generated
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS invoice_generated_at TIMESTAMPTZ;
+
+UPDATE orders
+   SET invoice_generated_at = created_at
+ WHERE invoice_generated_at IS NULL AND invoice_pdf_url IS NOT NULL;
@@ -0,0 +1,19 @@
+-- Order status state machine: allow confirmed and refunded alongside the existing statuses.
+-- Backend (config/order-status.ts) enforces legal transitions; this only constrains the stored values.
+-- Run in Supabase SQL editor.
+
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_status_check;
+
+ALTER TABLE orders ADD CONSTRAINT orders_status_check
+  CHECK (status IN (
+    'pending',
+    'confirmed',
+    'processing',
+    'shipped',
+    'delivered',
+    'cancelled',
+    'refunded',
+    'failed'
+  ));
+
+COMMENT ON COLUMN orders.status IS 'pending -> confirmed -> processing -> shipped -> delivered; cancelled and refunded are terminal (cancelled may still be refunded).';
@@ -0,0 +1,13 @@
+-- Payment reconciliation: a terminal status for transactions that reconciliation reported to admins
+-- (wrong amount or currency, or paid after the checkout was given up), so later runs skip them.
+-- Run in Supabase SQL editor (after supabase-payment-reconciliation.sql).
+
+-- NOT VALID: existing rows are not re-checked, only new writes
+ALTER TABLE payment_transactions DROP CONSTRAINT IF EXISTS payment_transactions_status_check;
+ALTER TABLE payment_transactions ADD CONSTRAINT payment_transactions_status_check
+  CHECK (status IN ('pending', 'success', 'failed', 'cancelled', 'refunded', 'needs_review')) NOT VALID;
+
+CREATE INDEX IF NOT EXISTS idx_payment_transactions_needs_review ON payment_transactions (created_at DESC) WHERE status = 'needs_review';
+
+COMMENT ON CONSTRAINT payment_transactions_status_check ON payment_transactions IS
+  'needs_review: reconciliation recorded a payment_discrepancies row; an admin settles it by hand.';
@@ -0,0 +1,48 @@
+-- Payment reconciliation: compare stale pending payment_transactions with Paystack and record discrepancies.
+-- Run in Supabase SQL editor.
+-- The job runs from POST /api/orders/reconciliation/run (cron, CRON_SECRET) or from the admin Transactions page.
+
+CREATE TABLE IF NOT EXISTS reconciliation_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  triggered_by TEXT NOT NULL DEFAULT 'cron',
+  checked INT NOT NULL DEFAULT 0,
+  finalized INT NOT NULL DEFAULT 0,
+  marked_failed INT NOT NULL DEFAULT 0,
+  discrepancies INT NOT NULL DEFAULT 0,
+  error TEXT,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  finished_at TIMESTAMPTZ
+);
+
+CREATE TABLE IF NOT EXISTS payment_discrepancies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID REFERENCES reconciliation_runs(id) ON DELETE SET NULL,
+  type TEXT NOT NULL CHECK (type IN ('amount_mismatch', 'currency_mismatch', 'orphaned_charge', 'finalize_failed')),
+  provider TEXT NOT NULL DEFAULT 'paystack',
+  provider_reference TEXT NOT NULL,
+  payment_transaction_id UUID REFERENCES payment_transactions(id) ON DELETE SET NULL,
+  expected_amount NUMERIC(12,2),
+  provider_amount NUMERIC(12,2),
+  expected_currency TEXT,
+  provider_currency TEXT,
+  details TEXT,
+  provider_response JSONB,
+  resolved_at TIMESTAMPTZ,
+  resolved_by TEXT,
+  resolution_note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- One open discrepancy per reference and type; later runs do not duplicate it
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_discrepancies_open
+  ON payment_discrepancies(provider_reference, type) WHERE resolved_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_payment_discrepancies_created ON payment_discrepancies(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_reconciliation_runs_started ON reconciliation_runs(started_at DESC);
+
+-- Backend-only tables (service role); no client access.
+ALTER TABLE reconciliation_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_discrepancies ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE reconciliation_runs IS 'One row per reconciliation run with counts of transactions checked, finalized and marked failed.';
+COMMENT ON TABLE payment_discrepancies IS 'Money Paystack holds that our records do not match: wrong amount/currency, charges with no checkout, or paid checkouts that could not be finalized.';
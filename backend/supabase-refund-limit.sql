@@ -0,0 +1,55 @@
+-- Refund limit: reserve a refund against the transaction's refundable balance in one locked step, so two
+-- admins refunding at the same time cannot refund more than was paid.
+-- Run in Supabase SQL editor (after supabase-refunds.sql). See docs/PAYSTACK_REFUNDS.md.
+
+-- Lock the transaction, check the amount against what pending, processing and processed refunds have
+-- already taken, and record the refund as pending before the provider is called.
+-- p_amount NULL refunds the whole remaining balance.
+-- Returns { ok: true, refundId, amount } or { ok: false, error, remaining }.
+CREATE OR REPLACE FUNCTION reserve_refund(
+  p_payment_transaction_id UUID,
+  p_amount NUMERIC,
+  p_reason TEXT,
+  p_requested_by TEXT
+) RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_tx payment_transactions%ROWTYPE;
+  v_committed NUMERIC;
+  v_remaining NUMERIC;
+  v_amount NUMERIC;
+  v_refund_id UUID;
+BEGIN
+  SELECT * INTO v_tx FROM payment_transactions WHERE id = p_payment_transaction_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'not_found', 'remaining', 0);
+  END IF;
+  IF v_tx.status <> 'success' THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'not_refundable', 'remaining', 0);
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_committed
+    FROM refunds
+   WHERE payment_transaction_id = v_tx.id AND status <> 'failed';
+
+  v_remaining := round(v_tx.amount - v_committed, 2);
+  IF v_remaining <= 0 THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'fully_refunded', 'remaining', 0);
+  END IF;
+
+  v_amount := round(COALESCE(p_amount, v_remaining), 2);
+  IF v_amount <= 0 OR v_amount > v_remaining THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'invalid_amount', 'remaining', v_remaining);
+  END IF;
+
+  INSERT INTO refunds (payment_transaction_id, order_id, provider, transaction_reference, amount, currency, status, reason, requested_by)
+  VALUES (v_tx.id, v_tx.order_id, COALESCE(v_tx.provider, 'paystack'), v_tx.provider_reference, v_amount, COALESCE(v_tx.currency, 'GHS'), 'pending', p_reason, p_requested_by)
+  RETURNING id INTO v_refund_id;
+
+  RETURN jsonb_build_object('ok', true, 'refundId', v_refund_id, 'amount', v_amount);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION reserve_refund(UUID, NUMERIC, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,34 @@
+-- Refunds: admin-initiated (full or partial) refunds of successful payment_transactions.
+-- Run in Supabase SQL editor.
+-- Status is driven by Paystack refund.* webhooks; refunds made from the Paystack dashboard are recorded when their webhook arrives.
+
+CREATE TABLE IF NOT EXISTS refunds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_transaction_id UUID NOT NULL REFERENCES payment_transactions(id) ON DELETE CASCADE,
+  order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+  provider TEXT NOT NULL DEFAULT 'paystack',
+  provider_refund_id TEXT UNIQUE,
+  transaction_reference TEXT NOT NULL,
+  amount NUMERIC(12,2) NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL DEFAULT 'GHS',
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'processed', 'failed')),
+  reason TEXT,
+  requested_by TEXT,
+  provider_response JSONB,
+  processed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_refunds_payment_transaction ON refunds(payment_transaction_id);
+CREATE INDEX IF NOT EXISTS idx_refunds_transaction_reference ON refunds(transaction_reference);
+CREATE INDEX IF NOT EXISTS idx_refunds_order ON refunds(order_id);
+
+ALTER TABLE payment_transactions ADD COLUMN IF NOT EXISTS refunded_amount NUMERIC(12,2) NOT NULL DEFAULT 0;
+
+-- Backend-only table (service role); no client access.
+ALTER TABLE refunds ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE refunds IS 'Refunds per payment transaction. pending/processing count against the refundable balance; failed do not.';
+COMMENT ON COLUMN refunds.requested_by IS 'Admin id that requested the refund; NULL when issued from the Paystack dashboard.';
+COMMENT ON COLUMN payment_transactions.refunded_amount IS 'Sum of processed refunds; status becomes refunded once it reaches amount.';
@@ -0,0 +1,54 @@
+-- Riders: delivery accounts with their own login, order assignment and a log of delivery attempts.
+-- Run in Supabase SQL editor (after supabase-cash-on-delivery.sql).
+-- Riders sign in with POST /api/riders/login; see docs/RIDERS.md.
+
+-- 1) Rider accounts (not Supabase auth users; passwords are bcrypt hashes like admin_users)
+CREATE TABLE IF NOT EXISTS riders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  full_name text NOT NULL CHECK (char_length(full_name) BETWEEN 2 AND 100),
+  -- Login, e.g. 0241234567
+  phone text NOT NULL UNIQUE CHECK (phone ~ '^\+?[0-9]{9,15}$'),
+  email text UNIQUE,
+  password_hash text NOT NULL,
+  -- e.g. Motorbike GR-1234-21
+  vehicle text,
+  is_active boolean NOT NULL DEFAULT true,
+  last_login_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  created_by uuid
+);
+
+COMMENT ON TABLE riders IS 'Delivery riders. They sign in to see their assigned deliveries and confirm them.';
+
+-- 2) Assignment on the order
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS rider_id uuid REFERENCES riders(id) ON DELETE SET NULL;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS rider_assigned_at timestamptz;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS rider_assigned_by uuid;
+
+CREATE INDEX IF NOT EXISTS idx_orders_rider_status ON orders (rider_id, status) WHERE rider_id IS NOT NULL;
+
+COMMENT ON COLUMN orders.rider_id IS 'Rider delivering the order; only they (or an admin) can confirm the delivery.';
+
+-- 3) Every delivery attempt: confirmed deliveries and attempts where the customer could not be reached
+--    minutes_since_assigned = time from assignment to the attempt, for average delivery time
+CREATE TABLE IF NOT EXISTS delivery_attempts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  rider_id uuid REFERENCES riders(id) ON DELETE SET NULL,
+  outcome text NOT NULL CHECK (outcome IN ('delivered', 'failed')),
+  reason text,
+  minutes_since_assigned integer CHECK (minutes_since_assigned IS NULL OR minutes_since_assigned >= 0),
+  -- Admin who confirmed the delivery on the rider's behalf
+  confirmed_by_admin uuid,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_delivery_attempts_rider_created ON delivery_attempts (rider_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_delivery_attempts_order ON delivery_attempts (order_id);
+
+COMMENT ON TABLE delivery_attempts IS 'Delivery attempts per order and rider; the source of rider performance stats.';
+
+-- Backend-only tables (service role); no client access.
+ALTER TABLE riders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE delivery_attempts ENABLE ROW LEVEL SECURITY;
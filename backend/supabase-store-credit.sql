@@ -0,0 +1,354 @@
+-- Store credit wallet: per-user balance backed by a ledger.
+-- Run in Supabase SQL editor (after supabase-order-amendments.sql).
+-- Flow: createPendingOrder holds credits (reserve_store_credit) -> payment verified settles the hold
+--       into a spend (settle_store_credit) -> cancelled / failed / expired checkouts release the hold.
+-- Balance = sum of ledger amounts. Available = balance - active holds. Spends use the credit that
+-- expires first; expire_store_credit() writes off what is left of expired entries. Every function
+-- locks the user's wallet row, so two checkouts cannot spend the same credit.
+
+-- 1) Wallets (one row per user; balance mirrors the ledger)
+CREATE TABLE IF NOT EXISTS store_credit_wallets (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  balance NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (balance >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- 2) Ledger
+--    grant      = credit given by an admin or a promotion
+--    spend      = credit used at checkout
+--    refund     = money owed to the customer returned as credit (order changes, cancelled orders)
+--    expiry     = unused credit written off after expires_at
+--    adjustment = admin correction that removes credit
+CREATE TABLE IF NOT EXISTS store_credit_ledger (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('grant', 'spend', 'refund', 'expiry', 'adjustment')),
+  amount NUMERIC(12,2) NOT NULL CHECK (amount <> 0),
+  remaining NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (remaining >= 0),
+  balance_after NUMERIC(12,2) NOT NULL,
+  expires_at TIMESTAMPTZ,
+  order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+  pending_order_id UUID,
+  reason TEXT,
+  created_by TEXT,
+  source_key TEXT UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_store_credit_ledger_user ON store_credit_ledger(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_store_credit_ledger_open
+  ON store_credit_ledger(user_id, expires_at) WHERE remaining > 0;
+
+COMMENT ON TABLE store_credit_ledger IS 'Every change to a store credit balance. Positive entries carry remaining (not yet spent or expired); negative entries use up remaining from the entries that expire first.';
+COMMENT ON COLUMN store_credit_ledger.source_key IS 'Idempotency key, e.g. checkout:<pending_order_id>, amendment:<id>, order-return:<order_id>.';
+COMMENT ON COLUMN store_credit_ledger.created_by IS 'Admin id for grants and adjustments; null for system entries.';
+
+-- 3) Holds for checkouts waiting for payment
+CREATE TABLE IF NOT EXISTS store_credit_holds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  pending_order_id UUID NOT NULL UNIQUE,
+  amount NUMERIC(12,2) NOT NULL CHECK (amount > 0),
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'settled', 'released')),
+  settled_amount NUMERIC(12,2),
+  order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+  release_reason TEXT,
+  expires_at TIMESTAMPTZ NOT NULL,
+  settled_at TIMESTAMPTZ,
+  released_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_store_credit_holds_active_user
+  ON store_credit_holds(user_id) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_store_credit_holds_active_expiry
+  ON store_credit_holds(expires_at) WHERE status = 'active';
+
+COMMENT ON COLUMN store_credit_holds.settled_amount IS 'Credit actually spent; less than amount when the hold had expired and the balance was used elsewhere.';
+
+-- Backend-only tables (service role); no client access.
+ALTER TABLE store_credit_wallets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE store_credit_ledger ENABLE ROW LEVEL SECURITY;
+ALTER TABLE store_credit_holds ENABLE ROW LEVEL SECURITY;
+
+-- 4) Internal helpers
+-- Lock (creating if needed) a user's wallet and return its balance.
+CREATE OR REPLACE FUNCTION store_credit_lock_wallet(p_user_id UUID)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_balance NUMERIC;
+BEGIN
+  INSERT INTO store_credit_wallets (user_id) VALUES (p_user_id) ON CONFLICT (user_id) DO NOTHING;
+  SELECT balance INTO v_balance FROM store_credit_wallets WHERE user_id = p_user_id FOR UPDATE;
+  RETURN v_balance;
+END;
+$$;
+
+-- Credit held by active, unexpired holds (optionally ignoring one checkout).
+CREATE OR REPLACE FUNCTION store_credit_held(p_user_id UUID, p_exclude_pending_order_id UUID DEFAULT NULL)
+RETURNS NUMERIC
+LANGUAGE sql
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(amount), 0)
+    FROM store_credit_holds
+   WHERE user_id = p_user_id
+     AND status = 'active'
+     AND expires_at > now()
+     AND pending_order_id IS DISTINCT FROM p_exclude_pending_order_id;
+$$;
+
+-- Use up p_amount of remaining credit, earliest expiry first. Caller holds the wallet lock.
+CREATE OR REPLACE FUNCTION store_credit_consume(p_user_id UUID, p_amount NUMERIC)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  entry RECORD;
+  v_left NUMERIC := p_amount;
+  v_take NUMERIC;
+BEGIN
+  FOR entry IN
+    SELECT id, remaining
+      FROM store_credit_ledger
+     WHERE user_id = p_user_id AND remaining > 0
+     ORDER BY expires_at ASC NULLS LAST, created_at ASC
+     FOR UPDATE
+  LOOP
+    EXIT WHEN v_left <= 0;
+    v_take := LEAST(entry.remaining, v_left);
+    UPDATE store_credit_ledger SET remaining = remaining - v_take WHERE id = entry.id;
+    v_left := v_left - v_take;
+  END LOOP;
+END;
+$$;
+
+-- 5) Add or remove credit.
+-- Returns { ok: true, entryId, balance } or { ok: false, error, available }. A repeated p_source_key
+-- returns the existing entry with duplicate: true.
+CREATE OR REPLACE FUNCTION add_store_credit(
+  p_user_id UUID,
+  p_entry_type TEXT,
+  p_amount NUMERIC,
+  p_reason TEXT DEFAULT NULL,
+  p_source_key TEXT DEFAULT NULL,
+  p_expires_at TIMESTAMPTZ DEFAULT NULL,
+  p_order_id UUID DEFAULT NULL,
+  p_created_by TEXT DEFAULT NULL
+) RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_amount NUMERIC := round(p_amount, 2);
+  v_balance NUMERIC;
+  v_available NUMERIC;
+  v_existing RECORD;
+  v_entry_id UUID;
+BEGIN
+  IF v_amount = 0 THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'amount_zero');
+  END IF;
+
+  v_balance := store_credit_lock_wallet(p_user_id);
+
+  IF p_source_key IS NOT NULL THEN
+    SELECT id INTO v_existing FROM store_credit_ledger WHERE source_key = p_source_key;
+    IF FOUND THEN
+      RETURN jsonb_build_object('ok', true, 'duplicate', true, 'entryId', v_existing.id, 'balance', v_balance);
+    END IF;
+  END IF;
+
+  IF v_amount < 0 THEN
+    v_available := v_balance - store_credit_held(p_user_id);
+    IF -v_amount > v_available THEN
+      RETURN jsonb_build_object('ok', false, 'error', 'insufficient_credit', 'available', GREATEST(v_available, 0));
+    END IF;
+    PERFORM store_credit_consume(p_user_id, -v_amount);
+  END IF;
+
+  v_balance := v_balance + v_amount;
+
+  INSERT INTO store_credit_ledger (user_id, entry_type, amount, remaining, balance_after, expires_at, order_id, reason, created_by, source_key)
+  VALUES (p_user_id, p_entry_type, v_amount, GREATEST(v_amount, 0), v_balance,
+          CASE WHEN v_amount > 0 THEN p_expires_at END, p_order_id, p_reason, p_created_by, p_source_key)
+  RETURNING id INTO v_entry_id;
+
+  UPDATE store_credit_wallets SET balance = v_balance, updated_at = now() WHERE user_id = p_user_id;
+
+  RETURN jsonb_build_object('ok', true, 'entryId', v_entry_id, 'balance', v_balance);
+END;
+$$;
+
+-- 6) Hold credit for a checkout. Returns { ok: true } or { ok: false, available }.
+CREATE OR REPLACE FUNCTION reserve_store_credit(
+  p_user_id UUID,
+  p_pending_order_id UUID,
+  p_amount NUMERIC,
+  p_ttl_minutes INT DEFAULT 30
+) RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_amount NUMERIC := round(p_amount, 2);
+  v_available NUMERIC;
+BEGIN
+  v_available := store_credit_lock_wallet(p_user_id) - store_credit_held(p_user_id, p_pending_order_id);
+
+  IF v_amount > v_available THEN
+    RETURN jsonb_build_object('ok', false, 'available', GREATEST(v_available, 0));
+  END IF;
+
+  INSERT INTO store_credit_holds (user_id, pending_order_id, amount, expires_at)
+  VALUES (p_user_id, p_pending_order_id, v_amount, now() + make_interval(mins => p_ttl_minutes))
+  ON CONFLICT (pending_order_id) DO UPDATE
+    SET amount = EXCLUDED.amount,
+        status = 'active',
+        expires_at = EXCLUDED.expires_at,
+        release_reason = NULL,
+        released_at = NULL,
+        updated_at = now();
+
+  RETURN jsonb_build_object('ok', true, 'available', v_available - v_amount);
+END;
+$$;
+
+-- 7) Turn a checkout's hold into a spend. Safe to call more than once.
+-- A hold that expired or was released is still settled from whatever credit is free, so a late payment
+-- spends what it can; shortfall is the part that could not be covered.
+CREATE OR REPLACE FUNCTION settle_store_credit(p_pending_order_id UUID, p_order_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_hold RECORD;
+  v_balance NUMERIC;
+  v_spend NUMERIC;
+BEGIN
+  SELECT * INTO v_hold FROM store_credit_holds WHERE pending_order_id = p_pending_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('settled', 0, 'shortfall', 0);
+  END IF;
+  IF v_hold.status = 'settled' THEN
+    RETURN jsonb_build_object('settled', COALESCE(v_hold.settled_amount, 0), 'shortfall', v_hold.amount - COALESCE(v_hold.settled_amount, 0));
+  END IF;
+
+  v_balance := store_credit_lock_wallet(v_hold.user_id);
+  v_spend := LEAST(v_hold.amount, GREATEST(v_balance - store_credit_held(v_hold.user_id, p_pending_order_id), 0));
+
+  IF v_spend > 0 THEN
+    PERFORM store_credit_consume(v_hold.user_id, v_spend);
+    v_balance := v_balance - v_spend;
+    INSERT INTO store_credit_ledger (user_id, entry_type, amount, balance_after, order_id, pending_order_id, reason, source_key)
+    VALUES (v_hold.user_id, 'spend', -v_spend, v_balance, p_order_id, p_pending_order_id, 'Used at checkout', 'checkout:' || p_pending_order_id);
+    UPDATE store_credit_wallets SET balance = v_balance, updated_at = now() WHERE user_id = v_hold.user_id;
+  END IF;
+
+  UPDATE store_credit_holds
+     SET status = 'settled', settled_amount = v_spend, order_id = p_order_id, settled_at = now(), updated_at = now()
+   WHERE id = v_hold.id;
+
+  RETURN jsonb_build_object('settled', v_spend, 'shortfall', v_hold.amount - v_spend);
+END;
+$$;
+
+-- 8) Give a checkout's held credit back. Safe to call more than once.
+CREATE OR REPLACE FUNCTION release_store_credit(p_pending_order_id UUID, p_reason TEXT)
+RETURNS INT
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_count INT;
+BEGIN
+  UPDATE store_credit_holds
+     SET status = 'released', release_reason = p_reason, released_at = now(), updated_at = now()
+   WHERE pending_order_id = p_pending_order_id AND status = 'active';
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- 9) Cleanup: release expired holds, then write off expired credit that no active hold still needs.
+CREATE OR REPLACE FUNCTION release_expired_store_credit_holds()
+RETURNS INT
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_count INT;
+BEGIN
+  UPDATE store_credit_holds
+     SET status = 'released', release_reason = 'expired', released_at = now(), updated_at = now()
+   WHERE status = 'active' AND expires_at <= now();
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION expire_store_credit()
+RETURNS INT
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_user UUID;
+  v_balance NUMERIC;
+  v_free NUMERIC;
+  v_take NUMERIC;
+  entry RECORD;
+  v_count INT := 0;
+BEGIN
+  FOR v_user IN
+    SELECT DISTINCT user_id FROM store_credit_ledger WHERE remaining > 0 AND expires_at <= now()
+  LOOP
+    v_balance := store_credit_lock_wallet(v_user);
+    FOR entry IN
+      SELECT id, remaining
+        FROM store_credit_ledger
+       WHERE user_id = v_user AND remaining > 0 AND expires_at <= now()
+       ORDER BY expires_at ASC, created_at ASC
+       FOR UPDATE
+    LOOP
+      -- Credit held for a checkout stays until the hold settles or is released
+      v_free := v_balance - store_credit_held(v_user);
+      v_take := LEAST(entry.remaining, GREATEST(v_free, 0));
+      CONTINUE WHEN v_take <= 0;
+
+      v_balance := v_balance - v_take;
+      UPDATE store_credit_ledger SET remaining = remaining - v_take WHERE id = entry.id;
+      INSERT INTO store_credit_ledger (user_id, entry_type, amount, balance_after, reason)
+      VALUES (v_user, 'expiry', -v_take, v_balance, 'Credit expired');
+      v_count := v_count + 1;
+    END LOOP;
+    UPDATE store_credit_wallets SET balance = v_balance, updated_at = now() WHERE user_id = v_user;
+  END LOOP;
+  RETURN v_count;
+END;
+$$;
+
+-- Backend (service role) only
+REVOKE EXECUTE ON FUNCTION store_credit_lock_wallet(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION store_credit_held(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION store_credit_consume(UUID, NUMERIC) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION add_store_credit(UUID, TEXT, NUMERIC, TEXT, TEXT, TIMESTAMPTZ, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reserve_store_credit(UUID, UUID, NUMERIC, INT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION settle_store_credit(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_store_credit(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_expired_store_credit_holds() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION expire_store_credit() FROM PUBLIC, anon, authenticated;
+
+-- 10) Backfill: store credit promised by order amendments before the wallet existed
+SELECT add_store_credit(o.user_id, 'refund', a.store_credit_amount, 'Order ' || o.order_id || ' changed', 'amendment:' || a.id, NULL, o.id, NULL)
+  FROM order_amendments a
+  JOIN orders o ON o.id = a.order_id
+ WHERE a.status = 'applied' AND a.store_credit_amount > 0
+ ORDER BY a.applied_at;
@@ -0,0 +1,47 @@
+-- Ghana VAT and levies on orders: settings, per-category tax classes and the tax stored with each order.
+-- Run in Supabase SQL editor (after supabase-order-amendments.sql).
+-- Levies (NHIL, GETFund, COVID-19) are charged on the taxable value; VAT is charged on the taxable value,
+-- or on the value plus levies when levies_in_vat_base is on (the older compound scheme).
+-- Rates are percentages. Tax stays off until enabled is set.
+
+-- 1) Settings (single row, like delivery_settings)
+CREATE TABLE IF NOT EXISTS tax_settings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  enabled boolean NOT NULL DEFAULT false,
+  prices_include_tax boolean NOT NULL DEFAULT true,
+  vat_rate numeric(5, 2) NOT NULL DEFAULT 15 CHECK (vat_rate >= 0 AND vat_rate < 100),
+  nhil_rate numeric(5, 2) NOT NULL DEFAULT 2.5 CHECK (nhil_rate >= 0 AND nhil_rate < 100),
+  getfund_rate numeric(5, 2) NOT NULL DEFAULT 2.5 CHECK (getfund_rate >= 0 AND getfund_rate < 100),
+  covid_rate numeric(5, 2) NOT NULL DEFAULT 0 CHECK (covid_rate >= 0 AND covid_rate < 100),
+  levies_in_vat_base boolean NOT NULL DEFAULT false,
+  tax_delivery_fee boolean NOT NULL DEFAULT true,
+  vat_number text,
+  updated_at timestamptz DEFAULT now(),
+  updated_by uuid
+);
+
+INSERT INTO tax_settings (id)
+VALUES ('b0000000-0000-0000-0000-000000000001'::uuid)
+ON CONFLICT (id) DO NOTHING;
+
+COMMENT ON TABLE tax_settings IS 'VAT, NHIL, GETFund and COVID-19 levy rates applied at checkout; single row.';
+
+-- 2) Tax class per category (products are matched by category name)
+--    standard = VAT and levies apply
+--    exempt   = no VAT or levies (unprocessed staples)
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS tax_class text NOT NULL DEFAULT 'standard';
+ALTER TABLE categories DROP CONSTRAINT IF EXISTS categories_tax_class_check;
+ALTER TABLE categories ADD CONSTRAINT categories_tax_class_check CHECK (tax_class IN ('standard', 'exempt'));
+
+-- 3) Tax on checkouts, orders and order changes
+--    tax_amount    = total tax (included in or added to total_amount, per prices_include_tax at the time)
+--    tax_breakdown = { pricesIncludeTax, taxableAmount, exemptAmount, lines: [{ code, label, rate, amount }], totalTax, vatNumber }
+ALTER TABLE pending_orders ADD COLUMN IF NOT EXISTS tax_amount numeric(10, 2) NOT NULL DEFAULT 0;
+ALTER TABLE pending_orders ADD COLUMN IF NOT EXISTS tax_breakdown jsonb;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS tax_amount numeric(10, 2) NOT NULL DEFAULT 0;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS tax_breakdown jsonb;
+ALTER TABLE order_amendments ADD COLUMN IF NOT EXISTS new_tax_amount numeric(10, 2) NOT NULL DEFAULT 0;
+ALTER TABLE order_amendments ADD COLUMN IF NOT EXISTS new_tax_breakdown jsonb;
+
+-- Tax summary report reads orders by date
+CREATE INDEX IF NOT EXISTS idx_orders_created_at ON orders (created_at);
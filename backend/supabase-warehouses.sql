@@ -0,0 +1,400 @@
+-- Warehouses: several depots, each with its own location, service area, opening hours and stock.
+-- Run in Supabase SQL editor (after supabase-inventory-reservations.sql and supabase-delivery-slots.sql).
+-- Checkout picks the nearest warehouse that can fulfil the whole basket, or splits it across warehouses
+-- (WarehouseService.planFulfilment). See docs/WAREHOUSES.md.
+--
+-- products.quantity stays the total across warehouses, so storefront stock and every existing reader keep
+-- working: triggers below keep it equal to SUM(warehouse_stock.quantity). Writes that still go to
+-- products.quantity (product edits, batch stock updates, increment/decrement_product_stock) are applied to
+-- the primary warehouse.
+
+-- 1) Warehouses
+CREATE TABLE IF NOT EXISTS warehouses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Short code shown on pick lists and orders, e.g. ACC, KSI
+  code text NOT NULL UNIQUE CHECK (code ~ '^[A-Z0-9]{2,10}$'),
+  name text NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  address text,
+  lat double precision NOT NULL CHECK (lat BETWEEN -90 AND 90),
+  lng double precision NOT NULL CHECK (lng BETWEEN -180 AND 180),
+  -- Straight-line delivery radius; NULL serves every address
+  service_radius_km numeric(8, 2) CHECK (service_radius_km IS NULL OR service_radius_km > 0),
+  -- [{ "days": [1,2,3,4,5], "open": "08:00", "close": "20:00" }], Africa/Accra (UTC); empty = always open
+  opening_hours jsonb NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(opening_hours) = 'array'),
+  -- Receives stock written to products.quantity; exactly one once any warehouse exists
+  is_primary boolean NOT NULL DEFAULT false,
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  updated_by uuid
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_warehouses_one_primary ON warehouses (is_primary) WHERE is_primary;
+
+COMMENT ON TABLE warehouses IS 'Depots orders are fulfilled from. The primary warehouse receives stock written to products.quantity.';
+
+-- 2) Stock per warehouse
+CREATE TABLE IF NOT EXISTS warehouse_stock (
+  warehouse_id uuid NOT NULL REFERENCES warehouses(id) ON DELETE CASCADE,
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  quantity integer NOT NULL DEFAULT 0 CHECK (quantity >= 0),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  updated_by uuid,
+  PRIMARY KEY (warehouse_id, product_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_warehouse_stock_product ON warehouse_stock (product_id);
+
+COMMENT ON TABLE warehouse_stock IS 'On-hand units per warehouse. products.quantity is kept equal to the sum over warehouses.';
+
+ALTER TABLE warehouses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE warehouse_stock ENABLE ROW LEVEL SECURITY;
+
+-- 3) Keep products.quantity = SUM(warehouse_stock.quantity).
+-- app.stock_sync marks writes made by this trigger, app.stock_routing writes made by the routing triggers,
+-- so neither sends the change back to the other.
+CREATE OR REPLACE FUNCTION sync_product_quantity_from_warehouses()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_product_id uuid;
+BEGIN
+  IF current_setting('app.stock_routing', true) = 'on' THEN
+    RETURN NULL;
+  END IF;
+  IF TG_OP = 'DELETE' THEN
+    v_product_id := OLD.product_id;
+  ELSE
+    v_product_id := NEW.product_id;
+  END IF;
+
+  PERFORM set_config('app.stock_sync', 'on', true);
+  UPDATE products
+     SET quantity = (SELECT COALESCE(SUM(quantity), 0) FROM warehouse_stock WHERE product_id = v_product_id)
+   WHERE id = v_product_id;
+  PERFORM set_config('app.stock_sync', 'off', true);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_warehouse_stock_sync ON warehouse_stock;
+CREATE TRIGGER trg_warehouse_stock_sync
+  AFTER INSERT OR UPDATE OF quantity OR DELETE ON warehouse_stock
+  FOR EACH ROW EXECUTE FUNCTION sync_product_quantity_from_warehouses();
+
+-- 4) Direct changes to products.quantity land in the primary warehouse (by the difference, never below 0)
+CREATE OR REPLACE FUNCTION route_product_quantity_to_primary_warehouse()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_primary uuid;
+  v_delta integer;
+BEGIN
+  IF current_setting('app.stock_sync', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+  SELECT id INTO v_primary FROM warehouses WHERE is_primary LIMIT 1;
+  IF v_primary IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  v_delta := COALESCE(NEW.quantity, 0) - COALESCE(OLD.quantity, 0);
+  IF v_delta = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM set_config('app.stock_routing', 'on', true);
+  INSERT INTO warehouse_stock (warehouse_id, product_id, quantity)
+  VALUES (v_primary, NEW.id, GREATEST(v_delta, 0))
+  ON CONFLICT (warehouse_id, product_id) DO UPDATE
+    SET quantity = GREATEST(warehouse_stock.quantity + v_delta, 0), updated_at = now();
+  PERFORM set_config('app.stock_routing', 'off', true);
+
+  NEW.quantity := (SELECT COALESCE(SUM(quantity), 0) FROM warehouse_stock WHERE product_id = NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_products_quantity_route ON products;
+CREATE TRIGGER trg_products_quantity_route
+  BEFORE UPDATE OF quantity ON products
+  FOR EACH ROW EXECUTE FUNCTION route_product_quantity_to_primary_warehouse();
+
+-- New products start with their quantity in the primary warehouse
+CREATE OR REPLACE FUNCTION stock_new_product_in_primary_warehouse()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_primary uuid;
+BEGIN
+  SELECT id INTO v_primary FROM warehouses WHERE is_primary LIMIT 1;
+  IF v_primary IS NULL OR COALESCE(NEW.quantity, 0) <= 0 THEN
+    RETURN NULL;
+  END IF;
+  PERFORM set_config('app.stock_routing', 'on', true);
+  INSERT INTO warehouse_stock (warehouse_id, product_id, quantity)
+  VALUES (v_primary, NEW.id, NEW.quantity)
+  ON CONFLICT (warehouse_id, product_id) DO NOTHING;
+  PERFORM set_config('app.stock_routing', 'off', true);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_products_stock_primary ON products;
+CREATE TRIGGER trg_products_stock_primary
+  AFTER INSERT ON products
+  FOR EACH ROW EXECUTE FUNCTION stock_new_product_in_primary_warehouse();
+
+-- 5) Reservations remember the warehouse they hold stock in (NULL: any, as before warehouses)
+ALTER TABLE inventory_reservations ADD COLUMN IF NOT EXISTS warehouse_id uuid REFERENCES warehouses(id) ON DELETE SET NULL;
+
+-- A split basket can hold one product in two warehouses
+ALTER TABLE inventory_reservations DROP CONSTRAINT IF EXISTS inventory_reservations_pending_order_id_product_id_key;
+ALTER TABLE inventory_reservations DROP CONSTRAINT IF EXISTS inventory_reservations_pending_product_warehouse_key;
+ALTER TABLE inventory_reservations ADD CONSTRAINT inventory_reservations_pending_product_warehouse_key
+  UNIQUE NULLS NOT DISTINCT (pending_order_id, product_id, warehouse_id);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_reservations_active_warehouse
+  ON inventory_reservations(warehouse_id, product_id) WHERE status = 'active';
+
+-- 6) Reserve all items of a pending order, or none. Items may name a warehouse:
+-- p_items: [{ "productId": uuid, "quantity": int, "warehouseId": uuid | null }]
+-- With a warehouse, available = that warehouse's stock - its active reservations; without one, the
+-- product total - all active reservations (as before).
+CREATE OR REPLACE FUNCTION reserve_stock_for_pending_order(
+  p_pending_order_id UUID,
+  p_items JSONB,
+  p_ttl_minutes INT DEFAULT 30
+) RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  item RECORD;
+  prod RECORD;
+  on_hand INT;
+  reserved INT;
+  available INT;
+  shortages JSONB := '[]'::jsonb;
+  oversold JSONB := '[]'::jsonb;
+  lines JSONB := '[]'::jsonb;
+  line JSONB;
+BEGIN
+  -- Lock products (then warehouse stock rows) in a stable order so concurrent checkouts cannot deadlock
+  FOR item IN
+    SELECT (e->>'productId')::uuid AS product_id,
+           NULLIF(e->>'warehouseId', '')::uuid AS warehouse_id,
+           SUM((e->>'quantity')::int)::int AS quantity
+    FROM jsonb_array_elements(p_items) e
+    GROUP BY 1, 2
+    ORDER BY 1, 2 NULLS FIRST
+  LOOP
+    SELECT id, name, quantity, in_stock, oversell_policy
+      INTO prod
+      FROM products
+      WHERE id = item.product_id
+      FOR UPDATE;
+
+    IF NOT FOUND THEN
+      shortages := shortages || jsonb_build_object('productId', item.product_id, 'name', NULL, 'requested', item.quantity, 'available', 0);
+      CONTINUE;
+    END IF;
+
+    IF item.warehouse_id IS NULL THEN
+      on_hand := COALESCE(prod.quantity, 0);
+      SELECT COALESCE(SUM(r.quantity), 0) INTO reserved
+        FROM inventory_reservations r
+        WHERE r.product_id = prod.id AND r.status = 'active' AND r.expires_at > now();
+    ELSE
+      SELECT ws.quantity INTO on_hand
+        FROM warehouse_stock ws
+        WHERE ws.warehouse_id = item.warehouse_id AND ws.product_id = prod.id
+        FOR UPDATE;
+      on_hand := COALESCE(on_hand, 0);
+      SELECT COALESCE(SUM(r.quantity), 0) INTO reserved
+        FROM inventory_reservations r
+        WHERE r.product_id = prod.id AND r.warehouse_id = item.warehouse_id
+          AND r.status = 'active' AND r.expires_at > now();
+    END IF;
+
+    available := CASE WHEN prod.in_stock IS FALSE THEN 0 ELSE GREATEST(on_hand - reserved, 0) END;
+
+    IF item.quantity > available THEN
+      IF prod.oversell_policy = 'block' THEN
+        shortages := shortages || jsonb_build_object('productId', prod.id, 'name', prod.name, 'requested', item.quantity, 'available', available);
+        CONTINUE;
+      END IF;
+      oversold := oversold || jsonb_build_object('productId', prod.id, 'name', prod.name, 'requested', item.quantity, 'available', available, 'policy', prod.oversell_policy);
+    END IF;
+
+    lines := lines || jsonb_build_object(
+      'productId', prod.id,
+      'warehouseId', item.warehouse_id,
+      'quantity', item.quantity,
+      'backordered', GREATEST(item.quantity - available, 0),
+      'policy', prod.oversell_policy
+    );
+  END LOOP;
+
+  IF jsonb_array_length(shortages) > 0 THEN
+    RETURN jsonb_build_object('ok', false, 'shortages', shortages);
+  END IF;
+
+  FOR line IN SELECT * FROM jsonb_array_elements(lines)
+  LOOP
+    INSERT INTO inventory_reservations (product_id, warehouse_id, pending_order_id, quantity, backordered_quantity, oversell_policy, expires_at)
+    VALUES (
+      (line->>'productId')::uuid,
+      NULLIF(line->>'warehouseId', '')::uuid,
+      p_pending_order_id,
+      (line->>'quantity')::int,
+      (line->>'backordered')::int,
+      line->>'policy',
+      now() + make_interval(mins => p_ttl_minutes)
+    )
+    ON CONFLICT ON CONSTRAINT inventory_reservations_pending_product_warehouse_key DO UPDATE
+      SET quantity = EXCLUDED.quantity,
+          backordered_quantity = EXCLUDED.backordered_quantity,
+          oversell_policy = EXCLUDED.oversell_policy,
+          status = 'active',
+          expires_at = EXCLUDED.expires_at,
+          release_reason = NULL,
+          released_at = NULL,
+          updated_at = now();
+  END LOOP;
+
+  RETURN jsonb_build_object('ok', true, 'oversold', oversold);
+END;
+$$;
+
+-- 7) Commit: warehouse reservations decrement that warehouse (products.quantity follows by trigger);
+-- reservations without a warehouse decrement the product as before. Only the units in stock are taken;
+-- committed_quantity records them and the rest stays backordered. Returns reservations committed.
+CREATE OR REPLACE FUNCTION commit_stock_reservations(p_pending_order_id UUID)
+RETURNS INT
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  res RECORD;
+  v_on_hand INT;
+  v_taken INT;
+  v_count INT := 0;
+BEGIN
+  FOR res IN
+    SELECT id, product_id, warehouse_id, quantity
+      FROM inventory_reservations
+     WHERE pending_order_id = p_pending_order_id AND status = 'active'
+     ORDER BY product_id, warehouse_id NULLS FIRST
+       FOR UPDATE
+  LOOP
+    IF res.warehouse_id IS NULL THEN
+      SELECT GREATEST(COALESCE(quantity, 0), 0) INTO v_on_hand FROM products WHERE id = res.product_id FOR UPDATE;
+      v_taken := LEAST(res.quantity, COALESCE(v_on_hand, 0));
+      UPDATE products SET quantity = COALESCE(quantity, 0) - v_taken WHERE id = res.product_id;
+    ELSE
+      SELECT GREATEST(quantity, 0) INTO v_on_hand
+        FROM warehouse_stock
+       WHERE warehouse_id = res.warehouse_id AND product_id = res.product_id
+         FOR UPDATE;
+      v_taken := LEAST(res.quantity, COALESCE(v_on_hand, 0));
+      UPDATE warehouse_stock
+         SET quantity = quantity - v_taken, updated_at = now()
+       WHERE warehouse_id = res.warehouse_id AND product_id = res.product_id;
+    END IF;
+
+    UPDATE inventory_reservations
+       SET status = 'committed', committed_quantity = v_taken, committed_at = now(), updated_at = now()
+     WHERE id = res.id;
+    v_count := v_count + 1;
+  END LOOP;
+  RETURN v_count;
+END;
+$$;
+
+-- 8) Add (or with a negative delta, remove) units in one warehouse, never below 0. Returns the new quantity.
+-- Used for cancelled orders, amendments and payments that arrive after the reservation was released.
+CREATE OR REPLACE FUNCTION adjust_warehouse_stock(p_warehouse_id UUID, p_product_id UUID, p_delta INT)
+RETURNS INT
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_quantity INT;
+BEGIN
+  INSERT INTO warehouse_stock (warehouse_id, product_id, quantity)
+  VALUES (p_warehouse_id, p_product_id, GREATEST(p_delta, 0))
+  ON CONFLICT (warehouse_id, product_id) DO UPDATE
+    SET quantity = GREATEST(warehouse_stock.quantity + p_delta, 0), updated_at = now()
+  RETURNING quantity INTO v_quantity;
+  RETURN v_quantity;
+END;
+$$;
+
+-- 9) Move every product's current quantity into a warehouse (first warehouse set up). Products that already
+-- have stock rows are left alone. Returns rows created.
+CREATE OR REPLACE FUNCTION seed_warehouse_stock(p_warehouse_id UUID)
+RETURNS INT
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_count INT;
+BEGIN
+  PERFORM set_config('app.stock_routing', 'on', true);
+  INSERT INTO warehouse_stock (warehouse_id, product_id, quantity)
+  SELECT p_warehouse_id, p.id, GREATEST(COALESCE(p.quantity, 0), 0)
+    FROM products p
+   WHERE NOT EXISTS (SELECT 1 FROM warehouse_stock ws WHERE ws.product_id = p.id)
+  ON CONFLICT (warehouse_id, product_id) DO NOTHING;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  PERFORM set_config('app.stock_routing', 'off', true);
+  RETURN v_count;
+END;
+$$;
+
+-- Backend (service role) only
+REVOKE EXECUTE ON FUNCTION reserve_stock_for_pending_order(UUID, JSONB, INT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION commit_stock_reservations(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION adjust_warehouse_stock(UUID, UUID, INT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION seed_warehouse_stock(UUID) FROM PUBLIC, anon, authenticated;
+
+-- 10) Where checkouts and orders are fulfilled from.
+-- warehouse_id: the warehouse the delivery fee was priced from (the nearest one shipping part of the order).
+-- fulfilment_plan: { "warehouseId": uuid, "split": bool, "parts": [{ "warehouseId", "warehouseCode", "warehouseName",
+--   "items": [{ "productId", "quantity" }] }] }
+ALTER TABLE pending_orders ADD COLUMN IF NOT EXISTS warehouse_id uuid REFERENCES warehouses(id) ON DELETE SET NULL;
+ALTER TABLE pending_orders ADD COLUMN IF NOT EXISTS fulfilment_plan jsonb;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS warehouse_id uuid REFERENCES warehouses(id) ON DELETE SET NULL;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS fulfilment_plan jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_orders_warehouse_status ON orders (warehouse_id, status);
+
+-- 11) The warehouse from Delivery Settings becomes the primary warehouse, holding all current stock
+DO $$
+DECLARE
+  v_settings RECORD;
+  v_warehouse_id uuid;
+BEGIN
+  IF EXISTS (SELECT 1 FROM warehouses) THEN
+    RETURN;
+  END IF;
+  SELECT warehouse_lat, warehouse_lng, warehouse_address INTO v_settings
+    FROM delivery_settings
+   WHERE id = 'a0000000-0000-0000-0000-000000000001';
+  IF v_settings.warehouse_lat IS NULL OR v_settings.warehouse_lng IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO warehouses (code, name, address, lat, lng, is_primary)
+  VALUES ('MAIN', 'Main warehouse', v_settings.warehouse_address, v_settings.warehouse_lat, v_settings.warehouse_lng, true)
+  RETURNING id INTO v_warehouse_id;
+  PERFORM seed_warehouse_stock(v_warehouse_id);
+END;
+$$;
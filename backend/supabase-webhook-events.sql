@@ -0,0 +1,36 @@
+-- Webhook event log: every signed Paystack webhook is stored before it is processed.
+-- Run in Supabase SQL editor.
+-- Duplicate deliveries (same provider + event_id) are recorded once; failed events are retried
+-- with exponential backoff by POST /api/orders/webhook/paystack/retry (cron, CRON_SECRET).
+
+CREATE TABLE IF NOT EXISTS webhook_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider TEXT NOT NULL DEFAULT 'paystack',
+  event_id TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  payload_hash TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'received' CHECK (status IN ('received', 'processing', 'processed', 'failed', 'dead')),
+  attempts INT NOT NULL DEFAULT 0,
+  duplicate_count INT NOT NULL DEFAULT 0,
+  last_error TEXT,
+  result_message TEXT,
+  next_retry_at TIMESTAMPTZ,
+  locked_until TIMESTAMPTZ,
+  processed_at TIMESTAMPTZ,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (provider, event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_events_retry
+  ON webhook_events(next_retry_at) WHERE status = 'failed';
+CREATE INDEX IF NOT EXISTS idx_webhook_events_received ON webhook_events(received_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_events_type ON webhook_events(event_type);
+
+-- Backend-only table (service role); no client access.
+ALTER TABLE webhook_events ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE webhook_events IS 'Signed provider webhooks. event_id is derived from event type + provider object id; payload_hash is sha256 of the raw body.';
+COMMENT ON COLUMN webhook_events.status IS 'received -> processing -> processed | failed (retried at next_retry_at) | dead (retries exhausted; replay manually).';
+COMMENT ON COLUMN webhook_events.duplicate_count IS 'Number of repeat deliveries of the same event that were not processed again.';
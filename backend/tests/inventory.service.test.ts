@@ -0,0 +1,128 @@
+import { test, beforeEach } from 'node:test'
+import assert from 'node:assert/strict'
+import { useMemorySupabase, type MemorySupabase } from './support/memory-supabase'
+import { InventoryService, assignBackordered } from '../src/services/inventory.service'
+import { OrderService } from '../src/services/order.service'
+import { PaymentWebhookService } from '../src/services/payment-webhook.service'
+
+/** Mirrors commit_stock_reservations in supabase-inventory-reservations.sql. */
+function commitReservations(args: Record<string, unknown>, db: MemorySupabase): number {
+  const reservations = db.rows('inventory_reservations', { pending_order_id: args.p_pending_order_id, status: 'active' })
+  for (const reservation of reservations) {
+    const [product] = db.rows('products', { id: reservation.product_id })
+    const taken = Math.min(Number(reservation.quantity), Math.max(Number(product?.quantity ?? 0), 0))
+    if (product) product.quantity = Number(product.quantity) - taken
+    Object.assign(reservation, { status: 'committed', committed_quantity: taken })
+  }
+  return reservations.length
+}
+
+/** Mirrors release_stock_reservations in supabase-inventory-reservations.sql. */
+function releaseReservations(args: Record<string, unknown>, db: MemorySupabase): number {
+  const reservations = db.rows('inventory_reservations', { pending_order_id: args.p_pending_order_id, status: 'active' })
+  for (const reservation of reservations) {
+    Object.assign(reservation, { status: 'released', release_reason: args.p_reason })
+  }
+  return reservations.length
+}
+
+let db: MemorySupabase
+
+beforeEach(() => {
+  db = useMemorySupabase()
+  db.onRpc('commit_stock_reservations', commitReservations)
+  db.onRpc('release_stock_reservations', releaseReservations)
+  db.onRpc('release_store_credit', () => 0)
+  db.onRpc('increment_product_stock', (args, memory) => {
+    const [product] = memory.rows('products', { id: args.product_id })
+    product.quantity = Number(product.quantity) + Number(args.quantity)
+    return null
+  })
+})
+
+function reserve(pendingOrderId: string, productId: string, quantity: number, backordered = 0) {
+  db.insertRow('inventory_reservations', {
+    pending_order_id: pendingOrderId,
+    product_id: productId,
+    quantity,
+    backordered_quantity: backordered,
+    status: 'active',
+  })
+}
+
+test('a commit takes only the units in stock and reports the rest as backordered', async () => {
+  const rice = db.insertRow('products', { name: 'Rice', quantity: 2 })
+  const oil = db.insertRow('products', { name: 'Oil', quantity: 10 })
+  reserve('checkout-1', rice.id as string, 5, 3)
+  reserve('checkout-1', oil.id as string, 4)
+
+  const inventory = new InventoryService()
+  assert.equal(await inventory.commitForPendingOrder('checkout-1'), 2)
+  assert.equal(rice.quantity, 0)
+  assert.equal(oil.quantity, 6)
+
+  const backordered = await inventory.getBackorderedForPendingOrder('checkout-1')
+  assert.deepEqual([...backordered], [[rice.id, 3]])
+})
+
+test('a second commit changes nothing', async () => {
+  const rice = db.insertRow('products', { name: 'Rice', quantity: 8 })
+  reserve('checkout-2', rice.id as string, 3)
+
+  const inventory = new InventoryService()
+  await inventory.commitForPendingOrder('checkout-2')
+  assert.equal(await inventory.commitForPendingOrder('checkout-2'), 0)
+  assert.equal(await inventory.releaseForPendingOrder('checkout-2', 'expired'), 0)
+  assert.equal(rice.quantity, 5)
+  assert.equal(db.rows('inventory_reservations')[0].status, 'committed')
+})
+
+test('backordered units are spread over order lines in line order', () => {
+  const lines = [
+    { productId: 'rice', quantity: 2 },
+    { productId: 'rice', quantity: 4 },
+    { productId: 'oil', quantity: 1 },
+  ]
+  assert.deepEqual(assignBackordered(lines, new Map([['rice', 3]])), [2, 1, 0])
+  assert.deepEqual(assignBackordered(lines, new Map()), [0, 0, 0])
+})
+
+test('a failed charge releases the checkout\'s stock reservation', async () => {
+  const rice = db.insertRow('products', { name: 'Rice', quantity: 4 })
+  reserve('checkout-3', rice.id as string, 2)
+  db.insertRow('pending_orders', {
+    pending_order_id: 'checkout-3',
+    payment_reference: 'GROV-FAKE-FAILED',
+    payment_status: 'pending',
+    converted_to_order_id: null,
+  })
+
+  const result = await new PaymentWebhookService().handleEvent('fake', {
+    event: 'charge.failed',
+    data: { reference: 'GROV-FAKE-FAILED' },
+  })
+
+  assert.equal(result.success, true)
+  const [reservation] = db.rows('inventory_reservations')
+  assert.equal(reservation.status, 'released')
+  assert.equal(reservation.release_reason, 'payment failed')
+  assert.equal(rice.quantity, 4)
+})
+
+test('cancelling an order puts back only the units taken from stock', async () => {
+  const rice = db.insertRow('products', { name: 'Rice', quantity: 0 })
+  const oil = db.insertRow('products', { name: 'Oil', quantity: 0 })
+  const order = db.insertRow('orders', { order_id: 'ORD-1', status: 'confirmed', user_id: 'user-1' })
+  db.insertRow('order_items', { order_id: order.id, product_id: rice.id, quantity: 3, backordered_quantity: 1 })
+  db.insertRow('order_items', { order_id: order.id, product_id: oil.id, quantity: 2, backordered_quantity: 2 })
+
+  const result = await new OrderService().updateOrderStatus(order.id as string, 'cancelled', undefined, 'Customer changed their mind')
+
+  assert.equal(result.success, true)
+  assert.equal(rice.quantity, 2)
+  assert.equal(oil.quantity, 0)
+  assert.deepEqual(
+    db.rpcCalls.filter((call) => call.name === 'increment_product_stock').map((call) => call.args),
+    [{ product_id: rice.id, quantity: 2 }]
+  )
+})
@@ -0,0 +1,199 @@
+import { test, mock, beforeEach, afterEach } from 'node:test'
+import assert from 'node:assert/strict'
+import { useMemorySupabase, waitFor, type MemorySupabase, type Row } from './support/memory-supabase'
+import { RefundService } from '../src/services/refund.service'
+import { OrderService } from '../src/services/order.service'
+import { PaymentWebhookService } from '../src/services/payment-webhook.service'
+import { getPaymentProvider } from '../src/services/payment-provider.service'
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100
+
+/** Mirrors reserve_refund in supabase-refund-limit.sql. */
+function reserveRefund(args: Record<string, unknown>, db: MemorySupabase): unknown {
+  const [tx] = db.rows('payment_transactions', { id: args.p_payment_transaction_id })
+  if (!tx) return { ok: false, error: 'not_found', remaining: 0 }
+  if (tx.status !== 'success') return { ok: false, error: 'not_refundable', remaining: 0 }
+
+  const committed = db
+    .rows('refunds', { payment_transaction_id: tx.id })
+    .filter((refund) => refund.status !== 'failed')
+    .reduce((sum, refund) => sum + Number(refund.amount), 0)
+  const remaining = roundMoney(Number(tx.amount) - committed)
+  if (remaining <= 0) return { ok: false, error: 'fully_refunded', remaining: 0 }
+
+  const amount = roundMoney(args.p_amount != null ? Number(args.p_amount) : remaining)
+  if (amount <= 0 || amount > remaining) return { ok: false, error: 'invalid_amount', remaining }
+
+  const refund = db.insertRow('refunds', {
+    payment_transaction_id: tx.id,
+    order_id: tx.order_id,
+    provider: tx.provider ?? 'paystack',
+    transaction_reference: tx.provider_reference,
+    amount,
+    currency: tx.currency ?? 'GHS',
+    status: 'pending',
+    reason: args.p_reason,
+    requested_by: args.p_requested_by,
+  })
+  return { ok: true, refundId: refund.id, amount }
+}
+
+let db: MemorySupabase
+let statusChanges: Array<{ orderId: string; status: string; options?: { viaRefund?: boolean } }>
+
+beforeEach(() => {
+  db = useMemorySupabase()
+  db.onRpc('reserve_refund', reserveRefund)
+  db.onRpc('release_stock_reservations', () => 0)
+  statusChanges = []
+  mock.method(OrderService.prototype, 'updateOrderStatus', async (orderId: string, status: string, _by?: string, _reason?: string, options?: { viaRefund?: boolean }) => {
+    statusChanges.push({ orderId, status, options })
+    return { success: true }
+  })
+
+  // The fake provider also reports the checkout charges created below; no pending order is behind them
+  const handleEvent = PaymentWebhookService.prototype.handleEvent
+  mock.method(PaymentWebhookService.prototype, 'handleEvent', function (this: PaymentWebhookService, provider: string, event: { event: string; data: Row }) {
+    if (event.event === 'charge.success' && !String(event.data.reference).startsWith('GROV-AMD')) {
+      return Promise.resolve({ success: true, message: 'Checkout charge ignored' })
+    }
+    return handleEvent.call(this, provider, event)
+  })
+})
+
+afterEach(() => {
+  mock.restoreAll()
+})
+
+/** A paid checkout: a charge at the fake provider, its transaction and the order it paid for. */
+async function paidOrder(reference: string, amount: number, status = 'delivered'): Promise<{ orderId: string; transactionId: string }> {
+  await getPaymentProvider('fake').initializeTransaction({ email: 'customer@example.com', amount, reference })
+  await waitFor(() => db.rows('webhook_events', { event_id: `charge.success:${reference}`, status: 'processed' }).length > 0)
+  const order = db.insertRow('orders', { order_id: `ORD-${reference}`, status, payment_reference: reference, total_amount: amount })
+  const transaction = db.insertRow('payment_transactions', {
+    transaction_id: reference,
+    order_id: order.id,
+    provider: 'fake',
+    provider_reference: reference,
+    amount,
+    currency: 'GHS',
+    status: 'success',
+    customer_email: 'customer@example.com',
+  })
+  return { orderId: order.id as string, transactionId: transaction.id as string }
+}
+
+test('refunds cannot add up to more than was paid', async () => {
+  const { orderId, transactionId } = await paidOrder('GROV-FAKE-RF1', 100)
+  const service = new RefundService()
+
+  const first = await service.createRefund({ paymentTransactionId: transactionId, amount: 60, reason: 'Damaged items' })
+  assert.equal(first.success, true)
+  assert.equal(Number(first.data?.amount), 60)
+
+  const tooMuch = await service.createRefund({ paymentTransactionId: transactionId, amount: 50, reason: 'Damaged items' })
+  assert.deepEqual(tooMuch, { success: false, error: 'Refund amount must be between 0.01 and 40.00 GHS' })
+
+  const rest = await service.createRefund({ paymentTransactionId: transactionId, reason: 'Cancelled' })
+  assert.equal(rest.success, true)
+  assert.equal(Number(rest.data?.amount), 40)
+
+  const again = await service.createRefund({ paymentTransactionId: transactionId, amount: 1, reason: 'Cancelled' })
+  assert.deepEqual(again, { success: false, error: 'Transaction has already been fully refunded' })
+
+  assert.equal(db.rows('refunds').length, 2)
+  await waitFor(() => db.rows('refunds').every((refund) => refund.status === 'processed'))
+  await waitFor(() => statusChanges.length > 0)
+
+  const [transaction] = db.rows('payment_transactions', { id: transactionId })
+  assert.equal(transaction.refunded_amount, 100)
+  assert.equal(transaction.status, 'refunded')
+  assert.deepEqual(statusChanges, [{ orderId, status: 'refunded', options: { viaRefund: true } }])
+})
+
+test('a partial refund leaves the order and transaction as they were', async () => {
+  const { orderId, transactionId } = await paidOrder('GROV-FAKE-RF2', 80)
+
+  const result = await new RefundService().createRefund({ paymentTransactionId: transactionId, amount: 20, reason: 'Missing item' })
+  assert.equal(result.success, true)
+
+  await waitFor(() => db.rows('order_status_history', { order_id: orderId }).length > 0)
+  const [transaction] = db.rows('payment_transactions', { id: transactionId })
+  assert.equal(transaction.refunded_amount, 20)
+  assert.equal(transaction.status, 'success')
+  assert.deepEqual(statusChanges, [])
+})
+
+test('a refund the provider refuses frees the reserved amount', async () => {
+  const { transactionId } = await paidOrder('GROV-FAKE-RF3', 50)
+  const [transaction] = db.rows('payment_transactions', { id: transactionId })
+  // Not a charge the provider knows, so createRefund throws
+  transaction.provider_reference = 'GROV-FAKE-UNKNOWN'
+
+  const refused = await new RefundService().createRefund({ paymentTransactionId: transactionId, reason: 'Cancelled' })
+  assert.deepEqual(refused, { success: false, error: 'Transaction not found or not successful' })
+  assert.equal(db.rows('refunds')[0].status, 'failed')
+
+  transaction.provider_reference = 'GROV-FAKE-RF3'
+  const retried = await new RefundService().createRefund({ paymentTransactionId: transactionId, reason: 'Cancelled' })
+  assert.equal(retried.success, true)
+  assert.equal(Number(retried.data?.amount), 50)
+  await waitFor(() => db.rows('payment_transactions', { id: transactionId, status: 'refunded' }).length > 0)
+})
+
+test('cash on delivery and admin-recorded payments are not refunded through the provider', async () => {
+  const { transactionId } = await paidOrder('GROV-FAKE-RF4', 30)
+  const [transaction] = db.rows('payment_transactions', { id: transactionId })
+
+  for (const provider of ['cash_on_delivery', 'manual']) {
+    transaction.provider = provider
+    const result = await new RefundService().createRefund({ paymentTransactionId: transactionId, reason: 'Cancelled' })
+    assert.equal(result.success, false)
+  }
+  assert.equal(db.rows('refunds').length, 0)
+  assert.equal(db.rpcCalls.filter((call) => call.name === 'reserve_refund').length, 0)
+})
+
+test('refunding an order change paid after the order shipped leaves the order alone', async () => {
+  const { orderId, transactionId } = await paidOrder('GROV-FAKE-RF5', 100, 'shipped')
+  const provider = getPaymentProvider('fake')
+  const reference = provider.generateReference('GROV-AMD')
+  const amendment = db.insertRow('order_amendments', {
+    order_id: orderId,
+    amount_delta: 25,
+    settlement: 'payment_link',
+    status: 'awaiting_payment',
+    payment_reference: reference,
+    payment_provider: 'fake',
+  })
+  // As OrderAmendmentService.createPaymentLink records the link
+  db.insertRow('payment_transactions', {
+    transaction_id: reference,
+    order_id: orderId,
+    amendment_id: amendment.id,
+    provider: 'fake',
+    provider_reference: reference,
+    amount: 25,
+    currency: 'GHS',
+    status: 'pending',
+    customer_email: 'customer@example.com',
+  })
+
+  // The customer pays the link late: charge.success -> amendment fails -> link refunded -> refund.processed
+  await provider.initializeTransaction({ email: 'customer@example.com', amount: 25, reference })
+  await waitFor(() => db.rows('payment_transactions', { provider_reference: reference, status: 'refunded' }).length > 0)
+
+  const [link] = db.rows('payment_transactions', { provider_reference: reference })
+  assert.equal(link.refunded_amount, 25)
+  assert.equal(db.rows('order_amendments')[0].status, 'failed')
+
+  const [checkout] = db.rows('payment_transactions', { id: transactionId })
+  assert.equal(checkout.status, 'success')
+  assert.equal(checkout.refunded_amount, 0)
+
+  assert.deepEqual(statusChanges, [])
+  assert.equal(db.rows('orders', { id: orderId })[0].status, 'shipped')
+  const [note] = db.rows('order_status_history', { order_id: orderId })
+  assert.equal(note.new_status, 'shipped')
+  assert.equal(note.reason, 'Refund of GHS 25.00 for an order change payment processed')
+})
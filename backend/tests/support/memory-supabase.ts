@@ -0,0 +1,349 @@
+import crypto from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+/**
+ * In-memory stand-in for the Supabase admin client, for service tests.
+ * Supports the query builder calls the services use (select/insert/upsert/update/delete, the common
+ * filters, order/limit/range, single/maybeSingle) and rpc() through handlers the test registers.
+ * Embeds such as `order_items (*)` are resolved by the `<table>_id` foreign key convention.
+ *
+ * Import this module before any service: config/supabase refuses to load without these variables.
+ */
+
+process.env.SUPABASE_URL ??= 'http://localhost:54321'
+process.env.SUPABASE_ANON_KEY ??= 'test-anon-key'
+process.env.SUPABASE_SERVICE_ROLE_KEY ??= 'test-service-role-key'
+process.env.JWT_SECRET ??= 'test-jwt-secret'
+process.env.PAYMENT_PROVIDER ??= 'fake'
+process.env.FAKE_PAYMENT_WEBHOOK_DELAY_MS ??= '0'
+
+export type Row = Record<string, unknown>
+
+export interface QueryError {
+  message: string
+  code?: string
+}
+
+export interface QueryResult {
+  data: unknown
+  error: QueryError | null
+  count?: number | null
+}
+
+type RpcHandler = (args: Record<string, unknown>, db: MemorySupabase) => unknown
+
+type Action = 'select' | 'insert' | 'upsert' | 'update' | 'delete'
+
+/** Column defaults from the migrations (supabase-*.sql) that the tested services rely on. */
+const COLUMN_DEFAULTS: Record<string, Row> = {
+  webhook_events: { status: 'received', attempts: 0, duplicate_count: 0, last_error: null, locked_until: null },
+  refunds: { status: 'pending', currency: 'GHS', provider_refund_id: null },
+  payment_transactions: { refunded_amount: 0 },
+}
+
+const singular = (table: string) => table.replace(/s$/, '')
+
+function splitTopLevel(columns: string): string[] {
+  const parts: string[] = []
+  let depth = 0
+  let current = ''
+  for (const char of columns) {
+    if (char === '(') depth++
+    if (char === ')') depth--
+    if (char === ',' && depth === 0) {
+      parts.push(current.trim())
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  if (current.trim()) parts.push(current.trim())
+  return parts
+}
+
+function compare(a: unknown, b: unknown): number {
+  if (a == null && b == null) return 0
+  if (a == null) return 1
+  if (b == null) return -1
+  if (typeof a === 'number' && typeof b === 'number') return a - b
+  return String(a).localeCompare(String(b))
+}
+
+class MemoryQuery implements PromiseLike<QueryResult> {
+  private action: Action = 'select'
+  private values: Row[] = []
+  private patch: Row = {}
+  private upsertOptions: { onConflict?: string; ignoreDuplicates?: boolean } = {}
+  private filters: Array<(row: Row) => boolean> = []
+  private columns = '*'
+  private returning = false
+  private withCount = false
+  private mode: 'many' | 'single' | 'maybeSingle' = 'many'
+  private sorts: Array<{ column: string; ascending: boolean }> = []
+  private window: { from: number; to: number } | null = null
+
+  constructor(private db: MemorySupabase, private table: string) {}
+
+  select(columns = '*', options: { count?: string } = {}): this {
+    if (this.action === 'select') {
+      this.withCount = !!options.count
+    } else {
+      this.returning = true
+    }
+    this.columns = columns
+    return this
+  }
+
+  insert(values: Row | Row[]): this {
+    this.action = 'insert'
+    this.values = Array.isArray(values) ? values : [values]
+    return this
+  }
+
+  upsert(values: Row | Row[], options: { onConflict?: string; ignoreDuplicates?: boolean } = {}): this {
+    this.action = 'upsert'
+    this.values = Array.isArray(values) ? values : [values]
+    this.upsertOptions = options
+    return this
+  }
+
+  update(patch: Row): this {
+    this.action = 'update'
+    this.patch = patch
+    return this
+  }
+
+  delete(): this {
+    this.action = 'delete'
+    return this
+  }
+
+  eq(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] === value)
+    return this
+  }
+
+  neq(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] !== value)
+    return this
+  }
+
+  in(column: string, values: unknown[]): this {
+    this.filters.push((row) => values.includes(row[column]))
+    return this
+  }
+
+  is(column: string, value: null | boolean): this {
+    this.filters.push((row) => (row[column] ?? null) === value)
+    return this
+  }
+
+  gt(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] != null && compare(row[column], value) > 0)
+    return this
+  }
+
+  gte(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] != null && compare(row[column], value) >= 0)
+    return this
+  }
+
+  lt(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] != null && compare(row[column], value) < 0)
+    return this
+  }
+
+  lte(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] != null && compare(row[column], value) <= 0)
+    return this
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}): this {
+    this.sorts.push({ column, ascending: options.ascending ?? true })
+    return this
+  }
+
+  limit(count: number): this {
+    this.window = { from: 0, to: count - 1 }
+    return this
+  }
+
+  range(from: number, to: number): this {
+    this.window = { from, to }
+    return this
+  }
+
+  single(): this {
+    this.mode = 'single'
+    return this
+  }
+
+  maybeSingle(): this {
+    this.mode = 'maybeSingle'
+    return this
+  }
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve()
+      .then(() => this.execute())
+      .then(onfulfilled, onrejected)
+  }
+
+  private matches(row: Row): boolean {
+    return this.filters.every((filter) => filter(row))
+  }
+
+  private execute(): QueryResult {
+    const rows = this.db.table(this.table)
+    let affected: Row[]
+
+    switch (this.action) {
+      case 'insert':
+        affected = this.values.map((values) => this.db.insertRow(this.table, values))
+        break
+      case 'upsert': {
+        const keys = (this.upsertOptions.onConflict ?? 'id').split(',').map((key) => key.trim())
+        affected = []
+        for (const values of this.values) {
+          const existing = rows.find((row) => keys.every((key) => row[key] === values[key]))
+          if (!existing) {
+            affected.push(this.db.insertRow(this.table, values))
+          } else if (!this.upsertOptions.ignoreDuplicates) {
+            Object.assign(existing, values)
+            affected.push(existing)
+          }
+        }
+        break
+      }
+      case 'update':
+        affected = rows.filter((row) => this.matches(row))
+        for (const row of affected) Object.assign(row, this.patch)
+        break
+      case 'delete':
+        affected = rows.filter((row) => this.matches(row))
+        this.db.tables.set(this.table, rows.filter((row) => !affected.includes(row)))
+        break
+      default:
+        affected = rows.filter((row) => this.matches(row))
+    }
+
+    if (this.action !== 'select' && !this.returning) {
+      return { data: null, error: null }
+    }
+
+    for (const sort of [...this.sorts].reverse()) {
+      affected = [...affected].sort((a, b) => compare(a[sort.column], b[sort.column]) * (sort.ascending ? 1 : -1))
+    }
+    const count = affected.length
+    if (this.window) {
+      affected = affected.slice(this.window.from, this.window.to + 1)
+    }
+
+    const data = affected.map((row) => this.project(row))
+    if (this.mode === 'many') {
+      return { data, error: null, count: this.withCount ? count : null }
+    }
+    if (data.length > 1 || (data.length === 0 && this.mode === 'single')) {
+      return { data: null, error: { message: `JSON object requested, ${data.length} rows returned`, code: 'PGRST116' } }
+    }
+    return { data: data[0] ?? null, error: null }
+  }
+
+  private project(row: Row): Row {
+    const result: Row = {}
+    for (const part of splitTopLevel(this.columns)) {
+      const embed = part.match(/^(\w+)\s*\((.*)\)$/)
+      if (embed) {
+        const [, related] = embed
+        result[related] = this.db
+          .table(related)
+          .filter((child) => child[`${singular(this.table)}_id`] === row.id)
+          .map((child) => ({ ...child }))
+      } else if (part === '*') {
+        Object.assign(result, structuredClone(row))
+      } else {
+        result[part] = structuredClone(row[part])
+      }
+    }
+    return result
+  }
+}
+
+export class MemorySupabase {
+  readonly tables = new Map<string, Row[]>()
+  readonly rpcCalls: Array<{ name: string; args: Record<string, unknown> }> = []
+  private rpcHandlers = new Map<string, RpcHandler>()
+
+  table(name: string): Row[] {
+    let rows = this.tables.get(name)
+    if (!rows) {
+      rows = []
+      this.tables.set(name, rows)
+    }
+    return rows
+  }
+
+  /** Insert a row with an id, timestamps and the table's defaults filled in; returns the stored row. */
+  insertRow(name: string, values: Row): Row {
+    const now = new Date().toISOString()
+    const row: Row = {
+      id: crypto.randomUUID(),
+      created_at: now,
+      updated_at: now,
+      ...COLUMN_DEFAULTS[name],
+      ...structuredClone(values),
+    }
+    this.table(name).push(row)
+    return row
+  }
+
+  /** Rows of a table matching every given column value. */
+  rows(name: string, where: Row = {}): Row[] {
+    return this.table(name).filter((row) => Object.entries(where).every(([key, value]) => row[key] === value))
+  }
+
+  onRpc(name: string, handler: RpcHandler): void {
+    this.rpcHandlers.set(name, handler)
+  }
+
+  from(table: string): MemoryQuery {
+    return new MemoryQuery(this, table)
+  }
+
+  async rpc(name: string, args: Record<string, unknown> = {}): Promise<QueryResult> {
+    this.rpcCalls.push({ name, args })
+    const handler = this.rpcHandlers.get(name)
+    if (!handler) {
+      return { data: null, error: { message: `Could not find the function public.${name}`, code: 'PGRST202' } }
+    }
+    return { data: handler(args, this), error: null }
+  }
+}
+
+let current = new MemorySupabase()
+
+/**
+ * Point createAdminClient at a fresh in-memory database. Services read the client when they are
+ * constructed, so create them after calling this.
+ */
+export function useMemorySupabase(): MemorySupabase {
+  current = new MemorySupabase()
+  // Required here, not imported, so the environment above is set before the config module loads
+  const config = require('../../src/config/supabase') as { createAdminClient: () => SupabaseClient }
+  config.createAdminClient = () => current as unknown as SupabaseClient
+  return current
+}
+
+/** Resolve once `check` passes, e.g. after the fake provider's in-process webhooks have run. */
+export async function waitFor(check: () => boolean, timeoutMs = 2000): Promise<void> {
+  const started = Date.now()
+  while (!check()) {
+    if (Date.now() - started > timeoutMs) {
+      throw new Error('Timed out waiting for condition')
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10))
+  }
+}
@@ -0,0 +1,99 @@
+import { test, mock, beforeEach, afterEach } from 'node:test'
+import assert from 'node:assert/strict'
+import { useMemorySupabase, type MemorySupabase } from './support/memory-supabase'
+import { WebhookEventService } from '../src/services/webhook-event.service'
+import { PaymentWebhookService } from '../src/services/payment-webhook.service'
+import { FakePaymentService } from '../src/services/fake-payment.service'
+
+let db: MemorySupabase
+let handled: Array<{ provider: string; event: string }>
+let outcomes: Array<{ success: boolean; message: string }>
+
+beforeEach(() => {
+  db = useMemorySupabase()
+  handled = []
+  outcomes = []
+  mock.method(PaymentWebhookService.prototype, 'handleEvent', async (provider: string, event: { event: string }) => {
+    handled.push({ provider, event: event.event })
+    return outcomes.shift() ?? { success: true, message: 'Payment processed' }
+  })
+})
+
+afterEach(() => {
+  mock.restoreAll()
+})
+
+function chargeEvent(reference: string) {
+  const payload = { event: 'charge.success', data: { id: reference, reference, amount: 5000 } }
+  return { payload, rawBody: JSON.stringify(payload) }
+}
+
+test('a redelivered webhook is stored once and handled once', async () => {
+  const service = new WebhookEventService()
+  const provider = new FakePaymentService()
+  const { payload, rawBody } = chargeEvent('GROV-FAKE-1')
+
+  const first = await service.receiveEvent(provider, rawBody, payload)
+  const second = await service.receiveEvent(provider, rawBody, payload)
+
+  assert.equal(first.success, true)
+  assert.equal(first.status, 'processed')
+  assert.deepEqual(second, { success: true, message: 'Duplicate event ignored', status: 'processed' })
+  assert.equal(handled.length, 1)
+
+  const events = db.rows('webhook_events')
+  assert.equal(events.length, 1)
+  assert.equal(events[0].event_id, 'charge.success:GROV-FAKE-1')
+  assert.equal(events[0].duplicate_count, 1)
+  assert.equal(events[0].attempts, 1)
+})
+
+test('a redelivery of an event that failed runs the handlers again', async () => {
+  const service = new WebhookEventService()
+  const provider = new FakePaymentService()
+  const { payload, rawBody } = chargeEvent('GROV-FAKE-2')
+  outcomes.push({ success: false, message: 'Order could not be created' })
+
+  const first = await service.receiveEvent(provider, rawBody, payload)
+  assert.equal(first.status, 'failed')
+  assert.ok(db.rows('webhook_events')[0].next_retry_at)
+
+  const second = await service.receiveEvent(provider, rawBody, payload)
+  assert.equal(second.status, 'processed')
+  assert.equal(handled.length, 2)
+
+  const [event] = db.rows('webhook_events')
+  assert.equal(event.status, 'processed')
+  assert.equal(event.attempts, 2)
+  assert.equal(event.last_error, null)
+})
+
+test('different events for the same reference are handled separately', async () => {
+  const service = new WebhookEventService()
+  const provider = new FakePaymentService()
+  const charge = chargeEvent('GROV-FAKE-3')
+  const failed = { event: 'charge.failed', data: { id: 'GROV-FAKE-3', reference: 'GROV-FAKE-3' } }
+
+  await service.receiveEvent(provider, charge.rawBody, charge.payload)
+  await service.receiveEvent(provider, JSON.stringify(failed), failed)
+
+  assert.deepEqual(handled.map((h) => h.event), ['charge.success', 'charge.failed'])
+  assert.equal(db.rows('webhook_events').length, 2)
+})
+
+test('a processed event only runs again on an admin replay', async () => {
+  const service = new WebhookEventService()
+  const provider = new FakePaymentService()
+  const { payload, rawBody } = chargeEvent('GROV-FAKE-4')
+
+  await service.receiveEvent(provider, rawBody, payload)
+  const [event] = db.rows('webhook_events')
+
+  const retry = await service.processEvent(event.id as string)
+  assert.deepEqual(retry, { success: true, message: 'Event already processed', status: 'processed' })
+  assert.equal(handled.length, 1)
+
+  const replay = await service.replayEvent(event.id as string)
+  assert.equal(replay.status, 'processed')
+  assert.equal(handled.length, 2)
+})
@@ -0,0 +1,207 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import AdminSidebar from '@/components/AdminSidebar'
+import { ordersApi } from '@/lib/api'
+import { CodDailyReconciliation } from '@/types/grocery'
+import { RefreshCw } from 'lucide-react'
+import { toast } from 'sonner'
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10)
+
+const formatGhs = (amount: number) => `GHS ${amount.toFixed(2)}`
+
+export default function CashOnDeliveryPage() {
+  const [isSidebarOpen, setIsSidebarOpen] = useState(false)
+  const [rows, setRows] = useState<CodDailyReconciliation[]>([])
+  const [from, setFrom] = useState(() => toDateInput(new Date(Date.now() - 6 * 24 * 60 * 60 * 1000)))
+  const [to, setTo] = useState(() => toDateInput(new Date()))
+  const [loading, setLoading] = useState(true)
+
+  const fetchRows = useCallback(async () => {
+    setLoading(true)
+    try {
+      const res = await ordersApi.getCodReconciliation({ from, to })
+      if (res.success && Array.isArray(res.data)) {
+        setRows(res.data)
+      } else {
+        setRows([])
+        toast.error(res.message || 'Failed to load cash on delivery reconciliation')
+      }
+    } catch {
+      setRows([])
+      toast.error('Failed to load cash on delivery reconciliation')
+    } finally {
+      setLoading(false)
+    }
+  }, [from, to])
+
+  useEffect(() => {
+    fetchRows()
+  }, [fetchRows])
+
+  const handleRecordHandover = async (row: CodDailyReconciliation) => {
+    const suggested = row.remittance ? row.remittance.receivedAmount : row.cash
+    const input = window.prompt(
+      `Cash handed over by ${row.riderName} for ${row.businessDate} (GHS):`,
+      suggested.toFixed(2)
+    )
+    if (input === null) return
+    const receivedAmount = Number(input)
+    if (!Number.isFinite(receivedAmount) || receivedAmount < 0) {
+      toast.error('Enter a valid amount')
+      return
+    }
+    const note = window.prompt('Note (optional):', row.remittance?.note ?? '') ?? undefined
+
+    try {
+      const res = await ordersApi.recordCodRemittance({
+        riderName: row.riderName,
+        businessDate: row.businessDate,
+        receivedAmount,
+        note: note?.trim() || undefined,
+      })
+      if (res.success) {
+        toast.success('Handover recorded')
+        fetchRows()
+      } else {
+        toast.error(res.message || 'Failed to record handover')
+      }
+    } catch {
+      toast.error('Failed to record handover')
+    }
+  }
+
+  const totalOutstanding = rows.reduce((sum, r) => sum + (r.cashOutstanding ?? r.cash), 0)
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <AdminSidebar
+        currentPage="cash-on-delivery"
+        isSidebarOpen={isSidebarOpen}
+        setIsSidebarOpen={setIsSidebarOpen}
+      />
+
+      <div className="lg:ml-64">
+        <div className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Cash on Delivery</h1>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Money riders collected per day, compared with order totals and the cash they handed over.
+              </p>
+            </div>
+            <div className="flex items-center gap-3">
+              <input
+                type="date"
+                value={from}
+                max={to}
+                onChange={(e) => setFrom(e.target.value)}
+                className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-800 dark:text-white"
+              />
+              <input
+                type="date"
+                value={to}
+                min={from}
+                onChange={(e) => setTo(e.target.value)}
+                className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-800 dark:text-white"
+              />
+              <button
+                type="button"
+                onClick={fetchRows}
+                className="p-2 text-gray-600 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400"
+                title="Refresh"
+              >
+                <RefreshCw className="h-5 w-5" />
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-6">
+          {loading ? (
+            <p className="text-gray-600 dark:text-gray-400">Loading...</p>
+          ) : (
+            <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 overflow-hidden">
+              {rows.length > 0 && (
+                <p className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                  {formatGhs(totalOutstanding)} cash not yet handed over across {rows.length} rider-day{rows.length === 1 ? '' : 's'}
+                </p>
+              )}
+              <table className="w-full">
+                <thead className="bg-gray-50 dark:bg-gray-700">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Date</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Rider</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Orders</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Expected</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Collected</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Cash / MoMo</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Variance</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Handed over</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Outstanding</th>
+                    <th className="px-4 py-3" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {rows.length === 0 ? (
+                    <tr>
+                      <td colSpan={10} className="px-4 py-8 text-center text-gray-500 dark:text-gray-400">
+                        No cash or mobile money collections in this period.
+                      </td>
+                    </tr>
+                  ) : (
+                    rows.map((r) => (
+                      <tr key={`${r.businessDate}-${r.riderName}`} className="hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                        <td className="px-4 py-3 text-sm text-gray-900 dark:text-white">{r.businessDate}</td>
+                        <td className="px-4 py-3 text-sm text-gray-900 dark:text-white">{r.riderName}</td>
+                        <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">{r.orders}</td>
+                        <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">{formatGhs(r.expected)}</td>
+                        <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">{formatGhs(r.collected)}</td>
+                        <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">
+                          {formatGhs(r.cash)} / {formatGhs(r.mobileMoney)}
+                        </td>
+                        <td className="px-4 py-3 text-sm">
+                          {r.variance !== 0 ? (
+                            <span className={r.variance < 0 ? 'text-red-600' : 'text-orange-600'}>{formatGhs(r.variance)}</span>
+                          ) : (
+                            <span className="text-gray-700 dark:text-gray-300">—</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">
+                          {r.remittance ? (
+                            <span title={r.remittance.note ?? undefined}>{formatGhs(r.remittance.receivedAmount)}</span>
+                          ) : (
+                            '—'
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-sm">
+                          {r.cashOutstanding === null ? (
+                            <span className="text-gray-500 dark:text-gray-400">Not handed over</span>
+                          ) : r.cashOutstanding !== 0 ? (
+                            <span className="text-red-600">{formatGhs(r.cashOutstanding)}</span>
+                          ) : (
+                            <span className="text-green-600">Settled</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          <button
+                            type="button"
+                            onClick={() => handleRecordHandover(r)}
+                            className="text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400"
+                          >
+                            {r.remittance ? 'Edit handover' : 'Record handover'}
+                          </button>
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -4,7 +4,7 @@
 import React, { useCallback, useEffect, useState } from 'react'
 import CategoriesTable from '@/components/CategoriesTable'
 import AdminSidebar from '@/components/AdminSidebar'
-import { GroceryCategory } from '@/types/grocery'
+import { GroceryCategory, TaxClass } from '@/types/grocery'
 import ImageUpload from '@/components/ImageUpload'
 import { categoriesApi } from '@/lib/api'
 import { uploadLocalImages } from '@/lib/upload'
@@ -16,6 +16,7 @@ const emptyForm = {
   description: '',
   subcategories: [] as string[],
   images: [] as string[],
+  taxClass: 'standard' as TaxClass,
 }
 
 export default function CategoriesPage() {
@@ -44,6 +45,7 @@ export default function CategoriesPage() {
           icon: category.icon || '',
           images: Array.isArray(category.images) ? category.images : [],
           subcategories: Array.isArray(category.subcategories) ? category.subcategories : [],
+          taxClass: category.tax_class === 'exempt' ? 'exempt' : 'standard',
           createdAt: category.created_at,
           updatedAt: category.updated_at,
         })) as GroceryCategory[]
@@ -82,6 +84,7 @@ export default function CategoriesPage() {
       description: category.description || '',
       subcategories: [...category.subcategories],
       images: [...(category.images || [])],
+      taxClass: category.taxClass ?? 'standard',
     })
     setIsFormOpen(true)
   }
@@ -122,6 +125,7 @@ export default function CategoriesPage() {
         description: formData.description.trim() || null,
         subcategories: formData.subcategories,
         images: uploadedImages,
+        tax_class: formData.taxClass,
       }
 
       let response
@@ -275,6 +279,20 @@ export default function CategoriesPage() {
                 />
               </div>
 
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Tax class
+                </label>
+                <select
+                  value={formData.taxClass}
+                  onChange={(e) => setFormData(prev => ({ ...prev, taxClass: e.target.value as TaxClass }))}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-800 dark:text-white"
+                >
+                  <option value="standard">Standard (VAT and levies apply)</option>
+                  <option value="exempt">Exempt (unprocessed staples, no VAT or levies)</option>
+                </select>
+              </div>
+
               <div className="space-y-3">
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
                   Category Images
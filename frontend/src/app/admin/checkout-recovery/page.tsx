@@ -0,0 +1,287 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { MailCheck, Save, Loader2, Plus, Trash2 } from 'lucide-react'
+import AdminSidebar from '@/components/AdminSidebar'
+import { adminCheckoutRecoveryApi } from '@/lib/api'
+import { CheckoutRecoveryStats } from '@/types/grocery'
+import { formatPrice } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+
+const MAX_REMINDERS = 3
+
+const isoDate = (d: Date) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`
+
+const toHours = (minutes: number) => String(Math.round((minutes / 60) * 100) / 100)
+
+export default function AdminCheckoutRecoveryPage() {
+  const [isSidebarOpen, setIsSidebarOpen] = useState(false)
+  const [enabled, setEnabled] = useState(false)
+  const [delays, setDelays] = useState<string[]>([])
+  const [windowHours, setWindowHours] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const now = new Date()
+  const [from, setFrom] = useState(isoDate(new Date(now.getFullYear(), now.getMonth(), 1)))
+  const [to, setTo] = useState(isoDate(now))
+  const [stats, setStats] = useState<CheckoutRecoveryStats | null>(null)
+  const [statsLoading, setStatsLoading] = useState(true)
+
+  useEffect(() => {
+    adminCheckoutRecoveryApi
+      .getSettings()
+      .then((res) => {
+        if (res.success && res.data) {
+          setEnabled(res.data.enabled)
+          setDelays(res.data.reminderDelaysMinutes.map(toHours))
+          setWindowHours(String(res.data.resumeWindowHours))
+        }
+      })
+      .catch(() => setMessage({ type: 'error', text: 'Failed to load settings' }))
+      .finally(() => setLoading(false))
+  }, [])
+
+  const fetchStats = useCallback(async () => {
+    if (!from || !to || from > to) return
+    setStatsLoading(true)
+    try {
+      const res = await adminCheckoutRecoveryApi.getStats(from, to)
+      if (res.success && res.data) setStats(res.data)
+    } catch {
+      setStats(null)
+    } finally {
+      setStatsLoading(false)
+    }
+  }, [from, to])
+
+  useEffect(() => {
+    fetchStats()
+  }, [fetchStats])
+
+  const handleSave = async () => {
+    const window = parseInt(windowHours, 10)
+    if (Number.isNaN(window) || window < 1 || window > 336) {
+      setMessage({ type: 'error', text: 'Resume window must be between 1 and 336 hours' })
+      return
+    }
+    const minutes = delays.map((d) => Math.round(parseFloat(d) * 60))
+    if (minutes.some((m) => Number.isNaN(m) || m < 15)) {
+      setMessage({ type: 'error', text: 'Each reminder must be at least 0.25 hours (15 minutes) after checkout' })
+      return
+    }
+    if (minutes.some((m, i) => i > 0 && m <= minutes[i - 1])) {
+      setMessage({ type: 'error', text: 'Each reminder must come after the one before it' })
+      return
+    }
+    if (minutes.length > 0 && minutes[minutes.length - 1] >= window * 60) {
+      setMessage({ type: 'error', text: 'The last reminder must be sent before the resume window ends' })
+      return
+    }
+
+    setSaving(true)
+    setMessage(null)
+    adminCheckoutRecoveryApi
+      .updateSettings({ enabled, reminderDelaysMinutes: minutes, resumeWindowHours: window })
+      .then((res) => {
+        if (res.success) {
+          setMessage({ type: 'success', text: 'Checkout recovery settings saved.' })
+        } else {
+          setMessage({ type: 'error', text: res.message ?? 'Save failed' })
+        }
+      })
+      .catch(() => setMessage({ type: 'error', text: 'Failed to save settings' }))
+      .finally(() => setSaving(false))
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+        <AdminSidebar currentPage="checkout-recovery" isSidebarOpen={isSidebarOpen} setIsSidebarOpen={setIsSidebarOpen} />
+        <div className="lg:ml-64 flex items-center justify-center min-h-[200px]">
+          <Loader2 className="h-8 w-8 animate-spin text-[#D35F0E]" />
+        </div>
+      </div>
+    )
+  }
+
+  const statCards = stats
+    ? [
+        { label: 'Emails sent', value: String(stats.emailsSent) },
+        { label: 'Checkouts reminded', value: String(stats.checkoutsReminded) },
+        { label: 'Clicked', value: String(stats.checkoutsClicked) },
+        { label: 'Recovered', value: String(stats.checkoutsRecovered) },
+        { label: 'Conversion', value: `${(stats.conversionRate * 100).toFixed(1)}%` },
+        { label: 'Recovered revenue', value: formatPrice(stats.recoveredRevenue) },
+      ]
+    : []
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <AdminSidebar currentPage="checkout-recovery" isSidebarOpen={isSidebarOpen} setIsSidebarOpen={setIsSidebarOpen} />
+      <div className="lg:ml-64 container mx-auto p-6 space-y-6">
+      <div className="flex items-center gap-3">
+        <MailCheck className="h-8 w-8 text-[#D35F0E]" />
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Checkout Recovery</h1>
+        </div>
+      </div>
+
+      {message && (
+        <div
+          className={`p-4 rounded-lg ${
+            message.type === 'success' ? 'bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200' : 'bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200'
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Reminder emails</CardTitle>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Customers who start an online payment but do not finish it get an email with a link that takes them straight back to payment, at the price they were quoted.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="recovery_enabled">Send reminders</Label>
+            <Switch id="recovery_enabled" checked={enabled} onCheckedChange={setEnabled} />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Send each reminder this many hours after checkout</Label>
+            {delays.map((delay, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <span className="text-sm text-gray-500 dark:text-gray-400 w-24">Reminder {index + 1}</span>
+                <Input
+                  type="number"
+                  min="0.25"
+                  step="0.25"
+                  value={delay}
+                  onChange={(e) => setDelays((prev) => prev.map((d, i) => (i === index ? e.target.value : d)))}
+                  className="w-28"
+                />
+                <span className="text-sm text-gray-500 dark:text-gray-400">hours</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setDelays((prev) => prev.filter((_, i) => i !== index))}
+                  aria-label={`Remove reminder ${index + 1}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            {delays.length < MAX_REMINDERS && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setDelays((prev) => [...prev, prev.length ? String(parseFloat(prev[prev.length - 1] || '0') * 2 || 1) : '1'])}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add reminder
+              </Button>
+            )}
+          </div>
+
+          <div>
+            <Label htmlFor="resume_window">Resume window (hours)</Label>
+            <Input
+              id="resume_window"
+              type="number"
+              min="1"
+              max="336"
+              value={windowHours}
+              onChange={(e) => setWindowHours(e.target.value)}
+              className="mt-1 w-28"
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Unpaid checkouts can be resumed for this long, then they are deleted.
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={saving} className="bg-[#D35F0E] hover:bg-[#D35F0E]/90">
+          {saving ? (
+            <>
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            <>
+              <Save className="h-4 w-4 mr-2" />
+              Save settings
+            </>
+          )}
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <CardTitle>Recovery results</CardTitle>
+            <div className="flex items-center gap-2 text-sm">
+              <Input type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} className="w-40" />
+              <span className="text-gray-500">to</span>
+              <Input type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} className="w-40" />
+            </div>
+          </div>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            For reminders sent in this period. A checkout is recovered when it is paid after a reminder.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {statsLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-[#D35F0E]" />
+            </div>
+          ) : !stats || stats.emailsSent === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No reminders were sent in this period.</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-4">
+                {statCards.map((card) => (
+                  <div key={card.label} className="p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{card.label}</p>
+                    <p className="text-xl font-semibold text-gray-900 dark:text-white mt-1 tabular-nums">{card.value}</p>
+                  </div>
+                ))}
+              </div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 dark:text-gray-400">
+                    <th className="pb-2 pr-4 font-medium">Reminder</th>
+                    <th className="pb-2 pr-4 font-medium text-right">Sent</th>
+                    <th className="pb-2 pr-4 font-medium text-right">Clicked</th>
+                    <th className="pb-2 font-medium text-right">Recovered</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {stats.byReminder.map((r) => (
+                    <tr key={r.reminderNumber} className="border-t border-gray-200 dark:border-gray-700">
+                      <td className="py-2 pr-4 text-gray-900 dark:text-white">Reminder {r.reminderNumber}</td>
+                      <td className="py-2 pr-4 text-right tabular-nums text-gray-700 dark:text-gray-300">{r.sent}</td>
+                      <td className="py-2 pr-4 text-right tabular-nums text-gray-700 dark:text-gray-300">{r.clicked}</td>
+                      <td className="py-2 text-right tabular-nums text-gray-700 dark:text-gray-300">{r.recovered}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </CardContent>
+      </Card>
+      </div>
+    </div>
+  )
+}
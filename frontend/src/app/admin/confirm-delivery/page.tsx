@@ -1,10 +1,14 @@
 'use client'
 
-import React, { useState, useRef } from 'react'
+import React, { useState, useRef, useEffect } from 'react'
 import AdminSidebar from '@/components/AdminSidebar'
-import { ordersApi } from '@/lib/api'
+import { adminRidersApi, ordersApi } from '@/lib/api'
+import { CodCollectionDetails, CodCollectionMethod, DeliveryProofDetails, GpsFix, RiderAssignment } from '@/types/grocery'
 import { toast } from 'sonner'
-import { QrCode, Hash } from 'lucide-react'
+import { QrCode, Hash, Banknote, Camera, MapPin } from 'lucide-react'
+
+/** Request bodies are capped at 10 MB, and base64 adds a third */
+const MAX_PHOTO_BYTES = 7 * 1024 * 1024
 
 /** Extract delivery verification token from QR content (URL or raw token) */
 function extractTokenFromQrContent(content: string): string {
@@ -22,24 +26,133 @@ function extractTokenFromQrContent(content: string): string {
 export default function ConfirmDeliveryPage() {
   const [isSidebarOpen, setIsSidebarOpen] = useState(false)
   const [code, setCode] = useState('')
+  const [orders, setOrders] = useState<RiderAssignment[]>([])
+  const [ordersLoading, setOrdersLoading] = useState(true)
+  const [orderId, setOrderId] = useState('')
   const [token, setToken] = useState('')
   const [loadingCode, setLoadingCode] = useState(false)
   const [loadingToken, setLoadingToken] = useState(false)
   const [scanning, setScanning] = useState(false)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const [riderName, setRiderName] = useState('')
+  const [amountCollected, setAmountCollected] = useState('')
+  const [collectionMethod, setCollectionMethod] = useState<CodCollectionMethod | ''>('')
+  const [momoReference, setMomoReference] = useState('')
+  const [recipientName, setRecipientName] = useState('')
+  const [photo, setPhoto] = useState<{ name: string; dataUrl: string } | null>(null)
+  const [gps, setGps] = useState<GpsFix | null>(null)
+  const [locating, setLocating] = useState(false)
+  const photoInputRef = useRef<HTMLInputElement>(null)
+
+  /** Codes are checked against one named order, so wrong guesses count against it */
+  const loadOrders = () => {
+    setOrdersLoading(true)
+    return adminRidersApi
+      .getAssignments()
+      .then((res) => {
+        if (res.success && res.data) setOrders(res.data)
+        else toast.error(res.message ?? 'Failed to load shipped orders')
+      })
+      .catch(() => toast.error('Failed to load shipped orders'))
+      .finally(() => setOrdersLoading(false))
+  }
+
+  useEffect(() => {
+    loadOrders()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  /** Collection details are ignored by the backend for orders that were paid online */
+  const buildCollection = (): CodCollectionDetails => ({
+    riderName: riderName.trim() || undefined,
+    amountCollected: amountCollected.trim() !== '' ? Number(amountCollected) : undefined,
+    collectionMethod: collectionMethod || undefined,
+    momoReference: momoReference.trim() || undefined,
+  })
+
+  const buildProof = (): DeliveryProofDetails => ({
+    recipientName: recipientName.trim() || undefined,
+    photo: photo?.dataUrl,
+    gpsLat: gps?.lat,
+    gpsLng: gps?.lng,
+    gpsAccuracy: gps?.accuracyM,
+    gpsCapturedAt: gps?.capturedAt,
+  })
+
+  const resetCollection = () => {
+    setAmountCollected('')
+    setMomoReference('')
+    setRecipientName('')
+    setPhoto(null)
+    setGps(null)
+    if (photoInputRef.current) photoInputRef.current.value = ''
+  }
+
+  const handlePhotoSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    if (file.size > MAX_PHOTO_BYTES) {
+      toast.error('Photo is too large (max 7 MB)')
+      e.target.value = ''
+      return
+    }
+    const reader = new FileReader()
+    reader.onload = () => setPhoto({ name: file.name, dataUrl: reader.result as string })
+    reader.onerror = () => toast.error('Could not read the photo')
+    reader.readAsDataURL(file)
+  }
+
+  const handleLocate = () => {
+    if (!navigator.geolocation) {
+      toast.error('Location is not available in this browser')
+      return
+    }
+    setLocating(true)
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setGps({
+          lat: position.coords.latitude,
+          lng: position.coords.longitude,
+          accuracyM: Math.round(position.coords.accuracy),
+          capturedAt: new Date(position.timestamp).toISOString(),
+        })
+        setLocating(false)
+      },
+      () => {
+        toast.error('Could not get your location')
+        setLocating(false)
+      },
+      { enableHighAccuracy: true, timeout: 15000 }
+    )
+  }
+
+  const showVerifyResult = (data?: { orderNumber?: string; warning?: string }) => {
+    if (data?.warning) {
+      toast.warning(data.warning)
+    } else {
+      toast.success(`Delivery confirmed. Order: ${data?.orderNumber ?? '—'}`)
+    }
+  }
 
   const handleVerifyByCode = async () => {
     const trimmed = code.replace(/\D/g, '').slice(0, 4)
+    if (!orderId) {
+      toast.error('Choose the order you are delivering')
+      return
+    }
     if (trimmed.length < 4) {
       toast.error('Please enter a 4-digit delivery code')
       return
     }
     setLoadingCode(true)
     try {
-      const res = await ordersApi.verifyDeliveryByCode(trimmed)
+      const res = await ordersApi.verifyDeliveryByCode(trimmed, buildCollection(), buildProof(), orderId)
       if (res.success) {
-        toast.success(`Delivery confirmed. Order: ${(res.data as { orderNumber?: string })?.orderNumber ?? '—'}`)
+        showVerifyResult(res.data)
         setCode('')
+        setOrders((prev) => prev.filter((o) => o.orderId !== orderId))
+        setOrderId('')
+        resetCollection()
       } else {
         toast.error(res.message || 'Invalid code or order already delivered')
       }
@@ -59,10 +172,11 @@ export default function ConfirmDeliveryPage() {
     const parsed = extractTokenFromQrContent(t)
     setLoadingToken(true)
     try {
-      const res = await ordersApi.verifyDeliveryByToken(parsed)
+      const res = await ordersApi.verifyDeliveryByToken(parsed, buildCollection(), buildProof())
       if (res.success) {
-        toast.success(`Delivery confirmed. Order: ${(res.data as { orderNumber?: string })?.orderNumber ?? '—'}`)
+        showVerifyResult(res.data)
         setToken('')
+        resetCollection()
       } else {
         toast.error(res.message || 'Invalid token or order already delivered')
       }
@@ -131,6 +245,111 @@ export default function ConfirmDeliveryPage() {
         </div>
 
         <div className="p-6 max-w-2xl space-y-8">
+          {/* Pay on delivery collection */}
+          <section className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-6">
+            <div className="flex items-center gap-2 mb-4">
+              <Banknote className="h-5 w-5 text-gray-600 dark:text-gray-400" />
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Pay on delivery</h2>
+            </div>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+              For cash or mobile money on delivery orders, record who collected the payment. Leave the rider name
+              empty to use the rider assigned to the order, and the amount empty if the customer paid the full order
+              total. Ignored for orders paid online.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <input
+                type="text"
+                placeholder="Rider name"
+                maxLength={100}
+                value={riderName}
+                onChange={(e) => setRiderName(e.target.value)}
+                className="px-4 py-2.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                placeholder="Amount collected (GHS)"
+                value={amountCollected}
+                onChange={(e) => setAmountCollected(e.target.value)}
+                className="px-4 py-2.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <select
+                value={collectionMethod}
+                onChange={(e) => setCollectionMethod(e.target.value as CodCollectionMethod | '')}
+                className="px-4 py-2.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">Method chosen at checkout</option>
+                <option value="cash">Cash</option>
+                <option value="mobile_money">Mobile money</option>
+              </select>
+              <input
+                type="text"
+                placeholder="Mobile money reference (optional)"
+                maxLength={100}
+                value={momoReference}
+                onChange={(e) => setMomoReference(e.target.value)}
+                className="px-4 py-2.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          </section>
+
+          {/* Proof of delivery */}
+          <section className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-6">
+            <div className="flex items-center gap-2 mb-4">
+              <Camera className="h-5 w-5 text-gray-600 dark:text-gray-400" />
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Proof of delivery</h2>
+            </div>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+              Optional, but it settles disputes: who took the order, a photo at the door and where you were. Saved with the
+              delivery and shown on the order.
+            </p>
+            <div className="space-y-3">
+              <input
+                type="text"
+                placeholder="Recipient name"
+                maxLength={100}
+                value={recipientName}
+                onChange={(e) => setRecipientName(e.target.value)}
+                className="w-full px-4 py-2.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <div className="flex flex-wrap items-center gap-2">
+                <input
+                  ref={photoInputRef}
+                  type="file"
+                  accept="image/*"
+                  capture="environment"
+                  className="hidden"
+                  onChange={handlePhotoSelect}
+                />
+                <button
+                  type="button"
+                  onClick={() => photoInputRef.current?.click()}
+                  className="inline-flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 text-sm font-medium"
+                >
+                  <Camera className="h-4 w-4 mr-2" />
+                  {photo ? 'Retake photo' : 'Take photo'}
+                </button>
+                <button
+                  type="button"
+                  onClick={handleLocate}
+                  disabled={locating}
+                  className="inline-flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 text-sm font-medium disabled:opacity-50"
+                >
+                  <MapPin className="h-4 w-4 mr-2" />
+                  {locating ? 'Locating…' : gps ? 'Update location' : 'Add my location'}
+                </button>
+              </div>
+              {(photo || gps) && (
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {photo && `Photo: ${photo.name}`}
+                  {photo && gps && ' · '}
+                  {gps && `Location ${gps.lat.toFixed(5)}, ${gps.lng.toFixed(5)} (±${gps.accuracyM ?? '?'} m)`}
+                </p>
+              )}
+            </div>
+          </section>
+
           {/* Verify by code */}
           <section className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-6">
             <div className="flex items-center gap-2 mb-4">
@@ -138,8 +357,23 @@ export default function ConfirmDeliveryPage() {
               <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Verify by 4-digit code</h2>
             </div>
             <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
-              Ask the customer for their delivery code and enter it below.
+              Choose the order, then ask the customer for its delivery code. Wrong codes count against that order.
             </p>
+            <select
+              value={orderId}
+              onChange={(e) => setOrderId(e.target.value)}
+              disabled={ordersLoading}
+              className="w-full mb-3 px-4 py-2.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">
+                {ordersLoading ? 'Loading orders…' : orders.length === 0 ? 'No orders out for delivery' : 'Choose an order'}
+              </option>
+              {orders.map((o) => (
+                <option key={o.orderId} value={o.orderId}>
+                  {[o.orderNumber, o.customerName, o.city, o.riderName ? `Rider: ${o.riderName}` : null].filter(Boolean).join(' · ')}
+                </option>
+              ))}
+            </select>
             <div className="flex gap-3">
               <input
                 type="text"
@@ -152,7 +386,7 @@ export default function ConfirmDeliveryPage() {
               />
               <button
                 onClick={handleVerifyByCode}
-                disabled={loadingCode || code.replace(/\D/g, '').length < 4}
+                disabled={loadingCode || !orderId || code.replace(/\D/g, '').length < 4}
                 className="px-6 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:pointer-events-none font-medium"
               >
                 {loadingCode ? 'Verifying…' : 'Verify'}
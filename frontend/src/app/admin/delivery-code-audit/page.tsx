@@ -0,0 +1,307 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { ShieldCheck, Loader2, RefreshCw, KeyRound, X } from 'lucide-react'
+import { toast } from 'sonner'
+import AdminSidebar from '@/components/AdminSidebar'
+import { adminDeliveryCodesApi, adminRidersApi } from '@/lib/api'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import type { DeliveryCodeStatus, DeliveryVerificationAttempt, DeliveryVerificationOutcome, Rider } from '@/types/grocery'
+
+const PAGE_SIZE = 50
+
+const OUTCOME_LABELS: Record<DeliveryVerificationOutcome, string> = {
+  confirmed: 'Confirmed',
+  wrong_code: 'Wrong code',
+  no_match: 'No match',
+  invalid_token: 'Invalid QR',
+  locked: 'Locked',
+  not_assigned: 'Not assigned',
+  order_required: 'No order named',
+  rejected: 'Rejected',
+}
+
+const selectClass = 'mt-1 block h-9 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-2 text-sm'
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-GB', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit', second: '2-digit' })
+
+export default function AdminDeliveryCodeAuditPage() {
+  const [isSidebarOpen, setIsSidebarOpen] = useState(false)
+  const [riders, setRiders] = useState<Rider[]>([])
+  const [attempts, setAttempts] = useState<DeliveryVerificationAttempt[]>([])
+  const [loading, setLoading] = useState(true)
+  const [page, setPage] = useState(1)
+  const [totalPages, setTotalPages] = useState(1)
+  const [outcome, setOutcome] = useState<DeliveryVerificationOutcome | ''>('')
+  const [method, setMethod] = useState<'code' | 'qr' | ''>('')
+  const [riderId, setRiderId] = useState('')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [order, setOrder] = useState<{ id: string; number: string | null } | null>(null)
+  const [status, setStatus] = useState<DeliveryCodeStatus | null>(null)
+  const [rotating, setRotating] = useState(false)
+
+  useEffect(() => {
+    adminRidersApi
+      .list({ includeInactive: true })
+      .then((res) => {
+        if (res.success && res.data) setRiders(res.data)
+      })
+      .catch(() => {})
+  }, [])
+
+  const loadAttempts = () => {
+    setLoading(true)
+    return adminDeliveryCodesApi
+      .listAttempts({
+        orderId: order?.id,
+        riderId: riderId || undefined,
+        outcome: outcome || undefined,
+        method: method || undefined,
+        from: from || undefined,
+        to: to || undefined,
+        page,
+        limit: PAGE_SIZE,
+      })
+      .then((res) => {
+        if (res.success && res.data) {
+          setAttempts(res.data)
+          setTotalPages(Math.max(res.pagination?.totalPages ?? 1, 1))
+        } else {
+          toast.error(res.message ?? 'Failed to load verification attempts')
+        }
+      })
+      .catch(() => toast.error('Failed to load verification attempts'))
+      .finally(() => setLoading(false))
+  }
+
+  useEffect(() => {
+    loadAttempts()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [page, order, riderId, outcome, method, from, to])
+
+  useEffect(() => {
+    setStatus(null)
+    if (!order) return
+    adminDeliveryCodesApi
+      .getStatus(order.id)
+      .then((res) => {
+        if (res.success && res.data) setStatus(res.data)
+      })
+      .catch(() => toast.error('Failed to load delivery code status'))
+  }, [order])
+
+  const filterBy = (apply: () => void) => {
+    apply()
+    setPage(1)
+  }
+
+  const handleRotate = async () => {
+    if (!order) return
+    if (!confirm(`Issue a new delivery code for ${order.number ?? 'this order'}? The customer is emailed the new code and the old one stops working.`)) return
+    setRotating(true)
+    try {
+      const res = await adminDeliveryCodesApi.rotate(order.id)
+      if (res.success) {
+        if (res.data) setStatus(res.data)
+        toast.success(res.message ?? 'New delivery code sent to the customer')
+      } else {
+        toast.error(res.message ?? 'Failed to issue a new code')
+      }
+    } catch {
+      toast.error('Failed to issue a new code')
+    } finally {
+      setRotating(false)
+    }
+  }
+
+  const locked = status?.lockedUntil && new Date(status.lockedUntil).getTime() > Date.now()
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <AdminSidebar currentPage="delivery-code-audit" isSidebarOpen={isSidebarOpen} setIsSidebarOpen={setIsSidebarOpen} />
+      <div className="lg:ml-64 container mx-auto p-6 space-y-6">
+      <div className="flex items-center gap-3">
+        <ShieldCheck className="h-8 w-8 text-[#D35F0E]" />
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Delivery Code Audit</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Every delivery confirmation by code or QR, including refused ones. Repeated wrong codes on one order replace its code and then lock it.
+          </p>
+        </div>
+      </div>
+
+      {order && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex flex-wrap items-center justify-between gap-2">
+              <span>Order {order.number ?? order.id}</span>
+              <span className="flex gap-2">
+                <Button type="button" onClick={handleRotate} disabled={rotating} className="bg-[#D35F0E] hover:bg-[#D35F0E]/90" size="sm">
+                  {rotating ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <KeyRound className="h-4 w-4 mr-1" />}
+                  New code
+                </Button>
+                <Button type="button" variant="outline" size="sm" onClick={() => filterBy(() => setOrder(null))}>
+                  <X className="h-4 w-4 mr-1" />
+                  All orders
+                </Button>
+              </span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm text-gray-700 dark:text-gray-300">
+            {status ? (
+              <p>
+                {status.codeFailures} wrong code(s) on the current code · {status.totalFailures} in total · replaced {status.rotations} time(s)
+                {status.rotatedAt && `, last ${formatDateTime(status.rotatedAt)}`}
+                {locked && <span className="ml-2 font-medium text-red-600">Locked until {formatDateTime(status.lockedUntil!)}</span>}
+              </p>
+            ) : (
+              <p className="text-gray-500">Loading…</p>
+            )}
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">A new code also lifts a lock. Only orders awaiting delivery can get one.</p>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span>Attempts</span>
+            <Button type="button" variant="outline" size="sm" onClick={loadAttempts} disabled={loading}>
+              <RefreshCw className={`h-4 w-4 mr-1 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <Label htmlFor="audit_outcome">Outcome</Label>
+              <select
+                id="audit_outcome"
+                value={outcome}
+                onChange={(e) => filterBy(() => setOutcome(e.target.value as DeliveryVerificationOutcome | ''))}
+                className={selectClass}
+              >
+                <option value="">All</option>
+                {(Object.keys(OUTCOME_LABELS) as DeliveryVerificationOutcome[]).map((key) => (
+                  <option key={key} value={key}>
+                    {OUTCOME_LABELS[key]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="audit_method">Method</Label>
+              <select id="audit_method" value={method} onChange={(e) => filterBy(() => setMethod(e.target.value as 'code' | 'qr' | ''))} className={selectClass}>
+                <option value="">All</option>
+                <option value="code">Code</option>
+                <option value="qr">QR</option>
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="audit_rider">Rider</Label>
+              <select id="audit_rider" value={riderId} onChange={(e) => filterBy(() => setRiderId(e.target.value))} className={selectClass}>
+                <option value="">All</option>
+                {riders.map((rider) => (
+                  <option key={rider.id} value={rider.id}>
+                    {rider.fullName}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="audit_from">From</Label>
+              <Input id="audit_from" type="date" value={from} onChange={(e) => filterBy(() => setFrom(e.target.value))} className="mt-1" />
+            </div>
+            <div>
+              <Label htmlFor="audit_to">To</Label>
+              <Input id="audit_to" type="date" value={to} onChange={(e) => filterBy(() => setTo(e.target.value))} className="mt-1" />
+            </div>
+          </div>
+
+          <div className="overflow-x-auto rounded-lg border border-gray-200 dark:border-gray-700">
+            <table className="w-full">
+              <thead className="bg-gray-50 dark:bg-gray-700">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Time</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Order</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Method</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Outcome</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">By</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">IP</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Detail</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {attempts.length === 0 ? (
+                  <tr>
+                    <td colSpan={7} className="px-4 py-8 text-center text-gray-500 dark:text-gray-400">
+                      {loading ? 'Loading…' : 'No verification attempts.'}
+                    </td>
+                  </tr>
+                ) : (
+                  attempts.map((attempt) => (
+                    <tr key={attempt.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                      <td className="px-4 py-3 text-sm text-gray-900 dark:text-white whitespace-nowrap">{formatDateTime(attempt.createdAt)}</td>
+                      <td className="px-4 py-3 text-sm">
+                        {attempt.orderId ? (
+                          <button
+                            type="button"
+                            onClick={() => filterBy(() => setOrder({ id: attempt.orderId!, number: attempt.orderNumber }))}
+                            className="text-[#D35F0E] hover:underline"
+                          >
+                            {attempt.orderNumber ?? attempt.orderId.slice(0, 8)}
+                          </button>
+                        ) : (
+                          '—'
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">{attempt.method === 'qr' ? 'QR' : 'Code'}</td>
+                      <td className={`px-4 py-3 text-sm font-medium ${attempt.outcome === 'confirmed' ? 'text-green-600' : 'text-red-600'}`}>
+                        {OUTCOME_LABELS[attempt.outcome]}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">
+                        {attempt.riderName ?? (attempt.adminId ? 'Admin' : '—')}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300" title={attempt.userAgent ?? undefined}>
+                        {attempt.ip ?? '—'}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">{attempt.detail ?? '—'}</td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+            {totalPages > 1 && (
+              <div className="flex items-center justify-between px-4 py-3 border-t border-gray-200 dark:border-gray-700 text-sm">
+                <button
+                  type="button"
+                  onClick={() => setPage((p) => Math.max(p - 1, 1))}
+                  disabled={page <= 1}
+                  className="text-blue-600 hover:text-blue-700 disabled:opacity-50 dark:text-blue-400"
+                >
+                  Previous
+                </button>
+                <span className="text-gray-600 dark:text-gray-400">Page {page} of {totalPages}</span>
+                <button
+                  type="button"
+                  onClick={() => setPage((p) => Math.min(p + 1, totalPages))}
+                  disabled={page >= totalPages}
+                  className="text-blue-600 hover:text-blue-700 disabled:opacity-50 dark:text-blue-400"
+                >
+                  Next
+                </button>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,265 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Route, Loader2, Printer, Navigation, Play, AlertTriangle } from 'lucide-react'
+import { toast } from 'sonner'
+import AdminSidebar from '@/components/AdminSidebar'
+import { adminDeliveryRoutesApi, adminRidersApi } from '@/lib/api'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import type { DeliveryRoute, DeliveryRoutePlan, Rider } from '@/types/grocery'
+
+const UNROUTED_REASONS: Record<DeliveryRoutePlan['unrouted'][number]['reason'], string> = {
+  no_pin: 'no map pin',
+  over_capacity: 'over rider capacity',
+  needs_reschedule: 'needs rescheduling',
+}
+
+const todayIso = () => new Date().toISOString().slice(0, 10)
+
+const formatTime = (iso: string) => iso.slice(11, 16)
+
+export default function AdminDeliveryRoutesPage() {
+  const [isSidebarOpen, setIsSidebarOpen] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [riders, setRiders] = useState<Rider[]>([])
+  const [date, setDate] = useState(todayIso)
+  const [selectedRiders, setSelectedRiders] = useState<string[]>([])
+  const [capacity, setCapacity] = useState('15')
+  const [assignRiders, setAssignRiders] = useState(true)
+  const [planning, setPlanning] = useState(false)
+  const [routes, setRoutes] = useState<DeliveryRoute[]>([])
+  const [routesLoading, setRoutesLoading] = useState(false)
+  const [unrouted, setUnrouted] = useState<DeliveryRoutePlan['unrouted']>([])
+  const [printingId, setPrintingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    Promise.all([
+      adminRidersApi.list().then((res) => {
+        if (res.success && res.data) setRiders(res.data)
+      }),
+      loadRoutes(date),
+    ])
+      .catch(() => toast.error('Failed to load delivery routes'))
+      .finally(() => setLoading(false))
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  const loadRoutes = (routeDate: string) => {
+    setRoutesLoading(true)
+    setUnrouted([])
+    return adminDeliveryRoutesApi
+      .list(routeDate)
+      .then((res) => {
+        if (res.success && res.data) setRoutes(res.data)
+        else toast.error(res.message ?? 'Failed to load delivery routes')
+      })
+      .catch(() => toast.error('Failed to load delivery routes'))
+      .finally(() => setRoutesLoading(false))
+  }
+
+  const toggleRider = (id: string) =>
+    setSelectedRiders((current) => (current.includes(id) ? current.filter((r) => r !== id) : [...current, id]))
+
+  const handlePlan = async () => {
+    const perBatch = parseInt(capacity, 10)
+    if (selectedRiders.length === 0 && (Number.isNaN(perBatch) || perBatch < 1 || perBatch > 100)) {
+      toast.error('Stops per route must be 1-100')
+      return
+    }
+    if (routes.length > 0 && !confirm(`Replace the ${routes.length} route(s) already planned for ${date}?`)) return
+
+    setPlanning(true)
+    try {
+      const res = await adminDeliveryRoutesApi.plan({
+        date,
+        riderIds: selectedRiders.length > 0 ? selectedRiders : undefined,
+        capacity: selectedRiders.length > 0 ? undefined : perBatch,
+        assignRiders: selectedRiders.length > 0 && assignRiders,
+      })
+      if (res.success && res.data) {
+        setRoutes(res.data.routes)
+        setUnrouted(res.data.unrouted)
+        toast.success(res.message ?? 'Routes planned')
+      } else {
+        toast.error(res.message ?? 'Failed to plan routes')
+      }
+    } catch {
+      toast.error('Failed to plan routes')
+    } finally {
+      setPlanning(false)
+    }
+  }
+
+  const handlePrint = async (route: DeliveryRoute) => {
+    setPrintingId(route.id)
+    try {
+      const url = await adminDeliveryRoutesApi.runSheet(route.id)
+      window.open(url, '_blank')
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to create run sheet')
+    } finally {
+      setPrintingId(null)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+        <AdminSidebar currentPage="delivery-routes" isSidebarOpen={isSidebarOpen} setIsSidebarOpen={setIsSidebarOpen} />
+        <div className="lg:ml-64 flex items-center justify-center min-h-[200px]">
+          <Loader2 className="h-8 w-8 animate-spin text-[#D35F0E]" />
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <AdminSidebar currentPage="delivery-routes" isSidebarOpen={isSidebarOpen} setIsSidebarOpen={setIsSidebarOpen} />
+      <div className="lg:ml-64 container mx-auto p-6 space-y-6">
+      <div className="flex items-center gap-3">
+        <Route className="h-8 w-8 text-[#D35F0E]" />
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Delivery Routes</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Groups the day&apos;s shipped orders into rider batches by area and orders the stops from the Delivery Settings warehouse.
+          </p>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Plan</CardTitle>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Takes shipped orders with a delivery slot on the date, and shipped orders without a slot. Distances are straight lines, so check the
+            order against local roads. Planning a date again replaces its routes.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <Label htmlFor="route_date">Date</Label>
+              <Input
+                id="route_date"
+                type="date"
+                value={date}
+                onChange={(e) => {
+                  setDate(e.target.value)
+                  if (e.target.value) loadRoutes(e.target.value)
+                }}
+                className="mt-1"
+              />
+            </div>
+            {selectedRiders.length === 0 && (
+              <div>
+                <Label htmlFor="route_capacity">Stops per route</Label>
+                <Input id="route_capacity" type="number" min="1" max="100" step="1" value={capacity} onChange={(e) => setCapacity(e.target.value)} className="mt-1 w-32" />
+              </div>
+            )}
+            {selectedRiders.length > 0 && (
+              <div className="flex items-center gap-2 pb-2">
+                <Switch id="assign_riders" checked={assignRiders} onCheckedChange={setAssignRiders} />
+                <Label htmlFor="assign_riders">Assign orders to the riders</Label>
+              </div>
+            )}
+            <Button type="button" onClick={handlePlan} disabled={planning || !date} className="bg-[#D35F0E] hover:bg-[#D35F0E]/90">
+              {planning ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+              Plan routes
+            </Button>
+          </div>
+
+          <div>
+            <Label>Riders on shift</Label>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+              One route per rider, sized by their stops per route. Without riders, routes are planned by stop count and not assigned.
+            </p>
+            {riders.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No active riders.</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {riders.map((rider) => (
+                  <button
+                    key={rider.id}
+                    type="button"
+                    onClick={() => toggleRider(rider.id)}
+                    className={`px-3 py-1.5 rounded-full text-sm border ${selectedRiders.includes(rider.id) ? 'bg-[#D35F0E] text-white border-[#D35F0E]' : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200'}`}
+                  >
+                    {rider.fullName} · {rider.routeCapacity}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {unrouted.length > 0 && (
+            <div className="rounded-lg border border-amber-300 bg-amber-50 dark:bg-amber-900/20 p-3 text-sm text-amber-800 dark:text-amber-200">
+              <p className="font-medium flex items-center gap-2">
+                <AlertTriangle className="h-4 w-4" />
+                {unrouted.length} order(s) not on a route
+              </p>
+              <p className="mt-1">{unrouted.map((o) => `${o.orderNumber} (${UNROUTED_REASONS[o.reason]})`).join(', ')}</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {routes.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">{routesLoading ? 'Loading…' : `No routes planned for ${date}.`}</p>
+      ) : (
+        routes.map((route) => (
+          <Card key={route.id}>
+            <CardHeader>
+              <CardTitle className="flex flex-wrap items-center justify-between gap-2">
+                <span>
+                  Route {route.batchNumber} · {route.riderName ?? 'No rider'}
+                  <span className="ml-2 text-sm font-normal text-gray-500 dark:text-gray-400">
+                    {route.stops.length} stop(s) · {route.totalDistanceKm.toFixed(1)} km
+                  </span>
+                </span>
+                <span className="flex flex-wrap gap-2">
+                  {route.mapLinks.map((link, index) => (
+                    <Button key={link} type="button" variant="outline" size="sm" onClick={() => window.open(link, '_blank', 'noopener')}>
+                      <Navigation className="h-4 w-4 mr-1" />
+                      {route.mapLinks.length > 1 ? `Maps ${index + 1}/${route.mapLinks.length}` : 'Google Maps'}
+                    </Button>
+                  ))}
+                  <Button type="button" variant="outline" size="sm" onClick={() => handlePrint(route)} disabled={printingId === route.id}>
+                    {printingId === route.id ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Printer className="h-4 w-4 mr-1" />}
+                    Run sheet
+                  </Button>
+                </span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ol className="divide-y divide-gray-200 dark:divide-gray-700 rounded-lg border border-gray-200 dark:border-gray-700">
+                {route.stops.map((stop, index) => (
+                  <li key={stop.orderId} className="flex gap-3 p-3 text-sm">
+                    <span className="w-6 shrink-0 font-semibold text-[#D35F0E]">{index + 1}</span>
+                    <div className="min-w-0 flex-1">
+                      <p className="font-medium text-gray-900 dark:text-white">
+                        {stop.orderNumber}
+                        {stop.customerName && <span className="ml-2 font-normal text-gray-600 dark:text-gray-300">{stop.customerName}</span>}
+                        {stop.phone && <span className="ml-2 font-normal text-gray-500">{stop.phone}</span>}
+                      </p>
+                      <p className="text-gray-600 dark:text-gray-300 truncate">{stop.address}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {stop.legKm.toFixed(1)} km from previous
+                        {stop.deliveryWindowStart && ` · Slot ${formatTime(stop.deliveryWindowStart)}${stop.deliveryWindowEnd ? `–${formatTime(stop.deliveryWindowEnd)}` : ''}`}
+                        {stop.amountToCollect > 0 && ` · Collect GHS ${stop.amountToCollect.toFixed(2)}`}
+                      </p>
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            </CardContent>
+          </Card>
+        ))
+      )}
+      </div>
+    </div>
+  )
+}
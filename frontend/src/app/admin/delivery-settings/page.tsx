@@ -1,14 +1,70 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { Truck, MapPin, Save, Loader2 } from 'lucide-react'
+import { Truck, MapPin, Save, Loader2, Map as MapIcon, Plus, Pencil, Trash2, Undo2, X } from 'lucide-react'
+import Link from 'next/link'
+import { toast } from 'sonner'
 import AdminSidebar from '@/components/AdminSidebar'
 import LocationPicker from '@/components/LocationPicker'
+import ZoneMapEditor, { ZONE_COLORS } from '@/components/ZoneMapEditor'
 import { deliveryApi } from '@/lib/api'
+import { formatPrice } from '@/lib/utils'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import type { DeliveryDistanceBand, DeliveryPeakSurcharge, DeliveryZone, DeliveryZoneFeeType, DeliveryZonePoint } from '@/types/grocery'
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+/** Form rows keep numbers as strings while typing */
+interface BandRow {
+  upToKm: string
+  pricePerKm: string
+}
+
+interface SurchargeRow {
+  label: string
+  days: number[]
+  startTime: string
+  endTime: string
+  amount: string
+}
+
+const optionalAmount = (value: string) => (value.trim() !== '' ? parseFloat(value) : null)
+const isBadAmount = (n: number | null) => n != null && (Number.isNaN(n) || n < 0)
+
+const FEE_TYPE_LABELS: Record<DeliveryZoneFeeType, string> = {
+  flat: 'Flat fee',
+  per_km: 'Per km',
+  blocked: 'Not delivered',
+}
+
+/** Zone being created (id null) or edited; numbers kept as strings while typing */
+interface ZoneForm {
+  id: string | null
+  name: string
+  feeType: DeliveryZoneFeeType
+  flatFee: string
+  pricePerKm: string
+  minOrderValue: string
+  sortOrder: string
+  active: boolean
+}
+
+function zoneToForm(zone: DeliveryZone | null, nextSortOrder: number): ZoneForm {
+  return {
+    id: zone?.id ?? null,
+    name: zone?.name ?? '',
+    feeType: zone?.feeType ?? 'flat',
+    flatFee: zone?.flatFee != null ? String(zone.flatFee) : '',
+    pricePerKm: zone?.pricePerKm != null ? String(zone.pricePerKm) : '',
+    minOrderValue: zone && zone.minOrderValue > 0 ? String(zone.minOrderValue) : '',
+    sortOrder: String(zone?.sortOrder ?? nextSortOrder),
+    active: zone?.active ?? true,
+  }
+}
 
 export default function AdminDeliverySettingsPage() {
   const [isSidebarOpen, setIsSidebarOpen] = useState(false)
@@ -16,7 +72,17 @@ export default function AdminDeliverySettingsPage() {
   const [warehouseLng, setWarehouseLng] = useState<string>('')
   const [warehouseAddress, setWarehouseAddress] = useState<string>('')
   const [pricePerKm, setPricePerKm] = useState<string>('')
-  const [pricePerMeter, setPricePerMeter] = useState<string>('')
+  const [baseFee, setBaseFee] = useState<string>('')
+  const [bands, setBands] = useState<BandRow[]>([])
+  const [minFee, setMinFee] = useState<string>('')
+  const [maxFee, setMaxFee] = useState<string>('')
+  const [freeDeliveryThreshold, setFreeDeliveryThreshold] = useState<string>('')
+  const [surcharges, setSurcharges] = useState<SurchargeRow[]>([])
+  const [restrictToZones, setRestrictToZones] = useState(false)
+  const [zones, setZones] = useState<DeliveryZone[]>([])
+  const [zoneForm, setZoneForm] = useState<ZoneForm | null>(null)
+  const [draft, setDraft] = useState<DeliveryZonePoint[] | null>(null)
+  const [zoneSaving, setZoneSaving] = useState(false)
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
@@ -31,23 +97,166 @@ export default function AdminDeliverySettingsPage() {
           setWarehouseLng(d.warehouseLng != null ? String(d.warehouseLng) : '')
           setWarehouseAddress(d.warehouseAddress ?? '')
           setPricePerKm(d.pricePerKm != null ? String(d.pricePerKm) : '')
-          setPricePerMeter(d.pricePerMeter != null ? String(d.pricePerMeter) : '')
+          setBaseFee(d.baseFee ? String(d.baseFee) : '')
+          setBands((d.distanceBands ?? []).map((b) => ({ upToKm: b.upToKm != null ? String(b.upToKm) : '', pricePerKm: String(b.pricePerKm) })))
+          setMinFee(d.minFee != null ? String(d.minFee) : '')
+          setMaxFee(d.maxFee != null ? String(d.maxFee) : '')
+          setFreeDeliveryThreshold(d.freeDeliveryThreshold != null ? String(d.freeDeliveryThreshold) : '')
+          setSurcharges((d.peakSurcharges ?? []).map((sc) => ({ ...sc, amount: String(sc.amount) })))
+          setRestrictToZones(d.restrictToZones ?? false)
         }
       })
       .catch(() => setMessage({ type: 'error', text: 'Failed to load settings' }))
       .finally(() => setLoading(false))
+    loadZones()
   }, [])
 
+  const loadZones = () => {
+    deliveryApi
+      .getZones()
+      .then((res) => {
+        if (res.success && res.data) setZones(res.data)
+      })
+      .catch(() => toast.error('Failed to load delivery zones'))
+  }
+
+  const startZone = (zone: DeliveryZone | null) => {
+    const nextSortOrder = zones.reduce((max, z) => Math.max(max, z.sortOrder + 1), 0)
+    setZoneForm(zoneToForm(zone, nextSortOrder))
+    setDraft(zone ? zone.polygon : [])
+  }
+
+  const cancelZone = () => {
+    setZoneForm(null)
+    setDraft(null)
+  }
+
+  const handleSaveZone = async () => {
+    if (!zoneForm || !draft) return
+    const parseAmount = (value: string) => (value.trim() !== '' ? parseFloat(value) : null)
+    const flatFee = parseAmount(zoneForm.flatFee)
+    const zonePricePerKm = parseAmount(zoneForm.pricePerKm)
+    const minOrderValue = parseAmount(zoneForm.minOrderValue) ?? 0
+    const sortOrder = parseInt(zoneForm.sortOrder, 10)
+
+    if (!zoneForm.name.trim()) {
+      toast.error('Give the zone a name')
+      return
+    }
+    if (draft.length < 3) {
+      toast.error('Click at least 3 points on the map to outline the zone')
+      return
+    }
+    if (zoneForm.feeType === 'flat' && (flatFee == null || Number.isNaN(flatFee) || flatFee < 0)) {
+      toast.error('Flat fee must be a non-negative number')
+      return
+    }
+    if ([flatFee, zonePricePerKm, minOrderValue].some((n) => n != null && (Number.isNaN(n) || n < 0))) {
+      toast.error('Fees and minimum order value must be non-negative numbers')
+      return
+    }
+    if (Number.isNaN(sortOrder)) {
+      toast.error('Sort order must be a whole number')
+      return
+    }
+
+    const input = {
+      name: zoneForm.name.trim(),
+      polygon: draft,
+      feeType: zoneForm.feeType,
+      flatFee: zoneForm.feeType === 'flat' ? flatFee : null,
+      pricePerKm: zoneForm.feeType === 'per_km' ? zonePricePerKm : null,
+      minOrderValue: zoneForm.feeType === 'blocked' ? 0 : minOrderValue,
+      sortOrder,
+      active: zoneForm.active,
+    }
+
+    setZoneSaving(true)
+    try {
+      const res = zoneForm.id ? await deliveryApi.updateZone(zoneForm.id, input) : await deliveryApi.createZone(input)
+      if (res.success) {
+        toast.success(zoneForm.id ? 'Zone updated' : 'Zone created')
+        cancelZone()
+        loadZones()
+      } else {
+        toast.error(res.message ?? 'Failed to save zone')
+      }
+    } catch {
+      toast.error('Failed to save zone')
+    } finally {
+      setZoneSaving(false)
+    }
+  }
+
+  const handleDeleteZone = async (zone: DeliveryZone) => {
+    if (!confirm(`Delete the zone "${zone.name}"? Addresses inside it will use the other zones or the warehouse pricing.`)) return
+    try {
+      const res = await deliveryApi.deleteZone(zone.id)
+      if (res.success) {
+        toast.success('Zone deleted')
+        if (zoneForm?.id === zone.id) cancelZone()
+        loadZones()
+      } else {
+        toast.error(res.message ?? 'Failed to delete zone')
+      }
+    } catch {
+      toast.error('Failed to delete zone')
+    }
+  }
+
+  const describeZoneFee = (zone: DeliveryZone) => {
+    if (zone.feeType === 'blocked') return 'Not delivered'
+    const fee = zone.feeType === 'flat'
+      ? formatPrice(zone.flatFee ?? 0)
+      : zone.pricePerKm != null ? `${formatPrice(zone.pricePerKm)} / km` : 'Warehouse distance pricing'
+    return zone.minOrderValue > 0 ? `${fee} · min. order ${formatPrice(zone.minOrderValue)}` : fee
+  }
+
+  const warehousePoint = warehouseLat && warehouseLng && !Number.isNaN(parseFloat(warehouseLat)) && !Number.isNaN(parseFloat(warehouseLng))
+    ? { lat: parseFloat(warehouseLat), lng: parseFloat(warehouseLng) }
+    : null
+
   const handleSave = async () => {
     const lat = warehouseLat.trim() ? parseFloat(warehouseLat) : null
     const lng = warehouseLng.trim() ? parseFloat(warehouseLng) : null
     const km = pricePerKm.trim() !== '' ? parseFloat(pricePerKm) : 0
-    const meter = pricePerMeter.trim() !== '' ? parseFloat(pricePerMeter) : null
+    const base = optionalAmount(baseFee) ?? 0
+    const min = optionalAmount(minFee)
+    const max = optionalAmount(maxFee)
+    const threshold = optionalAmount(freeDeliveryThreshold)
+    const distanceBands: DeliveryDistanceBand[] = bands.map((b) => ({ upToKm: optionalAmount(b.upToKm), pricePerKm: parseFloat(b.pricePerKm) }))
+    const peakSurcharges: DeliveryPeakSurcharge[] = surcharges.map((sc) => ({ ...sc, label: sc.label.trim(), amount: parseFloat(sc.amount) }))
 
     if (Number.isNaN(km) || km < 0) {
       setMessage({ type: 'error', text: 'Price per km must be a non-negative number' })
       return
     }
+    if ([base, min, max, threshold].some(isBadAmount)) {
+      setMessage({ type: 'error', text: 'Base fee, caps and free delivery threshold must be non-negative numbers' })
+      return
+    }
+    if (min != null && max != null && min > max) {
+      setMessage({ type: 'error', text: 'Minimum fee cannot be more than the maximum fee' })
+      return
+    }
+    for (let i = 0; i < distanceBands.length; i++) {
+      const band = distanceBands[i]
+      const previous = i > 0 ? distanceBands[i - 1].upToKm : 0
+      if (Number.isNaN(band.pricePerKm) || band.pricePerKm < 0 || isBadAmount(band.upToKm)) {
+        setMessage({ type: 'error', text: `Band ${i + 1}: distance and price must be non-negative numbers` })
+        return
+      }
+      if (band.upToKm == null ? i !== distanceBands.length - 1 : previous == null || band.upToKm <= previous) {
+        setMessage({ type: 'error', text: 'Distance bands must end at increasing distances; only the last band can be open-ended' })
+        return
+      }
+    }
+    for (const sc of peakSurcharges) {
+      if (!sc.label || !sc.days.length || !sc.startTime || !sc.endTime || sc.startTime >= sc.endTime || Number.isNaN(sc.amount) || sc.amount < 0) {
+        setMessage({ type: 'error', text: `Peak surcharge "${sc.label || 'unnamed'}" needs a label, at least one day, an end time after the start time and an amount` })
+        return
+      }
+    }
     if (lat != null && (Number.isNaN(lat) || lat < -90 || lat > 90)) {
       setMessage({ type: 'error', text: 'Warehouse latitude must be between -90 and 90' })
       return
@@ -65,11 +274,17 @@ export default function AdminDeliverySettingsPage() {
         warehouseLng: lng ?? undefined,
         warehouseAddress: warehouseAddress.trim() || undefined,
         pricePerKm: km,
-        pricePerMeter: meter ?? undefined,
+        restrictToZones,
+        baseFee: base,
+        distanceBands,
+        minFee: min,
+        maxFee: max,
+        freeDeliveryThreshold: threshold,
+        peakSurcharges,
       })
       .then((res) => {
         if (res.success) {
-          setMessage({ type: 'success', text: 'Delivery settings saved. Checkout delivery fee will use this warehouse and rate.' })
+          setMessage({ type: 'success', text: 'Delivery settings saved. New checkouts will use this warehouse and pricing.' })
         } else {
           setMessage({ type: 'error', text: res.message ?? 'Save failed' })
         }
@@ -119,6 +334,9 @@ export default function AdminDeliverySettingsPage() {
           <p className="text-sm text-gray-500 dark:text-gray-400">
             Pick the warehouse address. Distance from this point to the customer delivery address is used to compute the delivery fee. Search and select a location (Ghana); coordinates are saved automatically.
           </p>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Once warehouses are set up on the <Link href="/admin/warehouses" className="text-[#D35F0E] hover:underline">Warehouses</Link> page, the fee is measured from the warehouse the order ships from instead.
+          </p>
         </CardHeader>
         <CardContent className="space-y-4">
           <div>
@@ -149,13 +367,17 @@ export default function AdminDeliverySettingsPage() {
 
       <Card>
         <CardHeader>
-          <CardTitle>Delivery rate</CardTitle>
+          <CardTitle>Delivery pricing</CardTitle>
           <p className="text-sm text-gray-500 dark:text-gray-400">
-            Fee = distance (km) × price per km. Optionally set price per meter for finer control.
+            Fee = base fee + distance charged through the bands, kept between the minimum and maximum fee. Peak surcharges are added on top, and delivery is free once the basket reaches the free delivery threshold.
           </p>
         </CardHeader>
-        <CardContent className="space-y-4">
-          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="base_fee">Base fee (GHS)</Label>
+              <Input id="base_fee" type="number" min="0" step="0.01" placeholder="0.00" value={baseFee} onChange={(e) => setBaseFee(e.target.value)} className="mt-1" />
+            </div>
             <div>
               <Label htmlFor="price_per_km">Price per km (GHS) *</Label>
               <Input
@@ -168,21 +390,328 @@ export default function AdminDeliverySettingsPage() {
                 onChange={(e) => setPricePerKm(e.target.value)}
                 className="mt-1"
               />
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Used past the last band, or for all distance without bands.</p>
             </div>
             <div>
-              <Label htmlFor="price_per_meter">Price per meter (GHS, optional)</Label>
+              <Label htmlFor="free_delivery_threshold">Free delivery from (GHS)</Label>
               <Input
-                id="price_per_meter"
+                id="free_delivery_threshold"
                 type="number"
                 min="0"
-                step="0.0001"
-                placeholder="e.g. 0.0025"
-                value={pricePerMeter}
-                onChange={(e) => setPricePerMeter(e.target.value)}
+                step="0.01"
+                placeholder="Never free"
+                value={freeDeliveryThreshold}
+                onChange={(e) => setFreeDeliveryThreshold(e.target.value)}
                 className="mt-1"
               />
             </div>
+            <div>
+              <Label htmlFor="min_fee">Minimum fee (GHS)</Label>
+              <Input id="min_fee" type="number" min="0" step="0.01" placeholder="No minimum" value={minFee} onChange={(e) => setMinFee(e.target.value)} className="mt-1" />
+            </div>
+            <div>
+              <Label htmlFor="max_fee">Maximum fee (GHS)</Label>
+              <Input id="max_fee" type="number" min="0" step="0.01" placeholder="No maximum" value={maxFee} onChange={(e) => setMaxFee(e.target.value)} className="mt-1" />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <div>
+                <Label>Distance bands</Label>
+                <p className="text-xs text-gray-500 dark:text-gray-400">Each band prices the distance from the end of the previous band. Leave the last band&apos;s distance empty for no limit.</p>
+              </div>
+              <Button type="button" variant="outline" size="sm" onClick={() => setBands([...bands, { upToKm: '', pricePerKm: '' }])}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add band
+              </Button>
+            </div>
+            {bands.map((band, i) => (
+              <div key={i} className="grid grid-cols-[1fr_1fr_auto] items-end gap-3">
+                <div>
+                  <Label htmlFor={`band_to_${i}`} className="text-xs">
+                    From {i === 0 ? '0' : bands[i - 1].upToKm || '?'} km up to (km)
+                  </Label>
+                  <Input
+                    id={`band_to_${i}`}
+                    type="number"
+                    min="0"
+                    step="0.1"
+                    placeholder="No limit"
+                    value={band.upToKm}
+                    onChange={(e) => setBands(bands.map((b, j) => (j === i ? { ...b, upToKm: e.target.value } : b)))}
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor={`band_rate_${i}`} className="text-xs">Price per km (GHS)</Label>
+                  <Input
+                    id={`band_rate_${i}`}
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={band.pricePerKm}
+                    onChange={(e) => setBands(bands.map((b, j) => (j === i ? { ...b, pricePerKm: e.target.value } : b)))}
+                    className="mt-1"
+                  />
+                </div>
+                <Button type="button" variant="ghost" size="sm" onClick={() => setBands(bands.filter((_, j) => j !== i))} title="Remove band" className="text-red-600 hover:text-red-700">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
           </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <div>
+                <Label>Peak surcharges</Label>
+                <p className="text-xs text-gray-500 dark:text-gray-400">Added to orders placed inside the window (Ghana time). Split windows that cross midnight into two.</p>
+              </div>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setSurcharges([...surcharges, { label: '', days: [1, 2, 3, 4, 5], startTime: '17:00', endTime: '19:00', amount: '' }])}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add surcharge
+              </Button>
+            </div>
+            {surcharges.map((sc, i) => {
+              const update = (patch: Partial<SurchargeRow>) => setSurcharges(surcharges.map((row, j) => (j === i ? { ...row, ...patch } : row)))
+              return (
+                <div key={i} className="space-y-3 rounded-lg border border-gray-200 dark:border-gray-700 p-3">
+                  <div className="grid grid-cols-1 sm:grid-cols-[2fr_1fr_1fr_1fr_auto] items-end gap-3">
+                    <div>
+                      <Label htmlFor={`surcharge_label_${i}`} className="text-xs">Label</Label>
+                      <Input id={`surcharge_label_${i}`} placeholder="e.g. Evening rush" value={sc.label} onChange={(e) => update({ label: e.target.value })} className="mt-1" />
+                    </div>
+                    <div>
+                      <Label htmlFor={`surcharge_start_${i}`} className="text-xs">From</Label>
+                      <Input id={`surcharge_start_${i}`} type="time" value={sc.startTime} onChange={(e) => update({ startTime: e.target.value })} className="mt-1" />
+                    </div>
+                    <div>
+                      <Label htmlFor={`surcharge_end_${i}`} className="text-xs">Until</Label>
+                      <Input id={`surcharge_end_${i}`} type="time" value={sc.endTime} onChange={(e) => update({ endTime: e.target.value })} className="mt-1" />
+                    </div>
+                    <div>
+                      <Label htmlFor={`surcharge_amount_${i}`} className="text-xs">Amount (GHS)</Label>
+                      <Input id={`surcharge_amount_${i}`} type="number" min="0" step="0.01" value={sc.amount} onChange={(e) => update({ amount: e.target.value })} className="mt-1" />
+                    </div>
+                    <Button type="button" variant="ghost" size="sm" onClick={() => setSurcharges(surcharges.filter((_, j) => j !== i))} title="Remove surcharge" className="text-red-600 hover:text-red-700">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {WEEKDAYS.map((day, d) => {
+                      const selected = sc.days.includes(d)
+                      return (
+                        <button
+                          key={day}
+                          type="button"
+                          onClick={() => update({ days: selected ? sc.days.filter((x) => x !== d) : [...sc.days, d].sort() })}
+                          className={`px-2 py-1 text-xs rounded border ${
+                            selected
+                              ? 'bg-[#D35F0E] border-[#D35F0E] text-white'
+                              : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300'
+                          }`}
+                        >
+                          {day}
+                        </button>
+                      )
+                    })}
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <MapIcon className="h-5 w-5" />
+            Delivery zones
+          </CardTitle>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Draw areas with their own fee and minimum order value. When zones overlap, the lowest sort order wins. Addresses outside every zone use the delivery pricing above.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="restrict_to_zones">Only deliver inside zones</Label>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Customers outside every active zone cannot check out. Saved with the settings below.
+              </p>
+            </div>
+            <Switch id="restrict_to_zones" checked={restrictToZones} onCheckedChange={setRestrictToZones} />
+          </div>
+
+          <ZoneMapEditor
+            zones={zones}
+            editingZoneId={zoneForm?.id}
+            draft={draft}
+            onDraftChange={setDraft}
+            onZoneClick={(id) => {
+              const zone = zones.find((z) => z.id === id)
+              if (zone) startZone(zone)
+            }}
+            warehouse={warehousePoint}
+          />
+
+          {zoneForm ? (
+            <div className="space-y-4 rounded-lg border border-gray-200 dark:border-gray-700 p-4">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <p className="text-sm text-gray-600 dark:text-gray-300">
+                  {zoneForm.id ? 'Editing zone.' : 'New zone.'} Click the map to add points and drag a point to move it ({draft?.length ?? 0} points).
+                </p>
+                <div className="flex gap-2">
+                  <Button type="button" variant="outline" size="sm" disabled={!draft?.length} onClick={() => setDraft((d) => (d ? d.slice(0, -1) : d))}>
+                    <Undo2 className="h-4 w-4 mr-1" />
+                    Undo point
+                  </Button>
+                  <Button type="button" variant="outline" size="sm" disabled={!draft?.length} onClick={() => setDraft([])}>
+                    Clear shape
+                  </Button>
+                </div>
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="zone_name">Name *</Label>
+                  <Input
+                    id="zone_name"
+                    placeholder="e.g. East Legon"
+                    value={zoneForm.name}
+                    onChange={(e) => setZoneForm({ ...zoneForm, name: e.target.value })}
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="zone_fee_type">Fee type</Label>
+                  <select
+                    id="zone_fee_type"
+                    value={zoneForm.feeType}
+                    onChange={(e) => setZoneForm({ ...zoneForm, feeType: e.target.value as DeliveryZoneFeeType })}
+                    className="mt-1 w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-800 dark:text-white"
+                  >
+                    {(Object.keys(FEE_TYPE_LABELS) as DeliveryZoneFeeType[]).map((type) => (
+                      <option key={type} value={type}>{FEE_TYPE_LABELS[type]}</option>
+                    ))}
+                  </select>
+                </div>
+                {zoneForm.feeType === 'flat' && (
+                  <div>
+                    <Label htmlFor="zone_flat_fee">Flat fee (GHS) *</Label>
+                    <Input
+                      id="zone_flat_fee"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={zoneForm.flatFee}
+                      onChange={(e) => setZoneForm({ ...zoneForm, flatFee: e.target.value })}
+                      className="mt-1"
+                    />
+                  </div>
+                )}
+                {zoneForm.feeType === 'per_km' && (
+                  <div>
+                    <Label htmlFor="zone_price_per_km">Price per km (GHS)</Label>
+                    <Input
+                      id="zone_price_per_km"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="Warehouse distance bands"
+                      value={zoneForm.pricePerKm}
+                      onChange={(e) => setZoneForm({ ...zoneForm, pricePerKm: e.target.value })}
+                      className="mt-1"
+                    />
+                  </div>
+                )}
+                {zoneForm.feeType !== 'blocked' && (
+                  <div>
+                    <Label htmlFor="zone_min_order">Minimum order value (GHS)</Label>
+                    <Input
+                      id="zone_min_order"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="No minimum"
+                      value={zoneForm.minOrderValue}
+                      onChange={(e) => setZoneForm({ ...zoneForm, minOrderValue: e.target.value })}
+                      className="mt-1"
+                    />
+                  </div>
+                )}
+                <div>
+                  <Label htmlFor="zone_sort_order">Sort order</Label>
+                  <Input
+                    id="zone_sort_order"
+                    type="number"
+                    step="1"
+                    value={zoneForm.sortOrder}
+                    onChange={(e) => setZoneForm({ ...zoneForm, sortOrder: e.target.value })}
+                    className="mt-1"
+                  />
+                </div>
+                <div className="flex items-center gap-3 pt-6">
+                  <Switch id="zone_active" checked={zoneForm.active} onCheckedChange={(active) => setZoneForm({ ...zoneForm, active })} />
+                  <Label htmlFor="zone_active">Active</Label>
+                </div>
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={cancelZone} disabled={zoneSaving}>
+                  <X className="h-4 w-4 mr-1" />
+                  Cancel
+                </Button>
+                <Button type="button" onClick={handleSaveZone} disabled={zoneSaving} className="bg-[#D35F0E] hover:bg-[#D35F0E]/90">
+                  {zoneSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                  {zoneForm.id ? 'Save zone' : 'Create zone'}
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex justify-end">
+              <Button type="button" variant="outline" onClick={() => startZone(null)}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add zone
+              </Button>
+            </div>
+          )}
+
+          {zones.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No zones yet. Every address uses the delivery pricing above.</p>
+          ) : (
+            <div className="divide-y divide-gray-200 dark:divide-gray-700 rounded-lg border border-gray-200 dark:border-gray-700">
+              {zones.map((zone) => (
+                <div key={zone.id} className="flex items-center justify-between gap-4 p-3">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <span className="h-3 w-3 shrink-0 rounded-full" style={{ backgroundColor: ZONE_COLORS[zone.feeType] }} />
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 dark:text-white truncate">
+                        {zone.name}
+                        {!zone.active && <span className="ml-2 text-xs font-normal text-gray-500">(inactive)</span>}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        #{zone.sortOrder} · {describeZoneFee(zone)}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex gap-1 shrink-0">
+                    <Button type="button" variant="ghost" size="sm" onClick={() => startZone(zone)} title="Edit zone">
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button type="button" variant="ghost" size="sm" onClick={() => handleDeleteZone(zone)} title="Delete zone" className="text-red-600 hover:text-red-700">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -0,0 +1,567 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { CalendarClock, CalendarOff, Save, Loader2, Plus, Pencil, Trash2, X, BarChart3 } from 'lucide-react'
+import { toast } from 'sonner'
+import AdminSidebar from '@/components/AdminSidebar'
+import { deliveryApi } from '@/lib/api'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import type { DeliveryBlackout, DeliverySlot, DeliverySlotUtilisation, DeliveryZone } from '@/types/grocery'
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+const SELECT_CLASS =
+  'mt-1 w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-800 dark:text-white'
+
+/** Slot being created (id null) or edited; numbers kept as strings while typing */
+interface SlotForm {
+  id: string | null
+  label: string
+  weekday: number
+  startTime: string
+  endTime: string
+  capacity: string
+  cutoffMinutes: string
+  zoneId: string
+  active: boolean
+}
+
+function slotToForm(slot: DeliverySlot | null): SlotForm {
+  return {
+    id: slot?.id ?? null,
+    label: slot?.label ?? '',
+    weekday: slot?.weekday ?? 1,
+    startTime: slot?.startTime ?? '09:00',
+    endTime: slot?.endTime ?? '12:00',
+    capacity: String(slot?.capacity ?? 10),
+    cutoffMinutes: String(slot?.cutoffMinutes ?? 120),
+    zoneId: slot?.zoneId ?? '',
+    active: slot?.active ?? true,
+  }
+}
+
+function isoDate(offsetDays = 0): string {
+  return new Date(Date.now() + offsetDays * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+}
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric', month: 'short', timeZone: 'UTC' })
+
+const percent = (ratio: number) => `${Math.round(ratio * 100)}%`
+
+export default function AdminDeliverySlotsPage() {
+  const [isSidebarOpen, setIsSidebarOpen] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [requireDeliverySlot, setRequireDeliverySlot] = useState(false)
+  const [slotBookingDays, setSlotBookingDays] = useState('7')
+  const [settingsSaving, setSettingsSaving] = useState(false)
+  const [slots, setSlots] = useState<DeliverySlot[]>([])
+  const [zones, setZones] = useState<DeliveryZone[]>([])
+  const [slotForm, setSlotForm] = useState<SlotForm | null>(null)
+  const [slotSaving, setSlotSaving] = useState(false)
+  const [blackouts, setBlackouts] = useState<DeliveryBlackout[]>([])
+  const [blackoutDate, setBlackoutDate] = useState('')
+  const [blackoutReason, setBlackoutReason] = useState('')
+  const [blackoutSaving, setBlackoutSaving] = useState(false)
+  const [from, setFrom] = useState(isoDate())
+  const [to, setTo] = useState(isoDate(6))
+  const [utilisation, setUtilisation] = useState<DeliverySlotUtilisation | null>(null)
+  const [utilisationLoading, setUtilisationLoading] = useState(false)
+
+  useEffect(() => {
+    Promise.all([
+      deliveryApi.getSettings().then((res) => {
+        if (res.success && res.data) {
+          setRequireDeliverySlot(res.data.requireDeliverySlot ?? false)
+          setSlotBookingDays(String(res.data.slotBookingDays ?? 7))
+        }
+      }),
+      deliveryApi.getZones().then((res) => {
+        if (res.success && res.data) setZones(res.data)
+      }),
+      loadSlots(),
+      loadBlackouts(),
+    ])
+      .catch(() => toast.error('Failed to load delivery slots'))
+      .finally(() => setLoading(false))
+    loadUtilisation(from, to)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  const loadSlots = () =>
+    deliveryApi.getSlots().then((res) => {
+      if (res.success && res.data) setSlots(res.data)
+    })
+
+  const loadBlackouts = () =>
+    deliveryApi.getBlackouts().then((res) => {
+      if (res.success && res.data) setBlackouts(res.data)
+    })
+
+  const loadUtilisation = (rangeFrom: string, rangeTo: string) => {
+    setUtilisationLoading(true)
+    deliveryApi
+      .getSlotUtilisation(rangeFrom, rangeTo)
+      .then((res) => {
+        if (res.success && res.data) setUtilisation(res.data)
+        else toast.error(res.message ?? 'Failed to load slot utilisation')
+      })
+      .catch(() => toast.error('Failed to load slot utilisation'))
+      .finally(() => setUtilisationLoading(false))
+  }
+
+  const handleSaveSettings = async () => {
+    const days = parseInt(slotBookingDays, 10)
+    if (Number.isNaN(days) || days < 1 || days > 60) {
+      toast.error('Booking window must be 1 to 60 days')
+      return
+    }
+    setSettingsSaving(true)
+    try {
+      const res = await deliveryApi.updateSettings({ requireDeliverySlot, slotBookingDays: days })
+      if (res.success) toast.success('Booking settings saved')
+      else toast.error(res.message ?? 'Failed to save booking settings')
+    } catch {
+      toast.error('Failed to save booking settings')
+    } finally {
+      setSettingsSaving(false)
+    }
+  }
+
+  const handleSaveSlot = async () => {
+    if (!slotForm) return
+    const capacity = parseInt(slotForm.capacity, 10)
+    const cutoffMinutes = slotForm.cutoffMinutes.trim() !== '' ? parseInt(slotForm.cutoffMinutes, 10) : 0
+    if (!slotForm.startTime || !slotForm.endTime || slotForm.endTime <= slotForm.startTime) {
+      toast.error('End time must be after start time')
+      return
+    }
+    if (Number.isNaN(capacity) || capacity < 1) {
+      toast.error('Capacity must be at least 1')
+      return
+    }
+    if (Number.isNaN(cutoffMinutes) || cutoffMinutes < 0) {
+      toast.error('Cut-off must be 0 minutes or more')
+      return
+    }
+
+    const input = {
+      label: slotForm.label.trim() || null,
+      weekday: slotForm.weekday,
+      startTime: slotForm.startTime,
+      endTime: slotForm.endTime,
+      capacity,
+      cutoffMinutes,
+      zoneId: slotForm.zoneId || null,
+      active: slotForm.active,
+    }
+
+    setSlotSaving(true)
+    try {
+      const res = slotForm.id ? await deliveryApi.updateSlot(slotForm.id, input) : await deliveryApi.createSlot(input)
+      if (res.success) {
+        toast.success(slotForm.id ? 'Slot updated' : 'Slot created')
+        setSlotForm(null)
+        loadSlots()
+        loadUtilisation(from, to)
+      } else {
+        toast.error(res.message ?? 'Failed to save slot')
+      }
+    } catch {
+      toast.error('Failed to save slot')
+    } finally {
+      setSlotSaving(false)
+    }
+  }
+
+  const handleDeleteSlot = async (slot: DeliverySlot) => {
+    if (!confirm(`Delete the ${WEEKDAYS[slot.weekday]} ${slot.startTime}–${slot.endTime} slot?`)) return
+    try {
+      const res = await deliveryApi.deleteSlot(slot.id)
+      if (res.success) {
+        toast.success('Slot deleted')
+        if (slotForm?.id === slot.id) setSlotForm(null)
+        loadSlots()
+      } else {
+        toast.error(res.message ?? 'Failed to delete slot')
+      }
+    } catch {
+      toast.error('Failed to delete slot')
+    }
+  }
+
+  const handleAddBlackout = async () => {
+    if (!blackoutDate) {
+      toast.error('Pick a date')
+      return
+    }
+    setBlackoutSaving(true)
+    try {
+      const res = await deliveryApi.createBlackout(blackoutDate, blackoutReason.trim() || undefined)
+      if (res.success) {
+        toast.success('Blackout date added')
+        setBlackoutDate('')
+        setBlackoutReason('')
+        loadBlackouts()
+        loadUtilisation(from, to)
+      } else {
+        toast.error(res.message ?? 'Failed to add blackout date')
+      }
+    } catch {
+      toast.error('Failed to add blackout date')
+    } finally {
+      setBlackoutSaving(false)
+    }
+  }
+
+  const handleDeleteBlackout = async (blackout: DeliveryBlackout) => {
+    try {
+      const res = await deliveryApi.deleteBlackout(blackout.id)
+      if (res.success) {
+        toast.success('Blackout date removed')
+        loadBlackouts()
+        loadUtilisation(from, to)
+      } else {
+        toast.error(res.message ?? 'Failed to remove blackout date')
+      }
+    } catch {
+      toast.error('Failed to remove blackout date')
+    }
+  }
+
+  const zoneName = (zoneId: string | null) => (zoneId ? zones.find((z) => z.id === zoneId)?.name ?? 'Unknown zone' : 'All zones')
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+        <AdminSidebar currentPage="delivery-slots" isSidebarOpen={isSidebarOpen} setIsSidebarOpen={setIsSidebarOpen} />
+        <div className="lg:ml-64 flex items-center justify-center min-h-[200px]">
+          <Loader2 className="h-8 w-8 animate-spin text-[#D35F0E]" />
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <AdminSidebar currentPage="delivery-slots" isSidebarOpen={isSidebarOpen} setIsSidebarOpen={setIsSidebarOpen} />
+      <div className="lg:ml-64 container mx-auto p-6 space-y-6">
+      <div className="flex items-center gap-3">
+        <CalendarClock className="h-8 w-8 text-[#D35F0E]" />
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Delivery Slots</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400">Times are Ghana time (GMT).</p>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Booking</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="require_slot">Require a delivery slot</Label>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Customers must pick a time to check out. Orders placed by admins never need one.</p>
+            </div>
+            <Switch id="require_slot" checked={requireDeliverySlot} onCheckedChange={setRequireDeliverySlot} />
+          </div>
+          <div className="max-w-xs">
+            <Label htmlFor="booking_days">Booking window (days ahead, today included)</Label>
+            <Input
+              id="booking_days"
+              type="number"
+              min="1"
+              max="60"
+              step="1"
+              value={slotBookingDays}
+              onChange={(e) => setSlotBookingDays(e.target.value)}
+              className="mt-1"
+            />
+          </div>
+          <div className="flex justify-end">
+            <Button onClick={handleSaveSettings} disabled={settingsSaving} className="bg-[#D35F0E] hover:bg-[#D35F0E]/90">
+              {settingsSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+              Save
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Weekly slots</CardTitle>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Each slot repeats every week. Capacity is the number of orders per date; booking closes the cut-off before the start.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {slotForm ? (
+            <div className="space-y-4 rounded-lg border border-gray-200 dark:border-gray-700 p-4">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div>
+                  <Label htmlFor="slot_weekday">Day</Label>
+                  <select
+                    id="slot_weekday"
+                    value={slotForm.weekday}
+                    onChange={(e) => setSlotForm({ ...slotForm, weekday: parseInt(e.target.value, 10) })}
+                    className={SELECT_CLASS}
+                  >
+                    {WEEKDAYS.map((day, i) => (
+                      <option key={day} value={i}>{day}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <Label htmlFor="slot_start">Start</Label>
+                  <Input id="slot_start" type="time" value={slotForm.startTime} onChange={(e) => setSlotForm({ ...slotForm, startTime: e.target.value })} className="mt-1" />
+                </div>
+                <div>
+                  <Label htmlFor="slot_end">End</Label>
+                  <Input id="slot_end" type="time" value={slotForm.endTime} onChange={(e) => setSlotForm({ ...slotForm, endTime: e.target.value })} className="mt-1" />
+                </div>
+                <div>
+                  <Label htmlFor="slot_label">Label</Label>
+                  <Input
+                    id="slot_label"
+                    placeholder="e.g. Morning"
+                    maxLength={50}
+                    value={slotForm.label}
+                    onChange={(e) => setSlotForm({ ...slotForm, label: e.target.value })}
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="slot_capacity">Capacity (orders)</Label>
+                  <Input
+                    id="slot_capacity"
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={slotForm.capacity}
+                    onChange={(e) => setSlotForm({ ...slotForm, capacity: e.target.value })}
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="slot_cutoff">Cut-off (minutes before)</Label>
+                  <Input
+                    id="slot_cutoff"
+                    type="number"
+                    min="0"
+                    step="15"
+                    value={slotForm.cutoffMinutes}
+                    onChange={(e) => setSlotForm({ ...slotForm, cutoffMinutes: e.target.value })}
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="slot_zone">Zone</Label>
+                  <select
+                    id="slot_zone"
+                    value={slotForm.zoneId}
+                    onChange={(e) => setSlotForm({ ...slotForm, zoneId: e.target.value })}
+                    className={SELECT_CLASS}
+                  >
+                    <option value="">All zones</option>
+                    {zones.filter((z) => z.feeType !== 'blocked').map((z) => (
+                      <option key={z.id} value={z.id}>{z.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex items-center gap-3 pt-6">
+                  <Switch id="slot_active" checked={slotForm.active} onCheckedChange={(active) => setSlotForm({ ...slotForm, active })} />
+                  <Label htmlFor="slot_active">Active</Label>
+                </div>
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setSlotForm(null)} disabled={slotSaving}>
+                  <X className="h-4 w-4 mr-1" />
+                  Cancel
+                </Button>
+                <Button type="button" onClick={handleSaveSlot} disabled={slotSaving} className="bg-[#D35F0E] hover:bg-[#D35F0E]/90">
+                  {slotSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                  {slotForm.id ? 'Save slot' : 'Create slot'}
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex justify-end">
+              <Button type="button" variant="outline" onClick={() => setSlotForm(slotToForm(null))}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add slot
+              </Button>
+            </div>
+          )}
+
+          {slots.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No slots yet. Customers are not offered delivery times.</p>
+          ) : (
+            <div className="divide-y divide-gray-200 dark:divide-gray-700 rounded-lg border border-gray-200 dark:border-gray-700">
+              {slots.map((slot) => (
+                <div key={slot.id} className="flex items-center justify-between gap-4 p-3">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 dark:text-white truncate">
+                      {WEEKDAYS[slot.weekday]} {slot.startTime}–{slot.endTime}
+                      {slot.label && <span className="ml-2 font-normal text-gray-600 dark:text-gray-300">{slot.label}</span>}
+                      {!slot.active && <span className="ml-2 text-xs font-normal text-gray-500">(inactive)</span>}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {slot.capacity} orders · closes {slot.cutoffMinutes} min before · {zoneName(slot.zoneId)}
+                    </p>
+                  </div>
+                  <div className="flex gap-1 shrink-0">
+                    <Button type="button" variant="ghost" size="sm" onClick={() => setSlotForm(slotToForm(slot))} title="Edit slot">
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button type="button" variant="ghost" size="sm" onClick={() => handleDeleteSlot(slot)} title="Delete slot" className="text-red-600 hover:text-red-700">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarOff className="h-5 w-5" />
+            Blackout dates
+          </CardTitle>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            No slots are offered on these dates. Orders already booked on a date are kept and show in the utilisation table.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-end gap-3">
+            <div>
+              <Label htmlFor="blackout_date">Date</Label>
+              <Input id="blackout_date" type="date" min={isoDate()} value={blackoutDate} onChange={(e) => setBlackoutDate(e.target.value)} className="mt-1" />
+            </div>
+            <div className="flex-1 min-w-[200px]">
+              <Label htmlFor="blackout_reason">Reason</Label>
+              <Input
+                id="blackout_reason"
+                placeholder="e.g. Public holiday"
+                maxLength={200}
+                value={blackoutReason}
+                onChange={(e) => setBlackoutReason(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+            <Button type="button" variant="outline" onClick={handleAddBlackout} disabled={blackoutSaving}>
+              {blackoutSaving ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Plus className="h-4 w-4 mr-1" />}
+              Add date
+            </Button>
+          </div>
+          {blackouts.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No upcoming blackout dates.</p>
+          ) : (
+            <div className="divide-y divide-gray-200 dark:divide-gray-700 rounded-lg border border-gray-200 dark:border-gray-700">
+              {blackouts.map((b) => (
+                <div key={b.id} className="flex items-center justify-between gap-4 p-3">
+                  <p className="text-sm text-gray-900 dark:text-white">
+                    {formatDay(b.date)}
+                    {b.reason && <span className="ml-2 text-gray-500 dark:text-gray-400">{b.reason}</span>}
+                  </p>
+                  <Button type="button" variant="ghost" size="sm" onClick={() => handleDeleteBlackout(b)} title="Remove blackout date" className="text-red-600 hover:text-red-700">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <BarChart3 className="h-5 w-5" />
+            Utilisation
+          </CardTitle>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Paid orders and checkouts still waiting for payment against each slot&apos;s capacity (up to 62 days).
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-end gap-3">
+            <div>
+              <Label htmlFor="util_from">From</Label>
+              <Input id="util_from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="mt-1" />
+            </div>
+            <div>
+              <Label htmlFor="util_to">To</Label>
+              <Input id="util_to" type="date" value={to} onChange={(e) => setTo(e.target.value)} className="mt-1" />
+            </div>
+            <Button type="button" variant="outline" onClick={() => loadUtilisation(from, to)} disabled={utilisationLoading || !from || !to}>
+              {utilisationLoading && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Show
+            </Button>
+          </div>
+
+          {utilisation && (
+            <>
+              <p className="text-sm text-gray-700 dark:text-gray-300">
+                {utilisation.totals.confirmed} confirmed · {utilisation.totals.held} held · {utilisation.totals.capacity} places ·{' '}
+                <span className="font-semibold">{percent(utilisation.totals.utilisation)} used</span>
+              </p>
+              {utilisation.rows.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No slots in this range.</p>
+              ) : (
+                <div className="overflow-x-auto rounded-lg border border-gray-200 dark:border-gray-700">
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-50 dark:bg-gray-800 text-left text-gray-600 dark:text-gray-300">
+                      <tr>
+                        <th className="p-3 font-medium">Date</th>
+                        <th className="p-3 font-medium">Slot</th>
+                        <th className="p-3 font-medium text-right">Confirmed</th>
+                        <th className="p-3 font-medium text-right">Held</th>
+                        <th className="p-3 font-medium text-right">Capacity</th>
+                        <th className="p-3 font-medium w-48">Used</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                      {utilisation.rows.map((row) => (
+                        <tr key={`${row.date}:${row.slotId}`} className={row.blackout ? 'bg-gray-50 dark:bg-gray-800/50 text-gray-500' : 'text-gray-900 dark:text-white'}>
+                          <td className="p-3 whitespace-nowrap">{formatDay(row.date)}</td>
+                          <td className="p-3 whitespace-nowrap">
+                            {row.startTime}–{row.endTime}
+                            {row.label && <span className="ml-2 text-gray-500 dark:text-gray-400">{row.label}</span>}
+                            {row.blackout && <span className="ml-2 text-xs text-red-600">Blacked out: {row.blackout}</span>}
+                          </td>
+                          <td className="p-3 text-right">{row.confirmed}</td>
+                          <td className="p-3 text-right">{row.held}</td>
+                          <td className="p-3 text-right">{row.capacity}</td>
+                          <td className="p-3">
+                            <div className="flex items-center gap-2">
+                              <div className="h-2 flex-1 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+                                <div
+                                  className={`h-full ${row.utilisation > 1 ? 'bg-red-600' : row.utilisation >= 0.8 ? 'bg-amber-500' : 'bg-[#D35F0E]'}`}
+                                  style={{ width: `${Math.min(100, row.utilisation * 100)}%` }}
+                                />
+                              </div>
+                              <span className="w-12 text-right">{percent(row.utilisation)}</span>
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,331 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { ShieldAlert, Save, Loader2, CheckCircle, XCircle } from 'lucide-react'
+import { toast } from 'sonner'
+import AdminSidebar from '@/components/AdminSidebar'
+import { adminOrderRiskApi } from '@/lib/api'
+import { OrderRiskSettings, RiskReviewItem, RiskRule } from '@/types/grocery'
+import { formatPrice } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+
+const RULE_LABELS: Record<RiskRule, string> = {
+  order_velocity: 'Many orders in a short time',
+  first_order_value: 'High-value first order',
+  delivery_distance: 'Far from the warehouse',
+  voucher_reuse: 'Voucher reused across accounts',
+  payer_name_mismatch: 'Payer name does not match account',
+}
+
+type SettingsForm = Record<Exclude<keyof OrderRiskSettings, 'enabled' | 'updatedAt'>, string>
+
+const FIELDS: { key: keyof SettingsForm; label: string; hint: string; step?: string }[] = [
+  { key: 'holdScore', label: 'Hold score', hint: 'Orders scoring at least this (out of 100) wait for review' },
+  { key: 'velocityMaxOrders', label: 'Max orders per customer', hint: 'More orders than this within the window is suspicious' },
+  { key: 'velocityWindowHours', label: 'Order window (hours)', hint: 'Time window for the order count above' },
+  { key: 'firstOrderMaxAmount', label: 'First order limit (GHS)', hint: 'A first order above this is suspicious', step: '0.01' },
+  { key: 'maxDistanceKm', label: 'Max delivery distance (km)', hint: 'Deliveries further from the warehouse are suspicious', step: '0.1' },
+  { key: 'voucherReuseDays', label: 'Voucher look-back (days)', hint: 'How far back to look for the same voucher on another account with the same phone' },
+]
+
+export default function AdminOrderRiskPage() {
+  const [isSidebarOpen, setIsSidebarOpen] = useState(false)
+  const [enabled, setEnabled] = useState(false)
+  const [form, setForm] = useState<SettingsForm | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const [queue, setQueue] = useState<RiskReviewItem[]>([])
+  const [queueLoading, setQueueLoading] = useState(true)
+  const [notes, setNotes] = useState<Record<string, string>>({})
+  const [refunds, setRefunds] = useState<Record<string, boolean>>({})
+  const [reviewing, setReviewing] = useState<string | null>(null)
+
+  useEffect(() => {
+    adminOrderRiskApi
+      .getSettings()
+      .then((res) => {
+        if (res.success && res.data) {
+          const s = res.data
+          setEnabled(s.enabled)
+          setForm({
+            holdScore: String(s.holdScore),
+            velocityWindowHours: String(s.velocityWindowHours),
+            velocityMaxOrders: String(s.velocityMaxOrders),
+            firstOrderMaxAmount: String(s.firstOrderMaxAmount),
+            maxDistanceKm: String(s.maxDistanceKm),
+            voucherReuseDays: String(s.voucherReuseDays),
+          })
+        }
+      })
+      .catch(() => setMessage({ type: 'error', text: 'Failed to load risk settings' }))
+      .finally(() => setLoading(false))
+  }, [])
+
+  const fetchQueue = useCallback(async () => {
+    try {
+      const res = await adminOrderRiskApi.getReviewQueue()
+      if (res.success && Array.isArray(res.data)) setQueue(res.data)
+    } catch {
+      toast.error('Failed to load the review queue')
+    } finally {
+      setQueueLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchQueue()
+  }, [fetchQueue])
+
+  const handleSave = async () => {
+    if (!form) return
+    const values = {
+      holdScore: parseInt(form.holdScore, 10),
+      velocityWindowHours: parseInt(form.velocityWindowHours, 10),
+      velocityMaxOrders: parseInt(form.velocityMaxOrders, 10),
+      firstOrderMaxAmount: parseFloat(form.firstOrderMaxAmount),
+      maxDistanceKm: parseFloat(form.maxDistanceKm),
+      voucherReuseDays: parseInt(form.voucherReuseDays, 10),
+    }
+    if (Object.values(values).some((v) => Number.isNaN(v) || v < 0)) {
+      setMessage({ type: 'error', text: 'Enter a number for every setting' })
+      return
+    }
+    if (values.holdScore < 1 || values.holdScore > 100) {
+      setMessage({ type: 'error', text: 'Hold score must be between 1 and 100' })
+      return
+    }
+
+    setSaving(true)
+    setMessage(null)
+    adminOrderRiskApi
+      .updateSettings({ enabled, ...values })
+      .then((res) => {
+        if (res.success) {
+          setMessage({ type: 'success', text: 'Risk settings saved. They apply to new orders.' })
+        } else {
+          setMessage({ type: 'error', text: res.message ?? 'Save failed' })
+        }
+      })
+      .catch(() => setMessage({ type: 'error', text: 'Failed to save risk settings' }))
+      .finally(() => setSaving(false))
+  }
+
+  const handleReview = async (item: RiskReviewItem, decision: 'approve' | 'reject') => {
+    if (decision === 'reject' && !confirm(`Reject and cancel order ${item.orderNumber}?`)) return
+    setReviewing(item.orderId)
+    try {
+      const res = await adminOrderRiskApi.review(item.orderId, {
+        decision,
+        note: notes[item.orderId]?.trim() || undefined,
+        refund: decision === 'reject' ? refunds[item.orderId] !== false : undefined,
+      })
+      if (res.success) {
+        if (res.data?.refundError) toast.warning(res.message)
+        else toast.success(res.message)
+        setQueue((prev) => prev.filter((q) => q.orderId !== item.orderId))
+      } else {
+        toast.error(res.message || 'Review failed')
+        await fetchQueue()
+      }
+    } catch {
+      toast.error('Review failed')
+    } finally {
+      setReviewing(null)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+        <AdminSidebar currentPage="order-risk" isSidebarOpen={isSidebarOpen} setIsSidebarOpen={setIsSidebarOpen} />
+        <div className="lg:ml-64 flex items-center justify-center min-h-[200px]">
+          <Loader2 className="h-8 w-8 animate-spin text-[#D35F0E]" />
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <AdminSidebar currentPage="order-risk" isSidebarOpen={isSidebarOpen} setIsSidebarOpen={setIsSidebarOpen} />
+      <div className="lg:ml-64 container mx-auto p-6 space-y-6">
+      <div className="flex items-center gap-3">
+        <ShieldAlert className="h-8 w-8 text-[#D35F0E]" />
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Risk Review</h1>
+        </div>
+      </div>
+
+      {message && (
+        <div
+          className={`p-4 rounded-lg ${
+            message.type === 'success' ? 'bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200' : 'bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200'
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            Held orders
+            {queue.length > 0 && (
+              <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300">
+                {queue.length}
+              </span>
+            )}
+          </CardTitle>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Paid orders that scored at or above the hold score. They stay pending until approved. Rejecting cancels the order.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {queueLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-[#D35F0E]" />
+            </div>
+          ) : queue.length === 0 ? (
+            <p className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400 py-2">
+              <CheckCircle className="h-4 w-4 text-green-500" />
+              No orders are waiting for review.
+            </p>
+          ) : (
+            queue.map((item) => (
+              <div key={item.orderId} className="p-4 rounded-lg border border-gray-200 dark:border-gray-700 space-y-3">
+                <div className="flex flex-wrap items-start justify-between gap-4">
+                  <div>
+                    <p className="font-medium text-gray-900 dark:text-white">
+                      {item.orderNumber}
+                      <span className="ml-2 text-sm font-normal text-gray-500 dark:text-gray-400">
+                        {new Date(item.createdAt).toLocaleString()}
+                      </span>
+                    </p>
+                    <p className="text-sm text-gray-700 dark:text-gray-300">
+                      {item.customerName}
+                      {item.customerEmail ? ` · ${item.customerEmail}` : ''}
+                      {item.customerPhone ? ` · ${item.customerPhone}` : ''}
+                    </p>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">{item.deliveryAddress || 'No address'}</p>
+                  </div>
+                  <div className="text-right">
+                    <p className="font-semibold text-gray-900 dark:text-white tabular-nums">{formatPrice(item.totalAmount)}</p>
+                    <p className="text-sm text-red-600 dark:text-red-400 tabular-nums">
+                      Risk {item.score} / hold at {item.holdScore}
+                    </p>
+                  </div>
+                </div>
+
+                <ul className="text-sm space-y-1">
+                  {item.hits.map((hit) => (
+                    <li key={hit.rule} className="text-gray-700 dark:text-gray-300">
+                      <span className="font-medium">{RULE_LABELS[hit.rule]}</span>
+                      <span className="text-gray-500 dark:text-gray-400"> (+{hit.points}): {hit.detail}</span>
+                    </li>
+                  ))}
+                </ul>
+
+                <div className="flex flex-wrap items-center gap-3">
+                  <Input
+                    placeholder="Note (optional)"
+                    value={notes[item.orderId] ?? ''}
+                    maxLength={500}
+                    onChange={(e) => setNotes((prev) => ({ ...prev, [item.orderId]: e.target.value }))}
+                    className="flex-1 min-w-[200px]"
+                  />
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id={`refund_${item.orderId}`}
+                      checked={refunds[item.orderId] !== false}
+                      onCheckedChange={(checked) => setRefunds((prev) => ({ ...prev, [item.orderId]: checked }))}
+                    />
+                    <Label htmlFor={`refund_${item.orderId}`} className="text-sm">Refund on reject</Label>
+                  </div>
+                  <Button
+                    variant="outline"
+                    disabled={reviewing === item.orderId}
+                    onClick={() => handleReview(item, 'reject')}
+                  >
+                    <XCircle className="h-4 w-4 mr-1" />
+                    Reject
+                  </Button>
+                  <Button
+                    disabled={reviewing === item.orderId}
+                    onClick={() => handleReview(item, 'approve')}
+                    className="bg-[#D35F0E] hover:bg-[#D35F0E]/90"
+                  >
+                    {reviewing === item.orderId ? (
+                      <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                    ) : (
+                      <CheckCircle className="h-4 w-4 mr-1" />
+                    )}
+                    Approve
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Risk rules</CardTitle>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Each rule that fires adds points to a paid online order. Every rule hit is recorded, whether or not the order is held.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="risk_enabled">Score new orders</Label>
+            <Switch id="risk_enabled" checked={enabled} onCheckedChange={setEnabled} />
+          </div>
+          {form ? (
+            <div className="grid gap-4 sm:grid-cols-2">
+              {FIELDS.map(({ key, label, hint, step }) => (
+                <div key={key}>
+                  <Label htmlFor={`risk_${key}`}>{label}</Label>
+                  <Input
+                    id={`risk_${key}`}
+                    type="number"
+                    min="0"
+                    step={step ?? '1'}
+                    value={form[key]}
+                    onChange={(e) => setForm((prev) => (prev ? { ...prev, [key]: e.target.value } : prev))}
+                    className="mt-1"
+                  />
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{hint}</p>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Settings could not be loaded.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={saving || !form} className="bg-[#D35F0E] hover:bg-[#D35F0E]/90">
+          {saving ? (
+            <>
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            <>
+              <Save className="h-4 w-4 mr-2" />
+              Save settings
+            </>
+          )}
+        </Button>
+      </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,178 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Timer, Save, Loader2 } from 'lucide-react'
+import AdminSidebar from '@/components/AdminSidebar'
+import { adminOrderSlaApi } from '@/lib/api'
+import { SlaStatus } from '@/types/grocery'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+
+const STATUS_ROWS: { status: SlaStatus; label: string; hint: string }[] = [
+  { status: 'pending', label: 'Pending', hint: 'Pay-on-delivery orders waiting to be confirmed' },
+  { status: 'confirmed', label: 'Confirmed', hint: 'Confirmed but not yet being packed' },
+  { status: 'processing', label: 'Processing', hint: 'Being packed, not yet out for delivery' },
+  { status: 'shipped', label: 'Out for delivery', hint: 'With the rider, not yet delivered' },
+]
+
+type Row = { hours: string; enabled: boolean }
+
+export default function AdminOrderSlaPage() {
+  const [isSidebarOpen, setIsSidebarOpen] = useState(false)
+  const [rows, setRows] = useState<Partial<Record<SlaStatus, Row>>>({})
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  useEffect(() => {
+    adminOrderSlaApi
+      .getThresholds()
+      .then((res) => {
+        if (res.success && Array.isArray(res.data)) {
+          const next: Partial<Record<SlaStatus, Row>> = {}
+          for (const t of res.data) {
+            next[t.status] = { hours: String(Math.round((t.thresholdMinutes / 60) * 100) / 100), enabled: t.enabled }
+          }
+          setRows(next)
+        }
+      })
+      .catch(() => setMessage({ type: 'error', text: 'Failed to load SLA thresholds' }))
+      .finally(() => setLoading(false))
+  }, [])
+
+  const updateRow = (status: SlaStatus, patch: Partial<Row>) =>
+    setRows((prev) => ({ ...prev, [status]: { hours: '', enabled: false, ...prev[status], ...patch } }))
+
+  const handleSave = async () => {
+    const thresholds: Array<{ status: SlaStatus; thresholdMinutes: number; enabled: boolean }> = []
+    for (const { status, label } of STATUS_ROWS) {
+      const row = rows[status]
+      if (!row) continue
+      const hours = parseFloat(row.hours)
+      if (row.enabled && (Number.isNaN(hours) || hours * 60 < 5 || hours > 168)) {
+        setMessage({ type: 'error', text: `${label}: SLA must be between 5 minutes and 168 hours` })
+        return
+      }
+      thresholds.push({
+        status,
+        thresholdMinutes: Number.isNaN(hours) ? 60 : Math.min(10080, Math.max(5, Math.round(hours * 60))),
+        enabled: row.enabled,
+      })
+    }
+    if (thresholds.length === 0) return
+
+    setSaving(true)
+    setMessage(null)
+    adminOrderSlaApi
+      .updateThresholds(thresholds)
+      .then((res) => {
+        if (res.success) {
+          setMessage({ type: 'success', text: 'SLA thresholds saved. The next check will use them.' })
+        } else {
+          setMessage({ type: 'error', text: res.message ?? 'Save failed' })
+        }
+      })
+      .catch(() => setMessage({ type: 'error', text: 'Failed to save SLA thresholds' }))
+      .finally(() => setSaving(false))
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+        <AdminSidebar currentPage="order-sla" isSidebarOpen={isSidebarOpen} setIsSidebarOpen={setIsSidebarOpen} />
+        <div className="lg:ml-64 flex items-center justify-center min-h-[200px]">
+          <Loader2 className="h-8 w-8 animate-spin text-[#D35F0E]" />
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <AdminSidebar currentPage="order-sla" isSidebarOpen={isSidebarOpen} setIsSidebarOpen={setIsSidebarOpen} />
+      <div className="lg:ml-64 container mx-auto p-6 space-y-6">
+      <div className="flex items-center gap-3">
+        <Timer className="h-8 w-8 text-[#D35F0E]" />
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Order SLAs</h1>
+        </div>
+      </div>
+
+      {message && (
+        <div
+          className={`p-4 rounded-lg ${
+            message.type === 'success' ? 'bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200' : 'bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200'
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Time allowed per status</CardTitle>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Orders that stay in a status longer than this are listed under Needs Attention on the dashboard and emailed to the admin inbox. Orders over twice the time are escalated.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {STATUS_ROWS.filter(({ status }) => rows[status]).map(({ status, label, hint }) => {
+            const row = rows[status] as Row
+            return (
+              <div key={status} className="flex flex-wrap items-center justify-between gap-4">
+                <div className="min-w-[200px]">
+                  <Label htmlFor={`sla_${status}`}>{label}</Label>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{hint}</p>
+                </div>
+                <div className="flex items-center gap-4">
+                  <div className="flex items-center gap-2">
+                    <Input
+                      id={`sla_${status}`}
+                      type="number"
+                      min="0.1"
+                      max="168"
+                      step="0.25"
+                      value={row.hours}
+                      disabled={!row.enabled}
+                      onChange={(e) => updateRow(status, { hours: e.target.value })}
+                      className="w-24"
+                    />
+                    <span className="text-sm text-gray-500 dark:text-gray-400">hours</span>
+                  </div>
+                  <Switch
+                    checked={row.enabled}
+                    onCheckedChange={(enabled) => updateRow(status, { enabled })}
+                    aria-label={`Monitor ${label}`}
+                  />
+                </div>
+              </div>
+            )
+          })}
+          {STATUS_ROWS.every(({ status }) => !rows[status]) && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No thresholds found. Run supabase-order-sla.sql first.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={saving} className="bg-[#D35F0E] hover:bg-[#D35F0E]/90">
+          {saving ? (
+            <>
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            <>
+              <Save className="h-4 w-4 mr-2" />
+              Save settings
+            </>
+          )}
+        </Button>
+      </div>
+      </div>
+    </div>
+  )
+}
@@ -3,12 +3,29 @@
 import React, { useState, useEffect } from 'react'
 import OrdersTable from '@/components/OrdersTable'
 import AdminSidebar from '@/components/AdminSidebar'
-import { Order, OrderStatus } from '@/types/grocery'
-import { X } from 'lucide-react'
+import NewOrderModal from '@/components/NewOrderModal'
+import { AdminOrderFilters, FailedAttemptReasonCode, Order, OrderDeliveryAttempts, OrderExportDataset, OrderExportFormat, OrderStatus } from '@/types/grocery'
+import { Download, Plus, Printer, X } from 'lucide-react'
 import Image from 'next/image'
-import { ordersApi } from '@/lib/api'
+import { adminRidersApi, ordersApi } from '@/lib/api'
+import { ORDER_STATUS_LABELS } from '@/lib/utils'
 import { toast } from 'sonner'
 
+/** Items can be changed until the order is shipped */
+const AMENDABLE_STATUSES: OrderStatus[] = ['pending', 'confirmed', 'processing']
+
+const BULK_STATUSES: OrderStatus[] = ['confirmed', 'processing', 'shipped', 'delivered', 'cancelled']
+
+/** Backend limit for one bulk status change or invoice print */
+const BULK_ORDER_LIMIT = 100
+
+const FAILED_ATTEMPT_REASONS: Record<FailedAttemptReasonCode, string> = {
+  customer_unreachable: 'Customer unreachable',
+  wrong_address: 'Wrong address',
+  customer_refused: 'Customer refused',
+  other: 'Other',
+}
+
 function mapRowToOrder(row: Record<string, unknown>): Order {
   const items = (row.items as Record<string, unknown>[]) || []
   return {
@@ -30,6 +47,7 @@ function mapRowToOrder(row: Record<string, unknown>): Order {
     paymentMethod: ((row.payment_method as string) || 'paystack').replace(/-/g, '_') as Order['paymentMethod'],
     deliveryAddress: (row.deliveryAddress as string) || '—',
     notes: (row.delivery_notes as string) || undefined,
+    allowedNextStatuses: Array.isArray(row.allowedNextStatuses) ? (row.allowedNextStatuses as OrderStatus[]) : undefined,
     createdAt: row.created_at ? new Date(row.created_at as string) : new Date(),
     updatedAt: row.updated_at ? new Date(row.updated_at as string) : new Date(),
   }
@@ -39,21 +57,36 @@ export default function OrdersPage() {
   const [orders, setOrders] = useState<Order[]>([])
   const [loading, setLoading] = useState(true)
   const [isSidebarOpen, setIsSidebarOpen] = useState(false)
-  const [searchQuery, setSearchQuery] = useState('')
+  const [filters, setFilters] = useState<AdminOrderFilters>({})
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [bulkStatus, setBulkStatus] = useState<OrderStatus | ''>('')
+  const [bulkBusy, setBulkBusy] = useState(false)
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null)
   const [isViewModalOpen, setIsViewModalOpen] = useState(false)
   const [isEditModalOpen, setIsEditModalOpen] = useState(false)
+  const [itemQuantities, setItemQuantities] = useState<Record<string, number>>({})
+  const [amendReason, setAmendReason] = useState('')
+  const [refundMethod, setRefundMethod] = useState<'original_payment' | 'store_credit'>('original_payment')
+  const [isAmending, setIsAmending] = useState(false)
+  const [reloadKey, setReloadKey] = useState(0)
+  const [isNewOrderOpen, setIsNewOrderOpen] = useState(false)
+  const [deliveryAttempts, setDeliveryAttempts] = useState<OrderDeliveryAttempts | null>(null)
+  const [failReason, setFailReason] = useState<FailedAttemptReasonCode>('customer_unreachable')
+  const [failNote, setFailNote] = useState('')
+  const [isRecordingFailure, setIsRecordingFailure] = useState(false)
 
   useEffect(() => {
     let cancelled = false
     const fetchOrders = async () => {
       setLoading(true)
       try {
-        const res = await ordersApi.getAdminOrders({ limit: 200 })
+        const res = await ordersApi.getAdminOrders({ limit: 200, ...filters, search: filters.search?.trim() || undefined })
         if (cancelled) return
         if (res.success && res.data) {
           const list = Array.isArray(res.data) ? res.data : []
-          setOrders(list.map((row: Record<string, unknown>) => mapRowToOrder(row)))
+          const mapped = list.map((row: Record<string, unknown>) => mapRowToOrder(row))
+          setOrders(mapped)
+          setSelectedIds(prev => prev.filter(id => mapped.some(order => order.id === id)))
         } else {
           setOrders([])
         }
@@ -63,30 +96,165 @@ export default function OrdersPage() {
         if (!cancelled) setLoading(false)
       }
     }
-    fetchOrders()
-    return () => { cancelled = true }
-  }, [])
+    // Wait for typing to settle before searching
+    const timer = setTimeout(fetchOrders, filters.search ? 300 : 0)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [reloadKey, filters])
 
-  const handleEditOrder = (order: Order) => {
+  const handleBulkStatus = async () => {
+    if (!bulkStatus || selectedIds.length === 0) return
+    setBulkBusy(true)
+    try {
+      const res = await ordersApi.bulkUpdateStatus(selectedIds, bulkStatus)
+      if (res.success && res.data) {
+        const { updated, failed, results } = res.data
+        if (failed === 0) {
+          toast.success(`${updated} order${updated !== 1 ? 's' : ''} moved to ${ORDER_STATUS_LABELS[bulkStatus] ?? bulkStatus}`)
+        } else {
+          const firstError = results.find(r => !r.success)?.error
+          toast.warning(`${updated} updated, ${failed} not updated${firstError ? `: ${firstError}` : ''}`)
+        }
+        setSelectedIds(results.filter(r => !r.success).map(r => r.orderId))
+        setBulkStatus('')
+        setReloadKey(k => k + 1)
+      } else {
+        toast.error(res.message || 'Failed to update orders')
+      }
+    } catch {
+      toast.error('Failed to update orders')
+    } finally {
+      setBulkBusy(false)
+    }
+  }
+
+  const handlePrintInvoices = async () => {
+    setBulkBusy(true)
+    try {
+      const { url, skipped } = await ordersApi.printInvoices(selectedIds)
+      window.open(url, '_blank')
+      if (skipped.length > 0) toast.warning(`No invoice for ${skipped.join(', ')}`)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to print invoices')
+    } finally {
+      setBulkBusy(false)
+    }
+  }
+
+  const handleExport = async (format: OrderExportFormat, dataset: OrderExportDataset = 'orders') => {
+    setBulkBusy(true)
+    try {
+      const { url, filename } = await ordersApi.exportOrders({ ...filters, search: filters.search?.trim() || undefined }, format, dataset)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = filename
+      link.click()
+      setTimeout(() => URL.revokeObjectURL(url), 1000)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to export orders')
+    } finally {
+      setBulkBusy(false)
+    }
+  }
+
+  const openEditModal = (order: Order) => {
     setSelectedOrder(order)
+    setItemQuantities(Object.fromEntries(order.items.map((item) => [item.productId, item.quantity])))
+    setAmendReason('')
+    setRefundMethod('original_payment')
     setIsEditModalOpen(true)
   }
 
+  const handleEditOrder = (order: Order) => {
+    openEditModal(order)
+  }
+
+  const handleAmendOrder = async (order: Order) => {
+    const items = order.items.map((item) => ({
+      productId: item.productId,
+      quantity: itemQuantities[item.productId] ?? item.quantity,
+    }))
+    if (items.every((item, index) => item.quantity === order.items[index].quantity)) {
+      toast.info('No item changes to save')
+      return
+    }
+    setIsAmending(true)
+    try {
+      const res = await ordersApi.amendOrder(order.id, {
+        items,
+        reason: amendReason.trim() || undefined,
+        refundMethod,
+      })
+      if (res.success && res.data) {
+        const { amendment, authorizationUrl, warnings } = res.data
+        if (amendment.status === 'awaiting_payment' && authorizationUrl) {
+          await navigator.clipboard?.writeText(authorizationUrl).catch(() => undefined)
+          toast.success(`Customer must pay ${amendment.amount_delta.toFixed(2)} GHS. Payment link copied to clipboard.`)
+        } else {
+          toast.success('Order items updated')
+        }
+        warnings.forEach((warning) => toast.warning(warning))
+        setIsEditModalOpen(false)
+        setReloadKey((k) => k + 1)
+      } else {
+        toast.error(res.message || 'Failed to update items')
+      }
+    } catch {
+      toast.error('Failed to update items')
+    } finally {
+      setIsAmending(false)
+    }
+  }
+
   const handleDeleteOrder = (_order: Order) => {
     toast.info('Order deletion is not available; cancel the order instead.')
   }
 
+  const loadDeliveryAttempts = (orderId: string) => {
+    setDeliveryAttempts(null)
+    adminRidersApi
+      .getOrderAttempts(orderId)
+      .then((res) => {
+        if (res.success && res.data) setDeliveryAttempts(res.data)
+      })
+      .catch(() => toast.error('Failed to load delivery attempts'))
+  }
+
   const handleViewOrder = (order: Order) => {
     setSelectedOrder(order)
+    setFailReason('customer_unreachable')
+    setFailNote('')
     setIsViewModalOpen(true)
+    loadDeliveryAttempts(order.id)
+  }
+
+  const handleRecordFailedAttempt = async (order: Order) => {
+    setIsRecordingFailure(true)
+    try {
+      const res = await adminRidersApi.recordFailedAttempt(order.id, { reasonCode: failReason, note: failNote.trim() || undefined })
+      if (res.success) {
+        toast.success(res.message || 'Failed attempt recorded')
+        setFailNote('')
+        loadDeliveryAttempts(order.id)
+      } else {
+        toast.error(res.message || 'Failed to record attempt')
+      }
+    } catch {
+      toast.error('Failed to record attempt')
+    } finally {
+      setIsRecordingFailure(false)
+    }
   }
 
   const handleUpdateOrderStatus = async (orderId: string, status: OrderStatus) => {
     try {
       const res = await ordersApi.updateOrderStatus(orderId, status)
       if (res.success) {
-        setOrders(prev => prev.map(o => o.id === orderId ? { ...o, status, updatedAt: new Date() } : o))
-        if (selectedOrder?.id === orderId) setSelectedOrder(prev => prev ? { ...prev, status } : null)
+        const allowedNextStatuses = (res.data?.allowedNextStatuses ?? []) as OrderStatus[]
+        setOrders(prev => prev.map(o => o.id === orderId ? { ...o, status, allowedNextStatuses, updatedAt: new Date() } : o))
+        if (selectedOrder?.id === orderId) setSelectedOrder(prev => prev ? { ...prev, status, allowedNextStatuses } : null)
         toast.success('Order status updated')
       } else {
         toast.error(res.message || 'Failed to update status')
@@ -113,12 +281,99 @@ export default function OrdersPage() {
             <div>
               <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Orders Management</h1>
             </div>
+            <button
+              type="button"
+              onClick={() => setIsNewOrderOpen(true)}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <Plus className="h-4 w-4" />
+              New order
+            </button>
           </div>
         </div>
 
         {/* Page Content */}
         <div className="p-6">
-          {loading ? (
+          {/* Bulk actions and export */}
+          <div className="mb-6 flex flex-wrap items-center gap-3 bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 px-4 py-3">
+            {selectedIds.length > 0 ? (
+              <>
+                <span className="text-sm font-medium text-gray-900 dark:text-white">{selectedIds.length} selected</span>
+                <select
+                  value={bulkStatus}
+                  onChange={(e) => setBulkStatus(e.target.value as OrderStatus | '')}
+                  className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm dark:bg-gray-800 dark:text-white"
+                >
+                  <option value="">Change status to…</option>
+                  {BULK_STATUSES.map((status) => (
+                    <option key={status} value={status}>{ORDER_STATUS_LABELS[status] ?? status}</option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={handleBulkStatus}
+                  disabled={!bulkStatus || bulkBusy || selectedIds.length > BULK_ORDER_LIMIT}
+                  className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  Apply
+                </button>
+                <button
+                  type="button"
+                  onClick={handlePrintInvoices}
+                  disabled={bulkBusy || selectedIds.length > BULK_ORDER_LIMIT}
+                  className="flex items-center gap-2 px-4 py-2 border border-gray-300 dark:border-gray-600 text-sm text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors disabled:opacity-50"
+                >
+                  <Printer className="h-4 w-4" />
+                  Print invoices
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setSelectedIds([])}
+                  className="text-sm text-gray-500 hover:text-gray-700 dark:text-gray-400"
+                >
+                  Clear selection
+                </button>
+                {selectedIds.length > BULK_ORDER_LIMIT && (
+                  <span className="text-xs text-red-600">Select at most {BULK_ORDER_LIMIT} orders</span>
+                )}
+              </>
+            ) : (
+              <span className="text-sm text-gray-500 dark:text-gray-400">Select orders to change their status or print invoices</span>
+            )}
+            <div className="ml-auto flex items-center gap-2">
+              <span className="text-sm text-gray-500 dark:text-gray-400">Export filtered:</span>
+              <button
+                type="button"
+                onClick={() => handleExport('csv', 'orders')}
+                disabled={bulkBusy}
+                className="flex items-center gap-1 px-3 py-2 border border-gray-300 dark:border-gray-600 text-sm text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+              >
+                <Download className="h-4 w-4" />
+                Orders CSV
+              </button>
+              <button
+                type="button"
+                onClick={() => handleExport('csv', 'items')}
+                disabled={bulkBusy}
+                className="flex items-center gap-1 px-3 py-2 border border-gray-300 dark:border-gray-600 text-sm text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+              >
+                <Download className="h-4 w-4" />
+                Items CSV
+              </button>
+              <button
+                type="button"
+                onClick={() => handleExport('xlsx')}
+                disabled={bulkBusy}
+                className="flex items-center gap-1 px-3 py-2 border border-gray-300 dark:border-gray-600 text-sm text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+              >
+                <Download className="h-4 w-4" />
+                Excel
+              </button>
+            </div>
+          </div>
+
+          {/* Keep the table (and its filter inputs) mounted once filtering has started */}
+          {loading && orders.length === 0 && !Object.values(filters).some(Boolean) ? (
             <div className="flex items-center justify-center py-12">
               <p className="text-gray-600 dark:text-gray-400">Loading orders...</p>
             </div>
@@ -128,8 +383,10 @@ export default function OrdersPage() {
               onEdit={handleEditOrder}
               onDelete={handleDeleteOrder}
               onView={handleViewOrder}
-              searchQuery={searchQuery}
-              onSearchChange={setSearchQuery}
+              filters={filters}
+              onFiltersChange={setFilters}
+              selectedIds={selectedIds}
+              onSelectionChange={setSelectedIds}
             />
           )}
         </div>
@@ -170,7 +427,7 @@ export default function OrdersPage() {
                   <div className="space-y-2">
                     <p><span className="font-medium">Status:</span> 
                       <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">
-                        {selectedOrder.status.charAt(0).toUpperCase() + selectedOrder.status.slice(1)}
+                        {ORDER_STATUS_LABELS[selectedOrder.status] ?? selectedOrder.status}
                       </span>
                     </p>
                     <p><span className="font-medium">Payment Method:</span> {selectedOrder.paymentMethod.replace('_', ' ')}</p>
@@ -215,6 +472,78 @@ export default function OrdersPage() {
                 </div>
               </div>
 
+              {/* Delivery attempts */}
+              {deliveryAttempts && (deliveryAttempts.attempts.length > 0 || selectedOrder.status === 'shipped') && (
+                <div className="space-y-3">
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Delivery Attempts</h3>
+                  {deliveryAttempts.rescheduleReason && (
+                    <p className="p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 text-sm text-amber-800 dark:text-amber-200">
+                      Needs rescheduling ({FAILED_ATTEMPT_REASONS[deliveryAttempts.rescheduleReason].toLowerCase()}). Contact the customer, then
+                      assign a rider on the Riders page.
+                    </p>
+                  )}
+                  {deliveryAttempts.attempts.map((attempt) => (
+                    <div key={attempt.id} className="p-4 bg-gray-50 dark:bg-gray-700 rounded-lg text-sm space-y-1">
+                      <p className="font-medium text-gray-900 dark:text-white">
+                        {attempt.outcome === 'delivered' ? 'Delivered' : `Attempted: ${attempt.reasonCode ? FAILED_ATTEMPT_REASONS[attempt.reasonCode] : 'Failed'}`}
+                        <span className="ml-2 font-normal text-gray-500 dark:text-gray-400">
+                          {new Date(attempt.createdAt).toLocaleString()} · {attempt.riderName ?? 'No rider'}{attempt.byAdmin ? ' (by admin)' : ''}
+                        </span>
+                      </p>
+                      {attempt.note && <p className="text-gray-700 dark:text-gray-300">{attempt.note}</p>}
+                      {attempt.recipientName && <p className="text-gray-700 dark:text-gray-300">Received by {attempt.recipientName}</p>}
+                      <p className="flex flex-wrap gap-3 text-gray-600 dark:text-gray-300">
+                        {attempt.photoUrl && (
+                          <a href={attempt.photoUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                            View photo
+                          </a>
+                        )}
+                        {attempt.gps && (
+                          <a
+                            href={`https://www.google.com/maps/search/?api=1&query=${attempt.gps.lat},${attempt.gps.lng}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-blue-600 hover:underline"
+                          >
+                            GPS fix{attempt.gps.accuracyM != null ? ` ±${Math.round(attempt.gps.accuracyM)} m` : ''}
+                            {attempt.gps.capturedAt ? ` at ${new Date(attempt.gps.capturedAt).toLocaleTimeString()}` : ''}
+                          </a>
+                        )}
+                        {attempt.distanceFromPinM != null && <span>{attempt.distanceFromPinM} m from the delivery pin</span>}
+                      </p>
+                    </div>
+                  ))}
+                  {selectedOrder.status === 'shipped' && (
+                    <div className="flex flex-wrap items-end gap-3">
+                      <select
+                        value={failReason}
+                        onChange={(e) => setFailReason(e.target.value as FailedAttemptReasonCode)}
+                        className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm"
+                      >
+                        {(Object.keys(FAILED_ATTEMPT_REASONS) as FailedAttemptReasonCode[]).map((code) => (
+                          <option key={code} value={code}>{FAILED_ATTEMPT_REASONS[code]}</option>
+                        ))}
+                      </select>
+                      <input
+                        type="text"
+                        placeholder="Note (optional)"
+                        maxLength={300}
+                        value={failNote}
+                        onChange={(e) => setFailNote(e.target.value)}
+                        className="flex-1 min-w-[12rem] px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm"
+                      />
+                      <button
+                        onClick={() => handleRecordFailedAttempt(selectedOrder)}
+                        disabled={isRecordingFailure}
+                        className="px-4 py-2 border border-amber-500 text-amber-700 dark:text-amber-300 rounded-lg hover:bg-amber-50 dark:hover:bg-amber-900/20 text-sm disabled:opacity-50"
+                      >
+                        {isRecordingFailure ? 'Recording…' : 'Record failed attempt'}
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* Notes */}
               {selectedOrder.notes && (
                 <div className="space-y-3">
@@ -228,7 +557,7 @@ export default function OrdersPage() {
                 <button
                   onClick={() => {
                     setIsViewModalOpen(false)
-                    setIsEditModalOpen(true)
+                    openEditModal(selectedOrder)
                   }}
                   className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
                 >
@@ -246,6 +575,17 @@ export default function OrdersPage() {
         </div>
       )}
 
+      {/* New Order Modal (phone, WhatsApp and walk-in customers) */}
+      {isNewOrderOpen && (
+        <NewOrderModal
+          onClose={() => setIsNewOrderOpen(false)}
+          onCreated={() => {
+            setIsNewOrderOpen(false)
+            setReloadKey((k) => k + 1)
+          }}
+        />
+      )}
+
       {/* Order Edit Modal */}
       {isEditModalOpen && selectedOrder && (
         <div className="fixed inset-0 bg-transparent flex items-center justify-center p-4 z-50">
@@ -274,15 +614,68 @@ export default function OrdersPage() {
                   onChange={(e) => handleUpdateOrderStatus(selectedOrder.id, e.target.value as OrderStatus)}
                   className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-800 dark:text-white"
                 >
-                  <option value="pending">Pending</option>
-                  <option value="confirmed">Confirmed</option>
-                  <option value="processing">Processing</option>
-                  <option value="shipped">Shipped</option>
-                  <option value="delivered">Delivered</option>
-                  <option value="cancelled">Cancelled</option>
+                  {[selectedOrder.status, ...(selectedOrder.allowedNextStatuses ?? [])].map((status) => (
+                    <option key={status} value={status}>
+                      {ORDER_STATUS_LABELS[status] ?? status}
+                    </option>
+                  ))}
                 </select>
+                {selectedOrder.allowedNextStatuses?.length === 0 && (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    This order is {selectedOrder.status}; no further status changes are allowed.
+                  </p>
+                )}
               </div>
 
+              {AMENDABLE_STATUSES.includes(selectedOrder.status) && selectedOrder.items.length > 0 && (
+                <div className="space-y-3">
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Items
+                  </label>
+                  <div className="space-y-2">
+                    {selectedOrder.items.map((item) => (
+                      <div key={item.productId} className="flex items-center justify-between gap-3">
+                        <span className="text-sm text-gray-900 dark:text-white">{item.productName}</span>
+                        <input
+                          type="number"
+                          min={0}
+                          value={itemQuantities[item.productId] ?? item.quantity}
+                          onChange={(e) => setItemQuantities(prev => ({ ...prev, [item.productId]: Math.max(0, parseInt(e.target.value, 10) || 0) }))}
+                          className="w-20 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-800 dark:text-white"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  <input
+                    type="text"
+                    placeholder="Reason (e.g. customer called to remove bread)"
+                    maxLength={500}
+                    value={amendReason}
+                    onChange={(e) => setAmendReason(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-800 dark:text-white"
+                  />
+                  <select
+                    value={refundMethod}
+                    onChange={(e) => setRefundMethod(e.target.value as 'original_payment' | 'store_credit')}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-800 dark:text-white"
+                  >
+                    <option value="original_payment">If the total drops: refund to original payment</option>
+                    <option value="store_credit">If the total drops: give store credit</option>
+                  </select>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    Set a quantity to 0 to remove the item. If the new total is higher on a paid order, a payment link is copied for the customer and the items change once it is paid.
+                  </p>
+                  <button
+                    type="button"
+                    onClick={() => handleAmendOrder(selectedOrder)}
+                    disabled={isAmending}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                  >
+                    {isAmending ? 'Updating...' : 'Update items'}
+                  </button>
+                </div>
+              )}
+
               {/* Actions */}
               <div className="flex items-center justify-end space-x-3 pt-6 border-t border-gray-200 dark:border-gray-700">
                 <button
@@ -5,6 +5,8 @@
 import React, { useState, useEffect } from 'react'
 import { useAdminStore } from '@/store/adminStore'
 import StatsDashboard from '@/components/StatsDashboard'
+import NeedsAttentionPanel from '@/components/NeedsAttentionPanel'
+import TaxSummaryReport from '@/components/TaxSummaryReport'
 import ProductsTable from '@/components/ProductsTable'
 import ProductForm from '@/components/ProductForm'
 import AdminSidebar from '@/components/AdminSidebar'
@@ -157,6 +159,7 @@ export default function AdminDashboard() {
       type: product.type || '',
       packaging: product.packaging || '',
       inStock: product.in_stock ?? true,
+      oversellPolicy: product.oversell_policy ?? 'block',
       rating: product.rating || 0,
       reviews: product.reviews_count || 0,
       images: product.images || [],
@@ -208,6 +211,7 @@ export default function AdminDashboard() {
           type: productData.type,
           packaging: productData.packaging,
           in_stock: productData.inStock,
+          oversell_policy: productData.oversellPolicy,
           images: productData.images,
         })
         
@@ -237,6 +241,7 @@ export default function AdminDashboard() {
           type: productData.type,
           packaging: productData.packaging,
           in_stock: productData.inStock,
+          oversell_policy: productData.oversellPolicy,
           images: productData.images,
         })
         
@@ -303,6 +308,12 @@ export default function AdminDashboard() {
             <StatsDashboard stats={stats} />
           )}
 
+          {/* Orders past their status SLA */}
+          <NeedsAttentionPanel />
+
+          {/* VAT and levies */}
+          <TaxSummaryReport />
+
           {/* Products Management */}
           {loading ? (
             <div className="flex items-center justify-center py-12">
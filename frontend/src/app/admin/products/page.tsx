@@ -10,7 +10,7 @@ import ProductForm from '@/components/ProductForm'
 import AIProductRecommendationsBar, { AIRecommendedProduct } from '@/components/AIProductRecommendationsBar'
 import { productsApi, categoriesApi, aiApi } from '@/lib/api'
 import { uploadLocalImages } from '@/lib/upload'
-import { GroceryCategory, GroceryProduct } from '@/types/grocery'
+import { GroceryCategory, GroceryProduct, OversellPolicy } from '@/types/grocery'
 import { useAICart } from '@/contexts/AICartContext'
 import Image from 'next/image'
 import { toast } from 'sonner'
@@ -31,6 +31,7 @@ interface Product {
   type?: string
   packaging?: string
   in_stock: boolean
+  oversell_policy?: OversellPolicy
   rating?: number
   reviews_count?: number
   images?: string[]
@@ -477,6 +478,7 @@ export default function ProductsPage() {
     type: product.type || '',
     packaging: product.packaging || '',
     inStock: product.in_stock,
+    oversellPolicy: product.oversell_policy ?? 'block',
     rating: product.rating ?? 0,
     reviews: product.reviews_count ?? 0,
     images: product.images || [],
@@ -510,6 +512,7 @@ export default function ProductsPage() {
         type: formValues.type || null,
         packaging: formValues.packaging || null,
         in_stock: formValues.inStock,
+        oversell_policy: formValues.oversellPolicy ?? 'block',
         rating: formValues.rating ?? 0,
         reviews_count: formValues.reviews ?? 0,
         images: imageUrls,
@@ -0,0 +1,147 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import AdminSidebar from '@/components/AdminSidebar'
+import { productsApi } from '@/lib/api'
+import { StockReservation } from '@/types/grocery'
+import { RefreshCw } from 'lucide-react'
+import { toast } from 'sonner'
+
+type ReservationStatusFilter = StockReservation['status']
+
+const POLICY_LABELS: Record<StockReservation['oversellPolicy'], string> = {
+  block: 'Block',
+  backorder: 'Backorder',
+  alert: 'Allow + alert',
+}
+
+export default function ReservationsPage() {
+  const [isSidebarOpen, setIsSidebarOpen] = useState(false)
+  const [reservations, setReservations] = useState<StockReservation[]>([])
+  const [status, setStatus] = useState<ReservationStatusFilter>('active')
+  const [loading, setLoading] = useState(true)
+
+  const fetchReservations = useCallback(async () => {
+    setLoading(true)
+    try {
+      const res = await productsApi.getReservations({ status, limit: 200 })
+      if (res.success && Array.isArray(res.data)) {
+        setReservations(res.data)
+      } else {
+        setReservations([])
+        toast.error(res.message || 'Failed to load reservations')
+      }
+    } catch {
+      setReservations([])
+      toast.error('Failed to load reservations')
+    } finally {
+      setLoading(false)
+    }
+  }, [status])
+
+  useEffect(() => {
+    fetchReservations()
+  }, [fetchReservations])
+
+  const totalHeld = reservations.reduce((sum, r) => sum + r.quantity, 0)
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <AdminSidebar
+        currentPage="reservations"
+        isSidebarOpen={isSidebarOpen}
+        setIsSidebarOpen={setIsSidebarOpen}
+      />
+
+      <div className="lg:ml-64">
+        <div className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Stock Reservations</h1>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Stock held by checkouts waiting for payment. Active holds count against available stock.
+              </p>
+            </div>
+            <div className="flex items-center gap-3">
+              <select
+                value={status}
+                onChange={(e) => setStatus(e.target.value as ReservationStatusFilter)}
+                className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-800 dark:text-white"
+              >
+                <option value="active">Active</option>
+                <option value="committed">Committed</option>
+                <option value="released">Released</option>
+              </select>
+              <button
+                type="button"
+                onClick={fetchReservations}
+                className="p-2 text-gray-600 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400"
+                title="Refresh"
+              >
+                <RefreshCw className="h-5 w-5" />
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-6">
+          {loading ? (
+            <p className="text-gray-600 dark:text-gray-400">Loading...</p>
+          ) : (
+            <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 overflow-hidden">
+              {status === 'active' && reservations.length > 0 && (
+                <p className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                  {totalHeld} unit{totalHeld === 1 ? '' : 's'} held across {reservations.length} reservation{reservations.length === 1 ? '' : 's'}
+                </p>
+              )}
+              <table className="w-full">
+                <thead className="bg-gray-50 dark:bg-gray-700">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Product</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Reserved</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Backordered</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">In stock</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Policy</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Checkout</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">
+                      {status === 'active' ? 'Expires' : status === 'committed' ? 'Committed' : 'Released'}
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {reservations.length === 0 ? (
+                    <tr>
+                      <td colSpan={7} className="px-4 py-8 text-center text-gray-500 dark:text-gray-400">
+                        No {status} reservations.
+                      </td>
+                    </tr>
+                  ) : (
+                    reservations.map((r) => {
+                      const when = status === 'active' ? r.expiresAt : status === 'committed' ? r.committedAt : r.releasedAt
+                      return (
+                        <tr key={r.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                          <td className="px-4 py-3 text-sm text-gray-900 dark:text-white">{r.productName}</td>
+                          <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">{r.quantity}</td>
+                          <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">
+                            {r.backorderedQuantity > 0 ? <span className="text-orange-600">{r.backorderedQuantity}</span> : '—'}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">{r.productQuantity ?? '—'}</td>
+                          <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">{POLICY_LABELS[r.oversellPolicy] ?? r.oversellPolicy}</td>
+                          <td className="px-4 py-3 font-mono text-xs text-gray-700 dark:text-gray-300">{r.pendingOrderId.slice(0, 8)}</td>
+                          <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">
+                            {when ? new Date(when).toLocaleString() : '—'}
+                            {status === 'released' && r.releaseReason ? ` (${r.releaseReason})` : ''}
+                          </td>
+                        </tr>
+                      )
+                    })
+                  )}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
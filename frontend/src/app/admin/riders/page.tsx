@@ -0,0 +1,455 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Bike, ClipboardList, BarChart3, Save, Loader2, Plus, Pencil, X } from 'lucide-react'
+import { toast } from 'sonner'
+import AdminSidebar from '@/components/AdminSidebar'
+import { adminRidersApi } from '@/lib/api'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import type { Rider, RiderAssignment, RiderPerformanceReport } from '@/types/grocery'
+
+const SELECT_CLASS =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-800 dark:text-white'
+
+/** Rider being created (id null) or edited; an empty password keeps the current one */
+interface RiderForm {
+  id: string | null
+  fullName: string
+  phone: string
+  email: string
+  vehicle: string
+  routeCapacity: string
+  password: string
+  active: boolean
+}
+
+function riderToForm(rider: Rider | null): RiderForm {
+  return {
+    id: rider?.id ?? null,
+    fullName: rider?.fullName ?? '',
+    phone: rider?.phone ?? '',
+    email: rider?.email ?? '',
+    vehicle: rider?.vehicle ?? '',
+    routeCapacity: String(rider?.routeCapacity ?? 15),
+    password: '',
+    active: rider?.active ?? true,
+  }
+}
+
+const isoDate = (date: Date) => date.toISOString().slice(0, 10)
+
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString('en-GB', { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit', timeZone: 'UTC' })
+
+const formatMinutes = (minutes: number | null) => {
+  if (minutes == null) return '—'
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h ${minutes % 60} min`
+}
+
+export default function AdminRidersPage() {
+  const [isSidebarOpen, setIsSidebarOpen] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [riders, setRiders] = useState<Rider[]>([])
+  const [form, setForm] = useState<RiderForm | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [assignments, setAssignments] = useState<RiderAssignment[]>([])
+  const [assignmentsLoading, setAssignmentsLoading] = useState(false)
+  const [unassignedOnly, setUnassignedOnly] = useState(false)
+  const [assigningId, setAssigningId] = useState<string | null>(null)
+  const [from, setFrom] = useState(() => isoDate(new Date(Date.now() - 6 * 24 * 60 * 60 * 1000)))
+  const [to, setTo] = useState(() => isoDate(new Date()))
+  const [performance, setPerformance] = useState<RiderPerformanceReport | null>(null)
+  const [performanceLoading, setPerformanceLoading] = useState(false)
+
+  useEffect(() => {
+    Promise.all([loadRiders(), loadAssignments(false), loadPerformance(from, to)])
+      .catch(() => toast.error('Failed to load riders'))
+      .finally(() => setLoading(false))
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  const loadRiders = () =>
+    adminRidersApi.list({ includeInactive: true }).then((res) => {
+      if (res.success && res.data) setRiders(res.data)
+    })
+
+  const loadAssignments = (unassigned: boolean) => {
+    setAssignmentsLoading(true)
+    return adminRidersApi
+      .getAssignments({ unassigned: unassigned || undefined })
+      .then((res) => {
+        if (res.success && res.data) setAssignments(res.data)
+        else toast.error(res.message ?? 'Failed to load shipped orders')
+      })
+      .catch(() => toast.error('Failed to load shipped orders'))
+      .finally(() => setAssignmentsLoading(false))
+  }
+
+  const loadPerformance = (rangeFrom: string, rangeTo: string) => {
+    setPerformanceLoading(true)
+    return adminRidersApi
+      .getPerformance({ from: rangeFrom, to: rangeTo })
+      .then((res) => {
+        if (res.success && res.data) setPerformance(res.data)
+        else toast.error(res.message ?? 'Failed to load performance')
+      })
+      .catch(() => toast.error('Failed to load performance'))
+      .finally(() => setPerformanceLoading(false))
+  }
+
+  const handleSave = async () => {
+    if (!form) return
+    if (form.fullName.trim().length < 2) {
+      toast.error('Name is required')
+      return
+    }
+    if (!/^\+?[0-9 ]{9,20}$/.test(form.phone.trim())) {
+      toast.error('Enter a valid phone number')
+      return
+    }
+    const routeCapacity = parseInt(form.routeCapacity, 10)
+    if (Number.isNaN(routeCapacity) || routeCapacity < 1 || routeCapacity > 100) {
+      toast.error('Route capacity must be 1-100 stops')
+      return
+    }
+    if ((!form.id || form.password) && form.password.length < 8) {
+      toast.error('Password must be at least 8 characters')
+      return
+    }
+
+    const input = {
+      fullName: form.fullName.trim(),
+      phone: form.phone.trim(),
+      email: form.email.trim() || null,
+      vehicle: form.vehicle.trim() || null,
+      routeCapacity,
+      active: form.active,
+      password: form.password || undefined,
+    }
+
+    setSaving(true)
+    try {
+      const res = form.id ? await adminRidersApi.update(form.id, input) : await adminRidersApi.create(input)
+      if (res.success) {
+        toast.success(form.id ? 'Rider updated' : 'Rider created')
+        setForm(null)
+        loadRiders()
+      } else {
+        toast.error(res.message ?? 'Failed to save rider')
+      }
+    } catch {
+      toast.error('Failed to save rider')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleAssign = async (orderId: string, riderId: string) => {
+    setAssigningId(orderId)
+    try {
+      const res = await adminRidersApi.assign(orderId, riderId || null)
+      if (res.success) {
+        toast.success(riderId ? 'Order assigned' : 'Rider unassigned')
+        loadAssignments(unassignedOnly)
+      } else {
+        toast.error(res.message ?? 'Failed to assign order')
+      }
+    } catch {
+      toast.error('Failed to assign order')
+    } finally {
+      setAssigningId(null)
+    }
+  }
+
+  const activeRiders = riders.filter((r) => r.active)
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+        <AdminSidebar currentPage="riders" isSidebarOpen={isSidebarOpen} setIsSidebarOpen={setIsSidebarOpen} />
+        <div className="lg:ml-64 flex items-center justify-center min-h-[200px]">
+          <Loader2 className="h-8 w-8 animate-spin text-[#D35F0E]" />
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <AdminSidebar currentPage="riders" isSidebarOpen={isSidebarOpen} setIsSidebarOpen={setIsSidebarOpen} />
+      <div className="lg:ml-64 container mx-auto p-6 space-y-6">
+      <div className="flex items-center gap-3">
+        <Bike className="h-8 w-8 text-[#D35F0E]" />
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Riders</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Riders sign in with their phone number and only see and confirm the deliveries assigned to them.
+          </p>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Accounts</CardTitle>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Deactivated riders cannot sign in or take new orders. Orders already assigned to them stay assigned.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {form ? (
+            <div className="space-y-4 rounded-lg border border-gray-200 dark:border-gray-700 p-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="rider_name">Full name</Label>
+                  <Input id="rider_name" maxLength={100} value={form.fullName} onChange={(e) => setForm({ ...form, fullName: e.target.value })} className="mt-1" />
+                </div>
+                <div>
+                  <Label htmlFor="rider_phone">Phone (sign-in)</Label>
+                  <Input id="rider_phone" placeholder="e.g. 0241234567" maxLength={20} value={form.phone} onChange={(e) => setForm({ ...form, phone: e.target.value })} className="mt-1" />
+                </div>
+                <div>
+                  <Label htmlFor="rider_email">Email</Label>
+                  <Input id="rider_email" type="email" value={form.email} onChange={(e) => setForm({ ...form, email: e.target.value })} className="mt-1" />
+                </div>
+                <div>
+                  <Label htmlFor="rider_vehicle">Vehicle</Label>
+                  <Input id="rider_vehicle" placeholder="e.g. Motorbike GR-1234-21" maxLength={100} value={form.vehicle} onChange={(e) => setForm({ ...form, vehicle: e.target.value })} className="mt-1" />
+                </div>
+                <div>
+                  <Label htmlFor="rider_capacity">Stops per route</Label>
+                  <Input
+                    id="rider_capacity"
+                    type="number"
+                    min="1"
+                    max="100"
+                    step="1"
+                    value={form.routeCapacity}
+                    onChange={(e) => setForm({ ...form, routeCapacity: e.target.value })}
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="rider_password">{form.id ? 'New password' : 'Password'}</Label>
+                  <Input
+                    id="rider_password"
+                    type="password"
+                    autoComplete="new-password"
+                    placeholder={form.id ? 'Leave empty to keep the current one' : 'At least 8 characters'}
+                    value={form.password}
+                    onChange={(e) => setForm({ ...form, password: e.target.value })}
+                    className="mt-1"
+                  />
+                </div>
+                <div className="flex items-center gap-2 pt-6">
+                  <Switch id="rider_active" checked={form.active} onCheckedChange={(active) => setForm({ ...form, active })} />
+                  <Label htmlFor="rider_active">Active</Label>
+                </div>
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setForm(null)} disabled={saving}>
+                  <X className="h-4 w-4 mr-1" />
+                  Cancel
+                </Button>
+                <Button type="button" onClick={handleSave} disabled={saving} className="bg-[#D35F0E] hover:bg-[#D35F0E]/90">
+                  {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                  {form.id ? 'Save rider' : 'Create rider'}
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex justify-end">
+              <Button type="button" variant="outline" onClick={() => setForm(riderToForm(null))}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add rider
+              </Button>
+            </div>
+          )}
+
+          {riders.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No riders yet. Until you add one, only admins can confirm deliveries.</p>
+          ) : (
+            <div className="divide-y divide-gray-200 dark:divide-gray-700 rounded-lg border border-gray-200 dark:border-gray-700">
+              {riders.map((rider) => (
+                <div key={rider.id} className="flex items-center justify-between gap-4 p-3">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 dark:text-white truncate">
+                      {rider.fullName}
+                      {!rider.active && <span className="ml-2 text-xs font-normal text-gray-500">(inactive)</span>}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {rider.phone}
+                      {rider.vehicle && ` · ${rider.vehicle}`}
+                      {` · ${rider.routeCapacity} stops per route`}
+                      {` · ${rider.lastLoginAt ? `Last signed in ${formatDateTime(rider.lastLoginAt)}` : 'Never signed in'}`}
+                    </p>
+                  </div>
+                  <Button type="button" variant="ghost" size="sm" onClick={() => setForm(riderToForm(rider))} title="Edit rider">
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between gap-2">
+            <span className="flex items-center gap-2">
+              <ClipboardList className="h-5 w-5" />
+              Shipped orders
+            </span>
+            <span className="flex items-center gap-2 text-sm font-normal">
+              <Switch
+                id="unassigned_only"
+                checked={unassignedOnly}
+                onCheckedChange={(checked) => {
+                  setUnassignedOnly(checked)
+                  loadAssignments(checked)
+                }}
+              />
+              <Label htmlFor="unassigned_only">Unassigned only</Label>
+            </span>
+          </CardTitle>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Only shipped orders can be assigned. The rider sees the address and map pin in their delivery list.
+          </p>
+        </CardHeader>
+        <CardContent>
+          {assignments.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">{assignmentsLoading ? 'Loading…' : 'No shipped orders.'}</p>
+          ) : (
+            <div className="overflow-x-auto rounded-lg border border-gray-200 dark:border-gray-700">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-800 text-left text-gray-600 dark:text-gray-300">
+                  <tr>
+                    <th className="p-3 font-medium">Order</th>
+                    <th className="p-3 font-medium">Customer</th>
+                    <th className="p-3 font-medium">Delivery slot</th>
+                    <th className="p-3 font-medium w-64">Rider</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-900 dark:text-white">
+                  {assignments.map((row) => (
+                    <tr key={row.orderId}>
+                      <td className="p-3 font-medium">
+                        {row.orderNumber}
+                        {row.rescheduleReason && (
+                          <span className="block text-xs font-normal text-amber-700 dark:text-amber-300">
+                            Reschedule: {row.rescheduleReason.replace(/_/g, ' ')}
+                          </span>
+                        )}
+                      </td>
+                      <td className="p-3">
+                        {row.customerName ?? '—'}
+                        {row.city && <span className="block text-xs text-gray-500 dark:text-gray-400">{row.city}</span>}
+                      </td>
+                      <td className="p-3">{row.deliveryWindowStart ? formatDateTime(row.deliveryWindowStart) : '—'}</td>
+                      <td className="p-3">
+                        <select
+                          value={row.riderId ?? ''}
+                          onChange={(e) => handleAssign(row.orderId, e.target.value)}
+                          disabled={assigningId === row.orderId}
+                          className={SELECT_CLASS}
+                        >
+                          <option value="">Unassigned</option>
+                          {row.riderId && !activeRiders.some((r) => r.id === row.riderId) && (
+                            <option value={row.riderId}>{row.riderName ?? 'Inactive rider'}</option>
+                          )}
+                          {activeRiders.map((r) => (
+                            <option key={r.id} value={r.id}>{r.fullName}</option>
+                          ))}
+                        </select>
+                        {row.assignedAt && <span className="block mt-1 text-xs text-gray-500 dark:text-gray-400">Assigned {formatDateTime(row.assignedAt)}</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <BarChart3 className="h-5 w-5" />
+            Performance
+          </CardTitle>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Average time runs from assignment to confirmed delivery. Failed attempts are deliveries the rider could not make. Up to 92 days.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-end gap-3">
+            <div>
+              <Label htmlFor="perf_from">From</Label>
+              <Input id="perf_from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="mt-1" />
+            </div>
+            <div>
+              <Label htmlFor="perf_to">To</Label>
+              <Input id="perf_to" type="date" value={to} onChange={(e) => setTo(e.target.value)} className="mt-1" />
+            </div>
+            <Button type="button" variant="outline" onClick={() => loadPerformance(from, to)} disabled={performanceLoading || !from || !to}>
+              {performanceLoading && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Show
+            </Button>
+          </div>
+
+          {!performance || performance.riders.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">{performanceLoading ? 'Loading…' : 'No rider activity in this range.'}</p>
+          ) : (
+            <div className="overflow-x-auto rounded-lg border border-gray-200 dark:border-gray-700">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-800 text-left text-gray-600 dark:text-gray-300">
+                  <tr>
+                    <th className="p-3 font-medium">Rider</th>
+                    <th className="p-3 font-medium text-right">Delivered</th>
+                    <th className="p-3 font-medium text-right">Per day</th>
+                    <th className="p-3 font-medium text-right">Average time</th>
+                    <th className="p-3 font-medium text-right">Failed attempts</th>
+                    <th className="p-3 font-medium text-right">Open</th>
+                    <th className="p-3 font-medium">Daily (delivered / failed)</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-900 dark:text-white">
+                  {performance.riders.map((row) => (
+                    <tr key={row.riderId}>
+                      <td className="p-3 font-medium">
+                        {row.riderName}
+                        {!row.active && <span className="ml-2 text-xs font-normal text-gray-500">(inactive)</span>}
+                      </td>
+                      <td className="p-3 text-right">{row.delivered}</td>
+                      <td className="p-3 text-right">{(row.delivered / Math.max(1, row.days.length)).toFixed(1)}</td>
+                      <td className="p-3 text-right">{formatMinutes(row.averageDeliveryMinutes)}</td>
+                      <td className="p-3 text-right">{row.failedAttempts}</td>
+                      <td className="p-3 text-right">{row.openAssignments}</td>
+                      <td className="p-3">
+                        <div className="flex flex-wrap gap-1">
+                          {row.days
+                            .filter((d) => d.delivered > 0 || d.failed > 0)
+                            .map((d) => (
+                              <span key={d.date} className="text-xs rounded-full bg-gray-100 dark:bg-gray-800 px-2 py-0.5 text-gray-700 dark:text-gray-200" title={d.date}>
+                                {d.date.slice(5)}: {d.delivered}/{d.failed}
+                              </span>
+                            ))}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,304 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import AdminSidebar from '@/components/AdminSidebar'
+import { adminStoreCreditApi, adminVouchersApi } from '@/lib/api'
+import { StoreCreditBalance, StoreCreditEntry } from '@/types/grocery'
+import { RefreshCw } from 'lucide-react'
+import { toast } from 'sonner'
+
+type UserOption = { id: string; email: string; name: string }
+
+const PAGE_SIZE = 20
+
+const formatGhs = (amount: number) => `GHS ${amount.toFixed(2)}`
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-GB', { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' })
+
+const ENTRY_LABELS: Record<StoreCreditEntry['entry_type'], string> = {
+  grant: 'Granted',
+  spend: 'Spent',
+  refund: 'Refund',
+  expiry: 'Expired',
+  adjustment: 'Adjustment',
+}
+
+export default function StoreCreditPage() {
+  const [isSidebarOpen, setIsSidebarOpen] = useState(false)
+  const [users, setUsers] = useState<UserOption[]>([])
+  const [userId, setUserId] = useState('')
+  const [balance, setBalance] = useState<StoreCreditBalance | null>(null)
+  const [entries, setEntries] = useState<StoreCreditEntry[]>([])
+  const [page, setPage] = useState(1)
+  const [totalPages, setTotalPages] = useState(1)
+  const [loading, setLoading] = useState(false)
+  const [formAmount, setFormAmount] = useState('')
+  const [formReason, setFormReason] = useState('')
+  const [formExpiresAt, setFormExpiresAt] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  useEffect(() => {
+    const loadUsers = async () => {
+      try {
+        const res = await adminVouchersApi.listUsers()
+        setUsers(res.success && Array.isArray(res.data) ? res.data : [])
+      } catch {
+        setUsers([])
+      }
+    }
+    loadUsers()
+  }, [])
+
+  const fetchCredit = useCallback(async () => {
+    if (!userId) {
+      setBalance(null)
+      setEntries([])
+      return
+    }
+    setLoading(true)
+    try {
+      const res = await adminStoreCreditApi.getCustomer(userId, { page, limit: PAGE_SIZE })
+      if (res.success && res.data) {
+        const { entries: ledger, ...wallet } = res.data
+        setBalance(wallet)
+        setEntries(Array.isArray(ledger) ? ledger : [])
+        setTotalPages(Math.max(res.pagination?.totalPages ?? 1, 1))
+      } else {
+        setBalance(null)
+        setEntries([])
+        toast.error(res.message || 'Failed to load store credit')
+      }
+    } catch {
+      setBalance(null)
+      setEntries([])
+      toast.error('Failed to load store credit')
+    } finally {
+      setLoading(false)
+    }
+  }, [userId, page])
+
+  useEffect(() => {
+    fetchCredit()
+  }, [fetchCredit])
+
+  const handleAdjust = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const amount = Number(formAmount)
+    if (!Number.isFinite(amount) || amount === 0) {
+      toast.error('Enter a non-zero amount (negative to remove credit)')
+      return
+    }
+    if (!formReason.trim()) {
+      toast.error('Enter a reason')
+      return
+    }
+    setSubmitting(true)
+    try {
+      const res = await adminStoreCreditApi.adjust(userId, {
+        amount,
+        reason: formReason.trim(),
+        expiresAt: amount > 0 && formExpiresAt ? new Date(`${formExpiresAt}T23:59:59`).toISOString() : undefined,
+      })
+      if (res.success) {
+        toast.success(res.message || 'Store credit updated')
+        setFormAmount('')
+        setFormReason('')
+        setFormExpiresAt('')
+        if (page === 1) fetchCredit()
+        else setPage(1)
+      } else {
+        toast.error(res.message || 'Failed to adjust store credit')
+      }
+    } catch {
+      toast.error('Failed to adjust store credit')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <AdminSidebar
+        currentPage="store-credit"
+        isSidebarOpen={isSidebarOpen}
+        setIsSidebarOpen={setIsSidebarOpen}
+      />
+
+      <div className="lg:ml-64">
+        <div className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Store Credit</h1>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Customer credit balances and every grant, spend, refund and expiry behind them.
+              </p>
+            </div>
+            <div className="flex items-center gap-3">
+              <select
+                value={userId}
+                onChange={(e) => {
+                  setUserId(e.target.value)
+                  setPage(1)
+                }}
+                className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-800 dark:text-white"
+              >
+                <option value="">Select a customer</option>
+                {users.map((u) => (
+                  <option key={u.id} value={u.id}>
+                    {u.name ? `${u.name} (${u.email})` : u.email}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={fetchCredit}
+                disabled={!userId}
+                className="p-2 text-gray-600 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400 disabled:opacity-50"
+                title="Refresh"
+              >
+                <RefreshCw className="h-5 w-5" />
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {!userId ? (
+            <p className="text-gray-600 dark:text-gray-400">Select a customer to see their store credit.</p>
+          ) : loading && !balance ? (
+            <p className="text-gray-600 dark:text-gray-400">Loading...</p>
+          ) : (
+            <>
+              {balance && (
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-4">
+                    <p className="text-sm text-gray-500 dark:text-gray-400">Available</p>
+                    <p className="text-2xl font-bold text-gray-900 dark:text-white">{formatGhs(balance.available)}</p>
+                  </div>
+                  <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-4">
+                    <p className="text-sm text-gray-500 dark:text-gray-400">Held by unpaid checkouts</p>
+                    <p className="text-2xl font-bold text-gray-900 dark:text-white">{formatGhs(balance.held)}</p>
+                  </div>
+                  <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-4">
+                    <p className="text-sm text-gray-500 dark:text-gray-400">Next expiry</p>
+                    <p className="text-2xl font-bold text-gray-900 dark:text-white">
+                      {balance.nextExpiry ? formatGhs(balance.nextExpiry.amount) : '—'}
+                    </p>
+                    {balance.nextExpiry && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400">{formatDateTime(balance.nextExpiry.expiresAt)}</p>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              <form
+                onSubmit={handleAdjust}
+                className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-4 flex flex-wrap items-end gap-3"
+              >
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Amount (GHS)</label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={formAmount}
+                    onChange={(e) => setFormAmount(e.target.value)}
+                    placeholder="e.g. 20 or -5"
+                    className="w-36 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
+                  />
+                </div>
+                <div className="flex-1 min-w-[12rem]">
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Reason</label>
+                  <input
+                    type="text"
+                    value={formReason}
+                    onChange={(e) => setFormReason(e.target.value)}
+                    maxLength={500}
+                    placeholder="Shown in the customer's credit history"
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Expires (grants only)</label>
+                  <input
+                    type="date"
+                    value={formExpiresAt}
+                    onChange={(e) => setFormExpiresAt(e.target.value)}
+                    className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
+                  />
+                </div>
+                <button
+                  type="submit"
+                  disabled={submitting}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {submitting ? 'Saving...' : 'Apply'}
+                </button>
+              </form>
+
+              <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 overflow-hidden">
+                <table className="w-full">
+                  <thead className="bg-gray-50 dark:bg-gray-700">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Date</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Type</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Amount</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Balance</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Expires</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Reason</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {entries.length === 0 ? (
+                      <tr>
+                        <td colSpan={6} className="px-4 py-8 text-center text-gray-500 dark:text-gray-400">
+                          No store credit activity yet.
+                        </td>
+                      </tr>
+                    ) : (
+                      entries.map((entry) => (
+                        <tr key={entry.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                          <td className="px-4 py-3 text-sm text-gray-900 dark:text-white">{formatDateTime(entry.created_at)}</td>
+                          <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">{ENTRY_LABELS[entry.entry_type]}</td>
+                          <td className={`px-4 py-3 text-sm ${entry.amount < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                            {entry.amount > 0 ? '+' : ''}{formatGhs(entry.amount)}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">{formatGhs(entry.balance_after)}</td>
+                          <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">
+                            {entry.expires_at ? formatDateTime(entry.expires_at) : '—'}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">{entry.reason ?? '—'}</td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+                {totalPages > 1 && (
+                  <div className="flex items-center justify-between px-4 py-3 border-t border-gray-200 dark:border-gray-700 text-sm">
+                    <button
+                      type="button"
+                      onClick={() => setPage((p) => Math.max(p - 1, 1))}
+                      disabled={page <= 1}
+                      className="text-blue-600 hover:text-blue-700 disabled:opacity-50 dark:text-blue-400"
+                    >
+                      Previous
+                    </button>
+                    <span className="text-gray-600 dark:text-gray-400">Page {page} of {totalPages}</span>
+                    <button
+                      type="button"
+                      onClick={() => setPage((p) => Math.min(p + 1, totalPages))}
+                      disabled={page >= totalPages}
+                      className="text-blue-600 hover:text-blue-700 disabled:opacity-50 dark:text-blue-400"
+                    >
+                      Next
+                    </button>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
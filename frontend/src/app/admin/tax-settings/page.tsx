@@ -0,0 +1,222 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Receipt, Save, Loader2 } from 'lucide-react'
+import AdminSidebar from '@/components/AdminSidebar'
+import { adminTaxApi } from '@/lib/api'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+
+type RateField = 'vatRate' | 'nhilRate' | 'getfundRate' | 'covidRate'
+
+const RATE_FIELDS: { key: RateField; label: string; placeholder: string }[] = [
+  { key: 'vatRate', label: 'VAT (%)', placeholder: 'e.g. 15' },
+  { key: 'nhilRate', label: 'NHIL (%)', placeholder: 'e.g. 2.5' },
+  { key: 'getfundRate', label: 'GETFund levy (%)', placeholder: 'e.g. 2.5' },
+  { key: 'covidRate', label: 'COVID-19 levy (%)', placeholder: 'e.g. 0' },
+]
+
+export default function AdminTaxSettingsPage() {
+  const [isSidebarOpen, setIsSidebarOpen] = useState(false)
+  const [enabled, setEnabled] = useState(false)
+  const [pricesIncludeTax, setPricesIncludeTax] = useState(true)
+  const [leviesInVatBase, setLeviesInVatBase] = useState(false)
+  const [taxDeliveryFee, setTaxDeliveryFee] = useState(true)
+  const [rates, setRates] = useState<Record<RateField, string>>({ vatRate: '', nhilRate: '', getfundRate: '', covidRate: '' })
+  const [vatNumber, setVatNumber] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  useEffect(() => {
+    adminTaxApi
+      .getSettings()
+      .then((res) => {
+        if (res.success && res.data) {
+          const d = res.data
+          setEnabled(d.enabled)
+          setPricesIncludeTax(d.pricesIncludeTax)
+          setLeviesInVatBase(d.leviesInVatBase)
+          setTaxDeliveryFee(d.taxDeliveryFee)
+          setRates({
+            vatRate: String(d.vatRate),
+            nhilRate: String(d.nhilRate),
+            getfundRate: String(d.getfundRate),
+            covidRate: String(d.covidRate),
+          })
+          setVatNumber(d.vatNumber ?? '')
+        }
+      })
+      .catch(() => setMessage({ type: 'error', text: 'Failed to load settings' }))
+      .finally(() => setLoading(false))
+  }, [])
+
+  const handleSave = async () => {
+    const parsed = {} as Record<RateField, number>
+    for (const { key, label } of RATE_FIELDS) {
+      const value = rates[key].trim() !== '' ? parseFloat(rates[key]) : 0
+      if (Number.isNaN(value) || value < 0 || value >= 100) {
+        setMessage({ type: 'error', text: `${label.replace(' (%)', '')} must be a percentage between 0 and 99.99` })
+        return
+      }
+      parsed[key] = value
+    }
+
+    setSaving(true)
+    setMessage(null)
+    adminTaxApi
+      .updateSettings({
+        enabled,
+        pricesIncludeTax,
+        leviesInVatBase,
+        taxDeliveryFee,
+        ...parsed,
+        vatNumber: vatNumber.trim() || null,
+      })
+      .then((res) => {
+        if (res.success) {
+          setMessage({
+            type: 'success',
+            text: enabled
+              ? 'Tax settings saved. New checkouts will use these rates; existing orders keep the tax they were placed with.'
+              : 'Tax settings saved. Tax is off, so new orders will not be taxed.',
+          })
+        } else {
+          setMessage({ type: 'error', text: res.message ?? 'Save failed' })
+        }
+      })
+      .catch(() => setMessage({ type: 'error', text: 'Failed to save settings' }))
+      .finally(() => setSaving(false))
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+        <AdminSidebar currentPage="tax-settings" isSidebarOpen={isSidebarOpen} setIsSidebarOpen={setIsSidebarOpen} />
+        <div className="lg:ml-64 flex items-center justify-center min-h-[200px]">
+          <Loader2 className="h-8 w-8 animate-spin text-[#D35F0E]" />
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <AdminSidebar currentPage="tax-settings" isSidebarOpen={isSidebarOpen} setIsSidebarOpen={setIsSidebarOpen} />
+      <div className="lg:ml-64 container mx-auto p-6 space-y-6">
+      <div className="flex items-center gap-3">
+        <Receipt className="h-8 w-8 text-[#D35F0E]" />
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Tax Settings</h1>
+        </div>
+      </div>
+
+      {message && (
+        <div
+          className={`p-4 rounded-lg ${
+            message.type === 'success' ? 'bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200' : 'bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200'
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>VAT and levies</CardTitle>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            When on, VAT, NHIL, GETFund and COVID-19 levies are calculated at checkout, stored with each order and printed on the invoice. Categories marked exempt are not taxed.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="tax_enabled">Charge tax on orders</Label>
+            <Switch id="tax_enabled" checked={enabled} onCheckedChange={setEnabled} />
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="prices_include_tax">Product prices include tax</Label>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                On: tax is taken out of the listed price. Off: tax is added on top at checkout.
+              </p>
+            </div>
+            <Switch id="prices_include_tax" checked={pricesIncludeTax} onCheckedChange={setPricesIncludeTax} />
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="levies_in_vat_base">Charge VAT on levies</Label>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                The older compound scheme, where VAT is charged on the value plus NHIL, GETFund and COVID-19 levies.
+              </p>
+            </div>
+            <Switch id="levies_in_vat_base" checked={leviesInVatBase} onCheckedChange={setLeviesInVatBase} />
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="tax_delivery_fee">Tax the delivery fee</Label>
+            <Switch id="tax_delivery_fee" checked={taxDeliveryFee} onCheckedChange={setTaxDeliveryFee} />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Rates</CardTitle>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Percentages of the taxable value. A rate of 0 leaves that line off the invoice.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {RATE_FIELDS.map(({ key, label, placeholder }) => (
+              <div key={key}>
+                <Label htmlFor={key}>{label}</Label>
+                <Input
+                  id={key}
+                  type="number"
+                  min="0"
+                  max="99.99"
+                  step="0.01"
+                  placeholder={placeholder}
+                  value={rates[key]}
+                  onChange={(e) => setRates((prev) => ({ ...prev, [key]: e.target.value }))}
+                  className="mt-1"
+                />
+              </div>
+            ))}
+          </div>
+          <div>
+            <Label htmlFor="vat_number">TIN / VAT number (printed on invoices)</Label>
+            <Input
+              id="vat_number"
+              maxLength={30}
+              placeholder="e.g. C0012345678"
+              value={vatNumber}
+              onChange={(e) => setVatNumber(e.target.value)}
+              className="mt-1"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={saving} className="bg-[#D35F0E] hover:bg-[#D35F0E]/90">
+          {saving ? (
+            <>
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            <>
+              <Save className="h-4 w-4 mr-2" />
+              Save settings
+            </>
+          )}
+        </Button>
+      </div>
+      </div>
+    </div>
+  )
+}
@@ -3,8 +3,8 @@
 import React, { useState, useEffect } from 'react'
 import TransactionsTable from '@/components/TransactionsTable'
 import AdminSidebar from '@/components/AdminSidebar'
-import { Transaction, TransactionStatus } from '@/types/grocery'
-import { X } from 'lucide-react'
+import { PaymentDiscrepancy, PaymentDiscrepancyType, Refund, Transaction, TransactionStatus } from '@/types/grocery'
+import { AlertTriangle, RefreshCw, X } from 'lucide-react'
 import { ordersApi } from '@/lib/api'
 import { toast } from 'sonner'
 
@@ -15,6 +15,7 @@ function mapRowToTransaction(row: Record<string, unknown>): Transaction {
     customerName: (row.customerName as string) || '—',
     customerEmail: (row.customerEmail as string) || '—',
     amount: Number(row.amount ?? 0),
+    refundedAmount: Number(row.refundedAmount ?? 0),
     currency: (row.currency as string) || 'GHS',
     paymentMethod: ((row.paymentMethod as string) ?? (row.payment_method as string) ?? 'paystack').replace(/-/g, '_') as Transaction['paymentMethod'],
     status: (row.status as TransactionStatus) || 'pending',
@@ -26,6 +27,13 @@ function mapRowToTransaction(row: Record<string, unknown>): Transaction {
   }
 }
 
+const DISCREPANCY_LABELS: Record<PaymentDiscrepancyType, string> = {
+  amount_mismatch: 'Amount mismatch',
+  currency_mismatch: 'Currency mismatch',
+  orphaned_charge: 'Orphaned charge',
+  finalize_failed: 'Could not finalize',
+}
+
 export default function TransactionsPage() {
   const [transactions, setTransactions] = useState<Transaction[]>([])
   const [loading, setLoading] = useState(true)
@@ -34,6 +42,13 @@ export default function TransactionsPage() {
   const [selectedTransaction, setSelectedTransaction] = useState<Transaction | null>(null)
   const [isViewModalOpen, setIsViewModalOpen] = useState(false)
   const [isEditModalOpen, setIsEditModalOpen] = useState(false)
+  const [reloadKey, setReloadKey] = useState(0)
+  const [refunds, setRefunds] = useState<Refund[]>([])
+  const [refundAmount, setRefundAmount] = useState('')
+  const [refundReason, setRefundReason] = useState('')
+  const [isRefunding, setIsRefunding] = useState(false)
+  const [discrepancies, setDiscrepancies] = useState<PaymentDiscrepancy[]>([])
+  const [isReconciling, setIsReconciling] = useState(false)
 
   useEffect(() => {
     let cancelled = false
@@ -56,8 +71,60 @@ export default function TransactionsPage() {
     }
     fetchTransactions()
     return () => { cancelled = true }
+  }, [reloadKey])
+
+  const loadDiscrepancies = async () => {
+    try {
+      const res = await ordersApi.getDiscrepancies({ limit: 100 })
+      setDiscrepancies(res.success && Array.isArray(res.data) ? res.data : [])
+    } catch {
+      setDiscrepancies([])
+    }
+  }
+
+  useEffect(() => {
+    loadDiscrepancies()
   }, [])
 
+  const handleRunReconciliation = async () => {
+    setIsReconciling(true)
+    try {
+      const res = await ordersApi.runReconciliation()
+      if (res.success && res.data) {
+        const r = res.data
+        if (r.skipped) {
+          toast.info('Reconciliation is already running')
+        } else {
+          toast.success(`Checked ${r.checked}: ${r.finalized} finalized, ${r.markedFailed} marked failed, ${r.discrepancies} new discrepancies`)
+        }
+        setReloadKey((k) => k + 1)
+        loadDiscrepancies()
+      } else {
+        toast.error(res.message || 'Reconciliation failed')
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Reconciliation failed')
+    } finally {
+      setIsReconciling(false)
+    }
+  }
+
+  const handleResolveDiscrepancy = async (discrepancy: PaymentDiscrepancy) => {
+    const note = window.prompt(`Resolve ${discrepancy.provider_reference}. Note (optional):`)
+    if (note === null) return
+    try {
+      const res = await ordersApi.resolveDiscrepancy(discrepancy.id, note.trim() || undefined)
+      if (res.success) {
+        setDiscrepancies((prev) => prev.filter((d) => d.id !== discrepancy.id))
+        toast.success('Discrepancy resolved')
+      } else {
+        toast.error(res.message || 'Failed to resolve discrepancy')
+      }
+    } catch {
+      toast.error('Failed to resolve discrepancy')
+    }
+  }
+
   const handleEditTransaction = (transaction: Transaction) => {
     setSelectedTransaction(transaction)
     setIsEditModalOpen(true)
@@ -67,11 +134,60 @@ export default function TransactionsPage() {
     toast.info('Transaction deletion is not available.')
   }
 
+  const loadRefunds = async (transactionId: string) => {
+    try {
+      const res = await ordersApi.getRefunds({ transactionId })
+      setRefunds(res.success && Array.isArray(res.data) ? res.data : [])
+    } catch {
+      setRefunds([])
+    }
+  }
+
   const handleViewTransaction = (transaction: Transaction) => {
     setSelectedTransaction(transaction)
+    setRefunds([])
+    setRefundAmount('')
+    setRefundReason('')
     setIsViewModalOpen(true)
+    loadRefunds(transaction.id)
   }
 
+  const handleRefund = async () => {
+    if (!selectedTransaction) return
+    if (!refundReason.trim()) {
+      toast.error('Please enter a reason for the refund')
+      return
+    }
+    const amount = refundAmount.trim() ? Number(refundAmount) : undefined
+    if (amount !== undefined && (!Number.isFinite(amount) || amount <= 0)) {
+      toast.error('Enter a valid refund amount')
+      return
+    }
+    setIsRefunding(true)
+    try {
+      const res = await ordersApi.refundTransaction(selectedTransaction.id, { amount, reason: refundReason.trim() })
+      if (res.success) {
+        toast.success('Refund requested. It will complete once Paystack confirms it.')
+        setRefundAmount('')
+        setRefundReason('')
+        loadRefunds(selectedTransaction.id)
+      } else {
+        toast.error(res.message || 'Failed to request refund')
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to request refund')
+    } finally {
+      setIsRefunding(false)
+    }
+  }
+
+  const openRefundTotal = refunds
+    .filter((r) => r.status !== 'failed')
+    .reduce((sum, r) => sum + Number(r.amount), 0)
+  const refundableBalance = selectedTransaction
+    ? Math.max(0, Math.round((selectedTransaction.amount - openRefundTotal) * 100) / 100)
+    : 0
+
   const handleUpdateTransactionStatus = (_transactionId: string, _status: TransactionStatus) => {
     toast.info('Transaction status updates are not available via API.')
   }
@@ -90,10 +206,66 @@ export default function TransactionsPage() {
             <div>
               <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Transactions Management</h1>
             </div>
+            <button
+              onClick={handleRunReconciliation}
+              disabled={isReconciling}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+            >
+              <RefreshCw className={`h-4 w-4 mr-2 ${isReconciling ? 'animate-spin' : ''}`} />
+              {isReconciling ? 'Reconciling...' : 'Reconcile with Paystack'}
+            </button>
           </div>
         </div>
 
         <div className="p-6">
+          {discrepancies.length > 0 && (
+            <div className="mb-6 bg-white dark:bg-gray-800 rounded-xl border border-orange-200 dark:border-orange-900 overflow-hidden">
+              <div className="flex items-center px-4 py-3 border-b border-orange-200 dark:border-orange-900">
+                <AlertTriangle className="h-5 w-5 text-orange-600 mr-2" />
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                  Payment discrepancies ({discrepancies.length})
+                </h2>
+              </div>
+              <table className="w-full">
+                <thead className="bg-gray-50 dark:bg-gray-700">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Type</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Reference</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Expected</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Paystack</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Details</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Found</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {discrepancies.map((d) => (
+                    <tr key={d.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                      <td className="px-4 py-3 text-sm text-orange-700 dark:text-orange-400">{DISCREPANCY_LABELS[d.type] ?? d.type}</td>
+                      <td className="px-4 py-3 font-mono text-xs text-gray-900 dark:text-white">{d.provider_reference}</td>
+                      <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">
+                        {d.expected_amount != null ? `${Number(d.expected_amount).toFixed(2)} ${d.expected_currency ?? ''}` : '—'}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">
+                        {d.provider_amount != null ? `${Number(d.provider_amount).toFixed(2)} ${d.provider_currency ?? ''}` : '—'}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">{d.details || '—'}</td>
+                      <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">{new Date(d.created_at).toLocaleString()}</td>
+                      <td className="px-4 py-3">
+                        <button
+                          onClick={() => handleResolveDiscrepancy(d)}
+                          className="text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400"
+                        >
+                          Resolve
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
           {loading ? (
             <div className="flex items-center justify-center py-12">
               <p className="text-gray-600 dark:text-gray-400">Loading transactions...</p>
@@ -134,6 +306,9 @@ export default function TransactionsPage() {
                     <p><span className="font-medium">Transaction ID:</span> {selectedTransaction.transactionId || 'N/A'}</p>
                     <p><span className="font-medium">Order ID:</span> {selectedTransaction.orderId}</p>
                     <p><span className="font-medium">Amount:</span> {selectedTransaction.amount} {selectedTransaction.currency}</p>
+                    {!!selectedTransaction.refundedAmount && (
+                      <p><span className="font-medium">Refunded:</span> {selectedTransaction.refundedAmount} {selectedTransaction.currency}</p>
+                    )}
                     <p><span className="font-medium">Payment Method:</span> {selectedTransaction.paymentMethod.replace('_', ' ')}</p>
                     <p><span className="font-medium">Status:</span> {selectedTransaction.status}</p>
                     <p><span className="font-medium">Date:</span> {selectedTransaction.createdAt.toLocaleDateString()}</p>
@@ -162,6 +337,60 @@ export default function TransactionsPage() {
                 </div>
               )}
 
+              {refunds.length > 0 && (
+                <div className="space-y-3">
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Refunds</h3>
+                  <ul className="space-y-2">
+                    {refunds.map((refund) => (
+                      <li key={refund.id} className="flex items-center justify-between text-sm text-gray-700 dark:text-gray-300">
+                        <span>
+                          {Number(refund.amount).toFixed(2)} {refund.currency} – {refund.reason || 'No reason given'}
+                        </span>
+                        <span className="capitalize">{refund.status}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {selectedTransaction.status === 'completed' && refundableBalance > 0 && (
+                <div className="space-y-3">
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Issue Refund</h3>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    Refundable balance: {refundableBalance.toFixed(2)} {selectedTransaction.currency}. Leave the amount empty to refund it all.
+                  </p>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <input
+                      type="number"
+                      min="0.01"
+                      step="0.01"
+                      max={refundableBalance}
+                      value={refundAmount}
+                      onChange={(e) => setRefundAmount(e.target.value)}
+                      placeholder={`Amount (max ${refundableBalance.toFixed(2)})`}
+                      className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-800 dark:text-white"
+                    />
+                    <input
+                      type="text"
+                      value={refundReason}
+                      onChange={(e) => setRefundReason(e.target.value)}
+                      placeholder="Reason"
+                      maxLength={500}
+                      className="md:col-span-2 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-800 dark:text-white"
+                    />
+                  </div>
+                  <div className="flex justify-end">
+                    <button
+                      onClick={handleRefund}
+                      disabled={isRefunding}
+                      className="px-6 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 transition-colors"
+                    >
+                      {isRefunding ? 'Requesting...' : 'Refund'}
+                    </button>
+                  </div>
+                </div>
+              )}
+
               <div className="flex items-center justify-end space-x-3 pt-6 border-t border-gray-200 dark:border-gray-700">
                 <button
                   onClick={() => setIsViewModalOpen(false)}
@@ -0,0 +1,599 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Warehouse as WarehouseIcon, Boxes, ClipboardList, Save, Loader2, Plus, Pencil, Trash2, X, Search, Star } from 'lucide-react'
+import { toast } from 'sonner'
+import AdminSidebar from '@/components/AdminSidebar'
+import { adminWarehousesApi } from '@/lib/api'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import type { PickList, Warehouse, WarehouseOpeningHours, WarehouseStockRow } from '@/types/grocery'
+
+const DAY_LETTERS = ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa']
+
+const SELECT_CLASS =
+  'mt-1 w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-800 dark:text-white'
+
+const STOCK_PAGE_SIZE = 50
+
+/** Warehouse being created (id null) or edited; numbers kept as strings while typing */
+interface WarehouseForm {
+  id: string | null
+  code: string
+  name: string
+  address: string
+  lat: string
+  lng: string
+  serviceRadiusKm: string
+  openingHours: WarehouseOpeningHours[]
+  isPrimary: boolean
+  active: boolean
+}
+
+function warehouseToForm(warehouse: Warehouse | null): WarehouseForm {
+  return {
+    id: warehouse?.id ?? null,
+    code: warehouse?.code ?? '',
+    name: warehouse?.name ?? '',
+    address: warehouse?.address ?? '',
+    lat: warehouse ? String(warehouse.lat) : '',
+    lng: warehouse ? String(warehouse.lng) : '',
+    serviceRadiusKm: warehouse?.serviceRadiusKm != null ? String(warehouse.serviceRadiusKm) : '',
+    openingHours: warehouse?.openingHours.map((h) => ({ ...h, days: [...h.days] })) ?? [],
+    isPrimary: warehouse?.isPrimary ?? false,
+    active: warehouse?.active ?? true,
+  }
+}
+
+const describeHours = (hours: WarehouseOpeningHours[]) =>
+  hours.length === 0
+    ? 'Always open'
+    : hours.map((h) => `${h.days.map((d) => DAY_LETTERS[d]).join(' ')} ${h.open}–${h.close}`).join(', ')
+
+const formatWindow = (iso: string) =>
+  new Date(iso).toLocaleString('en-GB', { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit', timeZone: 'UTC' })
+
+export default function AdminWarehousesPage() {
+  const [isSidebarOpen, setIsSidebarOpen] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([])
+  const [form, setForm] = useState<WarehouseForm | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [selectedId, setSelectedId] = useState('')
+  const [stock, setStock] = useState<WarehouseStockRow[]>([])
+  const [stockEdits, setStockEdits] = useState<Record<string, string>>({})
+  const [stockSearch, setStockSearch] = useState('')
+  const [stockPage, setStockPage] = useState(1)
+  const [stockTotalPages, setStockTotalPages] = useState(1)
+  const [stockLoading, setStockLoading] = useState(false)
+  const [stockSaving, setStockSaving] = useState(false)
+  const [pickList, setPickList] = useState<PickList | null>(null)
+  const [pickListLoading, setPickListLoading] = useState(false)
+
+  useEffect(() => {
+    loadWarehouses()
+      .catch(() => toast.error('Failed to load warehouses'))
+      .finally(() => setLoading(false))
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  useEffect(() => {
+    if (!selectedId) return
+    loadStock(selectedId, 1, stockSearch)
+    loadPickList(selectedId)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedId])
+
+  const loadWarehouses = () =>
+    adminWarehousesApi.list().then((res) => {
+      if (res.success && res.data) {
+        const list = res.data
+        setWarehouses(list)
+        setSelectedId((current) => (current && list.some((w) => w.id === current) ? current : list[0]?.id ?? ''))
+      }
+    })
+
+  const loadStock = (warehouseId: string, page: number, search: string) => {
+    setStockLoading(true)
+    adminWarehousesApi
+      .getStock(warehouseId, { search: search.trim() || undefined, page, limit: STOCK_PAGE_SIZE })
+      .then((res) => {
+        if (res.success && res.data) {
+          setStock(res.data)
+          setStockEdits({})
+          setStockPage(page)
+          setStockTotalPages(Math.max(1, res.pagination?.totalPages ?? 1))
+        } else {
+          toast.error(res.message ?? 'Failed to load stock')
+        }
+      })
+      .catch(() => toast.error('Failed to load stock'))
+      .finally(() => setStockLoading(false))
+  }
+
+  const loadPickList = (warehouseId: string) => {
+    setPickListLoading(true)
+    adminWarehousesApi
+      .getPickList(warehouseId)
+      .then((res) => {
+        if (res.success && res.data) setPickList(res.data)
+        else toast.error(res.message ?? 'Failed to load pick list')
+      })
+      .catch(() => toast.error('Failed to load pick list'))
+      .finally(() => setPickListLoading(false))
+  }
+
+  const handleSave = async () => {
+    if (!form) return
+    const lat = parseFloat(form.lat)
+    const lng = parseFloat(form.lng)
+    const serviceRadiusKm = form.serviceRadiusKm.trim() !== '' ? parseFloat(form.serviceRadiusKm) : null
+    if (!/^[A-Z0-9]{2,10}$/.test(form.code.trim().toUpperCase())) {
+      toast.error('Code must be 2-10 letters or digits')
+      return
+    }
+    if (!form.name.trim()) {
+      toast.error('Name is required')
+      return
+    }
+    if (Number.isNaN(lat) || lat < -90 || lat > 90 || Number.isNaN(lng) || lng < -180 || lng > 180) {
+      toast.error('Enter a valid latitude and longitude')
+      return
+    }
+    if (serviceRadiusKm != null && (Number.isNaN(serviceRadiusKm) || serviceRadiusKm <= 0)) {
+      toast.error('Service radius must be above 0 km')
+      return
+    }
+    for (const hours of form.openingHours) {
+      if (hours.days.length === 0) {
+        toast.error('Every opening hours row needs at least one day')
+        return
+      }
+      if (!hours.open || !hours.close || hours.close <= hours.open) {
+        toast.error('Closing time must be after opening time')
+        return
+      }
+    }
+
+    const input = {
+      code: form.code.trim().toUpperCase(),
+      name: form.name.trim(),
+      address: form.address.trim() || null,
+      lat,
+      lng,
+      serviceRadiusKm,
+      openingHours: form.openingHours,
+      isPrimary: form.isPrimary,
+      active: form.active,
+    }
+
+    setSaving(true)
+    try {
+      const res = form.id ? await adminWarehousesApi.update(form.id, input) : await adminWarehousesApi.create(input)
+      if (res.success) {
+        toast.success(form.id ? 'Warehouse updated' : 'Warehouse created')
+        setForm(null)
+        loadWarehouses()
+      } else {
+        toast.error(res.message ?? 'Failed to save warehouse')
+      }
+    } catch {
+      toast.error('Failed to save warehouse')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (warehouse: Warehouse) => {
+    if (!confirm(`Delete ${warehouse.name}?`)) return
+    try {
+      const res = await adminWarehousesApi.delete(warehouse.id)
+      if (res.success) {
+        toast.success('Warehouse deleted')
+        if (form?.id === warehouse.id) setForm(null)
+        loadWarehouses()
+      } else {
+        toast.error(res.message ?? 'Failed to delete warehouse')
+      }
+    } catch {
+      toast.error('Failed to delete warehouse')
+    }
+  }
+
+  const handleSaveStock = async () => {
+    const items = Object.entries(stockEdits).map(([productId, value]) => ({ productId, quantity: parseInt(value, 10) }))
+    if (items.length === 0) return
+    if (items.some((i) => Number.isNaN(i.quantity) || i.quantity < 0)) {
+      toast.error('Quantities must be whole numbers of 0 or more')
+      return
+    }
+    setStockSaving(true)
+    try {
+      const res = await adminWarehousesApi.setStock(selectedId, items)
+      if (res.success) {
+        toast.success('Stock updated')
+        loadStock(selectedId, stockPage, stockSearch)
+      } else {
+        toast.error(res.message ?? 'Failed to update stock')
+      }
+    } catch {
+      toast.error('Failed to update stock')
+    } finally {
+      setStockSaving(false)
+    }
+  }
+
+  const updateHours = (index: number, hours: WarehouseOpeningHours) => {
+    if (!form) return
+    setForm({ ...form, openingHours: form.openingHours.map((h, i) => (i === index ? hours : h)) })
+  }
+
+  const toggleDay = (index: number, day: number) => {
+    if (!form) return
+    const hours = form.openingHours[index]
+    const days = hours.days.includes(day) ? hours.days.filter((d) => d !== day) : [...hours.days, day].sort()
+    updateHours(index, { ...hours, days })
+  }
+
+  const selected = warehouses.find((w) => w.id === selectedId) ?? null
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+        <AdminSidebar currentPage="warehouses" isSidebarOpen={isSidebarOpen} setIsSidebarOpen={setIsSidebarOpen} />
+        <div className="lg:ml-64 flex items-center justify-center min-h-[200px]">
+          <Loader2 className="h-8 w-8 animate-spin text-[#D35F0E]" />
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <AdminSidebar currentPage="warehouses" isSidebarOpen={isSidebarOpen} setIsSidebarOpen={setIsSidebarOpen} />
+      <div className="lg:ml-64 container mx-auto p-6 space-y-6">
+      <div className="flex items-center gap-3">
+        <WarehouseIcon className="h-8 w-8 text-[#D35F0E]" />
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Warehouses</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Checkout ships from the nearest warehouse that has the whole basket, or splits it. Opening hours are Ghana time (GMT).
+          </p>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Locations</CardTitle>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            The primary warehouse receives stock changed on the Products page. Warehouses are only used for addresses inside their service radius.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {form ? (
+            <div className="space-y-4 rounded-lg border border-gray-200 dark:border-gray-700 p-4">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div>
+                  <Label htmlFor="wh_code">Code</Label>
+                  <Input
+                    id="wh_code"
+                    placeholder="e.g. KSI"
+                    maxLength={10}
+                    value={form.code}
+                    onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                    className="mt-1"
+                  />
+                </div>
+                <div className="md:col-span-3">
+                  <Label htmlFor="wh_name">Name</Label>
+                  <Input id="wh_name" placeholder="e.g. Kumasi depot" maxLength={100} value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} className="mt-1" />
+                </div>
+                <div className="md:col-span-4">
+                  <Label htmlFor="wh_address">Address</Label>
+                  <Input id="wh_address" maxLength={300} value={form.address} onChange={(e) => setForm({ ...form, address: e.target.value })} className="mt-1" />
+                </div>
+                <div>
+                  <Label htmlFor="wh_lat">Latitude</Label>
+                  <Input id="wh_lat" type="number" step="any" value={form.lat} onChange={(e) => setForm({ ...form, lat: e.target.value })} className="mt-1" />
+                </div>
+                <div>
+                  <Label htmlFor="wh_lng">Longitude</Label>
+                  <Input id="wh_lng" type="number" step="any" value={form.lng} onChange={(e) => setForm({ ...form, lng: e.target.value })} className="mt-1" />
+                </div>
+                <div>
+                  <Label htmlFor="wh_radius">Service radius (km)</Label>
+                  <Input
+                    id="wh_radius"
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    placeholder="Every address"
+                    value={form.serviceRadiusKm}
+                    onChange={(e) => setForm({ ...form, serviceRadiusKm: e.target.value })}
+                    className="mt-1"
+                  />
+                </div>
+                <div className="flex items-center gap-6 pt-6">
+                  <div className="flex items-center gap-2">
+                    <Switch id="wh_active" checked={form.active} onCheckedChange={(active) => setForm({ ...form, active })} />
+                    <Label htmlFor="wh_active">Active</Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch id="wh_primary" checked={form.isPrimary} onCheckedChange={(isPrimary) => setForm({ ...form, isPrimary })} />
+                    <Label htmlFor="wh_primary">Primary</Label>
+                  </div>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <Label>Opening hours</Label>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">No rows: always open. Open warehouses are preferred over closed ones.</p>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setForm({ ...form, openingHours: [...form.openingHours, { days: [1, 2, 3, 4, 5], open: '08:00', close: '20:00' }] })}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add hours
+                  </Button>
+                </div>
+                {form.openingHours.map((hours, index) => (
+                  <div key={index} className="flex flex-wrap items-center gap-3">
+                    <div className="flex gap-1">
+                      {DAY_LETTERS.map((letter, day) => (
+                        <button
+                          key={letter}
+                          type="button"
+                          onClick={() => toggleDay(index, day)}
+                          className={`w-9 h-9 rounded-md text-xs font-medium border ${hours.days.includes(day) ? 'bg-[#D35F0E] text-white border-[#D35F0E]' : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300'}`}
+                        >
+                          {letter}
+                        </button>
+                      ))}
+                    </div>
+                    <Input type="time" value={hours.open} onChange={(e) => updateHours(index, { ...hours, open: e.target.value })} className="w-32" />
+                    <span className="text-gray-500">–</span>
+                    <Input type="time" value={hours.close} onChange={(e) => updateHours(index, { ...hours, close: e.target.value })} className="w-32" />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setForm({ ...form, openingHours: form.openingHours.filter((_, i) => i !== index) })}
+                      title="Remove hours"
+                      className="text-red-600 hover:text-red-700"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setForm(null)} disabled={saving}>
+                  <X className="h-4 w-4 mr-1" />
+                  Cancel
+                </Button>
+                <Button type="button" onClick={handleSave} disabled={saving} className="bg-[#D35F0E] hover:bg-[#D35F0E]/90">
+                  {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                  {form.id ? 'Save warehouse' : 'Create warehouse'}
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex justify-end">
+              <Button type="button" variant="outline" onClick={() => setForm(warehouseToForm(null))}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add warehouse
+              </Button>
+            </div>
+          )}
+
+          {warehouses.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              No warehouses yet. Orders ship from the location in Delivery Settings. The first warehouse you add becomes primary and takes all current stock.
+            </p>
+          ) : (
+            <div className="divide-y divide-gray-200 dark:divide-gray-700 rounded-lg border border-gray-200 dark:border-gray-700">
+              {warehouses.map((warehouse) => (
+                <div key={warehouse.id} className="flex items-center justify-between gap-4 p-3">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 dark:text-white truncate flex items-center gap-2">
+                      <span className="text-xs font-mono px-1.5 py-0.5 rounded bg-gray-100 dark:bg-gray-800">{warehouse.code}</span>
+                      {warehouse.name}
+                      {warehouse.isPrimary && <Star className="h-4 w-4 text-[#D35F0E]" aria-label="Primary" />}
+                      {!warehouse.active && <span className="text-xs font-normal text-gray-500">(inactive)</span>}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {warehouse.serviceRadiusKm != null ? `${warehouse.serviceRadiusKm} km radius` : 'Every address'} · {describeHours(warehouse.openingHours)}
+                      {warehouse.address && ` · ${warehouse.address}`}
+                    </p>
+                  </div>
+                  <div className="flex gap-1 shrink-0">
+                    <Button type="button" variant="ghost" size="sm" onClick={() => setForm(warehouseToForm(warehouse))} title="Edit warehouse">
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    {!warehouse.isPrimary && (
+                      <Button type="button" variant="ghost" size="sm" onClick={() => handleDelete(warehouse)} title="Delete warehouse" className="text-red-600 hover:text-red-700">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {selected && (
+        <div className="max-w-xs">
+          <Label htmlFor="wh_selected">Warehouse</Label>
+          <select id="wh_selected" value={selectedId} onChange={(e) => setSelectedId(e.target.value)} className={SELECT_CLASS}>
+            {warehouses.map((w) => (
+              <option key={w.id} value={w.id}>{w.code} · {w.name}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {selected && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Boxes className="h-5 w-5" />
+              Stock at {selected.name}
+            </CardTitle>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Reserved units are held for checkouts waiting for payment. Total is the stock across all warehouses.
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="flex-1 min-w-[200px]">
+                <Label htmlFor="stock_search">Product</Label>
+                <Input
+                  id="stock_search"
+                  placeholder="Search by name"
+                  value={stockSearch}
+                  onChange={(e) => setStockSearch(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') loadStock(selectedId, 1, stockSearch)
+                  }}
+                  className="mt-1"
+                />
+              </div>
+              <Button type="button" variant="outline" onClick={() => loadStock(selectedId, 1, stockSearch)} disabled={stockLoading}>
+                {stockLoading ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Search className="h-4 w-4 mr-1" />}
+                Search
+              </Button>
+              <Button
+                type="button"
+                onClick={handleSaveStock}
+                disabled={stockSaving || Object.keys(stockEdits).length === 0}
+                className="bg-[#D35F0E] hover:bg-[#D35F0E]/90"
+              >
+                {stockSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                Save stock
+              </Button>
+            </div>
+
+            {stock.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">{stockLoading ? 'Loading…' : 'No products found.'}</p>
+            ) : (
+              <div className="overflow-x-auto rounded-lg border border-gray-200 dark:border-gray-700">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 dark:bg-gray-800 text-left text-gray-600 dark:text-gray-300">
+                    <tr>
+                      <th className="p-3 font-medium">Product</th>
+                      <th className="p-3 font-medium w-32">On hand</th>
+                      <th className="p-3 font-medium text-right">Reserved</th>
+                      <th className="p-3 font-medium text-right">Available</th>
+                      <th className="p-3 font-medium text-right">Total</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-900 dark:text-white">
+                    {stock.map((row) => (
+                      <tr key={row.productId}>
+                        <td className="p-3">{row.productName}</td>
+                        <td className="p-3">
+                          <Input
+                            type="number"
+                            min="0"
+                            step="1"
+                            value={stockEdits[row.productId] ?? String(row.quantity)}
+                            onChange={(e) => setStockEdits({ ...stockEdits, [row.productId]: e.target.value })}
+                            className="h-8"
+                          />
+                        </td>
+                        <td className="p-3 text-right">{row.reserved}</td>
+                        <td className="p-3 text-right">{row.available}</td>
+                        <td className="p-3 text-right">{row.totalQuantity}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {stockTotalPages > 1 && (
+              <div className="flex items-center justify-end gap-2 text-sm text-gray-600 dark:text-gray-300">
+                <Button type="button" variant="outline" size="sm" onClick={() => loadStock(selectedId, stockPage - 1, stockSearch)} disabled={stockLoading || stockPage <= 1}>
+                  Previous
+                </Button>
+                <span>Page {stockPage} of {stockTotalPages}</span>
+                <Button type="button" variant="outline" size="sm" onClick={() => loadStock(selectedId, stockPage + 1, stockSearch)} disabled={stockLoading || stockPage >= stockTotalPages}>
+                  Next
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {selected && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between gap-2">
+              <span className="flex items-center gap-2">
+                <ClipboardList className="h-5 w-5" />
+                Pick list
+              </span>
+              <Button type="button" variant="outline" size="sm" onClick={() => loadPickList(selectedId)} disabled={pickListLoading}>
+                {pickListLoading && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                Refresh
+              </Button>
+            </CardTitle>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Confirmed and processing orders, soonest delivery slot first. Split orders list only the items this warehouse ships.
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {!pickList || pickList.orders.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">{pickListLoading ? 'Loading…' : 'Nothing to pick.'}</p>
+            ) : (
+              <>
+                <div className="rounded-lg border border-gray-200 dark:border-gray-700 p-3">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white mb-2">Totals</p>
+                  <div className="flex flex-wrap gap-2">
+                    {pickList.totals.map((t) => (
+                      <span key={t.productId} className="text-xs rounded-full bg-gray-100 dark:bg-gray-800 px-2.5 py-1 text-gray-700 dark:text-gray-200">
+                        {t.quantity} × {t.name}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+                <div className="divide-y divide-gray-200 dark:divide-gray-700 rounded-lg border border-gray-200 dark:border-gray-700">
+                  {pickList.orders.map((order) => (
+                    <div key={order.id} className="p-3 space-y-1">
+                      <p className="text-sm font-medium text-gray-900 dark:text-white">
+                        {order.orderNumber}
+                        {order.customerName && <span className="ml-2 font-normal text-gray-600 dark:text-gray-300">{order.customerName}</span>}
+                        {order.split && <span className="ml-2 text-xs font-normal text-amber-600">Split order</span>}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {order.deliveryWindowStart ? `Deliver ${formatWindow(order.deliveryWindowStart)}` : 'No delivery slot'} · {order.status}
+                      </p>
+                      <ul className="text-sm text-gray-700 dark:text-gray-300 list-disc pl-5">
+                        {order.items.map((item) => (
+                          <li key={item.productId}>{item.quantity} × {item.name}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+      </div>
+    </div>
+  )
+}
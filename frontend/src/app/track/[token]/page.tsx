@@ -0,0 +1,156 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import { useParams, useSearchParams } from 'next/navigation'
+import { ordersApi } from '@/lib/api'
+import { OrderTracking, TrackingEvent } from '@/types/grocery'
+import {
+  Bike,
+  CheckCircle,
+  CreditCard,
+  FileText,
+  Loader2,
+  Package,
+  RefreshCw,
+  RotateCcw,
+  Truck,
+  XCircle,
+} from 'lucide-react'
+
+const REFRESH_INTERVAL_MS = 60 * 1000
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-GB', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })
+
+const eventIcon = (event: TrackingEvent) => {
+  switch (event.type) {
+    case 'payment_confirmed':
+      return CreditCard
+    case 'invoice_generated':
+      return FileText
+    case 'order_updated':
+      return RefreshCw
+    case 'delivery_verified':
+      return CheckCircle
+    case 'refund_processed':
+      return RotateCcw
+    case 'rider_assigned':
+      return Bike
+    case 'status_changed':
+      if (event.status === 'shipped') return Truck
+      if (event.status === 'delivered') return CheckCircle
+      if (event.status === 'cancelled' || event.status === 'failed') return XCircle
+      return Package
+    default:
+      return Package
+  }
+}
+
+/**
+ * Public order tracking page, reached from the link in the order confirmation email.
+ * Add ?embed=1 to drop the page chrome when showing it in an iframe.
+ */
+export default function TrackOrderPage() {
+  const params = useParams()
+  const searchParams = useSearchParams()
+  const token = (params?.token as string) || ''
+  const embed = searchParams?.get('embed') === '1'
+  const [tracking, setTracking] = useState<OrderTracking | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchTracking = useCallback(async () => {
+    if (!token) return
+    try {
+      const res = await ordersApi.getPublicTracking(token)
+      if (res.success && res.data) {
+        setTracking(res.data)
+        setError(null)
+      } else {
+        setError(res.message || 'We could not find this order')
+      }
+    } catch {
+      setError('We could not load this order')
+    } finally {
+      setLoading(false)
+    }
+  }, [token])
+
+  useEffect(() => {
+    fetchTracking()
+    const interval = setInterval(fetchTracking, REFRESH_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [fetchTracking])
+
+  let content: React.ReactNode
+  if (loading) {
+    content = (
+      <div className="flex items-center justify-center py-12 text-gray-500">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    )
+  } else if (!tracking) {
+    content = (
+      <div className="py-12 text-center">
+        <p className="text-gray-700 font-medium">{error}</p>
+        <p className="mt-2 text-sm text-gray-500">Check that you opened the full link from your order email.</p>
+      </div>
+    )
+  } else {
+    // Newest first, the way customers read a tracking page
+    const events = [...tracking.timeline].reverse()
+    content = (
+      <>
+        <div className="border-b border-gray-200 pb-4">
+          <p className="text-sm text-gray-500">Order {tracking.orderNumber}</p>
+          <h1 className="mt-1 text-2xl font-bold text-gray-900">{tracking.statusLabel}</h1>
+          <p className="mt-1 text-sm text-gray-600">{tracking.statusDescription}</p>
+          <p className="mt-3 text-sm text-gray-600">
+            {tracking.itemCount} item{tracking.itemCount === 1 ? '' : 's'} · {tracking.currency} {tracking.totalAmount.toFixed(2)}
+            {tracking.payOnDelivery && tracking.paymentStatus !== 'paid' ? ' · Pay on delivery' : ''}
+          </p>
+        </div>
+
+        <ol className="mt-6 space-y-6">
+          {events.map((event, index) => {
+            const Icon = eventIcon(event)
+            const isLatest = index === 0
+            return (
+              <li key={`${event.type}-${event.at}-${index}`} className="relative flex gap-4">
+                {index < events.length - 1 && (
+                  <span className="absolute left-4 top-9 -bottom-6 w-px bg-gray-200" aria-hidden="true" />
+                )}
+                <span
+                  className={`flex h-8 w-8 shrink-0 items-center justify-center rounded-full ${
+                    isLatest ? 'bg-green-600 text-white' : 'bg-gray-100 text-gray-500'
+                  }`}
+                >
+                  <Icon className="h-4 w-4" />
+                </span>
+                <div>
+                  <p className={`text-sm font-medium ${isLatest ? 'text-gray-900' : 'text-gray-700'}`}>{event.label}</p>
+                  <p className="text-sm text-gray-600">{event.description}</p>
+                  <p className="mt-1 text-xs text-gray-400">{formatDateTime(event.at)}</p>
+                </div>
+              </li>
+            )
+          })}
+        </ol>
+      </>
+    )
+  }
+
+  if (embed) {
+    return <div className="bg-white p-4">{content}</div>
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 px-4 py-10">
+      <div className="mx-auto max-w-lg">
+        <p className="mb-4 text-center text-lg font-semibold text-green-700">Grovio</p>
+        <div className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm">{content}</div>
+        <p className="mt-4 text-center text-xs text-gray-400">This page updates automatically.</p>
+      </div>
+    </div>
+  )
+}
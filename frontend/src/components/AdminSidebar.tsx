@@ -3,7 +3,7 @@
 
 import React, { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
-import { ShoppingBag, Settings, LogOut, Tag, Package, CreditCard, Sparkles, FileText, Percent, Layers, Ticket, CheckCircle, Truck } from 'lucide-react'
+import { ShoppingBag, Settings, LogOut, Tag, Package, CreditCard, Sparkles, FileText, Percent, Layers, Ticket, CheckCircle, Truck, Lock, Banknote, Wallet, Receipt, Timer, MailCheck, ShieldAlert, CalendarClock, Warehouse, Bike, Route, ShieldCheck } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { API_BASE_URL } from '@/lib/api'
 import { getAdminToken, getAdminUser, clearAdminCookies } from '@/lib/cookies'
@@ -61,10 +61,22 @@ export default function AdminSidebar({ currentPage, isSidebarOpen, setIsSidebarO
     { icon: FileText, label: 'Supplier Products', active: currentPage === 'supplier-products', href: '/admin/supplier-products' },
     { icon: Percent, label: 'Pricing', active: currentPage === 'pricing', href: '/admin/pricing' },
     { icon: Ticket, label: 'Discounts', active: currentPage === 'vouchers', href: '/admin/vouchers' },
+    { icon: Wallet, label: 'Store Credit', active: currentPage === 'store-credit', href: '/admin/store-credit' },
     { icon: Tag, label: 'Categories', active: currentPage === 'categories', href: '/admin/categories' },
+    { icon: Lock, label: 'Reservations', active: currentPage === 'reservations', href: '/admin/reservations' },
     { icon: Package, label: 'Orders', active: currentPage === 'orders', href: '/admin/orders' },
     { icon: CheckCircle, label: 'Confirm Delivery', active: currentPage === 'confirm-delivery', href: '/admin/confirm-delivery' },
+    { icon: ShieldCheck, label: 'Delivery Code Audit', active: currentPage === 'delivery-code-audit', href: '/admin/delivery-code-audit' },
+    { icon: Banknote, label: 'Cash on Delivery', active: currentPage === 'cash-on-delivery', href: '/admin/cash-on-delivery' },
+    { icon: Timer, label: 'Order SLAs', active: currentPage === 'order-sla', href: '/admin/order-sla' },
+    { icon: ShieldAlert, label: 'Risk Review', active: currentPage === 'order-risk', href: '/admin/order-risk' },
+    { icon: MailCheck, label: 'Checkout Recovery', active: currentPage === 'checkout-recovery', href: '/admin/checkout-recovery' },
     { icon: Truck, label: 'Delivery Settings', active: currentPage === 'delivery-settings', href: '/admin/delivery-settings' },
+    { icon: CalendarClock, label: 'Delivery Slots', active: currentPage === 'delivery-slots', href: '/admin/delivery-slots' },
+    { icon: Warehouse, label: 'Warehouses', active: currentPage === 'warehouses', href: '/admin/warehouses' },
+    { icon: Bike, label: 'Riders', active: currentPage === 'riders', href: '/admin/riders' },
+    { icon: Route, label: 'Delivery Routes', active: currentPage === 'delivery-routes', href: '/admin/delivery-routes' },
+    { icon: Receipt, label: 'Tax Settings', active: currentPage === 'tax-settings', href: '/admin/tax-settings' },
     { icon: CreditCard, label: 'Transactions', active: currentPage === 'transactions', href: '/admin/transactions' },
     { icon: Settings, label: 'Settings', active: currentPage === 'settings', href: '/admin/settings' },
   ]
@@ -0,0 +1,140 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { AlertTriangle, CheckCircle, Loader2, RefreshCw } from 'lucide-react'
+import { toast } from 'sonner'
+import { dashboardApi, adminOrderSlaApi } from '@/lib/api'
+import { SlaBreach, SlaStatus } from '@/types/grocery'
+import { cn } from '@/lib/utils'
+
+const STATUS_LABELS: Record<SlaStatus, string> = {
+  pending: 'Pending',
+  confirmed: 'Confirmed',
+  processing: 'Processing',
+  shipped: 'Out for delivery',
+}
+
+const formatMinutes = (minutes: number) => {
+  if (minutes < 60) return `${minutes}m`
+  const days = Math.floor(minutes / 1440)
+  const hours = Math.floor((minutes % 1440) / 60)
+  const rest = minutes % 60
+  if (days > 0) return hours ? `${days}d ${hours}h` : `${days}d`
+  return rest ? `${hours}h ${rest}m` : `${hours}h`
+}
+
+/** Orders stuck in a status past their SLA, as flagged by the SLA check */
+export default function NeedsAttentionPanel() {
+  const [breaches, setBreaches] = useState<SlaBreach[]>([])
+  const [loading, setLoading] = useState(true)
+  const [checking, setChecking] = useState(false)
+
+  const fetchBreaches = useCallback(async () => {
+    try {
+      const response = await dashboardApi.getNeedsAttention()
+      if (response.success && Array.isArray(response.data)) {
+        setBreaches(response.data)
+      }
+    } catch {
+      toast.error('Failed to load orders needing attention')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchBreaches()
+  }, [fetchBreaches])
+
+  const handleCheckNow = async () => {
+    setChecking(true)
+    try {
+      const response = await adminOrderSlaApi.runCheck()
+      if (response.success) {
+        if (response.data?.skipped) toast.info('A check is already running')
+        await fetchBreaches()
+      } else {
+        toast.error(response.message || 'SLA check failed')
+      }
+    } catch {
+      toast.error('SLA check failed')
+    } finally {
+      setChecking(false)
+    }
+  }
+
+  return (
+    <div className="p-6 bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+          <AlertTriangle className="h-5 w-5 text-amber-500" />
+          Needs Attention
+          {breaches.length > 0 && (
+            <span className="ml-1 px-2 py-0.5 text-xs font-medium rounded-full bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300">
+              {breaches.length}
+            </span>
+          )}
+        </h3>
+        <div className="flex items-center gap-3 text-sm">
+          <Link href="/admin/order-sla" className="text-gray-500 dark:text-gray-400 hover:underline">
+            SLA settings
+          </Link>
+          <button
+            onClick={handleCheckNow}
+            disabled={checking}
+            className="inline-flex items-center gap-1 px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+          >
+            <RefreshCw className={cn('h-4 w-4', checking && 'animate-spin')} />
+            Check now
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-[#D35F0E]" />
+        </div>
+      ) : breaches.length === 0 ? (
+        <p className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400 py-2">
+          <CheckCircle className="h-4 w-4 text-green-500" />
+          No orders are over their SLA.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 dark:text-gray-400">
+                <th className="pb-2 pr-4 font-medium">Order</th>
+                <th className="pb-2 pr-4 font-medium">Customer</th>
+                <th className="pb-2 pr-4 font-medium">Status</th>
+                <th className="pb-2 pr-4 font-medium text-right">In status</th>
+                <th className="pb-2 font-medium text-right">SLA</th>
+              </tr>
+            </thead>
+            <tbody>
+              {breaches.map((b) => (
+                <tr key={b.id} className="border-t border-gray-200 dark:border-gray-700">
+                  <td className="py-2 pr-4 font-medium text-gray-900 dark:text-white">
+                    {b.orderNumber}
+                    {b.escalationLevel === 2 && (
+                      <span className="ml-2 px-1.5 py-0.5 text-xs rounded bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300">
+                        Escalated
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-2 pr-4 text-gray-700 dark:text-gray-300">{b.customerName}</td>
+                  <td className="py-2 pr-4 text-gray-700 dark:text-gray-300">{STATUS_LABELS[b.status]}</td>
+                  <td className={cn('py-2 pr-4 text-right tabular-nums', b.escalationLevel === 2 ? 'text-red-600 dark:text-red-400' : 'text-amber-600 dark:text-amber-400')}>
+                    {formatMinutes(b.minutesInStatus)}
+                  </td>
+                  <td className="py-2 text-right tabular-nums text-gray-500 dark:text-gray-400">{formatMinutes(b.thresholdMinutes)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
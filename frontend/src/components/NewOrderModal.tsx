@@ -0,0 +1,386 @@
+'use client'
+
+import React, { useState, useEffect, useRef } from 'react'
+import { X, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import LocationPicker, { LocationCoords } from '@/components/LocationPicker'
+import { ordersApi, productsApi } from '@/lib/api'
+import {
+  AdminOrderCustomer,
+  CreateAdminOrderResult,
+  ManualOrderChannel,
+  ManualOrderPayment,
+  OfflinePaymentMethod,
+} from '@/types/grocery'
+
+type ProductOption = { id: string; name: string; price: number }
+type OrderLine = ProductOption & { quantity: number }
+
+interface NewOrderModalProps {
+  onClose: () => void
+  onCreated: (result: CreateAdminOrderResult) => void
+}
+
+const SEARCH_DELAY_MS = 300
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-800 dark:text-white'
+
+const PAYMENT_LABELS: Record<ManualOrderPayment, string> = {
+  payment_link: 'Send a payment link',
+  cash_on_delivery: 'Cash on delivery',
+  mobile_money_on_delivery: 'Mobile money on delivery',
+  already_paid: 'Already paid',
+}
+
+/**
+ * Order form for phone, WhatsApp and walk-in customers. Prices, voucher and delivery fee are worked out
+ * by the server exactly as at checkout.
+ */
+export default function NewOrderModal({ onClose, onCreated }: NewOrderModalProps) {
+  const [channel, setChannel] = useState<ManualOrderChannel>('phone')
+  const [customerQuery, setCustomerQuery] = useState('')
+  const [customerResults, setCustomerResults] = useState<AdminOrderCustomer[]>([])
+  const [customer, setCustomer] = useState<AdminOrderCustomer | null>(null)
+  const [isNewCustomer, setIsNewCustomer] = useState(false)
+  const [newCustomer, setNewCustomer] = useState({ firstName: '', lastName: '', email: '', phoneNumber: '' })
+  const [productQuery, setProductQuery] = useState('')
+  const [productResults, setProductResults] = useState<ProductOption[]>([])
+  const [lines, setLines] = useState<OrderLine[]>([])
+  const [street, setStreet] = useState('')
+  const [city, setCity] = useState('Accra')
+  const [region, setRegion] = useState('Greater Accra')
+  const [phone, setPhone] = useState('')
+  const [location, setLocation] = useState<{ text: string; coords?: LocationCoords }>({ text: '' })
+  const [deliveryNotes, setDeliveryNotes] = useState('')
+  const [voucherCode, setVoucherCode] = useState('')
+  const [payment, setPayment] = useState<ManualOrderPayment>('payment_link')
+  const [paidVia, setPaidVia] = useState<OfflinePaymentMethod>('cash')
+  const [paymentNote, setPaymentNote] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const customerTimer = useRef<NodeJS.Timeout | null>(null)
+  const productTimer = useRef<NodeJS.Timeout | null>(null)
+
+  useEffect(() => {
+    if (customerTimer.current) clearTimeout(customerTimer.current)
+    if (customerQuery.trim().length < 2) {
+      setCustomerResults([])
+      return
+    }
+    customerTimer.current = setTimeout(async () => {
+      try {
+        const res = await ordersApi.searchCustomers(customerQuery.trim())
+        setCustomerResults(res.success && Array.isArray(res.data) ? res.data : [])
+      } catch {
+        setCustomerResults([])
+      }
+    }, SEARCH_DELAY_MS)
+    return () => {
+      if (customerTimer.current) clearTimeout(customerTimer.current)
+    }
+  }, [customerQuery])
+
+  useEffect(() => {
+    if (productTimer.current) clearTimeout(productTimer.current)
+    if (productQuery.trim().length < 2) {
+      setProductResults([])
+      return
+    }
+    productTimer.current = setTimeout(async () => {
+      try {
+        const res = await productsApi.getAll({ search: productQuery.trim(), limit: 10 })
+        const list = Array.isArray(res?.data) ? res.data : []
+        setProductResults(list.map((p: ProductOption) => ({ id: p.id, name: p.name, price: Number(p.price) || 0 })))
+      } catch {
+        setProductResults([])
+      }
+    }, SEARCH_DELAY_MS)
+    return () => {
+      if (productTimer.current) clearTimeout(productTimer.current)
+    }
+  }, [productQuery])
+
+  const selectCustomer = (c: AdminOrderCustomer) => {
+    setCustomer(c)
+    setCustomerQuery('')
+    setCustomerResults([])
+    if (!phone && c.phoneNumber) setPhone(c.phoneNumber)
+  }
+
+  const addProduct = (p: ProductOption) => {
+    setLines((prev) =>
+      prev.some((l) => l.id === p.id)
+        ? prev.map((l) => (l.id === p.id ? { ...l, quantity: l.quantity + 1 } : l))
+        : [...prev, { ...p, quantity: 1 }]
+    )
+    setProductQuery('')
+    setProductResults([])
+  }
+
+  const itemsTotal = lines.reduce((sum, l) => sum + l.price * l.quantity, 0)
+
+  const handleSubmit = async () => {
+    if (!isNewCustomer && !customer) {
+      toast.error('Choose a customer or add a new one')
+      return
+    }
+    if (lines.length === 0) {
+      toast.error('Add at least one product')
+      return
+    }
+    if (!street.trim() || !city.trim() || !region.trim() || !phone.trim()) {
+      toast.error('Enter the delivery address and phone number')
+      return
+    }
+
+    setSubmitting(true)
+    try {
+      const res = await ordersApi.createAdminOrder({
+        channel,
+        userId: isNewCustomer ? undefined : customer?.id,
+        newCustomer: isNewCustomer
+          ? {
+              firstName: newCustomer.firstName.trim(),
+              lastName: newCustomer.lastName.trim(),
+              email: newCustomer.email.trim(),
+              phoneNumber: newCustomer.phoneNumber.trim(),
+            }
+          : undefined,
+        cartItems: lines.map((l) => ({ productId: l.id, quantity: l.quantity })),
+        deliveryAddress: {
+          street: street.trim(),
+          city: city.trim(),
+          region: region.trim(),
+          phone: phone.trim(),
+          additionalInfo: location.text || undefined,
+        },
+        deliveryLat: location.coords?.lat,
+        deliveryLng: location.coords?.lng,
+        deliveryNotes: deliveryNotes.trim() || undefined,
+        voucherCode: voucherCode.trim() || undefined,
+        payment,
+        paidVia: payment === 'already_paid' ? paidVia : undefined,
+        paymentNote: payment === 'already_paid' ? paymentNote.trim() || undefined : undefined,
+      })
+      if (res.success && res.data) {
+        if (res.data.authorizationUrl) {
+          await navigator.clipboard?.writeText(res.data.authorizationUrl).catch(() => undefined)
+          toast.success(`Payment link for GHS ${(res.data.amount ?? 0).toFixed(2)} copied. Send it to the customer.`)
+        } else {
+          toast.success(res.message || 'Order created')
+        }
+        onCreated(res.data)
+      } else {
+        toast.error(res.message || 'Failed to create order')
+      }
+    } catch {
+      toast.error('Failed to create order')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-transparent flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-gray-900 rounded-xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white">New Order</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+          >
+            <X className="h-6 w-6 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {/* Customer */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Customer</label>
+              <select
+                value={channel}
+                onChange={(e) => setChannel(e.target.value as ManualOrderChannel)}
+                className="px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-lg text-sm dark:bg-gray-800 dark:text-white"
+              >
+                <option value="phone">Phone order</option>
+                <option value="whatsapp">WhatsApp order</option>
+                <option value="walk_in">Walk-in</option>
+              </select>
+            </div>
+            {isNewCustomer ? (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <input placeholder="First name" value={newCustomer.firstName} onChange={(e) => setNewCustomer((c) => ({ ...c, firstName: e.target.value }))} className={inputClass} />
+                <input placeholder="Last name" value={newCustomer.lastName} onChange={(e) => setNewCustomer((c) => ({ ...c, lastName: e.target.value }))} className={inputClass} />
+                <input type="email" placeholder="Email (invoice is sent here)" value={newCustomer.email} onChange={(e) => setNewCustomer((c) => ({ ...c, email: e.target.value }))} className={inputClass} />
+                <input
+                  placeholder="Phone (+233...)"
+                  value={newCustomer.phoneNumber}
+                  onChange={(e) => {
+                    const value = e.target.value
+                    setNewCustomer((c) => ({ ...c, phoneNumber: value }))
+                    setPhone(value)
+                  }}
+                  className={inputClass}
+                />
+              </div>
+            ) : customer ? (
+              <div className="flex items-center justify-between px-3 py-2 border border-gray-200 dark:border-gray-700 rounded-lg">
+                <div className="text-sm">
+                  <p className="text-gray-900 dark:text-white">{customer.name}</p>
+                  <p className="text-gray-500 dark:text-gray-400">{[customer.email, customer.phoneNumber].filter(Boolean).join(' · ')}</p>
+                </div>
+                <button type="button" onClick={() => setCustomer(null)} className="text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400">
+                  Change
+                </button>
+              </div>
+            ) : (
+              <div className="relative">
+                <input
+                  placeholder="Search by name, email or phone"
+                  value={customerQuery}
+                  onChange={(e) => setCustomerQuery(e.target.value)}
+                  className={inputClass}
+                />
+                {customerResults.length > 0 && (
+                  <ul className="absolute z-10 mt-1 w-full bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg max-h-56 overflow-y-auto">
+                    {customerResults.map((c) => (
+                      <li key={c.id}>
+                        <button type="button" onClick={() => selectCustomer(c)} className="w-full text-left px-3 py-2 text-sm hover:bg-gray-50 dark:hover:bg-gray-700">
+                          <span className="text-gray-900 dark:text-white">{c.name}</span>
+                          <span className="ml-2 text-gray-500 dark:text-gray-400">{c.phoneNumber || c.email}</span>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+            <button
+              type="button"
+              onClick={() => {
+                setIsNewCustomer((v) => !v)
+                setCustomer(null)
+              }}
+              className="text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400"
+            >
+              {isNewCustomer ? 'Pick an existing customer instead' : 'New customer'}
+            </button>
+          </div>
+
+          {/* Products */}
+          <div className="space-y-3">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Products</label>
+            <div className="relative">
+              <input
+                placeholder="Search products to add"
+                value={productQuery}
+                onChange={(e) => setProductQuery(e.target.value)}
+                className={inputClass}
+              />
+              {productResults.length > 0 && (
+                <ul className="absolute z-10 mt-1 w-full bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg max-h-56 overflow-y-auto">
+                  {productResults.map((p) => (
+                    <li key={p.id}>
+                      <button type="button" onClick={() => addProduct(p)} className="w-full flex justify-between px-3 py-2 text-sm hover:bg-gray-50 dark:hover:bg-gray-700">
+                        <span className="text-gray-900 dark:text-white">{p.name}</span>
+                        <span className="text-gray-500 dark:text-gray-400">GHS {p.price.toFixed(2)}</span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+            {lines.length > 0 && (
+              <div className="space-y-2">
+                {lines.map((l) => (
+                  <div key={l.id} className="flex items-center justify-between gap-3">
+                    <span className="flex-1 text-sm text-gray-900 dark:text-white">{l.name}</span>
+                    <span className="text-sm text-gray-500 dark:text-gray-400">GHS {(l.price * l.quantity).toFixed(2)}</span>
+                    <input
+                      type="number"
+                      min={1}
+                      value={l.quantity}
+                      onChange={(e) => {
+                        const quantity = Math.max(1, parseInt(e.target.value, 10) || 1)
+                        setLines((prev) => prev.map((x) => (x.id === l.id ? { ...x, quantity } : x)))
+                      }}
+                      className="w-20 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-800 dark:text-white"
+                    />
+                    <button type="button" onClick={() => setLines((prev) => prev.filter((x) => x.id !== l.id))} className="p-1 text-gray-400 hover:text-red-600" title="Remove">
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  Items: GHS {itemsTotal.toFixed(2)}. Voucher and delivery fee are applied when the order is created.
+                </p>
+              </div>
+            )}
+          </div>
+
+          {/* Delivery */}
+          <div className="space-y-3">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Delivery</label>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <input placeholder="Street / house" value={street} onChange={(e) => setStreet(e.target.value)} className={inputClass} />
+              <input placeholder="Phone for the rider" value={phone} onChange={(e) => setPhone(e.target.value)} className={inputClass} />
+              <input placeholder="City" value={city} onChange={(e) => setCity(e.target.value)} className={inputClass} />
+              <input placeholder="Region" value={region} onChange={(e) => setRegion(e.target.value)} className={inputClass} />
+            </div>
+            <LocationPicker
+              selectedLocation={location.text}
+              onLocationSelect={(text, coords) => setLocation({ text, coords })}
+              placeholder="Delivery location (sets the delivery fee)"
+              modalTitle="Delivery location"
+            />
+            <input placeholder="Delivery notes (optional)" maxLength={500} value={deliveryNotes} onChange={(e) => setDeliveryNotes(e.target.value)} className={inputClass} />
+          </div>
+
+          {/* Voucher and payment */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Voucher code</label>
+              <input placeholder="Optional" maxLength={50} value={voucherCode} onChange={(e) => setVoucherCode(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Payment</label>
+              <select value={payment} onChange={(e) => setPayment(e.target.value as ManualOrderPayment)} className={inputClass}>
+                {(Object.keys(PAYMENT_LABELS) as ManualOrderPayment[]).map((p) => (
+                  <option key={p} value={p}>{PAYMENT_LABELS[p]}</option>
+                ))}
+              </select>
+            </div>
+            {payment === 'already_paid' && (
+              <>
+                <select value={paidVia} onChange={(e) => setPaidVia(e.target.value as OfflinePaymentMethod)} className={inputClass}>
+                  <option value="cash">Cash</option>
+                  <option value="mobile_money">Mobile money</option>
+                  <option value="bank_transfer">Bank transfer</option>
+                  <option value="card">Card (POS)</option>
+                </select>
+                <input placeholder="Receipt or transaction reference (optional)" maxLength={200} value={paymentNote} onChange={(e) => setPaymentNote(e.target.value)} className={inputClass} />
+              </>
+            )}
+          </div>
+
+          <div className="flex items-center justify-end space-x-3 pt-6 border-t border-gray-200 dark:border-gray-700">
+            <button
+              onClick={handleSubmit}
+              disabled={submitting}
+              className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {submitting ? 'Creating...' : 'Create order'}
+            </button>
+            <button
+              onClick={onClose}
+              className="px-6 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,9 +1,9 @@
 'use client'
 
 import React, { useState } from 'react'
-import { Search, Edit, Trash2, Eye, Package, Clock, CheckCircle, Truck, XCircle } from 'lucide-react'
-import { Order, OrderStatus } from '@/types/grocery'
-import { formatPrice, formatDate, getOrderStatusColor, getPaymentMethodIcon } from '@/lib/utils'
+import { Search, Edit, Trash2, Eye, Package, Clock, CheckCircle, Truck, XCircle, RefreshCw } from 'lucide-react'
+import { AdminOrderFilters, Order, OrderStatus } from '@/types/grocery'
+import { formatPrice, formatDate, getOrderStatusColor, getPaymentMethodIcon, ORDER_STATUS_LABELS } from '@/lib/utils'
 import { cn } from '@/lib/utils'
 
 interface OrdersTableProps {
@@ -11,8 +11,11 @@ interface OrdersTableProps {
   onEdit: (order: Order) => void
   onDelete: (order: Order) => void
   onView: (order: Order) => void
-  searchQuery: string
-  onSearchChange: (query: string) => void
+  /** Applied by the server; the table only edits them */
+  filters: AdminOrderFilters
+  onFiltersChange: (filters: AdminOrderFilters) => void
+  selectedIds: string[]
+  onSelectionChange: (ids: string[]) => void
 }
 
 const statusIcons = {
@@ -22,6 +25,8 @@ const statusIcons = {
   shipped: Truck,
   delivered: CheckCircle,
   cancelled: XCircle,
+  refunded: RefreshCw,
+  failed: XCircle,
 }
 
 export default function OrdersTable({
@@ -29,22 +34,30 @@ export default function OrdersTable({
   onEdit,
   onDelete,
   onView,
-  searchQuery,
-  onSearchChange,
+  filters,
+  onFiltersChange,
+  selectedIds,
+  onSelectionChange,
 }: OrdersTableProps) {
   const [showDeleteConfirm, setShowDeleteConfirm] = useState<string | null>(null)
-  const [selectedStatus, setSelectedStatus] = useState<OrderStatus | ''>('')
 
-  const filteredOrders = (orders ?? []).filter(order => {
-    const matchesSearch = searchQuery === '' || 
-      order.customerName.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      order.customerEmail.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      order.status.toLowerCase().includes(searchQuery.toLowerCase())
-    
-    const matchesStatus = selectedStatus === '' || order.status === selectedStatus
-    
-    return matchesSearch && matchesStatus
-  })
+  const filteredOrders = orders ?? []
+  const hasFilters = Object.values(filters).some(Boolean)
+  const allSelected = filteredOrders.length > 0 && filteredOrders.every(order => selectedIds.includes(order.id))
+
+  const setFilter = <K extends keyof AdminOrderFilters>(key: K, value: AdminOrderFilters[K] | '') => {
+    onFiltersChange({ ...filters, [key]: value || undefined })
+  }
+
+  const toggleSelected = (orderId: string) => {
+    onSelectionChange(selectedIds.includes(orderId)
+      ? selectedIds.filter(id => id !== orderId)
+      : [...selectedIds, orderId])
+  }
+
+  const toggleAll = () => {
+    onSelectionChange(allSelected ? [] : filteredOrders.map(order => order.id))
+  }
 
   const handleDelete = (order: Order) => {
     setShowDeleteConfirm(order.id)
@@ -85,33 +98,62 @@ export default function OrdersTable({
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
           <input
             type="text"
-            placeholder="Search orders by customer name, email, or status..."
-            value={searchQuery}
-            onChange={(e) => onSearchChange(e.target.value)}
+            placeholder="Search by order number, invoice, customer name, email or phone..."
+            value={filters.search ?? ''}
+            onChange={(e) => setFilter('search', e.target.value)}
             className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-800 dark:text-white"
           />
         </div>
         
         <select
-          value={selectedStatus}
-          onChange={(e) => setSelectedStatus(e.target.value as OrderStatus | '')}
+          value={filters.status ?? ''}
+          onChange={(e) => setFilter('status', e.target.value as OrderStatus | '')}
           className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-800 dark:text-white"
         >
           <option value="">All Statuses</option>
           <option value="pending">Pending</option>
           <option value="confirmed">Confirmed</option>
           <option value="processing">Processing</option>
-          <option value="shipped">Shipped</option>
+          <option value="shipped">{ORDER_STATUS_LABELS.shipped}</option>
           <option value="delivered">Delivered</option>
           <option value="cancelled">Cancelled</option>
         </select>
+
+        <select
+          value={filters.paymentStatus ?? ''}
+          onChange={(e) => setFilter('paymentStatus', e.target.value as AdminOrderFilters['paymentStatus'] | '')}
+          className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-800 dark:text-white"
+        >
+          <option value="">All Payments</option>
+          <option value="paid">Paid</option>
+          <option value="pending">Pending</option>
+          <option value="refunded">Refunded</option>
+        </select>
+
+        <input
+          type="date"
+          aria-label="From date"
+          value={filters.from ?? ''}
+          max={filters.to}
+          onChange={(e) => setFilter('from', e.target.value)}
+          className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-800 dark:text-white"
+        />
+        <input
+          type="date"
+          aria-label="To date"
+          value={filters.to ?? ''}
+          min={filters.from}
+          onChange={(e) => setFilter('to', e.target.value)}
+          className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-800 dark:text-white"
+        />
       </div>
 
       {/* Orders Count */}
       <div className="text-sm text-gray-600 dark:text-gray-400">
         Showing {filteredOrders.length} order{filteredOrders.length !== 1 ? 's' : ''}
-        {searchQuery && ` matching "${searchQuery}"`}
-        {selectedStatus && ` with status "${selectedStatus}"`}
+        {filters.search && ` matching "${filters.search}"`}
+        {filters.status && ` with status "${filters.status}"`}
+        {selectedIds.length > 0 && ` · ${selectedIds.length} selected`}
       </div>
 
       {/* Orders Table */}
@@ -120,6 +162,15 @@ export default function OrdersTable({
           <table className="w-full">
             <thead className="bg-gray-50 dark:bg-gray-700">
               <tr>
+                <th className="pl-6 py-3 text-left">
+                  <input
+                    type="checkbox"
+                    aria-label="Select all orders"
+                    checked={allSelected}
+                    onChange={toggleAll}
+                    className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
                   Order Details
                 </th>
@@ -146,6 +197,15 @@ export default function OrdersTable({
             <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
               {filteredOrders.map((order) => (
                 <tr key={order.id} className="hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors">
+                  <td className="pl-6 py-4">
+                    <input
+                      type="checkbox"
+                      aria-label={`Select order #${order.id.slice(-6)}`}
+                      checked={selectedIds.includes(order.id)}
+                      onChange={() => toggleSelected(order.id)}
+                      className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="flex items-center space-x-3">
                       <div className="flex-shrink-0">
@@ -185,7 +245,7 @@ export default function OrdersTable({
                         "inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium",
                         getOrderStatusColor(order.status)
                       )}>
-                        {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
+                        {ORDER_STATUS_LABELS[order.status] ?? order.status}
                       </span>
                     </div>
                   </td>
@@ -219,7 +279,9 @@ export default function OrdersTable({
                       </button>
                       <button
                         onClick={() => onEdit(order)}
-                        className="text-green-600 hover:text-green-900 dark:text-green-400 dark:hover:text-green-300 transition-colors"
+                        disabled={order.allowedNextStatuses?.length === 0}
+                        title={order.allowedNextStatuses?.length === 0 ? 'No further status changes allowed' : 'Change status'}
+                        className="text-green-600 hover:text-green-900 dark:text-green-400 dark:hover:text-green-300 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
                       >
                         <Edit className="h-4 w-4" />
                       </button>
@@ -246,7 +308,7 @@ export default function OrdersTable({
               No orders found
             </h3>
             <p className="text-gray-500 dark:text-gray-400">
-              {searchQuery || selectedStatus
+              {hasFilters
                 ? 'Try adjusting your search or filter criteria'
                 : 'No orders have been placed yet'
               }
@@ -4,7 +4,7 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react'
 import { X, Save } from 'lucide-react'
 import { cn } from '@/lib/utils'
-import { GroceryProduct, GroceryCategory } from '@/types/grocery'
+import { GroceryProduct, GroceryCategory, OversellPolicy } from '@/types/grocery'
 import ImageUpload from './ImageUpload'
 
 export interface SimilarProductOption {
@@ -39,6 +39,7 @@ const initialFormData = {
   type: '',
   packaging: '',
   inStock: true,
+  oversellPolicy: 'block' as OversellPolicy,
   rating: 0,
   reviews: 0,
   images: [] as string[],
@@ -110,6 +111,7 @@ export default function ProductForm({
         type: product.type ?? '',
         packaging: product.packaging ?? '',
         inStock: product.inStock ?? true,
+        oversellPolicy: product.oversellPolicy ?? 'block',
         rating: product.rating ?? 0,
         reviews: product.reviews ?? 0,
         images: Array.isArray(product.images) ? product.images : [],
@@ -509,6 +511,18 @@ export default function ProductForm({
                   In Stock
                 </span>
               </label>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 pt-2">
+                When out of stock
+              </label>
+              <select
+                value={formData.oversellPolicy}
+                onChange={(e) => handleInputChange('oversellPolicy', e.target.value as OversellPolicy)}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-800 dark:text-white"
+              >
+                <option value="block">Block checkout</option>
+                <option value="backorder">Allow backorder</option>
+                <option value="alert">Allow and alert admins</option>
+              </select>
             </div>
 
             <div className="space-y-2">
@@ -0,0 +1,158 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { Receipt, Download, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { dashboardApi } from '@/lib/api'
+import { TaxComponent, TaxSummary, TaxSummaryRow } from '@/types/grocery'
+import { formatPrice } from '@/lib/utils'
+
+const COMPONENT_COLUMNS: { key: TaxComponent; label: string }[] = [
+  { key: 'vat', label: 'VAT' },
+  { key: 'nhil', label: 'NHIL' },
+  { key: 'getfund', label: 'GETFund' },
+  { key: 'covid', label: 'COVID-19' },
+]
+
+const isoDate = (d: Date) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`
+
+const monthLabel = (period: string) => {
+  const [year, month] = period.split('-').map(Number)
+  return new Date(year, month - 1, 1).toLocaleDateString(undefined, { month: 'long', year: 'numeric' })
+}
+
+function summaryCsv(summary: TaxSummary): string {
+  const header = ['Period', 'Orders', 'Taxable', 'Exempt', ...COMPONENT_COLUMNS.map((c) => c.label), 'Total tax']
+  const row = (r: TaxSummaryRow, label: string) => [
+    label, r.orders, r.taxableAmount, r.exemptAmount, ...COMPONENT_COLUMNS.map((c) => r.taxes[c.key]), r.totalTax,
+  ]
+  return [header, ...summary.periods.map((r) => row(r, r.period)), row(summary.totals, 'Total')]
+    .map((cells) => cells.join(','))
+    .join('\r\n') + '\r\n'
+}
+
+/** VAT and levies collected per month, for filing returns */
+export default function TaxSummaryReport() {
+  const now = new Date()
+  const [from, setFrom] = useState(isoDate(new Date(now.getFullYear(), now.getMonth(), 1)))
+  const [to, setTo] = useState(isoDate(now))
+  const [summary, setSummary] = useState<TaxSummary | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  const fetchSummary = useCallback(async () => {
+    if (!from || !to || from > to) return
+    setLoading(true)
+    try {
+      const response = await dashboardApi.getTaxSummary(from, to)
+      if (response.success && response.data) {
+        setSummary(response.data)
+      } else {
+        toast.error(response.message || 'Failed to load tax summary')
+      }
+    } catch {
+      toast.error('Failed to load tax summary')
+    } finally {
+      setLoading(false)
+    }
+  }, [from, to])
+
+  useEffect(() => {
+    fetchSummary()
+  }, [fetchSummary])
+
+  const handleDownload = () => {
+    if (!summary) return
+    const blob = new Blob([summaryCsv(summary)], { type: 'text/csv;charset=utf-8' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `tax-summary-${summary.from}-to-${summary.to}.csv`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const renderRow = (r: TaxSummaryRow, label: string, bold = false) => (
+    <tr key={r.period} className={bold ? 'font-semibold border-t-2 border-gray-300 dark:border-gray-600' : 'border-t border-gray-200 dark:border-gray-700'}>
+      <td className="py-2 pr-4 text-gray-900 dark:text-white">{label}</td>
+      <td className="py-2 pr-4 text-right tabular-nums text-gray-700 dark:text-gray-300">{r.orders}</td>
+      <td className="py-2 pr-4 text-right tabular-nums text-gray-700 dark:text-gray-300">{formatPrice(r.taxableAmount)}</td>
+      <td className="py-2 pr-4 text-right tabular-nums text-gray-700 dark:text-gray-300">{formatPrice(r.exemptAmount)}</td>
+      {COMPONENT_COLUMNS.map((c) => (
+        <td key={c.key} className="py-2 pr-4 text-right tabular-nums text-gray-700 dark:text-gray-300">{formatPrice(r.taxes[c.key])}</td>
+      ))}
+      <td className="py-2 text-right tabular-nums text-gray-900 dark:text-white">{formatPrice(r.totalTax)}</td>
+    </tr>
+  )
+
+  return (
+    <div className="p-6 bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+          <Receipt className="h-5 w-5 text-[#D35F0E]" />
+          Tax Summary
+        </h3>
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <input
+            type="date"
+            value={from}
+            max={to}
+            onChange={(e) => setFrom(e.target.value)}
+            className="px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-800 dark:text-white"
+          />
+          <span className="text-gray-500">to</span>
+          <input
+            type="date"
+            value={to}
+            min={from}
+            onChange={(e) => setTo(e.target.value)}
+            className="px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-800 dark:text-white"
+          />
+          <button
+            onClick={handleDownload}
+            disabled={!summary || loading}
+            className="inline-flex items-center gap-1 px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+          >
+            <Download className="h-4 w-4" />
+            CSV
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-[#D35F0E]" />
+        </div>
+      ) : !summary || summary.periods.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 py-4">No taxed orders in this period.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 dark:text-gray-400">
+                <th className="pb-2 pr-4 font-medium">Month</th>
+                <th className="pb-2 pr-4 font-medium text-right">Orders</th>
+                <th className="pb-2 pr-4 font-medium text-right">Taxable</th>
+                <th className="pb-2 pr-4 font-medium text-right">Exempt</th>
+                {COMPONENT_COLUMNS.map((c) => (
+                  <th key={c.key} className="pb-2 pr-4 font-medium text-right">{c.label}</th>
+                ))}
+                <th className="pb-2 font-medium text-right">Total tax</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summary.periods.map((r) => renderRow(r, monthLabel(r.period)))}
+              {renderRow(summary.totals, 'Total', true)}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {summary && summary.untaxedOrders > 0 && (
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-3">
+          {summary.untaxedOrders} order{summary.untaxedOrders === 1 ? '' : 's'} in this period {summary.untaxedOrders === 1 ? 'was' : 'were'} placed while tax was off and {summary.untaxedOrders === 1 ? 'is' : 'are'} not included.
+        </p>
+      )}
+    </div>
+  )
+}
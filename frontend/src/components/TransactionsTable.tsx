@@ -1,7 +1,7 @@
 'use client'
 
 import React, { useState } from 'react'
-import { Search, Edit, Trash2, Eye, CreditCard, Clock, CheckCircle, XCircle, RefreshCw } from 'lucide-react'
+import { Search, Edit, Trash2, Eye, CreditCard, Clock, CheckCircle, XCircle, RefreshCw, AlertTriangle } from 'lucide-react'
 import { Transaction, TransactionStatus } from '@/types/grocery'
 import { formatPrice, formatDate, getPaymentMethodIcon } from '@/lib/utils'
 import { cn } from '@/lib/utils'
@@ -21,6 +21,7 @@ const statusIcons = {
   failed: XCircle,
   refunded: RefreshCw,
   cancelled: XCircle,
+  needs_review: AlertTriangle,
 }
 
 export default function TransactionsTable({
@@ -72,6 +73,7 @@ export default function TransactionsTable({
       failed: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
       refunded: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
       cancelled: 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200',
+      needs_review: 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200',
     }
     return statusColors[status] || 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200'
   }
@@ -114,6 +116,7 @@ export default function TransactionsTable({
           <option value="failed">Failed</option>
           <option value="refunded">Refunded</option>
           <option value="cancelled">Cancelled</option>
+          <option value="needs_review">Needs review</option>
         </select>
       </div>
 
@@ -192,7 +195,7 @@ export default function TransactionsTable({
                         "inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium",
                         getStatusColor(transaction.status)
                       )}>
-                        {transaction.status.charAt(0).toUpperCase() + transaction.status.slice(1)}
+                        {transaction.status.charAt(0).toUpperCase() + transaction.status.slice(1).replace('_', ' ')}
                       </span>
                     </div>
                   </td>
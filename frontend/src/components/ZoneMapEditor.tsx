@@ -0,0 +1,240 @@
+'use client'
+
+import { useEffect, useRef, useState, type PointerEvent as ReactPointerEvent } from 'react'
+import { Minus, Plus } from 'lucide-react'
+import { DeliveryZone, DeliveryZoneFeeType, DeliveryZonePoint } from '@/types/grocery'
+
+const TILE_SIZE = 256
+const MIN_ZOOM = 3
+const MAX_ZOOM = 18
+/** Pointer movement (px) below which a press counts as a click, not a pan */
+const CLICK_TOLERANCE = 4
+const ACCRA = { lat: 5.6037, lng: -0.187 }
+
+export const ZONE_COLORS: Record<DeliveryZoneFeeType, string> = {
+  flat: '#2563eb',
+  per_km: '#16a34a',
+  blocked: '#dc2626',
+}
+
+interface ZoneMapEditorProps {
+  zones: DeliveryZone[]
+  /** Zone being edited; drawn from `draft` instead of its saved polygon */
+  editingZoneId?: string | null
+  /** Points of the polygon being drawn or edited; null when not editing */
+  draft: DeliveryZonePoint[] | null
+  onDraftChange: (points: DeliveryZonePoint[]) => void
+  /** Clicking a saved zone while not editing */
+  onZoneClick?: (zoneId: string) => void
+  warehouse?: DeliveryZonePoint | null
+}
+
+/** Web Mercator: lat/lng to world pixels at a zoom level */
+function project(p: DeliveryZonePoint, zoom: number): { x: number; y: number } {
+  const scale = TILE_SIZE * 2 ** zoom
+  const sin = Math.min(Math.max(Math.sin((p.lat * Math.PI) / 180), -0.9999), 0.9999)
+  return {
+    x: ((p.lng + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  }
+}
+
+function unproject(x: number, y: number, zoom: number): DeliveryZonePoint {
+  const scale = TILE_SIZE * 2 ** zoom
+  const lng = (x / scale) * 360 - 180
+  const lat = (Math.atan(Math.sinh(Math.PI * (1 - (2 * y) / scale))) * 180) / Math.PI
+  return { lat: Math.round(lat * 1e6) / 1e6, lng: Math.round(lng * 1e6) / 1e6 }
+}
+
+function pointInPolygon(p: DeliveryZonePoint, polygon: DeliveryZonePoint[]): boolean {
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i]
+    const b = polygon[j]
+    if ((a.lat > p.lat) !== (b.lat > p.lat) && p.lng < ((b.lng - a.lng) * (p.lat - a.lat)) / (b.lat - a.lat) + a.lng) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+/**
+ * Map for drawing delivery zones on OpenStreetMap tiles. Drag to pan; while editing, click to add a
+ * point and drag a point to move it. Saved zones are coloured by fee type.
+ */
+export default function ZoneMapEditor({ zones, editingZoneId, draft, onDraftChange, onZoneClick, warehouse }: ZoneMapEditorProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [size, setSize] = useState({ width: 800, height: 420 })
+  const [center, setCenter] = useState<DeliveryZonePoint>(warehouse ?? ACCRA)
+  const [zoom, setZoom] = useState(12)
+  const gesture = useRef<{ startX: number; startY: number; moved: boolean; vertex: number | null; centerPx: { x: number; y: number } } | null>(null)
+
+  useEffect(() => {
+    const el = containerRef.current
+    if (!el) return
+    const update = () => setSize({ width: el.clientWidth, height: el.clientHeight })
+    update()
+    const observer = new ResizeObserver(update)
+    observer.observe(el)
+    return () => observer.disconnect()
+  }, [])
+
+  // Centre on the warehouse once it has loaded
+  const warehouseKey = warehouse ? `${warehouse.lat},${warehouse.lng}` : ''
+  useEffect(() => {
+    if (warehouse) setCenter(warehouse)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [warehouseKey])
+
+  const centerPx = project(center, zoom)
+  const originX = centerPx.x - size.width / 2
+  const originY = centerPx.y - size.height / 2
+  const toScreen = (p: DeliveryZonePoint) => {
+    const w = project(p, zoom)
+    return { x: w.x - originX, y: w.y - originY }
+  }
+  const toLatLng = (clientX: number, clientY: number) => {
+    const rect = containerRef.current?.getBoundingClientRect()
+    return unproject(originX + clientX - (rect?.left ?? 0), originY + clientY - (rect?.top ?? 0), zoom)
+  }
+
+  const tiles: { key: string; src: string; left: number; top: number }[] = []
+  const tileCount = 2 ** zoom
+  for (let tx = Math.floor(originX / TILE_SIZE); tx <= Math.floor((originX + size.width) / TILE_SIZE); tx++) {
+    for (let ty = Math.floor(originY / TILE_SIZE); ty <= Math.floor((originY + size.height) / TILE_SIZE); ty++) {
+      if (ty < 0 || ty >= tileCount) continue
+      const wrappedX = ((tx % tileCount) + tileCount) % tileCount
+      tiles.push({
+        key: `${zoom}/${tx}/${ty}`,
+        src: `https://tile.openstreetmap.org/${zoom}/${wrappedX}/${ty}.png`,
+        left: tx * TILE_SIZE - originX,
+        top: ty * TILE_SIZE - originY,
+      })
+    }
+  }
+
+  const handlePointerDown = (e: ReactPointerEvent<HTMLDivElement>, vertex: number | null = null) => {
+    e.stopPropagation()
+    containerRef.current?.setPointerCapture(e.pointerId)
+    gesture.current = { startX: e.clientX, startY: e.clientY, moved: false, vertex, centerPx }
+  }
+
+  const handlePointerMove = (e: ReactPointerEvent<HTMLDivElement>) => {
+    const g = gesture.current
+    if (!g) return
+    const dx = e.clientX - g.startX
+    const dy = e.clientY - g.startY
+    if (!g.moved && Math.hypot(dx, dy) < CLICK_TOLERANCE) return
+    g.moved = true
+    if (g.vertex != null && draft) {
+      const point = toLatLng(e.clientX, e.clientY)
+      onDraftChange(draft.map((p, i) => (i === g.vertex ? point : p)))
+    } else {
+      setCenter(unproject(g.centerPx.x - dx, g.centerPx.y - dy, zoom))
+    }
+  }
+
+  const handlePointerUp = (e: ReactPointerEvent<HTMLDivElement>) => {
+    const g = gesture.current
+    gesture.current = null
+    if (!g || g.moved || g.vertex != null) return
+    const point = toLatLng(e.clientX, e.clientY)
+    if (draft) {
+      onDraftChange([...draft, point])
+    } else if (onZoneClick) {
+      const hit = zones.find((z) => z.polygon.length >= 3 && pointInPolygon(point, z.polygon))
+      if (hit) onZoneClick(hit.id)
+    }
+  }
+
+  const changeZoom = (delta: number) => setZoom((z) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, z + delta)))
+  const pointsAttr = (points: DeliveryZonePoint[]) =>
+    points.map((p) => {
+      const s = toScreen(p)
+      return `${s.x},${s.y}`
+    }).join(' ')
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative h-[420px] w-full overflow-hidden rounded-lg border border-gray-200 dark:border-gray-700 bg-gray-100 dark:bg-gray-800 select-none touch-none"
+      style={{ cursor: draft ? 'crosshair' : 'grab' }}
+      onPointerDown={(e) => handlePointerDown(e)}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => { gesture.current = null }}
+    >
+      {tiles.map((t) => (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img
+          key={t.key}
+          src={t.src}
+          alt=""
+          draggable={false}
+          className="absolute pointer-events-none"
+          style={{ left: t.left, top: t.top, width: TILE_SIZE, height: TILE_SIZE }}
+        />
+      ))}
+
+      <svg className="absolute inset-0" width={size.width} height={size.height}>
+        {zones
+          .filter((z) => z.id !== editingZoneId && z.polygon.length >= 3)
+          .map((z) => (
+            <polygon
+              key={z.id}
+              points={pointsAttr(z.polygon)}
+              fill={ZONE_COLORS[z.feeType]}
+              fillOpacity={z.active ? 0.2 : 0.05}
+              stroke={ZONE_COLORS[z.feeType]}
+              strokeWidth={2}
+              strokeDasharray={z.active ? undefined : '6 4'}
+            />
+          ))}
+        {warehouse && (() => {
+          const s = toScreen(warehouse)
+          return <circle cx={s.x} cy={s.y} r={7} fill="#D35F0E" stroke="white" strokeWidth={2} />
+        })()}
+        {draft && draft.length > 0 && (
+          <>
+            <polygon points={pointsAttr(draft)} fill="#D35F0E" fillOpacity={0.25} stroke="#D35F0E" strokeWidth={2} />
+            {draft.map((p, i) => {
+              const s = toScreen(p)
+              return (
+                <circle
+                  key={i}
+                  cx={s.x}
+                  cy={s.y}
+                  r={6}
+                  fill="white"
+                  stroke="#D35F0E"
+                  strokeWidth={2}
+                  style={{ cursor: 'move' }}
+                  onPointerDown={(e) => handlePointerDown(e as unknown as ReactPointerEvent<HTMLDivElement>, i)}
+                />
+              )
+            })}
+          </>
+        )}
+      </svg>
+
+      <div className="absolute top-2 right-2 flex flex-col gap-1">
+        {[{ delta: 1, Icon: Plus, label: 'Zoom in' }, { delta: -1, Icon: Minus, label: 'Zoom out' }].map(({ delta, Icon, label }) => (
+          <button
+            key={label}
+            type="button"
+            aria-label={label}
+            onPointerDown={(e) => e.stopPropagation()}
+            onClick={() => changeZoom(delta)}
+            className="h-8 w-8 flex items-center justify-center rounded bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 shadow"
+          >
+            <Icon className="h-4 w-4" />
+          </button>
+        ))}
+      </div>
+
+      <div className="absolute bottom-0 right-0 px-1 text-[10px] bg-white/80 text-gray-700">
+        © <a href="https://www.openstreetmap.org/copyright" target="_blank" rel="noreferrer" onPointerDown={(e) => e.stopPropagation()}>OpenStreetMap</a> contributors
+      </div>
+    </div>
+  )
+}
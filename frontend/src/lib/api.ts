@@ -1,6 +1,7 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
 import { getAdminToken, getCookie } from './cookies'
+import type { AdminOrderCustomer, AdminOrderFilters, BulkOrderStatusResult, CheckoutRecoverySettings, CheckoutRecoveryStats, CodCollectionDetails, CodDailyReconciliation, CreateAdminOrderResult, DeliveryBlackout, DeliveryCodeStatus, DeliveryDistanceBand, DeliveryPeakSurcharge, DeliveryProofDetails, DeliveryRoute, DeliveryRoutePlan, DeliverySlot, DeliverySlotInput, DeliverySlotUtilisation, DeliveryVerificationAttempt, DeliveryVerificationOutcome, DeliveryZone, DeliveryZoneInput, FailedAttemptReasonCode, ManualOrderChannel, ManualOrderPayment, OfflinePaymentMethod, OrderAmendment, OrderDeliveryAttempts, OrderExportDataset, OrderExportFormat, OrderRiskSettings, OrderSlaThreshold, OrderTracking, PaymentDiscrepancy, PickList, ReconciliationSummary, Refund, Rider, RiderAssignment, RiderInput, RiderPerformanceReport, RiskReviewItem, RiskReviewResult, SlaBreach, SlaCheckSummary, StockReservation, StoreCreditBalance, StoreCreditEntry, StoreCreditEntryType, TaxSettings, TaxSummary, Warehouse, WarehouseInput, WarehouseStockRow } from '@/types/grocery'
 
 // Get backend URL from environment variables
 // In Next.js, client-side env vars must be prefixed with NEXT_PUBLIC_
@@ -333,6 +334,10 @@ export const productsApi = {
   }) => apiClient.patch<any>('/api/products/batch-stock', params),
 
   getStats: () => apiClient.get<any>('/api/products/admin/stats'),
+
+  /** Stock held by pending orders (defaults to active reservations). */
+  getReservations: (params?: { status?: 'active' | 'committed' | 'released'; productId?: string; page?: number; limit?: number }) =>
+    apiClient.get<StockReservation[]>('/api/products/admin/reservations', params),
 }
 
 // Delivery settings (platform warehouse + price per km for checkout delivery fee)
@@ -344,6 +349,15 @@ export const deliveryApi = {
       warehouseAddress: string | null
       pricePerKm: number
       pricePerMeter: number | null
+      restrictToZones: boolean
+      baseFee: number
+      distanceBands: DeliveryDistanceBand[]
+      minFee: number | null
+      maxFee: number | null
+      freeDeliveryThreshold: number | null
+      peakSurcharges: DeliveryPeakSurcharge[]
+      requireDeliverySlot: boolean
+      slotBookingDays: number
       updatedAt: string | null
     }>('/api/delivery/settings'),
 
@@ -353,7 +367,35 @@ export const deliveryApi = {
     warehouseAddress?: string | null
     pricePerKm?: number
     pricePerMeter?: number | null
+    restrictToZones?: boolean
+    baseFee?: number
+    distanceBands?: DeliveryDistanceBand[]
+    minFee?: number | null
+    maxFee?: number | null
+    freeDeliveryThreshold?: number | null
+    peakSurcharges?: DeliveryPeakSurcharge[]
+    requireDeliverySlot?: boolean
+    slotBookingDays?: number
   }) => apiClient.put<unknown>('/api/delivery/settings', data),
+
+  /** All zones, inactive included, in match order */
+  getZones: () => apiClient.get<DeliveryZone[]>('/api/delivery/zones'),
+  createZone: (zone: DeliveryZoneInput) => apiClient.post<DeliveryZone>('/api/delivery/zones', zone),
+  updateZone: (id: string, zone: DeliveryZoneInput) => apiClient.put<DeliveryZone>(`/api/delivery/zones/${id}`, zone),
+  deleteZone: (id: string) => apiClient.delete<unknown>(`/api/delivery/zones/${id}`),
+
+  /** Weekly slot windows, inactive included */
+  getSlots: () => apiClient.get<DeliverySlot[]>('/api/delivery/slot-windows'),
+  createSlot: (slot: DeliverySlotInput) => apiClient.post<DeliverySlot>('/api/delivery/slot-windows', slot),
+  updateSlot: (id: string, slot: DeliverySlotInput) => apiClient.put<DeliverySlot>(`/api/delivery/slot-windows/${id}`, slot),
+  deleteSlot: (id: string) => apiClient.delete<unknown>(`/api/delivery/slot-windows/${id}`),
+  /** Blackout dates from today on */
+  getBlackouts: () => apiClient.get<DeliveryBlackout[]>('/api/delivery/blackouts'),
+  createBlackout: (date: string, reason?: string) => apiClient.post<DeliveryBlackout>('/api/delivery/blackouts', { date, reason }),
+  deleteBlackout: (id: string) => apiClient.delete<unknown>(`/api/delivery/blackouts/${id}`),
+  /** Bookings against capacity per date and slot (dates YYYY-MM-DD, both included) */
+  getSlotUtilisation: (from: string, to: string) =>
+    apiClient.get<DeliverySlotUtilisation>('/api/delivery/slots/utilisation', { from, to }),
 }
 
 // AI Products API
@@ -387,22 +429,120 @@ export const dashboardApi = {
   getActivities: (limit?: number) => apiClient.get<any>('/api/dashboard/activities', { limit }),
   getAnalytics: (period?: number) => apiClient.get<any>('/api/dashboard/analytics', { period }),
   getAlerts: (threshold?: number) => apiClient.get<any>('/api/dashboard/alerts', { threshold }),
+  /** VAT and levies charged per month (dates YYYY-MM-DD, both included) */
+  getTaxSummary: (from: string, to: string) => apiClient.get<TaxSummary>('/api/dashboard/tax-summary', { from, to }),
+  /** Orders flagged by the SLA check as stuck in their status, most overdue first */
+  getNeedsAttention: () => apiClient.get<SlaBreach[]>('/api/dashboard/needs-attention'),
 }
 
 // Admin orders & transactions (live DB)
 export const ordersApi = {
-  getAdminOrders: (params?: { page?: number; limit?: number; status?: string }) =>
+  getAdminOrders: (params?: { page?: number; limit?: number } & AdminOrderFilters) =>
     apiClient.get<{ data: unknown[]; pagination?: { page: number; limit: number; total: number; totalPages: number } }>('/api/orders/admin/orders', params),
   getAdminTransactions: (params?: { page?: number; limit?: number; status?: string }) =>
     apiClient.get<{ data: unknown[]; pagination?: { page: number; limit: number; total: number; totalPages: number } }>('/api/orders/admin/transactions', params),
+  /** Refund a successful transaction; omit amount to refund the remaining balance. Settles via Paystack webhook. */
+  refundTransaction: (transactionId: string, body: { amount?: number; reason: string }) =>
+    apiClient.post<Refund>(`/api/orders/admin/transactions/${transactionId}/refund`, body),
+  getRefunds: (params?: { transactionId?: string; page?: number; limit?: number }) =>
+    apiClient.get<Refund[]>('/api/orders/admin/refunds', params),
+  /** Verify stale pending payments with Paystack now (also runs on a schedule). */
+  runReconciliation: () =>
+    apiClient.post<ReconciliationSummary>('/api/orders/admin/reconciliation/run'),
+  getDiscrepancies: (params?: { resolved?: boolean; type?: string; page?: number; limit?: number }) =>
+    apiClient.get<PaymentDiscrepancy[]>('/api/orders/admin/reconciliation/discrepancies', params),
+  resolveDiscrepancy: (id: string, note?: string) =>
+    apiClient.post<null>(`/api/orders/admin/reconciliation/discrepancies/${id}/resolve`, { note }),
+  /** Same status for many orders; each is checked like a single update and reported in results */
+  bulkUpdateStatus: (orderIds: string[], status: string, reason?: string) =>
+    apiClient.post<{ updated: number; failed: number; results: BulkOrderStatusResult[] }>('/api/orders/admin/orders/bulk/status', { orderIds, status, reason }),
+  /** Filtered orders (or line items, CSV only) as a file; resolves to a blob URL and the file name */
+  exportOrders: async (
+    filters: AdminOrderFilters,
+    format: OrderExportFormat,
+    dataset: OrderExportDataset = 'orders'
+  ): Promise<{ url: string; filename: string }> => {
+    const params = new URLSearchParams({ format, dataset })
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value) params.set(key, String(value))
+    })
+    const res = await fetchAdminFile(`/api/orders/admin/orders/export?${params.toString()}`)
+    return { url: URL.createObjectURL(await res.blob()), filename: fileNameFrom(res, `orders.${format}`) }
+  },
+  /** One PDF with the selected orders' invoices; orders without an invoice come back in skipped */
+  printInvoices: async (orderIds: string[]): Promise<{ url: string; skipped: string[] }> => {
+    const res = await fetchAdminFile('/api/orders/admin/orders/bulk/invoices', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ orderIds }),
+    })
+    const skipped = res.headers.get('X-Skipped-Orders')
+    return { url: URL.createObjectURL(await res.blob()), skipped: skipped ? skipped.split(',') : [] }
+  },
+  /** Move an order to its next status; the response carries the statuses allowed after this one. */
   updateOrderStatus: (orderId: string, status: string, reason?: string) =>
-    apiClient.put<any>(`/api/orders/${orderId}/status`, { status, reason }),
-  /** Verify delivery by 4-digit code (public endpoint; rider or admin) */
-  verifyDeliveryByCode: (code: string) =>
-    apiClient.post<{ data?: { orderId?: string; orderNumber?: string } }>('/api/orders/delivery/verify-code', { code }),
-  /** Verify delivery by QR token (public endpoint; rider or admin) */
-  verifyDeliveryByToken: (token: string) =>
-    apiClient.post<{ data?: { orderId?: string; orderNumber?: string } }>('/api/orders/delivery/verify-qr', { token }),
+    apiClient.put<{ status: string; allowedNextStatuses: string[] }>(`/api/orders/${orderId}/status`, { status, reason }),
+  /** Change an order's items before dispatch (quantity 0 removes). Extra to pay returns a payment link. */
+  amendOrder: (
+    orderId: string,
+    body: { items: { productId: string; quantity: number }[]; reason?: string; refundMethod?: 'original_payment' | 'store_credit' }
+  ) =>
+    apiClient.post<{ amendment: OrderAmendment; authorizationUrl?: string; warnings: string[] }>(`/api/orders/admin/orders/${orderId}/amend`, body),
+  getOrderAmendments: (orderId: string) =>
+    apiClient.get<OrderAmendment[]>(`/api/orders/admin/orders/${orderId}/amendments`),
+  /** Customers by name, email or phone (at least 2 characters) for admin-created orders */
+  searchCustomers: (search: string) =>
+    apiClient.get<AdminOrderCustomer[]>('/api/orders/admin/customers', { search }),
+  /** Place an order for a phone, WhatsApp or walk-in customer; pick userId or send newCustomer */
+  createAdminOrder: (body: {
+    channel: ManualOrderChannel
+    userId?: string
+    newCustomer?: { firstName: string; lastName: string; email: string; phoneNumber: string }
+    cartItems: { productId: string; quantity: number }[]
+    deliveryAddress: { street: string; city: string; region: string; phone: string; additionalInfo?: string }
+    deliveryNotes?: string
+    deliveryLat?: number
+    deliveryLng?: number
+    voucherCode?: string
+    payment: ManualOrderPayment
+    paidVia?: OfflinePaymentMethod
+    paymentNote?: string
+  }) =>
+    apiClient.post<CreateAdminOrderResult>('/api/orders/admin/orders', body),
+  /** Verify delivery by 4-digit code (the assigned rider, or an admin); orderId checks the code against that order only */
+  verifyDeliveryByCode: (code: string, collection?: CodCollectionDetails, proof?: DeliveryProofDetails, orderId?: string) =>
+    apiClient.post<{ orderId?: string; orderNumber?: string; warning?: string }>('/api/orders/delivery/verify-code', { code, orderId, ...collection, ...proof }),
+  /** Verify delivery by QR token (the assigned rider, or an admin) */
+  verifyDeliveryByToken: (token: string, collection?: CodCollectionDetails, proof?: DeliveryProofDetails) =>
+    apiClient.post<{ orderId?: string; orderNumber?: string; warning?: string }>('/api/orders/delivery/verify-qr', { token, ...collection, ...proof }),
+  /** Order timeline by public tracking token (no sign-in; the token is the credential) */
+  getPublicTracking: (token: string) =>
+    apiClient.get<OrderTracking>(`/api/orders/track/${encodeURIComponent(token)}`),
+  /** Pay-on-delivery collections per rider per day (dates YYYY-MM-DD) */
+  getCodReconciliation: (params?: { from?: string; to?: string; riderName?: string }) =>
+    apiClient.get<CodDailyReconciliation[]>('/api/orders/admin/cod/reconciliation', params),
+  recordCodRemittance: (data: { riderName: string; businessDate: string; receivedAmount: number; note?: string }) =>
+    apiClient.post<null>('/api/orders/admin/cod/remittances', data),
+}
+
+/** Admin file download; throws with the API's message when the server answers with an error */
+async function fetchAdminFile(endpoint: string, init: RequestInit = {}): Promise<Response> {
+  const token = typeof window !== 'undefined' ? getAdminToken() : null
+  const res = await fetch(`${API_BASE_URL}${endpoint}`, {
+    ...init,
+    credentials: 'include',
+    headers: { ...(init.headers as Record<string, string>), ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+  })
+  if (!res.ok) {
+    const data = await res.json().catch(() => null)
+    throw new Error(data?.message || 'Download failed')
+  }
+  return res
+}
+
+function fileNameFrom(res: Response, fallback: string): string {
+  const match = res.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)
+  return match ? match[1] : fallback
 }
 
 // Categories API
@@ -530,6 +670,116 @@ export const adminVouchersApi = {
   },
 }
 
+// Tax settings API (admin)
+export const adminTaxApi = {
+  getSettings: () => apiClient.get<TaxSettings>('/api/admin/tax/settings'),
+  updateSettings: (data: Partial<Omit<TaxSettings, 'updatedAt'>>) =>
+    apiClient.put<TaxSettings>('/api/admin/tax/settings', data),
+}
+
+// Checkout recovery API (admin)
+export const adminCheckoutRecoveryApi = {
+  getSettings: () => apiClient.get<CheckoutRecoverySettings>('/api/admin/checkout-recovery/settings'),
+  updateSettings: (data: Partial<Omit<CheckoutRecoverySettings, 'updatedAt'>>) =>
+    apiClient.put<CheckoutRecoverySettings>('/api/admin/checkout-recovery/settings', data),
+  /** Reminders sent between the dates (YYYY-MM-DD, both included) and the checkouts they won back */
+  getStats: (from: string, to: string) =>
+    apiClient.get<CheckoutRecoveryStats>('/api/admin/checkout-recovery/stats', { from, to }),
+}
+
+// Order risk API (admin)
+export const adminOrderRiskApi = {
+  getSettings: () => apiClient.get<OrderRiskSettings>('/api/admin/order-risk/settings'),
+  updateSettings: (data: Partial<Omit<OrderRiskSettings, 'updatedAt'>>) =>
+    apiClient.put<OrderRiskSettings>('/api/admin/order-risk/settings', data),
+  getReviewQueue: () => apiClient.get<RiskReviewItem[]>('/api/admin/order-risk/reviews'),
+  /** Approve (→ processing) or reject (→ cancelled, optionally refunded) a held order */
+  review: (orderId: string, body: { decision: 'approve' | 'reject'; note?: string; refund?: boolean }) =>
+    apiClient.post<RiskReviewResult>(`/api/admin/order-risk/reviews/${orderId}`, body),
+}
+
+// Order SLA API (admin)
+export const adminOrderSlaApi = {
+  getThresholds: () => apiClient.get<OrderSlaThreshold[]>('/api/admin/order-sla/thresholds'),
+  updateThresholds: (thresholds: Array<Omit<OrderSlaThreshold, 'updatedAt'>>) =>
+    apiClient.put<OrderSlaThreshold[]>('/api/admin/order-sla/thresholds', { thresholds }),
+  runCheck: () => apiClient.post<SlaCheckSummary>('/api/admin/order-sla/check'),
+}
+
+// Store credit API (admin)
+export const adminStoreCreditApi = {
+  getCustomer: (userId: string, params?: { type?: StoreCreditEntryType; page?: number; limit?: number }) =>
+    apiClient.get<StoreCreditBalance & { entries: StoreCreditEntry[] }>(`/api/admin/store-credit/users/${userId}`, params),
+  /** Positive amounts grant credit (optionally expiring); negative amounts remove available credit. */
+  adjust: (userId: string, body: { amount: number; reason: string; expiresAt?: string }) =>
+    apiClient.post<StoreCreditBalance>(`/api/admin/store-credit/users/${userId}/adjust`, body),
+}
+
+// Warehouses API (admin)
+export const adminWarehousesApi = {
+  list: () => apiClient.get<Warehouse[]>('/api/admin/warehouses'),
+  create: (data: WarehouseInput) => apiClient.post<Warehouse>('/api/admin/warehouses', data),
+  update: (id: string, data: WarehouseInput) => apiClient.put<Warehouse>(`/api/admin/warehouses/${id}`, data),
+  delete: (id: string) => apiClient.delete<null>(`/api/admin/warehouses/${id}`),
+  getStock: (id: string, params?: { search?: string; page?: number; limit?: number }) =>
+    apiClient.get<WarehouseStockRow[]>(`/api/admin/warehouses/${id}/stock`, params),
+  /** Set on-hand quantities in the warehouse; product totals follow */
+  setStock: (id: string, items: Array<{ productId: string; quantity: number }>) =>
+    apiClient.put<null>(`/api/admin/warehouses/${id}/stock`, { items }),
+  /** Orders waiting to be packed (confirmed and processing) and what to pick for them here */
+  getPickList: (id: string) => apiClient.get<PickList>(`/api/admin/warehouses/${id}/pick-list`),
+}
+
+export const adminRidersApi = {
+  list: (params?: { includeInactive?: boolean }) => apiClient.get<Rider[]>('/api/admin/riders', params),
+  create: (data: RiderInput) => apiClient.post<Rider>('/api/admin/riders', data),
+  /** A password resets the rider's password */
+  update: (id: string, data: RiderInput) => apiClient.put<Rider>(`/api/admin/riders/${id}`, data),
+  /** Shipped orders with their rider */
+  getAssignments: (params?: { unassigned?: boolean }) =>
+    apiClient.get<RiderAssignment[]>('/api/admin/riders/assignments', params),
+  /** riderId null unassigns the order */
+  assign: (orderId: string, riderId: string | null) =>
+    apiClient.put<null>(`/api/admin/riders/assignments/${orderId}`, { riderId }),
+  getPerformance: (params?: { from?: string; to?: string; riderId?: string }) =>
+    apiClient.get<RiderPerformanceReport>('/api/admin/riders/performance', params),
+  /** Delivery attempts on an order with their photo, recipient and GPS proof */
+  getOrderAttempts: (orderId: string) =>
+    apiClient.get<OrderDeliveryAttempts>(`/api/admin/riders/orders/${orderId}/attempts`),
+  /** Log a failed attempt reported by phone */
+  recordFailedAttempt: (orderId: string, body: { reasonCode: FailedAttemptReasonCode; note?: string }) =>
+    apiClient.post<{ rescheduleRequired: boolean }>(`/api/admin/riders/orders/${orderId}/failed-attempt`, body),
+}
+
+export const adminDeliveryRoutesApi = {
+  /** Batch and sequence the day's shipped orders; replaces that day's routes */
+  plan: (body: { date?: string; riderIds?: string[]; capacity?: number; assignRiders?: boolean }) =>
+    apiClient.post<DeliveryRoutePlan>('/api/admin/delivery-routes/plan', body),
+  list: (date?: string) => apiClient.get<DeliveryRoute[]>('/api/admin/delivery-routes', { date }),
+  /** Printable PDF run sheet; resolves to a blob URL */
+  runSheet: async (id: string): Promise<string> => {
+    const res = await fetchAdminFile(`/api/admin/delivery-routes/${id}/run-sheet`)
+    return URL.createObjectURL(await res.blob())
+  },
+}
+
+export const adminDeliveryCodesApi = {
+  /** Delivery verification audit trail, newest first (dates YYYY-MM-DD) */
+  listAttempts: (params?: {
+    orderId?: string
+    riderId?: string
+    outcome?: DeliveryVerificationOutcome
+    method?: 'code' | 'qr'
+    from?: string
+    to?: string
+    page?: number
+    limit?: number
+  }) => apiClient.get<DeliveryVerificationAttempt[]>('/api/admin/delivery-codes/attempts', params),
+  getStatus: (orderId: string) => apiClient.get<DeliveryCodeStatus>(`/api/admin/delivery-codes/orders/${orderId}`),
+  /** Issue a new code, lift any lock and email the code to the customer */
+  rotate: (orderId: string) => apiClient.post<DeliveryCodeStatus>(`/api/admin/delivery-codes/orders/${orderId}/rotate`),
+}
+
 // Pricing API (admin)
 export const pricingApi = {
   getRanges: () => apiClient.get<any>('/api/pricing/ranges'),
@@ -48,10 +48,24 @@ export function getOrderStatusColor(status: string): string {
     shipped: 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-200',
     delivered: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
     cancelled: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+    refunded: 'bg-teal-100 text-teal-800 dark:bg-teal-900 dark:text-teal-200',
+    failed: 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200',
   }
   return statusColors[status] || 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200'
 }
 
+/** Same labels as the backend's ORDER_STATUS_LABELS, used in emails and on the tracking page */
+export const ORDER_STATUS_LABELS: Record<string, string> = {
+  pending: 'Pending',
+  confirmed: 'Confirmed',
+  processing: 'Processing',
+  shipped: 'Out for delivery',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+  refunded: 'Refunded',
+  failed: 'Failed',
+}
+
 export function getPaymentMethodIcon(_method: string): string {
   return ''
 }
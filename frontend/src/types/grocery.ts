@@ -14,6 +14,7 @@ export interface GroceryProduct {
   type: string;
   packaging: string;
   inStock: boolean;
+  oversellPolicy?: OversellPolicy;
   rating: number;
   reviews: number;
   images: string[];
@@ -21,6 +22,106 @@ export interface GroceryProduct {
   updatedAt: Date;
 }
 
+/** What checkout does when a product runs out: reject, take it as a backorder, or take it and alert admins. */
+export type OversellPolicy = 'block' | 'backorder' | 'alert';
+
+export interface StockReservation {
+  id: string;
+  productId: string;
+  productName: string;
+  productQuantity: number | null;
+  pendingOrderId: string;
+  quantity: number;
+  backorderedQuantity: number;
+  oversellPolicy: OversellPolicy;
+  status: 'active' | 'committed' | 'released';
+  releaseReason: string | null;
+  expiresAt: string;
+  committedAt: string | null;
+  releasedAt: string | null;
+  createdAt: string;
+}
+
+export type PaymentDiscrepancyType = 'amount_mismatch' | 'currency_mismatch' | 'orphaned_charge' | 'finalize_failed';
+
+export interface PaymentDiscrepancy {
+  id: string;
+  run_id: string | null;
+  type: PaymentDiscrepancyType;
+  provider_reference: string;
+  payment_transaction_id: string | null;
+  expected_amount: number | null;
+  provider_amount: number | null;
+  expected_currency: string | null;
+  provider_currency: string | null;
+  details: string | null;
+  resolved_at: string | null;
+  resolved_by: string | null;
+  resolution_note: string | null;
+  created_at: string;
+}
+
+export interface ReconciliationSummary {
+  runId?: string;
+  checked: number;
+  finalized: number;
+  markedFailed: number;
+  discrepancies: number;
+  errors: string[];
+  skipped?: string;
+}
+
+export type CodCollectionMethod = 'cash' | 'mobile_money';
+
+/** Optional details a rider sends when confirming delivery of a pay-on-delivery order. */
+export interface CodCollectionDetails {
+  riderName?: string;
+  /** Leave out when the full order total was collected */
+  amountCollected?: number;
+  collectionMethod?: CodCollectionMethod;
+  momoReference?: string;
+}
+
+/** A location fix from the device confirming a delivery */
+export interface GpsFix {
+  lat: number;
+  lng: number;
+  /** Accuracy radius in metres */
+  accuracyM?: number;
+  capturedAt?: string;
+}
+
+/** Optional proof sent with a delivery confirmation */
+export interface DeliveryProofDetails {
+  recipientName?: string;
+  /** Base64 image data URL */
+  photo?: string;
+  gpsLat?: number;
+  gpsLng?: number;
+  gpsAccuracy?: number;
+  gpsCapturedAt?: string;
+}
+
+/** Pay-on-delivery collections for one rider on one day. */
+export interface CodDailyReconciliation {
+  businessDate: string;
+  riderName: string;
+  orders: number;
+  expected: number;
+  collected: number;
+  cash: number;
+  mobileMoney: number;
+  variance: number;
+  remittance: {
+    id: string;
+    receivedAmount: number;
+    receivedBy: string | null;
+    note: string | null;
+    createdAt: string;
+  } | null;
+  cashOutstanding: number | null;
+}
+
 export interface GroceryCategory {
   id: string;
   name: string;
@@ -29,6 +130,8 @@ export interface GroceryCategory {
   icon?: string;
   images: string[];
   subcategories: string[];
+  /** VAT and levies; exempt for unprocessed staples */
+  taxClass?: TaxClass;
   createdAt?: string;
   updatedAt?: string;
 }
@@ -45,6 +148,8 @@ export interface Order {
   paymentMethod: PaymentMethod;
   deliveryAddress: string;
   notes?: string;
+  /** Statuses the backend state machine allows next; empty when the order is final. */
+  allowedNextStatuses?: OrderStatus[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -58,9 +163,9 @@ export interface OrderItem {
   totalPrice: number;
 }
 
-export type OrderStatus = 'pending' | 'confirmed' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
+export type OrderStatus = 'pending' | 'confirmed' | 'processing' | 'shipped' | 'delivered' | 'cancelled' | 'refunded' | 'failed';
 
-export type PaymentMethod = 'cash' | 'mobile_money' | 'card' | 'bank_transfer';
+export type PaymentMethod = 'cash' | 'mobile_money' | 'card' | 'bank_transfer' | 'cash_on_delivery' | 'mobile_money_on_delivery';
 
 export interface Transaction {
   id: string;
@@ -68,6 +173,7 @@ export interface Transaction {
   customerName: string;
   customerEmail: string;
   amount: number;
+  refundedAmount?: number;
   currency: string;
   paymentMethod: PaymentMethod;
   status: TransactionStatus;
@@ -78,7 +184,618 @@ export interface Transaction {
   updatedAt: Date;
 }
 
-export type TransactionStatus = 'pending' | 'completed' | 'failed' | 'refunded' | 'cancelled';
+/** needs_review: payment reconciliation reported the payment to admins (see Payment discrepancies) */
+export type TransactionStatus = 'pending' | 'completed' | 'failed' | 'refunded' | 'cancelled' | 'needs_review';
+
+export type RefundStatus = 'pending' | 'processing' | 'processed' | 'failed';
+
+export interface Refund {
+  id: string;
+  payment_transaction_id: string;
+  order_id: string | null;
+  amount: number;
+  currency: string;
+  status: RefundStatus;
+  reason: string | null;
+  requested_by: string | null;
+  processed_at: string | null;
+  created_at: string;
+}
+
+export type OrderAmendmentStatus = 'awaiting_payment' | 'applied' | 'cancelled' | 'failed';
+
+export type OrderAmendmentSettlement = 'none' | 'payment_link' | 'collect_on_delivery' | 'refund' | 'store_credit';
+
+/** A change to an order's items before dispatch; amount_delta = new_total - previous_total. */
+export interface OrderAmendment {
+  id: string;
+  order_id: string;
+  requested_by_type: 'customer' | 'admin';
+  reason: string | null;
+  previous_total: number;
+  new_total: number;
+  amount_delta: number;
+  settlement: OrderAmendmentSettlement;
+  status: OrderAmendmentStatus;
+  payment_reference: string | null;
+  authorization_url: string | null;
+  refund_id: string | null;
+  store_credit_amount: number;
+  settlement_error: string | null;
+  applied_at: string | null;
+  created_at: string;
+}
+
+export type TrackingEventType =
+  | 'order_placed'
+  | 'payment_confirmed'
+  | 'invoice_generated'
+  | 'status_changed'
+  | 'order_updated'
+  | 'delivery_verified'
+  | 'refund_processed'
+  | 'rider_assigned';
+
+export interface TrackingEvent {
+  type: TrackingEventType;
+  status?: string;
+  label: string;
+  description: string;
+  at: string;
+}
+
+/** Customer-facing order timeline (public tracking page). */
+export interface OrderTracking {
+  orderNumber: string;
+  status: string;
+  statusLabel: string;
+  statusDescription: string;
+  paymentStatus: string;
+  payOnDelivery: boolean;
+  totalAmount: number;
+  currency: string;
+  itemCount: number;
+  placedAt: string;
+  trackingUrl: string;
+  timeline: TrackingEvent[];
+}
+
+export type StoreCreditEntryType = 'grant' | 'spend' | 'refund' | 'expiry' | 'adjustment';
+
+/** One store credit ledger line; amount is signed and balance_after is the wallet balance after it. */
+export interface StoreCreditEntry {
+  id: string;
+  user_id: string;
+  entry_type: StoreCreditEntryType;
+  amount: number;
+  remaining: number;
+  balance_after: number;
+  expires_at: string | null;
+  order_id: string | null;
+  pending_order_id: string | null;
+  reason: string | null;
+  created_by?: string | null;
+  created_at: string;
+}
+
+export interface StoreCreditBalance {
+  balance: number;
+  held: number;
+  available: number;
+  currency: string;
+  nextExpiry: { amount: number; expiresAt: string } | null;
+}
+
+export type ManualOrderChannel = 'phone' | 'whatsapp' | 'walk_in';
+
+export type ManualOrderPayment = 'payment_link' | 'cash_on_delivery' | 'mobile_money_on_delivery' | 'already_paid';
+
+export type OfflinePaymentMethod = 'cash' | 'mobile_money' | 'bank_transfer' | 'card';
+
+export interface AdminOrderCustomer {
+  id: string;
+  email: string;
+  name: string;
+  phoneNumber: string | null;
+}
+
+/** Admin-created order: the order fields are set unless the customer still has to pay the link. */
+export interface CreateAdminOrderResult {
+  customer: AdminOrderCustomer;
+  customerCreated: boolean;
+  pendingOrderId?: string;
+  paymentReference?: string;
+  amount?: number;
+  authorizationUrl?: string;
+  orderId?: string;
+  orderNumber?: string;
+  invoiceNumber?: string;
+  pdfUrl?: string;
+  deliveryCode?: string;
+  trackingUrl?: string;
+}
+
+/** Server-side filters for the admin order list; exports use the same ones. Dates are YYYY-MM-DD. */
+export interface AdminOrderFilters {
+  status?: OrderStatus;
+  paymentStatus?: 'pending' | 'paid' | 'refunded';
+  from?: string;
+  to?: string;
+  search?: string;
+}
+
+export type OrderExportFormat = 'csv' | 'xlsx';
+
+/** CSV holds one dataset; XLSX has both as sheets */
+export type OrderExportDataset = 'orders' | 'items';
+
+export type TaxClass = 'standard' | 'exempt';
+
+export type TaxComponent = 'nhil' | 'getfund' | 'covid' | 'vat';
+
+/** Rates are percentages (15 = 15%). New checkouts use these; placed orders keep their own breakdown. */
+export interface TaxSettings {
+  enabled: boolean;
+  pricesIncludeTax: boolean;
+  vatRate: number;
+  nhilRate: number;
+  getfundRate: number;
+  covidRate: number;
+  leviesInVatBase: boolean;
+  taxDeliveryFee: boolean;
+  vatNumber: string | null;
+  updatedAt: string | null;
+}
+
+export interface TaxSummaryRow {
+  /** YYYY-MM, or 'total' */
+  period: string;
+  orders: number;
+  taxableAmount: number;
+  exemptAmount: number;
+  taxes: Record<TaxComponent, number>;
+  totalTax: number;
+}
+
+export interface TaxSummary {
+  from: string;
+  to: string;
+  periods: TaxSummaryRow[];
+  totals: TaxSummaryRow;
+  /** Orders placed while tax was off */
+  untaxedOrders: number;
+}
+
+export interface CheckoutRecoverySettings {
+  enabled: boolean;
+  /** Minutes after the checkout started, one per reminder (max 3), ascending */
+  reminderDelaysMinutes: number[];
+  /** Unpaid checkouts can be resumed for this long */
+  resumeWindowHours: number;
+  updatedAt: string | null;
+}
+
+export interface CheckoutRecoveryReminderStats {
+  reminderNumber: number;
+  sent: number;
+  clicked: number;
+  /** Checkouts paid after this reminder and before the next one */
+  recovered: number;
+}
+
+export interface CheckoutRecoveryStats {
+  from: string;
+  to: string;
+  emailsSent: number;
+  checkoutsReminded: number;
+  checkoutsClicked: number;
+  checkoutsRecovered: number;
+  /** 0–1 */
+  conversionRate: number;
+  recoveredRevenue: number;
+  byReminder: CheckoutRecoveryReminderStats[];
+}
+
+export type DeliveryZoneFeeType = 'flat' | 'per_km' | 'blocked';
+
+export interface DeliveryZonePoint {
+  lat: number;
+  lng: number;
+}
+
+/** Named delivery area; the first active zone (lowest sortOrder) containing the pin sets the fee */
+export interface DeliveryZone {
+  id: string;
+  name: string;
+  polygon: DeliveryZonePoint[];
+  feeType: DeliveryZoneFeeType;
+  flatFee: number | null;
+  /** per_km zones; null uses the warehouse rate */
+  pricePerKm: number | null;
+  minOrderValue: number;
+  sortOrder: number;
+  active: boolean;
+  updatedAt: string | null;
+}
+
+export type DeliveryZoneInput = Omit<DeliveryZone, 'id' | 'updatedAt'>;
+
+/** Per-km rate up to upToKm (null: no limit); bands apply in order like tax brackets */
+export interface DeliveryDistanceBand {
+  upToKm: number | null;
+  pricePerKm: number;
+}
+
+/** Fixed amount added to orders placed in the window (Ghana time, end exclusive) */
+export interface DeliveryPeakSurcharge {
+  label: string;
+  /** 0 = Sunday … 6 = Saturday */
+  days: number[];
+  /** HH:MM */
+  startTime: string;
+  endTime: string;
+  amount: number;
+}
+
+/** Weekly delivery window customers can book (Ghana time) */
+export interface DeliverySlot {
+  id: string;
+  label: string | null;
+  /** 0 = Sunday … 6 = Saturday */
+  weekday: number;
+  /** HH:MM */
+  startTime: string;
+  endTime: string;
+  /** Orders per date */
+  capacity: number;
+  /** Booking closes this many minutes before the start */
+  cutoffMinutes: number;
+  /** Only offered inside this delivery zone; null for everywhere */
+  zoneId: string | null;
+  active: boolean;
+  updatedAt: string | null;
+}
+
+export type DeliverySlotInput = Omit<DeliverySlot, 'id' | 'updatedAt'>;
+
+export interface DeliveryBlackout {
+  id: string;
+  /** YYYY-MM-DD */
+  date: string;
+  reason: string | null;
+}
+
+export interface DeliverySlotUtilisationRow {
+  date: string;
+  slotId: string;
+  label: string | null;
+  startTime: string;
+  endTime: string;
+  capacity: number;
+  confirmed: number;
+  /** Checkouts still waiting for payment */
+  held: number;
+  remaining: number;
+  /** (confirmed + held) / capacity; above 1 when overbooked */
+  utilisation: number;
+  /** Reason when the date is blacked out */
+  blackout: string | null;
+}
+
+export interface DeliverySlotUtilisation {
+  from: string;
+  to: string;
+  rows: DeliverySlotUtilisationRow[];
+  totals: { capacity: number; confirmed: number; held: number; utilisation: number };
+}
+
+/** Hours a warehouse takes orders, Ghana time (UTC). days: 0 = Sunday … 6 = Saturday */
+export interface WarehouseOpeningHours {
+  days: number[];
+  /** HH:MM */
+  open: string;
+  /** HH:MM, exclusive */
+  close: string;
+}
+
+export interface Warehouse {
+  id: string;
+  code: string;
+  name: string;
+  address: string | null;
+  lat: number;
+  lng: number;
+  /** null serves every address */
+  serviceRadiusKm: number | null;
+  /** Empty: always open */
+  openingHours: WarehouseOpeningHours[];
+  isPrimary: boolean;
+  active: boolean;
+  updatedAt: string | null;
+}
+
+export type WarehouseInput = Omit<Warehouse, 'id' | 'updatedAt'>;
+
+export interface WarehouseStockRow {
+  productId: string;
+  productName: string;
+  image: string | null;
+  /** On hand in this warehouse */
+  quantity: number;
+  /** Held for checkouts waiting for payment */
+  reserved: number;
+  available: number;
+  /** On hand across all warehouses */
+  totalQuantity: number;
+}
+
+export interface PickListOrder {
+  id: string;
+  orderNumber: string;
+  status: string;
+  createdAt: string;
+  deliveryWindowStart: string | null;
+  customerName: string | null;
+  /** Other warehouses ship the rest of the order */
+  split: boolean;
+  items: Array<{ productId: string; name: string; quantity: number }>;
+}
+
+export interface PickList {
+  warehouseId: string;
+  warehouseName: string;
+  statuses: string[];
+  orders: PickListOrder[];
+  totals: Array<{ productId: string; name: string; quantity: number }>;
+}
+
+export interface Rider {
+  id: string;
+  fullName: string;
+  phone: string;
+  email: string | null;
+  vehicle: string | null;
+  /** Most stops per delivery route */
+  routeCapacity: number;
+  active: boolean;
+  lastLoginAt: string | null;
+  createdAt: string;
+}
+
+export interface RiderInput {
+  fullName: string;
+  phone: string;
+  email?: string | null;
+  vehicle?: string | null;
+  routeCapacity?: number;
+  active?: boolean;
+  /** Required when creating; resets the password on update */
+  password?: string;
+}
+
+/** A shipped order and the rider delivering it */
+export interface RiderAssignment {
+  orderId: string;
+  orderNumber: string;
+  status: string;
+  createdAt: string;
+  customerName: string | null;
+  city: string | null;
+  deliveryWindowStart: string | null;
+  riderId: string | null;
+  riderName: string | null;
+  assignedAt: string | null;
+  /** Set after a failed attempt; assigning a rider clears it */
+  rescheduleReason: FailedAttemptReasonCode | null;
+}
+
+export type FailedAttemptReasonCode = 'customer_unreachable' | 'wrong_address' | 'customer_refused' | 'other';
+
+export interface DeliveryAttempt {
+  id: string;
+  outcome: 'delivered' | 'failed';
+  reasonCode: FailedAttemptReasonCode | null;
+  note: string | null;
+  riderId: string | null;
+  riderName: string | null;
+  byAdmin: boolean;
+  recipientName: string | null;
+  /** Signed link, valid for an hour */
+  photoUrl: string | null;
+  gps: GpsFix | null;
+  /** Metres from the order's map pin to the GPS fix */
+  distanceFromPinM: number | null;
+  createdAt: string;
+}
+
+export interface OrderDeliveryAttempts {
+  orderId: string;
+  rescheduleReason: FailedAttemptReasonCode | null;
+  rescheduleRequestedAt: string | null;
+  /** Newest first */
+  attempts: DeliveryAttempt[];
+}
+
+export type DeliveryVerificationOutcome =
+  | 'confirmed'
+  | 'wrong_code'
+  | 'no_match'
+  | 'invalid_token'
+  | 'locked'
+  | 'not_assigned'
+  | 'order_required'
+  | 'rejected';
+
+/** One row of the delivery verification audit trail */
+export interface DeliveryVerificationAttempt {
+  id: string;
+  orderId: string | null;
+  orderNumber: string | null;
+  method: 'code' | 'qr';
+  outcome: DeliveryVerificationOutcome;
+  riderId: string | null;
+  riderName: string | null;
+  adminId: string | null;
+  ip: string | null;
+  userAgent: string | null;
+  detail: string | null;
+  createdAt: string;
+}
+
+/** Wrong-code counters and lock of one order */
+export interface DeliveryCodeStatus {
+  orderId: string;
+  /** Wrong codes against the current code */
+  codeFailures: number;
+  /** Wrong codes against every code the order has had */
+  totalFailures: number;
+  lockedUntil: string | null;
+  rotations: number;
+  rotatedAt: string | null;
+}
+
+export interface RiderPerformance {
+  riderId: string;
+  riderName: string;
+  active: boolean;
+  delivered: number;
+  failedAttempts: number;
+  /** Assignment to confirmed delivery; null without timed deliveries */
+  averageDeliveryMinutes: number | null;
+  /** Shipped orders assigned now */
+  openAssignments: number;
+  days: Array<{ date: string; delivered: number; failed: number }>;
+}
+
+export interface RiderPerformanceReport {
+  from: string;
+  to: string;
+  riders: RiderPerformance[];
+}
+
+export interface RouteStop {
+  orderId: string;
+  orderNumber: string;
+  customerName: string | null;
+  phone: string | null;
+  address: string;
+  notes: string | null;
+  lat: number;
+  lng: number;
+  deliveryWindowStart: string | null;
+  deliveryWindowEnd: string | null;
+  /** 0 unless the order is unpaid */
+  amountToCollect: number;
+  /** Straight-line km from the previous stop (or the warehouse) */
+  legKm: number;
+}
+
+export interface DeliveryRoute {
+  id: string;
+  date: string;
+  batchNumber: number;
+  riderId: string | null;
+  riderName: string | null;
+  origin: { lat: number; lng: number };
+  stops: RouteStop[];
+  totalDistanceKm: number;
+  /** Google Maps directions, at most 10 stops per link */
+  mapLinks: string[];
+  createdAt: string;
+}
+
+export interface DeliveryRoutePlan {
+  date: string;
+  origin: { lat: number; lng: number };
+  routes: DeliveryRoute[];
+  unrouted: Array<{ orderId: string; orderNumber: string; reason: 'no_pin' | 'over_capacity' | 'needs_reschedule' }>;
+}
+
+export type RiskRule = 'order_velocity' | 'first_order_value' | 'delivery_distance' | 'voucher_reuse' | 'payer_name_mismatch';
+
+export interface OrderRiskSettings {
+  enabled: boolean;
+  /** Orders scoring at least this are held for review */
+  holdScore: number;
+  velocityWindowHours: number;
+  velocityMaxOrders: number;
+  /** GHS */
+  firstOrderMaxAmount: number;
+  maxDistanceKm: number;
+  voucherReuseDays: number;
+  updatedAt: string | null;
+}
+
+export interface RiskRuleHit {
+  rule: RiskRule;
+  points: number;
+  detail: string;
+}
+
+/** An order held for risk review */
+export interface RiskReviewItem {
+  orderId: string;
+  orderNumber: string;
+  customerName: string;
+  customerEmail: string | null;
+  customerPhone: string | null;
+  deliveryAddress: string;
+  totalAmount: number;
+  paymentMethod: string | null;
+  score: number;
+  holdScore: number;
+  hits: RiskRuleHit[];
+  createdAt: string;
+}
+
+export interface RiskReviewResult {
+  orderId: string;
+  decision: 'approve' | 'reject';
+  status: 'processing' | 'cancelled';
+  refundRequested?: boolean;
+  refundError?: string;
+}
+
+export type SlaStatus = 'pending' | 'confirmed' | 'processing' | 'shipped';
+
+/** Longest an order should stay in a status before it is flagged */
+export interface OrderSlaThreshold {
+  status: SlaStatus;
+  thresholdMinutes: number;
+  enabled: boolean;
+  updatedAt: string | null;
+}
+
+/** An order over its SLA; level 2 means over twice the threshold */
+export interface SlaBreach {
+  id: string;
+  orderId: string;
+  orderNumber: string;
+  customerName: string;
+  status: SlaStatus;
+  statusSince: string;
+  thresholdMinutes: number;
+  minutesInStatus: number;
+  escalationLevel: 1 | 2;
+  breachedAt: string;
+}
+
+export interface SlaCheckSummary {
+  checked: number;
+  breached: number;
+  escalated: number;
+  resolved: number;
+  notified: number;
+  errors: string[];
+  skipped?: string;
+}
+
+export interface BulkOrderStatusResult {
+  orderId: string;
+  success: boolean;
+  status?: OrderStatus;
+  error?: string;
+}
 
 export interface AdminStats {
   totalProducts: number;